@@ -0,0 +1,94 @@
+/**
+ * SQLite 存储
+ *
+ * 使用 Node 内置的 node:sqlite，不依赖原生扩展。
+ * entities 保存每个用户每个实体的最新版本，changes 是按 seq 递增的变更日志，拉取游标即 seq。
+ */
+
+import { DatabaseSync } from 'node:sqlite'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entities (
+    user_id TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    operation TEXT NOT NULL,
+    data TEXT,
+    updated_at TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    PRIMARY KEY (user_id, entity_type, entity_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    operation TEXT NOT NULL,
+    data TEXT,
+    updated_at TEXT NOT NULL,
+    device_id TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS changes_user_seq ON changes (user_id, seq);
+
+  CREATE TABLE IF NOT EXISTS uploads (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    total_size INTEGER NOT NULL,
+    block_size INTEGER NOT NULL,
+    block_count INTEGER NOT NULL,
+    checksum TEXT,
+    mime_type TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS upload_blocks (
+    upload_id TEXT NOT NULL REFERENCES uploads (id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    data BLOB NOT NULL,
+    checksum TEXT NOT NULL,
+    PRIMARY KEY (upload_id, sequence)
+  );
+
+  CREATE TABLE IF NOT EXISTS images (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    data BLOB NOT NULL,
+    size INTEGER NOT NULL,
+    checksum TEXT NOT NULL,
+    mime_type TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS images_user_item ON images (user_id, item_id);
+`
+
+/**
+ * 打开数据库并建表，path 为 ':memory:' 时使用内存数据库（集成测试用）
+ */
+export function openDatabase(path: string): DatabaseSync {
+  const db = new DatabaseSync(path)
+  db.exec('PRAGMA journal_mode = WAL')
+  db.exec('PRAGMA foreign_keys = ON')
+  db.exec(SCHEMA)
+  return db
+}
+
+/**
+ * 在事务中执行，出错时回滚
+ */
+export function transaction<T>(db: DatabaseSync, fn: () => T): T {
+  db.exec('BEGIN IMMEDIATE')
+  try {
+    const result = fn()
+    db.exec('COMMIT')
+    return result
+  } catch (error) {
+    db.exec('ROLLBACK')
+    throw error
+  }
+}
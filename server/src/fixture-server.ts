@@ -0,0 +1,70 @@
+/**
+ * 静态测试页面服务
+ *
+ * 按目录原样提供文件，用于在本机测试网页剪藏：代理抓取这里的页面，结果稳定且不依赖外网。
+ */
+
+import { createServer, type Server } from 'node:http'
+import { readFile, stat } from 'node:fs/promises'
+import { extname, join, normalize, resolve, sep } from 'node:path'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+}
+
+export interface FixtureServerOptions {
+  root: string
+  /** 模拟重定向：请求路径到目标路径 */
+  redirects?: Record<string, string>
+}
+
+export function createFixtureServer(options: FixtureServerOptions): Server {
+  const root = resolve(options.root)
+  const redirects = options.redirects ?? {}
+
+  return createServer(async (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405).end()
+      return
+    }
+
+    const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname)
+    const redirect = redirects[pathname]
+    if (redirect) {
+      res.writeHead(301, { Location: redirect }).end()
+      return
+    }
+
+    // 不允许访问根目录之外的文件
+    let filePath = normalize(join(root, pathname))
+    if (filePath !== root && !filePath.startsWith(root + sep)) {
+      res.writeHead(403).end()
+      return
+    }
+
+    try {
+      if ((await stat(filePath)).isDirectory()) {
+        filePath = join(filePath, 'index.html')
+      }
+      const body = await readFile(filePath)
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+        'Content-Length': body.byteLength
+      })
+      res.end(req.method === 'HEAD' ? undefined : body)
+    } catch {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found')
+    }
+  })
+}
@@ -0,0 +1,27 @@
+/**
+ * 测试页面服务入口
+ *
+ * 环境变量：
+ *   FIXTURES_PORT 监听端口，默认 8788
+ *   FIXTURES_HOST 监听地址，默认 127.0.0.1
+ *   FIXTURES_DIR  页面目录，默认 ./fixtures
+ */
+
+import { createFixtureServer } from './fixture-server.ts'
+
+const port = parseInt(process.env.FIXTURES_PORT ?? '8788', 10)
+const host = process.env.FIXTURES_HOST ?? '127.0.0.1'
+const root = process.env.FIXTURES_DIR ?? './fixtures'
+
+// 剪藏时应记录重定向后的地址
+const server = createFixtureServer({
+  root,
+  redirects: { '/clipper/moved': '/clipper/article.html' }
+})
+
+server.listen(port, host, () => {
+  console.log(`Fixture pages served from ${root} on http://${host}:${port}`)
+})
+
+process.on('SIGINT', () => server.close(() => process.exit(0)))
+process.on('SIGTERM', () => server.close(() => process.exit(0)))
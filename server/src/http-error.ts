@@ -0,0 +1,12 @@
+/**
+ * 带 HTTP 状态码的错误，由路由层转换为 JSON 错误响应
+ */
+export class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
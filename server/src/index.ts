@@ -0,0 +1,8 @@
+// 供集成测试以编程方式启动服务
+export { openDatabase } from './database.ts'
+export { createFixtureServer, type FixtureServerOptions } from './fixture-server.ts'
+export { HttpError } from './http-error.ts'
+export { PageProxy, type PageProxyOptions, type ProxiedPage, type UpstreamRequest, type UpstreamResponse } from './page-proxy.ts'
+export { createSyncServer, type SyncServerOptions } from './server.ts'
+export { SyncService } from './sync-service.ts'
+export { UploadService, type CreateUploadRequest, type UploadStatus, type CompletedUpload } from './upload-service.ts'
@@ -0,0 +1,77 @@
+/**
+ * 命令行入口
+ *
+ * 环境变量：
+ *   PORT                 监听端口，默认 8787
+ *   HOST                 监听地址，默认 127.0.0.1
+ *   CARDALL_DB           SQLite 文件路径，默认 ./data/cardall-sync.db，':memory:' 为内存数据库
+ *   CARDALL_TOKENS       访问令牌，格式 token=userId，多个用逗号分隔；不设置时拒绝跨域请求，只适合本机使用
+ *   CARDALL_ALLOW_ORIGIN 必填，应用的来源（如 https://cards.example.com），只允许该来源跨域访问
+ *   CARDALL_PROXY_ALLOW_PRIVATE 设为 1 时剪藏代理可以抓取本机和内网地址，默认拒绝
+ */
+
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { openDatabase } from './database.ts'
+import { PageProxy } from './page-proxy.ts'
+import { createSyncServer } from './server.ts'
+import { UploadService } from './upload-service.ts'
+
+// 与客户端断点续传的最大会话年龄一致
+const UPLOAD_MAX_AGE = 24 * 60 * 60 * 1000
+const PURGE_INTERVAL = 60 * 60 * 1000
+
+function parseTokens(value: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>()
+  for (const entry of (value ?? '').split(',')) {
+    const [token, userId] = entry.split('=').map(part => part.trim())
+    if (token && userId) {
+      tokens.set(token, userId)
+    }
+  }
+  return tokens
+}
+
+const port = parseInt(process.env.PORT ?? '8787', 10)
+const host = process.env.HOST ?? '127.0.0.1'
+const dbPath = process.env.CARDALL_DB ?? './data/cardall-sync.db'
+const tokens = parseTokens(process.env.CARDALL_TOKENS)
+const allowOrigin = process.env.CARDALL_ALLOW_ORIGIN?.trim()
+const allowPrivateNetworks = process.env.CARDALL_PROXY_ALLOW_PRIVATE === '1'
+
+if (!allowOrigin || allowOrigin === '*') {
+  console.error('CARDALL_ALLOW_ORIGIN must be set to the origin the app is served from, e.g. http://localhost:5173')
+  process.exit(1)
+}
+
+if (dbPath !== ':memory:') {
+  mkdirSync(dirname(dbPath), { recursive: true })
+}
+
+const db = openDatabase(dbPath)
+const server = createSyncServer({ db, tokens, allowOrigin, proxy: new PageProxy({ allowPrivateNetworks }) })
+
+const uploads = new UploadService(db)
+const purgeTimer = setInterval(() => {
+  const purged = uploads.purgeExpired(UPLOAD_MAX_AGE)
+  if (purged > 0) {
+    console.log(`Purged ${purged} expired uploads`)
+  }
+}, PURGE_INTERVAL)
+purgeTimer.unref()
+
+server.listen(port, host, () => {
+  console.log(`CardAll sync server listening on http://${host}:${port}`)
+  if (tokens.size === 0) {
+    console.warn('CARDALL_TOKENS is not set: requests are not authenticated and cross-origin requests are refused, use only on a trusted machine')
+  }
+})
+
+const shutdown = () => {
+  server.close(() => {
+    db.close()
+    process.exit(0)
+  })
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
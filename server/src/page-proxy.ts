@@ -0,0 +1,240 @@
+/**
+ * 网页剪藏代理
+ *
+ * 浏览器不能跨域读取任意网页，剪藏时由服务端代为抓取页面和图片，原样返回内容和最终地址（跟随重定向后），
+ * 客户端再在本地提取正文。只允许 http(s)、网页和图片，并限制大小和耗时。
+ *
+ * 默认拒绝抓取本机、内网和链路本地地址（包括云服务器的元数据地址），
+ * 每次请求前解析主机名并检查全部地址，连接时直接使用检查过的地址，不再重新解析，
+ * 避免 DNS 重绑定绕过检查；重定向逐跳检查。
+ */
+
+import { lookup } from 'node:dns/promises'
+import { request as httpRequest, type IncomingMessage } from 'node:http'
+import { request as httpsRequest } from 'node:https'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+import type { Readable } from 'node:stream'
+import { HttpError } from './http-error.ts'
+
+const MAX_PAGE_SIZE = 10 * 1024 * 1024
+const FETCH_TIMEOUT = 15 * 1000
+const MAX_REDIRECTS = 5
+const ALLOWED_TYPES = [/^text\/html\b/i, /^application\/xhtml\+xml\b/i, /^image\//i]
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; CardAllClipper/1.0)',
+  Accept: 'text/html,application/xhtml+xml,image/*;q=0.9,*/*;q=0.5'
+}
+
+// 本机、内网、链路本地、组播和保留地址；IPv4 映射的 IPv6 地址按 IPv4 规则检查
+const PRIVATE_NETWORKS = new BlockList()
+const PRIVATE_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], // 包括 169.254.169.254 元数据地址
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 96, 'ipv6'], // 未指定地址、::1 和 IPv4 兼容地址
+  ['64:ff9b::', 96, 'ipv6'], // NAT64，可转换到任意 IPv4 地址
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['fec0::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+]
+PRIVATE_SUBNETS.forEach(([network, prefix, type]) => PRIVATE_NETWORKS.addSubnet(network, prefix, type))
+
+export interface ProxiedPage {
+  status: number
+  contentType: string
+  finalUrl: string
+  body: Buffer
+}
+
+// 上游响应，测试时可以用 Readable 构造
+export type UpstreamResponse = Readable & Pick<IncomingMessage, 'statusCode' | 'headers'>
+
+// 向 url 发起 GET 请求，连接到已检查的 address
+export type UpstreamRequest = (url: URL, address: string, signal: AbortSignal) => Promise<UpstreamResponse>
+
+export interface PageProxyOptions {
+  request?: UpstreamRequest // 测试时可替换
+  lookup?: (hostname: string) => Promise<string[]> // 解析主机名的全部地址，测试时可替换
+  allowPrivateNetworks?: boolean // 允许抓取本机和内网地址，只在可信的本机环境中使用
+  maxSize?: number
+  timeout?: number
+}
+
+export class PageProxy {
+  private readonly requestImpl: UpstreamRequest
+  private readonly lookup: (hostname: string) => Promise<string[]>
+  private readonly allowPrivateNetworks: boolean
+  private readonly maxSize: number
+  private readonly timeout: number
+
+  constructor(options: PageProxyOptions = {}) {
+    this.requestImpl = options.request ?? requestUpstream
+    this.lookup = options.lookup ?? resolveHost
+    this.allowPrivateNetworks = options.allowPrivateNetworks ?? false
+    this.maxSize = options.maxSize ?? MAX_PAGE_SIZE
+    this.timeout = options.timeout ?? FETCH_TIMEOUT
+  }
+
+  async fetchPage(target: string | null): Promise<ProxiedPage> {
+    let url = parseTarget(target)
+    // 整个重定向链共用一个超时
+    const signal = AbortSignal.timeout(this.timeout)
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await this.resolveAddress(url)
+      const response = await this.request(url, address, signal)
+      const location = response.headers.location
+      if (!REDIRECT_STATUSES.has(response.statusCode ?? 0) || !location) {
+        return this.readPage(url, response)
+      }
+
+      response.destroy()
+      if (redirects >= MAX_REDIRECTS) {
+        throw new HttpError(502, 'Too many redirects')
+      }
+      url = parseRedirect(location, url)
+    }
+  }
+
+  private async request(url: URL, address: string, signal: AbortSignal): Promise<UpstreamResponse> {
+    try {
+      return await this.requestImpl(url, address, signal)
+    } catch (error) {
+      throw new HttpError(502, `Failed to fetch ${url.href}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // 解析出连接使用的地址，任何一个地址在内网中都拒绝
+  private async resolveAddress(url: URL): Promise<string> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '')
+    let addresses: string[]
+    if (isIP(hostname)) {
+      addresses = [hostname]
+    } else {
+      try {
+        addresses = await this.lookup(hostname)
+      } catch (error) {
+        throw new HttpError(502, `Failed to resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      if (addresses.length === 0) {
+        throw new HttpError(502, `Failed to resolve ${hostname}`)
+      }
+    }
+
+    if (!this.allowPrivateNetworks && addresses.some(isPrivateAddress)) {
+      throw new HttpError(403, `Refusing to fetch ${url.host}: it is a private network address`)
+    }
+    return addresses[0]
+  }
+
+  private async readPage(url: URL, response: UpstreamResponse): Promise<ProxiedPage> {
+    const status = response.statusCode ?? 0
+    try {
+      if (status < 200 || status >= 300) {
+        throw new HttpError(502, `Upstream responded with ${status}`)
+      }
+
+      const contentType = response.headers['content-type'] ?? 'application/octet-stream'
+      if (!ALLOWED_TYPES.some(pattern => pattern.test(contentType))) {
+        throw new HttpError(415, `Unsupported content type: ${contentType}`)
+      }
+
+      const declaredSize = parseInt(response.headers['content-length'] ?? '', 10)
+      if (declaredSize > this.maxSize) {
+        throw new HttpError(413, 'Upstream response too large')
+      }
+
+      return {
+        status,
+        contentType,
+        finalUrl: url.href,
+        body: await this.readLimited(response)
+      }
+    } finally {
+      // 提前结束时不再接收剩余内容
+      response.destroy()
+    }
+  }
+
+  // Content-Length 可能缺失或不准确，读取时再限制一次
+  private async readLimited(response: UpstreamResponse): Promise<Buffer> {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    for await (const chunk of response) {
+      size += chunk.byteLength
+      if (size > this.maxSize) {
+        throw new HttpError(413, 'Upstream response too large')
+      }
+      chunks.push(Buffer.from(chunk))
+    }
+    return Buffer.concat(chunks)
+  }
+}
+
+function parseTarget(target: string | null): URL {
+  if (!target) {
+    throw new HttpError(400, 'Missing url parameter')
+  }
+
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    throw new HttpError(400, 'Invalid url parameter')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, 'Only http and https URLs can be fetched')
+  }
+  return url
+}
+
+function parseRedirect(location: string, from: URL): URL {
+  let url: URL
+  try {
+    url = new URL(location, from)
+  } catch {
+    throw new HttpError(502, 'Upstream sent an invalid redirect')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(502, 'Upstream redirected to a non-http URL')
+  }
+  return url
+}
+
+function requestUpstream(url: URL, address: string, signal: AbortSignal): Promise<UpstreamResponse> {
+  const family = isIP(address)
+  // 主机名仍用于 Host 请求头和 TLS 证书校验，连接只使用给定的地址
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }])
+    } else {
+      callback(null, address, family)
+    }
+  }
+
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    const req = send(url, { headers: REQUEST_HEADERS, signal, lookup: pinnedLookup }, resolve)
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const entries = await lookup(hostname, { all: true, verbatim: true })
+  return entries.map(entry => entry.address)
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
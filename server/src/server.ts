@@ -0,0 +1,216 @@
+/**
+ * HTTP 路由
+ *
+ * POST /sync/push、POST /sync/pull 对应客户端 HttpSyncTransport（baseUrl 为 {服务地址}/sync），
+ * /uploads 提供分块续传，/images/:id 下载已上传的图片，/proxy 为网页剪藏代为抓取页面。
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { DatabaseSync } from 'node:sqlite'
+import { HttpError } from './http-error.ts'
+import { PageProxy } from './page-proxy.ts'
+import { SyncService } from './sync-service.ts'
+import { DEFAULT_BLOCK_SIZE, UploadService } from './upload-service.ts'
+
+const MAX_JSON_BODY = 10 * 1024 * 1024
+const MAX_BLOCK_BODY = 4 * 1024 * 1024
+
+export interface SyncServerOptions {
+  db: DatabaseSync
+  /** 访问令牌到用户 ID 的映射；为空时不校验令牌，用户取自 X-User-Id 请求头（仅限本地使用） */
+  tokens?: Map<string, string>
+  /** 允许跨域访问的来源（应用的地址）；不设置时拒绝所有跨域请求 */
+  allowOrigin?: string
+  /** 网页剪藏代理，测试时可替换抓取方式 */
+  proxy?: PageProxy
+}
+
+type Handler = (context: RequestContext) => Promise<unknown> | unknown
+
+interface RequestContext {
+  req: IncomingMessage
+  res: ServerResponse
+  userId: string
+  params: string[]
+}
+
+interface Route {
+  method: string
+  pattern: RegExp
+  handler: Handler
+  public?: boolean // 无需身份验证
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > limit) {
+      throw new HttpError(413, 'Request body too large')
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const body = await readBody(req, MAX_JSON_BODY)
+  try {
+    return JSON.parse(body.toString('utf8')) as T
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON')
+  }
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    throw new HttpError(400, 'Malformed URL path parameter')
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+export function createSyncServer(options: SyncServerOptions): Server {
+  const { db, tokens = new Map(), allowOrigin, proxy = new PageProxy() } = options
+  const sync = new SyncService(db)
+  const uploads = new UploadService(db)
+
+  const routes: Route[] = [
+    { method: 'GET', pattern: /^\/health$/, handler: () => ({ status: 'ok', blockSize: DEFAULT_BLOCK_SIZE }), public: true },
+
+    { method: 'POST', pattern: /^\/sync\/push$/, handler: async ({ req, userId }) => sync.push(userId, await readJson(req)) },
+    { method: 'POST', pattern: /^\/sync\/pull$/, handler: async ({ req, userId }) => sync.pull(userId, await readJson(req)) },
+
+    { method: 'POST', pattern: /^\/uploads$/, handler: async ({ req, userId }) => uploads.create(userId, await readJson(req)) },
+    { method: 'GET', pattern: /^\/uploads\/([^/]+)$/, handler: ({ userId, params }) => uploads.status(userId, params[0]) },
+    {
+      method: 'PUT',
+      pattern: /^\/uploads\/([^/]+)\/blocks\/(\d+)$/,
+      handler: async ({ req, userId, params }) => {
+        const checksum = req.headers['x-block-checksum']
+        return uploads.putBlock(
+          userId,
+          params[0],
+          parseInt(params[1], 10),
+          await readBody(req, MAX_BLOCK_BODY),
+          typeof checksum === 'string' ? checksum : undefined
+        )
+      }
+    },
+    { method: 'POST', pattern: /^\/uploads\/([^/]+)\/complete$/, handler: ({ userId, params }) => uploads.complete(userId, params[0]) },
+    {
+      method: 'DELETE',
+      pattern: /^\/uploads\/([^/]+)$/,
+      handler: ({ userId, params }) => {
+        uploads.cancel(userId, params[0])
+        return { cancelled: true }
+      }
+    },
+
+    {
+      method: 'GET',
+      pattern: /^\/images\/([^/]+)$/,
+      handler: ({ res, userId, params }) => {
+        const image = uploads.getImage(userId, params[0])
+        res.writeHead(200, {
+          'Content-Type': image.mimeType ?? 'application/octet-stream',
+          'Content-Length': image.data.byteLength,
+          'Cache-Control': 'private, max-age=31536000, immutable',
+          ETag: `"${image.checksum}"`
+        })
+        res.end(image.data)
+      }
+    },
+
+    {
+      method: 'GET',
+      pattern: /^\/proxy$/,
+      handler: async ({ req, res }) => {
+        const target = new URL(req.url ?? '/', 'http://localhost').searchParams.get('url')
+        const page = await proxy.fetchPage(target)
+        res.writeHead(200, {
+          'Content-Type': page.contentType,
+          'Content-Length': page.body.byteLength,
+          'X-Final-Url': page.finalUrl,
+          'Cache-Control': 'no-store'
+        })
+        res.end(page.body)
+      }
+    }
+  ]
+
+  const authenticate = (req: IncomingMessage): string => {
+    if (tokens.size === 0) {
+      const header = req.headers['x-user-id']
+      return typeof header === 'string' && header ? header : 'local'
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')
+    const userId = match ? tokens.get(match[1].trim()) : undefined
+    if (!userId) {
+      throw new HttpError(401, 'Invalid or missing access token')
+    }
+    return userId
+  }
+
+  // 浏览器跨域请求只接受配置的来源；没有访问令牌时任何网页都能冒充本机用户，因此一律拒绝
+  const checkOrigin = (req: IncomingMessage, res: ServerResponse): void => {
+    const origin = req.headers.origin
+    if (!origin) return
+
+    if (origin !== allowOrigin) {
+      throw new HttpError(403, 'Origin not allowed')
+    }
+    if (tokens.size === 0) {
+      throw new HttpError(403, 'Cross-origin requests require access tokens')
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-User-Id, X-Block-Checksum')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
+    res.setHeader('Access-Control-Expose-Headers', 'X-Final-Url')
+  }
+
+  return createServer(async (req, res) => {
+    res.setHeader('Vary', 'Origin')
+
+    try {
+      checkOrigin(req, res)
+
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204)
+        res.end()
+        return
+      }
+
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname
+      const candidates = routes.filter(route => route.pattern.test(path))
+      const route = candidates.find(candidate => candidate.method === req.method)
+      if (!route) {
+        throw candidates.length > 0
+          ? new HttpError(405, 'Method not allowed')
+          : new HttpError(404, 'Not found')
+      }
+
+      const userId = route.public ? '' : authenticate(req)
+      const params = route.pattern.exec(path)!.slice(1).map(decodeParam)
+      const result = await route.handler({ req, res, userId, params })
+      if (!res.headersSent) {
+        sendJson(res, 200, result)
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message })
+      } else {
+        console.error('Request failed:', req.method, req.url, error)
+        sendJson(res, 500, { error: 'Internal server error' })
+      }
+    }
+  })
+}
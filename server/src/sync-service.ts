@@ -0,0 +1,153 @@
+/**
+ * 变更集同步
+ *
+ * 与客户端 SyncEngine 使用相同的协议（src/types/sync.ts）：
+ * 推送时基础版本与服务端当前版本一致才接受并分配新版本，否则返回服务端当前版本作为冲突；
+ * 拉取时返回游标之后其他设备产生的变更。所有数据按用户隔离。
+ */
+
+import type { DatabaseSync } from 'node:sqlite'
+import type {
+  SyncChange,
+  SyncEntityType,
+  SyncPullRequest,
+  SyncPullResult,
+  SyncPushRequest,
+  SyncPushResult
+} from '../../src/types/sync.ts'
+import { transaction } from './database.ts'
+import { HttpError } from './http-error.ts'
+
+const ENTITY_TYPES: SyncEntityType[] = ['card', 'folder', 'tag']
+const DEFAULT_PULL_LIMIT = 200
+const MAX_PULL_LIMIT = 1000
+const MAX_PUSH_CHANGES = 500
+
+interface ChangeRow {
+  seq?: number
+  entity_type: SyncEntityType
+  entity_id: string
+  version: number
+  operation: SyncChange['operation']
+  data: string | null
+  updated_at: string
+  device_id: string
+}
+
+function toChange(row: ChangeRow): SyncChange {
+  return {
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    operation: row.operation,
+    data: row.data ? JSON.parse(row.data) : undefined,
+    baseVersion: row.version - 1,
+    version: row.version,
+    updatedAt: row.updated_at,
+    deviceId: row.device_id
+  }
+}
+
+function validateChange(change: SyncChange): void {
+  if (!change || typeof change !== 'object') {
+    throw new HttpError(400, 'Invalid change')
+  }
+  if (!ENTITY_TYPES.includes(change.entityType)) {
+    throw new HttpError(400, `Unknown entity type: ${change.entityType}`)
+  }
+  if (typeof change.entityId !== 'string' || !change.entityId) {
+    throw new HttpError(400, 'Change is missing entityId')
+  }
+  if (change.operation !== 'upsert' && change.operation !== 'delete') {
+    throw new HttpError(400, `Unknown operation: ${change.operation}`)
+  }
+  if (!Number.isInteger(change.baseVersion) || change.baseVersion < 0) {
+    throw new HttpError(400, 'Change has an invalid baseVersion')
+  }
+}
+
+export class SyncService {
+  private readonly db: DatabaseSync
+
+  constructor(db: DatabaseSync) {
+    this.db = db
+  }
+
+  push(userId: string, request: SyncPushRequest): SyncPushResult {
+    if (!Array.isArray(request?.changes) || typeof request.deviceId !== 'string') {
+      throw new HttpError(400, 'Push request must include deviceId and changes')
+    }
+    if (request.changes.length > MAX_PUSH_CHANGES) {
+      throw new HttpError(413, `At most ${MAX_PUSH_CHANGES} changes can be pushed at once`)
+    }
+    request.changes.forEach(validateChange)
+
+    const selectEntity = this.db.prepare(
+      `SELECT entity_type, entity_id, version, operation, data, updated_at, device_id
+       FROM entities WHERE user_id = ? AND entity_type = ? AND entity_id = ?`
+    )
+    const upsertEntity = this.db.prepare(
+      `INSERT INTO entities (user_id, entity_type, entity_id, version, operation, data, updated_at, device_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, entity_type, entity_id) DO UPDATE SET
+         version = excluded.version, operation = excluded.operation, data = excluded.data,
+         updated_at = excluded.updated_at, device_id = excluded.device_id`
+    )
+    const insertChange = this.db.prepare(
+      `INSERT INTO changes (user_id, entity_type, entity_id, version, operation, data, updated_at, device_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+
+    return transaction(this.db, () => {
+      const result: SyncPushResult = { accepted: [], conflicts: [] }
+
+      for (const change of request.changes) {
+        const current = selectEntity.get(userId, change.entityType, change.entityId) as ChangeRow | undefined
+        const currentVersion = current?.version ?? 0
+
+        if (currentVersion !== change.baseVersion) {
+          result.conflicts.push(current
+            ? toChange(current)
+            : { ...change, operation: 'delete', data: undefined, version: 0 })
+          continue
+        }
+
+        const version = currentVersion + 1
+        const data = change.operation === 'delete' || !change.data ? null : JSON.stringify(change.data)
+        const updatedAt = change.updatedAt || new Date().toISOString()
+        const params = [userId, change.entityType, change.entityId, version, change.operation, data, updatedAt, request.deviceId] as const
+
+        upsertEntity.run(...params)
+        insertChange.run(...params)
+        result.accepted.push({ entityType: change.entityType, entityId: change.entityId, version })
+      }
+
+      return result
+    })
+  }
+
+  pull(userId: string, request: SyncPullRequest): SyncPullResult {
+    if (typeof request?.deviceId !== 'string') {
+      throw new HttpError(400, 'Pull request must include deviceId')
+    }
+    if (request.limit !== undefined && !Number.isInteger(request.limit)) {
+      throw new HttpError(400, 'Pull request has an invalid limit')
+    }
+
+    const since = request.cursor ? parseInt(request.cursor, 10) || 0 : 0
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_PULL_LIMIT, 1), MAX_PULL_LIMIT)
+
+    // 多取一条判断是否还有更多
+    const rows = this.db.prepare(
+      `SELECT seq, entity_type, entity_id, version, operation, data, updated_at, device_id
+       FROM changes WHERE user_id = ? AND seq > ? ORDER BY seq LIMIT ?`
+    ).all(userId, since, limit + 1) as unknown as ChangeRow[]
+
+    const page = rows.slice(0, limit)
+    return {
+      // 不返回请求设备自己推送的变更
+      changes: page.filter(row => row.device_id !== request.deviceId).map(toChange),
+      cursor: String(page.length > 0 ? page[page.length - 1].seq : since),
+      hasMore: rows.length > limit
+    }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * 分块断点续传上传
+ *
+ * 与客户端 ResumableUploadService 的分块方式一致：默认 64KB 一块，按 sequence 编号，
+ * 每块附带 SHA-256 校验和。已收到的块会保留，客户端重连后查询上传状态即可只补传缺失的块。
+ * 全部块到齐后合并为图片，并校验整体大小和校验和。
+ */
+
+import { createHash, randomUUID } from 'node:crypto'
+import type { DatabaseSync } from 'node:sqlite'
+import { transaction } from './database.ts'
+import { HttpError } from './http-error.ts'
+
+export const DEFAULT_BLOCK_SIZE = 65536
+const MAX_BLOCK_SIZE = 4 * 1024 * 1024
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024
+
+export interface CreateUploadRequest {
+  itemId: string
+  totalSize: number
+  blockSize?: number
+  checksum?: string // 整个文件的 SHA-256，完成时校验
+  mimeType?: string
+}
+
+export interface UploadStatus {
+  uploadId: string
+  itemId: string
+  totalSize: number
+  blockSize: number
+  blockCount: number
+  receivedBlocks: number[]
+}
+
+export interface CompletedUpload {
+  imageId: string
+  itemId: string
+  size: number
+  checksum: string
+}
+
+interface UploadRow {
+  id: string
+  user_id: string
+  item_id: string
+  total_size: number
+  block_size: number
+  block_count: number
+  checksum: string | null
+  mime_type: string | null
+}
+
+export function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+export class UploadService {
+  private readonly db: DatabaseSync
+
+  constructor(db: DatabaseSync) {
+    this.db = db
+  }
+
+  /**
+   * 创建上传会话；同一项目未完成的相同上传会被复用，以便续传
+   */
+  create(userId: string, request: CreateUploadRequest): UploadStatus {
+    const { itemId, totalSize, blockSize = DEFAULT_BLOCK_SIZE, checksum, mimeType } = request ?? {}
+
+    if (typeof itemId !== 'string' || !itemId) {
+      throw new HttpError(400, 'Upload must include itemId')
+    }
+    if (!Number.isInteger(totalSize) || totalSize <= 0 || totalSize > MAX_UPLOAD_SIZE) {
+      throw new HttpError(400, `totalSize must be between 1 and ${MAX_UPLOAD_SIZE} bytes`)
+    }
+    if (!Number.isInteger(blockSize) || blockSize <= 0 || blockSize > MAX_BLOCK_SIZE) {
+      throw new HttpError(400, `blockSize must be between 1 and ${MAX_BLOCK_SIZE} bytes`)
+    }
+
+    const existing = this.db.prepare(
+      `SELECT * FROM uploads
+       WHERE user_id = ? AND item_id = ? AND total_size = ? AND block_size = ? AND checksum IS ?`
+    ).get(userId, itemId, totalSize, blockSize, checksum ?? null) as UploadRow | undefined
+    if (existing) {
+      return this.toStatus(existing)
+    }
+
+    const now = new Date().toISOString()
+    const upload: UploadRow = {
+      id: randomUUID(),
+      user_id: userId,
+      item_id: itemId,
+      total_size: totalSize,
+      block_size: blockSize,
+      block_count: Math.ceil(totalSize / blockSize),
+      checksum: checksum ?? null,
+      mime_type: mimeType ?? null
+    }
+    this.db.prepare(
+      `INSERT INTO uploads (id, user_id, item_id, total_size, block_size, block_count, checksum, mime_type, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      upload.id, userId, itemId, totalSize, blockSize, upload.block_count,
+      upload.checksum, upload.mime_type, now, now
+    )
+    return this.toStatus(upload)
+  }
+
+  status(userId: string, uploadId: string): UploadStatus {
+    return this.toStatus(this.getUpload(userId, uploadId))
+  }
+
+  /**
+   * 写入一个数据块，重复上传同一块会覆盖
+   */
+  putBlock(userId: string, uploadId: string, sequence: number, data: Uint8Array, checksum?: string): UploadStatus {
+    const upload = this.getUpload(userId, uploadId)
+
+    if (!Number.isInteger(sequence) || sequence < 0 || sequence >= upload.block_count) {
+      throw new HttpError(400, `Block sequence must be between 0 and ${upload.block_count - 1}`)
+    }
+    const expectedSize = sequence === upload.block_count - 1
+      ? upload.total_size - sequence * upload.block_size
+      : upload.block_size
+    if (data.byteLength !== expectedSize) {
+      throw new HttpError(400, `Block ${sequence} should be ${expectedSize} bytes, got ${data.byteLength}`)
+    }
+
+    const actual = sha256(data)
+    if (checksum && checksum.toLowerCase() !== actual) {
+      throw new HttpError(422, `Checksum mismatch for block ${sequence}`)
+    }
+
+    transaction(this.db, () => {
+      this.db.prepare(
+        `INSERT OR REPLACE INTO upload_blocks (upload_id, sequence, data, checksum) VALUES (?, ?, ?, ?)`
+      ).run(uploadId, sequence, data, actual)
+      this.db.prepare('UPDATE uploads SET updated_at = ? WHERE id = ?').run(new Date().toISOString(), uploadId)
+    })
+    return this.toStatus(upload)
+  }
+
+  /**
+   * 合并所有数据块为图片
+   */
+  complete(userId: string, uploadId: string): CompletedUpload {
+    const upload = this.getUpload(userId, uploadId)
+    const blocks = this.db.prepare(
+      'SELECT sequence, data FROM upload_blocks WHERE upload_id = ? ORDER BY sequence'
+    ).all(uploadId) as unknown as { sequence: number; data: Uint8Array }[]
+
+    if (blocks.length !== upload.block_count) {
+      const received = new Set(blocks.map(block => block.sequence))
+      const missing = Array.from({ length: upload.block_count }, (_, i) => i).filter(i => !received.has(i))
+      throw new HttpError(409, `Upload is missing blocks: ${missing.slice(0, 20).join(', ')}`)
+    }
+
+    const data = Buffer.concat(blocks.map(block => block.data))
+    const checksum = sha256(data)
+    if (upload.checksum && upload.checksum.toLowerCase() !== checksum) {
+      throw new HttpError(422, 'Checksum mismatch for assembled upload')
+    }
+
+    const imageId = randomUUID()
+    transaction(this.db, () => {
+      this.db.prepare(
+        `INSERT INTO images (id, user_id, item_id, data, size, checksum, mime_type, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(imageId, userId, upload.item_id, data, data.byteLength, checksum, upload.mime_type, new Date().toISOString())
+      this.db.prepare('DELETE FROM uploads WHERE id = ?').run(uploadId)
+    })
+
+    return { imageId, itemId: upload.item_id, size: data.byteLength, checksum }
+  }
+
+  cancel(userId: string, uploadId: string): void {
+    this.getUpload(userId, uploadId)
+    this.db.prepare('DELETE FROM uploads WHERE id = ?').run(uploadId)
+  }
+
+  getImage(userId: string, imageId: string): { data: Uint8Array; mimeType: string | null; checksum: string } {
+    const image = this.db.prepare(
+      'SELECT data, mime_type, checksum FROM images WHERE user_id = ? AND id = ?'
+    ).get(userId, imageId) as { data: Uint8Array; mime_type: string | null; checksum: string } | undefined
+    if (!image) {
+      throw new HttpError(404, 'Image not found')
+    }
+    return { data: image.data, mimeType: image.mime_type, checksum: image.checksum }
+  }
+
+  /**
+   * 清理长时间没有新数据块的上传会话
+   */
+  purgeExpired(maxAge: number): number {
+    const cutoff = new Date(Date.now() - maxAge).toISOString()
+    return Number(this.db.prepare('DELETE FROM uploads WHERE updated_at < ?').run(cutoff).changes)
+  }
+
+  private getUpload(userId: string, uploadId: string): UploadRow {
+    const upload = this.db.prepare(
+      'SELECT * FROM uploads WHERE user_id = ? AND id = ?'
+    ).get(userId, uploadId) as UploadRow | undefined
+    if (!upload) {
+      throw new HttpError(404, 'Upload not found')
+    }
+    return upload
+  }
+
+  private toStatus(upload: UploadRow): UploadStatus {
+    const rows = this.db.prepare(
+      'SELECT sequence FROM upload_blocks WHERE upload_id = ? ORDER BY sequence'
+    ).all(upload.id) as unknown as { sequence: number }[]
+
+    return {
+      uploadId: upload.id,
+      itemId: upload.item_id,
+      totalSize: upload.total_size,
+      blockSize: upload.block_size,
+      blockCount: upload.block_count,
+      receivedBlocks: rows.map(row => row.sequence)
+    }
+  }
+}
@@ -4,10 +4,14 @@ import { ThemeProvider } from '@/components/theme-provider'
 import { Toaster } from '@/components/ui/sonner'
 import { TooltipProvider } from '@/components/ui/tooltip'
 import { InstallPrompt } from '@/components/pwa/install-prompt'
+import { VaultGate } from '@/components/security/vault-lock-screen'
+import { SharedCardView } from '@/components/share/shared-card-view'
 import { CardAllProvider } from '@/contexts/cardall-context'
 import { StylePanelProvider } from '@/contexts/style-panel-context'
 import { TagPanelProvider } from '@/contexts/tag-panel-context'
 import { PaymentProvider } from '@/contexts/payment-context'
+import { AccessibilityProvider } from '@/hooks/use-accessibility'
+import { useSharedCardViewer } from '@/hooks/use-card-share'
 
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertTriangle } from 'lucide-react'
@@ -18,6 +22,8 @@ interface AppProps {
 }
 
 function AppContent({ initializationError }: AppProps) {
+  const sharedCard = useSharedCardViewer()
+
   return (
     <div className="min-h-screen bg-background">
       {/* 初始化错误提示 */}
@@ -35,15 +41,23 @@ function AppContent({ initializationError }: AppProps) {
       )}
 
       <TooltipProvider>
-        <PaymentProvider>
-          <CardAllProvider>
-            <StylePanelProvider>
-              <TagPanelProvider>
-                <Dashboard />
-              </TagPanelProvider>
-            </StylePanelProvider>
-          </CardAllProvider>
-        </PaymentProvider>
+        {/* 打开分享链接或文件时显示只读查看页，不读取本地卡片 */}
+        {sharedCard.shared || sharedCard.error ? (
+          <SharedCardView state={sharedCard} />
+        ) : (
+          <PaymentProvider>
+            {/* 保险库锁定时不加载卡片数据 */}
+            <VaultGate>
+              <CardAllProvider>
+                <StylePanelProvider>
+                  <TagPanelProvider>
+                    <Dashboard />
+                  </TagPanelProvider>
+                </StylePanelProvider>
+              </CardAllProvider>
+            </VaultGate>
+          </PaymentProvider>
+        )}
       </TooltipProvider>
 
       {/* PWA Install Prompt */}
@@ -58,7 +72,9 @@ function App({ initializationError }: AppProps) {
   return (
     <ThemeProvider defaultTheme="light" storageKey="cardall-theme">
       {/* AuthModalProvider 已删除 */}
-      <AppContent initializationError={initializationError} />
+      <AccessibilityProvider>
+        <AppContent initializationError={initializationError} />
+      </AccessibilityProvider>
     </ThemeProvider>
   )
 }
@@ -0,0 +1,596 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Separator } from '@/components/ui/separator'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, CloudUpload, FolderOpen, Loader2, Lock, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { BackupTargetConfig, BackupTargetType, RemoteBackupEntry } from '@/types/backup-target'
+import { useBackupTargets } from '@/hooks/use-backup-targets'
+import { useToast } from '@/hooks/use-toast'
+import { backupCoreService } from '@/services/core/backup/backup-core.service'
+import { remoteBackupService } from '@/services/core/backup/remote-backup.service'
+
+interface RemoteBackupDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type View =
+  | { kind: 'targets' }
+  | { kind: 'edit'; draft: BackupTargetConfig; isNew: boolean }
+  | { kind: 'browse'; targetId: string }
+
+const TARGET_TYPE_LABELS: Record<BackupTargetType, string> = {
+  webdav: 'WebDAV',
+  s3: 'S3-compatible',
+  'http-put': 'HTTP PUT'
+}
+
+function createDraft(type: BackupTargetType): BackupTargetConfig {
+  const base = {
+    id: `target_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: TARGET_TYPE_LABELS[type],
+    enabled: true,
+    compression: true,
+    encryption: { enabled: true },
+    retention: { keepLast: 10, keepDays: 30 }
+  }
+  switch (type) {
+    case 'webdav':
+      return { ...base, type, settings: { url: '', username: '', password: '' } }
+    case 's3':
+      return { ...base, type, settings: { endpoint: '', region: 'us-east-1', bucket: '', prefix: 'cardall', accessKeyId: '', secretAccessKey: '' } }
+    case 'http-put':
+      return { ...base, type, settings: { url: '', headers: {} } }
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'An unexpected error occurred'
+}
+
+/**
+ * 远程备份
+ * 管理 WebDAV / S3 / HTTP PUT 备份目标，立即备份，并从目标上的备份恢复
+ */
+export function RemoteBackupDialog({ isOpen, onClose }: RemoteBackupDialogProps) {
+  const targets = useBackupTargets()
+  const { toast } = useToast()
+  const [view, setView] = useState<View>({ kind: 'targets' })
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setView({ kind: 'targets' })
+      setError(null)
+    }
+  }, [isOpen])
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action)
+    setError(null)
+    try {
+      await task()
+    } catch (taskError) {
+      console.error(`Remote backup ${action} failed:`, taskError)
+      setError(errorMessage(taskError))
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleBackupNow = () => {
+    run('backup', async () => {
+      const result = await backupCoreService.createBackup('remote')
+      if (!result.success) {
+        throw new Error(result.warnings[0] ?? 'Backup failed')
+      }
+      toast({ title: 'Backup Uploaded', description: `${formatBytes(result.size)} backed up to remote targets` })
+    })
+  }
+
+  const handleTest = (config: BackupTargetConfig) => {
+    run(`test-${config.id}`, async () => {
+      await remoteBackupService.testTarget(config)
+      toast({ title: 'Connection OK', description: `${config.name} is reachable and writable` })
+    })
+  }
+
+  const handleToggle = (config: BackupTargetConfig, enabled: boolean) => {
+    run(`toggle-${config.id}`, async () => {
+      await remoteBackupService.saveTarget({ ...config, enabled })
+    })
+  }
+
+  const handleRemove = (config: BackupTargetConfig) => {
+    remoteBackupService.removeTarget(config.id)
+    toast({ title: 'Target Removed', description: 'Backups already uploaded to it were not deleted' })
+  }
+
+  const isBusy = busyAction !== null
+  const browsedTarget = view.kind === 'browse' ? targets.find(target => target.id === view.targetId) : undefined
+
+  const renderTargets = () => (
+    <div className="space-y-4">
+      {targets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No backup targets yet. Add a WebDAV server, an S3-compatible bucket or any HTTP endpoint that accepts PUT requests.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {targets.map(target => (
+            <div key={target.id} className="flex items-center gap-3 rounded-md border p-3">
+              <Switch
+                checked={target.enabled}
+                onCheckedChange={checked => handleToggle(target, checked)}
+                disabled={isBusy}
+                aria-label={`Enable ${target.name}`}
+              />
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">{target.name}</span>
+                  <Badge variant="secondary">{TARGET_TYPE_LABELS[target.type]}</Badge>
+                  {target.encryption.enabled && <Lock className="h-3 w-3 text-muted-foreground" />}
+                </div>
+                <p className={target.lastError ? 'truncate text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                  {target.lastError
+                    ? target.lastError
+                    : target.lastBackupAt
+                      ? `Last backup ${new Date(target.lastBackupAt).toLocaleString()}`
+                      : 'No backups yet'}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleTest(target)} disabled={isBusy}>
+                {busyAction === `test-${target.id}` ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Test'}
+              </Button>
+              <Button variant="ghost" size="sm" title="Browse backups" onClick={() => setView({ kind: 'browse', targetId: target.id })} disabled={isBusy}>
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Edit" onClick={() => setView({ kind: 'edit', draft: target, isNew: false })} disabled={isBusy}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Remove" onClick={() => handleRemove(target)} disabled={isBusy}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Select onValueChange={value => setView({ kind: 'edit', draft: createDraft(value as BackupTargetType), isNew: true })}>
+          <SelectTrigger className="w-44" disabled={isBusy}>
+            <Plus className="h-4 w-4" />
+            <SelectValue placeholder="Add Target" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TARGET_TYPE_LABELS) as BackupTargetType[]).map(type => (
+              <SelectItem key={type} value={type}>
+                {TARGET_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleBackupNow} disabled={isBusy || !targets.some(target => target.enabled)}>
+          {busyAction === 'backup' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CloudUpload className="h-4 w-4 mr-2" />}
+          {busyAction === 'backup' ? 'Uploading...' : 'Back Up Now'}
+        </Button>
+      </DialogFooter>
+    </div>
+  )
+
+  const title = view.kind === 'edit'
+    ? (view.isNew ? `Add ${TARGET_TYPE_LABELS[view.draft.type]} Target` : `Edit ${view.draft.name}`)
+    : view.kind === 'browse'
+      ? `Backups on ${browsedTarget?.name ?? 'target'}`
+      : 'Remote Backups'
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {view.kind === 'targets'
+              ? 'Back up to your own storage. Each backup is compressed and, if enabled, encrypted with a backup passphrase before it leaves this device.'
+              : view.kind === 'edit'
+                ? 'Credentials are stored on this device only.'
+                : 'Choose a backup to restore. Integrity is verified before anything is written.'}
+          </DialogDescription>
+        </DialogHeader>
+        {view.kind === 'targets' && renderTargets()}
+        {view.kind === 'edit' && (
+          <TargetForm
+            initial={view.draft}
+            isNew={view.isNew}
+            onDone={() => setView({ kind: 'targets' })}
+          />
+        )}
+        {view.kind === 'browse' && browsedTarget && (
+          <TargetBackupList
+            target={browsedTarget}
+            onBack={() => setView({ kind: 'targets' })}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ============================================================================
+// 目标设置
+// ============================================================================
+
+interface TargetFormProps {
+  initial: BackupTargetConfig
+  isNew: boolean
+  onDone: () => void
+}
+
+function TargetForm({ initial, isNew, onDone }: TargetFormProps) {
+  const { toast } = useToast()
+  const [draft, setDraft] = useState<BackupTargetConfig>(initial)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [headersText, setHeadersText] = useState(() =>
+    initial.type === 'http-put'
+      ? Object.entries(initial.settings.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+      : ''
+  )
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasKey = !isNew && remoteBackupService.hasEncryptionKey(draft.id) && !!initial.encryption.kdf
+  const isBusy = busyAction !== null
+
+  const updateSettings = (updates: Record<string, string>) => {
+    setDraft(current => ({ ...current, settings: { ...current.settings, ...updates } }) as BackupTargetConfig)
+  }
+
+  // HTTP PUT 的附加请求头，每行一个 "Name: value"
+  const withHeaders = (config: BackupTargetConfig): BackupTargetConfig => {
+    if (config.type !== 'http-put') return config
+    const headers = Object.fromEntries(headersText
+      .split('\n')
+      .map(line => line.split(/:(.*)/s).map(part => part.trim()))
+      .filter(([name, value]) => name && value))
+    return { ...config, settings: { ...config.settings, headers } }
+  }
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action)
+    setError(null)
+    try {
+      await task()
+    } catch (taskError) {
+      console.error(`Backup target ${action} failed:`, taskError)
+      setError(errorMessage(taskError))
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleTest = () => {
+    run('test', async () => {
+      await remoteBackupService.testTarget(withHeaders(draft))
+      toast({ title: 'Connection OK', description: `${draft.name} is reachable and writable` })
+    })
+  }
+
+  const handleSave = () => {
+    if (draft.encryption.enabled && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+    run('save', async () => {
+      await remoteBackupService.saveTarget(withHeaders(draft), passphrase || undefined)
+      toast({ title: isNew ? 'Target Added' : 'Target Saved' })
+      onDone()
+    })
+  }
+
+  const field = (id: string, label: string, value: string, onChange: (value: string) => void, type = 'text', placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        autoComplete={type === 'password' ? 'new-password' : 'off'}
+        onChange={event => onChange(event.target.value)}
+        disabled={isBusy}
+      />
+    </div>
+  )
+
+  const renderSettings = () => {
+    switch (draft.type) {
+      case 'webdav':
+        return (
+          <>
+            {field('target-url', 'Folder URL', draft.settings.url, url => updateSettings({ url }), 'url', 'https://cloud.example.com/remote.php/dav/files/me/cardall')}
+            <div className="grid grid-cols-2 gap-3">
+              {field('target-username', 'Username', draft.settings.username ?? '', username => updateSettings({ username }))}
+              {field('target-password', 'Password', draft.settings.password ?? '', password => updateSettings({ password }), 'password')}
+            </div>
+          </>
+        )
+      case 's3':
+        return (
+          <>
+            {field('target-endpoint', 'Endpoint', draft.settings.endpoint, endpoint => updateSettings({ endpoint }), 'url', 'http://localhost:9000')}
+            <div className="grid grid-cols-3 gap-3">
+              {field('target-region', 'Region', draft.settings.region, region => updateSettings({ region }))}
+              {field('target-bucket', 'Bucket', draft.settings.bucket, bucket => updateSettings({ bucket }))}
+              {field('target-prefix', 'Prefix', draft.settings.prefix ?? '', prefix => updateSettings({ prefix }))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {field('target-access-key', 'Access key ID', draft.settings.accessKeyId, accessKeyId => updateSettings({ accessKeyId }))}
+              {field('target-secret-key', 'Secret access key', draft.settings.secretAccessKey, secretAccessKey => updateSettings({ secretAccessKey }), 'password')}
+            </div>
+          </>
+        )
+      case 'http-put':
+        return (
+          <>
+            {field('target-url', 'Base URL', draft.settings.url, url => updateSettings({ url }), 'url', 'https://backup.example.com/cardall')}
+            <div className="space-y-1">
+              <Label htmlFor="target-headers">Extra headers</Label>
+              <Textarea
+                id="target-headers"
+                rows={2}
+                placeholder="Authorization: Bearer ..."
+                value={headersText}
+                onChange={event => setHeadersText(event.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+          </>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {field('target-name', 'Name', draft.name, name => setDraft(current => ({ ...current, name })))}
+      {renderSettings()}
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="target-compression">Compress uploads (gzip)</Label>
+        <Switch
+          id="target-compression"
+          checked={draft.compression}
+          onCheckedChange={compression => setDraft(current => ({ ...current, compression }))}
+          disabled={isBusy}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="target-encryption">Encrypt uploads (AES-256-GCM)</Label>
+        <Switch
+          id="target-encryption"
+          checked={draft.encryption.enabled}
+          onCheckedChange={enabled => setDraft(current => ({ ...current, encryption: { ...current.encryption, enabled } }))}
+          disabled={isBusy}
+        />
+      </div>
+      {draft.encryption.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          {field('target-passphrase', 'Backup passphrase', passphrase, setPassphrase, 'password', hasKey ? 'Unchanged' : undefined)}
+          {field('target-passphrase-confirm', 'Confirm passphrase', confirmPassphrase, setConfirmPassphrase, 'password', hasKey ? 'Unchanged' : undefined)}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {field('target-keep-last', 'Keep at least', String(draft.retention.keepLast), value =>
+          setDraft(current => ({ ...current, retention: { ...current.retention, keepLast: Math.max(1, Number(value) || 1) } })), 'number')}
+        {field('target-keep-days', 'Delete older than (days, 0 = never)', String(draft.retention.keepDays), value =>
+          setDraft(current => ({ ...current, retention: { ...current.retention, keepDays: Math.max(0, Number(value) || 0) } })), 'number')}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Button variant="ghost" onClick={onDone} disabled={isBusy}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={isBusy}>
+            {busyAction === 'test' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Test Connection
+          </Button>
+          <Button onClick={handleSave} disabled={isBusy || !draft.name.trim()}>
+            {busyAction === 'save' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {busyAction === 'save' && draft.encryption.enabled && passphrase ? 'Deriving key...' : 'Save'}
+          </Button>
+        </div>
+      </DialogFooter>
+    </div>
+  )
+}
+
+// ============================================================================
+// 目标上的备份
+// ============================================================================
+
+interface TargetBackupListProps {
+  target: BackupTargetConfig
+  onBack: () => void
+}
+
+function TargetBackupList({ target, onBack }: TargetBackupListProps) {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<RemoteBackupEntry[] | null>(null)
+  const [selected, setSelected] = useState<RemoteBackupEntry | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [keepExisting, setKeepExisting] = useState(false)
+  const [restored, setRestored] = useState<string | null>(null)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    remoteBackupService.listBackups(target.id)
+      .then(list => !cancelled && setEntries(list))
+      .catch(listError => !cancelled && setError(errorMessage(listError)))
+    return () => {
+      cancelled = true
+    }
+  }, [target.id])
+
+  const isBusy = busyAction !== null
+  const needsPassphrase = !!selected && remoteBackupService.needsPassphrase(selected)
+
+  const handleRestore = async () => {
+    if (!selected) return
+    setBusyAction('restore')
+    setError(null)
+    try {
+      const result = await backupCoreService.restoreBackup(selected.manifest.backupId, {
+        conflictResolution: keepExisting ? 'skip' : 'overwrite',
+        remote: { targetId: target.id, passphrase: needsPassphrase ? passphrase : undefined }
+      })
+      if (!result.success) {
+        setError(result.message)
+        return
+      }
+      const { cards, folders, tags } = result.restoredItems
+      setRestored(`Restored ${cards} cards, ${folders} folders and ${tags} tags.`)
+      setSelected(null)
+      setPassphrase('')
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleDelete = async (entry: RemoteBackupEntry) => {
+    setBusyAction(`delete-${entry.manifest.backupId}`)
+    setError(null)
+    try {
+      await remoteBackupService.deleteBackup(target.id, entry.manifest.backupId)
+      setEntries(current => current?.filter(item => item !== entry) ?? null)
+      toast({ title: 'Backup Deleted' })
+    } catch (deleteError) {
+      setError(errorMessage(deleteError))
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {restored && (
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+          <span>{restored} Reload CardAll to see the restored data.</span>
+          <Button size="sm" onClick={() => window.location.reload()}>Reload</Button>
+        </div>
+      )}
+
+      {entries === null && !error ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading backups...
+        </div>
+      ) : entries?.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No backups on this target yet.</p>
+      ) : (
+        <ScrollArea className="max-h-72">
+          <div className="space-y-2 pr-3">
+            {entries?.map(entry => {
+              const { manifest } = entry
+              const isSelected = selected === entry
+              return (
+                <div key={manifest.backupId} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-medium">{new Date(manifest.timestamp).toLocaleString()}</span>
+                        {manifest.encryption && <Lock className="h-3 w-3 text-muted-foreground" />}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {manifest.entities.cards} cards · {manifest.entities.folders} folders · {manifest.entities.tags} tags · {formatBytes(manifest.size)}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setSelected(isSelected ? null : entry)} disabled={isBusy}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(entry)} disabled={isBusy}>
+                      {busyAction === `delete-${manifest.backupId}` ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+
+                  {isSelected && (
+                    <div className="space-y-3 border-t pt-3">
+                      {needsPassphrase && (
+                        <div className="space-y-1">
+                          <Label htmlFor="restore-passphrase">Backup passphrase</Label>
+                          <Input
+                            id="restore-passphrase"
+                            type="password"
+                            autoComplete="current-password"
+                            value={passphrase}
+                            onChange={event => setPassphrase(event.target.value)}
+                            disabled={isBusy}
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="restore-keep-existing">Keep items that already exist</Label>
+                        <Switch id="restore-keep-existing" checked={keepExisting} onCheckedChange={setKeepExisting} disabled={isBusy} />
+                      </div>
+                      <Button className="w-full" onClick={handleRestore} disabled={isBusy || (needsPassphrase && !passphrase)}>
+                        {busyAction === 'restore' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        {busyAction === 'restore' ? 'Verifying and restoring...' : 'Restore This Backup'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onBack} disabled={isBusy}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+      </DialogFooter>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { ReactNode, useEffect, useRef } from 'react'
+import { useDraggable } from '@dnd-kit/core'
+import { GripHorizontal } from 'lucide-react'
+import { CanvasPoint } from '@/types/canvas'
+import { cn } from '@/lib/utils'
+
+interface CanvasCardProps {
+  cardId: string
+  position: CanvasPoint
+  width: number
+  // 拖动中的偏移（画布坐标），由画布统一计算，分组拖动时成员一起移动
+  offset?: CanvasPoint
+  isDragging?: boolean
+  isConnecting?: boolean
+  isConnectSource?: boolean
+  onMeasure: (cardId: string, height: number) => void
+  onConnectClick: (cardId: string) => void
+  children: ReactNode
+}
+
+/**
+ * 画布上的一张卡片
+ * 顶部把手用于拖动，连线模式下整张卡片可点击选择
+ */
+export function CanvasCard({
+  cardId,
+  position,
+  width,
+  offset,
+  isDragging = false,
+  isConnecting = false,
+  isConnectSource = false,
+  onMeasure,
+  onConnectClick,
+  children
+}: CanvasCardProps) {
+  const contentRef = useRef<HTMLDivElement>(null)
+  const { attributes, listeners, setNodeRef } = useDraggable({
+    id: `card:${cardId}`,
+    data: { kind: 'card', cardId },
+    disabled: isConnecting
+  })
+
+  // 高度不受画布缩放影响，用于吸附和连线计算
+  useEffect(() => {
+    const element = contentRef.current
+    if (!element) return
+    const observer = new ResizeObserver(() => onMeasure(cardId, element.offsetHeight))
+    observer.observe(element)
+    onMeasure(cardId, element.offsetHeight)
+    return () => observer.disconnect()
+  }, [cardId, onMeasure])
+
+  const x = position.x + (offset?.x ?? 0)
+  const y = position.y + (offset?.y ?? 0)
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn('group/canvas-card absolute', isDragging && 'z-30')}
+      style={{ transform: `translate3d(${x}px, ${y}px, 0)`, width }}
+      data-canvas-card
+    >
+      <div ref={contentRef} className="relative">
+        <div
+          {...listeners}
+          {...attributes}
+          className={cn(
+            'absolute -top-5 left-1/2 z-10 flex h-5 w-16 -translate-x-1/2 cursor-grab items-center justify-center rounded-t-md bg-muted text-muted-foreground',
+            'opacity-0 transition-opacity group-hover/canvas-card:opacity-100',
+            isDragging && 'cursor-grabbing opacity-100'
+          )}
+          title="Drag to move · Alt+drag to take out of its group"
+        >
+          <GripHorizontal className="h-3.5 w-3.5" />
+        </div>
+
+        <div className={cn('rounded-xl transition-shadow', isDragging && 'shadow-2xl', isConnectSource && 'ring-2 ring-primary ring-offset-2')}>
+          {children}
+        </div>
+
+        {isConnecting && (
+          <button
+            type="button"
+            className="absolute inset-0 z-20 cursor-crosshair rounded-xl hover:bg-primary/10"
+            onClick={() => onConnectClick(cardId)}
+            aria-label="Connect this card"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
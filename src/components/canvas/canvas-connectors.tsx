@@ -0,0 +1,90 @@
+import { X } from 'lucide-react'
+import { CanvasConnector, CanvasRect } from '@/types/canvas'
+import { getConnectorEndpoints } from '@/services/canvas/canvas-geometry'
+import { cn } from '@/lib/utils'
+
+interface CanvasConnectorsProps {
+  connectors: CanvasConnector[]
+  getRect: (cardId: string) => CanvasRect | undefined
+  selectedId: string | null
+  onSelect: (connectorId: string | null) => void
+  onRemove: (connectorId: string) => void
+}
+
+/**
+ * 卡片之间的箭头，位于卡片下方；点击选中后可删除
+ */
+export function CanvasConnectors({ connectors, getRect, selectedId, onSelect, onRemove }: CanvasConnectorsProps) {
+  const lines = connectors
+    .map(connector => {
+      const from = getRect(connector.fromId)
+      const to = getRect(connector.toId)
+      return from && to ? { connector, ...getConnectorEndpoints(from, to) } : null
+    })
+    .filter((line): line is NonNullable<typeof line> => !!line)
+
+  const selected = lines.find(line => line.connector.id === selectedId)
+
+  return (
+    <>
+      <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1}>
+        <defs>
+          <marker id="canvas-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+          </marker>
+          <marker id="canvas-arrow-selected" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary" />
+          </marker>
+        </defs>
+        {lines.map(({ connector, start, end }) => {
+          const isSelected = connector.id === selectedId
+          return (
+            <g key={connector.id}>
+              {/* 较宽的透明线便于点击 */}
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke="transparent"
+                strokeWidth={14}
+                className="pointer-events-auto cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onSelect(isSelected ? null : connector.id)
+                }}
+              />
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                strokeWidth={2}
+                className={cn(isSelected ? 'stroke-primary' : 'stroke-muted-foreground')}
+                markerEnd={`url(#${isSelected ? 'canvas-arrow-selected' : 'canvas-arrow'})`}
+              />
+            </g>
+          )
+        })}
+      </svg>
+
+      {selected && (
+        <button
+          type="button"
+          className="absolute z-40 flex h-6 w-6 items-center justify-center rounded-full border bg-background shadow hover:bg-destructive hover:text-destructive-foreground"
+          style={{
+            left: (selected.start.x + selected.end.x) / 2 - 12,
+            top: (selected.start.y + selected.end.y) / 2 - 12
+          }}
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove(selected.connector.id)
+          }}
+          title="Remove connector"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </>
+  )
+}
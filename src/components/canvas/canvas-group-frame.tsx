@@ -0,0 +1,60 @@
+import { useDraggable } from '@dnd-kit/core'
+import { Group, X } from 'lucide-react'
+import { CanvasRect } from '@/types/canvas'
+import { cn } from '@/lib/utils'
+
+interface CanvasGroupFrameProps {
+  groupId: string
+  bounds: CanvasRect // 已包含拖动偏移
+  count: number
+  isDragging?: boolean
+  onUngroup: (groupId: string) => void
+}
+
+// 外框与卡片之间的留白
+const FRAME_PADDING = 12
+
+/**
+ * 吸附分组的外框，拖动标签整体移动分组
+ */
+export function CanvasGroupFrame({ groupId, bounds, count, isDragging = false, onUngroup }: CanvasGroupFrameProps) {
+  const { attributes, listeners, setNodeRef } = useDraggable({
+    id: `group:${groupId}`,
+    data: { kind: 'group', groupId }
+  })
+
+  return (
+    <div
+      className={cn(
+        'absolute rounded-2xl border-2 border-dashed border-primary/30 bg-primary/5 pointer-events-none',
+        isDragging && 'border-primary/60'
+      )}
+      style={{
+        transform: `translate3d(${bounds.x - FRAME_PADDING}px, ${bounds.y - FRAME_PADDING}px, 0)`,
+        width: bounds.width + FRAME_PADDING * 2,
+        height: bounds.height + FRAME_PADDING * 2
+      }}
+    >
+      <div className="pointer-events-auto absolute -top-7 left-0 flex items-center gap-1 rounded-md bg-primary/10 text-xs text-primary">
+        <div
+          ref={setNodeRef}
+          {...listeners}
+          {...attributes}
+          className={cn('flex cursor-grab items-center gap-1 px-2 py-1', isDragging && 'cursor-grabbing')}
+          title="Drag to move the group"
+        >
+          <Group className="h-3.5 w-3.5" />
+          Group · {count}
+        </div>
+        <button
+          type="button"
+          className="rounded-r-md px-1.5 py-1 hover:bg-primary/20"
+          onClick={() => onUngroup(groupId)}
+          title="Ungroup"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    </div>
+  )
+}
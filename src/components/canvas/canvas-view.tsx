@@ -0,0 +1,496 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import {
+  DndContext,
+  DragMoveEvent,
+  DragStartEvent,
+  PointerSensor,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core'
+import { Loader2, Maximize, Spline, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { EnhancedFlipCard } from '@/components/card/enhanced-flip-card'
+import { DragStatusIndicator } from '@/components/card/drag-status-indicator'
+import { LockedCardPlaceholder } from '@/components/security/locked-card-placeholder'
+import { EntityLockDialog } from '@/components/security/entity-lock-dialog'
+import { Card as CardType, CardGroup } from '@/types/card'
+import { CanvasPoint, CanvasRect, CanvasSnap, CanvasViewport } from '@/types/canvas'
+import { EntityLockTarget } from '@/types/entity-lock'
+import { useCanvasBoard } from '@/hooks/use-canvas-board'
+import { useLockedCards } from '@/hooks/use-entity-lock'
+import {
+  CANVAS_CARD_WIDTHS,
+  ESTIMATED_CARD_HEIGHT,
+  findGroup,
+  findSnap,
+  fitViewport,
+  getBounds,
+  joinGroup,
+  layoutUnplaced,
+  refreshGroupPositions,
+  removeFromGroups,
+  zoomAt
+} from '@/services/canvas/canvas-geometry'
+import { CanvasCard } from './canvas-card'
+import { CanvasConnectors } from './canvas-connectors'
+import { CanvasGroupFrame } from './canvas-group-frame'
+import { cn } from '@/lib/utils'
+
+interface CanvasViewProps {
+  cards: CardType[]
+  boardId: string
+  onCardFlip: (cardId: string) => void
+  onCardUpdate: (cardId: string, updates: Partial<CardType>) => void
+  onCardCopy: (cardId: string) => void
+  onCardScreenshot: (cardId: string) => void
+  onCardShare: (cardId: string) => void
+  onCardDelete: (cardId: string) => void
+  onMoveToFolder?: (cardId: string, folderId: string | null) => void
+  cardSize?: 'sm' | 'md' | 'lg'
+}
+
+type DragData = { kind: 'card'; cardId: string } | { kind: 'group'; groupId: string }
+
+// 拖动中的卡片；拖动分组内的卡片时整组移动，按住 Alt 拖动则把卡片移出分组
+interface CanvasDrag {
+  cardIds: string[]
+  groupId?: string
+  detach: boolean
+  offset: CanvasPoint
+  snap: CanvasSnap | null
+}
+
+const DEFAULT_VIEWPORT: CanvasViewport = { x: 48, y: 48, zoom: 1 }
+const ZOOM_STEP = 1.2
+const GRID_SIZE = 24
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName))
+}
+
+/**
+ * 画布视图
+ * 卡片可自由摆放，靠近其他卡片边缘时吸附并组成分组，可平移缩放并在卡片之间连线；
+ * 布局按文件夹分别保存
+ */
+export function CanvasView({
+  cards,
+  boardId,
+  onCardFlip,
+  onCardUpdate,
+  onCardCopy,
+  onCardScreenshot,
+  onCardShare,
+  onCardDelete,
+  onMoveToFolder,
+  cardSize = 'md'
+}: CanvasViewProps) {
+  const { board, updateBoard } = useCanvasBoard(boardId)
+  const { revealedCards, handleUpdate } = useLockedCards(cards, onCardUpdate)
+  const [lockTarget, setLockTarget] = useState<EntityLockTarget | null>(null)
+  const [heights, setHeights] = useState<Record<string, number>>({})
+  const [drag, setDrag] = useState<CanvasDrag | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [connectFrom, setConnectFrom] = useState<string | null>(null)
+  const [selectedConnector, setSelectedConnector] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const panRef = useRef<{ pointerId: number; x: number; y: number; viewport: CanvasViewport } | null>(null)
+
+  const cardWidth = CANVAS_CARD_WIDTHS[cardSize]
+  const viewport = board?.viewport ?? DEFAULT_VIEWPORT
+  const viewportRef = useRef(viewport)
+  viewportRef.current = viewport
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }))
+  const openLockDialog = useCallback((cardId: string) => setLockTarget({ type: 'card', id: cardId }), [])
+
+  const cardIds = useMemo(() => cards.map(card => card.id), [cards])
+  const getHeight = useCallback((cardId: string) => heights[cardId] ?? ESTIMATED_CARD_HEIGHT, [heights])
+
+  // 尚未摆放的卡片临时排在已有卡片下方，下次保存时一起写入
+  const positions = useMemo(
+    () => (board ? layoutUnplaced(cardIds, board.positions, cardWidth, getHeight) : {}),
+    [board, cardIds, cardWidth, getHeight]
+  )
+
+  const getRect = useCallback((cardId: string): CanvasRect | undefined => {
+    const position = positions[cardId]
+    if (!position || !cardIds.includes(cardId)) return undefined
+    const offset = drag?.cardIds.includes(cardId) ? drag.offset : null
+    return {
+      x: position.x + (offset?.x ?? 0),
+      y: position.y + (offset?.y ?? 0),
+      width: cardWidth,
+      height: getHeight(cardId)
+    }
+  }, [positions, cardIds, drag, cardWidth, getHeight])
+
+  const handleMeasure = useCallback((cardId: string, height: number) => {
+    setHeights(prev => (prev[cardId] === height ? prev : { ...prev, [cardId]: height }))
+  }, [])
+
+  const setViewport = useCallback((next: CanvasViewport) => {
+    updateBoard(current => ({ ...current, viewport: next }))
+  }, [updateBoard])
+
+  const commitPositions = (updates: Record<string, CanvasPoint>, groups?: CardGroup[]) => {
+    updateBoard(current => {
+      const nextPositions = { ...positions, ...updates }
+      const nextGroups = refreshGroupPositions(groups ?? current.groups, cardId => {
+        const position = nextPositions[cardId]
+        return position ? { ...position, width: cardWidth, height: getHeight(cardId) } : undefined
+      })
+      return { ...current, positions: nextPositions, groups: nextGroups }
+    })
+  }
+
+  // ============================================================================
+  // 拖动与吸附
+  // ============================================================================
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const data = event.active.data.current as DragData | undefined
+    if (!data || !board) return
+    setSelectedConnector(null)
+
+    if (data.kind === 'group') {
+      const group = board.groups.find(item => item.id === data.groupId)
+      if (group) {
+        setDrag({ cardIds: group.cardIds, groupId: group.id, detach: false, offset: { x: 0, y: 0 }, snap: null })
+      }
+      return
+    }
+
+    const group = findGroup(board.groups, data.cardId)
+    const detach = !!group && (event.activatorEvent as PointerEvent).altKey
+    setDrag({
+      cardIds: group && !detach ? group.cardIds : [data.cardId],
+      groupId: group && !detach ? group.id : undefined,
+      detach,
+      offset: { x: 0, y: 0 },
+      snap: null
+    })
+  }
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    if (!drag) return
+    const offset = { x: event.delta.x / viewport.zoom, y: event.delta.y / viewport.zoom }
+
+    // 只有单张卡片会吸附到其他卡片
+    let snap: CanvasSnap | null = null
+    if (!drag.groupId && drag.cardIds.length === 1) {
+      const cardId = drag.cardIds[0]
+      const position = positions[cardId]
+      const others = cardIds
+        .filter(id => id !== cardId && positions[id])
+        .map(id => ({ id, rect: { ...positions[id], width: cardWidth, height: getHeight(id) } }))
+      snap = findSnap({ x: position.x + offset.x, y: position.y + offset.y, width: cardWidth, height: getHeight(cardId) }, others)
+    }
+
+    setDrag({ ...drag, offset, snap })
+  }
+
+  const handleDragEnd = () => {
+    const current = drag
+    setDrag(null)
+    if (!current || !board) return
+
+    const updates: Record<string, CanvasPoint> = {}
+    current.cardIds.forEach(cardId => {
+      updates[cardId] = { x: positions[cardId].x + current.offset.x, y: positions[cardId].y + current.offset.y }
+    })
+
+    let groups = board.groups
+    if (!current.groupId && current.cardIds.length === 1) {
+      const cardId = current.cardIds[0]
+      if (current.snap) {
+        updates[cardId] = current.snap.position
+        groups = joinGroup(groups, cardId, current.snap.targetId)
+      } else if (current.detach) {
+        groups = removeFromGroups(groups, [cardId])
+      }
+    }
+
+    commitPositions(updates, groups)
+  }
+
+  const handleUngroup = (groupId: string) => {
+    updateBoard(current => ({ ...current, groups: current.groups.filter(group => group.id !== groupId) }))
+  }
+
+  // ============================================================================
+  // 连线
+  // ============================================================================
+
+  const toggleConnecting = () => {
+    setIsConnecting(prev => !prev)
+    setConnectFrom(null)
+    setSelectedConnector(null)
+  }
+
+  const handleConnectClick = (cardId: string) => {
+    if (!connectFrom || connectFrom === cardId) {
+      setConnectFrom(connectFrom === cardId ? null : cardId)
+      return
+    }
+
+    const fromId = connectFrom
+    setConnectFrom(null)
+    updateBoard(current => {
+      if (current.connectors.some(connector => connector.fromId === fromId && connector.toId === cardId)) {
+        return current
+      }
+      return {
+        ...current,
+        // 连线依赖卡片位置，一并保存临时摆放的卡片
+        positions: { ...positions },
+        connectors: [...current.connectors, { id: crypto.randomUUID(), fromId, toId: cardId, createdAt: new Date() }]
+      }
+    })
+  }
+
+  const removeConnector = useCallback((connectorId: string) => {
+    setSelectedConnector(null)
+    updateBoard(current => ({
+      ...current,
+      connectors: current.connectors.filter(connector => connector.id !== connectorId)
+    }))
+  }, [updateBoard])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return
+      if (event.key === 'Escape') {
+        setIsConnecting(false)
+        setConnectFrom(null)
+        setSelectedConnector(null)
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedConnector) {
+        event.preventDefault()
+        removeConnector(selectedConnector)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [selectedConnector, removeConnector])
+
+  // ============================================================================
+  // 平移与缩放
+  // ============================================================================
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement
+    if (event.button !== 0 || target.closest('[data-canvas-card], [data-canvas-connector], button, [role="button"]')) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    panRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, viewport }
+    setSelectedConnector(null)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current
+    if (!pan || pan.pointerId !== event.pointerId) return
+    setViewport({
+      ...pan.viewport,
+      x: pan.viewport.x + event.clientX - pan.x,
+      y: pan.viewport.y + event.clientY - pan.y
+    })
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId === event.pointerId) {
+      panRef.current = null
+    }
+  }
+
+  // 滚轮平移，按住 Ctrl/⌘（或触控板捏合）时以指针为中心缩放，画板创建后容器才会挂载
+  const hasBoard = board !== null
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const current = viewportRef.current
+      if (event.ctrlKey || event.metaKey) {
+        const rect = element.getBoundingClientRect()
+        setViewport(zoomAt(current, current.zoom * Math.exp(-event.deltaY * 0.01), {
+          x: event.clientX - rect.left,
+          y: event.clientY - rect.top
+        }))
+      } else {
+        setViewport({ ...current, x: current.x - event.deltaX, y: current.y - event.deltaY })
+      }
+    }
+
+    element.addEventListener('wheel', handleWheel, { passive: false })
+    return () => element.removeEventListener('wheel', handleWheel)
+  }, [setViewport, hasBoard])
+
+  const zoomBy = (factor: number) => {
+    const element = containerRef.current
+    if (!element) return
+    setViewport(zoomAt(viewport, viewport.zoom * factor, { x: element.clientWidth / 2, y: element.clientHeight / 2 }))
+  }
+
+  const handleFit = () => {
+    const element = containerRef.current
+    if (!element) return
+    const rects = cardIds.map(getRect).filter((rect): rect is CanvasRect => !!rect)
+    setViewport(fitViewport(rects, { width: element.clientWidth, height: element.clientHeight }))
+  }
+
+  if (!board) {
+    return (
+      <div className="flex h-[calc(100vh-6rem)] items-center justify-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    )
+  }
+
+  const visibleGroups = board.groups
+    .map(group => ({ group, rects: group.cardIds.map(getRect).filter((rect): rect is CanvasRect => !!rect) }))
+    .filter(({ rects }) => rects.length > 1)
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        'relative h-[calc(100vh-6rem)] overflow-hidden rounded-lg border bg-muted/30 touch-none select-none',
+        panRef.current ? 'cursor-grabbing' : 'cursor-grab'
+      )}
+      style={{
+        backgroundImage: 'radial-gradient(circle, hsl(var(--muted-foreground) / 0.25) 1px, transparent 1px)',
+        backgroundSize: `${GRID_SIZE * viewport.zoom}px ${GRID_SIZE * viewport.zoom}px`,
+        backgroundPosition: `${viewport.x}px ${viewport.y}px`
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {/* Toolbar */}
+      <div className="absolute left-3 top-3 z-40 flex items-center gap-1 rounded-lg border bg-background/95 p-1 shadow-sm cursor-default">
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-14 p-0 text-xs tabular-nums"
+          onClick={() => zoomBy(1 / viewport.zoom)}
+          title="Reset zoom"
+        >
+          {Math.round(viewport.zoom * 100)}%
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleFit} title="Fit all cards">
+          <Maximize className="h-4 w-4" />
+        </Button>
+        <Separator orientation="vertical" className="mx-1 h-5" />
+        <Button
+          variant={isConnecting ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-8"
+          onClick={toggleConnecting}
+          title="Draw arrows between cards"
+        >
+          <Spline className="h-4 w-4 mr-1" />
+          Connect
+        </Button>
+      </div>
+
+      {isConnecting && (
+        <div className="absolute left-1/2 top-3 z-40 -translate-x-1/2 rounded-md bg-foreground/85 px-3 py-1.5 text-xs text-background">
+          {connectFrom ? 'Now click the card the arrow points to' : 'Click the card the arrow starts from'} · Esc to finish
+        </div>
+      )}
+
+      {cards.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground pointer-events-none">
+          No cards in this view yet.
+        </div>
+      )}
+
+      <DndContext
+        sensors={sensors}
+        autoScroll={false}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDrag(null)}
+      >
+        <div
+          className="absolute left-0 top-0 origin-top-left cursor-default"
+          style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+        >
+          {visibleGroups.map(({ group, rects }) => (
+            <CanvasGroupFrame
+              key={group.id}
+              groupId={group.id}
+              bounds={getBounds(rects)!}
+              count={rects.length}
+              isDragging={drag?.groupId === group.id}
+              onUngroup={handleUngroup}
+            />
+          ))}
+
+          <CanvasConnectors
+            connectors={board.connectors}
+            getRect={getRect}
+            selectedId={selectedConnector}
+            onSelect={setSelectedConnector}
+            onRemove={removeConnector}
+          />
+
+          {cards.map(card => {
+            const revealed = revealedCards.get(card.id)
+            return (
+              <CanvasCard
+                key={card.id}
+                cardId={card.id}
+                position={positions[card.id]}
+                width={cardWidth}
+                offset={drag?.cardIds.includes(card.id) ? drag.offset : undefined}
+                isDragging={!!drag?.cardIds.includes(card.id)}
+                isConnecting={isConnecting}
+                isConnectSource={connectFrom === card.id}
+                onMeasure={handleMeasure}
+                onConnectClick={handleConnectClick}
+              >
+                {revealed ? (
+                  <EnhancedFlipCard
+                    card={revealed}
+                    onFlip={onCardFlip}
+                    onUpdate={handleUpdate}
+                    onCopy={onCardCopy}
+                    onScreenshot={onCardScreenshot}
+                    onShare={onCardShare}
+                    onDelete={onCardDelete}
+                    onMoveToFolder={onMoveToFolder}
+                    onLock={openLockDialog}
+                    size={cardSize}
+                    className="w-full"
+                  />
+                ) : (
+                  <LockedCardPlaceholder card={card} onUnlock={openLockDialog} className="w-full" />
+                )}
+              </CanvasCard>
+            )
+          })}
+        </div>
+      </DndContext>
+
+      <DragStatusIndicator
+        isDragging={!!drag && (drag.offset.x !== 0 || drag.offset.y !== 0)}
+        isSnapping={!!drag?.snap}
+        snapDirection={drag?.snap?.direction}
+        position="bottom-right"
+      />
+
+      <EntityLockDialog target={lockTarget} onClose={() => setLockTarget(null)} />
+    </div>
+  )
+}
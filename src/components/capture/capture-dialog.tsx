@@ -0,0 +1,64 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import { CardCreator } from '@/components/card/card-creator'
+import { useCapture } from '@/hooks/use-capture'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * 捕获内容
+ * 从其他应用分享或以 CardAll 打开的内容预填到卡片创建表单，选择文件夹和标签后保存
+ */
+export function CaptureDialog() {
+  const { toast } = useToast()
+  const { draft, isPreparing, dismiss } = useCapture()
+
+  return (
+    <Dialog open={isPreparing || draft !== null} onOpenChange={open => !open && dismiss()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capture</DialogTitle>
+          <DialogDescription>
+            Review the shared content, then pick a folder and tags for the new card.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPreparing && (
+          <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Preparing content...
+          </div>
+        )}
+
+        {draft && (
+          <>
+            {draft.warnings.length > 0 && (
+              <div className="flex gap-2 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <ul className="space-y-0.5">
+                  {draft.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <CardCreator
+              draft={draft}
+              className="border-0 shadow-none"
+              onCancel={dismiss}
+              onCardCreated={() => {
+                toast({ title: 'Card created', description: 'The captured content was saved as a new card.' })
+                dismiss()
+              }}
+            />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
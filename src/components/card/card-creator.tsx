@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react'
-import { useCardAllCards } from '@/contexts/cardall-context'
+import { useCardAllCards, useCardAllFolders, useCardAllTags } from '@/contexts/cardall-context'
 import { useStorageAdapter } from '@/hooks/use-cards-adapter'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,24 +8,35 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
-import { Card as CardType, DEFAULT_CARD_STYLE } from '@/types/card'
+import { Card as CardType, DEFAULT_CARD_STYLE, ImageData } from '@/types/card'
+import { CaptureDraft } from '@/types/capture'
+import { markdownToHtml, textToHtml } from '@/services/interchange/markdown-converter'
+
+// 未选择文件夹（Select 的选项值不能为空字符串）
+const NO_FOLDER = 'none'
 
 interface CardCreatorProps {
+  draft?: CaptureDraft // 捕获的内容，预填表单
   onCardCreated?: (card: CardType) => void
+  onCancel?: () => void
   className?: string
 }
 
-export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
+export function CardCreator({ draft, onCardCreated, onCancel, className }: CardCreatorProps) {
   const { dispatch } = useCardAllCards()
+  const { folders } = useCardAllFolders()
+  const { tags: existingTags } = useCardAllTags()
   const { isReady } = useStorageAdapter()
 
   const [formData, setFormData] = useState({
-    frontTitle: '',
-    frontContent: '',
+    frontTitle: draft?.title ?? '',
+    frontContent: draft?.content ?? '',
     backTitle: '',
     backContent: '',
-    tags: [] as string[]
+    tags: draft?.tags ?? [] as string[],
+    folderId: NO_FOLDER
   })
+  const [images, setImages] = useState<ImageData[]>(draft?.images ?? [])
 
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -43,24 +54,32 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
 
     try {
       const now = new Date()
+      // 捕获的内容按来源格式转换为 HTML，手动输入的内容原样保存
+      const frontText = !draft
+        ? formData.frontContent
+        : draft.contentFormat === 'markdown'
+          ? markdownToHtml(formData.frontContent)
+          : textToHtml(formData.frontContent)
+      const backText = draft && formData.backContent ? textToHtml(formData.backContent) : formData.backContent
       const newCard: CardType = {
         id: crypto.randomUUID(),
         frontContent: {
           title: formData.frontTitle,
-          text: formData.frontContent,
-          images: [],
+          text: frontText,
+          images,
           tags: formData.tags,
           lastModified: now
         },
         backContent: {
           title: formData.backTitle,
-          text: formData.backContent,
+          text: backText,
           images: [],
           tags: [],
           lastModified: now
         },
         style: DEFAULT_CARD_STYLE,
         isFlipped: false,
+        folderId: formData.folderId === NO_FOLDER ? undefined : formData.folderId,
         createdAt: now,
         updatedAt: now
       }
@@ -79,20 +98,28 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
         frontContent: '',
         backTitle: '',
         backContent: '',
-        tags: []
+        tags: [],
+        folderId: formData.folderId
       })
+      setImages([])
     } catch (err) {
       setError(err instanceof Error ? err.message : '创建卡片失败')
       console.error('Failed to create card:', err)
     } finally {
       setIsSubmitting(false)
     }
-  }, [formData, onCardCreated, dispatch, isReady])
+  }, [formData, images, draft, onCardCreated, dispatch, isReady])
 
   const handleInputChange = (field: string, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  // 已有但未选择的标签，供快速添加
+  const suggestedTags = existingTags
+    .map(tag => tag.name)
+    .filter(name => !formData.tags.includes(name))
+    .slice(0, 12)
+
   // 禁用表单如果系统未就绪
   if (!isReady) {
     return (
@@ -112,7 +139,7 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
   return (
     <Card className={className}>
       <CardHeader>
-        <CardTitle>创建新卡片</CardTitle>
+        <CardTitle>{draft ? '保存捕获的内容' : '创建新卡片'}</CardTitle>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -134,17 +161,43 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
           </div>
 
           <div>
-            <Label htmlFor="frontContent">正面内容 *</Label>
+            <Label htmlFor="frontContent">正面内容{images.length === 0 && ' *'}</Label>
             <Textarea
               id="frontContent"
               value={formData.frontContent}
               onChange={(e) => handleInputChange('frontContent', e.target.value)}
               placeholder="输入卡片正面内容"
               rows={4}
-              required
+              required={images.length === 0}
             />
           </div>
 
+          {/* 捕获的图片 */}
+          {images.length > 0 && (
+            <div>
+              <Label>图片</Label>
+              <div className="flex gap-2 flex-wrap mt-1">
+                {images.map(image => (
+                  <div key={image.id} className="relative">
+                    <img
+                      src={image.url}
+                      alt={image.alt}
+                      className="h-20 w-20 object-cover rounded border"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setImages(prev => prev.filter(item => item.id !== image.id))}
+                      className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-background border text-xs hover:text-red-500"
+                      aria-label="移除图片"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* 背面内容 */}
           <div>
             <Label htmlFor="backTitle">背面标题</Label>
@@ -167,6 +220,27 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
             />
           </div>
 
+          {/* 文件夹 */}
+          <div>
+            <Label htmlFor="folder">文件夹</Label>
+            <Select
+              value={formData.folderId}
+              onValueChange={(value) => handleInputChange('folderId', value)}
+            >
+              <SelectTrigger id="folder">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FOLDER}>不放入文件夹</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* 标签 */}
           <div>
             <Label htmlFor="tags">标签</Label>
@@ -201,15 +275,36 @@ export function CardCreator({ onCardCreated, className }: CardCreatorProps) {
                 + 添加标签
               </Button>
             </div>
+            {suggestedTags.length > 0 && (
+              <div className="flex gap-1 flex-wrap mt-2">
+                {suggestedTags.map(name => (
+                  <Badge
+                    key={name}
+                    variant="outline"
+                    className="cursor-pointer hover:bg-accent"
+                    onClick={() => handleInputChange('tags', [...formData.tags, name])}
+                  >
+                    + {name}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
-          <Button
-            type="submit"
-            disabled={isSubmitting || !formData.frontContent}
-            className="w-full"
-          >
-            {isSubmitting ? '创建中...' : '创建卡片'}
-          </Button>
+          <div className="flex gap-2">
+            {onCancel && (
+              <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+                取消
+              </Button>
+            )}
+            <Button
+              type="submit"
+              disabled={isSubmitting || (!formData.frontContent && images.length === 0)}
+              className="flex-1"
+            >
+              {isSubmitting ? '创建中...' : '创建卡片'}
+            </Button>
+          </div>
         </form>
       </CardContent>
     </Card>
@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { History, X } from 'lucide-react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { CardType, CardContentType } from '@/types/card';
+import { Button } from '@/components/ui/button';
+import { CardType, CardContentType, TodoItem } from '@/types/card';
+import { CardHistoryPanel } from '@/components/history/card-history-panel';
+import { CardBacklinks } from '@/components/links/card-backlinks';
 import { CardSide } from './card-side';
+import { CardSource } from './card-source';
 
 interface CardDetailModalProps {
   isOpen: boolean;
@@ -9,6 +14,9 @@ interface CardDetailModalProps {
   card: CardType | null;
   onCardUpdate: (cardId: string, updates: any) => void;
   onFlip: (cardId: string) => void;
+  // 链接到当前卡片的卡片列表及打开方式
+  cards?: CardType[];
+  onOpenCard?: (card: CardType) => void;
 }
 
 export const CardDetailModal: React.FC<CardDetailModalProps> = ({
@@ -16,8 +24,17 @@ export const CardDetailModal: React.FC<CardDetailModalProps> = ({
   onClose,
   card,
   onCardUpdate,
-  onFlip
+  onFlip,
+  cards = [],
+  onOpenCard
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
+  // 切换卡片或关闭时回到内容视图
+  useEffect(() => {
+    setShowHistory(false);
+  }, [card?.id, isOpen]);
+
   if (!card) return null;
 
   // 临时处理函数，因为CardSide需要这些props但在查看模式下不会使用
@@ -65,16 +82,44 @@ export const CardDetailModal: React.FC<CardDetailModalProps> = ({
     // 在查看模式下不处理
   };
 
+  // 待办可以在详情中直接编辑
+  const handleTodosChange = (todos: TodoItem[]) => {
+    const contentKey = card.isFlipped ? 'backContent' : 'frontContent';
+    onCardUpdate(card.id, {
+      [contentKey]: { ...card[contentKey], todos, lastModified: new Date() }
+    });
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+      <DialogContent className={showHistory ? 'max-w-6xl max-h-[90vh] overflow-auto' : 'max-w-4xl max-h-[90vh] overflow-auto'}>
         <div className="p-6">
           {/* 卡片标题 */}
-          <h2 className="text-2xl font-bold mb-6">
-            {card.frontContent.title || 'Untitled Card'}
-          </h2>
-          
-          {/* 卡片内容 */}
+          <div className="flex items-center justify-between gap-4 mb-6 pr-6">
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold">
+                {card.frontContent.title || 'Untitled Card'}
+              </h2>
+              <CardSource source={card.source} showDate className="mt-1 text-sm" />
+            </div>
+            <Button
+              variant={showHistory ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              {showHistory ? <X className="h-4 w-4 mr-2" /> : <History className="h-4 w-4 mr-2" />}
+              {showHistory ? 'Close History' : 'History'}
+            </Button>
+          </div>
+
+          {/* 版本历史 */}
+          {showHistory ? (
+            <CardHistoryPanel
+              card={card}
+              onRestore={(updates) => onCardUpdate(card.id, updates)}
+            />
+          ) : (
+          /* 卡片内容 */
           <div className="border rounded-xl shadow-lg p-6">
             <CardSide
               content={card.isFlipped ? card.backContent : card.frontContent}
@@ -98,11 +143,24 @@ export const CardDetailModal: React.FC<CardDetailModalProps> = ({
               onStyleChange={handleStyleChange}
               onTagsChange={handleTagsChange}
               onMoveToFolder={handleMoveToFolder}
+              onTodosChange={handleTodosChange}
+              todoListVariant="full"
               _card={card}
               isFlipping={false}
               isCurrentlyFlipped={card.isFlipped}
             />
           </div>
+          )}
+
+          {/* 反向链接 */}
+          {!showHistory && onOpenCard && (
+            <CardBacklinks
+              cardId={card.id}
+              cards={cards}
+              onOpen={onOpenCard}
+              className="mt-6"
+            />
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,6 +1,14 @@
-import React, { useMemo } from 'react'
+import React, { useMemo, useState } from 'react'
+import { SortableContext } from '@dnd-kit/sortable'
 import { Card as CardType } from '@/types/card'
+import { EntityLockTarget } from '@/types/entity-lock'
+import { CardReorderOptions } from '@/types/ordering'
 import { EnhancedFlipCard } from './enhanced-flip-card'
+import { LockedCardPlaceholder } from '@/components/security/locked-card-placeholder'
+import { EntityLockDialog } from '@/components/security/entity-lock-dialog'
+import { SortableCard } from '@/components/ordering/sortable-card'
+import { staticSortingStrategy, toSortableId } from '@/components/ordering/reorder-dnd-context'
+import { useLockedCards } from '@/hooks/use-entity-lock'
 import { cn } from '@/lib/utils'
 
 interface CardGridProps {
@@ -11,6 +19,13 @@ interface CardGridProps {
   onCardScreenshot: (cardId: string) => void
   onCardShare: (cardId: string) => void
   onCardStyleChange?: (cardId: string) => void
+  onCardDelete?: (cardId: string) => void
+  onMoveToFolder?: (cardId: string, folderId: string | null) => void
+  reorder?: CardReorderOptions
+  // 只读模式：用于浏览备份快照，禁用编辑、删除与锁定
+  readOnly?: boolean
+  title?: string
+  showHeader?: boolean
   layout?: 'grid' | 'list'
   cardSize?: 'sm' | 'md' | 'lg'
   className?: string
@@ -24,16 +39,22 @@ export function CardGrid({
   onCardScreenshot,
   onCardShare,
   onCardStyleChange,
+  onCardDelete,
+  onMoveToFolder,
+  reorder,
+  readOnly = false,
+  title = 'Your Cards',
+  showHeader = true,
   layout = 'grid',
   cardSize = 'md',
   className
 }: CardGridProps) {
-  // Sort cards by creation date (newest first)
-  const sortedCards = useMemo(() => {
-    return [...cards].sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    )
-  }, [cards])
+  const { revealedCards, handleUpdate } = useLockedCards(cards, onCardUpdate)
+  const [lockTarget, setLockTarget] = useState<EntityLockTarget | null>(null)
+  const openLockDialog = (cardId: string) => setLockTarget({ type: 'card', id: cardId })
+
+  // 按传入的顺序排列，排序由调用方决定
+  const sortableIds = useMemo(() => cards.map(card => toSortableId('card', card.id)), [cards])
 
   if (cards.length === 0) {
     return (
@@ -71,40 +92,76 @@ export function CardGrid({
     }
   }
 
+  const grid = (
+    <div className={getGridClasses()}>
+      {cards.map((card) => {
+        const revealed = revealedCards.get(card.id)
+        const content = revealed ? (
+          <EnhancedFlipCard
+            card={revealed}
+            onFlip={onCardFlip}
+            onUpdate={handleUpdate}
+            onCopy={onCardCopy}
+            onScreenshot={onCardScreenshot}
+            onShare={onCardShare}
+            onDelete={onCardDelete}
+            onMoveToFolder={onMoveToFolder}
+            onLock={readOnly ? undefined : openLockDialog}
+            readOnly={readOnly}
+            size={cardSize}
+            className="w-full"
+          />
+        ) : (
+          <LockedCardPlaceholder card={card} onUnlock={openLockDialog} className="w-full" />
+        )
+
+        return (
+          <div 
+            key={card.id} 
+            className="break-inside-avoid"
+          >
+            {reorder && !readOnly ? (
+              <SortableCard
+                cardId={card.id}
+                label={revealed ? revealed.frontContent.title || 'Untitled card' : 'Locked card'}
+                isSelected={reorder.selectedCardIds.includes(card.id)}
+                disabled={reorder.disabled}
+                orientation={layout === 'list' ? 'vertical' : 'horizontal'}
+                onToggleSelect={reorder.onToggleSelect}
+              >
+                {content}
+              </SortableCard>
+            ) : content}
+          </div>
+        )
+      })}
+    </div>
+  )
+
   return (
     <div className={cn("p-6", className)}>
       {/* Header */}
-      <div className="mb-6">
-        <div className="flex items-center justify-between">
-          <div>
-            <h2 className="text-2xl font-bold">Your Cards</h2>
-            <p className="text-muted-foreground">
-              {cards.length} {cards.length === 1 ? 'card' : 'cards'}
-            </p>
+      {showHeader && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">{title}</h2>
+              <p className="text-muted-foreground">
+                {cards.length} {cards.length === 1 ? 'card' : 'cards'}
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Cards Grid */}
-      <div className={getGridClasses()}>
-        {sortedCards.map((card) => (
-          <div 
-            key={card.id} 
-            className="break-inside-avoid"
-          >
-            <EnhancedFlipCard
-              card={card}
-              onFlip={onCardFlip}
-              onUpdate={onCardUpdate}
-              onCopy={onCardCopy}
-              onScreenshot={onCardScreenshot}
-              onShare={onCardShare}
-              size={cardSize}
-              className="w-full"
-            />
-          </div>
-        ))}
-      </div>
+      {reorder && !readOnly ? (
+        <SortableContext items={sortableIds} strategy={staticSortingStrategy}>
+          {grid}
+        </SortableContext>
+      ) : grid}
+
+      <EntityLockDialog target={lockTarget} onClose={() => setLockTarget(null)} />
 
       {/* Load More / Pagination could go here */}
       {cards.length > 20 && (
@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { Card as CardType, CardContentType, ImageData } from '@/types/card'
+import { Card as CardType, CardContentType, ImageData, TodoItem } from '@/types/card'
+import { TodoProgress } from '@/types/tasks'
 import { Button } from '@/components/ui/button'
 import {
   Cat,
@@ -13,7 +14,10 @@ import {
   Image as ImageIcon,
   Trash2,
   FolderOpen,
-  Maximize2
+  Maximize2,
+  Lock,
+  ListTodo,
+  CheckSquare
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import {
@@ -28,6 +32,10 @@ import { RichTextEditor } from './rich-text-editor'
 import { TitleEditor } from './title-editor'
 import { CardTags } from '../tag/card-tags'
 import { ImageGrid } from './image-grid'
+import { CardSource } from './card-source'
+import { TodoList } from '@/components/tasks/todo-list'
+import { cardLinkService } from '@/services/links/card-link-service'
+import { renderWikiLinks } from '@/services/links/wiki-links'
 
 interface CardSideProps {
   content: CardContentType
@@ -51,6 +59,13 @@ interface CardSideProps {
   onStyleChange?: () => void
   onTagsChange?: () => void
   onMoveToFolder?: () => void
+  onLock?: () => void
+  // 只读模式：隐藏编辑/删除操作（时间机器浏览）
+  readOnly?: boolean
+  // 待办清单：卡片上为简洁列表，详情中可设置截止日期、优先级和提醒
+  onTodosChange?: (_todos: TodoItem[]) => void
+  todoListVariant?: 'compact' | 'full'
+  taskProgress?: TodoProgress
   _card: CardType
   isFlipping: boolean
   isCurrentlyFlipped: boolean
@@ -74,6 +89,11 @@ const CardSide = React.memo(function CardSide({
   onStyleChange,
   onTagsChange,
   onMoveToFolder,
+  onLock,
+  readOnly = false,
+  onTodosChange,
+  todoListVariant = 'compact',
+  taskProgress,
   isFlipping,
   isCurrentlyFlipped,
   _onTitleChange,
@@ -84,6 +104,9 @@ const CardSide = React.memo(function CardSide({
 }: CardSideProps) {
   // 本地状态：控制全屏模态框显示
   const [isFullscreenModalOpen, setIsFullscreenModalOpen] = useState(false)
+  const [isAddingTodo, setIsAddingTodo] = useState(false)
+  const todos = content.todos || []
+  const canEditTodos = !readOnly && !!onTodosChange
   
   // 全屏切换函数
   const toggleFullscreen = () => {
@@ -151,10 +174,18 @@ const CardSide = React.memo(function CardSide({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem onClick={onEdit}>
-                <Edit3 className="h-4 w-4 mr-2" />
-                Edit Content
-              </DropdownMenuItem>
+              {!readOnly && (
+                <DropdownMenuItem onClick={onEdit}>
+                  <Edit3 className="h-4 w-4 mr-2" />
+                  Edit Content
+                </DropdownMenuItem>
+              )}
+              {canEditTodos && todoListVariant === 'compact' && (
+                <DropdownMenuItem onClick={() => setIsAddingTodo(true)}>
+                  <ListTodo className="h-4 w-4 mr-2" />
+                  Add Task
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={onCopy}>
                 <Copy className="h-4 w-4 mr-2" />
                 Copy Text
@@ -190,14 +221,24 @@ const CardSide = React.memo(function CardSide({
                   Move to Folder
                 </DropdownMenuItem>
               )}
-              <DropdownMenuSeparator />
-              <DropdownMenuItem 
-                onClick={onDelete}
-                className="text-destructive focus:text-destructive"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete Card
-              </DropdownMenuItem>
+              {onLock && (
+                <DropdownMenuItem onClick={onLock}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {_card.lock ? 'Lock Options...' : 'Lock Card...'}
+                </DropdownMenuItem>
+              )}
+              {!readOnly && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem 
+                    onClick={onDelete}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Card
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -239,6 +280,12 @@ const CardSide = React.memo(function CardSide({
             onClick={(e) => {
               // 处理链接点击
               const target = e.target as HTMLElement
+              const wikiLink = target.closest<HTMLElement>('[data-wiki-link]')
+              if (wikiLink) {
+                e.stopPropagation()
+                cardLinkService.open(wikiLink.dataset.wikiLink || '')
+                return
+              }
               if (target.tagName === 'A') {
                 e.stopPropagation()
                 const href = target.getAttribute('href')
@@ -251,25 +298,52 @@ const CardSide = React.memo(function CardSide({
             <div
               className="whitespace-pre-wrap break-words overflow-wrap-anywhere"
               dangerouslySetInnerHTML={{
-                __html: content.text || '<span class="text-muted-foreground">Click to add content...</span>'
+                __html: renderWikiLinks(content.text) || '<span class="text-muted-foreground">Click to add content...</span>'
               }}
             />
           </div>
         )}
       </div>
 
-      {/* Footer with Tags and Image Count */}
+      {/* Todos */}
+      {(todos.length > 0 || isAddingTodo || (canEditTodos && todoListVariant === 'full')) && (
+        <TodoList
+          todos={todos}
+          onChange={canEditTodos ? onTodosChange : undefined}
+          variant={todoListVariant}
+          isAdding={isAddingTodo}
+          onAddingChange={setIsAddingTodo}
+          className="mb-3 relative z-10"
+        />
+      )}
+
+      {/* Footer with Tags, Source, Task Progress and Image Count */}
       <div className="mt-auto">
         {/* Tags */}
         <CardTags tags={content.tags} size="sm" />
 
-        {/* Image Count */}
-        {content.images.length > 0 && (
-          <div className="flex items-center justify-end text-xs text-muted-foreground mt-2">
-            <div className="flex items-center gap-1">
-              <ImageIcon className="h-3 w-3" />
-              <span>{content.images.length}</span>
-            </div>
+        {/* Source, Task Progress and Image Count */}
+        {(_card.source || content.images.length > 0 || !!taskProgress?.total) && (
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mt-2">
+            <CardSource source={_card.source} />
+            {!!taskProgress?.total && (
+              <div
+                className={cn(
+                  'flex items-center gap-1 ml-auto rounded-full border px-1.5 py-0.5',
+                  taskProgress.completed === taskProgress.total && 'border-green-300 text-green-600'
+                )}
+                title={`${taskProgress.completed} of ${taskProgress.total} tasks done`}
+              >
+                <CheckSquare className="h-3 w-3" />
+                <span>{taskProgress.completed}/{taskProgress.total} done</span>
+              </div>
+            )}
+            {content.images.length > 0 && (
+              <div className={cn('flex items-center gap-1', !taskProgress?.total && 'ml-auto')}>
+                <ImageIcon className="h-3 w-3" />
+                <span>{content.images.length}</span>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -299,11 +373,19 @@ const CardSide = React.memo(function CardSide({
               {/* 文本内容 */}
               <div 
                 className="text-lg leading-relaxed text-left max-w-3xl mx-auto tiptap-editor overflow-y-auto overflow-x-hidden max-h-[calc(100vh-200px)]"
+                onClick={(e) => {
+                  // 打开链接的卡片前先关闭全屏
+                  const wikiLink = (e.target as HTMLElement).closest<HTMLElement>('[data-wiki-link]')
+                  if (wikiLink) {
+                    setIsFullscreenModalOpen(false)
+                    cardLinkService.open(wikiLink.dataset.wikiLink || '')
+                  }
+                }}
               >
                 <div
                   className="whitespace-pre-wrap break-words overflow-wrap-anywhere"
                   dangerouslySetInnerHTML={{
-                    __html: content.text || '<span class="text-muted-foreground">No content</span>'
+                    __html: renderWikiLinks(content.text) || '<span class="text-muted-foreground">No content</span>'
                   }}
                 />
               </div>
@@ -314,6 +396,9 @@ const CardSide = React.memo(function CardSide({
                   <CardTags tags={content.tags} size="md" />
                 </div>
               )}
+
+              {/* 来源 */}
+              <CardSource source={_card.source} showDate className="mt-4 justify-center text-sm" />
             </div>
             
             {/* 关闭按钮 */}
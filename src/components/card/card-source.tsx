@@ -0,0 +1,46 @@
+import React from 'react'
+import { Link2 } from 'lucide-react'
+import { CardSource as CardSourceType } from '@/types/card'
+import { cn } from '@/lib/utils'
+
+interface CardSourceProps {
+  source?: CardSourceType
+  className?: string
+  showDate?: boolean
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * 剪藏卡片的来源链接和剪藏日期
+ */
+export const CardSource: React.FC<CardSourceProps> = ({ source, className, showDate = false }) => {
+  if (!source) return null
+
+  // 从备份或同步恢复的日期可能是字符串
+  const capturedAt = new Date(source.capturedAt)
+  const capturedLabel = isNaN(capturedAt.getTime()) ? '' : capturedAt.toLocaleDateString()
+
+  return (
+    <div className={cn('flex items-center gap-1 min-w-0 text-xs text-muted-foreground', className)}>
+      <Link2 className="h-3 w-3 shrink-0" />
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="truncate hover:underline"
+        title={`${source.url}${capturedLabel ? `\nClipped ${capturedLabel}` : ''}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {source.siteName || hostnameOf(source.url)}
+      </a>
+      {showDate && capturedLabel && <span className="shrink-0">· Clipped {capturedLabel}</span>}
+    </div>
+  )
+}
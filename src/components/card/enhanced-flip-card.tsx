@@ -1,10 +1,11 @@
 // Enhanced flip card with integrated style and tag selection
-import React, { useCallback } from 'react'
+import React, { useCallback, useMemo } from 'react'
 import { Card as CardType } from '../../types/card'
 import { FlipCard } from './flip-card'
 import { useStylePanel } from '../../contexts/style-panel-context'
 import { useTagPanel } from '../../contexts/tag-panel-context'
 import { useFolderPanel } from '../../contexts/folder-panel-context'
+import { getTodoProgress } from '../../services/tasks/task-aggregation'
 
 interface EnhancedFlipCardProps {
   card: CardType
@@ -15,6 +16,8 @@ interface EnhancedFlipCardProps {
   onShare: (cardId: string) => void
   onDelete: (cardId: string) => void
   onMoveToFolder?: (cardId: string, folderId: string | null) => void
+  onLock?: (cardId: string) => void
+  readOnly?: boolean
   className?: string
   size?: 'sm' | 'md' | 'lg'
 }
@@ -28,6 +31,8 @@ export function EnhancedFlipCard({
   onShare,
   onDelete,
   onMoveToFolder,
+  onLock,
+  readOnly = false,
   className,
   size = 'md'
 }: EnhancedFlipCardProps) {
@@ -82,6 +87,9 @@ export function EnhancedFlipCard({
     }
   }, [card.id, card.folderId, onMoveToFolder, openFolderPanel])
 
+  // 卡片正面的待办进度（正反面合计）
+  const taskProgress = useMemo(() => getTodoProgress(card), [card.frontContent, card.backContent])
+
   return (
     <FlipCard
       card={card}
@@ -91,9 +99,12 @@ export function EnhancedFlipCard({
       onScreenshot={onScreenshot}
       onShare={onShare}
       onDelete={onDelete}
-      onStyleChange={handleStyleChangeClick}
-      onTagsChange={handleTagsChangeClick}
-      onMoveToFolder={onMoveToFolder ? handleMoveToFolderClick : undefined}
+      onStyleChange={readOnly ? undefined : handleStyleChangeClick}
+      onTagsChange={readOnly ? undefined : handleTagsChangeClick}
+      onMoveToFolder={onMoveToFolder && !readOnly ? handleMoveToFolderClick : undefined}
+      onLock={readOnly ? undefined : onLock}
+      readOnly={readOnly}
+      taskProgress={taskProgress}
       className={className}
       size={size}
     />
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useCallback, useMemo } from 'react'
-import { Card as CardType, CardContent as CardContentType } from '@/types/card'
+import { Card as CardType, CardContent as CardContentType, TodoItem } from '@/types/card'
+import { TodoProgress } from '@/types/tasks'
 import { Button } from '@/components/ui/button'
 import { 
   Cat, 
@@ -39,6 +40,9 @@ interface FlipCardProps {
   onStyleChange?: (_cardId: string) => void
   onTagsChange?: (_cardId: string) => void
   onMoveToFolder?: () => void
+  onLock?: (_cardId: string) => void
+  readOnly?: boolean
+  taskProgress?: TodoProgress
   className?: string
   size?: 'sm' | 'md' | 'lg'
 }
@@ -54,6 +58,9 @@ export function FlipCard({
   onStyleChange,
   onTagsChange,
   onMoveToFolder,
+  onLock,
+  readOnly = false,
+  taskProgress,
   className,
   size = 'md'
 }: FlipCardProps) {
@@ -181,10 +188,12 @@ export function FlipCard({
 
   // Start editing
   const startEditing = useCallback((field: 'title' | 'content') => {
+    // 只读模式下不进入编辑
+    if (readOnly) return
     setTempContent(currentContent)
     setEditingField(field)
     setIsEditing(true)
-  }, [currentContent])
+  }, [currentContent, readOnly])
 
   const handleEdit = useCallback((e: React.MouseEvent) => {
     e.stopPropagation()
@@ -228,6 +237,18 @@ export function FlipCard({
     setTempContent(null)
   }, [])
 
+  // 勾选或增删待办直接保存，编辑中的临时内容同步更新，避免保存编辑时覆盖
+  const handleTodosChange = useCallback((side: 'front' | 'back', todos: TodoItem[]) => {
+    const contentKey = side === 'front' ? 'frontContent' : 'backContent'
+    const lastModified = new Date()
+    onUpdate(card.id, {
+      [contentKey]: { ...card[contentKey], todos, lastModified }
+    } as Partial<CardType>)
+    if (tempContent && isFlipped === (side === 'back')) {
+      setTempContent({ ...tempContent, todos, lastModified })
+    }
+  }, [card, onUpdate, tempContent, isFlipped])
+
   // Legacy handlers for backward compatibility
   const handleTitleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     handleTempContentUpdate('title', e.target.value)
@@ -315,6 +336,10 @@ export function FlipCard({
               onStyleChange={onStyleChange ? () => onStyleChange(card.id) : undefined}
               onTagsChange={onTagsChange ? () => onTagsChange(card.id) : undefined}
               onMoveToFolder={onMoveToFolder}
+              onLock={onLock ? () => onLock(card.id) : undefined}
+              readOnly={readOnly}
+              onTodosChange={(todos) => handleTodosChange('front', todos)}
+              taskProgress={taskProgress}
               _card={card}
               isFlipping={isFlipping}
               isCurrentlyFlipped={isFlipped}
@@ -362,6 +387,10 @@ export function FlipCard({
               onStyleChange={onStyleChange ? () => onStyleChange(card.id) : undefined}
               onTagsChange={onTagsChange ? () => onTagsChange(card.id) : undefined}
               onMoveToFolder={onMoveToFolder}
+              onLock={onLock ? () => onLock(card.id) : undefined}
+              readOnly={readOnly}
+              onTodosChange={(todos) => handleTodosChange('back', todos)}
+              taskProgress={taskProgress}
               _card={card}
               isFlipping={isFlipping}
               isCurrentlyFlipped={isFlipped}
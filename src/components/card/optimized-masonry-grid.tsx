@@ -1,6 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { SortableContext } from '@dnd-kit/sortable'
 import { Card as CardType } from '@/types/card'
+import { EntityLockTarget } from '@/types/entity-lock'
+import { CardReorderOptions } from '@/types/ordering'
 import { EnhancedFlipCard } from './enhanced-flip-card'
+import { LockedCardPlaceholder } from '@/components/security/locked-card-placeholder'
+import { EntityLockDialog } from '@/components/security/entity-lock-dialog'
+import { SortableCard } from '@/components/ordering/sortable-card'
+import { staticSortingStrategy, toSortableId } from '@/components/ordering/reorder-dnd-context'
+import { useLockedCards } from '@/hooks/use-entity-lock'
 import { useMasonryLayout, MasonryItem } from '@/hooks/use-masonry-layout'
 import { cn } from '@/lib/utils'
 
@@ -14,6 +22,7 @@ interface OptimizedMasonryGridProps {
   onCardDelete: (cardId: string) => void
   onMoveToFolder?: (cardId: string, folderId: string | null) => void
   onCardStyleChange?: (cardId: string) => void
+  reorder?: CardReorderOptions
   cardSize?: 'sm' | 'md' | 'lg'
   className?: string
   gap?: number
@@ -33,6 +42,7 @@ export function OptimizedMasonryGrid({
   onCardDelete,
   onMoveToFolder,
   onCardStyleChange,
+  reorder,
   cardSize = 'md',
   className,
   gap = 16,
@@ -47,13 +57,13 @@ export function OptimizedMasonryGrid({
   const [containerHeight, setContainerHeight] = useState(0)
   const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map())
   const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const { revealedCards, handleUpdate } = useLockedCards(cards, onCardUpdate)
+  const [lockTarget, setLockTarget] = useState<EntityLockTarget | null>(null)
+  const openLockDialog = useCallback((cardId: string) => setLockTarget({ type: 'card', id: cardId }), [])
 
-  // Sort cards by creation date (newest first)
-  const sortedCards = useMemo(() => {
-    return [...cards].sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    )
-  }, [cards])
+  // 按传入的顺序排列，排序由调用方决定
+  const sortedCards = cards
+  const sortableIds = useMemo(() => cards.map(card => toSortableId('card', card.id)), [cards])
 
   // Estimate initial card heights based on content and size
   const estimateCardHeight = useCallback((card: CardType): number => {
@@ -260,7 +270,7 @@ export function OptimizedMasonryGrid({
     )
   }
 
-  return (
+  const grid = (
     <div
       ref={containerRef}
       className={cn("relative w-full", className)}
@@ -269,6 +279,24 @@ export function OptimizedMasonryGrid({
       {visibleItems.map((card) => {
         const position = positions.get(card.id)
         if (!position) return null
+        const revealed = revealedCards.get(card.id)
+        const content = revealed ? (
+          <EnhancedFlipCard
+            card={revealed}
+            onFlip={onCardFlip}
+            onUpdate={handleUpdate}
+            onCopy={onCardCopy}
+            onScreenshot={onCardScreenshot}
+            onShare={onCardShare}
+            onDelete={onCardDelete}
+            onMoveToFolder={onMoveToFolder}
+            onLock={openLockDialog}
+            size={cardSize}
+            className="w-full"
+          />
+        ) : (
+          <LockedCardPlaceholder card={card} onUnlock={openLockDialog} className="w-full" />
+        )
 
         return (
           <div
@@ -281,21 +309,28 @@ export function OptimizedMasonryGrid({
               willChange: 'transform'
             }}
           >
-            <EnhancedFlipCard
-              card={card}
-              onFlip={onCardFlip}
-              onUpdate={onCardUpdate}
-              onCopy={onCardCopy}
-              onScreenshot={onCardScreenshot}
-              onShare={onCardShare}
-              onDelete={onCardDelete}
-              onMoveToFolder={onMoveToFolder}
-              size={cardSize}
-              className="w-full"
-            />
+            {reorder ? (
+              <SortableCard
+                cardId={card.id}
+                label={revealed ? revealed.frontContent.title || 'Untitled card' : 'Locked card'}
+                isSelected={reorder.selectedCardIds.includes(card.id)}
+                disabled={reorder.disabled}
+                onToggleSelect={reorder.onToggleSelect}
+              >
+                {content}
+              </SortableCard>
+            ) : content}
           </div>
         )
       })}
+
+      <EntityLockDialog target={lockTarget} onClose={() => setLockTarget(null)} />
     </div>
   )
+
+  return reorder ? (
+    <SortableContext items={sortableIds} strategy={staticSortingStrategy}>
+      {grid}
+    </SortableContext>
+  ) : grid
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useState, useRef } from 'react'
-import { useEditor, EditorContent } from '@tiptap/react'
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react'
+import { useEditor, EditorContent, Editor } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Image from '@tiptap/extension-image'
 import Placeholder from '@tiptap/extension-placeholder'
@@ -15,8 +15,20 @@ import { Button } from '@/components/ui/button'
 import { ImageIcon, Check, X, Smile } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { EmojiPicker } from './emoji-picker'
+import { WikiLinkSuggestions } from '@/components/links/wiki-link-suggestions'
+import { useCardAllCards } from '@/contexts/cardall-context'
+import { suggestLinkTitles } from '@/services/links/wiki-links'
 import './editor-styles.css'
 
+// 光标前未闭合的 [[ 及已输入的标题
+const WIKI_LINK_QUERY = /\[\[([^[\]]{0,100})$/
+
+interface WikiLinkQuery {
+  query: string
+  from: number // [[ 的位置
+  position: { x: number; y: number }
+}
+
 interface RichTextEditorProps {
   content: string
   placeholder?: string
@@ -41,6 +53,37 @@ export function RichTextEditor({
   const [emojiPosition, setEmojiPosition] = useState<{ x: number; y: number } | null>(null)
   const editorRef = useRef<HTMLDivElement>(null)
 
+  // [[ 卡片链接补全
+  const { allCards } = useCardAllCards()
+  const [wikiLink, setWikiLink] = useState<WikiLinkQuery | null>(null)
+  const [wikiLinkIndex, setWikiLinkIndex] = useState(0)
+  const wikiLinkTitles = useMemo(
+    () => (wikiLink ? suggestLinkTitles(allCards, wikiLink.query) : []),
+    [allCards, wikiLink]
+  )
+  // 编辑器按键处理在创建时绑定，通过 ref 读取最新状态
+  const wikiLinkRef = useRef({ wikiLink, titles: wikiLinkTitles, index: wikiLinkIndex })
+  wikiLinkRef.current = { wikiLink, titles: wikiLinkTitles, index: wikiLinkIndex }
+
+  const updateWikiLinkQuery = useCallback((editor: Editor) => {
+    const { selection } = editor.state
+    const match = selection.empty
+      ? WIKI_LINK_QUERY.exec(selection.$from.parent.textBetween(0, selection.$from.parentOffset, undefined, '\ufffc'))
+      : null
+    if (!match) {
+      setWikiLink(null)
+      return
+    }
+
+    const coords = editor.view.coordsAtPos(selection.from)
+    setWikiLink(prev => prev?.query === match[1] && prev.from === selection.from - match[0].length ? prev : {
+      query: match[1],
+      from: selection.from - match[0].length,
+      position: { x: coords.left, y: coords.bottom + 5 }
+    })
+    setWikiLinkIndex(0)
+  }, [])
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -111,12 +154,36 @@ export function RichTextEditor({
     content,
     onUpdate: ({ editor }) => {
       onUpdate(editor.getHTML())
+      updateWikiLinkQuery(editor)
+    },
+    onSelectionUpdate: ({ editor }) => {
+      updateWikiLinkQuery(editor)
     },
     editorProps: {
       attributes: {
         class: 'tiptap-editor text-sm leading-relaxed focus:outline-none min-h-[100px] w-full',
       },
       handleKeyDown: (view, event) => {
+        // 卡片链接补全打开时，方向键选择、回车或 Tab 插入
+        const { wikiLink: openWikiLink, titles, index } = wikiLinkRef.current
+        if (openWikiLink) {
+          if (event.key === 'Escape') {
+            setWikiLink(null)
+            return true
+          }
+          if (titles.length > 0) {
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              const step = event.key === 'ArrowDown' ? 1 : -1
+              setWikiLinkIndex((index + step + titles.length) % titles.length)
+              return true
+            }
+            if ((event.key === 'Enter' || event.key === 'Tab') && !event.ctrlKey && !event.metaKey) {
+              insertWikiLinkRef.current(titles[index])
+              return true
+            }
+          }
+        }
+
         // 只有在行首或空白处按 "/" 才触发 emoji 选择器
         if (event.key === '/' && !showEmojiPicker) {
           const { selection } = view.state
@@ -179,6 +246,19 @@ export function RichTextEditor({
     },
   })
 
+  // 用选中的标题替换 [[ 及已输入的内容
+  const insertWikiLink = useCallback((title: string) => {
+    const current = wikiLinkRef.current.wikiLink
+    if (!editor || !current) return
+    editor.chain()
+      .focus()
+      .insertContentAt({ from: current.from, to: editor.state.selection.from }, { type: 'text', text: `[[${title}]]` })
+      .run()
+    setWikiLink(null)
+  }, [editor])
+  const insertWikiLinkRef = useRef(insertWikiLink)
+  insertWikiLinkRef.current = insertWikiLink
+
   // Handle image upload
   const handleImageUpload = useCallback(() => {
     const input = document.createElement('input')
@@ -252,7 +332,9 @@ export function RichTextEditor({
 
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
-        if (showEmojiPicker) {
+        if (wikiLink) {
+          setWikiLink(null)
+        } else if (showEmojiPicker) {
           setShowEmojiPicker(false)
           setEmojiQuery('')
         } else {
@@ -269,7 +351,7 @@ export function RichTextEditor({
     return () => {
       editorElement.removeEventListener('keydown', handleKeyDown)
     }
-  }, [editor, onSave, onCancel, showEmojiPicker])
+  }, [editor, onSave, onCancel, showEmojiPicker, wikiLink])
 
   // Auto focus
   useEffect(() => {
@@ -324,6 +406,18 @@ export function RichTextEditor({
         />
       )}
 
+      {/* Wiki Link Suggestions */}
+      {wikiLink && (
+        <WikiLinkSuggestions
+          titles={wikiLinkTitles}
+          query={wikiLink.query}
+          activeIndex={wikiLinkIndex}
+          position={wikiLink.position}
+          onSelect={insertWikiLink}
+          onHover={setWikiLinkIndex}
+        />
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-2 mt-2 pt-2 border-t border-border/30">
         <Button
@@ -348,7 +442,7 @@ export function RichTextEditor({
       {/* Markdown Help Tooltip - 移到右上角，避免遮挡按钮 */}
       {editor && (
         <div className="absolute top-0 right-0 text-xs text-muted-foreground bg-white/90 px-2 py-1 rounded shadow-sm opacity-0 hover:opacity-100 transition-opacity pointer-events-none z-10 max-w-xs">
-          **bold** *italic* # heading - list {'>'} quote `code` ~~strike~~ [link](url) [] task / emoji
+          **bold** *italic* # heading - list {'>'} quote `code` ~~strike~~ [link](url) [] task / emoji [[ card link
         </div>
       )}
     </div>
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, ChevronDown, ChevronRight, Globe, Loader2 } from 'lucide-react'
+import { WebClip } from '@/types/web-clipper'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { useWebClipperSettings } from '@/hooks/use-web-clipper'
+import { useToast } from '@/hooks/use-toast'
+import { webClipperService } from '@/services/clipper/web-clipper-service'
+
+interface WebClipperDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  defaultFolderId?: string | null
+}
+
+// 不放入文件夹（Select 的选项值不能为空字符串）
+const NO_FOLDER = 'none'
+
+/**
+ * 从网址新建卡片
+ * 抓取网页并提取正文，预览后选择文件夹和标签保存
+ */
+export function WebClipperDialog({ isOpen, onClose, defaultFolderId }: WebClipperDialogProps) {
+  const { toast } = useToast()
+  const { dispatch } = useCardAllCards()
+  const { folders } = useCardAllFolders()
+  const settings = useWebClipperSettings()
+
+  const [url, setUrl] = useState('')
+  const [clip, setClip] = useState<WebClip | null>(null)
+  const [folderId, setFolderId] = useState(NO_FOLDER)
+  const [tags, setTags] = useState('')
+  const [showSettings, setShowSettings] = useState(false)
+  const [isClipping, setIsClipping] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setUrl('')
+    setClip(null)
+    setFolderId(defaultFolderId || NO_FOLDER)
+    setTags('')
+    setError(null)
+    // 尚未配置代理时展开设置
+    setShowSettings(!webClipperService.getSettings().proxyUrl)
+  }, [isOpen, defaultFolderId])
+
+  // 题图预览
+  const leadImageUrl = useMemo(() => (clip?.leadImage ? URL.createObjectURL(clip.leadImage) : null), [clip])
+  useEffect(() => () => {
+    if (leadImageUrl) URL.revokeObjectURL(leadImageUrl)
+  }, [leadImageUrl])
+
+  const handleClip = async () => {
+    setIsClipping(true)
+    setError(null)
+    setClip(null)
+    try {
+      setClip(await webClipperService.clip(url))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clip the page')
+    } finally {
+      setIsClipping(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!clip) return
+    setIsSaving(true)
+    try {
+      const card = await webClipperService.createCard(clip, {
+        folderId: folderId === NO_FOLDER ? undefined : folderId,
+        tags: Array.from(new Set(tags.split(',').map(tag => tag.trim()).filter(Boolean)))
+      })
+      await dispatch({ type: 'IMPORT_CARDS', payload: [card] })
+      toast({ title: 'Card created', description: `Clipped "${card.frontContent.title}"` })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the card')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const busy = isClipping || isSaving
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !busy && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Card from URL</DialogTitle>
+          <DialogDescription>
+            Fetch a web page, keep its main article and save it as a card with a link to the source.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (url.trim() && !busy) handleClip()
+          }}
+        >
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/article"
+            disabled={busy}
+            autoFocus
+          />
+          <Button type="submit" disabled={!url.trim() || busy}>
+            {isClipping ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Clip'}
+          </Button>
+        </form>
+
+        {/* 代理设置 */}
+        <div className="rounded-md border">
+          <button
+            type="button"
+            className="flex w-full items-center gap-1 px-3 py-2 text-sm font-medium"
+            onClick={() => setShowSettings(!showSettings)}
+          >
+            {showSettings ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Proxy settings
+            {!showSettings && (
+              <span className="ml-2 truncate text-xs font-normal text-muted-foreground">
+                {settings.proxyUrl || 'Direct (no proxy)'}
+              </span>
+            )}
+          </button>
+          {showSettings && (
+            <div className="space-y-3 border-t px-3 py-3">
+              <div className="space-y-1">
+                <Label htmlFor="clipper-proxy-url">Proxy URL</Label>
+                <Input
+                  id="clipper-proxy-url"
+                  value={settings.proxyUrl}
+                  onChange={(e) => webClipperService.updateSettings({ proxyUrl: e.target.value })}
+                  placeholder="http://127.0.0.1:8787/proxy?url={url}"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {'{url}'} is replaced with the page address. Leave empty to fetch pages directly, which most sites block.
+                </p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="clipper-proxy-token">Access token</Label>
+                <Input
+                  id="clipper-proxy-token"
+                  type="password"
+                  value={settings.proxyToken ?? ''}
+                  onChange={(e) => webClipperService.updateSettings({ proxyToken: e.target.value || undefined })}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {clip && (
+          <div className="space-y-4">
+            {clip.warnings.length > 0 && (
+              <div className="flex gap-2 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <ul className="space-y-0.5">
+                  {clip.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* 预览 */}
+            <div className="flex gap-3 rounded-md border p-3">
+              {leadImageUrl && (
+                <img src={leadImageUrl} alt="" className="h-20 w-20 shrink-0 rounded object-cover" />
+              )}
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="font-medium leading-snug">{clip.article.title}</p>
+                <p className="flex items-center gap-1 truncate text-xs text-muted-foreground">
+                  <Globe className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{clip.article.siteName || new URL(clip.url).hostname}</span>
+                  {clip.article.byline && <span className="truncate">· {clip.article.byline}</span>}
+                </p>
+                {clip.article.excerpt && (
+                  <p className="line-clamp-3 text-sm text-muted-foreground">{clip.article.excerpt}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {clip.article.textLength.toLocaleString()} characters of article text
+                </p>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="clipper-folder">Folder</Label>
+                <Select value={folderId} onValueChange={setFolderId}>
+                  <SelectTrigger id="clipper-folder">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        {folder.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="clipper-tags">Tags</Label>
+                <Input
+                  id="clipper-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="reading, reference"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!clip || busy}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Card
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
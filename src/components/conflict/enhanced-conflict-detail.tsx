@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -23,6 +23,8 @@ import {
 import { useConflicts } from '@/hooks/use-conflicts'
 import { conflictUIService } from '@/services/ui/conflict-ui-service'
 import { performanceMonitor } from '@/services/ui/performance-monitor'
+import { mergeEntity } from '@/services/conflict/card-merge'
+import { MergeHunk } from '@/services/conflict/three-way-merge'
 import { cn } from '@/lib/utils'
 import type { ConflictBase, ConflictResolution, ConflictSuggestion } from '@/types/conflict'
 
@@ -66,6 +68,14 @@ export function EnhancedConflictDetail({
     loadConflictDetails()
   }, [conflictId])
 
+  // 有基础版本时只展示三方合并后仍未解决的片段，其余修改已自动合并
+  const unresolvedHunks = useMemo<MergeHunk[] | null>(() => {
+    if (!conflict) return null
+    if (conflict.unresolvedHunks) return conflict.unresolvedHunks
+    const result = mergeEntity(conflict.entityType, conflict.baseVersion, conflict.localVersion, conflict.remoteVersion)
+    return result ? result.hunks : null
+  }, [conflict])
+
   const loadConflictDetails = async () => {
     const conflictData = await getConflictById(conflictId)
     const suggestionsData = await getSuggestions(conflictId)
@@ -253,8 +263,29 @@ export function EnhancedConflictDetail({
                         </div>
                       </div>
 
+                      {/* 未解决的片段 */}
+                      {unresolvedHunks && (
+                        <div className="mt-4">
+                          <div className="font-medium mb-2">
+                            {unresolvedHunks.length > 0
+                              ? `需要处理的冲突 (${unresolvedHunks.length}):`
+                              : '所有修改均已自动合并'}
+                          </div>
+                          <div className="space-y-2">
+                            {unresolvedHunks.map(hunk => (
+                              <div key={hunk.path} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                                <span className="text-sm font-medium">{getHunkLabel(hunk.path)}</span>
+                                <Badge variant="outline" className="text-orange-600 bg-orange-50">
+                                  双方均已修改
+                                </Badge>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       {/* 主要差异 */}
-                      {preview?.differences && preview.differences.length > 0 && (
+                      {!unresolvedHunks && preview?.differences && preview.differences.length > 0 && (
                         <div className="mt-4">
                           <div className="font-medium mb-2">主要差异:</div>
                           <div className="space-y-2">
@@ -326,6 +357,9 @@ export function EnhancedConflictDetail({
             <TabsContent value="comparison" className="flex-1 overflow-hidden">
               <ScrollArea className="h-full">
                 <div className="space-y-4">
+                  {unresolvedHunks ? (
+                    <UnresolvedHunks hunks={unresolvedHunks} />
+                  ) : (
                   <div className="grid grid-cols-2 gap-4">
                     {/* 本地版本详情 */}
                     <Card>
@@ -357,6 +391,7 @@ export function EnhancedConflictDetail({
                       </CardContent>
                     </Card>
                   </div>
+                  )}
                 </div>
               </ScrollArea>
             </TabsContent>
@@ -566,7 +601,89 @@ function VersionDetails({ version, entityType }: VersionDetailsProps) {
   }
 }
 
+// 未解决片段组件：逐个展示基础版本和双方修改后的内容
+function UnresolvedHunks({ hunks }: { hunks: MergeHunk[] }) {
+  if (hunks.length === 0) {
+    return (
+      <Alert>
+        <CheckCircle className="h-4 w-4" />
+        <AlertDescription>两边修改的是不同部分，已全部自动合并。</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <>
+      {hunks.map(hunk => (
+        <Card key={hunk.path}>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">{getHunkLabel(hunk.path)}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="p-2 bg-gray-50 rounded text-muted-foreground">
+              <span className="font-medium">原内容:</span>
+              <span className="ml-2 whitespace-pre-wrap">{formatHunkValue(hunk.base)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="p-2 bg-blue-50 rounded">
+                <div className="flex items-center gap-2 font-medium mb-1">
+                  <Download className="h-4 w-4 text-blue-500" />
+                  本地版本
+                </div>
+                <div className="whitespace-pre-wrap">{formatHunkValue(hunk.local)}</div>
+              </div>
+              <div className="p-2 bg-orange-50 rounded">
+                <div className="flex items-center gap-2 font-medium mb-1">
+                  <Upload className="h-4 w-4 text-orange-500" />
+                  远程版本
+                </div>
+                <div className="whitespace-pre-wrap">{formatHunkValue(hunk.remote)}</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  )
+}
+
 // 辅助函数
+function getHunkLabel(path: string): string {
+  const sides: Record<string, string> = { frontContent: '正面', backContent: '背面', style: '样式' }
+  const fields: Record<string, string> = {
+    title: '标题',
+    text: '正文',
+    todos: '待办',
+    images: '图片',
+    name: '名称',
+    color: '颜色',
+    parentId: '上级文件夹',
+    folderId: '所在文件夹'
+  }
+
+  const [side, field, ...rest] = path.split('.')
+  const textBlock = field?.match(/^text\[(\d+)\]$/)
+  if (!field) return fields[side] ?? side
+  if (side === 'style') return `${sides.style}: ${field}`
+  if (textBlock) return `${sides[side] ?? side}${fields.text} 第 ${Number(textBlock[1]) + 1} 段`
+  return `${sides[side] ?? side}${fields[field] ?? field}${rest.length > 0 ? ` (${rest[rest.length - 1]})` : ''}`
+}
+
+function formatHunkValue(value: unknown): string {
+  if (value === null || value === undefined) return '（已删除）'
+  if (typeof value === 'string') {
+    const text = value.replace(/<\/(p|h[1-6]|li|blockquote)>/gi, '\n').replace(/<[^>]+>/g, '').trim()
+    return text || '（空）'
+  }
+  if (typeof value === 'object') {
+    const item = value as Record<string, unknown>
+    if (typeof item.text === 'string') return `${item.completed ? '☑' : '☐'} ${item.text}`
+    if (typeof item.url === 'string') return String(item.alt || item.url)
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
 function getConflictTitle(conflict: ConflictBase): string {
   switch (conflict.entityType) {
     case 'card':
@@ -1,8 +1,12 @@
-import React, { useState, useMemo, useEffect } from 'react'
-import { useCardAllCards, useCardAllFolders, useCardAllTags } from '@/contexts/cardall-context'
+import React, { useState, useMemo, useEffect, useCallback } from 'react'
+import { useCardAllCards, useCardAllFolders, useCardAllTags, useCardAllUndoRedo } from '@/contexts/cardall-context'
+import { SortableContext } from '@dnd-kit/sortable'
 import { OptimizedMasonryGrid } from './card/optimized-masonry-grid'
+import { CardGrid } from './card/card-grid'
+import { CanvasView } from './canvas/canvas-view'
+import { ReorderDndContext, staticSortingStrategy, toSortableId } from './ordering/reorder-dnd-context'
+import { SortableSidebarItem } from './ordering/sortable-sidebar-item'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
 import {
@@ -18,7 +22,24 @@ import {
   ChevronDown,
   Download,
   Upload,
-  Database
+  Database,
+  GraduationCap,
+  FileText,
+  Printer,
+  Images,
+  Lock,
+  ShieldCheck,
+  CloudUpload,
+  Clock,
+  Globe,
+  ListChecks,
+  LayoutGrid,
+  LayoutDashboard,
+  List,
+  Workflow,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Sparkles
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Badge } from '@/components/ui/badge'
@@ -28,6 +49,7 @@ import { ThemeToggle } from '@/components/ui/theme-toggle'
 import { formatCardContentForCopy, copyTextToClipboard } from '@/utils/copy-utils'
 import { useScreenshot } from '@/hooks/use-screenshot'
 import { ScreenshotPreviewModal } from '@/components/screenshot/screenshot-preview-modal'
+import { BatchScreenshotDialog } from '@/components/screenshot/batch-screenshot-dialog'
 import { CardDetailModal } from '@/components/card/card-detail-modal'
 import { useToast } from '@/hooks/use-toast'
 import {
@@ -45,6 +67,48 @@ import { DonationButton } from '@/components/payment/donation-button'
 import { DonationModal } from '@/components/payment/donation-modal'
 import { FolderPanelProvider } from '@/contexts/folder-panel-context'
 import { AppConfig } from '@/config/app-config'
+import { ReviewSession } from '@/components/study/review-session'
+import { useStudy } from '@/hooks/use-study'
+import { useCardHistoryRecorder } from '@/hooks/use-card-history'
+import { useCardLinkIndexer, useCardLinkNavigation } from '@/hooks/use-card-links'
+import { useTasks, useTaskReminders } from '@/hooks/use-tasks'
+import { TasksView } from '@/components/tasks/tasks-view'
+import { ShareCardDialog } from '@/components/share/share-card-dialog'
+import { useSharedCardImport } from '@/hooks/use-card-share'
+import { compareManualOrder, moveIds } from '@/services/ordering/manual-order'
+import { useCardOrder } from '@/hooks/use-card-order'
+import { useSavedViews, useSavedViewMatches } from '@/hooks/use-saved-views'
+import {
+  applySavedViewFields,
+  filterCardsByView,
+  isSameSavedView,
+  savedViewOrderId
+} from '@/services/saved-views/saved-view-query'
+import { SavedViewList } from '@/components/saved-views/saved-view-list'
+import { SavedViewDialog } from '@/components/saved-views/saved-view-dialog'
+import { SearchBox } from '@/components/search/search-box'
+import { compileSearchQuery, applySearchQuery } from '@/services/search/search-query'
+import { ImportExportDialog } from '@/components/interchange/import-export-dialog'
+import { UndoRedoManager } from '@/components/undo-redo-manager'
+import { PWAStatus } from '@/components/pwa/pwa-status'
+import { PdfExportDialog } from '@/components/print/pdf-export-dialog'
+import { VaultSettingsDialog } from '@/components/security/vault-settings-dialog'
+import { EntityLockDialog } from '@/components/security/entity-lock-dialog'
+import { RemoteBackupDialog } from '@/components/backup/remote-backup-dialog'
+import { TimeMachineDialog } from '@/components/history/time-machine-dialog'
+import { TimeMachineView } from '@/components/history/time-machine-view'
+import { CaptureDialog } from '@/components/capture/capture-dialog'
+import { WebClipperDialog } from '@/components/clipper/web-clipper-dialog'
+import { useTimeMachineDataset } from '@/hooks/use-time-machine'
+import { useVault } from '@/hooks/use-vault'
+import { vaultService } from '@/services/security/vault-service'
+import { entityLockService } from '@/services/security/entity-lock-service'
+import { useEntityLock, useFolderLockSealing } from '@/hooks/use-entity-lock'
+import { EntityLockTarget } from '@/types/entity-lock'
+import { Card as CardType } from '@/types/card'
+import { CANVAS_ALL_CARDS_BOARD } from '@/types/canvas'
+import { ALL_CARDS_ORDER, CardReorderOptions } from '@/types/ordering'
+import { SavedView, SavedViewDraft } from '@/types/saved-view'
 
 interface DashboardProps {
   className?: string
@@ -62,6 +126,7 @@ export function Dashboard({ className }: DashboardProps) {
 
   const {
     cards,
+    allCards,
     filter,
     setFilter,
     viewSettings,
@@ -85,13 +150,43 @@ export function Dashboard({ className }: DashboardProps) {
   const { 
     tags, 
     popularTags, 
+    dispatch: tagDispatch,
+    getTagSuggestions,
     renameTag, 
     deleteTagByName, 
     getAllTagNames 
   } = useCardAllTags()
   
   const { toast } = useToast()
+  const { group: groupUndo } = useCardAllUndoRedo()
+  const {
+    dueCounts,
+    getStudyQueue,
+    getReviewState,
+    recordReview
+  } = useStudy(allCards)
+  // 记录卡片修订，供详情中的版本历史使用
+  useCardHistoryRecorder(allCards)
+  // 维护 [[标题]] 链接索引，卡片改名时改写指向它的链接
+  useCardLinkIndexer(allCards, cardDispatch)
+  const [studySession, setStudySession] = useState<{ title: string; queue: CardType[] } | null>(null)
+  const [showTasks, setShowTasks] = useState(false)
+  const [sharingCard, setSharingCard] = useState<CardType | null>(null)
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([])
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showInterchangeDialog, setShowInterchangeDialog] = useState(false)
+  const [showPdfExportDialog, setShowPdfExportDialog] = useState(false)
+  const [showVaultDialog, setShowVaultDialog] = useState(false)
+  const [showRemoteBackupDialog, setShowRemoteBackupDialog] = useState(false)
+  const [showTimeMachineDialog, setShowTimeMachineDialog] = useState(false)
+  const [showWebClipperDialog, setShowWebClipperDialog] = useState(false)
+  const timeMachineDataset = useTimeMachineDataset()
+  const vault = useVault()
+  const [folderLockTarget, setFolderLockTarget] = useState<EntityLockTarget | null>(null)
+  const entityLock = useEntityLock()
+  // 放入已解锁的锁定文件夹的卡片随文件夹加密
+  useFolderLockSealing()
+  const [showBatchScreenshotDialog, setShowBatchScreenshotDialog] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true)
   const [layoutSettings, setLayoutSettings] = useState({
     gap: 16,
@@ -233,6 +328,63 @@ export function Dashboard({ className }: DashboardProps) {
   const [showCardDetailModal, setShowCardDetailModal] = useState(false)
   const [currentCard, setCurrentCard] = useState<any>(null)
 
+  // 智能文件夹：保存的筛选条件和显示方式，打开后可在筛选界面中修改并保存
+  const { views: savedViews, createView, updateView, deleteView } = useSavedViews()
+  const savedViewMatches = useSavedViewMatches(savedViews, allCards, folderTree)
+  const savedViewCounts = useMemo(
+    () => new Map(Array.from(savedViewMatches, ([id, matched]) => [id, matched.length])),
+    [savedViewMatches]
+  )
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const activeView = useMemo(() => savedViews.find(view => view.id === activeViewId) ?? null, [savedViews, activeViewId])
+  const [savedViewDialog, setSavedViewDialog] = useState<{
+    mode: 'create' | 'edit'
+    viewId?: string
+    draft: SavedViewDraft
+  } | null>(null)
+
+  // 结构化搜索查询，编译后写入卡片过滤条件
+  const [searchQuery, setSearchQuery] = useState(filter.searchTerm)
+  const compiledSearch = useMemo(() => compileSearchQuery(searchQuery, folderTree), [searchQuery, folderTree])
+
+  useEffect(() => {
+    setFilter(prev => {
+      const next = applySearchQuery(prev, compiledSearch.filter)
+      // 智能文件夹中查询语法以外的条件（日期、图片、样式）在打开期间一直生效，标签以侧栏当前选择为准
+      return activeView ? applySavedViewFields(next, { ...activeView, tags: next.tags }) : next
+    })
+  }, [compiledSearch, activeView, setFilter])
+
+  const suggestTags = useCallback((input: string) => {
+    return getTagSuggestions(input, 8).map(tag => tag.name)
+  }, [getTagSuggestions])
+
+  const handleSearchSelectCard = (card: CardType) => {
+    setCurrentCard(card)
+    setShowCardDetailModal(true)
+  }
+
+  // 点击卡片中的 [[标题]] 链接时在详情中打开目标卡片
+  useCardLinkNavigation(allCards, handleSearchSelectCard, (title) => {
+    toast({
+      title: 'Linked card not found',
+      description: `No card is titled "${title}".`,
+      variant: 'destructive'
+    })
+  })
+
+  // 跨卡片任务统计与到期提醒
+  const { openCount: openTaskCount } = useTasks(allCards, folders, 'due')
+  useTaskReminders(allCards, (reminder) => {
+    toast({
+      title: 'Task reminder',
+      description: reminder.cardTitle ? `${reminder.text} — ${reminder.cardTitle}` : reminder.text
+    })
+  })
+
+  // 当前视图中的卡片，供导出选择范围
+  const visibleCardIds = useMemo(() => cards.map((card: CardType) => card.id), [cards])
+
   // 截图功能
   const {
     isCapturing,
@@ -268,6 +420,101 @@ export function Dashboard({ className }: DashboardProps) {
     }
   }
 
+  // 手动排序：每个文件夹、智能文件夹（或全部卡片）分别保存顺序，搜索时按相关度排列不能排序
+  const orderContainerId = activeViewId ? savedViewOrderId(activeViewId) : selectedFolderId ?? ALL_CARDS_ORDER
+  const isSearching = !!filter.searchTerm.trim()
+  const { sortCards, moveCards } = useCardOrder(orderContainerId)
+  const displayCards = useMemo(
+    () => (viewSettings.sortBy === 'custom' && !isSearching ? sortCards(cards) : cards),
+    [cards, viewSettings.sortBy, isSearching, sortCards]
+  )
+
+  // 切换文件夹或布局时清空多选
+  useEffect(() => {
+    setSelectedCardIds([])
+  }, [orderContainerId, viewSettings.layout])
+
+  useEffect(() => {
+    if (selectedCardIds.length === 0) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setSelectedCardIds([])
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [selectedCardIds.length])
+
+  const handleToggleCardSelect = useCallback((cardId: string) => {
+    setSelectedCardIds(prev => (prev.includes(cardId) ? prev.filter(id => id !== cardId) : [...prev, cardId]))
+  }, [])
+
+  const cardReorder = useMemo<CardReorderOptions>(() => ({
+    selectedCardIds,
+    onToggleSelect: handleToggleCardSelect,
+    disabled: isSearching
+  }), [selectedCardIds, handleToggleCardSelect, isSearching])
+
+  const handleMoveCards = (movingIds: string[], activeId: string, overId: string) => {
+    const orderedIds = displayCards.map((card: CardType) => card.id)
+    const moving = orderedIds.filter(id => movingIds.includes(id))
+    if (moveIds(orderedIds, moving, activeId, overId) === orderedIds) return
+
+    // 首次拖动时从当前排序方式切换为手动排序，以当前显示顺序为起点
+    const reseed = viewSettings.sortBy !== 'custom'
+    moveCards({ orderedIds, movingIds: moving, activeId, overId, reseed }).catch(error => {
+      console.error('Failed to save card order:', error)
+      toast({
+        title: 'Reorder failed',
+        description: 'The new card order could not be saved.',
+        variant: 'destructive'
+      })
+    })
+    if (reseed) {
+      setViewSettings((prev: any) => ({ ...prev, sortBy: 'custom' }))
+      toast({
+        title: 'Switched to custom order',
+        description: 'Cards in this folder now keep the order you arrange them in.'
+      })
+    }
+  }
+
+  const handleDropCardsOnFolder = (cardIds: string[], folderId: string) => {
+    const folder = getFolderById(folderId)
+    const moving = allCards.filter((card: CardType) => cardIds.includes(card.id) && card.folderId !== folderId)
+    if (!folder || moving.length === 0) return
+
+    const subject = moving.length === 1 ? 'Card has' : `${moving.length} cards have`
+    groupUndo(`Move ${moving.length === 1 ? 'card' : `${moving.length} cards`} to "${folder.name}"`, () => {
+      moveCardsToFolder(moving.map((card: CardType) => card.id), folderId)
+    })
+    setSelectedCardIds([])
+    toast({
+      title: moving.length === 1 ? 'Card moved' : 'Cards moved',
+      description: `${subject} been moved to "${folder.name}".`
+    })
+  }
+
+  const handleMoveFolder = (folderId: string, overId: string) => {
+    const folder = getFolderById(folderId)
+    if (!folder) return
+
+    const siblings = folders
+      .filter(item => item.parentId === folder.parentId)
+      .sort(compareManualOrder)
+      .map(item => item.id)
+    const next = moveIds(siblings, [folderId], folderId, overId)
+    if (next !== siblings) {
+      folderDispatch({ type: 'REORDER_FOLDERS', payload: next })
+    }
+  }
+
+  const handleMoveTag = (tagId: string, overId: string) => {
+    const ordered = popularTags().map((tag: { id: string }) => tag.id)
+    const next = moveIds(ordered, [tagId], tagId, overId)
+    if (next !== ordered) {
+      tagDispatch({ type: 'REORDER_TAGS', payload: next })
+    }
+  }
+
   const handleCardUpdate = (cardId: string, updates: any) => {
     cardDispatch({ 
       type: 'UPDATE_CARD', 
@@ -276,7 +523,8 @@ export function Dashboard({ className }: DashboardProps) {
   }
 
   const handleCardCopy = async (cardId: string) => {
-    const card = cards.find((c: any) => c.id === cardId)
+    const stored = cards.find((c: any) => c.id === cardId)
+    const card = stored && entityLockService.reveal(stored)
     if (card) {
       const content = card.isFlipped ? card.backContent : card.frontContent
       const textToCopy = formatCardContentForCopy(content.title, content.text)
@@ -294,6 +542,16 @@ export function Dashboard({ className }: DashboardProps) {
     const card = cards.find((c: any) => c.id === cardId)
     if (!card) return
 
+    // 锁定的卡片不允许截图
+    if (card.lock) {
+      toast({
+        title: "Screenshot unavailable",
+        description: "Locked cards can't be captured. Remove the lock first.",
+        variant: "destructive",
+      })
+      return
+    }
+
     // 查找卡片DOM元素
     const cardElement = document.querySelector(`[data-card-id="${cardId}"]`) as HTMLElement
     if (!cardElement) {
@@ -314,61 +572,130 @@ export function Dashboard({ className }: DashboardProps) {
   }
 
   const handleCardShare = (cardId: string) => {
-    // TODO: Implement share functionality
-    console.log('Share card:', cardId)
+    const card = allCards.find((c: CardType) => c.id === cardId)
+    if (!card) return
+
+    // 锁定的卡片不允许分享
+    if (card.lock) {
+      toast({
+        title: "Sharing unavailable",
+        description: "Locked cards can't be shared. Remove the lock first.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSharingCard(card)
   }
 
+  // 从分享查看页确认导入的卡片
+  useSharedCardImport(async (card) => {
+    try {
+      await cardDispatch({ type: 'IMPORT_CARDS', payload: [card] })
+      toast({
+        title: 'Card imported',
+        description: `Added "${card.frontContent.title || 'Untitled Card'}" to your cards.`
+      })
+    } catch (error) {
+      console.error('Failed to import shared card:', error)
+      toast({
+        title: 'Import failed',
+        description: 'The shared card could not be saved.',
+        variant: 'destructive'
+      })
+    }
+  })
+
+  // 复习记录、修订历史等附属数据保留到无法再撤销删除时由撤销层清理
   const handleCardDelete = (cardId: string) => {
     cardDispatch({ type: 'DELETE_CARD', payload: cardId })
   }
 
-  const handleCardMoveToFolder = (cardId: string, folderId: string | null) => {
-    const card = cards.find((c: any) => c.id === cardId)
-    if (!card) return
+  // 以当前筛选结果为范围开始复习
+  const handleStartStudy = () => {
+    const folderName = activeView?.name ?? (selectedFolderId ? getFolderById(selectedFolderId)?.name : undefined)
+    startStudySession(cards, folderName ? `Study: ${folderName}` : 'Study: All Cards')
+  }
 
-    const currentFolderId = card.folderId
-    
-    // Update card's folderId
-    cardDispatch({
-      type: 'UPDATE_CARD',
-      payload: {
-        id: cardId,
-        updates: { folderId: folderId || undefined }
-      }
+  const handleStudySavedView = (view: SavedView) => {
+    startStudySession(savedViewMatches.get(view.id) ?? [], `Study: ${view.name}`)
+  }
+
+  const startStudySession = (scope: CardType[], title: string) => {
+    const queue = getStudyQueue({ cardIds: scope.map((card: CardType) => card.id) })
+    if (queue.length === 0) {
+      toast({
+        title: "Nothing to review",
+        description: "All cards in this view are up to date.",
+      })
+      return
+    }
+
+    setShowTasks(false)
+    setStudySession({ title, queue })
+  }
+
+  const handleToggleTasks = () => {
+    setStudySession(null)
+    setShowTasks(prev => !prev)
+  }
+
+  // 移动卡片并同步文件夹的 cardIds；多张卡片时每个文件夹只更新一次，避免互相覆盖
+  const moveCardsToFolder = (cardIds: string[], folderId: string | null) => {
+    const moving = allCards.filter((card: CardType) => cardIds.includes(card.id))
+
+    moving.forEach((card: CardType) => {
+      cardDispatch({
+        type: 'UPDATE_CARD',
+        payload: {
+          id: card.id,
+          updates: { folderId: folderId || undefined }
+        }
+      })
     })
 
-    // Update folder cardIds arrays
-    if (currentFolderId) {
-      // Remove from current folder
-      const currentFolder = getFolderById(currentFolderId)
-      if (currentFolder) {
+    // Remove from current folders
+    const sourceFolderIds = new Set(
+      moving.map((card: CardType) => card.folderId).filter((id): id is string => !!id && id !== folderId)
+    )
+    sourceFolderIds.forEach(sourceId => {
+      const sourceFolder = getFolderById(sourceId)
+      if (sourceFolder) {
         folderDispatch({
           type: 'UPDATE_FOLDER',
           payload: {
-            id: currentFolderId,
+            id: sourceId,
             updates: {
-              cardIds: currentFolder.cardIds.filter(id => id !== cardId)
+              cardIds: sourceFolder.cardIds.filter(id => !cardIds.includes(id))
             }
           }
         })
       }
-    }
+    })
 
     if (folderId) {
       // Add to new folder
       const targetFolder = getFolderById(folderId)
       if (targetFolder) {
+        const added = moving.map((card: CardType) => card.id).filter(id => !targetFolder.cardIds.includes(id))
         folderDispatch({
           type: 'UPDATE_FOLDER',
           payload: {
             id: folderId,
             updates: {
-              cardIds: [...targetFolder.cardIds, cardId]
+              cardIds: [...targetFolder.cardIds, ...added]
             }
           }
         })
       }
     }
+  }
+
+  const handleCardMoveToFolder = (cardId: string, folderId: string | null) => {
+    const card = cards.find((c: any) => c.id === cardId)
+    if (!card) return
+
+    moveCardsToFolder([cardId], folderId)
 
     // Show success message
     const targetFolderName = folderId ? getFolderById(folderId)?.name : 'Root'
@@ -453,6 +780,10 @@ export function Dashboard({ className }: DashboardProps) {
     }
   }
 
+  const handleLockFolder = (folderId: string) => {
+    setFolderLockTarget({ type: 'folder', id: folderId })
+  }
+
   const handleConfirmCreateFolder = (folderData: {
     name: string
     color: string
@@ -533,12 +864,119 @@ export function Dashboard({ className }: DashboardProps) {
 
   const handleFolderSelect = (folderId: string | null) => {
     setSelectedFolderId(folderId)
+    // 离开智能文件夹时一并清除它带来的搜索和标签条件
+    if (activeViewId) {
+      setActiveViewId(null)
+      setSearchQuery('')
+    }
     setFilter({
       ...filter,
+      ...(activeViewId ? { tags: [] } : {}),
       folderId: folderId || undefined
     })
   }
 
+  // 当前筛选界面中的条件，用于保存为智能文件夹或判断打开的智能文件夹是否已改动
+  const getCurrentViewDraft = (name: string): SavedViewDraft => ({
+    name,
+    query: searchQuery.trim(),
+    tags: filter.tags,
+    dateRange: activeView?.dateRange,
+    hasImages: activeView?.hasImages,
+    styleType: activeView?.styleType,
+    sortBy: viewSettings.sortBy,
+    sortOrder: viewSettings.sortOrder,
+    layout: viewSettings.layout
+  })
+
+  const isActiveViewModified = activeView ? !isSameSavedView(activeView, getCurrentViewDraft(activeView.name)) : false
+
+  const handleSelectSavedView = (view: SavedView) => {
+    setActiveViewId(view.id)
+    setSelectedFolderId(null)
+    setSearchQuery(view.query)
+    setFilter(prev => ({ ...prev, folderId: undefined, tags: view.tags }))
+    setViewSettings((prev: any) => ({
+      ...prev,
+      sortBy: view.sortBy,
+      sortOrder: view.sortOrder,
+      layout: view.layout
+    }))
+    setStudySession(null)
+    setShowTasks(false)
+  }
+
+  const countSavedViewMatches = useCallback(
+    (draft: SavedViewDraft) => filterCardsByView(allCards, draft, folderTree).length,
+    [allCards, folderTree]
+  )
+
+  const handleCreateSavedView = () => {
+    setSavedViewDialog({ mode: 'create', draft: getCurrentViewDraft('') })
+  }
+
+  const handleEditSavedView = (view: SavedView) => {
+    // 编辑正在打开的智能文件夹时以筛选界面中的修改为准
+    const draft = view.id === activeViewId ? getCurrentViewDraft(view.name) : view
+    setSavedViewDialog({ mode: 'edit', viewId: view.id, draft })
+  }
+
+  const handleConfirmSavedView = async (draft: SavedViewDraft) => {
+    const dialog = savedViewDialog
+    try {
+      if (dialog?.mode === 'edit' && dialog.viewId) {
+        const view = await updateView(dialog.viewId, draft)
+        if (view.id === activeViewId) handleSelectSavedView(view)
+        toast({ title: 'Smart folder saved', description: `"${view.name}" has been updated.` })
+      } else {
+        const view = await createView(draft)
+        handleSelectSavedView(view)
+        toast({ title: 'Smart folder created', description: `"${view.name}" now appears in the sidebar.` })
+      }
+    } catch (error) {
+      console.error('Failed to save smart folder:', error)
+      toast({
+        title: 'Save failed',
+        description: 'The smart folder could not be saved.',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  // 把筛选界面中的修改保存回打开的智能文件夹
+  const handleUpdateActiveView = async () => {
+    if (!activeView) return
+    try {
+      await updateView(activeView.id, getCurrentViewDraft(activeView.name))
+      toast({ title: 'Smart folder saved', description: `"${activeView.name}" has been updated.` })
+    } catch (error) {
+      console.error('Failed to update smart folder:', error)
+      toast({
+        title: 'Save failed',
+        description: 'The smart folder could not be saved.',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleDeleteSavedView = async (view: SavedView) => {
+    try {
+      await deleteView(view.id)
+      if (view.id === activeViewId) handleFolderSelect(null)
+      toast({
+        title: 'Smart folder deleted',
+        description: `"${view.name}" has been removed. Its cards were not changed.`
+      })
+    } catch (error) {
+      console.error('Failed to delete smart folder:', error)
+      toast({
+        title: 'Delete failed',
+        description: 'The smart folder could not be deleted.',
+        variant: 'destructive'
+      })
+    }
+  }
+
   // Tag management handlers
   const handleRenameTag = (tagName: string) => {
     setEditingTagName(tagName)
@@ -608,7 +1046,7 @@ export function Dashboard({ className }: DashboardProps) {
     // 防止无限递归
     if (level > 10) return null
 
-    return folders.map(folder => {
+    const items = folders.map(folder => {
       // 检查是否已经访问过这个文件夹（防止循环引用）
       if (visited.has(folder.id)) {
         console.warn('检测到循环引用的文件夹:', folder.id)
@@ -620,51 +1058,80 @@ export function Dashboard({ className }: DashboardProps) {
 
       return (
         <div key={folder.id} className="space-y-1">
-          <FolderContextMenu
-            folderId={folder.id}
-            folderName={folder.name}
-            onRename={handleRenameFolder}
-            onDelete={handleDeleteFolder}
-            onCreateSubfolder={handleCreateSubfolder}
+          <SortableSidebarItem
+            kind="folder"
+            id={folder.id}
+            label={folder.name}
+            scope={folder.parentId ?? ''}
+            indent={level * 16}
           >
-            <Button
-              variant={selectedFolderId === folder.id ? "secondary" : "ghost"}
-              className="w-full justify-start text-sm mb-1"
-              style={{ paddingLeft: `${level * 16 + 12}px` }}
-              onClick={() => {
-                // 如果有子文件夹，切换展开状态
-                if (hasChildren) {
-                  folderDispatch({
-                    type: 'TOGGLE_FOLDER',
-                    payload: folder.id
-                  })
-                }
-                handleFolderSelect(folder.id)
-              }}
+            <FolderContextMenu
+              folderId={folder.id}
+              folderName={folder.name}
+              onRename={handleRenameFolder}
+              onDelete={handleDeleteFolder}
+              onCreateSubfolder={handleCreateSubfolder}
+              onLock={handleLockFolder}
+              isLocked={!!folder.lock}
             >
-              <div className="flex items-center space-x-2 flex-1 min-w-0">
-                {/* 展开/折叠箭头图标 */}
-                {hasChildren && (
-                  <ChevronDown
-                    className={cn(
-                      "h-3 w-3 flex-shrink-0 transition-transform duration-200",
-                      !isExpanded && "-rotate-90"
-                    )}
-                  />
-                )}
-
-                {/* 文件夹图标 */}
-                <Folder className="h-4 w-4 flex-shrink-0" style={{ color: folder.color }} />
-
-                <span className="truncate">{folder.name}</span>
-                {folder.cardIds && folder.cardIds.length > 0 && (
-                  <Badge variant="secondary" className="text-xs ml-auto flex-shrink-0">
-                    {folder.cardIds.length}
-                  </Badge>
-                )}
-              </div>
-            </Button>
-          </FolderContextMenu>
+              <Button
+                variant={selectedFolderId === folder.id ? "secondary" : "ghost"}
+                className="w-full justify-start text-sm mb-1"
+                style={{ paddingLeft: `${level * 16 + 12}px` }}
+                onClick={() => {
+                  // 如果有子文件夹，切换展开状态
+                  if (hasChildren) {
+                    folderDispatch({
+                      type: 'TOGGLE_FOLDER',
+                      payload: folder.id
+                    })
+                  }
+                  handleFolderSelect(folder.id)
+                }}
+              >
+                <div className="flex items-center space-x-2 flex-1 min-w-0">
+                  {/* 展开/折叠箭头图标 */}
+                  {hasChildren && (
+                    <ChevronDown
+                      className={cn(
+                        "h-3 w-3 flex-shrink-0 transition-transform duration-200",
+                        !isExpanded && "-rotate-90"
+                      )}
+                    />
+                  )}
+
+                  {/* 文件夹图标 */}
+                  <Folder className="h-4 w-4 flex-shrink-0" style={{ color: folder.color }} />
+
+                  <span className="truncate">{folder.name}</span>
+                  {folder.lock && (
+                    <Lock
+                      className={cn(
+                        "h-3 w-3 flex-shrink-0",
+                        entityLock.unlockedIds.includes(folder.id) ? "text-muted-foreground/50" : "text-muted-foreground"
+                      )}
+                    />
+                  )}
+                  {dueCounts.byFolder[folder.id] > 0 && (
+                    <span className="text-xs text-primary ml-auto flex-shrink-0">
+                      {dueCounts.byFolder[folder.id]} due
+                    </span>
+                  )}
+                  {folder.cardIds && folder.cardIds.length > 0 && (
+                    <Badge
+                      variant="secondary"
+                      className={cn(
+                        "text-xs flex-shrink-0",
+                        !(dueCounts.byFolder[folder.id] > 0) && "ml-auto"
+                      )}
+                    >
+                      {folder.cardIds.length}
+                    </Badge>
+                  )}
+                </div>
+              </Button>
+            </FolderContextMenu>
+          </SortableSidebarItem>
 
           {/* 只有展开时才显示子文件夹 */}
           {hasChildren && isExpanded && (
@@ -675,7 +1142,19 @@ export function Dashboard({ className }: DashboardProps) {
         </div>
       )
     })
-  }, [selectedFolderId, folderDispatch, handleFolderSelect, handleRenameFolder, handleDeleteFolder, handleCreateSubfolder])
+
+    // 每一级是独立的排序列表，文件夹只在同级之间移动
+    return (
+      <SortableContext
+        items={folders.map(folder => toSortableId('folder', folder.id))}
+        strategy={staticSortingStrategy}
+      >
+        {items}
+      </SortableContext>
+    )
+  }, [selectedFolderId, folderDispatch, handleFolderSelect, handleRenameFolder, handleDeleteFolder, handleCreateSubfolder, handleLockFolder, dueCounts, entityLock])
+
+  const sidebarTags = popularTags(sidebarCollapsed ? 5 : 10)
 
   const renderCollapsedFolderTree = (folders: any[]) => {
     return folders.map(folder => (
@@ -686,6 +1165,8 @@ export function Dashboard({ className }: DashboardProps) {
           onRename={handleRenameFolder}
           onDelete={handleDeleteFolder}
           onCreateSubfolder={handleCreateSubfolder}
+          onLock={handleLockFolder}
+          isLocked={!!folder.lock}
         >
           <Button
             variant={selectedFolderId === folder.id ? "secondary" : "ghost"}
@@ -724,28 +1205,37 @@ export function Dashboard({ className }: DashboardProps) {
 
             {/* Search - Centered */}
             <div className="absolute left-1/2 transform -translate-x-1/2 hidden md:block">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search cards..."
-                  value={filter.searchTerm}
-                  onChange={(e) => setFilter({ ...filter, searchTerm: e.target.value })}
-                  className="pl-10 rounded-full w-80"
-                />
-              </div>
+              <SearchBox
+                value={searchQuery}
+                onChange={setSearchQuery}
+                searchTerm={filter.searchTerm}
+                issues={compiledSearch.issues}
+                cards={allCards}
+                scope={cards}
+                folderTree={folderTree}
+                suggestTags={suggestTags}
+                onSelectCard={handleSearchSelectCard}
+                placeholder="Search cards... (try tag: or folder:)"
+                className="w-80"
+              />
             </div>
             
             {/* Search - Mobile (only when centered search is hidden) - Moved to right side */}
             <div className="md:hidden">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search..."
-                  value={filter.searchTerm}
-                  onChange={(e) => setFilter({ ...filter, searchTerm: e.target.value })}
-                  className="pl-10 rounded-full w-48 mr-2"
-                />
-              </div>
+              <SearchBox
+                value={searchQuery}
+                onChange={setSearchQuery}
+                searchTerm={filter.searchTerm}
+                issues={compiledSearch.issues}
+                cards={allCards}
+                scope={cards}
+                folderTree={folderTree}
+                suggestTags={suggestTags}
+                onSelectCard={handleSearchSelectCard}
+                placeholder="Search..."
+                className="w-48 mr-2"
+                showResults={false}
+              />
             </div>
 
             {/* Actions */}
@@ -756,6 +1246,20 @@ export function Dashboard({ className }: DashboardProps) {
               {/* Sync Status Indicator - 云端同步功能已删除，不再显示 */}
               {/* Sync status indicator has been removed as cloud sync functionality is disabled */}
 
+              {/* Undo / Redo */}
+              <UndoRedoManager className="hidden sm:flex" />
+
+              {/* Offline / Update Status */}
+              <PWAStatus />
+
+              {/* Lock Vault */}
+              {vault.status === 'unlocked' && (
+                <Button variant="ghost" size="sm" onClick={() => vaultService.lock()} title="Lock vault">
+                  <Lock className="h-4 w-4" />
+                  <span className="sr-only">Lock vault</span>
+                </Button>
+              )}
+
               {/* Add Card Button */}
               <Button
                 onClick={handleCreateCard}
@@ -782,9 +1286,82 @@ export function Dashboard({ className }: DashboardProps) {
                     <div className="space-y-2">
                       <h4 className="font-medium">Layout Settings</h4>
                       <p className="text-sm text-muted-foreground">
-                        Customize the masonry layout appearance
+                        Choose how cards are laid out
                       </p>
                     </div>
+
+                    {/* View Mode */}
+                    <div className="space-y-2">
+                      <Label>View</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {([
+                          { layout: 'masonry', label: 'Masonry', icon: LayoutDashboard },
+                          { layout: 'grid', label: 'Grid', icon: LayoutGrid },
+                          { layout: 'list', label: 'List', icon: List },
+                          { layout: 'canvas', label: 'Canvas', icon: Workflow }
+                        ] as const).map(({ layout, label, icon: Icon }) => (
+                          <Button
+                            key={layout}
+                            variant={viewSettings.layout === layout ? 'default' : 'outline'}
+                            size="sm"
+                            className="justify-start"
+                            onClick={() => setViewSettings((prev: any) => ({ ...prev, layout }))}
+                          >
+                            <Icon className="h-4 w-4 mr-1" />
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Sort */}
+                    {viewSettings.layout !== 'canvas' && (
+                      <div className="space-y-2">
+                        <Label>Sort By</Label>
+                        <div className="flex gap-2">
+                          <div className="grid flex-1 grid-cols-4 gap-1">
+                            {([
+                              { sortBy: 'created', label: 'Created' },
+                              { sortBy: 'updated', label: 'Updated' },
+                              { sortBy: 'title', label: 'Title' },
+                              { sortBy: 'custom', label: 'Custom' }
+                            ] as const).map(({ sortBy, label }) => (
+                              <Button
+                                key={sortBy}
+                                variant={viewSettings.sortBy === sortBy ? 'default' : 'outline'}
+                                size="sm"
+                                className="px-1 text-xs"
+                                onClick={() => setViewSettings((prev: any) => ({ ...prev, sortBy }))}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                          {viewSettings.sortBy !== 'custom' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="px-2"
+                              onClick={() => setViewSettings((prev: any) => ({
+                                ...prev,
+                                sortOrder: prev.sortOrder === 'desc' ? 'asc' : 'desc'
+                              }))}
+                              title={viewSettings.sortOrder === 'desc' ? 'Descending' : 'Ascending'}
+                              aria-label={viewSettings.sortOrder === 'desc' ? 'Sort descending' : 'Sort ascending'}
+                            >
+                              {viewSettings.sortOrder === 'desc'
+                                ? <ArrowDownWideNarrow className="h-4 w-4" />
+                                : <ArrowUpNarrowWide className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </div>
+                        {viewSettings.sortBy === 'custom' && (
+                          <p className="text-xs text-muted-foreground">
+                            Drag cards by their handle to arrange them. Each folder keeps its own order.
+                          </p>
+                        )}
+                      </div>
+                    )}
                     
                     {/* Gap Size */}
                     <div className="space-y-2">
@@ -848,6 +1425,54 @@ export function Dashboard({ className }: DashboardProps) {
                       <Upload className="h-4 w-4" />
                       <span>Import Cards</span>
                     </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowInterchangeDialog(true)}
+                    >
+                      <FileText className="h-4 w-4" />
+                      <span>Markdown / CSV / Anki...</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowPdfExportDialog(true)}
+                    >
+                      <Printer className="h-4 w-4" />
+                      <span>Export PDF...</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowBatchScreenshotDialog(true)}
+                    >
+                      <Images className="h-4 w-4" />
+                      <span>Screenshots (ZIP)...</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowVaultDialog(true)}
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                      <span>Encrypted Vault...</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowRemoteBackupDialog(true)}
+                    >
+                      <CloudUpload className="h-4 w-4" />
+                      <span>Remote Backups...</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full justify-start gap-2"
+                      onClick={() => setShowTimeMachineDialog(true)}
+                    >
+                      <Clock className="h-4 w-4" />
+                      <span>Time Machine...</span>
+                    </Button>
                   </div>
                 </PopoverContent>
               </Popover>
@@ -860,220 +1485,454 @@ export function Dashboard({ className }: DashboardProps) {
 
         {/* Main Content */}
         <main className="flex h-[calc(100vh-4rem)]">
-          {/* Conflict Banner - 冲突功能已删除，不再显示 */}
-          {/* Conflict banner has been removed as cloud sync functionality is disabled */}
-          {/* Sidebar */}
-          <aside 
-            className={cn(
-              "border-r transition-all duration-300 ease-in-out flex flex-col",
-              sidebarCollapsed ? "w-16" : "w-72"
-            )}
+          <ReorderDndContext
+            selectedCardIds={selectedCardIds}
+            onMoveCards={handleMoveCards}
+            onDropCardsOnFolder={handleDropCardsOnFolder}
+            onMoveFolder={handleMoveFolder}
+            onMoveTag={handleMoveTag}
           >
-            {/* Sidebar Header */}
-            <div className="p-3 flex items-center justify-end">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setSidebarCollapsed(!sidebarCollapsed)}
-                className="h-8 w-8 p-0"
-              >
-                {sidebarCollapsed ? (
-                  <ChevronRight className="h-4 w-4" />
-                ) : (
-                  <ChevronLeft className="h-4 w-4" />
-                )}
-              </Button>
-            </div>
+            {/* Conflict Banner - 冲突功能已删除，不再显示 */}
+            {/* Conflict banner has been removed as cloud sync functionality is disabled */}
+            {/* Sidebar */}
+            <aside 
+              className={cn(
+                "border-r transition-all duration-300 ease-in-out flex flex-col",
+                sidebarCollapsed ? "w-16" : "w-72"
+              )}
+            >
+              {/* Sidebar Header */}
+              <div className="p-3 flex items-center justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSidebarCollapsed(!sidebarCollapsed)}
+                  className="h-8 w-8 p-0"
+                >
+                  {sidebarCollapsed ? (
+                    <ChevronRight className="h-4 w-4" />
+                  ) : (
+                    <ChevronLeft className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
 
-            {/* Sidebar Content */}
-            <div className="flex-1 overflow-y-auto">
-              <div className="p-3 space-y-4">
-                {/* Quick Actions */}
-                {!sidebarCollapsed && (
-                  <div>
+              {/* Sidebar Content */}
+              <div className="flex-1 overflow-y-auto">
+                <div className="p-3 space-y-4">
+                  {/* Quick Actions */}
+                  {!sidebarCollapsed && (
+                    <div>
+                      <div className="space-y-2">
+                        <Button 
+                          className="w-full justify-start" 
+                          onClick={handleCreateCard}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          New Card
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-start"
+                          onClick={() => setShowWebClipperDialog(true)}
+                        >
+                          <Globe className="h-4 w-4 mr-2" />
+                          New Card from URL
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          className="w-full justify-start"
+                          onClick={handleCreateFolder}
+                        >
+                          <FolderPlus className="h-4 w-4 mr-2" />
+                          New Folder
+                        </Button>
+                        <Button
+                          variant={studySession ? "secondary" : "outline"}
+                          className="w-full justify-start"
+                          onClick={handleStartStudy}
+                        >
+                          <GraduationCap className="h-4 w-4 mr-2" />
+                          Study
+                          {dueCounts.total > 0 && (
+                            <Badge variant="secondary" className="ml-auto">
+                              {dueCounts.total} due
+                            </Badge>
+                          )}
+                        </Button>
+                        <Button
+                          variant={showTasks ? "secondary" : "outline"}
+                          className="w-full justify-start"
+                          onClick={handleToggleTasks}
+                        >
+                          <ListChecks className="h-4 w-4 mr-2" />
+                          Tasks
+                          {openTaskCount > 0 && (
+                            <Badge variant="secondary" className="ml-auto">
+                              {openTaskCount} open
+                            </Badge>
+                          )}
+                        </Button>
+                      </div>
+                      <Separator className="my-4" />
+                    </div>
+                  )}
+
+                  {/* Collapsed Quick Actions */}
+                  {sidebarCollapsed && (
                     <div className="space-y-2">
                       <Button 
-                        className="w-full justify-start" 
+                        variant="ghost"
+                        size="sm"
+                        className="w-full h-10 p-0"
                         onClick={handleCreateCard}
+                        title="New Card"
                       >
-                        <Plus className="h-4 w-4 mr-2" />
-                        New Card
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full h-10 p-0"
+                        onClick={() => setShowWebClipperDialog(true)}
+                        title="New Card from URL"
+                      >
+                        <Globe className="h-4 w-4" />
                       </Button>
                       <Button 
-                        variant="outline" 
-                        className="w-full justify-start"
+                        variant="ghost"
+                        size="sm"
+                        className="w-full h-10 p-0"
                         onClick={handleCreateFolder}
+                        title="New Folder"
+                      >
+                        <FolderPlus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full h-10 p-0"
+                        onClick={handleStartStudy}
+                        title={`Study (${dueCounts.total} due)`}
+                      >
+                        <GraduationCap className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant={showTasks ? "secondary" : "ghost"}
+                        size="sm"
+                        className="w-full h-10 p-0"
+                        onClick={handleToggleTasks}
+                        title={`Tasks (${openTaskCount} open)`}
                       >
-                        <FolderPlus className="h-4 w-4 mr-2" />
-                        New Folder
+                        <ListChecks className="h-4 w-4" />
                       </Button>
+                      <Separator className="my-4" />
                     </div>
-                    <Separator className="my-4" />
-                  </div>
-                )}
+                  )}
 
-                {/* Collapsed Quick Actions */}
-                {sidebarCollapsed && (
-                  <div className="space-y-2">
-                    <Button 
-                      variant="ghost"
-                      size="sm"
-                      className="w-full h-10 p-0"
-                      onClick={handleCreateCard}
-                      title="New Card"
-                    >
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      variant="ghost"
-                      size="sm"
-                      className="w-full h-10 p-0"
-                      onClick={handleCreateFolder}
-                      title="New Folder"
-                    >
-                      <FolderPlus className="h-4 w-4" />
-                    </Button>
-                    <Separator className="my-4" />
+                  {/* Folders */}
+                  <div>
+                    {!sidebarCollapsed && (
+                      <h3 className="text-sm font-medium mb-3">Folders</h3>
+                    )}
+                    <div className="space-y-1">
+                      <Button 
+                        variant={!selectedFolderId && !activeViewId ? "secondary" : "ghost"}
+                        className={cn(
+                          "w-full text-sm",
+                          sidebarCollapsed ? "h-10 p-0" : "justify-start"
+                        )}
+                        onClick={() => handleFolderSelect(null)}
+                        title={sidebarCollapsed ? "All Cards" : undefined}
+                      >
+                        <Folder className="h-4 w-4" />
+                        {!sidebarCollapsed && (
+                          <>
+                            <span className="ml-2">All Cards</span>
+                            <Badge variant="secondary" className="ml-auto">
+                              {cards.length}
+                            </Badge>
+                          </>
+                        )}
+                      </Button>
+                      {sidebarCollapsed 
+                        ? renderCollapsedFolderTree(folderTree)
+                        : renderFolderTree(folderTree)
+                      }
+                    </div>
                   </div>
-                )}
 
-                {/* Folders */}
-                <div>
-                  {!sidebarCollapsed && (
-                    <h3 className="text-sm font-medium mb-3">Folders</h3>
+                  {/* Smart Folders */}
+                  {(!sidebarCollapsed || savedViews.length > 0) && (
+                    <>
+                      <Separator />
+                      <SavedViewList
+                        views={savedViews}
+                        counts={savedViewCounts}
+                        activeViewId={activeViewId}
+                        collapsed={sidebarCollapsed}
+                        onSelect={handleSelectSavedView}
+                        onCreate={handleCreateSavedView}
+                        onEdit={handleEditSavedView}
+                        onDelete={handleDeleteSavedView}
+                        onStudy={handleStudySavedView}
+                      />
+                    </>
                   )}
-                  <div className="space-y-1">
-                    <Button 
-                      variant={!selectedFolderId ? "secondary" : "ghost"}
-                      className={cn(
-                        "w-full text-sm",
-                        sidebarCollapsed ? "h-10 p-0" : "justify-start"
-                      )}
-                      onClick={() => handleFolderSelect(null)}
-                      title={sidebarCollapsed ? "All Cards" : undefined}
-                    >
-                      <Folder className="h-4 w-4" />
-                      {!sidebarCollapsed && (
-                        <>
-                          <span className="ml-2">All Cards</span>
-                          <Badge variant="secondary" className="ml-auto">
-                            {cards.length}
-                          </Badge>
-                        </>
-                      )}
-                    </Button>
-                    {sidebarCollapsed 
-                      ? renderCollapsedFolderTree(folderTree)
-                      : renderFolderTree(folderTree)
-                    }
-                  </div>
-                </div>
 
-                <Separator />
+                  <Separator />
 
-                {/* Tags */}
-                <div>
-                  {!sidebarCollapsed && (
-                    <div className="flex items-center justify-between mb-3">
-                      <h3 className="text-sm font-medium">Tags</h3>
-                      {filter.tags.length > 0 && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => setFilter({ ...filter, tags: [] })}
-                          className="h-6 px-2 text-xs"
-                        >
-                          Clear
-                        </Button>
-                      )}
-                    </div>
-                  )}
-                  <div className="space-y-1">
-                    {popularTags(sidebarCollapsed ? 5 : 10).map((tag: any) => (
-                      <TagContextMenu
-                        key={tag.id}
-                        tagName={tag.name}
-                        onRename={handleRenameTag}
-                        onDelete={handleDeleteTag}
-                        disabled={sidebarCollapsed}
+                  {/* Tags */}
+                  <div>
+                    {!sidebarCollapsed && (
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-medium">Tags</h3>
+                        {filter.tags.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setFilter({ ...filter, tags: [] })}
+                            className="h-6 px-2 text-xs"
+                          >
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    <div className="space-y-1">
+                      <SortableContext
+                        items={sidebarTags.map((tag: any) => toSortableId('tag', tag.id))}
+                        strategy={staticSortingStrategy}
                       >
-                        <Button 
-                          variant={filter.tags.includes(tag.name) ? "secondary" : "ghost"}
-                          className={cn(
-                            "w-full text-sm",
-                            sidebarCollapsed ? "h-10 p-0" : "justify-start"
+                        {sidebarTags.map((tag: any) => (
+                          <SortableSidebarItem
+                            key={tag.id}
+                            kind="tag"
+                            id={tag.id}
+                            label={tag.name}
+                            disabled={sidebarCollapsed}
+                          >
+                            <TagContextMenu
+                              tagName={tag.name}
+                              onRename={handleRenameTag}
+                              onDelete={handleDeleteTag}
+                              disabled={sidebarCollapsed}
+                            >
+                              <Button 
+                                variant={filter.tags.includes(tag.name) ? "secondary" : "ghost"}
+                                className={cn(
+                                  "w-full text-sm",
+                                  sidebarCollapsed ? "h-10 p-0" : "justify-start"
+                                )}
+                                onClick={() => handleTagFilter(tag.name)}
+                                title={tag.name}
+                              >
+                                <Tag className="h-3 w-3" style={{ color: tag.color }} />
+                                {!sidebarCollapsed && (
+                                  <>
+                                    <span className="ml-2">{tag.name}</span>
+                                    {dueCounts.byTag[tag.name] > 0 && (
+                                      <span className="text-xs text-primary ml-auto">
+                                        {dueCounts.byTag[tag.name]} due
+                                      </span>
+                                    )}
+                                    <Badge
+                                      variant="secondary"
+                                      className={cn(!(dueCounts.byTag[tag.name] > 0) && "ml-auto", "ml-2")}
+                                    >
+                                      {tag.count}
+                                    </Badge>
+                                  </>
+                                )}
+                              </Button>
+                            </TagContextMenu>
+                          </SortableSidebarItem>
+                        ))}
+                      </SortableContext>
+                    </div>
+                  </div>
+
+                  {/* Active Filters */}
+                  {!sidebarCollapsed && (activeView || filter.tags.length > 0 || searchQuery.trim()) && (
+                    <>
+                      <Separator />
+                      <div>
+                        <h3 className="text-sm font-medium mb-3">Active Filters</h3>
+                        <div className="space-y-2">
+                          {activeView && (
+                            <div className="flex items-center gap-2">
+                              <Sparkles className="h-3 w-3 flex-shrink-0 text-primary" />
+                              <span className="text-xs font-medium truncate">{activeView.name}</span>
+                              {isActiveViewModified && (
+                                <span className="text-xs text-muted-foreground flex-shrink-0">· edited</span>
+                              )}
+                            </div>
                           )}
-                          onClick={() => handleTagFilter(tag.name)}
-                          title={tag.name}
-                        >
-                          <Tag className="h-3 w-3" style={{ color: tag.color }} />
-                          {!sidebarCollapsed && (
-                            <>
-                              <span className="ml-2">{tag.name}</span>
-                              <Badge variant="secondary" className="ml-auto">
-                                {tag.count}
-                              </Badge>
-                            </>
+                          {searchQuery.trim() && (
+                            <div className="flex items-center gap-2">
+                              <Search className="h-3 w-3" />
+                              <span className="text-xs text-muted-foreground">
+                                "{searchQuery.trim()}"
+                              </span>
+                            </div>
                           )}
-                        </Button>
-                      </TagContextMenu>
-                    ))}
-                  </div>
+                          {filter.tags.map((tagName: string) => (
+                            <Badge 
+                              key={tagName}
+                              variant="secondary"
+                              className="mr-1"
+                            >
+                              {tagName}
+                            </Badge>
+                          ))}
+                          {activeView?.dateRange && (
+                            <Badge variant="outline" className="mr-1">
+                              Updated {activeView.dateRange.start ? new Date(activeView.dateRange.start).toLocaleDateString() : '…'}
+                              {' – '}
+                              {activeView.dateRange.end ? new Date(activeView.dateRange.end).toLocaleDateString() : '…'}
+                            </Badge>
+                          )}
+                          {activeView?.hasImages !== undefined && (
+                            <Badge variant="outline" className="mr-1">
+                              {activeView.hasImages ? 'With images' : 'Without images'}
+                            </Badge>
+                          )}
+                          {activeView?.styleType && (
+                            <Badge variant="outline" className="mr-1 capitalize">
+                              {activeView.styleType} style
+                            </Badge>
+                          )}
+                          {activeView ? (
+                            isActiveViewModified && (
+                              <div className="flex gap-2 pt-1">
+                                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleUpdateActiveView}>
+                                  Save Changes
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 text-xs"
+                                  onClick={() => handleSelectSavedView(activeView)}
+                                >
+                                  Revert
+                                </Button>
+                              </div>
+                            )
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 w-full justify-start text-xs"
+                              onClick={handleCreateSavedView}
+                            >
+                              <Sparkles className="h-3 w-3 mr-2" />
+                              Save as Smart Folder
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
+              </div>
+            </aside>
 
-                {/* Active Filters */}
-                {!sidebarCollapsed && (filter.tags.length > 0 || filter.searchTerm) && (
-                  <>
-                    <Separator />
-                    <div>
-                      <h3 className="text-sm font-medium mb-3">Active Filters</h3>
-                      <div className="space-y-2">
-                        {filter.searchTerm && (
-                          <div className="flex items-center gap-2">
-                            <Search className="h-3 w-3" />
-                            <span className="text-xs text-muted-foreground">
-                              "{filter.searchTerm}"
-                            </span>
-                          </div>
-                        )}
-                        {filter.tags.map((tagName: string) => (
-                          <Badge 
-                            key={tagName}
-                            variant="secondary"
-                            className="mr-1"
-                          >
-                            {tagName}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  </>
-                )}
+            {/* Masonry Card Grid */}
+            {timeMachineDataset ? (
+              <div className="flex-1 min-w-0">
+                <TimeMachineView
+                  cardSize={viewSettings.cardSize === 'small' ? 'sm' : viewSettings.cardSize === 'large' ? 'lg' : 'md'}
+                />
               </div>
-            </div>
-          </aside>
-
-          {/* Masonry Card Grid */}
-          <div className="flex-1 overflow-y-auto">
-            <div className="p-4">
-              <OptimizedMasonryGrid
-                cards={cards}
-                onCardFlip={handleCardFlip}
-                onCardUpdate={handleCardUpdate}
-                onCardCopy={handleCardCopy}
-                onCardScreenshot={handleCardScreenshot}
-                onCardShare={handleCardShare}
-                onCardDelete={handleCardDelete}
-                onMoveToFolder={handleCardMoveToFolder}
-                cardSize={viewSettings.cardSize === 'small' ? 'sm' : viewSettings.cardSize === 'large' ? 'lg' : 'md'}
-                enableVirtualization={cards.length > 20}
-                gap={layoutSettings.gap}
-                overscan={3}
-              />
-            </div>
-          </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto">
+                <div className="p-4">
+                  {studySession ? (
+                    <ReviewSession
+                      title={studySession.title}
+                      queue={studySession.queue}
+                      getReviewState={getReviewState}
+                      onGrade={recordReview}
+                      onCardUpdate={handleCardUpdate}
+                      onCardCopy={handleCardCopy}
+                      onCardScreenshot={handleCardScreenshot}
+                      onCardShare={handleCardShare}
+                      onCardDelete={handleCardDelete}
+                      onExit={() => setStudySession(null)}
+                    />
+                  ) : showTasks ? (
+                    <TasksView
+                      cards={allCards}
+                      folders={folders}
+                      onCardUpdate={handleCardUpdate}
+                      onOpenCard={handleSearchSelectCard}
+                      onExit={() => setShowTasks(false)}
+                    />
+                  ) : viewSettings.layout === 'canvas' ? (
+                    <CanvasView
+                      cards={cards}
+                      boardId={selectedFolderId ?? CANVAS_ALL_CARDS_BOARD}
+                      onCardFlip={handleCardFlip}
+                      onCardUpdate={handleCardUpdate}
+                      onCardCopy={handleCardCopy}
+                      onCardScreenshot={handleCardScreenshot}
+                      onCardShare={handleCardShare}
+                      onCardDelete={handleCardDelete}
+                      onMoveToFolder={handleCardMoveToFolder}
+                      cardSize={viewSettings.cardSize === 'small' ? 'sm' : viewSettings.cardSize === 'large' ? 'lg' : 'md'}
+                    />
+                  ) : viewSettings.layout === 'grid' || viewSettings.layout === 'list' ? (
+                    <CardGrid
+                      cards={displayCards}
+                      layout={viewSettings.layout}
+                      showHeader={false}
+                      className="p-0"
+                      reorder={cardReorder}
+                      onCardFlip={handleCardFlip}
+                      onCardUpdate={handleCardUpdate}
+                      onCardCopy={handleCardCopy}
+                      onCardScreenshot={handleCardScreenshot}
+                      onCardShare={handleCardShare}
+                      onCardDelete={handleCardDelete}
+                      onMoveToFolder={handleCardMoveToFolder}
+                      cardSize={viewSettings.cardSize === 'small' ? 'sm' : viewSettings.cardSize === 'large' ? 'lg' : 'md'}
+                    />
+                  ) : (
+                    <OptimizedMasonryGrid
+                      cards={displayCards}
+                      reorder={cardReorder}
+                      onCardFlip={handleCardFlip}
+                      onCardUpdate={handleCardUpdate}
+                      onCardCopy={handleCardCopy}
+                      onCardScreenshot={handleCardScreenshot}
+                      onCardShare={handleCardShare}
+                      onCardDelete={handleCardDelete}
+                      onMoveToFolder={handleCardMoveToFolder}
+                      cardSize={viewSettings.cardSize === 'small' ? 'sm' : viewSettings.cardSize === 'large' ? 'lg' : 'md'}
+                      enableVirtualization={cards.length > 20}
+                      gap={layoutSettings.gap}
+                      overscan={3}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </ReorderDndContext>
         </main>
 
+        {/* 多选卡片 */}
+        {selectedCardIds.length > 0 && (
+          <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-3 rounded-full border bg-background px-4 py-2 text-sm shadow-lg">
+            <span>
+              <span className="font-medium">{selectedCardIds.length} selected</span>
+              <span className="text-muted-foreground"> · drag any of them to move them together</span>
+            </span>
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => setSelectedCardIds([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+
         {/* Screenshot Preview Modal */}
         {/* Screenshot Preview Modal */}
         <ScreenshotPreviewModal
@@ -1084,6 +1943,13 @@ export function Dashboard({ className }: DashboardProps) {
           fileName={previewData?.fileName || ''}
           isDownloading={isDownloading}
         />
+
+        {/* Batch Screenshot Export */}
+        <BatchScreenshotDialog
+          isOpen={showBatchScreenshotDialog}
+          onClose={() => setShowBatchScreenshotDialog(false)}
+          visibleCardIds={visibleCardIds}
+        />
         
         {/* Card Detail Modal */}
         <CardDetailModal
@@ -1092,9 +1958,73 @@ export function Dashboard({ className }: DashboardProps) {
             setShowCardDetailModal(false);
             setCurrentCard(null);
           }}
-          card={currentCard}
+          card={allCards.find((card: CardType) => card.id === currentCard?.id) ?? currentCard}
           onCardUpdate={handleCardUpdate}
           onFlip={handleCardFlip}
+          cards={allCards}
+          onOpenCard={handleSearchSelectCard}
+        />
+
+        {/* Markdown / CSV / Anki Import & Export */}
+        <ImportExportDialog
+          isOpen={showInterchangeDialog}
+          onClose={() => setShowInterchangeDialog(false)}
+          visibleCardIds={visibleCardIds}
+        />
+
+        {/* Smart Folder Editor */}
+        <SavedViewDialog
+          isOpen={!!savedViewDialog}
+          onClose={() => setSavedViewDialog(null)}
+          onConfirm={handleConfirmSavedView}
+          initialDraft={savedViewDialog?.draft ?? getCurrentViewDraft('')}
+          availableTags={getAllTagNames()}
+          countMatches={countSavedViewMatches}
+          mode={savedViewDialog?.mode}
+        />
+
+        {/* Printable PDF Export */}
+        <PdfExportDialog
+          isOpen={showPdfExportDialog}
+          onClose={() => setShowPdfExportDialog(false)}
+          visibleCardIds={visibleCardIds}
+        />
+
+        {/* Encrypted Vault Settings */}
+        <VaultSettingsDialog
+          isOpen={showVaultDialog}
+          onClose={() => setShowVaultDialog(false)}
+        />
+
+        {/* Remote Backup Targets */}
+        <RemoteBackupDialog
+          isOpen={showRemoteBackupDialog}
+          onClose={() => setShowRemoteBackupDialog(false)}
+        />
+
+        {/* Time Machine */}
+        <TimeMachineDialog
+          isOpen={showTimeMachineDialog}
+          onClose={() => setShowTimeMachineDialog(false)}
+        />
+
+        {/* Web Clipper */}
+        <WebClipperDialog
+          isOpen={showWebClipperDialog}
+          onClose={() => setShowWebClipperDialog(false)}
+          defaultFolderId={selectedFolderId}
+        />
+
+        {/* Card Sharing */}
+        <ShareCardDialog card={sharingCard} onClose={() => setSharingCard(null)} />
+
+        {/* Share Target / File Handler Capture */}
+        <CaptureDialog />
+
+        {/* Folder Lock */}
+        <EntityLockDialog
+          target={folderLockTarget}
+          onClose={() => setFolderLockTarget(null)}
         />
 
         {/* Folder Management Dialogs */}
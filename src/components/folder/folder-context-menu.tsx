@@ -10,7 +10,8 @@ import {
   Edit, 
   Trash2, 
   FolderPlus,
-  Folder
+  Folder,
+  Lock
 } from 'lucide-react'
 
 interface FolderContextMenuProps {
@@ -20,6 +21,8 @@ interface FolderContextMenuProps {
   onRename: (folderId: string) => void
   onDelete: (folderId: string) => void
   onCreateSubfolder: (parentId: string) => void
+  onLock?: (folderId: string) => void
+  isLocked?: boolean
   disabled?: boolean
 }
 
@@ -30,6 +33,8 @@ export function FolderContextMenu({
   onRename,
   onDelete,
   onCreateSubfolder,
+  onLock,
+  isLocked = false,
   disabled = false
 }: FolderContextMenuProps) {
   if (disabled) {
@@ -51,6 +56,13 @@ export function FolderContextMenu({
           <FolderPlus className="h-4 w-4 mr-2" />
           New Subfolder
         </ContextMenuItem>
+
+        {onLock && (
+          <ContextMenuItem onClick={() => onLock(folderId)}>
+            <Lock className="h-4 w-4 mr-2" />
+            {isLocked ? 'Lock Options...' : 'Lock Folder...'}
+          </ContextMenuItem>
+        )}
         
         <ContextMenuSeparator />
         
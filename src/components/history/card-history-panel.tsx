@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react'
+import { History, RotateCcw, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { useCardHistory } from '@/hooks/use-card-history'
+import { diffSnapshots } from '@/services/history/snapshot-diff'
+import { Card } from '@/types/card'
+import { CardRevision } from '@/types/history'
+import { RevisionDiffView } from './revision-diff-view'
+import { cn } from '@/lib/utils'
+
+interface CardHistoryPanelProps {
+  card: Card
+  onRestore: (updates: Pick<Card, 'frontContent' | 'backContent' | 'style'>) => void
+}
+
+function formatRevisionTime(date: Date): string {
+  return new Date(date).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const SOURCE_LABELS: Record<CardRevision['source'], string | null> = {
+  edit: null,
+  initial: 'Initial',
+  restore: 'Restored'
+}
+
+/**
+ * 卡片版本历史面板
+ * 左侧为修订时间线，右侧对比所选修订与另一修订，可一键恢复
+ */
+export function CardHistoryPanel({ card, onRestore }: CardHistoryPanelProps) {
+  const { toast } = useToast()
+  const { revisions, snapshots, isLoading, restore } = useCardHistory(card.id)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [compareId, setCompareId] = useState<number | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const latest = revisions[0]
+  const selected = revisions.find(revision => revision.id === selectedId) ?? revisions[1] ?? latest
+  const compareTo = revisions.find(revision => revision.id === compareId) ?? latest
+
+  // 历史刷新后所选修订可能已被清理
+  useEffect(() => {
+    if (selectedId !== null && !revisions.some(revision => revision.id === selectedId)) {
+      setSelectedId(null)
+    }
+    if (compareId !== null && !revisions.some(revision => revision.id === compareId)) {
+      setCompareId(null)
+    }
+  }, [revisions, selectedId, compareId])
+
+  // 每个修订相对上一修订的修改摘要
+  const summaries = useMemo(() => {
+    const result = new Map<number, string[]>()
+    revisions.forEach((revision, index) => {
+      const older = revisions[index + 1]
+      const current = snapshots.get(revision.hash)
+      const previous = older && snapshots.get(older.hash)
+      if (revision.id !== undefined && current && previous) {
+        result.set(revision.id, diffSnapshots(previous, current).summary)
+      }
+    })
+    return result
+  }, [revisions, snapshots])
+
+  const handleRestore = async () => {
+    if (!selected || selected.hash === latest?.hash) return
+
+    try {
+      setIsRestoring(true)
+      const updates = await restore(selected)
+      onRestore(updates)
+      toast({
+        title: 'Revision Restored',
+        description: `Restored the version from ${formatRevisionTime(selected.createdAt)}`
+      })
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Could not restore this revision',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading history...
+      </div>
+    )
+  }
+
+  if (revisions.length < 2) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+        <History className="h-8 w-8 mb-3" />
+        <p className="font-medium">No earlier versions yet</p>
+        <p className="text-sm">Revisions are saved automatically each time this card is edited.</p>
+      </div>
+    )
+  }
+
+  const selectedSnapshot = selected && snapshots.get(selected.hash)
+  const compareSnapshot = compareTo && snapshots.get(compareTo.hash)
+  const labelFor = (revision: CardRevision) =>
+    revision.id === latest?.id ? 'Current' : formatRevisionTime(revision.createdAt)
+
+  return (
+    <div className="grid grid-cols-[14rem_1fr] gap-4 min-h-[24rem]">
+      {/* 修订时间线 */}
+      <ScrollArea className="h-[60vh] pr-2">
+        <ol className="relative border-l ml-2 space-y-1">
+          {revisions.map(revision => {
+            const isSelected = revision.id === selected?.id
+            const sourceLabel = SOURCE_LABELS[revision.source]
+            const summary = revision.id !== undefined ? summaries.get(revision.id) : undefined
+
+            return (
+              <li key={revision.id} className="ml-3">
+                <span
+                  className={cn(
+                    'absolute -left-[5px] mt-3 h-2.5 w-2.5 rounded-full border bg-background',
+                    isSelected && 'bg-primary border-primary'
+                  )}
+                />
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id ?? null)}
+                  className={cn(
+                    'w-full rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted',
+                    isSelected && 'bg-muted'
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className="font-medium">{formatRevisionTime(revision.createdAt)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {revision.id === latest?.id && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Current</Badge>}
+                    {sourceLabel && <Badge variant="outline" className="text-[10px] px-1.5 py-0">{sourceLabel}</Badge>}
+                  </div>
+                  {summary && summary.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{summary.join(', ')}</p>
+                  )}
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      </ScrollArea>
+
+      {/* 修订对比 */}
+      <div className="min-w-0 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Compare with</span>
+            <Select
+              value={compareTo?.id !== undefined ? String(compareTo.id) : undefined}
+              onValueChange={value => setCompareId(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={String(revision.id)}>
+                    {labelFor(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            size="sm"
+            onClick={handleRestore}
+            disabled={isRestoring || !selected || selected.hash === latest?.hash}
+          >
+            {isRestoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+            Restore this version
+          </Button>
+        </div>
+
+        {selected && compareTo && selectedSnapshot && compareSnapshot ? (
+          <RevisionDiffView
+            key={`${selected.id}-${compareTo.id}`}
+            before={selectedSnapshot}
+            after={compareSnapshot}
+            beforeLabel={labelFor(selected)}
+            afterLabel={labelFor(compareTo)}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">This revision's content is no longer available.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CardSnapshot } from '@/types/history'
+import { SideDiff, SnapshotSide, diffSnapshots } from '@/services/history/snapshot-diff'
+import { cn } from '@/lib/utils'
+
+interface RevisionDiffViewProps {
+  before: CardSnapshot
+  after: CardSnapshot
+  beforeLabel: string
+  afterLabel: string
+}
+
+function formatStyleValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  return Array.isArray(value) ? value.join(' → ') : String(value)
+}
+
+function DiffColumns({ before, after, beforeLabel, afterLabel, html = true }: {
+  before: string
+  after: string
+  beforeLabel: string
+  afterLabel: string
+  html?: boolean
+}) {
+  const className = cn(
+    'min-h-[2.5rem] rounded-md border bg-background p-3 text-sm break-words',
+    html && 'tiptap-editor whitespace-pre-wrap'
+  )
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1 min-w-0">
+        <p className="text-xs text-muted-foreground">{beforeLabel}</p>
+        <div className={className} dangerouslySetInnerHTML={{ __html: before || '<span class="text-muted-foreground">Empty</span>' }} />
+      </div>
+      <div className="space-y-1 min-w-0">
+        <p className="text-xs text-muted-foreground">{afterLabel}</p>
+        <div className={className} dangerouslySetInnerHTML={{ __html: after || '<span class="text-muted-foreground">Empty</span>' }} />
+      </div>
+    </div>
+  )
+}
+
+function SideChanges({ diff }: { diff: SideDiff }) {
+  const { tags, images, todos } = diff
+  const hasTagChanges = tags.added.length > 0 || tags.removed.length > 0
+  const notes = [
+    images.added > 0 && `${images.added} image${images.added === 1 ? '' : 's'} added`,
+    images.removed > 0 && `${images.removed} image${images.removed === 1 ? '' : 's'} removed`,
+    todos.added > 0 && `${todos.added} to-do${todos.added === 1 ? '' : 's'} added`,
+    todos.removed > 0 && `${todos.removed} to-do${todos.removed === 1 ? '' : 's'} removed`,
+    todos.toggled > 0 && `${todos.toggled} to-do${todos.toggled === 1 ? '' : 's'} changed`
+  ].filter(Boolean) as string[]
+
+  if (!hasTagChanges && notes.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {hasTagChanges && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Tags</span>
+          {tags.removed.map(tag => (
+            <Badge key={`-${tag}`} variant="outline" className="border-red-300 text-red-600 line-through">
+              {tag}
+            </Badge>
+          ))}
+          {tags.added.map(tag => (
+            <Badge key={`+${tag}`} variant="outline" className="border-green-300 text-green-600">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {notes.length > 0 && (
+        <p className="text-xs text-muted-foreground">{notes.join(' · ')}</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 两个修订的左右对比
+ * 按正反面分别展示标题和正文的逐词差异，以及标签、图片、待办和样式的变化
+ */
+export function RevisionDiffView({ before, after, beforeLabel, afterLabel }: RevisionDiffViewProps) {
+  const diff = useMemo(() => diffSnapshots(before, after), [before, after])
+  const [side, setSide] = useState<SnapshotSide>(() =>
+    diff.summary.some(item => item.startsWith('Back')) && !diff.summary.some(item => item.startsWith('Front'))
+      ? 'back'
+      : 'front'
+  )
+  const sideDiff = side === 'front' ? diff.front : diff.back
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={side} onValueChange={value => setSide(value as SnapshotSide)}>
+          <TabsList>
+            <TabsTrigger value="front">Front</TabsTrigger>
+            <TabsTrigger value="back">Back</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <p className="text-xs text-muted-foreground truncate">
+          {diff.summary.length > 0 ? `Changed: ${diff.summary.join(', ')}` : 'No differences'}
+        </p>
+      </div>
+
+      <DiffColumns
+        before={sideDiff.title.before}
+        after={sideDiff.title.after}
+        beforeLabel={`Title · ${beforeLabel}`}
+        afterLabel={`Title · ${afterLabel}`}
+        html={false}
+      />
+      <DiffColumns
+        before={sideDiff.text.before}
+        after={sideDiff.text.after}
+        beforeLabel={`Text · ${beforeLabel}`}
+        afterLabel={`Text · ${afterLabel}`}
+      />
+      <SideChanges diff={sideDiff} />
+
+      {diff.style.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Style</p>
+          <ul className="text-sm space-y-0.5">
+            {diff.style.map(change => (
+              <li key={change.property} className="flex gap-2">
+                <span className="font-mono text-xs text-muted-foreground w-36 shrink-0">{change.property}</span>
+                <span className="line-through text-red-600">{formatStyleValue(change.before)}</span>
+                <span className="text-green-600">{formatStyleValue(change.after)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Clock, Loader2 } from 'lucide-react'
+import { TimeMachineSource, TimeMachineSourceType } from '@/types/time-machine'
+import { useToast } from '@/hooks/use-toast'
+import { timeMachineService } from '@/services/history/time-machine-service'
+
+interface TimeMachineDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const SOURCE_TYPE_LABELS: Record<TimeMachineSourceType, string> = {
+  backup: 'Backup',
+  'security-backup': 'Safety backup',
+  'recovery-point': 'Recovery point'
+}
+
+function formatSourceTime(date: Date): string {
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * 时间机器来源选择
+ * 列出所有备份和恢复点，打开后在主界面以只读方式浏览
+ */
+export function TimeMachineDialog({ isOpen, onClose }: TimeMachineDialogProps) {
+  const { toast } = useToast()
+  const [sources, setSources] = useState<TimeMachineSource[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [openingKey, setOpeningKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    let cancelled = false
+    setIsLoading(true)
+    timeMachineService.listSources()
+      .then(result => {
+        if (!cancelled) setSources(result)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
+
+  const handleOpen = async (source: TimeMachineSource) => {
+    setOpeningKey(`${source.type}:${source.id}`)
+    try {
+      await timeMachineService.mount(source)
+      onClose()
+    } catch (error) {
+      toast({
+        title: 'Could not open backup',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setOpeningKey(null)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Time Machine</DialogTitle>
+          <DialogDescription>
+            Browse a backup or recovery point without changing your data, then restore only what you need.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : sources.length === 0 ? (
+          <p className="py-10 text-center text-sm text-muted-foreground">
+            No backups or recovery points yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-2">
+              {sources.map(source => {
+                const key = `${source.type}:${source.id}`
+                return (
+                  <div key={key} className="flex items-center gap-3 rounded-md border p-3">
+                    <Clock className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate text-sm font-medium">{source.label}</span>
+                        <Badge variant="secondary" className="text-xs">{SOURCE_TYPE_LABELS[source.type]}</Badge>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {formatSourceTime(source.timestamp)}
+                        {source.detail && ` · ${source.detail}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={openingKey !== null}
+                      onClick={() => handleOpen(source)}
+                    >
+                      {openingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Open'}
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,291 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Clock, FolderOpen, GitCompare, Loader2, RotateCcw, Tag as TagIcon, X } from 'lucide-react'
+import { CardGrid } from '@/components/card/card-grid'
+import { Card } from '@/types/card'
+import { CardSnapshot } from '@/types/history'
+import { TimeMachineChange, TimeMachineChangeKind } from '@/types/time-machine'
+import { useTimeMachine } from '@/hooks/use-time-machine'
+import { useToast } from '@/hooks/use-toast'
+import { cardHistoryService } from '@/services/history/card-history-service'
+import { copyTextToClipboard, formatCardContentForCopy } from '@/utils/copy-utils'
+import { RevisionDiffView } from './revision-diff-view'
+import { cn } from '@/lib/utils'
+
+interface TimeMachineViewProps {
+  cardSize?: 'sm' | 'md' | 'lg'
+}
+
+const KIND_LABELS: Record<TimeMachineChangeKind, string> = {
+  added: 'Added since',
+  removed: 'Deleted since',
+  changed: 'Changed since'
+}
+
+const KIND_CLASSES: Record<TimeMachineChangeKind, string> = {
+  added: 'text-green-600',
+  removed: 'text-red-600',
+  changed: 'text-amber-600'
+}
+
+function ChangeRow<T>({ change, selected, onToggle, onCompare, icon }: {
+  change: TimeMachineChange<T>
+  selected: boolean
+  onToggle: () => void
+  onCompare?: () => void
+  icon?: ReactNode
+}) {
+  // 快照之后新增的实体没有可恢复的版本
+  const restorable = change.kind !== 'added'
+
+  return (
+    <div className="flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-muted/50">
+      <Checkbox checked={selected} disabled={!restorable} onCheckedChange={onToggle} />
+      {icon}
+      <span className="min-w-0 flex-1 truncate">{change.name}</span>
+      <span className={cn('text-xs', KIND_CLASSES[change.kind])}>{KIND_LABELS[change.kind]}</span>
+      {onCompare && (
+        <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Compare" onClick={onCompare}>
+          <GitCompare className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 时间机器视图
+ * 以只读卡片网格显示挂载的备份，右侧列出与当前数据的差异，勾选后选择性恢复
+ */
+export function TimeMachineView({ cardSize = 'md' }: TimeMachineViewProps) {
+  const { toast } = useToast()
+  const { dataset, diff, isRestoring, unmount, restore } = useTimeMachine()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [comparing, setComparing] = useState<{ name: string; before: CardSnapshot; after: CardSnapshot } | null>(null)
+
+  // 切换数据集时清空选择
+  useEffect(() => {
+    setSelected(new Set())
+  }, [dataset])
+
+  // 快照中的卡片按创建时间从新到旧显示
+  const snapshotCards = useMemo(() => {
+    return [...(dataset?.cards ?? [])].sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+  }, [dataset])
+
+  if (!dataset) return null
+
+  const toggle = (keys: string[], include?: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      const shouldInclude = include ?? !keys.every(key => next.has(key))
+      keys.forEach(key => (shouldInclude ? next.add(key) : next.delete(key)))
+      return next
+    })
+  }
+
+  const restorableKeys = (prefix: string, changes: TimeMachineChange<unknown>[]) =>
+    changes.filter(change => change.kind !== 'added').map(change => `${prefix}:${change.id}`)
+
+  const handleCompare = async (change: TimeMachineChange<Card>) => {
+    if (!change.snapshot || !change.current) return
+    const [before, after] = await Promise.all([
+      cardHistoryService.createSnapshot(change.snapshot),
+      cardHistoryService.createSnapshot(change.current)
+    ])
+    setComparing({ name: change.name, before, after })
+  }
+
+  const handleCopy = async (cardId: string) => {
+    const card = dataset.cards.find(item => item.id === cardId)
+    if (!card) return
+    const success = await copyTextToClipboard(formatCardContentForCopy(card.frontContent.title, card.frontContent.text))
+    if (!success) {
+      console.error('Failed to copy card content')
+    }
+  }
+
+  const handleUnavailable = () => {
+    toast({
+      title: 'Not available',
+      description: 'Restore the card first to use this action.'
+    })
+  }
+
+  const handleRestore = async () => {
+    const ids = (prefix: string) => Array.from(selected)
+      .filter(key => key.startsWith(`${prefix}:`))
+      .map(key => key.slice(prefix.length + 1))
+
+    try {
+      const result = await restore({ cardIds: ids('card'), folderIds: ids('folder'), tagIds: ids('tag') })
+      setSelected(new Set())
+      toast({
+        title: 'Restored from backup',
+        description: `${result.cards} cards, ${result.folders} folders and ${result.tags} tags restored. Use undo to revert.`
+      })
+    } catch (error) {
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Banner */}
+      <div className="flex items-center gap-3 border-b bg-amber-50 px-4 py-2 text-amber-900 dark:bg-amber-950/40 dark:text-amber-100">
+        <Clock className="h-4 w-4 flex-shrink-0" />
+        <div className="min-w-0 flex-1 text-sm">
+          <span className="font-medium">{dataset.source.label}</span>
+          <span className="ml-2 opacity-80">{dataset.source.timestamp.toLocaleString()}</span>
+          <Badge variant="outline" className="ml-2 border-amber-400 text-xs">Read-only</Badge>
+        </div>
+        <Button size="sm" variant="outline" onClick={unmount}>
+          <X className="mr-1 h-4 w-4" />
+          Exit Time Machine
+        </Button>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <div className="flex-1 overflow-y-auto">
+          <CardGrid
+            cards={snapshotCards}
+            title="Cards in this backup"
+            readOnly
+            onCardFlip={() => {}}
+            onCardUpdate={() => {}}
+            onCardCopy={handleCopy}
+            onCardScreenshot={handleUnavailable}
+            onCardShare={handleUnavailable}
+            cardSize={cardSize}
+          />
+        </div>
+
+        {/* Diff Panel */}
+        <aside className="flex w-80 flex-shrink-0 flex-col border-l">
+          <div className="border-b p-3">
+            <h3 className="text-sm font-semibold">Changes since this backup</h3>
+            {diff && (
+              <div className="mt-2 flex gap-2 text-xs">
+                <Badge variant="secondary" className="text-green-600">+{diff.summary.added}</Badge>
+                <Badge variant="secondary" className="text-red-600">−{diff.summary.removed}</Badge>
+                <Badge variant="secondary" className="text-amber-600">~{diff.summary.changed}</Badge>
+              </div>
+            )}
+          </div>
+
+          <ScrollArea className="flex-1">
+            {!diff ? (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-4 p-3">
+                {diff.cardsByFolder.length === 0 && diff.folders.length === 0 && diff.tags.length === 0 && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    Your data matches this backup.
+                  </p>
+                )}
+
+                {diff.cardsByFolder.map(group => {
+                  const keys = restorableKeys('card', group.changes)
+                  return (
+                    <div key={group.folderId ?? 'unfiled'}>
+                      <div className="mb-1 flex items-center gap-2">
+                        <Checkbox
+                          checked={keys.length > 0 && keys.every(key => selected.has(key))}
+                          disabled={keys.length === 0}
+                          onCheckedChange={checked => toggle(keys, checked === true)}
+                        />
+                        <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">{group.folderName}</span>
+                      </div>
+                      <div className="ml-4">
+                        {group.changes.map(change => (
+                          <ChangeRow
+                            key={change.id}
+                            change={change}
+                            selected={selected.has(`card:${change.id}`)}
+                            onToggle={() => toggle([`card:${change.id}`])}
+                            onCompare={change.kind === 'changed' ? () => handleCompare(change) : undefined}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })}
+
+                {diff.folders.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">Folders</p>
+                    {diff.folders.map(change => (
+                      <ChangeRow
+                        key={change.id}
+                        change={change}
+                        selected={selected.has(`folder:${change.id}`)}
+                        onToggle={() => toggle([`folder:${change.id}`])}
+                        icon={<FolderOpen className="h-3.5 w-3.5 text-muted-foreground" />}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {diff.tags.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">Tags</p>
+                    {diff.tags.map(change => (
+                      <ChangeRow
+                        key={change.id}
+                        change={change}
+                        selected={selected.has(`tag:${change.id}`)}
+                        onToggle={() => toggle([`tag:${change.id}`])}
+                        icon={<TagIcon className="h-3.5 w-3.5 text-muted-foreground" />}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="border-t p-3">
+            <Button className="w-full" disabled={selected.size === 0 || isRestoring} onClick={handleRestore}>
+              {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Restore Selected ({selected.size})
+            </Button>
+          </div>
+        </aside>
+      </div>
+
+      <Dialog open={comparing !== null} onOpenChange={open => !open && setComparing(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{comparing?.name}</DialogTitle>
+          </DialogHeader>
+          {comparing && (
+            <RevisionDiffView
+              before={comparing.before}
+              after={comparing.after}
+              beforeLabel="In backup"
+              afterLabel="Current"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,419 @@
+import { useState, useRef, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Download, Upload, FileText, AlertTriangle, FolderPlus } from 'lucide-react'
+import { DuplicateStrategy, ImportItem, InterchangeFormat } from '@/types/interchange'
+import { useCardInterchange } from '@/hooks/use-card-interchange'
+import { IMPORT_FILE_ACCEPT } from '@/services/interchange/interchange-service'
+import { useToast } from '@/hooks/use-toast'
+import { useSavedViewScope } from '@/hooks/use-saved-views'
+import { SavedViewSelect } from '@/components/saved-views/saved-view-select'
+
+interface ImportExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  visibleCardIds: string[] // 当前视图中的卡片，用于"仅导出当前视图"
+}
+
+type ExportScope = 'all' | 'visible' | 'view'
+
+const FORMAT_OPTIONS: { value: InterchangeFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'One .md file per card with YAML front-matter, zipped with folders and images' },
+  { value: 'csv', label: 'CSV', description: 'One row per card: front_title, front, back_title, back, tags, folder' },
+  { value: 'anki', label: 'Anki', description: 'Tab-separated text for Anki "Import File" (Basic note type, decks from folders)' }
+]
+
+const STRATEGY_OPTIONS: { value: DuplicateStrategy; label: string }[] = [
+  { value: 'skip', label: 'Skip duplicates' },
+  { value: 'keep-both', label: 'Keep both' },
+  { value: 'update', label: 'Update existing cards' }
+]
+
+const DUPLICATE_LABELS: Record<NonNullable<ImportItem['duplicateReason']>, string> = {
+  id: 'Same card',
+  content: 'Duplicate',
+  batch: 'Repeated in file'
+}
+
+/**
+ * 导入导出对话框
+ * 导出支持 Markdown / CSV / Anki；导入先预览待导入卡片，可逐张取消勾选并选择重复处理方式
+ */
+export function ImportExportDialog({ isOpen, onClose, visibleCardIds }: ImportExportDialogProps) {
+  const {
+    exportCards,
+    cancelExport,
+    exportProgress,
+    isExporting,
+    prepareImport,
+    setItemIncluded,
+    commitImport,
+    cancelImport,
+    resetImport,
+    importProgress,
+    preview
+  } = useCardInterchange()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [tab, setTab] = useState<'export' | 'import'>('export')
+  const [format, setFormat] = useState<InterchangeFormat>('markdown')
+  const [scope, setScope] = useState<ExportScope>('all')
+  const savedViewScope = useSavedViewScope(isOpen && scope === 'view')
+  const [includeImages, setIncludeImages] = useState(true)
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip')
+
+  // 关闭时清理导入任务
+  useEffect(() => {
+    if (!isOpen) resetImport()
+  }, [isOpen, resetImport])
+
+  const status = importProgress?.status
+  const isParsing = status === 'parsing'
+  const isImporting = status === 'importing'
+  const isBusy = isExporting || isParsing || isImporting
+
+  const handleExport = async () => {
+    try {
+      const result = await exportCards({
+        format,
+        cardIds: scope === 'visible' ? visibleCardIds : scope === 'view' ? savedViewScope.cardIds : undefined,
+        includeImages
+      })
+      toast({
+        title: 'Export Success',
+        description: `Exported ${result.cardCount} cards${result.imageCount > 0 ? ` and ${result.imageCount} images` : ''}`,
+      })
+      if (result.warnings.length > 0) {
+        toast({
+          title: 'Some images were skipped',
+          description: result.warnings.slice(0, 3).join('\n'),
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Export failed:', error)
+      toast({
+        title: 'Export Failed',
+        description: 'An error occurred during card export',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    try {
+      await prepareImport(Array.from(files))
+    } catch (error) {
+      console.error('Import parsing failed:', error)
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'The selected files could not be read',
+        variant: 'destructive',
+      })
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleImport = async () => {
+    try {
+      const plan = await commitImport(strategy)
+      if (!plan) return
+      const parts = [`${plan.cards.length} imported`]
+      if (plan.updates.length > 0) parts.push(`${plan.updates.length} updated`)
+      if (plan.skipped > 0) parts.push(`${plan.skipped} skipped`)
+      if (plan.folders.length > 0) parts.push(`${plan.folders.length} folders created`)
+      toast({
+        title: 'Import Success',
+        description: parts.join(', '),
+      })
+      onClose()
+    } catch (error) {
+      console.error('Import failed:', error)
+      toast({
+        title: 'Import Failed',
+        description: 'An error occurred while saving the imported cards',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const items = preview?.items || []
+  const includedCount = items.filter(item => item.include).length
+  const duplicateCount = items.filter(item => item.include && item.duplicateOf).length
+  const progressValue = (progress: { processed: number; total: number } | null | undefined) =>
+    progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isImporting && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import / Export</DialogTitle>
+          <DialogDescription>
+            Move cards in and out of CardAll as Markdown, CSV or Anki text files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={value => setTab(value as 'export' | 'import')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export" disabled={isBusy}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </TabsTrigger>
+            <TabsTrigger value="import" disabled={isBusy}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={value => setFormat(value as InterchangeFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {FORMAT_OPTIONS.find(option => option.value === format)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cards</Label>
+              <Select value={scope} onValueChange={value => setScope(value as ExportScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All cards</SelectItem>
+                  <SelectItem value="visible">Current view ({visibleCardIds.length})</SelectItem>
+                  {savedViewScope.views.length > 0 && <SelectItem value="view">Smart folder</SelectItem>}
+                </SelectContent>
+              </Select>
+              {scope === 'view' && (
+                <SavedViewSelect
+                  views={savedViewScope.views}
+                  value={savedViewScope.viewId}
+                  onValueChange={savedViewScope.setViewId}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-include-images"
+                checked={includeImages}
+                onCheckedChange={checked => setIncludeImages(checked === true)}
+              />
+              <Label htmlFor="export-include-images" className="font-normal">
+                Include images
+              </Label>
+            </div>
+
+            {exportProgress && (
+              <div className="space-y-1">
+                <Progress value={progressValue(exportProgress)} />
+                <p className="text-xs text-muted-foreground">
+                  {exportProgress.processed} / {exportProgress.total} cards
+                </p>
+              </div>
+            )}
+
+            <DialogFooter>
+              {isExporting ? (
+                <Button variant="outline" onClick={cancelExport}>
+                  Cancel
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+              )}
+              <Button onClick={handleExport} disabled={isExporting}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={IMPORT_FILE_ACCEPT}
+              className="hidden"
+              onChange={e => handleFilesSelected(e.target.files)}
+            />
+
+            {!preview && (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isParsing}
+                className="w-full rounded-lg border-2 border-dashed p-6 text-center hover:bg-muted/50 transition-colors"
+              >
+                <FileText className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+                <p className="text-sm font-medium">Choose files to import</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Markdown (.md), CSV/TSV, Anki text (.txt), or a .zip exported from CardAll
+                </p>
+              </button>
+            )}
+
+            {importProgress && (isParsing || isImporting) && (
+              <div className="space-y-1">
+                <Progress value={progressValue(importProgress)} />
+                <p className="text-xs text-muted-foreground">
+                  {importProgress.message} ({importProgress.processed} / {importProgress.total})
+                </p>
+              </div>
+            )}
+
+            {status === 'cancelled' && !preview && (
+              <p className="text-sm text-muted-foreground">Import cancelled.</p>
+            )}
+
+            {preview && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span>{includedCount} of {items.length} cards selected</span>
+                  {duplicateCount > 0 && (
+                    <Badge variant="secondary">{duplicateCount} duplicates</Badge>
+                  )}
+                  {preview.newFolderPaths.length > 0 && (
+                    <Badge variant="outline" className="gap-1">
+                      <FolderPlus className="h-3 w-3" />
+                      {preview.newFolderPaths.length} new folders
+                    </Badge>
+                  )}
+                </div>
+
+                <ScrollArea className="h-64 rounded-md border">
+                  <div className="divide-y">
+                    {items.map(item => (
+                      <label
+                        key={item.key}
+                        className="flex items-start gap-3 p-2 text-sm cursor-pointer hover:bg-muted/50"
+                      >
+                        <Checkbox
+                          checked={item.include}
+                          disabled={isImporting}
+                          onCheckedChange={checked => setItemIncluded(item.key, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium truncate">
+                              {item.draft.frontContent.title || item.draft.backContent.title || 'Untitled'}
+                            </span>
+                            {item.duplicateReason && (
+                              <Badge variant="secondary" className="shrink-0 text-xs">
+                                {DUPLICATE_LABELS[item.duplicateReason]}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {item.draft.folderPath.length > 0 ? `${item.draft.folderPath.join(' / ')} · ` : ''}
+                            {item.draft.sourceName}
+                          </p>
+                          {item.warnings.map(warning => (
+                            <p key={warning} className="text-xs text-amber-600">{warning}</p>
+                          ))}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+
+                {preview.errors.length > 0 && (
+                  <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive space-y-1">
+                    <div className="flex items-center gap-1 font-medium">
+                      <AlertTriangle className="h-3 w-3" />
+                      {preview.errors.length} entries could not be imported
+                    </div>
+                    {preview.errors.slice(0, 5).map(error => (
+                      <p key={error}>{error}</p>
+                    ))}
+                  </div>
+                )}
+
+                {duplicateCount > 0 && (
+                  <div className="space-y-2">
+                    <Label>Duplicates</Label>
+                    <Select value={strategy} onValueChange={value => setStrategy(value as DuplicateStrategy)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STRATEGY_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              {isParsing || isImporting ? (
+                <Button variant="outline" onClick={cancelImport} disabled={isImporting}>
+                  Cancel
+                </Button>
+              ) : preview ? (
+                <Button variant="outline" onClick={resetImport}>
+                  Choose other files
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+              )}
+              <Button
+                onClick={handleImport}
+                disabled={!preview || includedCount === 0 || isBusy}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import {includedCount > 0 ? includedCount : ''} cards
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
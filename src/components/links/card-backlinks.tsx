@@ -0,0 +1,56 @@
+import { CornerDownRight, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/types/card'
+import { useCardBacklinks } from '@/hooks/use-card-links'
+import { cn } from '@/lib/utils'
+
+interface CardBacklinksProps {
+  cardId: string
+  cards: Card[]
+  onOpen: (card: Card) => void
+  className?: string
+}
+
+/**
+ * 卡片详情中的“Linked from”：列出正文中通过 [[标题]] 链接到当前卡片的卡片
+ */
+export function CardBacklinks({ cardId, cards, onOpen, className }: CardBacklinksProps) {
+  const { backlinks, isLoading } = useCardBacklinks(cardId, cards)
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <CornerDownRight className="h-4 w-4" />
+        <span>Linked from</span>
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+        {backlinks.length > 0 && <Badge variant="secondary">{backlinks.length}</Badge>}
+      </div>
+
+      {backlinks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No other cards link here yet. Type [[ in a card to link to this one.
+        </p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {backlinks.map(backlink => (
+            <li key={backlink.sourceId}>
+              <button
+                type="button"
+                className="rounded-md border px-2 py-1 text-sm hover:bg-accent hover:text-accent-foreground transition-colors text-left"
+                onClick={() => {
+                  const source = cards.find(card => card.id === backlink.sourceId)
+                  if (source) onOpen(source)
+                }}
+              >
+                {backlink.sourceTitle || 'Untitled Card'}
+                {backlink.sides.includes('back') && !backlink.sides.includes('front') && (
+                  <span className="ml-1 text-xs text-muted-foreground">(back)</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { createPortal } from 'react-dom'
+import { FileText } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface WikiLinkSuggestionsProps {
+  titles: string[]
+  query: string
+  activeIndex: number
+  position: { x: number; y: number }
+  onSelect: (title: string) => void
+  onHover: (index: number) => void
+}
+
+const PANEL_WIDTH = 256
+const PANEL_HEIGHT = 240
+
+/**
+ * 编辑器中输入 [[ 后显示的卡片标题补全列表
+ */
+export function WikiLinkSuggestions({ titles, query, activeIndex, position, onSelect, onHover }: WikiLinkSuggestionsProps) {
+  // 下方或右侧空间不够时翻转
+  const left = Math.max(10, Math.min(position.x, window.innerWidth - PANEL_WIDTH - 20))
+  const top = position.y + PANEL_HEIGHT > window.innerHeight ? position.y - PANEL_HEIGHT - 30 : position.y
+
+  const panel = (
+    <div
+      className="fixed bg-white border border-border rounded-lg shadow-xl py-1 w-64 max-h-60 overflow-y-auto"
+      style={{ left, top: Math.max(10, top), zIndex: 2147483647 }}
+      // 保持编辑器焦点
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <div className="px-3 py-1 text-xs text-muted-foreground">
+        {query ? `Link to card matching "${query}"` : 'Link to card'}
+      </div>
+      {titles.length === 0 ? (
+        <div className="px-3 py-2 text-sm text-muted-foreground">
+          No matching cards. Finish with ]] to link anyway.
+        </div>
+      ) : (
+        titles.map((title, index) => (
+          <button
+            key={title}
+            type="button"
+            className={cn(
+              'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm',
+              index === activeIndex ? 'bg-blue-50 text-blue-700' : 'hover:bg-muted'
+            )}
+            onMouseEnter={() => onHover(index)}
+            onClick={() => onSelect(title)}
+          >
+            <FileText className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{title}</span>
+          </button>
+        ))
+      )}
+    </div>
+  )
+
+  return createPortal(panel, document.body)
+}
@@ -0,0 +1,205 @@
+import { ReactNode, createContext, useContext, useMemo, useState } from 'react'
+import {
+  Active,
+  Announcements,
+  CollisionDetection,
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  Over,
+  PointerSensor,
+  closestCenter,
+  pointerWithin,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core'
+import { SortingStrategy, sortableKeyboardCoordinates } from '@dnd-kit/sortable'
+import { FileText, Folder, Tag } from 'lucide-react'
+import { ReorderItemData, ReorderItemKind } from '@/types/ordering'
+import { useAccessibility } from '@/hooks/use-accessibility'
+
+interface ReorderDndContextProps {
+  selectedCardIds: string[]
+  onMoveCards: (movingIds: string[], activeId: string, overId: string) => void
+  onDropCardsOnFolder: (cardIds: string[], folderId: string) => void
+  onMoveFolder: (folderId: string, overId: string) => void
+  onMoveTag: (tagId: string, overId: string) => void
+  children: ReactNode
+}
+
+interface ReorderState {
+  active: ReorderItemData | null
+  movingCardIds: string[] // 拖动卡片时一起移动的卡片（含已选中的）
+}
+
+const ReorderStateContext = createContext<ReorderState>({ active: null, movingCardIds: [] })
+
+export const useReorderState = () => useContext(ReorderStateContext)
+
+/**
+ * 可排序条目的 ID，不同类型的条目可能使用相同的原始 ID
+ */
+export const toSortableId = (kind: ReorderItemKind, id: string) => `${kind}:${id}`
+
+/**
+ * 拖动时其他条目不移位，由目标条目显示插入位置；
+ * 瀑布流中卡片高度不一且可能多选拖动，移位动画无法准确表示结果
+ */
+export const staticSortingStrategy: SortingStrategy = () => null
+
+const readData = (entry: Active | Over | null) => entry?.data.current as ReorderItemData | undefined
+
+/**
+ * 被拖动条目能否放到目标上：同类条目之间排序（文件夹限同级），卡片还可以放进文件夹
+ */
+export function canDropOn(active: ReorderItemData | null | undefined, target: ReorderItemData): boolean {
+  if (!active) return true
+  if (active.kind === 'card') return target.kind === 'card' || target.kind === 'folder'
+  return active.kind === target.kind && active.scope === target.scope
+}
+
+// 指针所在的条目优先，键盘拖动或指针位于空隙时取最近的条目
+const collisionDetection: CollisionDetection = args => {
+  const hits = pointerWithin(args)
+  return hits.length > 0 ? hits : closestCenter(args)
+}
+
+const screenReaderInstructions = {
+  draggable: 'To reorder, press Space or Enter to pick up. Use the arrow keys to move, Space or Enter to drop, or Escape to cancel. Press Shift+Enter on a card handle to add it to the selection.'
+}
+
+const KIND_ICONS = { card: FileText, folder: Folder, tag: Tag }
+
+/**
+ * 卡片、文件夹和标签的拖放排序
+ * 同时覆盖侧栏和卡片区域，卡片可以拖到侧栏的文件夹上移入该文件夹；
+ * 拖放过程通过无障碍播报朗读
+ */
+export function ReorderDndContext({
+  selectedCardIds,
+  onMoveCards,
+  onDropCardsOnFolder,
+  onMoveFolder,
+  onMoveTag,
+  children
+}: ReorderDndContextProps) {
+  const { announce } = useAccessibility()
+  const [state, setState] = useState<ReorderState>({ active: null, movingCardIds: [] })
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
+
+  const getMovingCardIds = (cardId: string) => (selectedCardIds.includes(cardId) ? selectedCardIds : [cardId])
+
+  const describe = (data: ReorderItemData) => {
+    if (data.kind === 'card') {
+      const count = getMovingCardIds(data.id).length
+      return count > 1 ? `${count} cards` : `card ${data.label}`
+    }
+    return `${data.kind} ${data.label}`
+  }
+
+  // 播报交给全局无障碍设置，返回 undefined 以免重复朗读
+  const announcements: Announcements = {
+    onDragStart({ active }) {
+      const data = readData(active)
+      if (data) announce(`Picked up ${describe(data)}.`)
+      return undefined
+    },
+    onDragOver({ active, over }) {
+      const data = readData(active)
+      const target = readData(over)
+      if (!data) return undefined
+      if (!target || target.id === data.id) {
+        announce(`${describe(data)} is not over a drop position.`)
+      } else if (data.kind === 'card' && target.kind === 'folder') {
+        announce(`${describe(data)} is over folder ${target.label}. Drop to move into it.`)
+      } else {
+        announce(`${describe(data)} is over ${target.label}.`)
+      }
+      return undefined
+    },
+    onDragEnd({ active, over }) {
+      const data = readData(active)
+      const target = readData(over)
+      if (!data) return undefined
+      if (!target || target.id === data.id) {
+        announce(`${describe(data)} was dropped in its original position.`)
+      } else if (data.kind === 'card' && target.kind === 'folder') {
+        announce(`Moved ${describe(data)} to folder ${target.label}.`)
+      } else {
+        announce(`Moved ${describe(data)} next to ${target.label}.`)
+      }
+      return undefined
+    },
+    onDragCancel({ active }) {
+      const data = readData(active)
+      if (data) announce(`Cancelled. ${describe(data)} returned to its original position.`)
+      return undefined
+    }
+  }
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    const data = readData(active) ?? null
+    setState({
+      active: data,
+      movingCardIds: data?.kind === 'card' ? getMovingCardIds(data.id) : []
+    })
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const data = readData(active)
+    const target = readData(over)
+    const { movingCardIds } = state
+    setState({ active: null, movingCardIds: [] })
+    if (!data || !target || !canDropOn(data, target)) return
+
+    if (data.kind === 'card') {
+      if (target.kind === 'folder') {
+        onDropCardsOnFolder(movingCardIds, target.id)
+      } else if (!movingCardIds.includes(target.id)) {
+        onMoveCards(movingCardIds, data.id, target.id)
+      }
+    } else if (target.id !== data.id) {
+      if (data.kind === 'folder') onMoveFolder(data.id, target.id)
+      if (data.kind === 'tag') onMoveTag(data.id, target.id)
+    }
+  }
+
+  const overlay = useMemo(() => {
+    const { active, movingCardIds } = state
+    if (!active) return null
+    const Icon = KIND_ICONS[active.kind]
+    return (
+      <div className="flex max-w-[16rem] cursor-grabbing items-center gap-2 rounded-lg border bg-background px-3 py-2 text-sm shadow-lg">
+        <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{active.label}</span>
+        {movingCardIds.length > 1 && (
+          <span className="ml-auto flex-shrink-0 rounded-full bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground">
+            {movingCardIds.length}
+          </span>
+        )}
+      </div>
+    )
+  }, [state])
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={collisionDetection}
+      accessibility={{ announcements, screenReaderInstructions }}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setState({ active: null, movingCardIds: [] })}
+    >
+      <ReorderStateContext.Provider value={state}>
+        {children}
+      </ReorderStateContext.Provider>
+      <DragOverlay dropAnimation={null}>{overlay}</DragOverlay>
+    </DndContext>
+  )
+}
@@ -0,0 +1,98 @@
+import { ReactNode } from 'react'
+import { useSortable } from '@dnd-kit/sortable'
+import { GripHorizontal } from 'lucide-react'
+import { ReorderItemData } from '@/types/ordering'
+import { canDropOn, toSortableId, useReorderState } from './reorder-dnd-context'
+import { cn } from '@/lib/utils'
+
+interface SortableCardProps {
+  cardId: string
+  label: string
+  isSelected?: boolean
+  disabled?: boolean
+  // 列表布局中插入位置显示在上下边缘，网格和瀑布流显示在左右边缘
+  orientation?: 'horizontal' | 'vertical'
+  onToggleSelect?: (cardId: string) => void
+  className?: string
+  children: ReactNode
+}
+
+/**
+ * 可拖动排序的卡片
+ * 顶部把手用于拖动，点击把手（或 Shift+Enter）选中卡片以便一起拖动
+ */
+export function SortableCard({
+  cardId,
+  label,
+  isSelected = false,
+  disabled = false,
+  orientation = 'horizontal',
+  onToggleSelect,
+  className,
+  children
+}: SortableCardProps) {
+  const { active, movingCardIds } = useReorderState()
+  const data: ReorderItemData = { kind: 'card', id: cardId, label }
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, isOver, index, activeIndex } = useSortable({
+    id: toSortableId('card', cardId),
+    data,
+    disabled: { draggable: disabled, droppable: disabled || !canDropOn(active, data) }
+  })
+
+  const isMoving = movingCardIds.includes(cardId)
+  const placement = isOver && !isMoving && active?.kind === 'card'
+    ? (activeIndex < index ? 'after' : 'before')
+    : null
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.shiftKey && event.key === 'Enter') {
+      event.preventDefault()
+      onToggleSelect?.(cardId)
+      return
+    }
+    listeners?.onKeyDown?.(event)
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn('group/sortable-card relative', isMoving && 'opacity-40', className)}
+    >
+      {!disabled && (
+        <div
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          onKeyDown={handleKeyDown}
+          onClick={() => onToggleSelect?.(cardId)}
+          aria-label={`Reorder ${label}`}
+          aria-pressed={isSelected}
+          title="Drag to reorder · Click to select several cards"
+          className={cn(
+            'absolute -top-3 left-1/2 z-20 flex h-5 w-12 -translate-x-1/2 cursor-grab items-center justify-center rounded-full border bg-background text-muted-foreground shadow-sm',
+            'opacity-0 transition-opacity group-hover/sortable-card:opacity-100 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+            isSelected && 'border-primary bg-primary text-primary-foreground opacity-100'
+          )}
+        >
+          <GripHorizontal className="h-3.5 w-3.5" />
+        </div>
+      )}
+
+      <div className={cn('rounded-xl', isSelected && 'ring-2 ring-primary ring-offset-2 ring-offset-background')}>
+        {children}
+      </div>
+
+      {/* 插入位置 */}
+      {placement && (
+        <div
+          className={cn(
+            'pointer-events-none absolute z-20 rounded-full bg-primary',
+            orientation === 'horizontal' ? 'inset-y-0 w-1' : 'inset-x-0 h-1',
+            orientation === 'horizontal' && (placement === 'before' ? '-left-2' : '-right-2'),
+            orientation === 'vertical' && (placement === 'before' ? '-top-2' : '-bottom-2')
+          )}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { ReactNode } from 'react'
+import { useSortable } from '@dnd-kit/sortable'
+import { GripVertical } from 'lucide-react'
+import { ReorderItemData } from '@/types/ordering'
+import { canDropOn, toSortableId, useReorderState } from './reorder-dnd-context'
+import { cn } from '@/lib/utils'
+
+interface SortableSidebarItemProps {
+  kind: 'folder' | 'tag'
+  id: string
+  label: string
+  scope?: string // 文件夹的父文件夹，只能在同级之间排序
+  indent?: number // 把手的左侧偏移，与层级缩进对齐
+  disabled?: boolean
+  children: ReactNode
+}
+
+/**
+ * 侧栏中可拖动排序的文件夹或标签，文件夹同时接收拖入的卡片
+ */
+export function SortableSidebarItem({
+  kind,
+  id,
+  label,
+  scope,
+  indent = 0,
+  disabled = false,
+  children
+}: SortableSidebarItemProps) {
+  const { active } = useReorderState()
+  const data: ReorderItemData = { kind, id, label, scope }
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, isDragging, isOver, index, activeIndex } = useSortable({
+    id: toSortableId(kind, id),
+    data,
+    disabled: { draggable: disabled, droppable: !canDropOn(active, data) }
+  })
+
+  const isCardTarget = isOver && active?.kind === 'card'
+  const placement = isOver && !isDragging && active?.kind === kind
+    ? (activeIndex < index ? 'after' : 'before')
+    : null
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'group/sortable-item relative rounded-md',
+        isDragging && 'opacity-40',
+        isCardTarget && 'bg-primary/10 ring-2 ring-primary'
+      )}
+    >
+      {!disabled && (
+        <button
+          type="button"
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          aria-label={`Reorder ${kind} ${label}`}
+          title="Drag to reorder"
+          className={cn(
+            'absolute inset-y-0 z-10 flex w-3 cursor-grab items-center justify-center text-muted-foreground',
+            'opacity-0 transition-opacity group-hover/sortable-item:opacity-100 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+          )}
+          style={{ left: indent }}
+        >
+          <GripVertical className="h-3 w-3" />
+        </button>
+      )}
+
+      {children}
+
+      {placement && (
+        <div
+          className={cn(
+            'pointer-events-none absolute inset-x-0 h-0.5 rounded-full bg-primary',
+            placement === 'before' ? '-top-0.5' : '-bottom-0.5'
+          )}
+        />
+      )}
+    </div>
+  )
+}
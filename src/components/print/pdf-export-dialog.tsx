@@ -0,0 +1,294 @@
+import { useState, useRef, useEffect, useMemo } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { FileDown } from 'lucide-react'
+import { DuplexMode, PdfExportOptions, PrintCardsPerPage, PrintPageSize } from '@/types/print'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { cardPdfService } from '@/services/print/card-pdf-service'
+import { downloadFile } from '@/utils/download-utils'
+import { useToast } from '@/hooks/use-toast'
+import { useSavedViewScope } from '@/hooks/use-saved-views'
+import { SavedViewSelect } from '@/components/saved-views/saved-view-select'
+
+interface PdfExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  visibleCardIds: string[] // 当前视图中的卡片
+}
+
+type PdfScope = 'all' | 'visible' | 'folder' | 'view'
+
+const CARDS_PER_PAGE: PrintCardsPerPage[] = [1, 2, 4, 8]
+
+const DUPLEX_OPTIONS: { value: DuplexMode; label: string }[] = [
+  { value: 'long-edge', label: 'Duplex, flip on long edge' },
+  { value: 'short-edge', label: 'Duplex, flip on short edge' },
+  { value: 'off', label: 'Single-sided (backs on separate pages)' }
+]
+
+/**
+ * PDF 导出对话框
+ * 选择卡片范围和打印版式，生成可打印的多卡片 PDF
+ */
+export function PdfExportDialog({ isOpen, onClose, visibleCardIds }: PdfExportDialogProps) {
+  const { allCards } = useCardAllCards()
+  const { folders, selectedFolderId } = useCardAllFolders()
+  const { toast } = useToast()
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const [scope, setScope] = useState<PdfScope>('all')
+  const [folderId, setFolderId] = useState<string>('')
+  const savedViewScope = useSavedViewScope(isOpen && scope === 'view')
+  const [cardsPerPage, setCardsPerPage] = useState<PrintCardsPerPage>(4)
+  const [pageSize, setPageSize] = useState<PrintPageSize>('a4')
+  const [includeBackSide, setIncludeBackSide] = useState(true)
+  const [duplex, setDuplex] = useState<DuplexMode>('long-edge')
+  const [cropMarks, setCropMarks] = useState(true)
+  const [includeImages, setIncludeImages] = useState(true)
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null)
+
+  // 打开时读取的当前文件夹，只在打开或关闭时初始化
+  const defaultsRef = useRef({ selectedFolderId, folders })
+  defaultsRef.current = { selectedFolderId, folders }
+
+  // 打开时默认选中当前文件夹
+  useEffect(() => {
+    if (isOpen) {
+      const defaults = defaultsRef.current
+      setFolderId(defaults.selectedFolderId || defaults.folders[0]?.id || '')
+      setScope(defaults.selectedFolderId ? 'folder' : 'all')
+    } else {
+      controllerRef.current?.abort()
+    }
+  }, [isOpen])
+
+  const options = useMemo<PdfExportOptions>(() => ({
+    cardIds: scope === 'visible' ? visibleCardIds : scope === 'view' ? savedViewScope.cardIds : undefined,
+    folderId: scope === 'folder' ? folderId : undefined,
+    cardsPerPage,
+    pageSize,
+    includeBackSide,
+    duplex: includeBackSide ? duplex : 'off',
+    cropMarks,
+    includeImages
+  }), [scope, visibleCardIds, savedViewScope.cardIds, folderId, cardsPerPage, pageSize, includeBackSide, duplex, cropMarks, includeImages])
+
+  const cardCount = useMemo(
+    () => cardPdfService.resolveCards(allCards, folders, options).length,
+    [allCards, folders, options]
+  )
+  const sheetCount = Math.ceil(cardCount / cardsPerPage)
+  const pageCount = sheetCount * (includeBackSide ? 2 : 1)
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setProgress({ processed: 0, total: cardCount * (includeBackSide ? 2 : 1) })
+
+    try {
+      const result = await cardPdfService.exportCards(allCards, folders, options, {
+        signal: controller.signal,
+        onProgress: (processed, total) => setProgress({ processed, total })
+      })
+      downloadFile(result.blob, result.fileName)
+      toast({
+        title: 'PDF Ready',
+        description: `${result.cardCount} cards on ${result.pageCount} pages`,
+      })
+      if (result.warnings.length > 0) {
+        toast({
+          title: `${result.warnings.length} items need attention`,
+          description: result.warnings.slice(0, 3).join('\n'),
+          variant: 'destructive',
+        })
+      }
+      onClose()
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('PDF export failed:', error)
+      toast({
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while creating the PDF',
+        variant: 'destructive',
+      })
+    } finally {
+      controllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const isExporting = progress !== null
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export PDF</DialogTitle>
+          <DialogDescription>
+            Lay out cards on printable pages. Cut along the crop marks to make flashcards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Cards</Label>
+            <Select value={scope} onValueChange={value => setScope(value as PdfScope)} disabled={isExporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All cards ({allCards.length})</SelectItem>
+                <SelectItem value="visible">Current view ({visibleCardIds.length})</SelectItem>
+                {folders.length > 0 && <SelectItem value="folder">Folder</SelectItem>}
+                {savedViewScope.views.length > 0 && <SelectItem value="view">Smart folder</SelectItem>}
+              </SelectContent>
+            </Select>
+            {scope === 'view' && (
+              <SavedViewSelect
+                views={savedViewScope.views}
+                value={savedViewScope.viewId}
+                onValueChange={savedViewScope.setViewId}
+                disabled={isExporting}
+              />
+            )}
+            {scope === 'folder' && (
+              <Select value={folderId} onValueChange={setFolderId} disabled={isExporting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a folder" />
+                </SelectTrigger>
+                <SelectContent>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Cards per page</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {CARDS_PER_PAGE.map(count => (
+                <Button
+                  key={count}
+                  type="button"
+                  variant={cardsPerPage === count ? 'default' : 'outline'}
+                  size="sm"
+                  disabled={isExporting}
+                  onClick={() => setCardsPerPage(count)}
+                >
+                  {count}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Paper</Label>
+            <Select value={pageSize} onValueChange={value => setPageSize(value as PrintPageSize)} disabled={isExporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="a4">A4</SelectItem>
+                <SelectItem value="letter">US Letter</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="pdf-include-back"
+                checked={includeBackSide}
+                disabled={isExporting}
+                onCheckedChange={checked => setIncludeBackSide(checked === true)}
+              />
+              <Label htmlFor="pdf-include-back" className="font-normal">Include back sides</Label>
+            </div>
+            {includeBackSide && (
+              <Select value={duplex} onValueChange={value => setDuplex(value as DuplexMode)} disabled={isExporting}>
+                <SelectTrigger className="ml-6 w-[calc(100%-1.5rem)]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DUPLEX_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="pdf-crop-marks"
+                checked={cropMarks}
+                disabled={isExporting}
+                onCheckedChange={checked => setCropMarks(checked === true)}
+              />
+              <Label htmlFor="pdf-crop-marks" className="font-normal">Crop marks</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="pdf-include-images"
+                checked={includeImages}
+                disabled={isExporting}
+                onCheckedChange={checked => setIncludeImages(checked === true)}
+              />
+              <Label htmlFor="pdf-include-images" className="font-normal">Include images</Label>
+            </div>
+          </div>
+
+          {progress ? (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0} />
+              <p className="text-xs text-muted-foreground">
+                Rendering {progress.processed} / {progress.total} card sides
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {cardCount} cards on {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={() => controllerRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={isExporting || cardCount === 0}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Export PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,6 +3,8 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { usePWA } from '@/hooks/use-pwa'
+import { pwaService } from '@/services/pwa/pwa-service'
 import { 
   Wifi, 
   WifiOff, 
@@ -22,8 +24,9 @@ interface PWAStatusProps {
 export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine)
   const [isInstalled, setIsInstalled] = useState(false)
-  const [swRegistration, setSwRegistration] = useState<ServiceWorkerRegistration | null>(null)
-  const [updateAvailable, setUpdateAvailable] = useState(false)
+  const { registered, updateAvailable, backgroundSync } = usePWA()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
   const [cacheStats, setCacheStats] = useState({
     totalCaches: 0,
     totalSize: 0,
@@ -38,32 +41,6 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
       }
     }
 
-    // Register service worker
-    const registerSW = async () => {
-      if ('serviceWorker' in navigator) {
-        try {
-          const registration = await navigator.serviceWorker.register('/sw.js')
-          setSwRegistration(registration)
-          
-          // Check for updates
-          registration.addEventListener('updatefound', () => {
-            const newWorker = registration.installing
-            if (newWorker) {
-              newWorker.addEventListener('statechange', () => {
-                if (newWorker.state === 'installed' && navigator.serviceWorker.controller) {
-                  setUpdateAvailable(true)
-                }
-              })
-            }
-          })
-          
-          console.log('Service Worker registered successfully')
-        } catch (error) {
-          console.error('Service Worker registration failed:', error)
-        }
-      }
-    }
-
     // Get cache statistics
     const getCacheStats = async () => {
       if ('caches' in window) {
@@ -100,7 +77,6 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
     const handleOffline = () => setIsOnline(false)
 
     checkInstalled()
-    registerSW()
     getCacheStats()
 
     window.addEventListener('online', handleOnline)
@@ -116,10 +92,21 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
     }
   }, [])
 
+  // 新版本就绪时主动弹出提示
+  useEffect(() => {
+    if (updateAvailable) {
+      setIsOpen(true)
+    }
+  }, [updateAvailable])
+
   const handleUpdate = async () => {
-    if (swRegistration?.waiting) {
-      swRegistration.waiting.postMessage({ type: 'SKIP_WAITING' })
-      window.location.reload()
+    setIsUpdating(true)
+    try {
+      // 新版本接管后页面自动刷新
+      await pwaService.applyUpdate()
+    } catch (error) {
+      console.error('Failed to apply update:', error)
+      setIsUpdating(false)
     }
   }
 
@@ -154,7 +141,7 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
   }
 
   return (
-    <Popover>
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
         <Button variant="ghost" size="sm" className={`relative ${className}`}>
           {isOnline ? (
@@ -181,6 +168,28 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
           </CardHeader>
           
           <CardContent className="space-y-4">
+            {/* Update Prompt */}
+            {updateAvailable && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-3 space-y-2 dark:border-orange-900 dark:bg-orange-950/40">
+                <div className="flex items-center gap-2">
+                  <Download className="h-4 w-4 text-orange-600" />
+                  <span className="text-sm font-medium">新版本已就绪</span>
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  刷新页面以使用新版本，未保存的编辑请先保存。
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleUpdate} disabled={isUpdating} className="flex-1">
+                    <RefreshCw className={`h-3 w-3 mr-1 ${isUpdating ? 'animate-spin' : ''}`} />
+                    立即刷新
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => pwaService.dismissUpdate()} className="flex-1">
+                    稍后
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Connection Status */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -214,15 +223,15 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
             {/* Service Worker Status */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
-                {swRegistration ? (
+                {registered ? (
                   <CheckCircle className="h-4 w-4 text-green-600" />
                 ) : (
                   <AlertCircle className="h-4 w-4 text-orange-600" />
                 )}
                 <span className="text-sm">Service Worker</span>
               </div>
-              <Badge variant={swRegistration ? 'default' : 'secondary'}>
-                {swRegistration ? '活跃' : '未注册'}
+              <Badge variant={registered ? 'default' : 'secondary'}>
+                {registered ? '活跃' : '未注册'}
               </Badge>
             </div>
 
@@ -260,16 +269,6 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
 
             {/* Action Buttons */}
             <div className="flex gap-2 pt-2">
-              {updateAvailable && (
-                <Button 
-                  size="sm" 
-                  onClick={handleUpdate}
-                  className="flex-1"
-                >
-                  <RefreshCw className="h-3 w-3 mr-1" />
-                  更新应用
-                </Button>
-              )}
               <Button 
                 size="sm" 
                 variant="outline" 
@@ -290,7 +289,11 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({ className }) => {
                   <span>离线访问</span>
                 </div>
                 <div className="flex items-center gap-1">
-                  <CheckCircle className="h-3 w-3 text-green-500" />
+                  {backgroundSync ? (
+                    <CheckCircle className="h-3 w-3 text-green-500" />
+                  ) : (
+                    <AlertCircle className="h-3 w-3 text-orange-500" />
+                  )}
                   <span>后台同步</span>
                 </div>
                 <div className="flex items-center gap-1">
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { badgeVariants } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Sparkles } from 'lucide-react'
+import { CardStyle, ViewSettings } from '@/types/card'
+import { SavedViewDraft } from '@/types/saved-view'
+import { cn } from '@/lib/utils'
+
+interface SavedViewDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (draft: SavedViewDraft) => void
+  initialDraft: SavedViewDraft // 新建时为当前筛选条件
+  availableTags: string[]
+  countMatches: (draft: SavedViewDraft) => number
+  mode?: 'create' | 'edit'
+}
+
+// 下拉框不能使用空字符串作为值
+const ANY = 'any'
+
+// <input type="date"> 使用本地日期
+const toDateInput = (date?: Date) => {
+  if (!date) return ''
+  const value = new Date(date)
+  const month = String(value.getMonth() + 1).padStart(2, '0')
+  const day = String(value.getDate()).padStart(2, '0')
+  return `${value.getFullYear()}-${month}-${day}`
+}
+
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day)
+}
+
+/**
+ * 创建或编辑智能文件夹
+ * 新建时以当前的搜索、标签和显示方式为初始值，可以补充日期、图片和样式条件
+ */
+export function SavedViewDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  initialDraft,
+  availableTags,
+  countMatches,
+  mode = 'create'
+}: SavedViewDialogProps) {
+  const [draft, setDraft] = useState<SavedViewDraft>(initialDraft)
+
+  // 只在对话框打开时初始化，打开期间父组件重新生成的初始值不覆盖编辑
+  const initialDraftRef = useRef(initialDraft)
+  initialDraftRef.current = initialDraft
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(initialDraftRef.current)
+    }
+  }, [isOpen])
+
+  const update = (updates: Partial<SavedViewDraft>) => setDraft(prev => ({ ...prev, ...updates }))
+
+  const matchCount = useMemo(() => (isOpen ? countMatches(draft) : 0), [isOpen, draft, countMatches])
+
+  // 已保存但当前没有卡片使用的标签也保留显示，便于取消选择
+  const tagOptions = useMemo(
+    () => Array.from(new Set([...availableTags, ...draft.tags])).sort((a, b) => a.localeCompare(b)),
+    [availableTags, draft.tags]
+  )
+
+  const toggleTag = (tag: string) => {
+    update({
+      tags: draft.tags.includes(tag) ? draft.tags.filter(t => t !== tag) : [...draft.tags, tag]
+    })
+  }
+
+  const updateDate = (edge: 'start' | 'end', value: string) => {
+    const dateRange = { ...draft.dateRange, [edge]: fromDateInput(value, edge === 'end') }
+    update({ dateRange: dateRange.start || dateRange.end ? dateRange : undefined })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.name.trim()) return
+    onConfirm({ ...draft, name: draft.name.trim(), query: draft.query.trim() })
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            {mode === 'create' ? 'New Smart Folder' : 'Edit Smart Folder'}
+          </DialogTitle>
+          <DialogDescription>
+            A smart folder shows every card that matches its filters, and updates as cards change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={draft.name}
+              onChange={e => update({ name: e.target.value })}
+              placeholder="e.g. Recent ideas with images"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-query">Search</Label>
+            <Input
+              id="saved-view-query"
+              value={draft.query}
+              onChange={e => update({ query: e.target.value })}
+              placeholder='Text or filters, e.g. tag:work todo:open "exact phrase"'
+            />
+          </div>
+
+          {tagOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Any of these tags</Label>
+              <div className="flex max-h-24 flex-wrap gap-1 overflow-y-auto">
+                {tagOptions.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={draft.tags.includes(tag)}
+                    className={badgeVariants({ variant: draft.tags.includes(tag) ? 'default' : 'outline' })}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-start">Updated from</Label>
+              <Input
+                id="saved-view-start"
+                type="date"
+                value={toDateInput(draft.dateRange?.start)}
+                onChange={e => updateDate('start', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-end">Updated until</Label>
+              <Input
+                id="saved-view-end"
+                type="date"
+                value={toDateInput(draft.dateRange?.end)}
+                onChange={e => updateDate('end', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Images</Label>
+              <Select
+                value={draft.hasImages === undefined ? ANY : String(draft.hasImages)}
+                onValueChange={value => update({ hasImages: value === ANY ? undefined : value === 'true' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="true">With images</SelectItem>
+                  <SelectItem value="false">Without images</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Style</Label>
+              <Select
+                value={draft.styleType ?? ANY}
+                onValueChange={value => update({ styleType: value === ANY ? undefined : value as CardStyle['type'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="solid">Solid</SelectItem>
+                  <SelectItem value="gradient">Gradient</SelectItem>
+                  <SelectItem value="glass">Glass</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Sort by</Label>
+              <Select
+                value={draft.sortBy}
+                onValueChange={value => update({ sortBy: value as ViewSettings['sortBy'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="created">Created</SelectItem>
+                  <SelectItem value="updated">Updated</SelectItem>
+                  <SelectItem value="title">Title</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Order</Label>
+              <Select
+                value={draft.sortOrder}
+                onValueChange={value => update({ sortOrder: value as ViewSettings['sortOrder'] })}
+                disabled={draft.sortBy === 'custom'}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desc">Descending</SelectItem>
+                  <SelectItem value="asc">Ascending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Layout</Label>
+              <Select
+                value={draft.layout}
+                onValueChange={value => update({ layout: value as ViewSettings['layout'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="masonry">Masonry</SelectItem>
+                  <SelectItem value="grid">Grid</SelectItem>
+                  <SelectItem value="list">List</SelectItem>
+                  <SelectItem value="canvas">Canvas</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className={cn('text-sm', matchCount === 0 ? 'text-muted-foreground' : 'text-foreground')}>
+            Matches {matchCount} {matchCount === 1 ? 'card' : 'cards'} right now.
+          </p>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!draft.name.trim()}>
+              {mode === 'create' ? 'Create Smart Folder' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
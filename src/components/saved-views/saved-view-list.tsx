@@ -0,0 +1,121 @@
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Edit, GraduationCap, Plus, Sparkles, Trash2 } from 'lucide-react'
+import { SavedView } from '@/types/saved-view'
+import { cn } from '@/lib/utils'
+
+interface SavedViewListProps {
+  views: SavedView[]
+  counts: Map<string, number>
+  activeViewId: string | null
+  collapsed?: boolean
+  onSelect: (view: SavedView) => void
+  onCreate: () => void
+  onEdit: (view: SavedView) => void
+  onDelete: (view: SavedView) => void
+  onStudy: (view: SavedView) => void
+}
+
+/**
+ * 侧栏中的智能文件夹列表，显示每个智能文件夹当前匹配的卡片数
+ */
+export function SavedViewList({
+  views,
+  counts,
+  activeViewId,
+  collapsed = false,
+  onSelect,
+  onCreate,
+  onEdit,
+  onDelete,
+  onStudy
+}: SavedViewListProps) {
+  if (collapsed) {
+    return (
+      <div className="space-y-1">
+        {views.map(view => (
+          <Button
+            key={view.id}
+            variant={activeViewId === view.id ? 'secondary' : 'ghost'}
+            className="w-full h-10 p-0"
+            onClick={() => onSelect(view)}
+            title={`${view.name} (${counts.get(view.id) ?? 0})`}
+          >
+            <Sparkles className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium">Smart Folders</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCreate}
+          className="h-6 w-6 p-0"
+          title="New Smart Folder"
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="space-y-1">
+        {views.length === 0 && (
+          <p className="px-3 text-xs text-muted-foreground">
+            Save a search, tags and layout to get back to them in one click.
+          </p>
+        )}
+        {views.map(view => (
+          <ContextMenu key={view.id}>
+            <ContextMenuTrigger asChild>
+              <Button
+                variant={activeViewId === view.id ? 'secondary' : 'ghost'}
+                className="w-full justify-start text-sm"
+                onClick={() => onSelect(view)}
+              >
+                <Sparkles className="h-4 w-4 flex-shrink-0 text-primary" />
+                <span className="ml-2 truncate">{view.name}</span>
+                <Badge
+                  variant="secondary"
+                  className={cn('ml-auto flex-shrink-0', !counts.get(view.id) && 'opacity-60')}
+                >
+                  {counts.get(view.id) ?? 0}
+                </Badge>
+              </Button>
+            </ContextMenuTrigger>
+            <ContextMenuContent className="w-48">
+              <ContextMenuItem onClick={() => onEdit(view)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Smart Folder
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onStudy(view)}>
+                <GraduationCap className="h-4 w-4 mr-2" />
+                Study These Cards
+              </ContextMenuItem>
+
+              <ContextMenuSeparator />
+
+              <ContextMenuItem
+                onClick={() => onDelete(view)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Smart Folder
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SavedView } from '@/types/saved-view'
+
+interface SavedViewSelectProps {
+  views: SavedView[]
+  value: string
+  onValueChange: (viewId: string) => void
+  disabled?: boolean
+}
+
+/**
+ * 选择作为导出或截图范围的智能文件夹
+ */
+export function SavedViewSelect({ views, value, onValueChange, disabled }: SavedViewSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a smart folder" />
+      </SelectTrigger>
+      <SelectContent>
+        {views.map(view => (
+          <SelectItem key={view.id} value={view.id}>
+            {view.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
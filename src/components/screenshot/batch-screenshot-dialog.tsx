@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Camera } from 'lucide-react'
+import { ScreenshotFormat, ScreenshotSides } from '@/types/screenshot'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { useBatchScreenshot } from '@/hooks/use-batch-screenshot'
+import {
+  DEFAULT_NAME_TEMPLATE,
+  NAME_TEMPLATE_TOKENS,
+  batchScreenshotService
+} from '@/services/screenshot/batch-screenshot-service'
+import { ScreenshotPreviewModal } from './screenshot-preview-modal'
+import { useToast } from '@/hooks/use-toast'
+import { useSavedViewScope } from '@/hooks/use-saved-views'
+import { SavedViewSelect } from '@/components/saved-views/saved-view-select'
+
+interface BatchScreenshotDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  visibleCardIds: string[] // 当前视图中的卡片
+}
+
+type ScreenshotScope = 'all' | 'visible' | 'folder' | 'tag' | 'view'
+
+/**
+ * 批量截图对话框
+ * 选择卡片范围、格式和命名模板，导出完成后在预览窗口中确认下载 ZIP
+ */
+export function BatchScreenshotDialog({ isOpen, onClose, visibleCardIds }: BatchScreenshotDialogProps) {
+  const { allCards } = useCardAllCards()
+  const { folders, selectedFolderId } = useCardAllFolders()
+  const { toast } = useToast()
+  const { start, cancel, download, reset, progress, result, isExporting } = useBatchScreenshot()
+
+  const [scope, setScope] = useState<ScreenshotScope>('visible')
+  const [folderId, setFolderId] = useState('')
+  const [tag, setTag] = useState('')
+  const savedViewScope = useSavedViewScope(isOpen && scope === 'view')
+  const [format, setFormat] = useState<ScreenshotFormat>('png')
+  const [sides, setSides] = useState<ScreenshotSides>('front')
+  const [nameTemplate, setNameTemplate] = useState(DEFAULT_NAME_TEMPLATE)
+
+  const tags = useMemo(() => {
+    const all = new Set<string>()
+    allCards.forEach(card => {
+      card.frontContent.tags.forEach(name => all.add(name))
+      card.backContent.tags.forEach(name => all.add(name))
+    })
+    return Array.from(all).sort((a, b) => a.localeCompare(b))
+  }, [allCards])
+
+  // 打开时读取的当前文件夹和标签，只在打开或关闭时初始化
+  const defaultsRef = useRef({ selectedFolderId, folders, tags })
+  defaultsRef.current = { selectedFolderId, folders, tags }
+
+  // 打开时默认选中当前文件夹
+  useEffect(() => {
+    if (isOpen) {
+      const defaults = defaultsRef.current
+      setFolderId(defaults.selectedFolderId || defaults.folders[0]?.id || '')
+      setTag(current => current || defaults.tags[0] || '')
+    } else {
+      cancel()
+    }
+  }, [isOpen, cancel])
+
+  const scopeOptions = useMemo(() => ({
+    cardIds: scope === 'visible' ? visibleCardIds : scope === 'view' ? savedViewScope.cardIds : undefined,
+    folderId: scope === 'folder' ? folderId : undefined,
+    tag: scope === 'tag' ? tag : undefined
+  }), [scope, visibleCardIds, savedViewScope.cardIds, folderId, tag])
+
+  const cardCount = useMemo(
+    () => batchScreenshotService.resolveCards(allCards, folders, scopeOptions).length,
+    [allCards, folders, scopeOptions]
+  )
+  const imageCount = cardCount * (sides === 'both' ? 2 : 1)
+
+  // 预览条使用的对象 URL，结果清除时释放
+  const previewItems = useMemo(
+    () => result?.entries.map(entry => ({ url: URL.createObjectURL(entry.blob), name: entry.path })) ?? [],
+    [result]
+  )
+  useEffect(() => {
+    return () => previewItems.forEach(item => URL.revokeObjectURL(item.url))
+  }, [previewItems])
+
+  const handleExport = async () => {
+    try {
+      const exported = await start({ ...scopeOptions, format, sides, nameTemplate })
+      if (exported && exported.failures.length > 0) {
+        toast({
+          title: `${exported.failures.length} screenshots failed`,
+          description: exported.failures
+            .slice(0, 3)
+            .map(failure => `${failure.title} (${failure.side}): ${failure.error}`)
+            .join('\n'),
+          variant: 'destructive',
+        })
+      }
+    } catch (error) {
+      console.error('Batch screenshot failed:', error)
+      toast({
+        title: 'Screenshot failed',
+        description: error instanceof Error ? error.message : 'An error occurred while capturing cards',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDownload = () => {
+    if (!result) return
+    download()
+    toast({
+      title: 'Screenshots saved!',
+      description: `${result.fileName}.zip has been downloaded successfully.`,
+    })
+    reset()
+    onClose()
+  }
+
+  const handlePreviewClose = () => {
+    reset()
+    onClose()
+  }
+
+  return (
+    <>
+      <Dialog open={isOpen && !result} onOpenChange={open => !open && onClose()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Camera className="h-5 w-5" />
+              Batch Screenshot
+            </DialogTitle>
+            <DialogDescription>
+              Capture several cards as images and download them together as a ZIP file.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Cards</Label>
+              <Select value={scope} onValueChange={value => setScope(value as ScreenshotScope)} disabled={isExporting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="visible">Current view ({visibleCardIds.length})</SelectItem>
+                  <SelectItem value="all">All cards ({allCards.length})</SelectItem>
+                  {folders.length > 0 && <SelectItem value="folder">Folder</SelectItem>}
+                  {tags.length > 0 && <SelectItem value="tag">Tag</SelectItem>}
+                  {savedViewScope.views.length > 0 && <SelectItem value="view">Smart folder</SelectItem>}
+                </SelectContent>
+              </Select>
+              {scope === 'view' && (
+                <SavedViewSelect
+                  views={savedViewScope.views}
+                  value={savedViewScope.viewId}
+                  onValueChange={savedViewScope.setViewId}
+                  disabled={isExporting}
+                />
+              )}
+              {scope === 'folder' && (
+                <Select value={folderId} onValueChange={setFolderId} disabled={isExporting}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a folder" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        {folder.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {scope === 'tag' && (
+                <Select value={tag} onValueChange={setTag} disabled={isExporting}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tags.map(name => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Sides</Label>
+                <Select value={sides} onValueChange={value => setSides(value as ScreenshotSides)} disabled={isExporting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="front">Front</SelectItem>
+                    <SelectItem value="back">Back</SelectItem>
+                    <SelectItem value="both">Both sides</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={value => setFormat(value as ScreenshotFormat)} disabled={isExporting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="png">PNG</SelectItem>
+                    <SelectItem value="jpeg">JPG</SelectItem>
+                    <SelectItem value="webp">WebP</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="screenshot-name-template">File names</Label>
+              <Input
+                id="screenshot-name-template"
+                value={nameTemplate}
+                disabled={isExporting}
+                onChange={e => setNameTemplate(e.target.value)}
+                placeholder={DEFAULT_NAME_TEMPLATE}
+                className="font-mono text-sm"
+              />
+              <div className="flex flex-wrap gap-1">
+                {NAME_TEMPLATE_TOKENS.map(({ token, description }) => (
+                  <button
+                    key={token}
+                    type="button"
+                    title={description}
+                    disabled={isExporting}
+                    onClick={() => setNameTemplate(current => current + token)}
+                    className="rounded border px-1.5 py-0.5 font-mono text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  >
+                    {token}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {progress ? (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0} />
+                <p className="text-xs text-muted-foreground truncate">
+                  {progress.processed} / {progress.total}
+                  {progress.current && ` · ${progress.current}`}
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {imageCount} {imageCount === 1 ? 'image' : 'images'} from {cardCount} {cardCount === 1 ? 'card' : 'cards'}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            {isExporting ? (
+              <Button variant="outline" onClick={cancel}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+            )}
+            <Button onClick={handleExport} disabled={isExporting || cardCount === 0}>
+              <Camera className="h-4 w-4 mr-2" />
+              Capture
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ScreenshotPreviewModal
+        isOpen={isOpen && !!result}
+        onClose={handlePreviewClose}
+        onConfirm={handleDownload}
+        previewUrl={previewItems[0]?.url ?? null}
+        fileName={result?.fileName ?? ''}
+        items={previewItems}
+        confirmLabel="Download ZIP"
+        summary={result && result.failures.length > 0 ? `${result.failures.length} failed` : undefined}
+      />
+    </>
+  )
+}
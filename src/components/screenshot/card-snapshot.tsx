@@ -0,0 +1,121 @@
+import React from 'react'
+import { flushSync } from 'react-dom'
+import { createRoot } from 'react-dom/client'
+import { Card as CardType } from '@/types/card'
+import { CardSide } from '@/types/screenshot'
+import { CardTags } from '../tag/card-tags'
+import { ImageGrid } from '../card/image-grid'
+
+interface CardSnapshotProps {
+  card: CardType
+  side: CardSide
+  width: number
+}
+
+// 与卡片视图一致的外观，去掉动画和阴影（阴影会被截图边界裁掉）
+function getSnapshotStyles(card: CardType, width: number): React.CSSProperties {
+  const { style } = card
+  const styles: React.CSSProperties = {
+    width,
+    borderRadius: '1rem',
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize === 'sm' ? '0.875rem' :
+              style.fontSize === 'lg' ? '1.125rem' : '1rem',
+    fontWeight: style.fontWeight,
+    color: style.bodyTextColor || style.textColor,
+    borderWidth: style.borderWidth || 0,
+    borderColor: style.borderColor,
+  }
+
+  if (style.type === 'gradient' && style.gradientColors) {
+    styles.background = `linear-gradient(135deg, ${style.gradientColors.join(', ')})`
+  } else if (style.type === 'glass') {
+    // 离屏渲染没有可模糊的背景，毛玻璃按半透明底色输出
+    styles.background = style.backgroundColor || 'rgba(255, 255, 255, 0.15)'
+    styles.border = `1px solid ${style.borderColor || 'rgba(255, 255, 255, 0.18)'}`
+  } else if (style.backgroundColor?.includes('linear-gradient')) {
+    styles.background = style.backgroundColor
+  } else {
+    styles.backgroundColor = style.backgroundColor
+  }
+
+  return styles
+}
+
+/**
+ * 卡片单面的静态快照，用于批量截图
+ */
+export function CardSnapshot({ card, side, width }: CardSnapshotProps) {
+  const content = side === 'front' ? card.frontContent : card.backContent
+
+  return (
+    <div className="flex flex-col p-4" style={getSnapshotStyles(card, width)}>
+      <h3
+        className="text-lg font-semibold text-left mb-3"
+        style={{ color: card.style.titleColor || card.style.textColor }}
+      >
+        {content.title || 'Untitled Card'}
+      </h3>
+
+      {content.images.length > 0 && (
+        <div className="mb-3 flex-shrink-0">
+          <ImageGrid images={content.images} />
+        </div>
+      )}
+
+      {content.text && (
+        <div className="mb-3 text-sm leading-relaxed text-left tiptap-editor">
+          <div
+            className="whitespace-pre-wrap break-words overflow-wrap-anywhere"
+            dangerouslySetInnerHTML={{ __html: content.text }}
+          />
+        </div>
+      )}
+
+      <CardTags tags={content.tags} size="sm" />
+    </div>
+  )
+}
+
+export interface RenderedCardSnapshot {
+  element: HTMLElement
+  dispose: () => void
+}
+
+/**
+ * 在屏幕外挂载卡片快照，等待图片和字体加载完成后返回 DOM 元素
+ * 调用方截图后必须调用 dispose() 卸载，保证同一时间只有一张卡片在文档中
+ */
+export async function renderCardSnapshot(
+  card: CardType,
+  side: CardSide,
+  width: number
+): Promise<RenderedCardSnapshot> {
+  const container = document.createElement('div')
+  container.setAttribute('aria-hidden', 'true')
+  container.style.cssText = 'position: fixed; left: -10000px; top: 0; pointer-events: none;'
+  document.body.appendChild(container)
+
+  const root = createRoot(container)
+  const dispose = () => {
+    root.unmount()
+    container.remove()
+  }
+
+  try {
+    flushSync(() => {
+      root.render(<CardSnapshot card={card} side={side} width={width} />)
+    })
+
+    // 屏幕外的懒加载图片不会触发加载，改为立即加载
+    const images = Array.from(container.querySelectorAll('img'))
+    images.forEach(image => { image.loading = 'eager' })
+    await Promise.all(images.map(image => image.decode().catch(() => undefined)))
+    await document.fonts?.ready
+
+    return { element: container.firstElementChild as HTMLElement, dispose }
+  } catch (error) {
+    dispose()
+    throw error
+  }
+}
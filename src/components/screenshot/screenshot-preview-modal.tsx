@@ -1,10 +1,15 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Download, X, Camera, Sparkles } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
+export interface ScreenshotPreviewItem {
+  url: string
+  name: string // 含扩展名
+}
+
 interface ScreenshotPreviewModalProps {
   isOpen: boolean
   onClose: () => void
@@ -12,6 +17,9 @@ interface ScreenshotPreviewModalProps {
   previewUrl: string | null
   fileName: string
   isDownloading?: boolean
+  items?: ScreenshotPreviewItem[] // 批量截图时的全部图片，显示为预览条
+  confirmLabel?: string
+  summary?: string
 }
 
 export function ScreenshotPreviewModal({
@@ -20,9 +28,22 @@ export function ScreenshotPreviewModal({
   onConfirm,
   previewUrl,
   fileName,
-  isDownloading = false
+  isDownloading = false,
+  items,
+  confirmLabel = 'Download PNG',
+  summary
 }: ScreenshotPreviewModalProps) {
   const [isAnimating, setIsAnimating] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  // 新的一批图片从第一张开始预览
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [items])
+
+  const isBatch = !!items && items.length > 0
+  const activeItem = isBatch ? items[Math.min(activeIndex, items.length - 1)] : null
+  const displayUrl = activeItem ? activeItem.url : previewUrl
 
   const handleConfirm = () => {
     setIsAnimating(true)
@@ -39,7 +60,7 @@ export function ScreenshotPreviewModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Camera className="h-5 w-5" />
-            Screenshot Preview
+            {isBatch ? 'Batch Screenshot Preview' : 'Screenshot Preview'}
           </DialogTitle>
         </DialogHeader>
 
@@ -47,24 +68,28 @@ export function ScreenshotPreviewModal({
           {/* File Info */}
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
-              <Badge variant="secondary" className="font-mono text-xs">
-                {fileName}.png
+              <Badge variant="secondary" className="font-mono text-xs max-w-[24rem] truncate">
+                {activeItem ? activeItem.name : `${fileName}.png`}
               </Badge>
               <Badge variant="outline" className="text-xs">
-                High Quality
+                {isBatch ? `${items.length} images` : 'High Quality'}
               </Badge>
             </div>
+            {summary && (
+              <span className="text-xs text-muted-foreground">{summary}</span>
+            )}
           </div>
 
           {/* Preview Image */}
           <div className="relative bg-checkered rounded-lg overflow-hidden border">
-            {previewUrl ? (
+            {displayUrl ? (
               <div className="relative">
                 <img
-                  src={previewUrl}
+                  src={displayUrl}
                   alt="Screenshot preview"
                   className={cn(
-                    "w-full h-auto max-h-[60vh] object-contain transition-all duration-300",
+                    "w-full h-auto object-contain transition-all duration-300",
+                    isBatch ? "max-h-[45vh]" : "max-h-[60vh]",
                     isAnimating && "scale-95 opacity-80"
                   )}
                 />
@@ -91,6 +116,33 @@ export function ScreenshotPreviewModal({
             )}
           </div>
 
+          {/* Preview Strip */}
+          {isBatch && items.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto pb-1" role="listbox" aria-label="Screenshots">
+              {items.map((item, index) => (
+                <button
+                  key={item.name}
+                  type="button"
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  title={item.name}
+                  onClick={() => setActiveIndex(index)}
+                  className={cn(
+                    "flex-shrink-0 h-16 w-16 rounded-md border bg-checkered overflow-hidden transition-all",
+                    index === activeIndex ? "ring-2 ring-primary ring-offset-1" : "opacity-70 hover:opacity-100"
+                  )}
+                >
+                  <img
+                    src={item.url}
+                    alt={item.name}
+                    loading="lazy"
+                    className="h-full w-full object-contain"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Download Status */}
           {isDownloading && (
             <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
@@ -111,7 +163,7 @@ export function ScreenshotPreviewModal({
           </Button>
           <Button
             onClick={handleConfirm}
-            disabled={isAnimating || isDownloading || !previewUrl}
+            disabled={isAnimating || isDownloading || !displayUrl}
             className={cn(
               "relative overflow-hidden",
               isAnimating && "bg-gradient-to-r from-blue-500 to-purple-600"
@@ -125,7 +177,7 @@ export function ScreenshotPreviewModal({
             ) : (
               <>
                 <Download className="h-4 w-4 mr-2" />
-                Download PNG
+                {confirmLabel}
               </>
             )}
           </Button>
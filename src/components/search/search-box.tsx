@@ -0,0 +1,180 @@
+import { useState, useMemo, useRef, useLayoutEffect, KeyboardEvent } from 'react'
+import { Search, AlertCircle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Card } from '@/types/card'
+import {
+  FolderTreeNode,
+  SearchQueryIssue,
+  SearchQuerySuggestion,
+  getSearchSuggestions
+} from '@/services/search/search-query'
+import { SearchResults } from './search-results'
+import { cn } from '@/lib/utils'
+
+interface SearchBoxProps {
+  value: string
+  onChange: (value: string) => void
+  searchTerm: string // 查询中的自由文本部分，用于显示全文搜索结果
+  issues?: SearchQueryIssue[]
+  cards: Card[]
+  scope?: Card[]
+  folderTree: FolderTreeNode[]
+  suggestTags: (input: string) => string[]
+  onSelectCard: (card: Card) => void
+  placeholder?: string
+  className?: string
+  showResults?: boolean
+}
+
+/**
+ * 支持结构化查询的搜索框
+ *
+ * 光标处于 tag:、folder: 等字段时显示补全建议，否则显示全文搜索结果
+ */
+export function SearchBox({
+  value,
+  onChange,
+  searchTerm,
+  issues = [],
+  cards,
+  scope,
+  folderTree,
+  suggestTags,
+  onSelectCard,
+  placeholder = 'Search cards...',
+  className,
+  showResults = true
+}: SearchBoxProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const pendingCursor = useRef<number | null>(null)
+  const [isFocused, setIsFocused] = useState(false)
+  const [cursor, setCursor] = useState(value.length)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = useMemo(
+    () => isFocused ? getSearchSuggestions(value, cursor, { suggestTags, folderTree }) : [],
+    [isFocused, value, cursor, suggestTags, folderTree]
+  )
+
+  // 接受建议后恢复光标位置
+  useLayoutEffect(() => {
+    if (pendingCursor.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current)
+      setCursor(pendingCursor.current)
+      pendingCursor.current = null
+    }
+  }, [value])
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length)
+  }
+
+  const acceptSuggestion = (suggestion: SearchQuerySuggestion) => {
+    const next = value.slice(0, suggestion.start) + suggestion.replacement + value.slice(suggestion.end)
+    pendingCursor.current = suggestion.start + suggestion.replacement.length
+    setActiveIndex(0)
+    onChange(next)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.currentTarget.blur()
+      return
+    }
+
+    if (suggestions.length === 0) return
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(index => (index + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length)
+        break
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault()
+        acceptSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)])
+        break
+    }
+  }
+
+  const showSuggestions = suggestions.length > 0
+  const showSearchResults = showResults && !showSuggestions && !!searchTerm.trim()
+  const showIssues = !showSuggestions && issues.length > 0
+  const isOpen = isFocused && (showSuggestions || showSearchResults || showIssues)
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          setActiveIndex(0)
+          setCursor(e.target.selectionStart ?? e.target.value.length)
+          onChange(e.target.value)
+        }}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        className={cn('pl-10 rounded-full', issues.length > 0 && 'border-amber-400', className)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+
+      {isOpen && (
+        <div
+          className="absolute left-0 right-0 top-full mt-2 z-50 min-w-[16rem] rounded-lg border bg-popover text-popover-foreground shadow-lg overflow-hidden"
+          // 阻止输入框失焦，保证点击生效
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {showSuggestions ? (
+            <ul className="py-1" role="listbox">
+              {suggestions.map((suggestion, index) => (
+                <li key={`${suggestion.label}-${index}`} role="option" aria-selected={index === activeIndex}>
+                  <button
+                    type="button"
+                    className={cn(
+                      'w-full flex items-center justify-between gap-3 px-4 py-1.5 text-left text-sm hover:bg-accent',
+                      index === activeIndex && 'bg-accent'
+                    )}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => acceptSuggestion(suggestion)}
+                  >
+                    <span className="font-mono truncate">{suggestion.label}</span>
+                    {suggestion.description && (
+                      <span className="text-xs text-muted-foreground truncate">{suggestion.description}</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              {showIssues && (
+                <ul className="px-4 py-2 space-y-1 border-b">
+                  {issues.map((issue, index) => (
+                    <li key={index} className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+                      <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {showSearchResults && (
+                <SearchResults query={searchTerm} cards={cards} scope={scope} onSelect={onSelectCard} />
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
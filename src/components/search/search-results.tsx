@@ -0,0 +1,91 @@
+import { useMemo } from 'react'
+import { FileText, CheckSquare, Type, Link2 } from 'lucide-react'
+import { Card } from '@/types/card'
+import { cardSearchIndex, SearchField, SearchSnippet } from '@/services/search/search-index'
+
+interface SearchResultsProps {
+  query: string
+  cards: Card[]
+  onSelect: (card: Card) => void
+  scope?: Card[] // 只显示这些卡片中的结果，例如已按其他条件筛选后的卡片
+  limit?: number
+}
+
+const FIELD_ICONS: Record<SearchField, typeof FileText> = {
+  title: Type,
+  body: FileText,
+  todos: CheckSquare,
+  tags: FileText,
+  source: Link2
+}
+
+/**
+ * 搜索结果列表，显示命中片段并高亮匹配词
+ */
+export function SearchResults({ query, cards, onSelect, scope, limit = 8 }: SearchResultsProps) {
+  const results = useMemo(() => {
+    if (!query.trim()) return []
+
+    cardSearchIndex.sync(cards)
+    const cardsById = new Map((scope || cards).map(card => [card.id, card]))
+
+    return cardSearchIndex
+      .search(query, { limit: scope ? undefined : limit })
+      .map(result => ({ ...result, card: cardsById.get(result.cardId) }))
+      .filter((result): result is typeof result & { card: Card } => !!result.card)
+      .slice(0, limit)
+  }, [query, cards, scope, limit])
+
+  if (!query.trim()) return null
+
+  return (
+    <>
+      {results.length === 0 ? (
+        <div className="px-4 py-3 text-sm text-muted-foreground">No matching cards</div>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto py-1">
+          {results.map(({ card, snippets }) => (
+            <li key={card.id}>
+              <button
+                type="button"
+                className="w-full text-left px-4 py-2 hover:bg-accent focus:bg-accent focus:outline-none"
+                onClick={() => onSelect(card)}
+              >
+                <div className="text-sm font-medium truncate">
+                  {card.frontContent.title || card.backContent.title || 'Untitled'}
+                </div>
+                {snippets
+                  .filter(snippet => snippet.field !== 'title')
+                  .slice(0, 2)
+                  .map(snippet => (
+                    <SnippetLine key={snippet.field} snippet={snippet} />
+                  ))}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
+
+function SnippetLine({ snippet }: { snippet: SearchSnippet }) {
+  const Icon = FIELD_ICONS[snippet.field]
+
+  return (
+    <div className="flex items-start gap-1.5 mt-0.5 text-xs text-muted-foreground">
+      <Icon className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <span className="line-clamp-2">
+        {snippet.segments.map((segment, index) =>
+          segment.highlight ? (
+            <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </span>
+    </div>
+  )
+}
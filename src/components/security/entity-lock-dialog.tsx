@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertTriangle, Loader2, Lock, Unlock } from 'lucide-react'
+import { EntityLockTarget } from '@/types/entity-lock'
+import { useEntityLock } from '@/hooks/use-entity-lock'
+import { useToast } from '@/hooks/use-toast'
+import { useCardAllCards, useCardAllFolders, useCardAllUndoRedo } from '@/contexts/cardall-context'
+import { cardHistoryService } from '@/services/history/card-history-service'
+import { entityLockService, FolderLockChanges, MIN_PIN_LENGTH } from '@/services/security/entity-lock-service'
+
+interface EntityLockDialogProps {
+  target: EntityLockTarget | null
+  onClose: () => void
+}
+
+const RELOCK_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '1 minute' },
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' }
+]
+
+/**
+ * 卡片/文件夹独立锁
+ * 未锁定时设置 PIN 并锁定；锁定时输入 PIN 解锁；解锁后可立即重新锁定或移除锁
+ */
+export function EntityLockDialog({ target, onClose }: EntityLockDialogProps) {
+  const lockState = useEntityLock()
+  const { allCards, dispatch: cardDispatch } = useCardAllCards()
+  const { folders, dispatch: folderDispatch } = useCardAllFolders()
+  const { forgetCards } = useCardAllUndoRedo()
+  const { toast } = useToast()
+
+  const [pin, setPin] = useState('')
+  const [confirmPin, setConfirmPin] = useState('')
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // 关闭时清空输入的 PIN
+  useEffect(() => {
+    if (!target) {
+      setPin('')
+      setConfirmPin('')
+      setError(null)
+    }
+  }, [target])
+
+  const card = target?.type === 'card' ? allCards.find(item => item.id === target.id) : undefined
+  const folder = target?.type === 'folder' ? folders.find(item => item.id === target.id) : undefined
+  const entity = card ?? folder
+  const noun = target?.type === 'folder' ? 'Folder' : 'Card'
+  const isUnlocked = card
+    ? !!card.lock && entityLockService.reveal(card) !== null
+    : !!folder && entityLockService.isUnlocked(folder.id)
+  // 随所在文件夹锁定的卡片只能和文件夹一起移除锁
+  const lockingFolder = card?.lock?.folderId
+    ? entityLockService.getLockedFolder(card.folderId, folders)
+    : undefined
+  const isFolderManaged = !!lockingFolder && lockingFolder.id === card?.lock?.folderId
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action)
+    setError(null)
+    try {
+      await task()
+    } catch (taskError) {
+      console.error(`Lock ${action} failed:`, taskError)
+      setError(taskError instanceof Error ? taskError.message : 'An unexpected error occurred')
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const applyFolderChanges = async (folderId: string, changes: FolderLockChanges) => {
+    folderDispatch({ type: 'UPDATE_FOLDER', payload: { id: folderId, updates: changes.folder } })
+    for (const { id, updates } of changes.cards) {
+      await cardDispatch({ type: 'UPDATE_CARD', payload: { id, updates } })
+    }
+  }
+
+  const handleLock = () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`PIN must be at least ${MIN_PIN_LENGTH} characters`)
+      return
+    }
+    if (pin !== confirmPin) {
+      setError('PINs do not match')
+      return
+    }
+
+    run('lock', async () => {
+      if (card) {
+        const updates = await entityLockService.lockCard(card, pin)
+        await cardDispatch({ type: 'UPDATE_CARD', payload: { id: card.id, updates } })
+        // 修订历史和撤销历史中保存的是明文，锁定后一并删除
+        await cardHistoryService.removeCards([card.id])
+        await forgetCards([card.id])
+      } else if (folder) {
+        const changes = await entityLockService.lockFolder(folder, folders, allCards, pin)
+        await applyFolderChanges(folder.id, changes)
+        const cardIds = changes.cards.map(change => change.id)
+        await cardHistoryService.removeCards(cardIds)
+        await forgetCards(cardIds)
+      }
+      toast({ title: `${noun} Locked` })
+      onClose()
+    })
+  }
+
+  const handleUnlock = (event: React.FormEvent) => {
+    event.preventDefault()
+    run('unlock', async () => {
+      const success = card
+        ? await entityLockService.unlockCard(card, pin)
+        : !!folder && await entityLockService.unlockFolder(folder, allCards, pin)
+      setPin('')
+      if (!success) {
+        setError('Incorrect PIN')
+        return
+      }
+      onClose()
+    })
+  }
+
+  const handleLockNow = () => {
+    if (entity) entityLockService.lock(entity.id)
+    onClose()
+  }
+
+  const handleRemoveLock = () => {
+    run('remove', async () => {
+      if (card) {
+        const updates = entityLockService.removeCardLock(card)
+        await cardDispatch({ type: 'UPDATE_CARD', payload: { id: card.id, updates } })
+      } else if (folder) {
+        await applyFolderChanges(folder.id, entityLockService.removeFolderLock(folder, allCards))
+      }
+      toast({ title: 'Lock Removed', description: `The ${noun.toLowerCase()} is stored without its own PIN again` })
+      onClose()
+    })
+  }
+
+  const handleRelockTimeoutChange = (value: string) => {
+    run('timeout', () => entityLockService.setRelockTimeout(Number(value)))
+  }
+
+  const isBusy = busyAction !== null
+  const spinner = (action: string) => busyAction === action && <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+
+  const relockSelect = (
+    <div className="flex items-center justify-between gap-4">
+      <div className="space-y-1">
+        <Label>Re-lock after</Label>
+        <p className="text-xs text-muted-foreground">Applies to all locked cards and folders</p>
+      </div>
+      <Select
+        value={String(lockState.relockTimeoutMinutes)}
+        onValueChange={handleRelockTimeoutChange}
+        disabled={isBusy}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RELOCK_TIMEOUT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={String(option.value)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const renderBody = () => {
+    if (!entity) return null
+
+    if (!entity.lock) {
+      return (
+        <div className="space-y-4">
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {card
+                ? 'The card content is encrypted with this PIN and its revision history is deleted.'
+                : 'Cards in this folder and its subfolders are encrypted with this PIN, and their revision history is deleted.'}{' '}
+              A forgotten PIN cannot be recovered.
+            </AlertDescription>
+          </Alert>
+          <div className="space-y-2">
+            <Label htmlFor="entity-lock-pin">PIN or passphrase</Label>
+            <Input
+              id="entity-lock-pin"
+              type="password"
+              autoFocus
+              autoComplete="new-password"
+              value={pin}
+              onChange={event => setPin(event.target.value)}
+              disabled={isBusy}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="entity-lock-confirm">Confirm PIN</Label>
+            <Input
+              id="entity-lock-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPin}
+              onChange={event => setConfirmPin(event.target.value)}
+              disabled={isBusy}
+            />
+          </div>
+          {relockSelect}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button onClick={handleLock} disabled={isBusy || !pin}>
+              {spinner('lock')}
+              {busyAction === 'lock' ? 'Encrypting...' : `Lock ${noun}`}
+            </Button>
+          </DialogFooter>
+        </div>
+      )
+    }
+
+    if (!isUnlocked) {
+      return (
+        <form className="space-y-4" onSubmit={handleUnlock}>
+          <div className="space-y-2">
+            <Label htmlFor="entity-unlock-pin">PIN or passphrase</Label>
+            <Input
+              id="entity-unlock-pin"
+              type="password"
+              autoFocus
+              autoComplete="current-password"
+              value={pin}
+              onChange={event => setPin(event.target.value)}
+              disabled={isBusy}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={isBusy || !pin}>
+              {spinner('unlock')}
+              {busyAction === 'unlock' ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      )
+    }
+
+    return (
+      <div className="space-y-4">
+        {relockSelect}
+        {isFolderManaged && (
+          <p className="text-sm text-muted-foreground">
+            This card is locked together with the folder "{lockingFolder!.name}". Remove the folder's lock to unlock it permanently.
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button variant="outline" onClick={handleLockNow} disabled={isBusy}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock Now
+          </Button>
+          <Button variant="destructive" onClick={handleRemoveLock} disabled={isBusy || isFolderManaged}>
+            {busyAction === 'remove' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Unlock className="h-4 w-4 mr-2" />}
+            Remove Lock
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const title = !entity?.lock ? `Lock ${noun}` : isUnlocked ? `${noun} Unlocked` : `Unlock ${noun}`
+  const description = !entity?.lock
+    ? `Protect this ${noun.toLowerCase()} with its own PIN. Its content stays hidden until the PIN is entered.`
+    : isUnlocked
+      ? `The ${noun.toLowerCase()} locks again automatically after ${lockState.relockTimeoutMinutes} ${lockState.relockTimeoutMinutes === 1 ? 'minute' : 'minutes'}.`
+      : `Enter the PIN for this ${noun.toLowerCase()} to view its content.`
+
+  return (
+    <Dialog open={!!entity} onOpenChange={open => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  )
+}
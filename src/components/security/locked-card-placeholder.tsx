@@ -0,0 +1,37 @@
+import { Card as CardType } from '@/types/card'
+import { Button } from '@/components/ui/button'
+import { Lock } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface LockedCardPlaceholderProps {
+  card: CardType
+  onUnlock: (cardId: string) => void
+  className?: string
+}
+
+/**
+ * 锁定卡片的模糊占位，不渲染任何卡片内容
+ */
+export function LockedCardPlaceholder({ card, onUnlock, className }: LockedCardPlaceholderProps) {
+  return (
+    <div
+      className={cn('relative overflow-hidden rounded-2xl border bg-card p-4 shadow-sm', className)}
+      data-locked-card-id={card.id}
+    >
+      <div aria-hidden className="space-y-3 blur-sm select-none pointer-events-none">
+        <div className="h-5 w-2/3 rounded bg-muted-foreground/30" />
+        <div className="h-3 w-full rounded bg-muted-foreground/20" />
+        <div className="h-3 w-5/6 rounded bg-muted-foreground/20" />
+        <div className="h-3 w-3/4 rounded bg-muted-foreground/20" />
+        <div className="h-3 w-1/2 rounded bg-muted-foreground/20" />
+      </div>
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-background/40 backdrop-blur-sm">
+        <Lock className="h-5 w-5 text-muted-foreground" />
+        <p className="text-sm font-medium">Locked card</p>
+        <Button size="sm" variant="outline" onClick={() => onUnlock(card.id)}>
+          Unlock
+        </Button>
+      </div>
+    </div>
+  )
+}
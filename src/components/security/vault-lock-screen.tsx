@@ -0,0 +1,186 @@
+import React, { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Lock, KeyRound, Loader2 } from 'lucide-react'
+import { useVault, useVaultIdleLock } from '@/hooks/use-vault'
+import { MIN_PASSPHRASE_LENGTH, vaultService } from '@/services/security/vault-service'
+
+type LockScreenMode = 'passphrase' | 'recovery'
+
+/**
+ * 保险库锁定界面
+ * 输入口令解锁；忘记口令时可用恢复密钥设置新口令
+ */
+export function VaultLockScreen() {
+  const [mode, setMode] = useState<LockScreenMode>('passphrase')
+  const [passphrase, setPassphrase] = useState('')
+  const [recoveryKey, setRecoveryKey] = useState('')
+  const [newPassphrase, setNewPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const switchMode = (next: LockScreenMode) => {
+    setMode(next)
+    setError(null)
+  }
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsWorking(true)
+    setError(null)
+    try {
+      if (!(await vaultService.unlock(passphrase))) {
+        setError('Incorrect passphrase')
+      }
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : 'Failed to unlock')
+    } finally {
+      setIsWorking(false)
+      setPassphrase('')
+    }
+  }
+
+  const handleRecover = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setIsWorking(true)
+    setError(null)
+    try {
+      if (!(await vaultService.recover(recoveryKey, newPassphrase))) {
+        setError('Recovery key does not match this vault')
+      }
+    } catch (recoverError) {
+      setError(recoverError instanceof Error ? recoverError.message : 'Failed to recover')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+            {mode === 'passphrase' ? <Lock className="h-6 w-6" /> : <KeyRound className="h-6 w-6" />}
+          </div>
+          <CardTitle>{mode === 'passphrase' ? 'CardAll is locked' : 'Reset passphrase'}</CardTitle>
+          <CardDescription>
+            {mode === 'passphrase'
+              ? 'Enter your passphrase to decrypt your cards.'
+              : 'Enter the recovery key you saved when the vault was created, then choose a new passphrase.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mode === 'passphrase' ? (
+            <form className="space-y-4" onSubmit={handleUnlock}>
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase">Passphrase</Label>
+                <Input
+                  id="vault-passphrase"
+                  type="password"
+                  autoFocus
+                  autoComplete="current-password"
+                  value={passphrase}
+                  onChange={event => setPassphrase(event.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isWorking || !passphrase}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isWorking ? 'Unlocking...' : 'Unlock'}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => switchMode('recovery')}>
+                Forgot passphrase?
+              </Button>
+            </form>
+          ) : (
+            <form className="space-y-4" onSubmit={handleRecover}>
+              <div className="space-y-2">
+                <Label htmlFor="vault-recovery-key">Recovery key</Label>
+                <Input
+                  id="vault-recovery-key"
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  className="font-mono"
+                  placeholder="XXXX-XXXX-XXXX-..."
+                  value={recoveryKey}
+                  onChange={event => setRecoveryKey(event.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vault-new-passphrase">New passphrase</Label>
+                <Input
+                  id="vault-new-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassphrase}
+                  onChange={event => setNewPassphrase(event.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vault-confirm-passphrase">Confirm new passphrase</Label>
+                <Input
+                  id="vault-confirm-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onChange={event => setConfirmPassphrase(event.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isWorking || !recoveryKey || !newPassphrase}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isWorking ? 'Recovering...' : 'Reset passphrase and unlock'}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => switchMode('passphrase')}>
+                Back to passphrase
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+interface VaultGateProps {
+  children: React.ReactNode
+}
+
+/**
+ * 保险库启用且锁定时显示锁定界面，解锁后才挂载子组件（卡片数据随锁定一起卸载）
+ */
+export function VaultGate({ children }: VaultGateProps) {
+  const state = useVault()
+  useVaultIdleLock(state)
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (state.status === 'locked') {
+    return <VaultLockScreen />
+  }
+
+  return <>{children}</>
+}
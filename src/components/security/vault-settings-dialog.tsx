@@ -0,0 +1,382 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertTriangle, Copy, Download, Loader2, Lock } from 'lucide-react'
+import { VaultKdfAlgorithm } from '@/types/vault'
+import { useVault } from '@/hooks/use-vault'
+import { useToast } from '@/hooks/use-toast'
+import { useCardAllCards } from '@/contexts/cardall-context'
+import { MIN_PASSPHRASE_LENGTH, vaultService } from '@/services/security/vault-service'
+import { downloadFile } from '@/utils/download-utils'
+
+interface VaultSettingsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const IDLE_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 0, label: 'Never' }
+]
+
+const KDF_OPTIONS: { value: VaultKdfAlgorithm; label: string }[] = [
+  { value: 'argon2id', label: 'Argon2id (recommended)' },
+  { value: 'scrypt', label: 'scrypt' }
+]
+
+function validatePassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+  }
+  if (passphrase !== confirmation) {
+    return 'Passphrases do not match'
+  }
+  return null
+}
+
+function downloadRecoveryKey(recoveryKey: string) {
+  const content = [
+    'CardAll vault recovery key',
+    '',
+    recoveryKey,
+    '',
+    'Use this key to reset your passphrase if you forget it.',
+    'Anyone with this key can decrypt your cards. Keep it somewhere safe and offline.',
+    ''
+  ].join('\n')
+  downloadFile(new Blob([content], { type: 'text/plain' }), 'cardall-recovery-key.txt')
+}
+
+/**
+ * 恢复密钥展示，只在生成时显示一次
+ */
+function RecoveryKeyPanel({ recoveryKey, onDone }: { recoveryKey: string; onDone: () => void }) {
+  const { toast } = useToast()
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey)
+      toast({ title: 'Recovery key copied' })
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the key and copy it manually', variant: 'destructive' })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Save this recovery key now. It will not be shown again, and without it a forgotten passphrase
+          means your cards cannot be decrypted.
+        </AlertDescription>
+      </Alert>
+      <div className="rounded-md border bg-muted p-3 font-mono text-sm break-all select-all">
+        {recoveryKey}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => downloadRecoveryKey(recoveryKey)}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+      </div>
+      <DialogFooter>
+        <Button onClick={onDone}>I have saved my recovery key</Button>
+      </DialogFooter>
+    </div>
+  )
+}
+
+/**
+ * 加密保险库设置
+ * 启用/关闭保险库、修改口令、重新生成恢复密钥和设置自动锁定时间
+ */
+export function VaultSettingsDialog({ isOpen, onClose }: VaultSettingsDialogProps) {
+  const vault = useVault()
+  const { storageMode } = useCardAllCards()
+  // 保险库只加密 IndexedDB 中的数据，卡片还在 localStorage 时不能启用
+  const canEnable = storageMode === 'indexeddb'
+  const { toast } = useToast()
+
+  const [passphrase, setPassphrase] = useState('')
+  const [newPassphrase, setNewPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [kdf, setKdf] = useState<VaultKdfAlgorithm>('argon2id')
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // 打开时和算法变更后沿用当前的派生算法，关闭时清空输入的口令
+  useEffect(() => {
+    if (isOpen) {
+      setKdf(vault.kdfAlgorithm ?? 'argon2id')
+    } else {
+      setPassphrase('')
+      setNewPassphrase('')
+      setConfirmPassphrase('')
+      setRecoveryKey(null)
+      setError(null)
+    }
+  }, [isOpen, vault.kdfAlgorithm])
+
+  const run = async (action: string, task: () => Promise<void>) => {
+    setBusyAction(action)
+    setError(null)
+    try {
+      await task()
+    } catch (taskError) {
+      console.error(`Vault ${action} failed:`, taskError)
+      setError(taskError instanceof Error ? taskError.message : 'An unexpected error occurred')
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleEnable = () => {
+    if (!canEnable) return
+    const validation = validatePassphrase(newPassphrase, confirmPassphrase)
+    if (validation) {
+      setError(validation)
+      return
+    }
+    run('enable', async () => {
+      const key = await vaultService.enable(newPassphrase, { kdf })
+      setNewPassphrase('')
+      setConfirmPassphrase('')
+      setRecoveryKey(key)
+      toast({ title: 'Vault Enabled', description: 'Your cards are now encrypted on this device' })
+    })
+  }
+
+  const handleChangePassphrase = () => {
+    const validation = validatePassphrase(newPassphrase, confirmPassphrase)
+    if (validation) {
+      setError(validation)
+      return
+    }
+    run('change', async () => {
+      if (!(await vaultService.changePassphrase(passphrase, newPassphrase, kdf))) {
+        setError('Current passphrase is incorrect')
+        return
+      }
+      setPassphrase('')
+      setNewPassphrase('')
+      setConfirmPassphrase('')
+      toast({ title: 'Passphrase Changed' })
+    })
+  }
+
+  const handleRegenerateRecoveryKey = () => {
+    run('recovery', async () => {
+      setRecoveryKey(await vaultService.regenerateRecoveryKey())
+    })
+  }
+
+  const handleDisable = () => {
+    run('disable', async () => {
+      if (!(await vaultService.disable(passphrase))) {
+        setError('Passphrase is incorrect')
+        return
+      }
+      setPassphrase('')
+      toast({ title: 'Vault Disabled', description: 'Your cards are stored unencrypted again' })
+    })
+  }
+
+  const handleIdleTimeoutChange = (value: string) => {
+    run('timeout', () => vaultService.setIdleTimeout(Number(value)))
+  }
+
+  const handleLockNow = () => {
+    onClose()
+    vaultService.lock()
+  }
+
+  const isBusy = busyAction !== null
+  const spinner = (action: string) => busyAction === action && <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+
+  const kdfSelect = (
+    <div className="space-y-2">
+      <Label>Key derivation</Label>
+      <Select value={kdf} onValueChange={value => setKdf(value as VaultKdfAlgorithm)} disabled={isBusy}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {KDF_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const newPassphraseFields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="vault-settings-new">New passphrase</Label>
+        <Input
+          id="vault-settings-new"
+          type="password"
+          autoComplete="new-password"
+          value={newPassphrase}
+          onChange={event => setNewPassphrase(event.target.value)}
+          disabled={isBusy}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="vault-settings-confirm">Confirm passphrase</Label>
+        <Input
+          id="vault-settings-confirm"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassphrase}
+          onChange={event => setConfirmPassphrase(event.target.value)}
+          disabled={isBusy}
+        />
+      </div>
+    </>
+  )
+
+  const renderBody = () => {
+    if (recoveryKey) {
+      return <RecoveryKeyPanel recoveryKey={recoveryKey} onDone={() => setRecoveryKey(null)} />
+    }
+
+    if (vault.status === 'disabled') {
+      return (
+        <div className="space-y-4">
+          {!canEnable && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Your cards are currently kept in localStorage, which the vault cannot encrypt.
+                The vault can be enabled once storage has moved to IndexedDB.
+              </AlertDescription>
+            </Alert>
+          )}
+          {newPassphraseFields}
+          {kdfSelect}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button onClick={handleEnable} disabled={isBusy || !canEnable || !newPassphrase}>
+              {spinner('enable')}
+              {busyAction === 'enable' ? 'Encrypting...' : 'Enable Vault'}
+            </Button>
+          </DialogFooter>
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label>Auto-lock</Label>
+            <p className="text-xs text-muted-foreground">Lock after this long without activity</p>
+          </div>
+          <Select
+            value={String(vault.idleTimeoutMinutes)}
+            onValueChange={handleIdleTimeoutChange}
+            disabled={isBusy}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IDLE_TIMEOUT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="vault-settings-current">Current passphrase</Label>
+          <Input
+            id="vault-settings-current"
+            type="password"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={event => setPassphrase(event.target.value)}
+            disabled={isBusy}
+          />
+        </div>
+        {newPassphraseFields}
+        {kdfSelect}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleChangePassphrase} disabled={isBusy || !passphrase || !newPassphrase}>
+            {spinner('change')}
+            Change Passphrase
+          </Button>
+          <Button variant="outline" onClick={handleRegenerateRecoveryKey} disabled={isBusy}>
+            {spinner('recovery')}
+            New Recovery Key
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button variant="outline" onClick={handleLockNow} disabled={isBusy}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock Now
+          </Button>
+          <Button variant="destructive" onClick={handleDisable} disabled={isBusy || !passphrase}>
+            {spinner('disable')}
+            {busyAction === 'disable' ? 'Decrypting...' : 'Disable Vault'}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Encrypted Vault</DialogTitle>
+          <DialogDescription>
+            {vault.status === 'disabled'
+              ? 'Encrypt card contents and images on this device with a passphrase. CardAll will ask for it on startup and after a period of inactivity.'
+              : `Card contents and images are encrypted with a key protected by your passphrase (${vault.kdfAlgorithm === 'scrypt' ? 'scrypt' : 'Argon2id'}).`}
+          </DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertTriangle, Copy, Download, Loader2, Share2 } from 'lucide-react'
+import { Card } from '@/types/card'
+import { PreparedShare } from '@/types/share'
+import { useToast } from '@/hooks/use-toast'
+import { cardShareService } from '@/services/share/card-share-service'
+import { copyTextToClipboard } from '@/utils/copy-utils'
+import { downloadFile } from '@/utils/download-utils'
+
+interface ShareCardDialogProps {
+  card: Card | null
+  onClose: () => void
+}
+
+/**
+ * 分享卡片
+ * 生成包含卡片内容的链接和 .cardall 文件，支持时通过系统分享面板发送，否则复制链接
+ */
+export function ShareCardDialog({ card, onClose }: ShareCardDialogProps) {
+  const { toast } = useToast()
+  const [prepared, setPrepared] = useState<PreparedShare | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
+
+  useEffect(() => {
+    setPrepared(null)
+    setError(null)
+    if (!card) return
+
+    let cancelled = false
+    cardShareService.prepare(card)
+      .then(result => {
+        if (!cancelled) setPrepared(result)
+      })
+      .catch(err => {
+        console.error('Failed to prepare card share:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The card could not be prepared for sharing.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [card])
+
+  const handleCopyLink = async () => {
+    if (!prepared?.url) return
+    const success = await copyTextToClipboard(prepared.url)
+    toast(success
+      ? { title: 'Link copied', description: 'Anyone with the link can view this card.' }
+      : { title: 'Copy failed', description: 'Select the link and copy it manually.', variant: 'destructive' })
+  }
+
+  const handleDownload = () => {
+    if (!prepared) return
+    downloadFile(prepared.file, prepared.file.name)
+  }
+
+  const handleShare = async () => {
+    if (!prepared) return
+    if (!cardShareService.canShareNatively(prepared)) {
+      await handleCopyLink()
+      return
+    }
+
+    setIsSharing(true)
+    try {
+      if (await cardShareService.shareNatively(prepared)) onClose()
+    } catch (err) {
+      console.error('Failed to share card:', err)
+      if (prepared.url) {
+        await handleCopyLink()
+      } else {
+        toast({
+          title: 'Share failed',
+          description: err instanceof Error ? err.message : 'Download the file and send it instead.',
+          variant: 'destructive'
+        })
+      }
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const canShare = !!prepared && (cardShareService.canShareNatively(prepared) || !!prepared.url)
+
+  return (
+    <Dialog open={!!card} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Card</DialogTitle>
+          <DialogDescription>
+            The card's content, style and images travel inside the link or file. Nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : !prepared ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Preparing share…
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {prepared.url ? (
+              <div className="flex gap-2">
+                <Input value={prepared.url} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopyLink} title="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This card is too large for a link. Share the .cardall file instead — it opens in CardAll.
+              </p>
+            )}
+
+            {prepared.warnings.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-950/40 dark:text-amber-400">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <div>
+                  {prepared.warnings.map((warning, index) => (
+                    <div key={index}>{warning}</div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={handleDownload} disabled={!prepared}>
+            <Download className="h-4 w-4 mr-2" />
+            Download File
+          </Button>
+          <Button onClick={handleShare} disabled={!canShare || isSharing}>
+            {isSharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Share2 className="h-4 w-4 mr-2" />}
+            {prepared && !cardShareService.canShareNatively(prepared) ? 'Copy Link' : 'Share…'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
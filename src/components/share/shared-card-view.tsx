@@ -0,0 +1,102 @@
+import { useMemo } from 'react'
+import { AlertTriangle, ArrowLeft, Download, Eye } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { FlipCard } from '@/components/card/flip-card'
+import { ShareViewerState } from '@/types/share'
+import { useToast } from '@/hooks/use-toast'
+import { cardShareService } from '@/services/share/card-share-service'
+import { copyTextToClipboard, formatCardContentForCopy } from '@/utils/copy-utils'
+
+interface SharedCardViewProps {
+  state: ShareViewerState
+}
+
+/**
+ * 分享卡片的只读查看页
+ * 按原样式显示卡片，确认后导入到自己的卡片中
+ */
+export function SharedCardView({ state }: SharedCardViewProps) {
+  const { toast } = useToast()
+  const card = useMemo(() => (state.shared ? cardShareService.toCard(state.shared) : null), [state.shared])
+  const sharedAt = state.shared?.sharedAt ? new Date(state.shared.sharedAt) : null
+
+  const handleCopy = async () => {
+    if (!card) return
+    const success = await copyTextToClipboard(formatCardContentForCopy(card.frontContent.title, card.frontContent.text))
+    if (!success) console.error('Failed to copy card content')
+  }
+
+  const handleCopyLink = async () => {
+    const success = await copyTextToClipboard(window.location.href)
+    if (success) toast({ title: 'Link copied' })
+  }
+
+  const handleUnavailable = () => {
+    toast({ title: 'Import the card first', description: 'This action is available for your own cards.' })
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-2">
+            <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-violet-500 to-pink-500 flex items-center justify-center">
+              <span className="text-white font-bold text-sm">CA</span>
+            </div>
+            <h1 className="text-xl font-bold">
+              <span className="text-violet-600">Card</span>
+              <span className="text-pink-500">All</span>
+            </h1>
+            <Badge variant="secondary" className="ml-2">
+              <Eye className="h-3 w-3 mr-1" />
+              Shared card
+            </Badge>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => cardShareService.close()}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            My Cards
+          </Button>
+        </div>
+      </header>
+
+      <main className="container max-w-xl px-4 py-10">
+        {card ? (
+          <div className="space-y-6">
+            <FlipCard
+              card={card}
+              readOnly
+              size="lg"
+              onFlip={() => {}}
+              onUpdate={() => {}}
+              onCopy={handleCopy}
+              onScreenshot={handleUnavailable}
+              onShare={handleCopyLink}
+              onDelete={() => {}}
+            />
+
+            <div className="flex flex-col items-center gap-3 text-center">
+              <Button onClick={() => cardShareService.requestImport()}>
+                <Download className="h-4 w-4 mr-2" />
+                Import to my cards
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Use the cat button on the card to see its back.
+                {sharedAt && !isNaN(sharedAt.getTime()) && ` Shared ${sharedAt.toLocaleDateString()}.`}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-16 space-y-4">
+            <AlertTriangle className="h-12 w-12 text-amber-500 mx-auto" />
+            <div>
+              <h2 className="text-xl font-semibold">Can't open this card</h2>
+              <p className="text-sm text-muted-foreground mt-1">{state.error}</p>
+            </div>
+            <Button onClick={() => cardShareService.close()}>Go to My Cards</Button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card as CardType } from '@/types/card'
+import { REVIEW_GRADES, ReviewGrade, ReviewState } from '@/types/study'
+import { EnhancedFlipCard } from '@/components/card/enhanced-flip-card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { X, GraduationCap, RotateCcw, CheckCircle2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  createInitialReviewState,
+  formatInterval,
+  previewIntervals
+} from '@/services/study/spaced-repetition'
+
+interface ReviewSessionProps {
+  title: string
+  queue: CardType[]
+  getReviewState: (cardId: string) => ReviewState | undefined
+  onGrade: (cardId: string, grade: ReviewGrade, durationMs: number) => Promise<unknown>
+  onCardUpdate: (cardId: string, updates: Partial<CardType>) => void
+  onCardCopy: (cardId: string) => void
+  onCardScreenshot: (cardId: string) => void
+  onCardShare: (cardId: string) => void
+  onCardDelete: (cardId: string) => void
+  onExit: () => void
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+}
+
+const GRADE_CLASSES: Record<ReviewGrade, string> = {
+  again: 'border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-950',
+  hard: 'border-orange-300 text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-950',
+  good: 'border-green-300 text-green-600 hover:bg-green-50 dark:hover:bg-green-950',
+  easy: 'border-blue-300 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950'
+}
+
+/**
+ * 复习会话
+ * 依次展示到期卡片，翻到背面后可以按 Again/Hard/Good/Easy 评分（快捷键 1-4）
+ * 评为 Again 的卡片会在本次会话末尾再次出现
+ */
+export function ReviewSession({
+  title,
+  queue: initialQueue,
+  getReviewState,
+  onGrade,
+  onCardUpdate,
+  onCardCopy,
+  onCardScreenshot,
+  onCardShare,
+  onCardDelete,
+  onExit
+}: ReviewSessionProps) {
+  // 会话开始时固定队列，避免评分后到期列表变化导致跳卡
+  const [queue, setQueue] = useState<CardType[]>(initialQueue)
+  const [position, setPosition] = useState(0)
+  const [isRevealed, setIsRevealed] = useState(false)
+  const [isGrading, setIsGrading] = useState(false)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const shownAtRef = useRef(Date.now())
+
+  const currentCard = queue[position]
+  const isFinished = !currentCard
+  const uniqueTotal = new Set(queue.map(card => card.id)).size
+
+  useEffect(() => {
+    setIsRevealed(false)
+    shownAtRef.current = Date.now()
+  }, [position])
+
+  const handleFlip = useCallback(() => {
+    setIsRevealed(true)
+  }, [])
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!currentCard || isGrading) return
+
+    setIsGrading(true)
+    try {
+      await onGrade(currentCard.id, grade, Date.now() - shownAtRef.current)
+      setReviewedCount(count => count + 1)
+
+      // 遗忘的卡片在会话末尾重新学习
+      if (grade === 'again') {
+        setQueue(prev => [...prev, currentCard])
+      }
+      setPosition(prev => prev + 1)
+    } catch (error) {
+      console.error('Failed to record review:', error)
+    } finally {
+      setIsGrading(false)
+    }
+  }, [currentCard, isGrading, onGrade])
+
+  const handleCardDelete = useCallback((cardId: string) => {
+    onCardDelete(cardId)
+    // 从剩余队列中移除已删除的卡片
+    setQueue(prev => prev.filter((card, index) => index < position || card.id !== cardId))
+  }, [onCardDelete, position])
+
+  // 快捷键：1-4 评分，Esc 退出
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName)) return
+
+      if (e.key === 'Escape') {
+        onExit()
+        return
+      }
+
+      if (!isRevealed) return
+      const index = ['1', '2', '3', '4'].indexOf(e.key)
+      if (index > -1) {
+        e.preventDefault()
+        handleGrade(REVIEW_GRADES[index])
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isRevealed, handleGrade, onExit])
+
+  const intervals = currentCard
+    ? previewIntervals(getReviewState(currentCard.id) || createInitialReviewState(currentCard.id))
+    : null
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="h-5 w-5 text-primary" />
+          <h2 className="text-lg font-semibold">{title}</h2>
+          <Badge variant="secondary">
+            {Math.min(position, queue.length)} / {queue.length}
+          </Badge>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onExit}>
+          <X className="h-4 w-4 mr-1" />
+          End Session
+        </Button>
+      </div>
+
+      <Progress value={queue.length > 0 ? (position / queue.length) * 100 : 100} className="h-2" />
+
+      {isFinished ? (
+        <div className="text-center py-16 space-y-4">
+          <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+          <div>
+            <h3 className="text-xl font-semibold">Session complete</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {reviewedCount > 0
+                ? `You reviewed ${reviewedCount} times across ${uniqueTotal} cards.`
+                : 'No cards are due right now.'}
+            </p>
+          </div>
+          <Button onClick={onExit}>Back to Cards</Button>
+        </div>
+      ) : (
+        <>
+          <EnhancedFlipCard
+            key={`${currentCard.id}-${position}`}
+            card={currentCard}
+            onFlip={handleFlip}
+            onUpdate={onCardUpdate}
+            onCopy={onCardCopy}
+            onScreenshot={onCardScreenshot}
+            onShare={onCardShare}
+            onDelete={handleCardDelete}
+            size="lg"
+          />
+
+          {isRevealed ? (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map((grade, index) => (
+                <Button
+                  key={grade}
+                  variant="outline"
+                  disabled={isGrading}
+                  onClick={() => handleGrade(grade)}
+                  className={cn('flex flex-col h-auto py-2', GRADE_CLASSES[grade])}
+                >
+                  <span className="font-medium">{GRADE_LABELS[grade]}</span>
+                  <span className="text-xs opacity-70">
+                    {intervals ? formatInterval(intervals[grade]) : ''} · {index + 1}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <RotateCcw className="h-4 w-4" />
+              <span>Flip the card to reveal the answer, then grade your recall.</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { Tag as TagType } from '../../types/card'
 import { TagGrid } from './tag-grid'
 import { TagSearch } from './tag-search'
 import { useCardAllTags } from '../../contexts/cardall-context'
+import { compareManualOrder } from '../../services/ordering/manual-order'
 
 interface TagPanelProps {
   isOpen: boolean
@@ -37,8 +38,8 @@ export const TagPanel: React.FC<TagPanelProps> = ({
       const searchResults = searchTags(searchQuery)
       setDisplayedTags(searchResults)
     } else {
-      // Show all tags sorted by usage frequency, filter out deleted tags
-      const sortedTags = [...tags].sort((a, b) => b.count - a.count)
+      // Show all tags in their manual order, then by usage frequency
+      const sortedTags = [...tags].sort((a, b) => compareManualOrder(a, b) || b.count - a.count)
       setDisplayedTags(sortedTags)
     }
   }, [searchQuery, tags, searchTags])
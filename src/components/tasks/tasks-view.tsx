@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { CheckCircle2, ListChecks, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Card as CardType, Folder } from '@/types/card'
+import { TaskEntry, TaskGrouping } from '@/types/tasks'
+import { useTasks } from '@/hooks/use-tasks'
+import { updateCardTodo } from '@/services/tasks/task-aggregation'
+import { TodoMeta } from './todo-list'
+import { cn } from '@/lib/utils'
+
+interface TasksViewProps {
+  cards: CardType[]
+  folders: Folder[]
+  onCardUpdate: (cardId: string, updates: Partial<CardType>) => void
+  onOpenCard: (card: CardType) => void
+  onExit: () => void
+}
+
+const GROUPING_LABELS: Record<TaskGrouping, string> = {
+  due: 'Due date',
+  folder: 'Folder',
+  tag: 'Tag'
+}
+
+/**
+ * 任务视图
+ * 汇总所有卡片中的待办，按截止日期、文件夹或标签分组，可直接勾选完成或打开所在卡片
+ */
+export function TasksView({ cards, folders, onCardUpdate, onOpenCard, onExit }: TasksViewProps) {
+  const [grouping, setGrouping] = useState<TaskGrouping>('due')
+  const [showCompleted, setShowCompleted] = useState(false)
+  const { groups, openCount, completedCount, overdueCount } = useTasks(cards, folders, grouping, showCompleted)
+
+  const findCard = (cardId: string) => cards.find(card => card.id === cardId)
+
+  const toggleTask = (task: TaskEntry, completed: boolean) => {
+    const card = findCard(task.cardId)
+    if (card) {
+      onCardUpdate(card.id, updateCardTodo(card, task.side, task.todo.id, { completed }))
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-primary" />
+          <h2 className="text-lg font-semibold">Tasks</h2>
+          <Badge variant="secondary">{openCount} open</Badge>
+          {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onExit}>
+          <X className="h-4 w-4 mr-1" />
+          Back to Cards
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Tabs value={grouping} onValueChange={(value) => setGrouping(value as TaskGrouping)}>
+          <TabsList>
+            {(Object.keys(GROUPING_LABELS) as TaskGrouping[]).map(key => (
+              <TabsTrigger key={key} value={key}>{GROUPING_LABELS[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2">
+          <Switch id="tasks-show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} />
+          <Label htmlFor="tasks-show-completed" className="text-sm">
+            Show completed{completedCount > 0 ? ` (${completedCount})` : ''}
+          </Label>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-16 space-y-3">
+          <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+          <div>
+            <h3 className="text-xl font-semibold">Nothing to do</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Add tasks to a card from its menu or in the card details.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <section key={group.key} className="space-y-2">
+              <h3 className={cn(
+                'flex items-center gap-2 text-sm font-semibold',
+                group.key === 'overdue' && 'text-red-500'
+              )}>
+                {group.label}
+                <span className="text-xs font-normal text-muted-foreground">{group.tasks.length}</span>
+              </h3>
+              <ul className="divide-y rounded-lg border">
+                {group.tasks.map(task => (
+                  <li key={`${task.cardId}-${task.todo.id}`} className="flex items-start gap-3 px-3 py-2">
+                    <Checkbox
+                      checked={task.todo.completed}
+                      onCheckedChange={(checked) => toggleTask(task, checked === true)}
+                      className="mt-0.5"
+                      aria-label={task.todo.completed ? 'Mark as not done' : 'Mark as done'}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className={cn('text-sm break-words', task.todo.completed && 'line-through text-muted-foreground')}>
+                        {task.todo.text}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 mt-0.5">
+                        <button
+                          type="button"
+                          className="truncate text-xs text-muted-foreground hover:text-foreground hover:underline"
+                          onClick={() => {
+                            const card = findCard(task.cardId)
+                            if (card) onOpenCard(card)
+                          }}
+                        >
+                          {task.cardTitle || 'Untitled Card'}
+                          {task.side === 'back' && ' (back)'}
+                        </button>
+                        <TodoMeta todo={task.todo} />
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react'
+import { AlarmClock, CalendarDays, Flag, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { TodoItem, TodoPriority } from '@/types/card'
+import { TODO_PRIORITIES } from '@/types/tasks'
+import { applyTodoUpdates, getDueBucket, toDate } from '@/services/tasks/task-aggregation'
+import { taskReminderService } from '@/services/tasks/task-reminder-service'
+import { cn } from '@/lib/utils'
+
+interface TodoListProps {
+  todos: TodoItem[]
+  // 未提供时只读
+  onChange?: (todos: TodoItem[]) => void
+  // compact 用于卡片正面，只能勾选、添加和删除；full 可以设置截止日期、优先级和提醒
+  variant?: 'compact' | 'full'
+  // compact 时是否显示添加输入框，未提供时由组件自己管理
+  isAdding?: boolean
+  onAddingChange?: (isAdding: boolean) => void
+  className?: string
+}
+
+const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+}
+
+const PRIORITY_CLASSES: Record<TodoPriority, string> = {
+  high: 'text-red-500',
+  medium: 'text-amber-500',
+  low: 'text-sky-500'
+}
+
+const NO_PRIORITY = 'none'
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+// <input type="date"> 使用本地日期
+function toDateInputValue(value?: Date): string {
+  const date = toDate(value)
+  return date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : ''
+}
+
+function toDateTimeInputValue(value?: Date): string {
+  const date = toDate(value)
+  return date ? `${toDateInputValue(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}` : ''
+}
+
+function fromDateInputValue(value: string): Date | undefined {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+function fromDateTimeInputValue(value: string): Date | undefined {
+  const date = value ? new Date(value) : undefined
+  return date && !isNaN(date.getTime()) ? date : undefined
+}
+
+/**
+ * 截止日期、优先级和提醒的简要标记，任务视图中复用
+ */
+export function TodoMeta({ todo, className }: { todo: TodoItem; className?: string }) {
+  const due = toDate(todo.dueDate)
+  const reminder = toDate(todo.reminderAt)
+  const bucket = getDueBucket(due)
+  if (!due && !todo.priority && !reminder) return null
+
+  return (
+    <span className={cn('inline-flex items-center gap-2 text-xs text-muted-foreground', className)}>
+      {due && (
+        <span
+          className={cn(
+            'inline-flex items-center gap-0.5',
+            !todo.completed && bucket === 'overdue' && 'text-red-500',
+            !todo.completed && bucket === 'today' && 'text-amber-600'
+          )}
+          title={`Due ${due.toLocaleDateString()}`}
+        >
+          <CalendarDays className="h-3 w-3" />
+          {bucket === 'today' ? 'Today' : bucket === 'tomorrow' ? 'Tomorrow' : due.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </span>
+      )}
+      {todo.priority && (
+        <span className={cn('inline-flex items-center', PRIORITY_CLASSES[todo.priority])} title={`${PRIORITY_LABELS[todo.priority]} priority`}>
+          <Flag className="h-3 w-3" />
+        </span>
+      )}
+      {reminder && !todo.completed && (
+        <span className="inline-flex items-center" title={`Reminder ${reminder.toLocaleString()}`}>
+          <AlarmClock className="h-3 w-3" />
+        </span>
+      )}
+    </span>
+  )
+}
+
+/**
+ * 卡片待办清单
+ */
+export function TodoList({ todos, onChange, variant = 'compact', isAdding, onAddingChange, className }: TodoListProps) {
+  const [newTodoText, setNewTodoText] = useState('')
+  const [localAdding, setLocalAdding] = useState(false)
+  const readOnly = !onChange
+  const showInput = variant === 'full' || (isAdding ?? localAdding)
+
+  const setAdding = (value: boolean) => {
+    setLocalAdding(value)
+    onAddingChange?.(value)
+  }
+
+  const updateTodo = (id: string, updates: Partial<TodoItem>) => {
+    onChange?.(todos.map(todo => (todo.id === id ? applyTodoUpdates(todo, updates) : todo)))
+  }
+
+  const removeTodo = (id: string) => {
+    onChange?.(todos.filter(todo => todo.id !== id))
+  }
+
+  const addTodo = () => {
+    const text = newTodoText.trim()
+    if (!text) return
+    onChange?.([...todos, { id: crypto.randomUUID(), text, completed: false }])
+    setNewTodoText('')
+  }
+
+  const setReminder = (id: string, value: string) => {
+    const reminderAt = fromDateTimeInputValue(value)
+    if (reminderAt) {
+      taskReminderService.requestPermission()
+    }
+    updateTodo(id, { reminderAt })
+  }
+
+  if (todos.length === 0 && readOnly) return null
+
+  return (
+    <div
+      className={cn('space-y-1', className)}
+      // 避免触发卡片的双击编辑
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {todos.map(todo => (
+        <div key={todo.id} className={cn('group/todo', variant === 'full' && 'rounded-md border p-2 space-y-2')}>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              checked={todo.completed}
+              disabled={readOnly}
+              onCheckedChange={(checked) => updateTodo(todo.id, { completed: checked === true })}
+              className="mt-0.5"
+              aria-label={todo.completed ? 'Mark as not done' : 'Mark as done'}
+            />
+            {variant === 'full' && !readOnly ? (
+              <Input
+                defaultValue={todo.text}
+                className="h-7 text-sm flex-1"
+                onBlur={(e) => {
+                  const text = e.target.value.trim()
+                  if (text && text !== todo.text) updateTodo(todo.id, { text })
+                  else e.target.value = todo.text
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur()
+                }}
+              />
+            ) : (
+              <span className={cn('flex-1 text-sm break-words', todo.completed && 'line-through text-muted-foreground')}>
+                {todo.text}
+              </span>
+            )}
+            {variant === 'compact' && <TodoMeta todo={todo} className="mt-0.5" />}
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn('h-6 w-6 p-0 shrink-0', variant === 'compact' && 'opacity-0 group-hover/todo:opacity-100')}
+                onClick={() => removeTodo(todo.id)}
+                title="Delete task"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+
+          {variant === 'full' && !readOnly && (
+            <div className="flex flex-wrap items-center gap-2 pl-6 text-xs">
+              <label className="flex items-center gap-1 text-muted-foreground">
+                <CalendarDays className="h-3 w-3" />
+                <input
+                  type="date"
+                  className="rounded border bg-background px-1 py-0.5"
+                  value={toDateInputValue(todo.dueDate)}
+                  onChange={(e) => updateTodo(todo.id, { dueDate: fromDateInputValue(e.target.value) })}
+                  aria-label="Due date"
+                />
+              </label>
+              <Select
+                value={todo.priority ?? NO_PRIORITY}
+                onValueChange={(value) => updateTodo(todo.id, { priority: value === NO_PRIORITY ? undefined : value as TodoPriority })}
+              >
+                <SelectTrigger className="h-7 w-28 text-xs" aria-label="Priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRIORITY}>No priority</SelectItem>
+                  {TODO_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>
+                      <span className={PRIORITY_CLASSES[priority]}>{PRIORITY_LABELS[priority]}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-1 text-muted-foreground">
+                <AlarmClock className="h-3 w-3" />
+                <input
+                  type="datetime-local"
+                  className="rounded border bg-background px-1 py-0.5"
+                  value={toDateTimeInputValue(todo.reminderAt)}
+                  onChange={(e) => setReminder(todo.id, e.target.value)}
+                  aria-label="Reminder"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {!readOnly && (showInput ? (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newTodoText}
+            onChange={(e) => setNewTodoText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addTodo()
+              if (e.key === 'Escape' && variant === 'compact') {
+                setNewTodoText('')
+                setAdding(false)
+              }
+            }}
+            onBlur={() => {
+              if (variant === 'compact' && !newTodoText.trim()) setAdding(false)
+            }}
+            placeholder="Add a task..."
+            className="h-7 text-sm"
+            autoFocus={variant === 'compact'}
+          />
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={addTodo} disabled={!newTodoText.trim()}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : todos.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1 text-xs text-muted-foreground"
+          onClick={() => setAdding(true)}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add task
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -1,3 +1,5 @@
+import type { SyncConnectionConfig } from '@/types/sync';
+
 /**
  * 应用配置文件
  *
@@ -14,6 +16,8 @@ export interface AppConfigType {
   version: string;
   /** 应用名称 */
   appName: string;
+  /** 同步服务器，地址为空时不同步 */
+  sync: SyncConnectionConfig;
 }
 
 /**
@@ -32,6 +36,12 @@ export const AppConfig: AppConfigType = {
   // 应用信息
   version: import.meta.env.VITE_APP_VERSION || '5.6.5',
   appName: import.meta.env.VITE_APP_NAME || 'CardAll',
+
+  // 同步服务器：VITE_SYNC_SERVER_URL、VITE_SYNC_TOKEN
+  sync: {
+    serverUrl: import.meta.env.VITE_SYNC_SERVER_URL || '',
+    token: import.meta.env.VITE_SYNC_TOKEN || undefined,
+  },
 };
 
 /**
@@ -46,6 +56,10 @@ export function validateAppConfig(config: Partial<AppConfigType>): AppConfigType
       : 'indexeddb',
     version: config.version || '5.6.5',
     appName: config.appName || 'CardAll',
+    sync: {
+      serverUrl: config.sync?.serverUrl || '',
+      token: config.sync?.token || undefined,
+    },
   };
 }
 
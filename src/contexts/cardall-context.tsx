@@ -2,7 +2,12 @@ import React, { createContext, useContext, ReactNode } from 'react'
 import { useCardsAdapter } from '@/hooks/use-cards-adapter'
 import { useFolders } from '@/hooks/use-folders'
 import { useTags } from '@/hooks/use-tags'
+import { useUndoRedo } from '@/hooks/use-undo-redo'
+import { useSyncEngine } from '@/hooks/use-sync-engine'
 import { AppConfig } from '@/config/app-config'
+import { SyncConnectionConfig } from '@/types/sync'
+
+type UndoableState = ReturnType<typeof useUndoRedo>
 
 /**
  * 卡片应用的全局上下文类型
@@ -10,11 +15,15 @@ import { AppConfig } from '@/config/app-config'
  */
 interface CardAllContextType {
   /** 卡片相关功能和状态 */
-  cards: ReturnType<typeof useCardsAdapter>
+  cards: UndoableState['cards']
   /** 文件夹相关功能和状态 */
-  folders: ReturnType<typeof useFolders>
+  folders: UndoableState['folders']
   /** 标签相关功能和状态 */
-  tags: ReturnType<typeof useTags>
+  tags: UndoableState['tags']
+  /** 撤销/重做 */
+  undoRedo: UndoableState['undoRedo']
+  /** 多设备同步状态 */
+  sync: ReturnType<typeof useSyncEngine>
   /** 应用配置 */
   appConfig: typeof AppConfig
 }
@@ -31,11 +40,13 @@ const CardAllContext = createContext<CardAllContextType | null>(null)
 interface CardAllProviderProps {
   /** 子组件 */
   children: ReactNode
+  /** 同步服务器配置，默认取自应用配置（环境变量） */
+  syncConfig?: SyncConnectionConfig
 }
 
 /**
  * 卡片应用的全局状态提供者
- * 整合卡片、文件夹和标签的状态管理
+ * 整合卡片、文件夹和标签的状态管理，所有修改都经过撤销/重做层
  * 
  * @example
  * ```tsx
@@ -44,10 +55,14 @@ interface CardAllProviderProps {
  * </CardAllProvider>
  * ```
  */
-export function CardAllProvider({ children }: CardAllProviderProps) {
-  const cards = useCardsAdapter()
-  const folders = useFolders()
-  const tags = useTags()
+export function CardAllProvider({ children, syncConfig = AppConfig.sync }: CardAllProviderProps) {
+  const cardsState = useCardsAdapter()
+  const foldersState = useFolders()
+  const tagsState = useTags()
+  const { cards, folders, tags, undoRedo } = useUndoRedo(cardsState, foldersState, tagsState)
+  // 经过撤销层的本地修改写入同步队列，由同步引擎推送到服务器；
+  // 拉取到的其他设备的修改直接写入未包装的状态，不进入撤销历史
+  const sync = useSyncEngine(syncConfig, { cards: cardsState, folders: foldersState, tags: tagsState })
 
   // 优化标签同步，使用useMemo减少计算
   const allCardTags = React.useMemo(() => {
@@ -71,6 +86,8 @@ export function CardAllProvider({ children }: CardAllProviderProps) {
     cards,
     folders,
     tags,
+    undoRedo,
+    sync,
     appConfig: AppConfig
   }
 
@@ -100,4 +117,12 @@ export function useCardAllFolders() {
 
 export function useCardAllTags() {
   return useCardAll().tags
+}
+
+export function useCardAllUndoRedo() {
+  return useCardAll().undoRedo
+}
+
+export function useCardAllSync() {
+  return useCardAll().sync
 }
\ No newline at end of file
@@ -5,6 +5,12 @@ export function useAccessibilityLogic() {
   const [settings, setSettings] = useState<AccessibilitySettings>(defaultSettings)
   const [isInitialized, setIsInitialized] = useState(false)
   const announcementsRef = useRef<HTMLDivElement>(null)
+  // 最新的设置，供回调在更新前比较，避免在 setSettings 的更新函数中产生副作用
+  const settingsRef = useRef(settings)
+
+  useEffect(() => {
+    settingsRef.current = settings
+  }, [settings])
   
   useEffect(() => {
     try {
@@ -90,18 +96,40 @@ export function useAccessibilityLogic() {
     }
   }, [settings, isInitialized])
 
+  const announce = useCallback((message: string) => {
+    if (!settings.announcements) return
+
+    if (!announcementsRef.current) {
+      announcementsRef.current = document.createElement('div')
+      announcementsRef.current.setAttribute('aria-live', 'polite')
+      announcementsRef.current.setAttribute('aria-atomic', 'true')
+      announcementsRef.current.className = 'sr-only'
+      document.body.appendChild(announcementsRef.current)
+    }
+
+    const announcement = document.createElement('div')
+    announcement.textContent = message
+    announcementsRef.current.appendChild(announcement)
+
+    setTimeout(() => {
+      if (announcementsRef.current?.contains(announcement)) {
+        announcementsRef.current.removeChild(announcement)
+      }
+    }, 1000)
+  }, [settings.announcements])
+
   const updateSetting = useCallback((key: keyof AccessibilitySettings, value: boolean) => {
+    // 鼠标移动时会反复设置 keyboardOnly，值不变时不更新也不播报
+    if (settingsRef.current[key] === value) return
+    // 重新渲染前连续调用时也按新值比较
+    settingsRef.current = { ...settingsRef.current, [key]: value }
     setSettings(prev => ({ ...prev, [key]: value }))
     announce(`Accessibility setting ${key} ${value ? 'enabled' : 'disabled'}`)
-  }, [])
+  }, [announce])
 
   const toggleSetting = useCallback((key: keyof AccessibilitySettings) => {
-    setSettings(prev => {
-      const newValue = !prev[key]
-      announce(`Accessibility setting ${key} ${newValue ? 'enabled' : 'disabled'}`)
-      return { ...prev, [key]: newValue }
-    })
-  }, [])
+    updateSetting(key, !settingsRef.current[key])
+  }, [updateSetting])
 
   const resetSettings = useCallback(() => {
     setSettings(defaultSettings)
@@ -173,28 +201,6 @@ export function useAccessibilityLogic() {
     }
   }, [updateSetting])
 
-  const announce = useCallback((message: string) => {
-    if (!settings.announcements) return
-
-    if (!announcementsRef.current) {
-      announcementsRef.current = document.createElement('div')
-      announcementsRef.current.setAttribute('aria-live', 'polite')
-      announcementsRef.current.setAttribute('aria-atomic', 'true')
-      announcementsRef.current.className = 'sr-only'
-      document.body.appendChild(announcementsRef.current)
-    }
-
-    const announcement = document.createElement('div')
-    announcement.textContent = message
-    announcementsRef.current.appendChild(announcement)
-
-    setTimeout(() => {
-      if (announcementsRef.current?.contains(announcement)) {
-        announcementsRef.current.removeChild(announcement)
-      }
-    }, 1000)
-  }, [settings.announcements])
-
   return {
     settings,
     updateSetting,
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react'
+import { BackupTargetConfig } from '@/types/backup-target'
+import { remoteBackupService } from '@/services/core/backup/remote-backup.service'
+
+/**
+ * 远程备份目标配置
+ */
+export function useBackupTargets(): BackupTargetConfig[] {
+  const [targets, setTargets] = useState<BackupTargetConfig[]>(() => remoteBackupService.getTargets())
+
+  useEffect(() => remoteBackupService.onChange(setTargets), [])
+
+  return targets
+}
@@ -0,0 +1,89 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  BatchScreenshotOptions,
+  BatchScreenshotProgress,
+  BatchScreenshotResult
+} from '@/types/screenshot'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { batchScreenshotService } from '@/services/screenshot/batch-screenshot-service'
+import { renderCardSnapshot } from '@/components/screenshot/card-snapshot'
+import { captureElementAsBlob, downloadBlob } from '@/utils/screenshot-utils'
+
+const DEFAULT_SNAPSHOT_WIDTH = 400
+
+/**
+ * 批量截图Hook
+ *
+ * 逐张在屏幕外渲染卡片并截图，结果打包为 ZIP，确认后下载
+ */
+export function useBatchScreenshot() {
+  const { allCards } = useCardAllCards()
+  const { folders } = useCardAllFolders()
+
+  const [progress, setProgress] = useState<BatchScreenshotProgress | null>(null)
+  const [result, setResult] = useState<BatchScreenshotResult | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // 卸载时取消未完成的导出
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  const start = useCallback(async (options: BatchScreenshotOptions): Promise<BatchScreenshotResult | null> => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setResult(null)
+    setProgress({ processed: 0, total: 0 })
+
+    try {
+      const exported = await batchScreenshotService.exportCards(allCards, folders, options, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        capture: async (card, side) => {
+          const snapshot = await renderCardSnapshot(card, side, options.width ?? DEFAULT_SNAPSHOT_WIDTH)
+          try {
+            return await captureElementAsBlob(snapshot.element, {
+              format: options.format,
+              quality: options.format === 'png' ? 1.0 : options.quality ?? 0.92,
+              pixelRatio: options.pixelRatio ?? 2,
+              // JPEG 不支持透明，圆角外铺白色
+              backgroundColor: options.format === 'jpeg' ? '#ffffff' : 'transparent'
+            })
+          } finally {
+            snapshot.dispose()
+          }
+        }
+      })
+      setResult(exported)
+      return exported
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      throw error
+    } finally {
+      controllerRef.current = null
+      setProgress(null)
+    }
+  }, [allCards, folders])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const download = useCallback(() => {
+    if (result) downloadBlob(result.blob, result.fileName, 'zip')
+  }, [result])
+
+  const reset = useCallback(() => {
+    setResult(null)
+  }, [])
+
+  return {
+    start,
+    cancel,
+    download,
+    reset,
+    progress,
+    result,
+    isExporting: progress !== null
+  }
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { CanvasBoard } from '@/types/canvas'
+import { canvasBoardService } from '@/services/canvas/canvas-board-service'
+
+// 拖动和平移时频繁变化，延迟合并保存
+const SAVE_DELAY_MS = 400
+
+/**
+ * 读取并修改一个文件夹的画布，修改立即生效、延迟保存
+ */
+export function useCanvasBoard(boardId: string) {
+  const [board, setBoard] = useState<CanvasBoard | null>(null)
+  const boardRef = useRef<CanvasBoard | null>(null)
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const flush = useCallback(() => {
+    if (!saveTimerRef.current) return
+    clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = null
+    if (boardRef.current) {
+      canvasBoardService.saveBoard(boardRef.current).catch(error => {
+        console.error('Failed to save canvas board:', error)
+      })
+    }
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    boardRef.current = null
+    setBoard(null)
+
+    canvasBoardService.getBoard(boardId)
+      .then(loaded => {
+        if (cancelled) return
+        boardRef.current = loaded
+        setBoard(loaded)
+      })
+      .catch(error => console.error('Failed to load canvas board:', error))
+
+    // 卡片删除等外部修改，本地有未保存的修改时以本地为准
+    const unsubscribe = canvasBoardService.onChange(changed => {
+      if (changed.id !== boardId || saveTimerRef.current || changed === boardRef.current) return
+      boardRef.current = changed
+      setBoard(changed)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      flush()
+    }
+  }, [boardId, flush])
+
+  const updateBoard = useCallback((update: (board: CanvasBoard) => CanvasBoard) => {
+    const current = boardRef.current
+    if (!current) return
+
+    const next = { ...update(current), updatedAt: new Date() }
+    boardRef.current = next
+    setBoard(next)
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null
+      canvasBoardService.saveBoard(next).catch(error => {
+        console.error('Failed to save canvas board:', error)
+      })
+    }, SAVE_DELAY_MS)
+  }, [])
+
+  return { board, updateBoard }
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react'
+import { CaptureDraft } from '@/types/capture'
+import { captureService } from '@/services/capture/capture-service'
+
+/**
+ * 分享或打开到应用的内容，生成草稿后交给卡片创建表单
+ */
+export function useCapture() {
+  const [draft, setDraft] = useState<CaptureDraft | null>(null)
+  const [isPreparing, setIsPreparing] = useState(false)
+
+  useEffect(() => {
+    let current = 0
+
+    const prepare = (payload = captureService.getPending()) => {
+      const token = ++current
+      setDraft(null)
+      if (!payload) {
+        setIsPreparing(false)
+        return
+      }
+
+      setIsPreparing(true)
+      captureService.createDraft(payload)
+        .then(result => {
+          if (token === current) setDraft(result)
+        })
+        .catch(error => {
+          console.error('Failed to prepare captured content:', error)
+          if (token === current) captureService.dismiss()
+        })
+        .finally(() => {
+          if (token === current) setIsPreparing(false)
+        })
+    }
+
+    prepare()
+    const unsubscribe = captureService.onChange(prepare)
+    captureService.start()
+
+    return () => {
+      current++
+      unsubscribe()
+    }
+  }, [])
+
+  const dismiss = useCallback(() => captureService.dismiss(), [])
+
+  return { draft, isPreparing, dismiss }
+}
@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { Card } from '@/types/card'
+import { CardRevision, CardSnapshot } from '@/types/history'
+import { cardHistoryService } from '@/services/history/card-history-service'
+
+/**
+ * 卡片版本历史Hook
+ *
+ * 加载单张卡片的修订时间线及对应快照，历史变化时自动刷新
+ */
+export function useCardHistory(cardId: string | null) {
+  const [revisions, setRevisions] = useState<CardRevision[]>([])
+  const [snapshots, setSnapshots] = useState<Map<string, CardSnapshot>>(new Map())
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadHistory = useCallback(async () => {
+    if (!cardId) {
+      setRevisions([])
+      setSnapshots(new Map())
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const loaded = await cardHistoryService.getRevisions(cardId)
+      setSnapshots(await cardHistoryService.getSnapshots(loaded.map(revision => revision.hash)))
+      setRevisions(loaded)
+    } catch (error) {
+      console.error('Failed to load card history:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [cardId])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  useEffect(() => {
+    return cardHistoryService.onChange(changedId => {
+      if (changedId === cardId) {
+        loadHistory()
+      }
+    })
+  }, [cardId, loadHistory])
+
+  // 返回恢复后的卡片内容，由调用方写回卡片
+  const restore = useCallback((revision: CardRevision) => {
+    if (!cardId) {
+      throw new Error('No card selected')
+    }
+    return cardHistoryService.restore(cardId, revision)
+  }, [cardId])
+
+  return {
+    revisions,
+    snapshots,
+    isLoading,
+    restore,
+    reloadHistory: loadHistory
+  }
+}
+
+/**
+ * 监听卡片列表变化并记录修订
+ *
+ * 通过 updatedAt 判断卡片是否被修改，与存储方式无关；内容未变（如仅翻转）的修改由服务按哈希跳过。
+ * 首次加载和新增的卡片不记录，卡片第一次被修改时会连同修改前的状态一起记录。
+ */
+export function useCardHistoryRecorder(cards: Card[]) {
+  const previousCards = useRef<Map<string, Card> | null>(null)
+
+  useEffect(() => {
+    const previous = previousCards.current
+    previousCards.current = new Map(cards.map(card => [card.id, card]))
+    if (!previous) return
+
+    for (const card of cards) {
+      const before = previous.get(card.id)
+      if (!before || new Date(before.updatedAt).getTime() === new Date(card.updatedAt).getTime()) {
+        continue
+      }
+      // 锁定的卡片只有占位内容，不记录修订
+      if (card.lock || before.lock) continue
+      cardHistoryService.recordChange(before, card).catch(error => {
+        console.warn('Failed to record card revision:', error)
+      })
+    }
+  }, [cards])
+}
@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  DuplicateStrategy,
+  ImportJobProgress,
+  ImportPlan,
+  ImportPreview,
+  InterchangeExportOptions,
+  InterchangeExportResult
+} from '@/types/interchange'
+import { useCardAllCards, useCardAllFolders, useCardAllUndoRedo } from '@/contexts/cardall-context'
+import { ImportJob, interchangeService } from '@/services/interchange/interchange-service'
+import { downloadFile } from '@/utils/download-utils'
+
+interface ExportProgress {
+  processed: number
+  total: number
+}
+
+/**
+ * 卡片导入导出Hook
+ *
+ * 导出时生成文件并触发下载；导入时先解析出预览，确认后批量写入卡片和文件夹
+ */
+export function useCardInterchange() {
+  const { allCards, dispatch: cardDispatch } = useCardAllCards()
+  const { folders, dispatch: folderDispatch } = useCardAllFolders()
+  const { group: undoGroup } = useCardAllUndoRedo()
+
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null)
+  const [importProgress, setImportProgress] = useState<ImportJobProgress | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const jobRef = useRef<ImportJob | null>(null)
+  const exportControllerRef = useRef<AbortController | null>(null)
+
+  // 卸载时取消未完成的任务
+  useEffect(() => {
+    return () => {
+      jobRef.current?.cancel()
+      exportControllerRef.current?.abort()
+    }
+  }, [])
+
+  const exportCards = useCallback(async (options: InterchangeExportOptions): Promise<InterchangeExportResult> => {
+    const controller = new AbortController()
+    exportControllerRef.current = controller
+    setExportProgress({ processed: 0, total: options.cardIds?.length ?? allCards.length })
+
+    try {
+      const result = await interchangeService.exportCards(allCards, folders, options, {
+        signal: controller.signal,
+        onProgress: (processed, total) => setExportProgress({ processed, total })
+      })
+      downloadFile(result.blob, result.fileName)
+      return result
+    } finally {
+      exportControllerRef.current = null
+      setExportProgress(null)
+    }
+  }, [allCards, folders])
+
+  const cancelExport = useCallback(() => {
+    exportControllerRef.current?.abort()
+  }, [])
+
+  const prepareImport = useCallback(async (files: File[]): Promise<ImportPreview | null> => {
+    jobRef.current?.cancel()
+
+    const job = interchangeService.createImportJob()
+    jobRef.current = job
+    setPreview(null)
+    job.subscribe(progress => {
+      setImportProgress(progress)
+      setPreview(job.getPreview())
+    })
+
+    try {
+      return await job.prepare(files, { cards: allCards, folders })
+    } catch (error) {
+      if (job.isCancelled) return null
+      throw error
+    }
+  }, [allCards, folders])
+
+  const setItemIncluded = useCallback((key: string, include: boolean) => {
+    jobRef.current?.setIncluded(key, include)
+  }, [])
+
+  /**
+   * 按所选策略写入导入结果，返回执行的计划
+   */
+  const commitImport = useCallback(async (strategy: DuplicateStrategy): Promise<ImportPlan | null> => {
+    const job = jobRef.current
+    if (!job) return null
+
+    const plan = job.buildPlan(strategy)
+    job.begin(plan.cards.length + plan.updates.length)
+
+    try {
+      // 整次导入作为一步撤销
+      await undoGroup(`Import ${plan.cards.length} cards`, async () => {
+        // 先建文件夹再写卡片，保证卡片引用的文件夹存在
+        if (plan.folders.length > 0) {
+          await folderDispatch({ type: 'IMPORT_FOLDERS', payload: plan.folders })
+        }
+        for (const { id, cardIds } of plan.folderUpdates) {
+          const folder = folders.find(item => item.id === id)
+          if (folder) {
+            await folderDispatch({
+              type: 'UPDATE_FOLDER',
+              payload: { id, updates: { cardIds: [...folder.cardIds, ...cardIds] } }
+            })
+          }
+        }
+        if (plan.cards.length > 0) {
+          await cardDispatch({ type: 'IMPORT_CARDS', payload: plan.cards })
+        }
+        for (const update of plan.updates) {
+          await cardDispatch({ type: 'UPDATE_CARD', payload: update })
+        }
+      })
+
+      job.complete(plan.cards.length + plan.updates.length)
+      return plan
+    } catch (error) {
+      job.fail(error)
+      throw error
+    }
+  }, [cardDispatch, folderDispatch, folders, undoGroup])
+
+  const cancelImport = useCallback(() => {
+    jobRef.current?.cancel()
+  }, [])
+
+  const resetImport = useCallback(() => {
+    jobRef.current?.cancel()
+    jobRef.current = null
+    setPreview(null)
+    setImportProgress(null)
+  }, [])
+
+  return {
+    exportCards,
+    cancelExport,
+    exportProgress,
+    isExporting: exportProgress !== null,
+    prepareImport,
+    setItemIncluded,
+    commitImport,
+    cancelImport,
+    resetImport,
+    importProgress,
+    preview
+  }
+}
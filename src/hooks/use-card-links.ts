@@ -0,0 +1,136 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { Card, CardAction } from '@/types/card'
+import { CardBacklink } from '@/types/card-links'
+import { cardLinkService, CardRename } from '@/services/links/card-link-service'
+import { findCardByTitle } from '@/services/links/wiki-links'
+
+/**
+ * 卡片反向链接Hook
+ *
+ * 加载链接到指定卡片的来源卡片，标题取自当前卡片列表，索引变化时自动刷新
+ */
+export function useCardBacklinks(cardId: string | null, cards: Card[]) {
+  const [backlinks, setBacklinks] = useState<CardBacklink[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadBacklinks = useCallback(async () => {
+    if (!cardId) {
+      setBacklinks([])
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const links = await cardLinkService.getBacklinks(cardId)
+      const grouped = new Map<string, CardBacklink>()
+      for (const link of links) {
+        const entry = grouped.get(link.sourceId)
+        if (entry) {
+          if (!entry.sides.includes(link.side)) entry.sides.push(link.side)
+          continue
+        }
+        const source = cards.find(card => card.id === link.sourceId)
+        if (!source) continue
+        grouped.set(link.sourceId, {
+          sourceId: link.sourceId,
+          sourceTitle: source.frontContent.title,
+          sides: [link.side]
+        })
+      }
+      setBacklinks(Array.from(grouped.values()).sort((a, b) => a.sourceTitle.localeCompare(b.sourceTitle)))
+    } catch (error) {
+      console.error('Failed to load backlinks:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [cardId, cards])
+
+  useEffect(() => {
+    loadBacklinks()
+  }, [loadBacklinks])
+
+  useEffect(() => {
+    return cardLinkService.onChange(() => {
+      loadBacklinks()
+    })
+  }, [loadBacklinks])
+
+  return {
+    backlinks,
+    isLoading,
+    reloadBacklinks: loadBacklinks
+  }
+}
+
+/**
+ * 监听卡片列表变化并维护链接索引
+ *
+ * 与修订记录一样通过 updatedAt 判断卡片是否被保存。首次加载时重建整个索引；
+ * 之后只重建修改过的卡片，标题变化时把其他卡片中指向它的链接改写为新标题。
+ */
+export function useCardLinkIndexer(cards: Card[], dispatch: (action: CardAction) => void) {
+  const previousCards = useRef<Map<string, Card> | null>(null)
+
+  useEffect(() => {
+    const previous = previousCards.current
+    const current = new Map(cards.map(card => [card.id, card]))
+    previousCards.current = current
+
+    if (!previous) {
+      cardLinkService.rebuild(cards).catch(error => {
+        console.warn('Failed to rebuild card links:', error)
+      })
+      return
+    }
+
+    const changedIds: string[] = []
+    const renames: CardRename[] = []
+    for (const card of cards) {
+      const before = previous.get(card.id)
+      if (before && new Date(before.updatedAt).getTime() === new Date(card.updatedAt).getTime()) {
+        continue
+      }
+      changedIds.push(card.id)
+      // 锁定的卡片只有占位标题，加锁/解锁不算改名
+      if (before && !before.lock && !card.lock && before.frontContent.title !== card.frontContent.title) {
+        renames.push({ cardId: card.id, from: before.frontContent.title, to: card.frontContent.title })
+      }
+    }
+    const removedIds = Array.from(previous.keys()).filter(id => !current.has(id))
+    if (changedIds.length === 0 && removedIds.length === 0) return
+
+    cardLinkService.update(cards, changedIds, removedIds, renames)
+      .then(rewrites => {
+        rewrites.forEach(({ cardId, updates }) => {
+          dispatch({ type: 'UPDATE_CARD', payload: { id: cardId, updates } })
+        })
+      })
+      .catch(error => {
+        console.warn('Failed to update card links:', error)
+      })
+  }, [cards, dispatch])
+}
+
+/**
+ * 处理卡片中 [[标题]] 链接的点击
+ */
+export function useCardLinkNavigation(
+  cards: Card[],
+  onOpen: (card: Card) => void,
+  onMissing: (title: string) => void
+) {
+  const handlers = useRef({ cards, onOpen, onMissing })
+  handlers.current = { cards, onOpen, onMissing }
+
+  useEffect(() => {
+    return cardLinkService.onOpen(title => {
+      const { cards, onOpen, onMissing } = handlers.current
+      const target = findCardByTitle(cards, title)
+      if (target) {
+        onOpen(target)
+      } else {
+        onMissing(title)
+      }
+    })
+  }, [])
+}
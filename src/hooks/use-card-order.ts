@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card } from '@/types/card'
+import { CardOrder } from '@/types/ordering'
+import { cardOrderService } from '@/services/ordering/card-order-service'
+import { reorderKeys, sortByOrderKeys } from '@/services/ordering/manual-order'
+
+interface MoveCardsOptions {
+  orderedIds: string[] // 当前显示顺序
+  movingIds: string[]
+  activeId: string
+  overId: string
+  // 从其他排序方式切换过来时按显示顺序重新生成所有键
+  reseed?: boolean
+}
+
+/**
+ * 读取并修改一个容器（文件夹或全部卡片）中卡片的手动顺序
+ */
+export function useCardOrder(containerId: string) {
+  const [order, setOrder] = useState<CardOrder | null>(null)
+  const orderRef = useRef<CardOrder | null>(null)
+  orderRef.current = order
+
+  useEffect(() => {
+    let cancelled = false
+    setOrder(null)
+
+    cardOrderService.getOrder(containerId)
+      .then(loaded => {
+        if (!cancelled) setOrder(loaded)
+      })
+      .catch(error => console.error('Failed to load card order:', error))
+
+    const unsubscribe = cardOrderService.onChange(changed => {
+      if (changed.id === containerId) setOrder(changed)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [containerId])
+
+  const sortCards = useCallback((cards: Card[]) => {
+    return sortByOrderKeys(cards, order?.keys ?? {})
+  }, [order])
+
+  /**
+   * 移动卡片并保存，返回顺序是否发生变化
+   */
+  const moveCards = useCallback(async ({ orderedIds, movingIds, activeId, overId, reseed = false }: MoveCardsOptions) => {
+    const keys = reseed ? {} : orderRef.current?.keys ?? {}
+    const updates = reorderKeys(orderedIds, keys, movingIds, activeId, overId)
+    if (Object.keys(updates).length === 0) return false
+
+    // 先在本地生效，避免松手后卡片跳回原位
+    setOrder(prev => ({
+      id: containerId,
+      keys: { ...prev?.keys, ...updates },
+      updatedAt: new Date()
+    }))
+    await cardOrderService.updateKeys(containerId, updates)
+    return true
+  }, [containerId])
+
+  return { order, sortCards, moveCards }
+}
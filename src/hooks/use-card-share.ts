@@ -0,0 +1,37 @@
+import { useState, useEffect, useRef } from 'react'
+import { Card } from '@/types/card'
+import { ShareViewerState } from '@/types/share'
+import { cardShareService } from '@/services/share/card-share-service'
+
+/**
+ * 分享链接或文件打开的只读查看页状态
+ */
+export function useSharedCardViewer(): ShareViewerState {
+  const [state, setState] = useState<ShareViewerState>(() => cardShareService.getState())
+
+  useEffect(() => {
+    const unsubscribe = cardShareService.onChange(setState)
+    cardShareService.start()
+    return unsubscribe
+  }, [])
+
+  return state
+}
+
+/**
+ * 接收查看页中确认导入的卡片
+ */
+export function useSharedCardImport(onImport: (card: Card) => void) {
+  const onImportRef = useRef(onImport)
+  onImportRef.current = onImport
+
+  useEffect(() => {
+    const consume = () => {
+      const card = cardShareService.takePendingImport()
+      if (card) onImportRef.current(card)
+    }
+
+    consume()
+    return cardShareService.onChange(consume)
+  }, [])
+}
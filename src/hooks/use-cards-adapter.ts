@@ -5,6 +5,7 @@ import { UniversalStorageAdapter } from '@/services/universal-storage-adapter'
 import { CardAllProviderAdapter } from '@/services/cardall-provider-adapter'
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
 import { AppConfig } from '@/config/app-config'
+import { vaultKeyring } from '@/services/security/vault-cipher'
 
 /**
  * Hook 适配器状态
@@ -254,6 +255,11 @@ export function useCardsAdapter() {
   }, [])
 
   const rollbackMigration = useCallback(async () => {
+    // 保险库不加密 localStorage，启用时不能把卡片移回去
+    if (vaultKeyring.isEnabled) {
+      console.warn('Rollback is unavailable while the vault is enabled')
+      return
+    }
     try {
       const migrationService = DataMigrationService.getInstance()
       const success = await migrationService.rollback()
@@ -1,5 +1,7 @@
 import { useState, useCallback, useEffect } from 'react'
 import { Card, CardAction, CardFilter, ViewSettings } from '@/types/card'
+import { cardSearchIndex } from '@/services/search/search-index'
+import { matchesCardFilter } from '@/services/search/search-query'
 import { db, DbCard } from '@/services/database'
 import { fileSystemService } from '@/services/file-system'
 
@@ -87,49 +89,28 @@ export function useCardsDb() {
 
   // 过滤和排序卡片
   const filteredCards = useCallback(() => {
-    const filtered = cards.filter(card => {
-      // 搜索词过滤
-      if (filter.searchTerm) {
-        const searchLower = filter.searchTerm.toLowerCase()
-        const matchesTitle = card.frontContent.title.toLowerCase().includes(searchLower) ||
-                           card.backContent.title.toLowerCase().includes(searchLower)
-        const matchesText = card.frontContent.text.toLowerCase().includes(searchLower) ||
-                          card.backContent.text.toLowerCase().includes(searchLower)
-        const matchesTags = [...card.frontContent.tags, ...card.backContent.tags]
-                          .some(tag => tag.toLowerCase().includes(searchLower))
-        
-        if (!matchesTitle && !matchesText && !matchesTags) return false
-      }
-
-      // 标签过滤
-      if (filter.tags.length > 0) {
-        const cardTags = [...card.frontContent.tags, ...card.backContent.tags]
-        if (!filter.tags.some(tag => cardTags.includes(tag))) return false
-      }
-
-      // 文件夹过滤
-      if (filter.folderId && card.folderId !== filter.folderId) return false
-
-      // 日期范围过滤
-      if (filter.dateRange) {
-        const cardDate = new Date(card.updatedAt)
-        if (cardDate < filter.dateRange.start || cardDate > filter.dateRange.end) return false
-      }
-
-      // 样式类型过滤
-      if (filter.styleType && card.style.type !== filter.styleType) return false
+    // 增量同步索引并获取命中卡片的相关度得分
+    let searchScores: Map<string, number> | null = null
+    if (filter.searchTerm.trim()) {
+      cardSearchIndex.sync(cards)
+      searchScores = cardSearchIndex.match(filter.searchTerm)
+    }
 
-      // 是否有图片过滤
-      if (filter.hasImages !== undefined) {
-        const hasImages = card.frontContent.images.length > 0 || card.backContent.images.length > 0
-        if (hasImages !== filter.hasImages) return false
-      }
+    const filtered = cards.filter(card => {
+      // 搜索词过滤 - 基于全文索引
+      if (searchScores && !searchScores.has(card.id)) return false
 
-      return true
+      // 其余过滤条件（标签、文件夹、日期、样式、图片、查询语言）
+      return matchesCardFilter(card, filter)
     })
 
     // 排序卡片
     filtered.sort((a, b) => {
+      // 有搜索词时按 BM25 相关度排序
+      if (searchScores) {
+        return (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0)
+      }
+
       let comparison = 0
       
       switch (viewSettings.sortBy) {
@@ -336,6 +317,20 @@ export function useCardsDb() {
           break
         }
 
+        case 'IMPORT_CARDS': {
+          // 导入的卡片已带有ID，批量写入
+          const newCards = action.payload.map(card => ({
+            ...card,
+            userId,
+            syncVersion: 1,
+            pendingSync: true
+          }))
+
+          await db.cards.bulkAdd(newCards)
+          await loadCards()
+          break
+        }
+
         default:
           console.warn('Unknown card action:', action)
       }
@@ -1,5 +1,7 @@
 import { useState, useCallback, useEffect } from 'react'
 import { Card, CardAction, CardFilter, ViewSettings } from '@/types/card'
+import { cardSearchIndex } from '@/services/search/search-index'
+import { matchesCardFilter } from '@/services/search/search-query'
 import { DataConverterAdapter } from '@/services/data-converter-adapter'
 import { UniversalStorageAdapter } from '@/services/universal-storage-adapter'
 
@@ -1253,49 +1255,28 @@ export function useCards() {
 
   // Filter and sort cards
   const filteredCards = useCallback(() => {
-    const filtered = cards.filter(card => {
-      // Search term filter
-      if (filter.searchTerm) {
-        const searchLower = filter.searchTerm.toLowerCase()
-        const matchesTitle = card.frontContent.title.toLowerCase().includes(searchLower) ||
-                           card.backContent.title.toLowerCase().includes(searchLower)
-        const matchesText = card.frontContent.text.toLowerCase().includes(searchLower) ||
-                          card.backContent.text.toLowerCase().includes(searchLower)
-        const matchesTags = [...card.frontContent.tags, ...card.backContent.tags]
-                          .some(tag => tag.toLowerCase().includes(searchLower))
-        
-        if (!matchesTitle && !matchesText && !matchesTags) return false
-      }
-
-      // Tags filter
-      if (filter.tags.length > 0) {
-        const cardTags = [...card.frontContent.tags, ...card.backContent.tags]
-        if (!filter.tags.some(tag => cardTags.includes(tag))) return false
-      }
-
-      // Folder filter
-      if (filter.folderId && card.folderId !== filter.folderId) return false
-
-      // Date range filter
-      if (filter.dateRange) {
-        const cardDate = new Date(card.updatedAt)
-        if (cardDate < filter.dateRange.start || cardDate > filter.dateRange.end) return false
-      }
-
-      // Style type filter
-      if (filter.styleType && card.style.type !== filter.styleType) return false
+    // Sync the index incrementally and score matching cards
+    let searchScores: Map<string, number> | null = null
+    if (filter.searchTerm.trim()) {
+      cardSearchIndex.sync(cards)
+      searchScores = cardSearchIndex.match(filter.searchTerm)
+    }
 
-      // Has images filter
-      if (filter.hasImages !== undefined) {
-        const hasImages = card.frontContent.images.length > 0 || card.backContent.images.length > 0
-        if (hasImages !== filter.hasImages) return false
-      }
+    const filtered = cards.filter(card => {
+      // Search term filter - backed by the full-text index
+      if (searchScores && !searchScores.has(card.id)) return false
 
-      return true
+      // Remaining filters (tags, folder, dates, style, images, structured query)
+      return matchesCardFilter(card, filter)
     })
 
     // Sort cards
     filtered.sort((a, b) => {
+      // Rank by BM25 relevance while searching
+      if (searchScores) {
+        return (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0)
+      }
+
       let comparison = 0
       
       switch (viewSettings.sortBy) {
@@ -1379,6 +1360,12 @@ export function useCards() {
           return updatedCards
         }
 
+        case 'IMPORT_CARDS': {
+          // 导入的卡片已带有ID和时间戳，跳过已存在的ID
+          const existingIds = new Set(prevCards.map(card => card.id))
+          return [...prevCards, ...action.payload.filter(card => !existingIds.has(card.id))]
+        }
+
         default:
           return prevCards
       }
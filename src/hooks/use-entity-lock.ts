@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Card } from '@/types/card'
+import { EntityLockState } from '@/types/entity-lock'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { useToast } from '@/hooks/use-toast'
+import { entityLockService } from '@/services/security/entity-lock-service'
+
+/**
+ * 卡片/文件夹独立锁状态
+ */
+export function useEntityLock(): EntityLockState {
+  const [state, setState] = useState<EntityLockState>(() => entityLockService.getState())
+
+  useEffect(() => {
+    const unsubscribe = entityLockService.onChange(setState)
+    entityLockService.initialize().catch(error => {
+      console.warn('Failed to load lock settings:', error)
+    })
+    return unsubscribe
+  }, [])
+
+  return state
+}
+
+/**
+ * 网格中的锁定卡片
+ *
+ * revealedCards 中已解锁的卡片换上明文内容，仍锁定的为 null；
+ * handleUpdate 在修改已解锁的锁定卡片时先重新加密内容，再交给 onCardUpdate 保存。
+ */
+export function useLockedCards(cards: Card[], onCardUpdate: (cardId: string, updates: Partial<Card>) => void) {
+  const lockState = useEntityLock()
+  const { toast } = useToast()
+
+  // 明文缓存随解锁状态变化，没有已解锁的卡片或文件夹时锁定卡片一律隐藏
+  const { unlockedIds } = lockState
+  const revealedCards = useMemo(
+    () => new Map(cards.map(card => [card.id, card.lock && unlockedIds.length === 0 ? null : entityLockService.reveal(card)])),
+    [cards, unlockedIds]
+  )
+
+  const handleUpdate = useCallback((cardId: string, updates: Partial<Card>) => {
+    const card = cards.find(item => item.id === cardId)
+    if (!card?.lock) {
+      onCardUpdate(cardId, updates)
+      return
+    }
+
+    entityLockService.sealUpdates(card, updates)
+      .then(sealed => onCardUpdate(cardId, sealed))
+      .catch(error => {
+        console.error('Failed to save locked card:', error)
+        toast({
+          title: 'Save failed',
+          description: error instanceof Error ? error.message : 'The card could not be encrypted',
+          variant: 'destructive',
+        })
+      })
+  }, [cards, onCardUpdate, toast])
+
+  return { revealedCards, handleUpdate }
+}
+
+/**
+ * 新建或移入已解锁的锁定文件夹的卡片用文件夹密钥加密，只需在应用中挂载一次
+ * 文件夹锁定期间放入的卡片在下次解锁该文件夹时加密
+ */
+export function useFolderLockSealing(): void {
+  const { allCards, dispatch } = useCardAllCards()
+  const { folders } = useCardAllFolders()
+  const lockState = useEntityLock()
+  const sealing = useRef(new Set<string>())
+
+  useEffect(() => {
+    if (lockState.unlockedIds.length === 0) return
+
+    allCards.forEach(card => {
+      if (card.lock || sealing.current.has(card.id)) return
+      const folder = entityLockService.getLockedFolder(card.folderId, folders)
+      if (!folder || !entityLockService.isUnlocked(folder.id)) return
+
+      sealing.current.add(card.id)
+      entityLockService.sealIntoFolder(card, folder)
+        .then(updates => updates && dispatch({ type: 'UPDATE_CARD', payload: { id: card.id, updates } }))
+        .catch(error => console.warn('Failed to lock card in folder:', error))
+        .finally(() => sealing.current.delete(card.id))
+    })
+  }, [allCards, folders, lockState, dispatch])
+}
@@ -210,6 +210,14 @@ export function useFoldersDb() {
           break
         }
 
+        case 'IMPORT_FOLDERS': {
+          const newFolders = action.payload.map(folder => folderToDbFolder(folder, userId ?? undefined))
+
+          await db.folders.bulkAdd(newFolders)
+          await loadFolders()
+          break
+        }
+
         default:
           console.warn('Unknown folder action:', action)
       }
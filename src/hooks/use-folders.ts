@@ -1,7 +1,8 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { Folder, FolderAction } from '@/types/card'
 import { secureStorage } from '@/utils/secure-storage'
 import { db } from '@/services/database'
+import { compareManualOrder, reorderItemKeys } from '@/services/ordering/manual-order'
 
 // Mock data for development - DISABLED to fix expand/collapse functionality
 // const mockFolders: Folder[] = [] // Disabled: Empty array prevents mock data interference
@@ -27,14 +28,15 @@ export function useFolders() {
 
   // Get folder tree structure
   const getFolderTree = useCallback(() => {
-    const rootFolders = folders.filter(folder => !folder.parentId)
+    // 同级文件夹按手动顺序排列，未排序的保持创建顺序
+    const rootFolders = folders.filter(folder => !folder.parentId).sort(compareManualOrder)
     console.log('🌳 构建文件夹树 - 根文件夹:', rootFolders.map(f => ({ id: f.id, name: f.name })))
     console.log('🌳 所有文件夹数据:', folders.map(f => ({ id: f.id, name: f.name, parentId: f.parentId })))
 
     const buildTree = (parentFolders: Folder[]): (Folder & { children: Folder[] })[] => {
       return parentFolders.map(folder => {
         // 确保文件夹有正确的展开状态
-        const children = buildTree(folders.filter(f => f.parentId === folder.id))
+        const children = buildTree(folders.filter(f => f.parentId === folder.id).sort(compareManualOrder))
         const hasChildren = children.length > 0
 
         // 如果有子文件夹但展开状态未定义，默认展开
@@ -139,6 +141,19 @@ export function useFolders() {
             )
             return toggledFolders
 
+          case 'IMPORT_FOLDERS':
+            const existingIds = new Set(prevFolders.map(folder => folder.id))
+            return [...prevFolders, ...action.payload.filter(folder => !existingIds.has(folder.id))]
+
+          case 'REORDER_FOLDERS': {
+            const keys = reorderItemKeys(action.payload, prevFolders)
+            return prevFolders.map(folder =>
+              keys[folder.id]
+                ? { ...folder, order: keys[folder.id], updatedAt: new Date() }
+                : folder
+            )
+          }
+
           default:
             console.warn('⚠️ Unknown folder action:', action.type)
             return prevFolders
@@ -827,9 +842,13 @@ export function useFolders() {
     return () => clearInterval(consistencyCheckInterval)
   }, [isConsistent, checkDataConsistency])
 
+  // 文件夹变化时才重建树，保持引用稳定
+  const folderTree = useMemo(() => getFolderTree(), [getFolderTree])
+
   return {
     folders,
-    folderTree: getFolderTree(),
+    folderTree,
+    getFolderTree,
     selectedFolderId,
     setSelectedFolderId,
     dispatch,
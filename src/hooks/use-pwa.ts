@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react'
+import { PWAState } from '@/types/pwa'
+import { pwaService } from '@/services/pwa/pwa-service'
+
+/**
+ * Service Worker 注册与更新状态
+ */
+export function usePWA(): PWAState {
+  const [state, setState] = useState<PWAState>(() => pwaService.getState())
+
+  useEffect(() => pwaService.onChange(setState), [])
+
+  return state
+}
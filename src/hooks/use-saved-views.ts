@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Card } from '@/types/card'
+import { useCardAllCards, useCardAllFolders } from '@/contexts/cardall-context'
+import { SavedView, SavedViewDraft } from '@/types/saved-view'
+import { savedViewService } from '@/services/saved-views/saved-view-service'
+import { filterCardsByView } from '@/services/saved-views/saved-view-query'
+import { FolderTreeNode } from '@/services/search/search-query'
+
+/**
+ * 读取并管理智能文件夹
+ */
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedView[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    savedViewService.listViews()
+      .then(loaded => {
+        if (!cancelled) setViews(loaded)
+      })
+      .catch(error => console.error('Failed to load smart folders:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    const unsubscribe = savedViewService.onChange(setViews)
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  const createView = useCallback((draft: SavedViewDraft) => savedViewService.createView(draft), [])
+
+  const updateView = useCallback(
+    (id: string, updates: Partial<SavedViewDraft>) => savedViewService.updateView(id, updates),
+    []
+  )
+
+  const deleteView = useCallback((id: string) => savedViewService.deleteView(id), [])
+
+  return { views, isLoading, createView, updateView, deleteView }
+}
+
+/**
+ * 每个智能文件夹当前匹配的卡片，卡片变化时实时更新
+ */
+export function useSavedViewMatches(views: SavedView[], cards: Card[], folderTree: FolderTreeNode[]) {
+  return useMemo(() => {
+    const matches = new Map<string, Card[]>()
+    views.forEach(view => matches.set(view.id, filterCardsByView(cards, view, folderTree)))
+    return matches
+  }, [views, cards, folderTree])
+}
+
+/**
+ * 导出、批量截图等对话框中以智能文件夹为范围时选择的智能文件夹及其卡片
+ * 只在选择了该范围时计算匹配
+ */
+export function useSavedViewScope(enabled: boolean) {
+  const { views } = useSavedViews()
+  const { allCards } = useCardAllCards()
+  const { folderTree } = useCardAllFolders()
+  const [selectedViewId, setViewId] = useState('')
+
+  // 未选择或已删除时使用第一个智能文件夹
+  const viewId = views.some(view => view.id === selectedViewId) ? selectedViewId : views[0]?.id ?? ''
+
+  const cardIds = useMemo(() => {
+    const view = views.find(item => item.id === viewId)
+    if (!enabled || !view) return []
+    return filterCardsByView(allCards, view, folderTree).map(card => card.id)
+  }, [enabled, views, viewId, allCards, folderTree])
+
+  return { views, viewId, setViewId, cardIds }
+}
@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { Card } from '@/types/card'
+import { DueCounts, ReviewGrade, ReviewState, StudyScope } from '@/types/study'
+import { studyService } from '@/services/study/study-service'
+
+// 到期统计的刷新间隔
+const DUE_REFRESH_INTERVAL = 60 * 1000
+
+/**
+ * 间隔重复学习Hook
+ *
+ * 加载复习状态，提供到期统计、学习队列和评分记录
+ */
+export function useStudy(cards: Card[]) {
+  const [reviewStates, setReviewStates] = useState<Map<string, ReviewState>>(new Map())
+  const [isLoading, setIsLoading] = useState(true)
+  const [now, setNow] = useState(() => new Date())
+
+  const loadReviewStates = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setReviewStates(await studyService.getReviewStates())
+    } catch (error) {
+      console.error('Failed to load review states:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReviewStates()
+  }, [loadReviewStates])
+
+  // 复习状态变化时增量更新
+  useEffect(() => {
+    return studyService.onChange(state => {
+      setReviewStates(prev => new Map(prev).set(state.cardId, state))
+      setNow(new Date())
+    })
+  }, [])
+
+  // 定时刷新，使到期卡片及时计入
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), DUE_REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+
+  const dueCounts: DueCounts = useMemo(
+    () => studyService.computeDueCounts(cards, reviewStates, now),
+    [cards, reviewStates, now]
+  )
+
+  const getStudyQueue = useCallback((scope: StudyScope = {}) => {
+    return studyService.selectQueue(cards, reviewStates, scope, new Date())
+  }, [cards, reviewStates])
+
+  const recordReview = useCallback((cardId: string, grade: ReviewGrade, durationMs?: number) => {
+    return studyService.recordReview(cardId, grade, durationMs)
+  }, [])
+
+  const removeCards = useCallback(async (cardIds: string[]) => {
+    await studyService.removeCards(cardIds)
+    setReviewStates(prev => {
+      const next = new Map(prev)
+      cardIds.forEach(id => next.delete(id))
+      return next
+    })
+  }, [])
+
+  const getReviewState = useCallback((cardId: string) => {
+    return reviewStates.get(cardId)
+  }, [reviewStates])
+
+  return {
+    dueCounts,
+    reviewStates,
+    isLoading,
+    getStudyQueue,
+    getReviewState,
+    recordReview,
+    removeCards,
+    reloadReviewStates: loadReviewStates
+  }
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Card, Folder, Tag } from '@/types/card'
+import { SyncConnectionConfig, SyncEntityType, SyncRunResult, SyncStatus } from '@/types/sync'
+import { SyncEngine, createSyncEngine } from '@/services/sync/sync-engine'
+import { SyncEntitySource } from '@/services/sync/sync-store'
+import { createSyncTransport } from '@/services/sync/sync-transports'
+import { useCardsAdapter } from './use-cards-adapter'
+import { useFolders } from './use-folders'
+import { useTags } from './use-tags'
+
+const IDLE_STATUS: SyncStatus = { state: 'idle', pendingChanges: 0, conflicts: 0 }
+
+/**
+ * 同步的实体数据，传入未经撤销层包装的状态，远端变更不进入撤销历史，也不会再次加入同步队列
+ */
+export interface SyncEntities {
+  cards: ReturnType<typeof useCardsAdapter>
+  folders: ReturnType<typeof useFolders>
+  tags: ReturnType<typeof useTags>
+}
+
+// 同步数据经过 fromSyncData 还原，字段与实体一致
+const asEntity = <T,>(data: Record<string, unknown>) => data as unknown as T
+
+function createEntitySource(latest: { current: SyncEntities }): SyncEntitySource {
+  const find = (entityType: SyncEntityType, entityId: string): Card | Folder | Tag | undefined => {
+    const { cards, folders, tags } = latest.current
+    switch (entityType) {
+      case 'card':
+        return cards.allCards.find(card => card.id === entityId)
+      case 'folder':
+        return folders.folders.find(folder => folder.id === entityId)
+      case 'tag':
+        return tags.allTags.find(tag => tag.id === entityId)
+    }
+  }
+
+  return {
+    async getEntity(entityType, entityId) {
+      const entity = find(entityType, entityId)
+      return entity ? { ...entity } : null
+    },
+
+    async applyEntity(entityType, entityId, data) {
+      const { cards, folders, tags } = latest.current
+      const exists = !!find(entityType, entityId)
+
+      switch (entityType) {
+        case 'card':
+          if (!data) {
+            if (exists) await cards.dispatch({ type: 'DELETE_CARD', payload: entityId })
+          } else if (exists) {
+            await cards.dispatch({ type: 'UPDATE_CARD', payload: { id: entityId, updates: asEntity<Partial<Card>>(data) } })
+          } else {
+            await cards.dispatch({ type: 'IMPORT_CARDS', payload: [{ ...asEntity<Card>(data), isFlipped: false }] })
+          }
+          break
+        case 'folder':
+          if (!data) {
+            if (exists) await folders.dispatch({ type: 'DELETE_FOLDER', payload: entityId })
+          } else if (exists) {
+            await folders.dispatch({ type: 'UPDATE_FOLDER', payload: { id: entityId, updates: asEntity<Partial<Folder>>(data) } })
+          } else {
+            await folders.dispatch({ type: 'IMPORT_FOLDERS', payload: [asEntity<Folder>(data)] })
+          }
+          break
+        case 'tag': {
+          if (!data) {
+            if (exists) await tags.dispatch({ type: 'DELETE_TAG', payload: entityId })
+          } else if (exists) {
+            await tags.dispatch({ type: 'UPDATE_TAG', payload: { id: entityId, updates: asEntity<Partial<Tag>>(data) } })
+          } else if (!tags.getTagByName(String(data.name ?? ''))) {
+            // 本设备已从卡片中生成同名标签时不再重复添加，计数由卡片重新统计
+            await tags.dispatch({ type: 'IMPORT_TAGS', payload: [{ ...asEntity<Tag>(data), count: 0 }] })
+          }
+          break
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 按配置创建同步引擎并开始自动同步，配置变化时重新连接
+ * 服务器地址为空时不同步，enabled 为 false 表示未配置
+ */
+export function useSyncEngine(config: SyncConnectionConfig, entities: SyncEntities) {
+  const { serverUrl, token } = config
+  const latest = useRef(entities)
+  latest.current = entities
+  const isReady = entities.cards.isReady
+
+  const engineRef = useRef<SyncEngine | null>(null)
+  const [status, setStatus] = useState<SyncStatus>(IDLE_STATUS)
+
+  useEffect(() => {
+    // 卡片加载完成前不同步，避免把尚未读出的卡片当作不存在
+    if (!serverUrl.trim() || !isReady) return
+
+    const engine = createSyncEngine(createSyncTransport({ serverUrl: serverUrl.trim(), token }), createEntitySource(latest))
+    engineRef.current = engine
+    const unsubscribe = engine.subscribe(setStatus)
+    engine.start()
+
+    return () => {
+      unsubscribe()
+      engine.destroy()
+      engineRef.current = null
+      setStatus(IDLE_STATUS)
+    }
+  }, [serverUrl, token, isReady])
+
+  // 立即同步一次，未配置服务器时返回 null
+  const syncNow = useCallback(async (): Promise<SyncRunResult | null> => {
+    return engineRef.current ? engineRef.current.sync() : null
+  }, [])
+
+  return { enabled: !!serverUrl.trim(), status, syncNow }
+}
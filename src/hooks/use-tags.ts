@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react'
 import { Tag, TagAction } from '@/types/card'
 import { secureStorage } from '@/utils/secure-storage'
+import { compareManualOrder, reorderItemKeys } from '@/services/ordering/manual-order'
 
 // Mock data for development
 const mockTags: Tag[] = [
@@ -62,9 +63,9 @@ export function useTags() {
     return tags.filter(tag => !hiddenTags.includes(tag.id))
   }, [tags, hiddenTags])
 
-  // Get popular tags (sorted by count)
+  // Get popular tags (manually ordered tags first, then by count)
   const popularTags = useCallback((limit?: number) => {
-    const sorted = [...visibleTags()].sort((a, b) => b.count - a.count)
+    const sorted = [...visibleTags()].sort((a, b) => compareManualOrder(a, b) || b.count - a.count)
     return limit ? sorted.slice(0, limit) : sorted
   }, [visibleTags])
 
@@ -114,6 +115,19 @@ export function useTags() {
           )
           return prevTags
 
+        case 'IMPORT_TAGS': {
+          // 带有ID的完整标签（如撤销删除），跳过已存在的ID
+          const existingIds = new Set(prevTags.map(tag => tag.id))
+          return [...prevTags, ...action.payload.filter(tag => !existingIds.has(tag.id))]
+        }
+
+        case 'REORDER_TAGS': {
+          const keys = reorderItemKeys(action.payload, prevTags)
+          return prevTags.map(tag =>
+            keys[tag.id] ? { ...tag, order: keys[tag.id] } : tag
+          )
+        }
+
         default:
           return prevTags
       }
@@ -0,0 +1,43 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { Card, Folder } from '@/types/card'
+import { TaskGrouping, TaskReminder } from '@/types/tasks'
+import { collectTasks, getDueBucket, groupTasks } from '@/services/tasks/task-aggregation'
+import { taskReminderService } from '@/services/tasks/task-reminder-service'
+
+/**
+ * 跨卡片任务Hook
+ *
+ * 汇总所有卡片中的待办并按截止日期、文件夹或标签分组
+ */
+export function useTasks(cards: Card[], folders: Folder[], grouping: TaskGrouping, showCompleted = false) {
+  const allTasks = useMemo(() => collectTasks(cards, { includeCompleted: true }), [cards])
+
+  return useMemo(() => {
+    const openTasks = allTasks.filter(task => !task.todo.completed)
+    const tasks = showCompleted ? allTasks : openTasks
+    return {
+      groups: groupTasks(tasks, grouping, folders),
+      openCount: openTasks.length,
+      completedCount: allTasks.length - openTasks.length,
+      overdueCount: openTasks.filter(task => getDueBucket(task.todo.dueDate) === 'overdue').length
+    }
+  }, [allTasks, folders, grouping, showCompleted])
+}
+
+/**
+ * 按卡片中的提醒时间安排任务提醒，到时调用 onReminder
+ */
+export function useTaskReminders(cards: Card[], onReminder: (reminder: TaskReminder) => void) {
+  const onReminderRef = useRef(onReminder)
+  onReminderRef.current = onReminder
+
+  useEffect(() => {
+    return taskReminderService.onReminder(reminder => onReminderRef.current(reminder))
+  }, [])
+
+  useEffect(() => {
+    taskReminderService.schedule(cards)
+  }, [cards])
+
+  useEffect(() => () => taskReminderService.dispose(), [])
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  TimeMachineDataset,
+  TimeMachineDiff,
+  TimeMachineRestoreResult,
+  TimeMachineSelection,
+  TimeMachineSource
+} from '@/types/time-machine'
+import { useCardAllCards, useCardAllFolders, useCardAllTags, useCardAllUndoRedo } from '@/contexts/cardall-context'
+import { timeMachineService } from '@/services/history/time-machine-service'
+
+/**
+ * 当前挂载的备份数据集，未挂载时为 null
+ */
+export function useTimeMachineDataset(): TimeMachineDataset | null {
+  const [dataset, setDataset] = useState<TimeMachineDataset | null>(() => timeMachineService.getMounted())
+
+  useEffect(() => timeMachineService.onChange(setDataset), [])
+
+  return dataset
+}
+
+/**
+ * 时间机器Hook
+ *
+ * 跟踪当前挂载的备份数据集，数据变化时重新计算与当前数据的差异；
+ * 选择性恢复通过正常的状态操作写入，整次恢复作为一步撤销
+ */
+export function useTimeMachine() {
+  const { allCards, dispatch: cardDispatch } = useCardAllCards()
+  const { folders, dispatch: folderDispatch } = useCardAllFolders()
+  const { tags, dispatch: tagDispatch } = useCardAllTags()
+  const { group: undoGroup } = useCardAllUndoRedo()
+
+  const dataset = useTimeMachineDataset()
+  const [diff, setDiff] = useState<TimeMachineDiff | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  useEffect(() => {
+    if (!dataset) {
+      setDiff(null)
+      return
+    }
+
+    let cancelled = false
+    timeMachineService.diff(dataset, { cards: allCards, folders, tags })
+      .then(result => {
+        if (!cancelled) setDiff(result)
+      })
+      .catch(error => console.error('Failed to compare backup with current data:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [dataset, allCards, folders, tags])
+
+  const listSources = useCallback((): Promise<TimeMachineSource[]> => {
+    return timeMachineService.listSources()
+  }, [])
+
+  const mount = useCallback((source: TimeMachineSource): Promise<TimeMachineDataset> => {
+    return timeMachineService.mount(source)
+  }, [])
+
+  const unmount = useCallback(() => {
+    timeMachineService.unmount()
+  }, [])
+
+  /**
+   * 从挂载的数据集中恢复选中的卡片、文件夹和标签
+   */
+  const restore = useCallback(async (selection: TimeMachineSelection): Promise<TimeMachineRestoreResult> => {
+    if (!dataset) {
+      throw new Error('No backup is mounted')
+    }
+
+    const plan = timeMachineService.buildRestorePlan(dataset, { cards: allCards, folders, tags }, selection)
+    const result: TimeMachineRestoreResult = {
+      cards: plan.cards.length + plan.cardUpdates.length,
+      // 选中的文件夹或新建或更新，另加随卡片一起恢复的文件夹
+      folders: plan.folders.length + selection.folderIds.filter(id => !plan.folders.some(folder => folder.id === id)).length,
+      tags: plan.tags.length + plan.tagUpdates.length
+    }
+
+    setIsRestoring(true)
+    try {
+      await undoGroup(`Restore ${result.cards} cards from backup`, async () => {
+        // 先建标签和文件夹再写卡片，保证卡片引用的文件夹存在
+        if (plan.tags.length > 0) {
+          await tagDispatch({ type: 'IMPORT_TAGS', payload: plan.tags })
+        }
+        for (const update of plan.tagUpdates) {
+          await tagDispatch({ type: 'UPDATE_TAG', payload: update })
+        }
+        if (plan.folders.length > 0) {
+          await folderDispatch({ type: 'IMPORT_FOLDERS', payload: plan.folders })
+        }
+        for (const update of plan.folderUpdates) {
+          await folderDispatch({ type: 'UPDATE_FOLDER', payload: update })
+        }
+        if (plan.cards.length > 0) {
+          await cardDispatch({ type: 'IMPORT_CARDS', payload: plan.cards })
+        }
+        for (const update of plan.cardUpdates) {
+          await cardDispatch({ type: 'UPDATE_CARD', payload: update })
+        }
+      })
+      return result
+    } finally {
+      setIsRestoring(false)
+    }
+  }, [dataset, allCards, folders, tags, cardDispatch, folderDispatch, tagDispatch, undoGroup])
+
+  return {
+    dataset,
+    diff,
+    isRestoring,
+    listSources,
+    mount,
+    unmount,
+    restore
+  }
+}
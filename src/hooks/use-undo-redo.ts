@@ -0,0 +1,335 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { CardAction, FolderAction, TagAction } from '@/types/card'
+import { UndoEntry, UndoStep, UndoableAction } from '@/types/undo'
+import { toast } from '@/hooks/use-toast'
+import { useCardsAdapter } from './use-cards-adapter'
+import { useFolders } from './use-folders'
+import { useTags } from './use-tags'
+import {
+  UndoEntityState,
+  collectFolderDeletion,
+  createCardTagsStep,
+  describeSteps,
+  prepareCardAction,
+  prepareFolderAction,
+  prepareTagAction,
+  writesLockedContent
+} from '@/services/undo/undo-actions'
+import { UndoHistorySnapshot, undoHistoryService } from '@/services/undo/undo-history-service'
+import { releaseDeletedCards } from '@/services/undo/deleted-card-cleanup'
+import { LocalChange, collectLocalChanges, localChangeQueue } from '@/services/sync/local-change-queue'
+
+type CardsState = ReturnType<typeof useCardsAdapter>
+type FoldersState = ReturnType<typeof useFolders>
+type TagsState = ReturnType<typeof useTags>
+
+interface PendingGroup {
+  label?: string
+  steps: UndoStep[]
+}
+
+// 输入框和富文本编辑器保留自身的撤销
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// 执行成功的修改加入同步队列，执行失败的不推送
+function queueForSync<T>(result: T, changes: LocalChange[]): T {
+  if (changes.length > 0) {
+    Promise.resolve(result).then(
+      () => localChangeQueue.enqueue(changes).catch(error => {
+        console.warn('Failed to queue changes for sync:', error)
+      }),
+      () => undefined
+    )
+  }
+  return result
+}
+
+/**
+ * 撤销/重做层
+ *
+ * 包装卡片、文件夹和标签的 dispatch：执行前根据当前状态生成逆操作并记录到 IndexedDB。
+ * 同一轮事件中产生的步骤合并为一项（如删除文件夹连同其中的卡片），跨越异步操作的修改可用 group 合并。
+ * 撤销和重做直接调用原始 dispatch，不会再次记录。
+ * 所有经过这里的修改（包括撤销和重做）执行后都加入同步队列。
+ */
+export function useUndoRedo(cards: CardsState, folders: FoldersState, tags: TagsState) {
+  const latest = useRef({ cards, folders, tags })
+  latest.current = { cards, folders, tags }
+
+  const [history, setHistory] = useState<UndoHistorySnapshot>({ undo: [], redo: [] })
+  const [isBusy, setIsBusy] = useState(false)
+  const busy = useRef(false)
+  const pending = useRef<PendingGroup | null>(null)
+  const groupDepth = useRef(0)
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    undoHistoryService.getHistory().then(setHistory).catch(error => {
+      console.warn('Failed to load undo history:', error)
+    })
+    return undoHistoryService.onChange(setHistory)
+  }, [])
+
+  const getState = (): UndoEntityState => ({
+    cards: latest.current.cards.allCards,
+    folders: latest.current.folders.folders,
+    tags: latest.current.tags.allTags
+  })
+
+  // 被丢弃的记录无法再恢复其中删除的卡片，清理这些卡片的附属数据
+  const releaseDropped = useCallback(async (dropped: UndoEntry[]) => {
+    if (dropped.length === 0) return
+    const { undo, redo } = await undoHistoryService.getHistory()
+    await releaseDeletedCards(dropped, [...undo, ...redo], new Set(latest.current.cards.allCards.map(card => card.id)))
+  }, [])
+
+  // 将收集到的步骤写入历史
+  const flush = useCallback((): Promise<void> => {
+    if (flushTimer.current) {
+      clearTimeout(flushTimer.current)
+      flushTimer.current = null
+    }
+    const group = pending.current
+    if (!group || groupDepth.current > 0) return Promise.resolve()
+
+    pending.current = null
+    return undoHistoryService.push(describeSteps(group.steps, group.label), group.steps)
+      .then(releaseDropped)
+      .catch(error => {
+        console.warn('Failed to save undo history:', error)
+      })
+  }, [releaseDropped])
+
+  const scheduleFlush = useCallback(() => {
+    if (!flushTimer.current && groupDepth.current === 0) {
+      flushTimer.current = setTimeout(flush, 0)
+    }
+  }, [flush])
+
+  const beginGroup = (label?: string): PendingGroup => {
+    if (!pending.current) {
+      pending.current = { steps: [] }
+    }
+    if (label && !pending.current.label) {
+      pending.current.label = label
+    }
+    return pending.current
+  }
+
+  const record = useCallback((step: UndoStep | null, label?: string) => {
+    if (!step) return
+    beginGroup(label).steps.push(step)
+    scheduleFlush()
+  }, [scheduleFlush])
+
+  // 执行失败的修改不保留在历史中
+  const discardOnFailure = (result: void | Promise<void>, step: UndoStep | null) => {
+    if (!step || !(result instanceof Promise)) return result
+    return result.catch(error => {
+      const steps = pending.current?.steps
+      const index = steps ? steps.indexOf(step) : -1
+      if (steps && index > -1) {
+        steps.splice(index, 1)
+      }
+      throw error
+    })
+  }
+
+  /**
+   * 将一组修改合并为一项撤销历史，用于跨越异步操作的复合修改
+   */
+  const group = useCallback(async <T,>(label: string, task: () => T | Promise<T>): Promise<T> => {
+    beginGroup(label)
+    groupDepth.current++
+    try {
+      return await task()
+    } finally {
+      groupDepth.current--
+      scheduleFlush()
+    }
+  }, [scheduleFlush])
+
+  const cardDispatch = useCallback((action: CardAction) => {
+    const state = getState()
+    const { action: prepared, step } = prepareCardAction(action, state)
+    const changes = collectLocalChanges([{ entity: 'card', action: prepared }], state)
+    record(step)
+    return queueForSync(discardOnFailure(latest.current.cards.dispatch(prepared), step), changes)
+  }, [record])
+
+  const folderDispatch = useCallback((action: FolderAction) => {
+    const state = getState()
+    const { action: prepared, step } = prepareFolderAction(action, state)
+    const changes = collectLocalChanges([{ entity: 'folder', action: prepared }], state)
+
+    // 删除文件夹时先删除其中的卡片，与文件夹一起作为一步撤销
+    if (action.type === 'DELETE_FOLDER' && step) {
+      beginGroup(step.description)
+      const { cardIds } = collectFolderDeletion(action.payload, state.folders)
+      if (action.onDeleteCards && cardIds.length > 0) {
+        action.onDeleteCards(cardIds)
+      }
+    }
+
+    record(step)
+    return queueForSync(discardOnFailure(latest.current.folders.dispatch(prepared), step), changes)
+  }, [record])
+
+  const tagDispatch = useCallback((action: TagAction) => {
+    const state = getState()
+    const { action: prepared, step } = prepareTagAction(action, state)
+    const changes = collectLocalChanges([{ entity: 'tag', action: prepared }], state)
+    record(step)
+    return queueForSync(discardOnFailure(latest.current.tags.dispatch(prepared), step), changes)
+  }, [record])
+
+  const updateTagsInAllCards = useCallback((oldTagName: string, newTagName?: string) => {
+    const state = getState()
+    const step = createCardTagsStep(state.cards, oldTagName, newTagName)
+    record(step)
+    return queueForSync(
+      latest.current.cards.updateTagsInAllCards(oldTagName, newTagName),
+      collectLocalChanges(step?.redo ?? [], state)
+    )
+  }, [record])
+
+  const renameTag = useCallback((oldName: string, newName: string) => {
+    const state = getState()
+    const tag = latest.current.tags.getTagByName(oldName)
+    const { step } = tag
+      ? prepareTagAction({ type: 'UPDATE_TAG', payload: { id: tag.id, updates: { name: newName.trim() } } }, state)
+      : { step: null }
+
+    const renamed = latest.current.tags.renameTag(oldName, newName)
+    if (renamed) {
+      record(step, step?.description)
+      queueForSync(undefined, collectLocalChanges(step?.redo ?? [], state))
+    }
+    return renamed
+  }, [record])
+
+  const deleteTagByName = useCallback((tagName: string) => {
+    const state = getState()
+    const tag = latest.current.tags.getTagByName(tagName)
+    const { step } = tag ? prepareTagAction({ type: 'DELETE_TAG', payload: tag.id }, state) : { step: null }
+
+    const deleted = latest.current.tags.deleteTagByName(tagName)
+    if (deleted) {
+      record(step, step?.description)
+      queueForSync(undefined, collectLocalChanges(step?.redo ?? [], state))
+    }
+    return deleted
+  }, [record])
+
+  // 直接调用原始 dispatch 执行历史中的操作
+  const applyActions = useCallback(async (actions: UndoableAction[]) => {
+    // 锁定前记录的内容是明文，不能写回已锁定的卡片
+    if (actions.some(item => writesLockedContent(item, getState().cards))) {
+      throw new Error('This change includes the content of a locked card')
+    }
+
+    for (const item of actions) {
+      const { cards, folders, tags } = latest.current
+      const changes = collectLocalChanges([item], getState())
+      if (item.entity === 'card') {
+        await queueForSync(cards.dispatch(item.action), changes)
+      } else if (item.entity === 'folder') {
+        await queueForSync(folders.dispatch(item.action), changes)
+      } else {
+        await queueForSync(tags.dispatch(item.action), changes)
+      }
+    }
+  }, [])
+
+  const replay = useCallback(async (direction: 'undo' | 'redo') => {
+    if (busy.current) return
+    busy.current = true
+    setIsBusy(true)
+
+    try {
+      await flush()
+      const entry = await undoHistoryService.transfer(direction, (item: UndoEntry) =>
+        applyActions(direction === 'undo'
+          ? [...item.steps].reverse().flatMap(step => step.undo)
+          : item.steps.flatMap(step => step.redo))
+      )
+      if (entry) {
+        toast({
+          title: direction === 'undo' ? 'Undone' : 'Redone',
+          description: entry.label
+        })
+      }
+    } catch (error) {
+      console.error(`${direction === 'undo' ? 'Undo' : 'Redo'} failed:`, error)
+      toast({
+        title: direction === 'undo' ? 'Undo failed' : 'Redo failed',
+        description: error instanceof Error ? error.message : 'The change could not be applied',
+        variant: 'destructive'
+      })
+    } finally {
+      busy.current = false
+      setIsBusy(false)
+    }
+  }, [flush, applyActions])
+
+  const undo = useCallback(() => replay('undo'), [replay])
+  const redo = useCallback(() => replay('redo'), [replay])
+
+  const clear = useCallback(async () => {
+    pending.current = null
+    await releaseDropped(await undoHistoryService.clear())
+  }, [releaseDropped])
+
+  // 锁定卡片后删除历史中含有其明文的记录
+  const forgetCards = useCallback(async (cardIds: string[]) => {
+    await flush()
+    await releaseDropped(await undoHistoryService.removeCards(cardIds))
+  }, [flush, releaseDropped])
+
+  // Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 或 Ctrl/Cmd+Y 重做
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.defaultPrevented) return
+      if (isEditableTarget(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // 卸载前写入尚未保存的步骤
+  useEffect(() => () => {
+    flush()
+  }, [flush])
+
+  return {
+    cards: { ...cards, dispatch: cardDispatch, updateTagsInAllCards },
+    folders: { ...folders, dispatch: folderDispatch },
+    tags: { ...tags, dispatch: tagDispatch, renameTag, deleteTagByName },
+    undoRedo: {
+      history,
+      canUndo: history.undo.length > 0 || !!pending.current,
+      canRedo: history.redo.length > 0,
+      undoLabel: history.undo[0]?.label,
+      redoLabel: history.redo[0]?.label,
+      isBusy,
+      undo,
+      redo,
+      group,
+      clear,
+      forgetCards
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react'
+import { VaultState } from '@/types/vault'
+import { vaultService } from '@/services/security/vault-service'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+
+/**
+ * 保险库状态
+ */
+export function useVault(): VaultState {
+  const [state, setState] = useState<VaultState>(() => vaultService.getState())
+
+  useEffect(() => {
+    const unsubscribe = vaultService.onChange(setState)
+    vaultService.initialize().catch(error => {
+      console.warn('Failed to load vault settings:', error)
+    })
+    return unsubscribe
+  }, [])
+
+  return state
+}
+
+/**
+ * 解锁后无操作超过设定时间自动锁定，只需在应用中挂载一次
+ */
+export function useVaultIdleLock(state: VaultState): void {
+  const { status, idleTimeoutMinutes } = state
+
+  useEffect(() => {
+    if (status !== 'unlocked' || idleTimeoutMinutes <= 0) return
+
+    let timer: ReturnType<typeof setTimeout>
+    const resetTimer = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => vaultService.lock(), idleTimeoutMinutes * 60 * 1000)
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }))
+    resetTimer()
+
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer))
+    }
+  }, [status, idleTimeoutMinutes])
+}
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react'
+import { WebClipperSettings } from '@/types/web-clipper'
+import { webClipperService } from '@/services/clipper/web-clipper-service'
+
+/**
+ * 网页剪藏设置（代理地址和令牌）
+ */
+export function useWebClipperSettings(): WebClipperSettings {
+  const [settings, setSettings] = useState<WebClipperSettings>(() => webClipperService.getSettings())
+
+  useEffect(() => webClipperService.onChange(setSettings), [])
+
+  return settings
+}
@@ -1,6 +1,10 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { pwaService } from './services/pwa/pwa-service'
+
+// 注册构建生成的 Service Worker（离线缓存、后台同步、新版本提示）
+pwaService.register()
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -0,0 +1,72 @@
+/**
+ * 画布布局服务
+ *
+ * 每个文件夹（未选择文件夹时为 all）保存一份画布：卡片位置、吸附分组、连线和视口。
+ * 卡片删除后从所有画布中移除其位置、分组成员和相关连线。
+ */
+
+import { CanvasBoard } from '@/types/canvas'
+import { db } from '@/services/database'
+import { createEmptyBoard, removeFromGroups } from './canvas-geometry'
+
+type BoardChangeListener = (board: CanvasBoard) => void
+
+export class CanvasBoardService {
+  private listeners: BoardChangeListener[] = []
+
+  // 注册画布变化监听器
+  onChange(listener: BoardChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 读取画布，尚未保存过时返回空画布
+   */
+  async getBoard(id: string): Promise<CanvasBoard> {
+    return (await db.canvasBoards.get(id)) || createEmptyBoard(id)
+  }
+
+  async saveBoard(board: CanvasBoard): Promise<void> {
+    await db.canvasBoards.put(board)
+    this.listeners.forEach(listener => listener(board))
+  }
+
+  /**
+   * 从所有画布中移除已删除的卡片
+   */
+  async removeCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return
+
+    const changed: CanvasBoard[] = []
+    await db.transaction('rw', db.canvasBoards, async () => {
+      const boards = await db.canvasBoards.toArray()
+      for (const board of boards) {
+        const affected = cardIds.some(id => board.positions[id]) ||
+          board.connectors.some(connector => cardIds.includes(connector.fromId) || cardIds.includes(connector.toId))
+        if (!affected) continue
+
+        const positions = { ...board.positions }
+        cardIds.forEach(id => delete positions[id])
+        const next: CanvasBoard = {
+          ...board,
+          positions,
+          groups: removeFromGroups(board.groups, cardIds),
+          connectors: board.connectors.filter(connector => !cardIds.includes(connector.fromId) && !cardIds.includes(connector.toId)),
+          updatedAt: new Date()
+        }
+        await db.canvasBoards.put(next)
+        changed.push(next)
+      }
+    })
+
+    changed.forEach(board => this.listeners.forEach(listener => listener(board)))
+  }
+}
+
+export const canvasBoardService = new CanvasBoardService()
@@ -0,0 +1,206 @@
+/**
+ * 画布布局计算
+ *
+ * 吸附、分组、连线端点、自动摆放和缩放都是纯函数，坐标均为画布坐标（未缩放），
+ * 视图和服务只负责保存结果。
+ */
+
+import { CardGroup, SnapDirection } from '@/types/card'
+import { CanvasBoard, CanvasPoint, CanvasRect, CanvasSnap, CanvasViewport } from '@/types/canvas'
+
+export const CANVAS_CARD_WIDTHS = { sm: 240, md: 300, lg: 360 } as const
+
+export const MIN_CANVAS_ZOOM = 0.2
+export const MAX_CANVAS_ZOOM = 2
+
+// 尚未测量高度的卡片按该高度估算
+export const ESTIMATED_CARD_HEIGHT = 280
+
+// 吸附距离（画布坐标），以及吸附后卡片之间保留的间距
+const SNAP_DISTANCE = 24
+const SNAP_GAP = 8
+// 自动摆放时的列数和间距
+const LAYOUT_COLUMNS = 4
+const LAYOUT_GAP = 32
+
+export function createEmptyBoard(id: string): CanvasBoard {
+  return {
+    id,
+    positions: {},
+    groups: [],
+    connectors: [],
+    viewport: { x: 48, y: 48, zoom: 1 },
+    updatedAt: new Date()
+  }
+}
+
+function overlaps(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && endA > startB
+}
+
+/**
+ * 查找最近的可吸附边：移动的卡片与目标在另一方向上有重叠，且相邻边距离在吸附范围内。
+ * 吸附后若两边的顶端（或左端）也很接近则一并对齐
+ */
+export function findSnap(moving: CanvasRect, others: Array<{ id: string; rect: CanvasRect }>): CanvasSnap | null {
+  const candidates: Array<CanvasSnap & { distance: number }> = []
+  const consider = (targetId: string, direction: SnapDirection, distance: number, position: CanvasPoint) => {
+    if (Math.abs(distance) <= SNAP_DISTANCE) {
+      candidates.push({ targetId, direction, position, distance: Math.abs(distance) })
+    }
+  }
+
+  for (const { id, rect } of others) {
+    const right = rect.x + rect.width
+    const bottom = rect.y + rect.height
+    const alignedY = Math.abs(moving.y - rect.y) <= SNAP_DISTANCE ? rect.y : moving.y
+    const alignedX = Math.abs(moving.x - rect.x) <= SNAP_DISTANCE ? rect.x : moving.x
+
+    if (overlaps(moving.y, moving.y + moving.height, rect.y, bottom)) {
+      consider(id, 'right', moving.x - (right + SNAP_GAP), { x: right + SNAP_GAP, y: alignedY })
+      consider(id, 'left', moving.x + moving.width - (rect.x - SNAP_GAP), { x: rect.x - SNAP_GAP - moving.width, y: alignedY })
+    }
+    if (overlaps(moving.x, moving.x + moving.width, rect.x, right)) {
+      consider(id, 'bottom', moving.y - (bottom + SNAP_GAP), { x: alignedX, y: bottom + SNAP_GAP })
+      consider(id, 'top', moving.y + moving.height - (rect.y - SNAP_GAP), { x: alignedX, y: rect.y - SNAP_GAP - moving.height })
+    }
+  }
+
+  if (candidates.length === 0) return null
+  const { targetId, direction, position } = candidates.reduce((best, candidate) => (candidate.distance < best.distance ? candidate : best))
+  return { targetId, direction, position }
+}
+
+/**
+ * 若干卡片的外框
+ */
+export function getBounds(rects: CanvasRect[]): CanvasRect | null {
+  if (rects.length === 0) return null
+  const left = Math.min(...rects.map(rect => rect.x))
+  const top = Math.min(...rects.map(rect => rect.y))
+  const right = Math.max(...rects.map(rect => rect.x + rect.width))
+  const bottom = Math.max(...rects.map(rect => rect.y + rect.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+export function findGroup(groups: CardGroup[], cardId: string): CardGroup | undefined {
+  return groups.find(group => group.cardIds.includes(cardId))
+}
+
+/**
+ * 从分组中移除卡片，少于两张卡片的分组随之解散
+ */
+export function removeFromGroups(groups: CardGroup[], cardIds: string[]): CardGroup[] {
+  return groups
+    .map(group => ({ ...group, cardIds: group.cardIds.filter(id => !cardIds.includes(id)) }))
+    .filter(group => group.cardIds.length > 1)
+}
+
+/**
+ * 卡片吸附到目标后加入目标所在分组，目标未分组时两者组成新分组
+ */
+export function joinGroup(groups: CardGroup[], cardId: string, targetId: string): CardGroup[] {
+  const remaining = removeFromGroups(groups, [cardId])
+  const target = findGroup(remaining, targetId)
+
+  if (target) {
+    return remaining.map(group => (group.id === target.id ? { ...group, cardIds: [...group.cardIds, cardId] } : group))
+  }
+  return [...remaining, { id: crypto.randomUUID(), cardIds: [targetId, cardId], position: { x: 0, y: 0 }, createdAt: new Date() }]
+}
+
+/**
+ * 按成员卡片的位置更新分组外框的左上角
+ */
+export function refreshGroupPositions(groups: CardGroup[], getRect: (cardId: string) => CanvasRect | undefined): CardGroup[] {
+  return groups.map(group => {
+    const bounds = getBounds(group.cardIds.map(getRect).filter((rect): rect is CanvasRect => !!rect))
+    return bounds ? { ...group, position: { x: bounds.x, y: bounds.y } } : group
+  })
+}
+
+/**
+ * 为没有位置的卡片安排位置：按列排在已有卡片下方，不移动已摆放的卡片
+ */
+export function layoutUnplaced(
+  cardIds: string[],
+  positions: Record<string, CanvasPoint>,
+  cardWidth: number,
+  getHeight: (cardId: string) => number
+): Record<string, CanvasPoint> {
+  const unplaced = cardIds.filter(id => !positions[id])
+  if (unplaced.length === 0) return positions
+
+  const placed = cardIds.filter(id => positions[id])
+  let top = placed.length > 0
+    ? Math.max(...placed.map(id => positions[id].y + getHeight(id))) + LAYOUT_GAP
+    : 0
+
+  const next = { ...positions }
+  for (let i = 0; i < unplaced.length; i += LAYOUT_COLUMNS) {
+    const row = unplaced.slice(i, i + LAYOUT_COLUMNS)
+    row.forEach((id, column) => {
+      next[id] = { x: column * (cardWidth + LAYOUT_GAP), y: top }
+    })
+    top += Math.max(...row.map(getHeight)) + LAYOUT_GAP
+  }
+  return next
+}
+
+/**
+ * 连线端点：两张卡片中心连线与各自边框的交点
+ */
+export function getConnectorEndpoints(from: CanvasRect, to: CanvasRect): { start: CanvasPoint; end: CanvasPoint } {
+  const center = (rect: CanvasRect): CanvasPoint => ({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 })
+  const a = center(from)
+  const b = center(to)
+
+  const clip = (rect: CanvasRect, origin: CanvasPoint, target: CanvasPoint): CanvasPoint => {
+    const dx = target.x - origin.x
+    const dy = target.y - origin.y
+    if (dx === 0 && dy === 0) return origin
+    const scale = Math.min(
+      dx !== 0 ? rect.width / 2 / Math.abs(dx) : Infinity,
+      dy !== 0 ? rect.height / 2 / Math.abs(dy) : Infinity
+    )
+    return { x: origin.x + dx * Math.min(scale, 1), y: origin.y + dy * Math.min(scale, 1) }
+  }
+
+  return { start: clip(from, a, b), end: clip(to, b, a) }
+}
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_CANVAS_ZOOM, Math.max(MIN_CANVAS_ZOOM, zoom))
+}
+
+/**
+ * 以视口中的某点为中心缩放，该点下的画布内容保持不动
+ */
+export function zoomAt(viewport: CanvasViewport, zoom: number, point: CanvasPoint): CanvasViewport {
+  const nextZoom = clampZoom(zoom)
+  const ratio = nextZoom / viewport.zoom
+  return {
+    x: point.x - (point.x - viewport.x) * ratio,
+    y: point.y - (point.y - viewport.y) * ratio,
+    zoom: nextZoom
+  }
+}
+
+/**
+ * 缩放并平移到能完整显示所有卡片，最多放大到 100%
+ */
+export function fitViewport(rects: CanvasRect[], size: { width: number; height: number }, padding = 48): CanvasViewport {
+  const bounds = getBounds(rects)
+  if (!bounds || size.width <= 0 || size.height <= 0) return { x: padding, y: padding, zoom: 1 }
+
+  const zoom = clampZoom(Math.min(
+    1,
+    (size.width - padding * 2) / bounds.width,
+    (size.height - padding * 2) / bounds.height
+  ))
+  return {
+    x: (size.width - bounds.width * zoom) / 2 - bounds.x * zoom,
+    y: (size.height - bounds.height * zoom) / 2 - bounds.y * zoom,
+    zoom
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * 内容捕获服务
+ *
+ * 接收系统分享（Web Share Target）和以 CardAll 打开的文件（File Handling API），生成预填卡片创建表单的草稿。
+ * 分享内容由 Service Worker 暂存在缓存中，页面以 ?capture=<id> 打开后读取并删除；打开的文件经 launchQueue 传入。
+ * 其中的 .cardall 分享卡片文件转交卡片分享服务，在只读查看页中打开。
+ */
+
+import { ImageData } from '@/types/card'
+import {
+  CAPTURE_QUERY_PARAM,
+  CaptureDraft,
+  CapturePayload,
+  SHARE_TARGET_CACHE,
+  SHARE_TARGET_PATH,
+  SharedPayloadManifest
+} from '@/types/capture'
+import { imageProcessor } from '@/services/image-processor'
+import { parseFrontMatter, toOptionalString, toStringList } from '@/services/interchange/front-matter'
+import { blobToDataUrl } from '@/services/interchange/interchange-assets'
+import { cardShareService } from '@/services/share/card-share-service'
+
+type CaptureListener = (payload: CapturePayload | null) => void
+
+// File Handling API 尚未进入 TypeScript 的 DOM 类型
+interface LaunchParams {
+  files?: FileSystemFileHandle[]
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void
+}
+
+const MARKDOWN_FILE_PATTERN = /\.(md|markdown)$/i
+const TEXT_FILE_PATTERN = /\.txt$/i
+const MAX_TITLE_LENGTH = 80
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+function firstLine(text: string): string | undefined {
+  const line = text.split(/\r?\n/).map(item => item.trim()).find(Boolean)
+  return line && line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return undefined
+  }
+}
+
+export class CaptureService {
+  private pending: CapturePayload | null = null
+  private listeners: CaptureListener[] = []
+  private started = false
+
+  // 注册待处理内容变化监听器
+  onChange(listener: CaptureListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getPending(): CapturePayload | null {
+    return this.pending
+  }
+
+  /**
+   * 读取启动页面时传入的分享内容并开始接收打开的文件，只执行一次
+   */
+  async start(): Promise<void> {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue
+    launchQueue?.setConsumer(params => {
+      if (params.files && params.files.length > 0) {
+        this.receiveFiles(params.files).catch(error => console.error('Failed to read opened files:', error))
+      }
+    })
+
+    const url = new URL(window.location.href)
+    const captureId = url.searchParams.get(CAPTURE_QUERY_PARAM)
+    if (!captureId) return
+
+    // 移除查询参数，刷新页面时不再重复捕获
+    url.searchParams.delete(CAPTURE_QUERY_PARAM)
+    window.history.replaceState(window.history.state, '', url.pathname + url.search + url.hash)
+
+    // 文件处理的启动地址只用于标记，文件经 launchQueue 传入
+    if (captureId === 'launch') return
+
+    try {
+      const payload = await this.readSharedPayload(captureId)
+      if (payload) {
+        this.deliver(payload)
+      }
+    } catch (error) {
+      console.error('Failed to read shared content:', error)
+    }
+  }
+
+  /**
+   * 直接传入待捕获的内容
+   */
+  receive(payload: CapturePayload): void {
+    this.setPending(payload)
+  }
+
+  dismiss(): void {
+    this.setPending(null)
+  }
+
+  /**
+   * 由传入内容生成卡片草稿：标题取分享的页面标题、Markdown 标题或文件名，
+   * 正文合并分享文本、链接和文本文件，图片经 imageProcessor 压缩后内嵌
+   */
+  async createDraft(payload: CapturePayload): Promise<CaptureDraft> {
+    const warnings: string[] = []
+    const images: ImageData[] = []
+    const markdownParts: string[] = []
+    const textParts: string[] = []
+    const tags = new Set<string>()
+    let fileTitle: string | undefined
+    // 图片文件路径需要卡片 ID，卡片保存时才分配正式 ID
+    const draftCardId = crypto.randomUUID()
+
+    for (const file of payload.files) {
+      if (file.type.startsWith('image/')) {
+        try {
+          images.push(await this.processImage(file, draftCardId))
+        } catch (error) {
+          console.warn('Failed to process captured image:', error)
+          warnings.push(`Could not process image "${file.name}"`)
+        }
+        continue
+      }
+
+      const isMarkdown = MARKDOWN_FILE_PATTERN.test(file.name) || file.type === 'text/markdown'
+      if (!isMarkdown && !TEXT_FILE_PATTERN.test(file.name) && !file.type.startsWith('text/')) {
+        warnings.push(`Unsupported file "${file.name}"`)
+        continue
+      }
+
+      const text = await file.text()
+      if (isMarkdown) {
+        const { data, body } = parseFrontMatter(text)
+        toStringList(data.tags).forEach(tag => tags.add(tag))
+        fileTitle ??= toOptionalString(data.title) ?? body.match(/^#\s+(.+)$/m)?.[1]?.trim()
+        markdownParts.push(body.trim())
+      } else {
+        textParts.push(text.trim())
+      }
+      fileTitle ??= stripExtension(file.name)
+    }
+
+    const sharedText = payload.text?.trim()
+    // 部分平台把链接放在文本中
+    const sharedUrl = payload.url && !sharedText?.includes(payload.url) ? payload.url : undefined
+
+    return {
+      title: payload.title?.trim() || fileTitle || firstLine(sharedText ?? '') || hostnameOf(payload.url ?? '') || '',
+      content: [sharedText, sharedUrl, ...markdownParts, ...textParts].filter(Boolean).join('\n\n'),
+      contentFormat: markdownParts.length > 0 ? 'markdown' : 'text',
+      images,
+      tags: Array.from(tags),
+      warnings
+    }
+  }
+
+  private async readSharedPayload(id: string): Promise<CapturePayload | null> {
+    if (!('caches' in window)) return null
+
+    const cache = await caches.open(SHARE_TARGET_CACHE)
+    const base = `${SHARE_TARGET_PATH}/${encodeURIComponent(id)}`
+    const response = await cache.match(`${base}/manifest`)
+    if (!response) return null
+
+    const manifest = await response.json() as SharedPayloadManifest
+    const files = await Promise.all(manifest.files.map(async (file, index) => {
+      const stored = await cache.match(`${base}/${index}`)
+      return stored ? new File([await stored.blob()], file.name, { type: file.type }) : null
+    }))
+
+    // 读取后删除暂存内容
+    await Promise.all([
+      cache.delete(`${base}/manifest`),
+      ...manifest.files.map((_, index) => cache.delete(`${base}/${index}`))
+    ])
+
+    return {
+      source: 'share-target',
+      title: manifest.title,
+      text: manifest.text,
+      url: manifest.url,
+      files: files.filter((file): file is File => file !== null)
+    }
+  }
+
+  private async receiveFiles(handles: FileSystemFileHandle[]): Promise<void> {
+    const files = await Promise.all(handles.map(handle => handle.getFile()))
+    this.deliver({ source: 'file-handler', files })
+  }
+
+  // 分享的卡片文件（.cardall）交给卡片分享服务打开，其余内容进入捕获流程
+  private deliver(payload: CapturePayload): void {
+    const sharedFile = payload.files.find(file => cardShareService.isShareFile(file))
+    const files = payload.files.filter(file => !cardShareService.isShareFile(file))
+
+    if (sharedFile) {
+      cardShareService.openFile(sharedFile)
+    }
+    if (!sharedFile || files.length > 0 || payload.text || payload.url) {
+      this.setPending({ ...payload, files })
+    }
+  }
+
+  private async processImage(file: File, cardId: string): Promise<ImageData> {
+    const result = await imageProcessor.processImage(file, cardId)
+    const { width, height } = result.metadata
+    return {
+      id: result.id,
+      url: await blobToDataUrl(result.webpBlob),
+      alt: file.name,
+      width,
+      height,
+      aspectRatio: height > 0 ? width / height : undefined
+    }
+  }
+
+  private setPending(payload: CapturePayload | null): void {
+    this.pending = payload
+    this.listeners.forEach(listener => listener(payload))
+  }
+}
+
+export const captureService = new CaptureService()
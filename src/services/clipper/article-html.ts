@@ -0,0 +1,100 @@
+/**
+ * 网页正文转换为编辑器 HTML
+ *
+ * 只保留 RichTextEditorV2 支持的元素（段落、标题、列表、引用、代码、强调、链接、图片），
+ * 其余容器展开为其内容，表格按行转换为段落，最后经 tiptap 解析一遍，保证结构与编辑器保存的一致。
+ */
+
+import { escapeHtml, normalizeEditorHtml } from '@/services/interchange/markdown-converter'
+
+// 原样保留的元素（属性另行过滤）
+const KEPT_TAGS: Record<string, string> = {
+  P: 'p',
+  H2: 'h2',
+  H3: 'h3',
+  H4: 'h4',
+  H5: 'h5',
+  H6: 'h6',
+  UL: 'ul',
+  OL: 'ol',
+  LI: 'li',
+  BLOCKQUOTE: 'blockquote',
+  PRE: 'pre',
+  CODE: 'code',
+  STRONG: 'strong',
+  B: 'strong',
+  EM: 'em',
+  I: 'em',
+  U: 'u',
+  S: 's',
+  DEL: 's',
+  STRIKE: 's'
+}
+
+// 标题已单独保存，正文中的一级标题降为二级
+const RENAMED_TAGS: Record<string, string> = {
+  H1: 'h2',
+  DT: 'p',
+  DD: 'p',
+  ADDRESS: 'p'
+}
+
+/**
+ * 转换正文 HTML，removeImage 中的图片地址会被移除（例如已作为卡片图片保存的题图）
+ */
+export function toEditorHtml(html: string, removeImage?: string): string {
+  if (!html.trim()) return ''
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html')
+  const converted = serializeChildren(doc.body, removeImage)
+  return normalizeEditorHtml(converted)
+}
+
+function serializeChildren(parent: Node, removeImage?: string): string {
+  return Array.from(parent.childNodes).map(child => serializeNode(child, removeImage)).join('')
+}
+
+function serializeNode(node: Node, removeImage?: string): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeHtml(node.textContent ?? '')
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  const tag = element.tagName
+
+  switch (tag) {
+    case 'BR':
+      return '<br>'
+    case 'HR':
+      return '<hr>'
+    case 'IMG': {
+      const src = element.getAttribute('src')
+      if (!src || src === removeImage || !/^https?:/i.test(src)) return ''
+      const alt = element.getAttribute('alt')
+      return `<img src="${escapeHtml(src)}"${alt ? ` alt="${escapeHtml(alt)}"` : ''}>`
+    }
+    case 'A': {
+      const href = element.getAttribute('href')
+      const content = serializeChildren(element, removeImage)
+      if (!href || !/^(https?:|mailto:)/i.test(href) || !content.trim()) return content
+      return `<a href="${escapeHtml(href)}">${content}</a>`
+    }
+    case 'TABLE':
+      return Array.from(element.querySelectorAll('tr'))
+        .map(row => Array.from(row.children).map(cell => serializeChildren(cell, removeImage).trim()).filter(Boolean).join(' | '))
+        .filter(Boolean)
+        .map(row => `<p>${row}</p>`)
+        .join('')
+    case 'FIGCAPTION':
+      return `<p><em>${serializeChildren(element, removeImage)}</em></p>`
+  }
+
+  const target = KEPT_TAGS[tag] ?? RENAMED_TAGS[tag]
+  const content = serializeChildren(element, removeImage)
+  if (!target) return content
+
+  // 空的块级元素没有意义
+  if (target !== 'pre' && !content.replace(/<br>/g, '').trim() && !/<img\b/.test(content)) return ''
+  return `<${target}>${content}</${target}>`
+}
@@ -0,0 +1,313 @@
+/**
+ * 网页正文提取
+ *
+ * 参照 Readability 的做法：先移除脚本、导航、侧栏、评论等不可能是正文的节点，
+ * 再按段落的文本长度和逗号数给父级和祖父级节点打分，结合类名、标签和链接密度选出得分最高的容器，
+ * 并合并得分接近的相邻节点。元数据优先取 Open Graph 和 meta 标签。
+ */
+
+import { ExtractedArticle } from '@/types/web-clipper'
+
+// 类名或 ID 命中时直接移除（同时命中 MAYBE_CANDIDATE 的除外）
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|share|newsletter|subscribe|cookie|promo/i
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|byline|author/i
+
+const REMOVED_TAGS = 'script, style, noscript, template, iframe, object, embed, form, input, button, select, textarea, svg, canvas, nav, aside, footer, header, dialog, link, meta'
+const SCORED_TAGS = 'p, pre, td'
+const MIN_PARAGRAPH_LENGTH = 25
+const MIN_ARTICLE_LENGTH = 140
+const BYLINE = /byline|author|dateline|writtenby|p-author/i
+const MAX_BYLINE_LENGTH = 100
+
+const scores = new WeakMap<Element, number>()
+
+/**
+ * 从解析后的网页中提取正文和元数据，baseUrl 用于解析相对地址
+ */
+export function extractArticle(doc: Document, baseUrl: string): ExtractedArticle {
+  const meta = readMetadata(doc, baseUrl)
+
+  // 提取会修改文档，使用副本
+  const body = doc.body?.cloneNode(true) as HTMLElement | undefined
+  if (!body) {
+    return { ...meta, title: meta.title || hostnameOf(baseUrl), content: '', textLength: 0 }
+  }
+
+  removeUnlikelyNodes(body)
+  const article = selectArticle(body)
+  removeTitleHeading(article, meta.title)
+  absolutizeUrls(article, baseUrl)
+
+  const textLength = normalizeText(article.textContent ?? '').length
+  return {
+    ...meta,
+    title: meta.title || hostnameOf(baseUrl),
+    excerpt: meta.excerpt || firstParagraph(article),
+    leadImageUrl: meta.leadImageUrl || firstImage(article),
+    content: textLength > 0 ? article.innerHTML : '',
+    textLength
+  }
+}
+
+// ============================================================================
+// 元数据
+// ============================================================================
+
+function readMetadata(doc: Document, baseUrl: string): Omit<ExtractedArticle, 'content' | 'textLength'> {
+  const metaContent = (...names: string[]) => {
+    for (const name of names) {
+      const element = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+      const value = element?.getAttribute('content')?.trim()
+      if (value) return value
+    }
+    return undefined
+  }
+
+  const siteName = metaContent('og:site_name', 'application-name')
+  const title = metaContent('og:title', 'twitter:title')
+    || cleanDocumentTitle(doc.title, siteName)
+    || normalizeText(doc.querySelector('h1')?.textContent ?? '')
+
+  const published = metaContent('article:published_time', 'datePublished', 'date')
+  const publishedAt = published ? new Date(published) : undefined
+  const image = metaContent('og:image', 'og:image:url', 'twitter:image', 'twitter:image:src')
+
+  return {
+    title,
+    byline: metaContent('author', 'article:author', 'twitter:creator'),
+    siteName,
+    excerpt: metaContent('og:description', 'description', 'twitter:description'),
+    publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+    leadImageUrl: image ? resolveUrl(image, baseUrl) : undefined
+  }
+}
+
+// 去掉标题中的网站名后缀，如 "文章标题 | 网站名"
+function cleanDocumentTitle(title: string, siteName?: string): string {
+  const text = normalizeText(title)
+  const parts = text.split(/\s+[|\-–—»·]\s+/)
+  if (parts.length < 2) return text
+
+  if (siteName) {
+    const remaining = parts.filter(part => part.toLowerCase() !== siteName.toLowerCase())
+    if (remaining.length < parts.length) return remaining.join(' - ')
+  }
+  // 无法确定哪部分是网站名时保留最长的一段
+  return parts.reduce((longest, part) => (part.length > longest.length ? part : longest), '')
+}
+
+// ============================================================================
+// 正文选择
+// ============================================================================
+
+function removeUnlikelyNodes(root: HTMLElement): void {
+  root.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove())
+  root.querySelectorAll('[hidden], [aria-hidden="true"], [role="navigation"], [role="complementary"], [role="dialog"]')
+    .forEach(element => element.remove())
+
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    // 祖先已被移除的节点跳过
+    if (!root.contains(element) || ['ARTICLE', 'MAIN'].includes(element.tagName)) return
+    const signature = `${element.className} ${element.id}`
+    if (UNLIKELY_CANDIDATES.test(signature) && !MAYBE_CANDIDATE.test(signature)) {
+      element.remove()
+      return
+    }
+    // 作者信息已从 meta 中读取
+    const isByline = BYLINE.test(signature) || element.getAttribute('rel') === 'author'
+    if (isByline && normalizeText(element.textContent ?? '').length < MAX_BYLINE_LENGTH) {
+      element.remove()
+    }
+  })
+}
+
+function selectArticle(root: HTMLElement): HTMLElement {
+  const candidates: Element[] = []
+
+  root.querySelectorAll(SCORED_TAGS).forEach(paragraph => {
+    const text = normalizeText(paragraph.textContent ?? '')
+    if (text.length < MIN_PARAGRAPH_LENGTH) return
+
+    // 基础分 1，每个逗号加 1，每 100 个字符加 1（最多 3）
+    const contentScore = 1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3)
+
+    ancestorsOf(paragraph, 3).forEach((ancestor, level) => {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor))
+        candidates.push(ancestor)
+      }
+      // 父级得全分，祖父级得一半，再往上按层级递减
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+      scores.set(ancestor, scores.get(ancestor)! + contentScore / divider)
+    })
+  })
+
+  let best: Element | null = null
+  let bestScore = 0
+  for (const candidate of candidates) {
+    const score = scores.get(candidate)! * (1 - linkDensity(candidate))
+    scores.set(candidate, score)
+    if (score > bestScore) {
+      best = candidate
+      bestScore = score
+    }
+  }
+
+  if (!best || normalizeText(best.textContent ?? '').length < MIN_ARTICLE_LENGTH) {
+    return (root.querySelector('article, main, [role="main"]') as HTMLElement | null) ?? root
+  }
+
+  return mergeSiblings(best, bestScore, root.ownerDocument)
+}
+
+// 合并得分接近或文字密集的相邻节点，正文常被拆成多个兄弟容器
+function mergeSiblings(best: Element, bestScore: number, doc: Document): HTMLElement {
+  const parent = best.parentElement
+  if (!parent) return best as HTMLElement
+
+  const threshold = Math.max(10, bestScore * 0.2)
+  const container = doc.createElement('div')
+  Array.from(parent.children).forEach(sibling => {
+    let append = sibling === best
+    if (!append && scores.has(sibling) && scores.get(sibling)! >= threshold) {
+      append = true
+    } else if (!append && sibling.tagName === 'P') {
+      const text = normalizeText(sibling.textContent ?? '')
+      const density = linkDensity(sibling)
+      append = (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text))
+    }
+    if (append) container.appendChild(sibling.cloneNode(true))
+  })
+  return container
+}
+
+function initialScore(element: Element): number {
+  let score = 0
+  switch (element.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      score += 10
+      break
+    case 'DIV':
+      score += 5
+      break
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      score += 3
+      break
+    case 'ADDRESS':
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+    case 'LI':
+    case 'FORM':
+      score -= 3
+      break
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+    case 'TH':
+      score -= 5
+      break
+  }
+
+  const signature = `${element.className} ${element.id}`
+  if (NEGATIVE_CLASS.test(signature)) score -= 25
+  if (POSITIVE_CLASS.test(signature)) score += 25
+  return score
+}
+
+function ancestorsOf(element: Element, depth: number): Element[] {
+  const ancestors: Element[] = []
+  let current = element.parentElement
+  while (current && ancestors.length < depth) {
+    ancestors.push(current)
+    if (current.tagName === 'BODY') break
+    current = current.parentElement
+  }
+  return ancestors
+}
+
+function linkDensity(element: Element): number {
+  const textLength = normalizeText(element.textContent ?? '').length
+  if (textLength === 0) return 0
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((total, link) => total + normalizeText(link.textContent ?? '').length, 0)
+  return linkLength / textLength
+}
+
+// ============================================================================
+// 清理
+// ============================================================================
+
+// 标题单独保存在卡片标题中，正文开头重复的标题去掉
+function removeTitleHeading(article: HTMLElement, title: string): void {
+  if (!title) return
+  const heading = article.querySelector('h1, h2')
+  if (heading && normalizeText(heading.textContent ?? '').toLowerCase() === title.toLowerCase()) {
+    heading.remove()
+  }
+}
+
+// 懒加载图片的真实地址在 data-src 等属性中，src 常是占位图
+function absolutizeUrls(article: HTMLElement, baseUrl: string): void {
+  article.querySelectorAll('img').forEach(image => {
+    const lazy = image.getAttribute('data-src') || image.getAttribute('data-original') || image.getAttribute('data-lazy-src')
+    const srcset = image.getAttribute('srcset') || image.getAttribute('data-srcset')
+    const src = image.getAttribute('src')
+    const candidate = lazy || (src && !src.startsWith('data:') ? src : srcset?.split(',')[0]?.trim().split(/\s+/)[0])
+    if (candidate) {
+      image.setAttribute('src', resolveUrl(candidate, baseUrl))
+    } else {
+      image.remove()
+    }
+  })
+
+  article.querySelectorAll('a[href]').forEach(link => {
+    const href = link.getAttribute('href')!
+    if (href.startsWith('#') || /^javascript:/i.test(href)) {
+      link.removeAttribute('href')
+    } else {
+      link.setAttribute('href', resolveUrl(href, baseUrl))
+    }
+  })
+}
+
+function firstParagraph(article: HTMLElement): string | undefined {
+  const paragraph = Array.from(article.querySelectorAll('p'))
+    .map(element => normalizeText(element.textContent ?? ''))
+    .find(text => text.length >= MIN_PARAGRAPH_LENGTH)
+  return paragraph && paragraph.length > 200 ? `${paragraph.slice(0, 199)}…` : paragraph
+}
+
+function firstImage(article: HTMLElement): string | undefined {
+  return article.querySelector('img')?.getAttribute('src') ?? undefined
+}
+
+function resolveUrl(value: string, baseUrl: string): string {
+  try {
+    return new URL(value, baseUrl).href
+  } catch {
+    return value
+  }
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
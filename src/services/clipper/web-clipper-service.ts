@@ -0,0 +1,284 @@
+/**
+ * 网页剪藏服务
+ *
+ * 经可配置的代理抓取网页，提取正文并转换为编辑器 HTML，题图经 imageProcessor 压缩后写入图片表，
+ * 来源地址和剪藏时间保存在卡片的 source 中，可在卡片上查看并参与搜索。
+ */
+
+import { Card, CardContent, DEFAULT_CARD_STYLE, ImageData } from '@/types/card'
+import { WebClip, WebClipperSettings, WebClipSaveOptions } from '@/types/web-clipper'
+import { db } from '@/services/database'
+import { imageProcessor } from '@/services/image-processor'
+import { fileSystemService } from '@/services/file-system-simple'
+import { blobToDataUrl } from '@/services/interchange/interchange-assets'
+import { extractArticle } from './readability'
+import { toEditorHtml } from './article-html'
+
+type SettingsListener = (settings: WebClipperSettings) => void
+
+const SETTINGS_STORAGE_KEY = 'cardall-web-clipper-settings'
+const PROXY_URL_PLACEHOLDER = '{url}'
+const FINAL_URL_HEADER = 'X-Final-Url'
+
+const DEFAULT_SETTINGS: WebClipperSettings = {
+  proxyUrl: ''
+}
+
+interface FetchedResource {
+  url: string
+  contentType: string
+  body: ArrayBuffer
+}
+
+/**
+ * 补全并校验输入的网址，缺少协议时按 https 处理
+ */
+export function normalizeClipUrl(input: string): string {
+  const value = input.trim()
+  if (!value) {
+    throw new Error('Enter a URL to clip')
+  }
+
+  let url: URL
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`)
+  } catch {
+    throw new Error(`"${value}" is not a valid URL`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https pages can be clipped')
+  }
+  return url.href
+}
+
+// 按 Content-Type 或页面中声明的字符集解码
+function decodeHtml(body: ArrayBuffer, contentType: string): string {
+  const fromHeader = /charset=["']?([\w-]+)/i.exec(contentType)?.[1]
+  const head = new TextDecoder('utf-8').decode(body.slice(0, 2048))
+  const fromMeta = /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1]
+  const charset = fromHeader || fromMeta || 'utf-8'
+  try {
+    return new TextDecoder(charset).decode(body)
+  } catch {
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
+
+function fileNameFromUrl(url: string, type: string): string {
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '')
+  return name || `lead-image.${type.split('/')[1] || 'img'}`
+}
+
+function clipImageAlt(url: string): string {
+  return `Lead image from ${new URL(url).hostname}`
+}
+
+function emptyContent(now: Date): CardContent {
+  return { title: '', text: '', images: [], tags: [], todos: [], lastModified: now }
+}
+
+export class WebClipperService {
+  private settings: WebClipperSettings = this.loadSettings()
+  private listeners: SettingsListener[] = []
+
+  // 注册设置变化监听器
+  onChange(listener: SettingsListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getSettings(): WebClipperSettings {
+    return this.settings
+  }
+
+  updateSettings(updates: Partial<WebClipperSettings>): void {
+    this.settings = { ...this.settings, ...updates }
+    this.saveSettings()
+    this.listeners.forEach(listener => listener(this.settings))
+  }
+
+  /**
+   * 生成实际请求的地址：未配置代理时直接请求目标地址
+   */
+  buildRequestUrl(target: string): string {
+    const proxyUrl = this.settings.proxyUrl.trim()
+    if (!proxyUrl) return target
+    if (proxyUrl.includes(PROXY_URL_PLACEHOLDER)) {
+      return proxyUrl.split(PROXY_URL_PLACEHOLDER).join(encodeURIComponent(target))
+    }
+    return `${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encodeURIComponent(target)}`
+  }
+
+  /**
+   * 抓取网页并提取正文，题图只下载不保存，确认后由 createCard 保存
+   */
+  async clip(input: string): Promise<WebClip> {
+    const requestedUrl = normalizeClipUrl(input)
+    const warnings: string[] = []
+
+    const page = await this.fetchResource(requestedUrl)
+    if (!/html|xml/i.test(page.contentType)) {
+      throw new Error(`The address returned ${page.contentType || 'unknown content'}, not a web page`)
+    }
+
+    const doc = new DOMParser().parseFromString(decodeHtml(page.body, page.contentType), 'text/html')
+    const article = extractArticle(doc, page.url)
+    if (article.textLength === 0) {
+      warnings.push('No readable article was found on this page')
+    }
+
+    let leadImage: Blob | undefined
+    if (article.leadImageUrl) {
+      try {
+        leadImage = await this.fetchImage(article.leadImageUrl)
+      } catch (error) {
+        console.warn('Failed to download lead image:', error)
+        warnings.push('The lead image could not be downloaded')
+      }
+    }
+
+    return {
+      requestedUrl,
+      url: page.url,
+      article,
+      // 题图作为卡片图片保存，正文中不再重复
+      html: toEditorHtml(article.content, leadImage ? article.leadImageUrl : undefined),
+      leadImage,
+      capturedAt: new Date(),
+      warnings
+    }
+  }
+
+  /**
+   * 由剪藏结果生成卡片，题图此时才写入图片表（需要卡片 ID）
+   */
+  async createCard(clip: WebClip, options: WebClipSaveOptions = {}): Promise<Card> {
+    const id = crypto.randomUUID()
+    const now = new Date()
+    const images: ImageData[] = []
+
+    if (clip.leadImage && clip.article.leadImageUrl) {
+      images.push(await this.storeImage(clip.leadImage, clip.article.leadImageUrl, id, options.folderId))
+    }
+
+    return {
+      id,
+      frontContent: {
+        ...emptyContent(now),
+        title: clip.article.title,
+        text: clip.html,
+        images,
+        tags: options.tags ?? []
+      },
+      backContent: emptyContent(now),
+      style: DEFAULT_CARD_STYLE,
+      isFlipped: false,
+      folderId: options.folderId,
+      source: {
+        url: clip.url,
+        title: clip.article.title,
+        siteName: clip.article.siteName,
+        capturedAt: clip.capturedAt
+      },
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private async fetchResource(url: string): Promise<FetchedResource> {
+    const headers: Record<string, string> = {}
+    if (this.settings.proxyUrl.trim() && this.settings.proxyToken) {
+      headers.Authorization = `Bearer ${this.settings.proxyToken}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(this.buildRequestUrl(url), { headers })
+    } catch (error) {
+      // 跨域被拒绝时也会表现为网络错误
+      throw new Error(this.settings.proxyUrl.trim()
+        ? `Could not reach the proxy: ${error instanceof Error ? error.message : String(error)}`
+        : 'Could not fetch the page. Most sites block direct requests from the browser, so set up a proxy in the clipper settings.')
+    }
+
+    if (!response.ok) {
+      const detail = await response.json().then((body: { error?: string }) => body.error, () => undefined)
+      throw new Error(detail || `Request failed with status ${response.status}`)
+    }
+
+    return {
+      url: response.headers.get(FINAL_URL_HEADER) || (this.settings.proxyUrl.trim() ? url : response.url || url),
+      contentType: response.headers.get('Content-Type') ?? '',
+      body: await response.arrayBuffer()
+    }
+  }
+
+  private async fetchImage(url: string): Promise<Blob> {
+    const resource = await this.fetchResource(url)
+    if (!resource.contentType.startsWith('image/')) {
+      throw new Error(`Expected an image but got ${resource.contentType || 'unknown content'}`)
+    }
+    return new Blob([resource.body], { type: resource.contentType.split(';')[0] })
+  }
+
+  private async storeImage(blob: Blob, sourceUrl: string, cardId: string, folderId?: string): Promise<ImageData> {
+    const file = new File([blob], fileNameFromUrl(sourceUrl, blob.type), { type: blob.type })
+    const result = await imageProcessor.processImage(file, cardId, folderId)
+    const { width, height } = result.metadata
+    const now = new Date()
+
+    await db.images.add({
+      id: result.id,
+      cardId,
+      fileName: file.name,
+      filePath: result.filePaths.webp,
+      thumbnailPath: result.filePaths.thumbnail,
+      metadata: {
+        originalName: file.name,
+        size: result.metadata.processedSize,
+        width,
+        height,
+        format: result.metadata.format,
+        compressed: true,
+        quality: result.metadata.quality
+      },
+      storageMode: fileSystemService.getStorageMode(),
+      createdAt: now,
+      updatedAt: now
+    })
+
+    return {
+      id: result.id,
+      url: await blobToDataUrl(result.webpBlob),
+      alt: clipImageAlt(sourceUrl),
+      width,
+      height,
+      aspectRatio: height > 0 ? width / height : undefined
+    }
+  }
+
+  private loadSettings(): WebClipperSettings {
+    try {
+      const saved = localStorage.getItem(SETTINGS_STORAGE_KEY)
+      return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS
+    } catch (error) {
+      console.warn('Failed to load web clipper settings:', error)
+      return DEFAULT_SETTINGS
+    }
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings))
+    } catch (error) {
+      console.warn('Failed to save web clipper settings:', error)
+    }
+  }
+}
+
+export const webClipperService = new WebClipperService()
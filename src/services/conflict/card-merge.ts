@@ -0,0 +1,170 @@
+/**
+ * 实体的三方合并
+ *
+ * 卡片按字段独立合并：标题单值合并，标签按集合合并，待办和图片按ID合并，样式逐属性合并，
+ * 富文本正文按顶层块（段落、标题、列表等）做序列合并，只有同一个块在两边都被修改时才需要用户处理。
+ * 文件夹和标签逐字段合并，基础类型数组（如 cardIds）按集合合并。
+ */
+
+import { CardContent, CardStyle, ImageData, TodoItem } from '@/types/card'
+import {
+  MergeResult,
+  isDeepEqual,
+  mergeById,
+  mergeFields,
+  mergeSequence,
+  mergeSet,
+  mergeValue
+} from './three-way-merge'
+
+type EntityData = Record<string, unknown>
+
+// 不产生嵌套的 HTML 元素
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+/**
+ * 将 TipTap 输出的 HTML 拆分为顶层块
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = []
+  const tagPattern = /<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>/g
+  let depth = 0
+  let blockStart = 0
+  let match: RegExpExecArray | null
+
+  const pushText = (end: number) => {
+    const text = html.slice(blockStart, end)
+    if (text.trim()) blocks.push(text.trim())
+  }
+
+  while ((match = tagPattern.exec(html))) {
+    const [tag, closing, name, selfClosing] = match
+    const isVoid = selfClosing === '/' || VOID_ELEMENTS.has(name.toLowerCase())
+
+    if (depth === 0 && !closing) {
+      pushText(match.index)
+      blockStart = match.index
+    }
+
+    if (closing) {
+      depth = Math.max(0, depth - 1)
+    } else if (!isVoid) {
+      depth++
+    }
+
+    if (depth === 0) {
+      const end = match.index + tag.length
+      pushText(end)
+      blockStart = end
+    }
+  }
+
+  pushText(html.length)
+  return blocks
+}
+
+/**
+ * 富文本正文合并，冲突以块为单位报告
+ */
+export function mergeRichText(path: string, base: string, local: string, remote: string): MergeResult<string> {
+  if (local === remote || remote === base) return { merged: local, hunks: [] }
+  if (local === base) return { merged: remote, hunks: [] }
+
+  const { merged, conflicts } = mergeSequence(
+    splitHtmlBlocks(base ?? ''),
+    splitHtmlBlocks(local ?? ''),
+    splitHtmlBlocks(remote ?? ''),
+    (a, b) => a === b
+  )
+
+  return {
+    merged: merged.join(''),
+    hunks: conflicts.map(conflict => ({
+      path: `${path}[${conflict.index}]`,
+      base: conflict.base.join(''),
+      local: conflict.local.join(''),
+      remote: conflict.remote.join('')
+    }))
+  }
+}
+
+function mergeTags(_path: string, base: string[] = [], local: string[] = [], remote: string[] = []): MergeResult<string[]> {
+  return { merged: mergeSet(base, local, remote), hunks: [] }
+}
+
+function mergeTodos(path: string, base: TodoItem[] = [], local: TodoItem[] = [], remote: TodoItem[] = []) {
+  return mergeById(path, base, local, remote, (itemPath, baseItem, localItem, remoteItem) =>
+    mergeFields(itemPath, baseItem ?? {}, localItem, remoteItem)
+  )
+}
+
+function mergeImages(path: string, base: ImageData[] = [], local: ImageData[] = [], remote: ImageData[] = []) {
+  return mergeById(path, base, local, remote)
+}
+
+// 修改时间取两边中较新的一个
+function mergeTimestamp(_path: string, _base: unknown, local: unknown, remote: unknown): MergeResult<unknown> {
+  if (!local || !remote) return { merged: local ?? remote, hunks: [] }
+  return { merged: new Date(local as string).getTime() >= new Date(remote as string).getTime() ? local : remote, hunks: [] }
+}
+
+function mergeCardContent(path: string, base: CardContent | undefined, local: CardContent, remote: CardContent) {
+  return mergeFields(path, base ?? {}, local, remote, {
+    text: mergeRichText,
+    tags: mergeTags,
+    todos: mergeTodos,
+    images: mergeImages,
+    lastModified: mergeTimestamp
+  })
+}
+
+function mergeStyle(path: string, base: CardStyle | undefined, local: CardStyle, remote: CardStyle) {
+  if (!local || !remote) return mergeValue(path, base, local, remote)
+  return mergeFields(path, base ?? {}, local, remote)
+}
+
+// 基础类型数组按集合合并，其余字段按单值合并
+function mergeRecordField(path: string, base: unknown, local: unknown, remote: unknown): MergeResult<unknown> {
+  const isPrimitiveArray = (value: unknown) =>
+    Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')
+
+  if (isPrimitiveArray(local) && isPrimitiveArray(remote) && (base === undefined || isPrimitiveArray(base))) {
+    return { merged: mergeSet((base as unknown[]) ?? [], local as unknown[], remote as unknown[]), hunks: [] }
+  }
+  return mergeValue(path, base, local, remote)
+}
+
+export function mergeCards(base: EntityData, local: EntityData, remote: EntityData): MergeResult<EntityData> {
+  return mergeFields('', base, local, remote, {
+    frontContent: mergeCardContent,
+    backContent: mergeCardContent,
+    style: mergeStyle,
+    updatedAt: mergeTimestamp
+  })
+}
+
+export function mergeRecords(base: EntityData, local: EntityData, remote: EntityData): MergeResult<EntityData> {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+  const fieldMergers: Record<string, typeof mergeRecordField> = { updatedAt: mergeTimestamp }
+  keys.forEach(key => {
+    fieldMergers[key] ??= mergeRecordField
+  })
+  return mergeFields('', base, local, remote, fieldMergers)
+}
+
+/**
+ * 按实体类型做三方合并，没有基础版本或一边已删除时返回 null
+ */
+export function mergeEntity(
+  entityType: string,
+  base: EntityData | null | undefined,
+  local: EntityData | null | undefined,
+  remote: EntityData | null | undefined
+): MergeResult<EntityData> | null {
+  if (!base || !local || !remote) return null
+  if (isDeepEqual(local, remote)) return { merged: local, hunks: [] }
+
+  return entityType === 'card'
+    ? mergeCards(base, local, remote)
+    : mergeRecords(base, local, remote)
+}
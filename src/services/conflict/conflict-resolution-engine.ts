@@ -1,5 +1,7 @@
 import { ConflictInfo, ConflictType, ResolutionType } from '@/types/offline'
 import { EnhancedOfflineOperation } from '@/services/offline/enhanced-offline-manager'
+import { mergeEntity } from './card-merge'
+import { MergeHunk } from './three-way-merge'
 
 /**
  * 冲突数据接口
@@ -25,6 +27,11 @@ export interface ConflictData {
    */
   conflictingFields: string[]
 
+  /**
+   * 三方合并后仍需用户处理的片段
+   */
+  unresolvedHunks?: MergeHunk[]
+
   /**
    * 数据类型
    */
@@ -294,6 +301,11 @@ export interface ResolutionResult {
    * 用户反馈
    */
   userFeedback?: UserFeedback
+
+  /**
+   * 三方合并后仍需用户处理的片段，此时 resolvedData 中这些片段暂取本地值
+   */
+  unresolvedHunks?: MergeHunk[]
 }
 
 /**
@@ -731,6 +743,13 @@ export interface ConflictResolutionEngineConfig {
   }
 }
 
+/**
+ * 引擎配置覆盖项，每组配置只需提供要修改的字段
+ */
+export type ConflictResolutionEngineOverrides = {
+  [K in keyof ConflictResolutionEngineConfig]?: Partial<ConflictResolutionEngineConfig[K]>
+}
+
 /**
  * 冲突解决引擎
  * 提供智能冲突检测、分析和解决功能
@@ -767,7 +786,7 @@ export class ConflictResolutionEngine {
   /**
    * 构造函数
    */
-  constructor(config?: Partial<ConflictResolutionEngineConfig>) {
+  constructor(config?: ConflictResolutionEngineOverrides) {
     this.config = this.mergeConfig(config)
     this.initializePatterns()
   }
@@ -775,7 +794,7 @@ export class ConflictResolutionEngine {
   /**
    * 合并配置
    */
-  private mergeConfig(config?: Partial<ConflictResolutionEngineConfig>): ConflictResolutionEngineConfig {
+  private mergeConfig(config?: ConflictResolutionEngineOverrides): ConflictResolutionEngineConfig {
     const defaultConfig: ConflictResolutionEngineConfig = {
       strategy: {
         autoResolve: true,
@@ -811,7 +830,13 @@ export class ConflictResolutionEngine {
       }
     }
 
-    return { ...defaultConfig, ...config }
+    // 按配置分组合并，只覆盖传入的字段
+    return {
+      strategy: { ...defaultConfig.strategy, ...config?.strategy },
+      performance: { ...defaultConfig.performance, ...config?.performance },
+      learning: { ...defaultConfig.learning, ...config?.learning },
+      debug: { ...defaultConfig.debug, ...config?.debug }
+    }
   }
 
   /**
@@ -1165,9 +1190,10 @@ export class ConflictResolutionEngine {
       return null
     }
 
-    // 这里应该实现真正的三方合并算法
-    // 当前实现返回本地操作的数据
-    return localOp.data
+    // 没有基础版本时无法判断哪边做了修改，保留本地数据
+    const baseOp = conflict.baseOperationId ? operations.find(op => op.id === conflict.baseOperationId) : undefined
+    const result = mergeEntity(conflict.entityType, baseOp?.data, localOp.data, remoteOp.data)
+    return result ? result.merged : localOp.data
   }
 
   /**
@@ -1255,10 +1281,12 @@ export class ConflictResolutionEngine {
   private extractConflictData(conflict: ConflictInfo, operations: EnhancedOfflineOperation[]): ConflictData {
     const localOp = operations.find(op => op.id === conflict.localOperationId)
     const remoteOp = operations.find(op => op.id === conflict.remoteOperationId)
+    const baseOp = conflict.baseOperationId ? operations.find(op => op.id === conflict.baseOperationId) : undefined
 
     return {
       local: localOp?.data || null,
       remote: remoteOp?.data || null,
+      base: baseOp?.data || undefined,
       conflictingFields: this.extractConflictingFields(localOp?.data, remoteOp?.data),
       dataType: conflict.entityType
     }
@@ -1343,13 +1371,14 @@ export class ConflictResolutionEngine {
 
       // 计算质量评分
       const qualityScore = this.calculateQualityScore(resolvedData, analysis, isValid)
+      const unresolvedHunks = analysis.affectedData.unresolvedHunks ?? []
 
       // 创建解决结果
       const result: ResolutionResult = {
         conflictId: conflict.id,
         resolutionType: strategy,
         resolvedData,
-        status: isValid ? ResolutionStatus.SUCCESS : ResolutionStatus.PARTIAL,
+        status: isValid && unresolvedHunks.length === 0 ? ResolutionStatus.SUCCESS : ResolutionStatus.PARTIAL,
         resolvedAt: new Date(),
         resolver: 'system',
         details: {
@@ -1361,7 +1390,8 @@ export class ConflictResolutionEngine {
           logs: []
         },
         sideEffects: [],
-        qualityScore
+        qualityScore,
+        unresolvedHunks
       }
 
       // 记录解决历史
@@ -1458,12 +1488,19 @@ export class ConflictResolutionEngine {
     operations: EnhancedOfflineOperation[]
   ): Promise<any> {
     // 实现智能合并算法
-    const { local, remote } = analysis.affectedData
+    const { local, remote, base } = analysis.affectedData
 
     if (!local || !remote) {
       return local || remote
     }
 
+    // 有基础版本时做三方合并，只有两边都修改过的部分留给用户
+    const threeWay = mergeEntity(analysis.affectedData.dataType, base, local, remote)
+    if (threeWay) {
+      analysis.affectedData.unresolvedHunks = threeWay.hunks
+      return threeWay.merged
+    }
+
     // 简化的字段级合并
     const merged: any = {}
     const allKeys = new Set([...Object.keys(local), ...Object.keys(remote)])
@@ -1474,7 +1511,7 @@ export class ConflictResolutionEngine {
         merged[key] = local[key] || remote[key]
       } else {
         // 冲突字段使用智能选择
-        merged[key] = this.resolveFieldConflict(key, local[key], remote[key], analysis)
+        merged[key] = this.resolveFieldConflict(key, local[key], remote[key], analysis, operations)
       }
     }
 
@@ -1484,7 +1521,13 @@ export class ConflictResolutionEngine {
   /**
    * 解决字段冲突
    */
-  private resolveFieldConflict(field: string, localValue: any, remoteValue: any, analysis: ConflictAnalysis): any {
+  private resolveFieldConflict(
+    field: string,
+    localValue: any,
+    remoteValue: any,
+    analysis: ConflictAnalysis,
+    operations: EnhancedOfflineOperation[]
+  ): any {
     // 基于时间戳选择较新的值
     const localOp = analysis.involvedOperations.length > 0 ?
       operations.find(op => op.id === analysis.involvedOperations[0]) : null
@@ -0,0 +1,307 @@
+/**
+ * 三方合并基础算法
+ *
+ * 以双方共同的基础版本为参照，只有两边对同一部分做了不同修改时才算冲突。
+ * 序列合并基于 LCS 求出两边相对基础版本的修改区间，区间不重叠的修改直接叠加。
+ */
+
+/**
+ * 无法自动合并的片段，path 为字段路径（如 frontContent.text、style.backgroundColor）
+ */
+export interface MergeHunk {
+  path: string
+  base: unknown
+  local: unknown
+  remote: unknown
+}
+
+export interface MergeResult<T> {
+  merged: T // 冲突片段暂取本地值
+  hunks: MergeHunk[]
+}
+
+export interface SequenceConflict<T> {
+  index: number // 冲突片段在合并结果中的起始位置
+  base: T[]
+  local: T[]
+  remote: T[]
+}
+
+export interface SequenceMergeResult<T> {
+  merged: T[]
+  conflicts: SequenceConflict<T>[]
+}
+
+// 一侧相对基础版本的修改：用 items 替换 base[start, end)
+interface SequenceEdit<T> {
+  start: number
+  end: number
+  items: T[]
+}
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime()
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false
+    return a.every((item, index) => isDeepEqual(item, b[index]))
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const aKeys = Object.keys(a).filter(key => (a as Record<string, unknown>)[key] !== undefined)
+    const bKeys = Object.keys(b).filter(key => (b as Record<string, unknown>)[key] !== undefined)
+    if (aKeys.length !== bKeys.length) return false
+    return aKeys.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  }
+  return false
+}
+
+/**
+ * 单值三方合并：只有一边修改时取修改后的值，两边改成相同值也不算冲突
+ */
+export function mergeValue<T>(path: string, base: T | undefined, local: T, remote: T): MergeResult<T> {
+  if (isDeepEqual(local, remote) || isDeepEqual(remote, base)) {
+    return { merged: local, hunks: [] }
+  }
+  if (isDeepEqual(local, base)) {
+    return { merged: remote, hunks: [] }
+  }
+  return { merged: local, hunks: [{ path, base, local, remote }] }
+}
+
+/**
+ * 集合合并：保留两边新增的元素，任一边删除的元素都删除
+ */
+export function mergeSet<T>(base: T[], local: T[], remote: T[]): T[] {
+  const removed = new Set(base.filter(item => !local.includes(item) || !remote.includes(item)))
+  const result = local.filter(item => !removed.has(item))
+  remote.forEach(item => {
+    if (!removed.has(item) && !result.includes(item)) {
+      result.push(item)
+    }
+  })
+  return result
+}
+
+/**
+ * 按ID合并对象列表：两边的增删都保留，同一项由 mergeItem 合并；
+ * 一边删除而另一边修改的项算冲突，暂时保留修改后的项
+ */
+export function mergeById<T extends { id: string }>(
+  path: string,
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (path: string, base: T | undefined, local: T, remote: T) => MergeResult<T> = mergeValue
+): MergeResult<T[]> {
+  const baseMap = new Map(base.map(item => [item.id, item]))
+  const localMap = new Map(local.map(item => [item.id, item]))
+  const remoteMap = new Map(remote.map(item => [item.id, item]))
+  const hunks: MergeHunk[] = []
+  const merged: T[] = []
+
+  const resolve = (id: string): T | null => {
+    const itemPath = `${path}.${id}`
+    const baseItem = baseMap.get(id)
+    const localItem = localMap.get(id)
+    const remoteItem = remoteMap.get(id)
+
+    if (localItem && remoteItem) {
+      const result = mergeItem(itemPath, baseItem, localItem, remoteItem)
+      hunks.push(...result.hunks)
+      return result.merged
+    }
+
+    const kept = localItem ?? remoteItem
+    if (!kept) return null
+    if (!baseItem) return kept // 一边新增
+    if (isDeepEqual(kept, baseItem)) return null // 另一边删除且这边未修改
+
+    hunks.push({ path: itemPath, base: baseItem, local: localItem ?? null, remote: remoteItem ?? null })
+    return kept
+  }
+
+  const ids = [...local.map(item => item.id), ...remote.map(item => item.id).filter(id => !localMap.has(id))]
+  ids.forEach(id => {
+    const item = resolve(id)
+    if (item) merged.push(item)
+  })
+
+  return { merged, hunks }
+}
+
+/**
+ * 单个字段的合并方式，参数类型由各字段自行声明
+ */
+export type FieldMerger = (path: string, base: never, local: never, remote: never) => MergeResult<unknown>
+
+type UntypedFieldMerger = (path: string, base: unknown, local: unknown, remote: unknown) => MergeResult<unknown>
+
+/**
+ * 对象逐字段合并，fieldMergers 可为特定字段指定合并方式
+ */
+export function mergeFields<T extends object>(
+  path: string,
+  base: Partial<T>,
+  local: T,
+  remote: T,
+  fieldMergers: Partial<Record<keyof T & string, FieldMerger>> = {}
+): MergeResult<T> {
+  const record = (value: Partial<T>) => value as Record<string, unknown>
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+  const merged: Record<string, unknown> = {}
+  const hunks: MergeHunk[] = []
+
+  keys.forEach(key => {
+    const fieldPath = path ? `${path}.${key}` : key
+    // 字段合并函数按字段名取出，与字段值的类型一一对应
+    const merger = (fieldMergers[key as keyof T & string] ?? mergeValue) as UntypedFieldMerger
+    const result = merger(fieldPath, record(base)?.[key], record(local)[key], record(remote)[key])
+    if (result.merged !== undefined) {
+      merged[key] = result.merged
+    }
+    hunks.push(...result.hunks)
+  })
+
+  return { merged: merged as T, hunks }
+}
+
+// 最长公共子序列，返回匹配的下标对
+function longestCommonSubsequence<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [number, number][] {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const pairs: [number, number][] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+function diffSequence<T>(base: T[], other: T[], equals: (x: T, y: T) => boolean): SequenceEdit<T>[] {
+  const edits: SequenceEdit<T>[] = []
+  let baseIndex = 0
+  let otherIndex = 0
+
+  for (const [i, j] of [...longestCommonSubsequence(base, other, equals), [base.length, other.length]]) {
+    if (i > baseIndex || j > otherIndex) {
+      edits.push({ start: baseIndex, end: i, items: other.slice(otherIndex, j) })
+    }
+    baseIndex = i + 1
+    otherIndex = j + 1
+  }
+  return edits
+}
+
+function applyEdits<T>(base: T[], start: number, end: number, edits: SequenceEdit<T>[]): T[] {
+  const result: T[] = []
+  let position = start
+  edits.forEach(edit => {
+    result.push(...base.slice(position, edit.start), ...edit.items)
+    position = edit.end
+  })
+  result.push(...base.slice(position, end))
+  return result
+}
+
+/**
+ * 序列三方合并（diff3）
+ *
+ * 两边修改的基础区间不重叠时直接叠加；重叠的修改合并为一个区域，
+ * 区域内三方长度相同时逐项合并，否则整个区域作为一个冲突。
+ */
+export function mergeSequence<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  equals: (x: T, y: T) => boolean = isDeepEqual
+): SequenceMergeResult<T> {
+  const edits = [
+    ...diffSequence(base, local, equals).map(edit => ({ ...edit, side: 'local' as const })),
+    ...diffSequence(base, remote, equals).map(edit => ({ ...edit, side: 'remote' as const }))
+  ].sort((a, b) => a.start - b.start || a.end - b.end)
+
+  const merged: T[] = []
+  const conflicts: SequenceConflict<T>[] = []
+  let position = 0
+  let index = 0
+
+  while (index < edits.length) {
+    // 收集与当前修改区间重叠的所有修改；同一位置的两处插入也放在一起
+    const region = [edits[index]]
+    const start = edits[index].start
+    let end = edits[index].end
+    index++
+    while (index < edits.length) {
+      const next = edits[index]
+      const overlaps = next.start < end || (next.start === start && next.end === start && end === start)
+      if (!overlaps) break
+      region.push(next)
+      end = Math.max(end, next.end)
+      index++
+    }
+
+    merged.push(...base.slice(position, start))
+    position = end
+
+    const localEdits = region.filter(edit => edit.side === 'local')
+    const remoteEdits = region.filter(edit => edit.side === 'remote')
+    const localItems = applyEdits(base, start, end, localEdits)
+    const remoteItems = applyEdits(base, start, end, remoteEdits)
+    const baseItems = base.slice(start, end)
+
+    if (localEdits.length === 0 || remoteEdits.length === 0 || isSequenceEqual(localItems, remoteItems, equals)) {
+      merged.push(...(localEdits.length > 0 ? localItems : remoteItems))
+      continue
+    }
+
+    // 两边在同一位置插入不同内容：依次保留
+    if (start === end) {
+      merged.push(...localItems, ...remoteItems.filter(item => !localItems.some(other => equals(item, other))))
+      continue
+    }
+
+    if (localItems.length === baseItems.length && remoteItems.length === baseItems.length) {
+      baseItems.forEach((baseItem, offset) => {
+        const localItem = localItems[offset]
+        const remoteItem = remoteItems[offset]
+        if (equals(localItem, remoteItem) || equals(remoteItem, baseItem)) {
+          merged.push(localItem)
+        } else if (equals(localItem, baseItem)) {
+          merged.push(remoteItem)
+        } else {
+          conflicts.push({ index: merged.length, base: [baseItem], local: [localItem], remote: [remoteItem] })
+          merged.push(localItem)
+        }
+      })
+      continue
+    }
+
+    conflicts.push({ index: merged.length, base: baseItems, local: localItems, remote: remoteItems })
+    merged.push(...localItems)
+  }
+
+  merged.push(...base.slice(position))
+  return { merged, conflicts }
+}
+
+function isSequenceEqual<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): boolean {
+  return a.length === b.length && a.every((item, index) => equals(item, b[index]))
+}
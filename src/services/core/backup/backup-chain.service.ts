@@ -0,0 +1,613 @@
+/**
+ * 增量备份链服务
+ * 每条链以完整的基础段开始，之后的增量段只保存按 updatedAt/syncVersion 判断有变化的实体和被删除的实体键。
+ * 图片等 data: URL 按 SHA-256 内容寻址单独保存，同一张图片在所有备份之间只保存一份。
+ */
+
+import { db, BackupChainRecord, BackupEntity, BackupSegment } from '../../database-unified'
+import { BackupMetadata } from '../../data-validator'
+import { sha256Hex } from './backup-targets'
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+/**
+ * 按实体类型分组的备份数据，例如 { cards: [...], folders: [...] }
+ */
+export type BackupEntitySets = Record<string, BackupEntity[]>
+
+export interface AppendSegmentOptions {
+  backupId: string
+  timestamp?: Date
+  forceFull?: boolean
+  maxChainLength?: number // 压缩时保留的段数，默认沿用链上次的设置或 10
+}
+
+export interface BackupSegmentInfo {
+  id: string
+  chainId: string
+  sequence: number
+  type: 'full' | 'incremental'
+  timestamp: Date
+  changes: number // 增量段中新增、修改和删除的实体数
+  size: number
+  newBlobs: number // 本次新写入的图片数据数，已存在的不重复保存
+}
+
+export interface BackupRestorePoint {
+  id: string
+  chainId: string
+  sequence: number
+  type: 'full' | 'incremental'
+  timestamp: Date
+  size: number
+  metadata?: BackupMetadata
+}
+
+export interface RestoredBackup {
+  data: BackupEntitySets
+  segment: BackupSegment
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+const BLOB_PATTERN = /data:[\w.+-]+\/[\w.+-]+(?:;[\w.+-]+=[\w.+-]+)*;base64,[A-Za-z0-9+/]+=*/g
+const BLOB_REF_PATTERN = /cas:([0-9a-f]{64})/g
+const MIN_BLOB_LENGTH = 256 // 更短的 data: URL 直接留在实体中
+const DEFAULT_MAX_CHAIN_LENGTH = 10
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+// 深拷贝并替换所有字符串，日期和 Blob 等对象原样保留
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {}
+    Object.entries(value).forEach(([key, item]) => {
+      result[key] = mapStrings(item, map)
+    })
+    return result as T
+  }
+  return value
+}
+
+function forEachString(value: unknown, visit: (text: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value)
+  } else if (Array.isArray(value)) {
+    value.forEach(item => forEachString(item, visit))
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => forEachString(item, visit))
+  }
+}
+
+// FNV-1a，只用于没有版本字段的实体的内容指纹
+function hashString(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+/**
+ * 实体在链中的键：优先使用 id，设置项使用 key
+ */
+export function entityKey(entity: BackupEntity): string {
+  const key = entity.id ?? entity.key
+  return key !== undefined && key !== null ? String(key) : `#${hashString(JSON.stringify(entity))}`
+}
+
+/**
+ * 实体版本指纹，没有 updatedAt/syncVersion 的实体使用内容哈希
+ */
+export function entityFingerprint(entity: BackupEntity): string {
+  const updatedAt = entity.updatedAt ? new Date(entity.updatedAt as string | number | Date).getTime() : undefined
+  if (updatedAt !== undefined || entity?.syncVersion !== undefined) {
+    return `${updatedAt ?? ''}:${entity.syncVersion ?? ''}`
+  }
+  return `#${hashString(JSON.stringify(entity))}`
+}
+
+/**
+ * 按实体键排序，链重建出的数据与原始数据顺序一致，便于计算校验和
+ */
+export function sortEntitySets(data: BackupEntitySets): BackupEntitySets {
+  const sorted: BackupEntitySets = {}
+  Object.entries(data).forEach(([type, entities]) => {
+    if (!Array.isArray(entities)) return
+    sorted[type] = entities
+      .map(entity => ({ key: entityKey(entity), entity }))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map(item => item.entity)
+  })
+  return sorted
+}
+
+function estimateSize(value: unknown): number {
+  return JSON.stringify(value)?.length ?? 0
+}
+
+// ============================================================================
+// 增量备份链服务类
+// ============================================================================
+
+export class BackupChainService {
+  /**
+   * 向链追加一个备份段，链不存在、要求完整备份或实体类型发生变化时写入完整的基础段
+   */
+  async append(chainId: string, data: BackupEntitySets, options: AppendSegmentOptions): Promise<BackupSegmentInfo> {
+    const timestamp = options.timestamp ?? new Date()
+    const chain = await db.backupChains.get(chainId)
+    const types = Object.keys(data).filter(type => Array.isArray(data[type]))
+    const sameTypes = !!chain &&
+      types.length === Object.keys(chain.fingerprints).length &&
+      types.every(type => type in chain.fingerprints)
+    const full = !chain || !sameTypes || !!options.forceFull
+
+    const fingerprints: BackupChainRecord['fingerprints'] = {}
+    const entities: BackupSegment['entities'] = {}
+    let changes = 0
+
+    for (const type of types) {
+      const previous = full ? {} : chain!.fingerprints[type]
+      const current: Record<string, string> = {}
+      const upserts: BackupEntity[] = []
+
+      for (const entity of data[type]) {
+        const key = entityKey(entity)
+        const fingerprint = entityFingerprint(entity)
+        current[key] = fingerprint
+        if (previous[key] !== fingerprint) {
+          upserts.push(entity)
+        }
+      }
+
+      const deletes = Object.keys(previous).filter(key => !(key in current))
+      fingerprints[type] = current
+      entities[type] = { upserts, deletes }
+      changes += upserts.length + deletes.length
+    }
+
+    // 哈希计算不能放在 Dexie 事务中进行
+    const { stripped, blobs } = await this.extractBlobs(entities)
+    const hashes = Array.from(blobs.keys())
+
+    return db.transaction('rw', [db.backupChains, db.backupSegments, db.backupBlobs], async () => {
+      const head = await db.backupChains.get(chainId)
+      if (head?.headSequence !== chain?.headSequence) {
+        throw new Error(`Backup chain ${chainId} was modified during backup`)
+      }
+
+      const existing = await db.backupBlobs.bulkGet(hashes)
+      const newBlobs = hashes
+        .filter((_, index) => !existing[index])
+        .map(hash => ({ hash, data: blobs.get(hash)!, size: blobs.get(hash)!.length, createdAt: timestamp }))
+      if (newBlobs.length > 0) {
+        await db.backupBlobs.bulkAdd(newBlobs)
+      }
+
+      const segment: BackupSegment = {
+        id: options.backupId,
+        chainId,
+        sequence: chain ? chain.headSequence + 1 : 0,
+        type: full ? 'full' : 'incremental',
+        timestamp,
+        entities: stripped,
+        blobs: hashes,
+        size: estimateSize(stripped) + newBlobs.reduce((sum, blob) => sum + blob.size, 0)
+      }
+      await db.backupSegments.add(segment)
+
+      await db.backupChains.put({
+        id: chainId,
+        headSequence: segment.sequence,
+        maxLength: options.maxChainLength ?? chain?.maxLength ?? DEFAULT_MAX_CHAIN_LENGTH,
+        fingerprints,
+        updatedAt: timestamp
+      })
+
+      return {
+        id: segment.id,
+        chainId,
+        sequence: segment.sequence,
+        type: segment.type,
+        timestamp,
+        changes,
+        size: segment.size,
+        newBlobs: newBlobs.length
+      }
+    })
+  }
+
+  /**
+   * 记录创建者的备份元数据，列举备份时原样返回
+   */
+  async setSegmentMetadata(backupId: string, metadata: BackupMetadata): Promise<void> {
+    await db.backupSegments.update(backupId, { metadata })
+  }
+
+  async getSegment(backupId: string): Promise<BackupSegment | undefined> {
+    return db.backupSegments.get(backupId)
+  }
+
+  async getChains(): Promise<BackupChainRecord[]> {
+    return db.backupChains.toArray()
+  }
+
+  /**
+   * 列出可以恢复到的时间点，按时间从新到旧排列
+   */
+  async getRestorePoints(chainId?: string): Promise<BackupRestorePoint[]> {
+    const segments = chainId
+      ? await db.backupSegments.where('chainId').equals(chainId).toArray()
+      : await db.backupSegments.toArray()
+
+    return segments
+      .map(segment => ({
+        id: segment.id,
+        chainId: segment.chainId,
+        sequence: segment.sequence,
+        type: segment.type,
+        timestamp: segment.timestamp,
+        size: segment.size,
+        metadata: segment.metadata
+      }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.sequence - a.sequence)
+  }
+
+  /**
+   * 查找某一时刻的备份段，即该时刻或之前最新的一段
+   */
+  async findRestorePoint(chainId: string, pointInTime: Date): Promise<BackupRestorePoint | undefined> {
+    const points = await this.getRestorePoints(chainId)
+    return points.find(point => point.timestamp.getTime() <= pointInTime.getTime())
+  }
+
+  /**
+   * 重建某个备份段所在时刻的完整数据，图片数据从内容寻址存储中取回
+   */
+  async restore(backupId: string): Promise<RestoredBackup> {
+    const segment = await db.backupSegments.get(backupId)
+    if (!segment) {
+      throw new Error(`Backup ${backupId} is not part of a backup chain`)
+    }
+
+    const segments = await this.loadSegments(segment.chainId, segment.sequence)
+    const state = this.replay(segments)
+
+    const hashes = Array.from(new Set(segments.flatMap(item => item.blobs)))
+    const records = await db.backupBlobs.bulkGet(hashes)
+    const blobData = new Map<string, string>()
+    records.forEach((record, index) => {
+      if (record) blobData.set(hashes[index], record.data)
+    })
+
+    const missing = new Set<string>()
+    const data: BackupEntitySets = {}
+    state.forEach((entities, type) => {
+      data[type] = Array.from(entities.values()).map(entity => mapStrings(entity, text =>
+        text.replace(BLOB_REF_PATTERN, (ref, hash: string) => {
+          if (!hashes.includes(hash)) return ref
+          const blob = blobData.get(hash)
+          if (blob === undefined) {
+            missing.add(hash)
+            return ref
+          }
+          return blob
+        })
+      ))
+    })
+
+    if (missing.size > 0) {
+      throw new Error(`Backup ${backupId} references ${missing.size} missing image blob(s)`)
+    }
+
+    return { data: sortEntitySets(data), segment }
+  }
+
+  /**
+   * 删除一个备份段，后续的增量段会吸收它的变化，不影响其他时间点的恢复
+   */
+  async removeSegment(backupId: string): Promise<boolean> {
+    const removed = await db.transaction('rw', [db.backupChains, db.backupSegments], async () => {
+      const segment = await db.backupSegments.get(backupId)
+      if (!segment) return false
+
+      const chain = await db.backupChains.get(segment.chainId)
+      const successor = await db.backupSegments
+        .where('[chainId+sequence]')
+        .between([segment.chainId, segment.sequence], [segment.chainId, Infinity], false, true)
+        .first()
+
+      if (successor && successor.type === 'incremental') {
+        if (segment.type === 'full') {
+          await this.rebase(successor)
+        } else {
+          await db.backupSegments.put(this.mergeDeltas(segment, successor))
+        }
+      }
+
+      await db.backupSegments.delete(backupId)
+
+      if (!successor && chain) {
+        // 删除的是链头，按剩余的链重新计算指纹，链为空时下次备份从完整段开始
+        const remaining = await this.loadSegments(segment.chainId, Infinity)
+        if (remaining.length === 0) {
+          await db.backupChains.delete(chain.id)
+        } else {
+          const state = this.replay(remaining)
+          const fingerprints: BackupChainRecord['fingerprints'] = {}
+          state.forEach((entities, type) => {
+            fingerprints[type] = {}
+            entities.forEach((entity, key) => {
+              fingerprints[type][key] = entityFingerprint(entity)
+            })
+          })
+          await db.backupChains.put({
+            ...chain,
+            headSequence: remaining[remaining.length - 1].sequence,
+            fingerprints,
+            updatedAt: new Date()
+          })
+        }
+      }
+
+      return true
+    })
+
+    if (removed) {
+      await this.sweepBlobs()
+    }
+    return removed
+  }
+
+  /**
+   * 压缩链：只保留最新的 maxLength 段，最早保留的一段改写为完整的基础段，更早的段被删除
+   */
+  async compact(chainId: string, maxLength?: number): Promise<string[]> {
+    const removed = await db.transaction('rw', [db.backupChains, db.backupSegments], async () => {
+      const chain = await db.backupChains.get(chainId)
+      if (!chain) return []
+
+      const limit = Math.max(1, maxLength ?? chain.maxLength)
+      const segments = await db.backupSegments.where('chainId').equals(chainId).sortBy('sequence')
+      if (segments.length <= limit) return []
+
+      const obsolete = segments.slice(0, segments.length - limit)
+      const newBase = segments[segments.length - limit]
+      if (newBase.type === 'incremental') {
+        await this.rebase(newBase)
+      }
+      await db.backupSegments.bulkDelete(obsolete.map(segment => segment.id))
+
+      if (maxLength !== undefined && maxLength !== chain.maxLength) {
+        await db.backupChains.update(chainId, { maxLength })
+      }
+      return obsolete.map(segment => segment.id)
+    })
+
+    if (removed.length > 0) {
+      await this.sweepBlobs()
+    }
+    return removed
+  }
+
+  /**
+   * 压缩所有超过各自长度上限的链
+   */
+  async compactAll(): Promise<Record<string, string[]>> {
+    const result: Record<string, string[]> = {}
+    for (const chain of await db.backupChains.toArray()) {
+      const removed = await this.compact(chain.id)
+      if (removed.length > 0) {
+        result[chain.id] = removed
+      }
+    }
+    return result
+  }
+
+  /**
+   * 删除整条链
+   */
+  async deleteChain(chainId: string): Promise<void> {
+    await db.transaction('rw', [db.backupChains, db.backupSegments], async () => {
+      await db.backupSegments.where('chainId').equals(chainId).delete()
+      await db.backupChains.delete(chainId)
+    })
+    await this.sweepBlobs()
+  }
+
+  /**
+   * 删除不再被任何备份段引用的图片数据
+   */
+  async sweepBlobs(): Promise<number> {
+    return db.transaction('rw', [db.backupSegments, db.backupBlobs], async () => {
+      const referenced = new Set<string>()
+      await db.backupSegments.each(segment => {
+        segment.blobs.forEach(hash => referenced.add(hash))
+      })
+
+      const unreferenced = (await db.backupBlobs.toCollection().primaryKeys())
+        .filter(hash => !referenced.has(hash))
+      if (unreferenced.length > 0) {
+        await db.backupBlobs.bulkDelete(unreferenced)
+      }
+      return unreferenced.length
+    })
+  }
+
+  /**
+   * 获取链的存储统计
+   */
+  async getStats(): Promise<{ chains: number; segments: number; segmentSize: number; blobs: number; blobSize: number }> {
+    const segments = await db.backupSegments.toArray()
+    const blobs = await db.backupBlobs.toArray()
+    return {
+      chains: await db.backupChains.count(),
+      segments: segments.length,
+      segmentSize: segments.reduce((sum, segment) => sum + segment.size, 0),
+      blobs: blobs.length,
+      blobSize: blobs.reduce((sum, blob) => sum + blob.size, 0)
+    }
+  }
+
+  // ============================================================================
+  // 内部方法
+  // ============================================================================
+
+  /**
+   * 读取重建某一段所需的段：该段之前最近的完整段到该段本身
+   */
+  private async loadSegments(chainId: string, sequence: number): Promise<BackupSegment[]> {
+    const segments = await db.backupSegments
+      .where('[chainId+sequence]')
+      .between([chainId, -Infinity], [chainId, sequence], true, true)
+      .toArray()
+
+    let baseIndex = -1
+    segments.forEach((segment, index) => {
+      if (segment.type === 'full') baseIndex = index
+    })
+    if (baseIndex < 0) {
+      if (segments.length > 0) {
+        throw new Error(`Backup chain ${chainId} has no full base segment`)
+      }
+      return []
+    }
+    return segments.slice(baseIndex)
+  }
+
+  /**
+   * 依次应用各段，得到实体类型 -> 实体键 -> 实体（图片仍为 cas: 引用）
+   */
+  private replay(segments: BackupSegment[]): Map<string, Map<string, BackupEntity>> {
+    let state = new Map<string, Map<string, BackupEntity>>()
+
+    segments.forEach(segment => {
+      if (segment.type === 'full') {
+        state = new Map()
+      }
+      Object.entries(segment.entities).forEach(([type, change]) => {
+        const entities = state.get(type) ?? new Map<string, BackupEntity>()
+        change.upserts.forEach(entity => entities.set(entityKey(entity), entity))
+        change.deletes.forEach(key => entities.delete(key))
+        state.set(type, entities)
+      })
+    })
+
+    return state
+  }
+
+  /**
+   * 把增量段改写为包含该时刻全部实体的完整段
+   */
+  private async rebase(segment: BackupSegment): Promise<void> {
+    const segments = await this.loadSegments(segment.chainId, segment.sequence)
+    const state = this.replay(segments)
+    const candidates = new Set(segments.flatMap(item => item.blobs))
+
+    const entities: BackupSegment['entities'] = {}
+    state.forEach((items, type) => {
+      entities[type] = { upserts: Array.from(items.values()), deletes: [] }
+    })
+
+    await db.backupSegments.put({
+      ...segment,
+      type: 'full',
+      entities,
+      blobs: this.referencedBlobs(entities, candidates),
+      size: estimateSize(entities)
+    })
+  }
+
+  /**
+   * 把较早的增量合并进紧随其后的增量，后者的修改优先
+   */
+  private mergeDeltas(earlier: BackupSegment, later: BackupSegment): BackupSegment {
+    const entities: BackupSegment['entities'] = {}
+    const types = new Set([...Object.keys(earlier.entities), ...Object.keys(later.entities)])
+
+    types.forEach(type => {
+      const first = earlier.entities[type] ?? { upserts: [], deletes: [] }
+      const second = later.entities[type] ?? { upserts: [], deletes: [] }
+      const upserts = new Map<string, BackupEntity>()
+      const deletes = new Set<string>(first.deletes)
+
+      first.upserts.forEach(entity => upserts.set(entityKey(entity), entity))
+      second.upserts.forEach(entity => {
+        const key = entityKey(entity)
+        upserts.set(key, entity)
+        deletes.delete(key)
+      })
+      second.deletes.forEach(key => {
+        upserts.delete(key)
+        deletes.add(key)
+      })
+
+      entities[type] = { upserts: Array.from(upserts.values()), deletes: Array.from(deletes) }
+    })
+
+    const candidates = new Set([...earlier.blobs, ...later.blobs])
+    return {
+      ...later,
+      entities,
+      blobs: this.referencedBlobs(entities, candidates),
+      size: estimateSize(entities)
+    }
+  }
+
+  /**
+   * 把实体中的 data: URL 换成 cas:<sha256> 引用
+   */
+  private async extractBlobs(entities: BackupSegment['entities']): Promise<{
+    stripped: BackupSegment['entities']
+    blobs: Map<string, string>
+  }> {
+    const dataUrls = new Set<string>()
+    forEachString(entities, text => {
+      for (const match of text.match(BLOB_PATTERN) ?? []) {
+        if (match.length >= MIN_BLOB_LENGTH) dataUrls.add(match)
+      }
+    })
+
+    const blobs = new Map<string, string>()
+    const hashes = new Map<string, string>()
+    for (const dataUrl of dataUrls) {
+      const hash = await sha256Hex(dataUrl)
+      blobs.set(hash, dataUrl)
+      hashes.set(dataUrl, hash)
+    }
+
+    const stripped = hashes.size === 0
+      ? entities
+      : mapStrings(entities, text => text.replace(BLOB_PATTERN, match => {
+          const hash = hashes.get(match)
+          return hash ? `cas:${hash}` : match
+        }))
+
+    return { stripped, blobs }
+  }
+
+  private referencedBlobs(entities: BackupSegment['entities'], candidates: Set<string>): string[] {
+    const referenced = new Set<string>()
+    forEachString(entities, text => {
+      for (const match of text.matchAll(BLOB_REF_PATTERN)) {
+        if (candidates.has(match[1])) referenced.add(match[1])
+      }
+    })
+    return Array.from(referenced)
+  }
+}
+
+// 导出单例实例
+export const backupChainService = new BackupChainService()
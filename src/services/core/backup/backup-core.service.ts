@@ -7,6 +7,8 @@ import { db, DbCard, DbFolder, DbTag, DbImage, AppSettings } from '../../databas
 import { fileSystemService } from '../../file-system'
 import { DataValidatorService, BackupMetadata } from '../../data-validator'
 import { SecureStorage } from '../../utils/secure-storage'
+import { remoteBackupService, toBackupMetadata } from './remote-backup.service'
+import { backupChainService, sortEntitySets } from './backup-chain.service'
 
 // ============================================================================
 // 核心类型定义
@@ -87,6 +89,19 @@ export interface StorageLocation {
   config?: any
 }
 
+// 备份数据中各类实体的数量，未包含的类型为 0
+function countEntities(data: any): BackupMetadata['entities'] {
+  const count = (key: string) => Array.isArray(data?.[key]) ? data[key].length : 0
+  return {
+    cards: count('cards'),
+    folders: count('folders'),
+    tags: count('tags'),
+    images: count('images'),
+    settings: count('settings'),
+    syncQueue: count('syncQueue')
+  }
+}
+
 // ============================================================================
 // 备份核心服务类
 // ============================================================================
@@ -150,6 +165,23 @@ export class BackupCoreService {
     }
 
     this.backupConfigs.set('default', defaultConfig)
+
+    // 远程备份：压缩和加密由各个目标按自己的设置处理
+    this.backupConfigs.set('remote', {
+      ...defaultConfig,
+      id: 'remote',
+      name: '远程备份配置',
+      autoBackup: false,
+      interval: 24 * 60 * 60 * 1000, // 1天
+      compression: false,
+      encryption: false,
+      include: { ...defaultConfig.include, syncQueue: false },
+      storage: {
+        primary: 'cloud'
+      },
+      incremental: undefined,
+      differential: undefined
+    })
   }
 
   /**
@@ -180,6 +212,21 @@ export class BackupCoreService {
     } catch (error) {
       console.warn('File system storage not available:', error)
     }
+
+    // 远程存储，有启用的备份目标时可用
+    const updateCloudLocation = () => {
+      this.storageLocations.set('cloud', {
+        id: 'cloud',
+        name: '远程备份目标',
+        type: 'cloud',
+        available: remoteBackupService.getEnabledTargets().length > 0,
+        capacity: { used: 0, total: 0 },
+        lastUsed: new Date(),
+        config: { targets: remoteBackupService.getEnabledTargets().map(target => target.id) }
+      })
+    }
+    updateCloudLocation()
+    remoteBackupService.onChange(updateCloudLocation)
   }
 
   /**
@@ -257,6 +304,11 @@ export class BackupCoreService {
       // 收集备份数据
       const backupData = await this.collectBackupData(config, warnings)
 
+      // 增量备份链只保存变化的实体，图片按内容去重
+      if (this.usesBackupChain(config)) {
+        return await this.createChainBackup(config, backupData, options, warnings, startTime)
+      }
+
       // 压缩数据
       const compressedData = await this.compressData(backupData, config.compression)
 
@@ -324,6 +376,71 @@ export class BackupCoreService {
     }
   }
 
+  /**
+   * 是否使用增量备份链，链保存在 IndexedDB 中
+   */
+  private usesBackupChain(config: BackupConfig): boolean {
+    return !!config.incremental?.enabled && config.storage.primary === 'indexeddb'
+  }
+
+  /**
+   * 向配置对应的备份链追加一段
+   */
+  private async createChainBackup(
+    config: BackupConfig,
+    backupData: any,
+    options: { name?: string; description?: string } | undefined,
+    warnings: string[],
+    startTime: number
+  ): Promise<BackupResult> {
+    const backupId = this.generateBackupId()
+    const timestamp = new Date()
+    const originalSize = new Blob([JSON.stringify(backupData)]).size
+
+    const segment = await backupChainService.append(config.id, backupData, {
+      backupId,
+      timestamp,
+      maxChainLength: config.incremental?.maxChainLength
+    })
+
+    const metadata: BackupMetadata = {
+      id: backupId,
+      configId: config.id,
+      name: options?.name || `Backup ${timestamp.toISOString()}`,
+      description: options?.description || '',
+      timestamp,
+      type: segment.type,
+      version: '1.0',
+      // 链重建出的数据按实体键排序，校验和也在排序后的数据上计算
+      checksum: await this.calculateChecksum(sortEntitySets(backupData)),
+      size: originalSize,
+      compressedSize: segment.size,
+      encrypted: false,
+      entities: countEntities(backupData),
+      metadata: {
+        deviceInfo: await this.getDeviceInfo(),
+        storageQuota: { used: 0, total: 0 },
+        databaseStats: null
+      },
+      chain: { id: config.id, sequence: segment.sequence }
+    }
+    await backupChainService.setSegmentMetadata(backupId, metadata)
+
+    await this.updateBackupChain(config.id, metadata, backupData)
+    await this.cleanupOldBackups(config)
+
+    return {
+      success: true,
+      backupId,
+      metadata,
+      size: segment.size,
+      compressionRatio: originalSize > 0 ? segment.size / originalSize : undefined,
+      warnings,
+      duration: Date.now() - startTime,
+      backupType: segment.type
+    }
+  }
+
   /**
    * 检查存储空间
    */
@@ -336,6 +453,16 @@ export class BackupCoreService {
       return { hasSpace: false, message: 'Storage not available' }
     }
 
+    // 远程目标不报告容量，由服务端在上传时拒绝
+    if (storage.type === 'cloud') {
+      return { hasSpace: true, message: 'Remote capacity is managed by the backup targets' }
+    }
+
+    // 容量尚未测量时不做检查
+    if (storage.capacity.total === 0) {
+      return { hasSpace: true, message: 'Storage capacity unknown' }
+    }
+
     // 简化的空间检查
     const estimatedSize = 50 * 1024 * 1024 // 50MB 估算
     const availableSpace = storage.capacity.total - storage.capacity.used
@@ -460,15 +587,16 @@ export class BackupCoreService {
     metadata: BackupMetadata,
     storageType: 'indexeddb' | 'filesystem' | 'cloud'
   ): Promise<void> {
+    const name = metadata.name || metadata.id
     switch (storageType) {
       case 'indexeddb':
-        await this.saveToIndexedDB(data, metadata, metadata.name)
+        await this.saveToIndexedDB(data, metadata, name)
         break
       case 'filesystem':
-        await this.saveToFileSystem(data, metadata, metadata.name)
+        await this.saveToFileSystem(data, metadata, name)
         break
       case 'cloud':
-        await this.saveToCloud(data, metadata, metadata.name)
+        await this.saveToCloud(data, metadata, name)
         break
     }
   }
@@ -509,9 +637,15 @@ export class BackupCoreService {
    * 保存到云端
    */
   private async saveToCloud(data: any, metadata: BackupMetadata, name: string): Promise<void> {
-    // 云端存储实现
-    console.warn('Cloud storage not implemented yet')
-    throw new Error('Cloud storage not implemented')
+    const result = await remoteBackupService.upload(data, {
+      id: metadata.id,
+      name,
+      timestamp: metadata.timestamp,
+      type: metadata.type
+    })
+    result.errors.forEach(error => {
+      console.warn(`Remote backup to ${error.targetId} failed:`, error.message)
+    })
   }
 
   /**
@@ -610,6 +744,9 @@ export class BackupCoreService {
    * 清理旧备份
    */
   private async cleanupOldBackups(config: BackupConfig): Promise<void> {
+    // 远程目标按各自的保留策略清理
+    if (config.storage.primary === 'cloud') return
+
     try {
       const cutoffDate = new Date()
       cutoffDate.setDate(cutoffDate.getDate() - config.retention.days)
@@ -638,15 +775,21 @@ export class BackupCoreService {
       switch (storageType) {
         case 'indexeddb':
           const backups = await db.backups.toArray()
-          return backups.map(backup => backup.metadata)
+          const restorePoints = await backupChainService.getRestorePoints()
+          return [
+            ...backups.map(backup => backup.metadata),
+            ...restorePoints
+              .filter(point => point.metadata && this.backupConfigs.has(point.chainId))
+              .map(point => point.metadata as BackupMetadata)
+          ]
 
         case 'filesystem':
           // 从文件系统获取备份列表
           return []
 
         case 'cloud':
-          // 从云端获取备份列表
-          return []
+          const entries = await remoteBackupService.listAllBackups()
+          return entries.map(entry => toBackupMetadata(entry.manifest))
 
         default:
           return []
@@ -664,7 +807,10 @@ export class BackupCoreService {
     try {
       switch (storageType) {
         case 'indexeddb':
-          await db.backups.delete(backupId)
+          // 链中的段被删除时，其变化并入下一段
+          if (!await backupChainService.removeSegment(backupId)) {
+            await db.backups.delete(backupId)
+          }
           break
 
         case 'filesystem':
@@ -672,7 +818,9 @@ export class BackupCoreService {
           break
 
         case 'cloud':
-          // 从云端删除
+          for (const target of remoteBackupService.getEnabledTargets()) {
+            await remoteBackupService.deleteBackup(target.id, backupId)
+          }
           break
       }
     } catch (error) {
@@ -686,6 +834,7 @@ export class BackupCoreService {
   async restoreBackup(backupId: string, options?: {
     validateOnly?: boolean
     conflictResolution?: 'overwrite' | 'merge' | 'skip'
+    remote?: { targetId: string; passphrase?: string } // 从指定的远程目标下载
   }): Promise<RestoreResult> {
     try {
       if (this.isRestoreInProgress) {
@@ -695,7 +844,7 @@ export class BackupCoreService {
       this.isRestoreInProgress = true
 
       // 查找备份
-      const backup = await this.findBackup(backupId)
+      const backup = await this.findBackup(backupId, options?.remote)
       if (!backup) {
         throw new Error(`Backup ${backupId} not found`)
       }
@@ -736,12 +885,25 @@ export class BackupCoreService {
   /**
    * 查找备份
    */
-  private async findBackup(backupId: string): Promise<{
+  private async findBackup(backupId: string, remote?: { targetId: string; passphrase?: string }): Promise<{
     data: any
     metadata: BackupMetadata
   } | null> {
+    // 远程备份下载失败（口令错误、完整性校验失败）时直接报告原因
+    if (remote) {
+      const downloaded = await remoteBackupService.download(remote.targetId, backupId, remote.passphrase)
+      return { data: downloaded.data, metadata: downloaded.metadata }
+    }
+
     try {
-      // 首先从IndexedDB查找
+      // 增量备份链中的备份由基础段和之后的增量重建
+      const segment = await backupChainService.getSegment(backupId)
+      if (segment?.metadata) {
+        const restored = await backupChainService.restore(backupId)
+        return { data: restored.data, metadata: segment.metadata }
+      }
+
+      // 从IndexedDB查找
       const backup = await db.backups.get(backupId)
       if (backup) {
         return {
@@ -750,8 +912,9 @@ export class BackupCoreService {
         }
       }
 
-      // 从其他存储位置查找...
-      return null
+      // 从远程目标查找
+      const downloaded = await remoteBackupService.findAndDownload(backupId)
+      return downloaded && { data: downloaded.data, metadata: downloaded.metadata }
 
     } catch (error) {
       console.error('Failed to find backup:', error)
@@ -1043,6 +1206,39 @@ export class BackupCoreService {
     }
   }
 
+  /**
+   * 获取本地保存的备份列表（从新到旧）
+   */
+  async listBackups(): Promise<BackupMetadata[]> {
+    const backups = await this.getBackupsByConfig('indexeddb')
+    return backups.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+  }
+
+  /**
+   * 读取备份内容但不写入数据库，用于只读浏览
+   */
+  async readBackup(backupId: string): Promise<{ data: any; metadata: BackupMetadata }> {
+    const backup = await this.findBackup(backupId)
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`)
+    }
+
+    return { data: this.unpackData(backup.data), metadata: backup.metadata }
+  }
+
+  /**
+   * 还原 compressData/encryptData 生成的字符串
+   */
+  private unpackData(data: any): any {
+    if (typeof data !== 'string') return data
+
+    try {
+      return JSON.parse(data)
+    } catch {
+      return JSON.parse(atob(data))
+    }
+  }
+
   /**
    * 测试存储位置
    */
@@ -1077,6 +1273,18 @@ export class BackupCoreService {
         await db.backups.delete(testId)
       }
 
+      if (storageType === 'cloud') {
+        const failures: string[] = []
+        for (const target of remoteBackupService.getEnabledTargets()) {
+          await remoteBackupService.testTarget(target).catch(error => {
+            failures.push(`${target.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          })
+        }
+        if (failures.length > 0) {
+          throw new Error(failures.join('; '))
+        }
+      }
+
       return {
         available: true,
         message: 'Storage location is working properly',
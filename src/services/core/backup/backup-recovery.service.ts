@@ -3,7 +3,10 @@
  * 提供备份恢复、数据重建和灾难恢复功能
  */
 
-import { BackupMetadata } from '../data-validator'
+import { Table } from 'dexie'
+import { BackupMetadata } from '../../data-validator'
+import { db } from '../../database-unified'
+import { backupChainService, BackupRestorePoint } from './backup-chain.service'
 
 // ============================================================================
 // 恢复系统类型定义
@@ -320,6 +323,28 @@ export class BackupRecoveryService {
     }
   }
 
+  /**
+   * 恢复到增量备份链中某一时刻的状态，使用该时刻或之前最新的备份段
+   */
+  async startPointInTimeRecovery(
+    chainId: string,
+    pointInTime: Date,
+    options: RecoveryOptions
+  ): Promise<RecoverySession> {
+    const point = await backupChainService.findRestorePoint(chainId, pointInTime)
+    if (!point) {
+      throw new Error(`No backup in chain ${chainId} at or before ${pointInTime.toISOString()}`)
+    }
+    return this.startRecoverySession(point.id, options)
+  }
+
+  /**
+   * 获取可恢复的时间点，按时间从新到旧排列
+   */
+  async getRestorePoints(chainId?: string): Promise<BackupRestorePoint[]> {
+    return backupChainService.getRestorePoints(chainId)
+  }
+
   /**
    * 执行恢复会话
    */
@@ -439,37 +464,15 @@ export class BackupRecoveryService {
     metadata: BackupMetadata
   } | null> {
     try {
-      // 这里应该从实际存储中加载备份数据
-      // 现在返回模拟数据
-      return {
-        data: {
-          cards: [],
-          folders: [],
-          tags: [],
-          settings: []
-        },
-        metadata: {
-          id: backupId,
-          configId: 'default',
-          name: 'Mock Backup',
-          timestamp: new Date(),
-          type: 'full',
-          size: 1024 * 1024,
-          checksum: 'mock-checksum',
-          compression: true,
-          encryption: false,
-          include: {
-            cards: true,
-            folders: true,
-            tags: true,
-            images: false,
-            settings: true,
-            syncQueue: true
-          },
-          deviceId: 'mock-device',
-          version: '1.0'
-        }
+      // 增量备份链中的备份按基础段和之后的增量重建
+      const segment = await backupChainService.getSegment(backupId)
+      if (segment?.metadata) {
+        const restored = await backupChainService.restore(backupId)
+        return { data: restored.data, metadata: segment.metadata }
       }
+
+      const backup = await db.backups.get(backupId) as any
+      return backup ? { data: backup.data, metadata: backup.metadata } : null
     } catch (error) {
       console.error('Failed to load backup for recovery:', error)
       return null
@@ -636,18 +639,35 @@ export class BackupRecoveryService {
     entityType: string,
     entity: any
   ): Promise<void> {
-    // 这里应该根据实体类型调用相应的数据库操作
-    // 现在使用模拟操作
-    console.log(`Restoring ${entityType} ${entity.id}`)
-
-    // 模拟数据库操作
-    await new Promise(resolve => setTimeout(resolve, 50))
+    const table = this.getEntityTable(entityType)
+    if (!table) {
+      throw new Error(`Unsupported entity type: ${entityType}`)
+    }
 
     // 检查冲突
+    let record = entity
     const conflict = await this.checkEntityConflict(entityType, entity)
     if (conflict) {
-      await this.handleEntityConflict(session, entityType, entity, conflict)
+      record = await this.handleEntityConflict(session, entityType, entity, conflict)
+      if (!record) return
+    }
+
+    await table.put(record)
+  }
+
+  /**
+   * 实体类型对应的数据表
+   */
+  private getEntityTable(entityType: string): Table<any, any> | undefined {
+    const tables: Record<string, Table<any, any>> = {
+      cards: db.cards,
+      folders: db.folders,
+      tags: db.tags,
+      images: db.images,
+      settings: db.settings,
+      syncQueue: db.syncQueue
     }
+    return tables[entityType]
   }
 
   /**
@@ -658,12 +678,12 @@ export class BackupRecoveryService {
     existing: any
     conflict: string
   } | null> {
-    // 这里应该检查数据库中是否已存在相同ID的实体
-    // 现在返回模拟结果
-    if (Math.random() < 0.1) { // 10%概率模拟冲突
+    const table = this.getEntityTable(entityType)
+    const existing = table && entity.id !== undefined ? await table.get(entity.id) : undefined
+    if (existing) {
       return {
         type: entityType,
-        existing: { id: entity.id, name: 'Existing entity' },
+        existing,
         conflict: 'Entity with same ID already exists'
       }
     }
@@ -678,7 +698,7 @@ export class BackupRecoveryService {
     entityType: string,
     entity: any,
     conflict: any
-  ): Promise<void> {
+  ): Promise<any | null> {
     const resolution = session.options.conflictResolution
 
     session.results.conflicts.push({
@@ -692,22 +712,18 @@ export class BackupRecoveryService {
     switch (resolution) {
       case 'overwrite':
         // 覆盖现有数据
-        console.log(`Overwriting existing ${entityType} ${entity.id}`)
-        break
+        return entity
       case 'merge':
-        // 合并数据
-        console.log(`Merging ${entityType} ${entity.id}`)
-        break
+        // 合并数据，备份中的字段优先
+        return { ...conflict.existing, ...entity }
       case 'skip':
         // 跳过这个实体
-        console.log(`Skipping ${entityType} ${entity.id}`)
-        return
+        return null
       case 'rename':
         // 重命名新实体
-        entity.id = `${entity.id}_restored_${Date.now()}`
-        console.log(`Renamed ${entityType} to ${entity.id}`)
-        break
+        return { ...entity, id: `${entity.id}_restored_${Date.now()}` }
     }
+    return entity
   }
 
   /**
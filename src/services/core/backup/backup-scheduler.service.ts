@@ -3,7 +3,8 @@
  * 提供自动备份调度、定时任务和智能调度功能
  */
 
-import { BackupConfig, StorageLocation } from './backup-core.service'
+import { BackupConfig, StorageLocation, backupCoreService } from './backup-core.service'
+import { backupChainService } from './backup-chain.service'
 
 // ============================================================================
 // 调度系统类型定义
@@ -532,11 +533,18 @@ export class BackupSchedulerService {
         this.sendNotification('backup-start', `开始执行备份: ${schedule.name}`)
       }
 
-      // 这里应该调用实际的备份服务
       console.log(`Executing scheduled backup: ${schedule.name}`, reason)
 
-      // 模拟备份执行
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      const result = await backupCoreService.createBackup(schedule.configId, {
+        name: schedule.name,
+        description: reason ? `Scheduled backup (${reason})` : 'Scheduled backup'
+      })
+      if (!result.success) {
+        throw new Error(result.warnings[0] || 'Backup failed')
+      }
+
+      // 增量备份链超过长度上限时合并最早的段
+      await this.compactBackupChains()
 
       // 更新成功统计
       schedule.stats.successfulRuns++
@@ -576,6 +584,23 @@ export class BackupSchedulerService {
     this.saveSchedules()
   }
 
+  /**
+   * 压缩所有增量备份链，失败不影响本次备份的结果
+   */
+  async compactBackupChains(): Promise<number> {
+    try {
+      const removed = await backupChainService.compactAll()
+      const count = Object.values(removed).reduce((sum, ids) => sum + ids.length, 0)
+      if (count > 0) {
+        console.log(`Compacted backup chains: ${count} segments merged into new bases`)
+      }
+      return count
+    } catch (error) {
+      console.warn('Backup chain compaction failed:', error)
+      return 0
+    }
+  }
+
   /**
    * 发送通知
    */
@@ -0,0 +1,386 @@
+/**
+ * 远程备份目标
+ *
+ * 每个目标只负责在配置的目录/前缀下读写、删除和列举对象，
+ * 压缩、加密、清单和保留策略由 RemoteBackupService 统一处理。
+ * WebDAV 和 S3 使用各自的列举接口；通用 HTTP PUT 端点没有列举方式，由目标自己维护 index.json。
+ */
+
+import {
+  BackupTarget,
+  BackupTargetConfig,
+  BackupTargetType,
+  HttpPutTargetSettings,
+  RemoteObjectInfo,
+  S3TargetSettings,
+  WebDavTargetSettings
+} from '@/types/backup-target'
+
+const REQUEST_TIMEOUT = 120000
+const TEST_OBJECT_NAME = '.cardall-write-test'
+
+/**
+ * 目标请求失败，offline 表示网络不可达（而不是服务端拒绝）
+ */
+export class BackupTargetError extends Error {
+  constructor(message: string, readonly offline = false, readonly status?: number) {
+    super(message)
+    this.name = 'BackupTargetError'
+  }
+}
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+const textEncoder = new TextEncoder()
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? textEncoder.encode(data) : data
+  return toHex(await crypto.subtle.digest('SHA-256', bytes as BufferSource))
+}
+
+async function hmacSha256(key: Uint8Array | ArrayBuffer, message: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, textEncoder.encode(message))
+}
+
+// RFC 3986 编码，S3 签名要求比 encodeURIComponent 更严格
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function trimSlashes(value: string): string {
+  return value.replace(/^\/+|\/+$/g, '')
+}
+
+async function send(fetcher: typeof fetch, url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetcher(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT) })
+  } catch (error) {
+    throw new BackupTargetError(error instanceof Error ? error.message : 'Network request failed', true)
+  }
+}
+
+function ensureOk(response: Response, action: string): Response {
+  if (!response.ok) {
+    throw new BackupTargetError(`${action} failed: server responded with ${response.status}`, false, response.status)
+  }
+  return response
+}
+
+async function readBody(response: Response): Promise<Uint8Array> {
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+function parseXml(text: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new BackupTargetError('Server returned an invalid XML response')
+  }
+  return document
+}
+
+// 按本地名读取子元素文本，忽略命名空间前缀
+function childText(element: Element, localName: string): string | undefined {
+  const child = Array.from(element.getElementsByTagName('*')).find(node => node.localName === localName)
+  return child?.textContent ?? undefined
+}
+
+async function writeTestObject(target: BackupTarget): Promise<void> {
+  await target.put(TEST_OBJECT_NAME, textEncoder.encode(new Date().toISOString()), 'text/plain')
+  await target.delete(TEST_OBJECT_NAME)
+}
+
+// ============================================================================
+// WebDAV
+// ============================================================================
+
+export class WebDavBackupTarget implements BackupTarget {
+  readonly type: BackupTargetType = 'webdav'
+
+  constructor(private readonly settings: WebDavTargetSettings, private readonly fetchImpl?: typeof fetch) {}
+
+  async test(): Promise<void> {
+    await this.ensureCollection()
+    await writeTestObject(this)
+  }
+
+  async put(name: string, body: Uint8Array, contentType: string): Promise<void> {
+    const upload = () => this.request('PUT', name, { body: body as BodyInit, headers: { 'Content-Type': contentType } })
+    let response = await upload()
+    // 集合不存在时先创建再重试
+    if (response.status === 409 || response.status === 404) {
+      await this.ensureCollection()
+      response = await upload()
+    }
+    ensureOk(response, `Uploading ${name}`)
+  }
+
+  async get(name: string): Promise<Uint8Array> {
+    return readBody(ensureOk(await this.request('GET', name), `Downloading ${name}`))
+  }
+
+  async delete(name: string): Promise<void> {
+    const response = await this.request('DELETE', name)
+    if (response.status !== 404) ensureOk(response, `Deleting ${name}`)
+  }
+
+  async list(): Promise<RemoteObjectInfo[]> {
+    const response = await this.request('PROPFIND', '', {
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: '<?xml version="1.0" encoding="utf-8"?>'
+        + '<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getcontentlength/><d:getlastmodified/></d:prop></d:propfind>'
+    })
+    if (response.status === 404) return []
+    const document = parseXml(await ensureOk(response, 'Listing backups').text())
+
+    return Array.from(document.getElementsByTagNameNS('DAV:', 'response')).flatMap(entry => {
+      const isCollection = entry.getElementsByTagNameNS('DAV:', 'collection').length > 0
+      const href = childText(entry, 'href')
+      if (isCollection || !href) return []
+
+      const name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() ?? '')
+      const lastModified = childText(entry, 'getlastmodified')
+      return [{
+        name,
+        size: Number(childText(entry, 'getcontentlength') ?? 0),
+        lastModified: lastModified ? new Date(lastModified) : undefined
+      }]
+    })
+  }
+
+  private async ensureCollection(): Promise<void> {
+    const response = await this.request('PROPFIND', '', { headers: { Depth: '0' } })
+    if (response.status !== 404) {
+      ensureOk(response, 'Checking backup folder')
+      return
+    }
+    // 405 表示集合已存在（并发创建）
+    const created = await this.request('MKCOL', '')
+    if (created.status !== 405) ensureOk(created, 'Creating backup folder')
+  }
+
+  private request(method: string, name: string, init: RequestInit = {}): Promise<Response> {
+    const { url, username, password } = this.settings
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) }
+    if (username) {
+      headers.Authorization = `Basic ${btoa(String.fromCharCode(...textEncoder.encode(`${username}:${password ?? ''}`)))}`
+    }
+    const base = `${url.replace(/\/+$/, '')}/`
+    return send(this.fetchImpl ?? fetch, name ? base + encodeURIComponent(name) : base, { ...init, method, headers })
+  }
+}
+
+// ============================================================================
+// S3 兼容对象存储（AWS Signature V4，路径风格地址，兼容 MinIO）
+// ============================================================================
+
+export class S3BackupTarget implements BackupTarget {
+  readonly type: BackupTargetType = 's3'
+
+  constructor(private readonly settings: S3TargetSettings, private readonly fetchImpl?: typeof fetch) {}
+
+  test(): Promise<void> {
+    return writeTestObject(this)
+  }
+
+  async put(name: string, body: Uint8Array, contentType: string): Promise<void> {
+    ensureOk(await this.request('PUT', this.key(name), {}, body, { 'Content-Type': contentType }), `Uploading ${name}`)
+  }
+
+  async get(name: string): Promise<Uint8Array> {
+    return readBody(ensureOk(await this.request('GET', this.key(name)), `Downloading ${name}`))
+  }
+
+  async delete(name: string): Promise<void> {
+    const response = await this.request('DELETE', this.key(name))
+    if (response.status !== 404) ensureOk(response, `Deleting ${name}`)
+  }
+
+  async list(): Promise<RemoteObjectInfo[]> {
+    const prefix = this.key('')
+    const objects: RemoteObjectInfo[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix }
+      if (continuationToken) query['continuation-token'] = continuationToken
+
+      const response = ensureOk(await this.request('GET', '', query), 'Listing backups')
+      const document = parseXml(await response.text())
+      Array.from(document.getElementsByTagName('Contents')).forEach(entry => {
+        const key = childText(entry, 'Key') ?? ''
+        const lastModified = childText(entry, 'LastModified')
+        objects.push({
+          name: key.slice(prefix.length),
+          size: Number(childText(entry, 'Size') ?? 0),
+          lastModified: lastModified ? new Date(lastModified) : undefined
+        })
+      })
+
+      const root = document.documentElement
+      continuationToken = childText(root, 'IsTruncated') === 'true' ? childText(root, 'NextContinuationToken') : undefined
+    } while (continuationToken)
+
+    return objects.filter(object => object.name && !object.name.includes('/'))
+  }
+
+  private key(name: string): string {
+    const prefix = trimSlashes(this.settings.prefix ?? '')
+    return prefix ? `${prefix}/${name}` : name
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    query: Record<string, string> = {},
+    body?: Uint8Array,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.settings
+    const endpointUrl = new URL(endpoint)
+    const basePath = trimSlashes(endpointUrl.pathname)
+    const canonicalUri = '/' + [basePath, bucket, key]
+      .filter(Boolean)
+      .join('/')
+      .split('/')
+      .map(encodeRfc3986)
+      .join('/')
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&')
+
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = await sha256Hex(body ?? new Uint8Array(0))
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date'
+    const canonicalHeaders = `host:${endpointUrl.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`
+    const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n')
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n')
+    const dateKey = await hmacSha256(textEncoder.encode(`AWS4${secretAccessKey}`), dateStamp)
+    const regionKey = await hmacSha256(dateKey, region)
+    const serviceKey = await hmacSha256(regionKey, 's3')
+    const signingKey = await hmacSha256(serviceKey, 'aws4_request')
+    const signature = toHex(await hmacSha256(signingKey, stringToSign))
+
+    const url = `${endpointUrl.origin}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`
+    return send(this.fetchImpl ?? fetch, url, {
+      method,
+      body: body as BodyInit | undefined,
+      headers: {
+        ...extraHeaders,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      }
+    })
+  }
+}
+
+// ============================================================================
+// 通用 HTTP PUT 端点
+// ============================================================================
+
+const HTTP_INDEX_NAME = 'index.json'
+
+interface HttpIndexEntry {
+  name: string
+  size: number
+  lastModified: string
+}
+
+export class HttpPutBackupTarget implements BackupTarget {
+  readonly type: BackupTargetType = 'http-put'
+
+  constructor(private readonly settings: HttpPutTargetSettings, private readonly fetchImpl?: typeof fetch) {}
+
+  test(): Promise<void> {
+    return writeTestObject(this)
+  }
+
+  async put(name: string, body: Uint8Array, contentType: string): Promise<void> {
+    await this.putObject(name, body, contentType)
+    if (name === TEST_OBJECT_NAME) return
+
+    const index = (await this.readIndex()).filter(entry => entry.name !== name)
+    index.push({ name, size: body.byteLength, lastModified: new Date().toISOString() })
+    await this.writeIndex(index)
+  }
+
+  async get(name: string): Promise<Uint8Array> {
+    return readBody(ensureOk(await this.request('GET', name), `Downloading ${name}`))
+  }
+
+  async delete(name: string): Promise<void> {
+    const response = await this.request('DELETE', name)
+    if (response.status !== 404) ensureOk(response, `Deleting ${name}`)
+    if (name === TEST_OBJECT_NAME) return
+
+    const index = await this.readIndex()
+    if (index.some(entry => entry.name === name)) {
+      await this.writeIndex(index.filter(entry => entry.name !== name))
+    }
+  }
+
+  async list(): Promise<RemoteObjectInfo[]> {
+    return (await this.readIndex()).map(entry => ({
+      name: entry.name,
+      size: entry.size,
+      lastModified: new Date(entry.lastModified)
+    }))
+  }
+
+  private async readIndex(): Promise<HttpIndexEntry[]> {
+    const response = await this.request('GET', HTTP_INDEX_NAME)
+    if (response.status === 404) return []
+    const index = await ensureOk(response, 'Reading backup index').json()
+    return Array.isArray(index) ? index : []
+  }
+
+  private writeIndex(index: HttpIndexEntry[]): Promise<void> {
+    return this.putObject(HTTP_INDEX_NAME, textEncoder.encode(JSON.stringify(index)), 'application/json')
+  }
+
+  private async putObject(name: string, body: Uint8Array, contentType: string): Promise<void> {
+    ensureOk(
+      await this.request('PUT', name, { body: body as BodyInit, headers: { 'Content-Type': contentType } }),
+      `Uploading ${name}`
+    )
+  }
+
+  private request(method: string, name: string, init: RequestInit = {}): Promise<Response> {
+    const url = `${this.settings.url.replace(/\/+$/, '')}/${encodeURIComponent(name)}`
+    return send(this.fetchImpl ?? fetch, url, {
+      ...init,
+      method,
+      headers: { ...this.settings.headers, ...(init.headers as Record<string, string>) }
+    })
+  }
+}
+
+// ============================================================================
+// 目标注册表
+// ============================================================================
+
+type SettingsOf<T extends BackupTargetType> = Extract<BackupTargetConfig, { type: T }>['settings']
+type BackupTargetFactory<T extends BackupTargetType> = (settings: SettingsOf<T>, fetchImpl?: typeof fetch) => BackupTarget
+
+// 新增目标类型时在 BackupTargetConfig 中加入对应设置并在此注册
+const backupTargetFactories: { [T in BackupTargetType]: BackupTargetFactory<T> } = {
+  webdav: (settings, fetchImpl) => new WebDavBackupTarget(settings, fetchImpl),
+  s3: (settings, fetchImpl) => new S3BackupTarget(settings, fetchImpl),
+  'http-put': (settings, fetchImpl) => new HttpPutBackupTarget(settings, fetchImpl)
+}
+
+export function createBackupTarget(config: BackupTargetConfig, fetchImpl?: typeof fetch): BackupTarget {
+  const factory = backupTargetFactories[config.type] as BackupTargetFactory<BackupTargetType>
+  return factory(config.settings as SettingsOf<BackupTargetType>, fetchImpl)
+}
@@ -233,6 +233,36 @@ export class BackupValidatorService {
         throw new Error(`Backup ${backupId} not found`)
       }
 
+      const validationResult = await this.validateBackupData(backupId, backup.data, backup.metadata)
+
+      // 缓存结果
+      this.cache.set(backupId, { result: validationResult, timestamp: Date.now() })
+
+      return validationResult
+
+    } catch (error) {
+      console.error('Backup validation failed:', error)
+      return {
+        valid: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        warnings: [],
+        details: {
+          totalValidators: 0,
+          passedValidators: 0,
+          failedValidators: 0,
+          autoRepairs: 0
+        }
+      }
+    }
+  }
+
+  /**
+   * 用所有验证器验证已加载的备份数据（例如从远程目标下载的备份）
+   */
+  async validateBackupData(backupId: string, data: any, metadata: BackupMetadata): Promise<BackupValidationResult> {
+    try {
+      const backup = { data, metadata }
+
       // 执行所有验证器
       const results: ValidationResult[] = []
       let totalWeight = 0
@@ -298,9 +328,6 @@ export class BackupValidatorService {
         }
       }
 
-      // 缓存结果
-      this.cache.set(backupId, { result: validationResult, timestamp: Date.now() })
-
       // 记录验证历史
       this.recordValidationCheck(backupId, validationResult, 'system')
 
@@ -796,7 +823,7 @@ export class BackupValidatorService {
   /**
    * 计算数据校验和
    */
-  private async calculateDataChecksum(data: any): Promise<string> {
+  async calculateDataChecksum(data: any): Promise<string> {
     const jsonString = JSON.stringify(data)
 
     // 使用简单的哈希算法
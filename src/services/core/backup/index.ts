@@ -8,6 +8,15 @@ export { BackupCoreService, backupCoreService } from './backup-core.service'
 export { BackupSchedulerService, backupSchedulerService } from './backup-scheduler.service'
 export { BackupValidatorService, backupValidatorService } from './backup-validator.service'
 export { BackupRecoveryService, backupRecoveryService } from './backup-recovery.service'
+export { RemoteBackupService, remoteBackupService, RemoteBackupError } from './remote-backup.service'
+export { BackupChainService, backupChainService } from './backup-chain.service'
+export {
+  BackupTargetError,
+  WebDavBackupTarget,
+  S3BackupTarget,
+  HttpPutBackupTarget,
+  createBackupTarget
+} from './backup-targets'
 
 // 导出类型定义
 export type {
@@ -36,6 +45,20 @@ export type {
   ValidationReport
 } from './backup-validator.service'
 
+export type {
+  RemoteBackupSource,
+  RemoteUploadResult,
+  RemoteDownloadResult
+} from './remote-backup.service'
+
+export type {
+  BackupEntitySets,
+  AppendSegmentOptions,
+  BackupSegmentInfo,
+  BackupRestorePoint,
+  RestoredBackup
+} from './backup-chain.service'
+
 export type {
   RecoveryOptions,
   RecoverySession,
@@ -99,13 +122,15 @@ export const BackupModuleInfo = {
     'Comprehensive validation and repair',
     'Advanced recovery and disaster recovery',
     'Snapshot management',
+    'Incremental backup chains with deduplicated images',
     'Modular architecture'
   ],
   services: [
     'BackupCoreService - Core backup operations',
     'BackupSchedulerService - Intelligent scheduling',
     'BackupValidatorService - Data validation',
-    'BackupRecoveryService - Recovery management'
+    'BackupRecoveryService - Recovery management',
+    'BackupChainService - Incremental backup chains'
   ],
   exports: [
     'Service classes and instances',
@@ -0,0 +1,577 @@
+/**
+ * 远程备份服务
+ * 管理远程备份目标配置，负责压缩、加密上传、保留策略清理以及下载后的完整性验证
+ *
+ * 每个备份在目标上保存为两个对象：
+ * - {backupId}.cabk：魔数 + 清单长度 + 清单 JSON + 上传内容，单独下载也能恢复
+ * - {backupId}.manifest.json：清单，列举备份时只读取它；最后上传，因此只有完整的备份会被列出
+ */
+
+import {
+  BackupTarget,
+  BackupTargetConfig,
+  BackupTargetType,
+  RemoteBackupEntry,
+  RemoteBackupManifest
+} from '@/types/backup-target'
+import { VaultKdfParams } from '@/types/vault'
+import { BackupMetadata } from '../../data-validator'
+import { db } from '../../database-unified'
+import { createKdfParams, derivePassphraseKey } from '../../security/passphrase-kdf'
+import { base64ToBytes, bytesToBase64, deserializeValue, serializeValue } from '../../security/vault-cipher'
+import type { BackupEntitySets } from './backup-chain.service'
+import { createBackupTarget, sha256Hex } from './backup-targets'
+import { backupValidatorService, BackupValidationResult } from './backup-validator.service'
+
+const TARGETS_STORAGE_KEY = 'cardall-backup-targets'
+const LEGACY_KEYS_STORAGE_KEY = 'cardall-backup-target-keys' // 旧版本把派生密钥明文保存在这里
+const BACKUP_SUFFIX = '.cabk'
+const MANIFEST_SUFFIX = '.manifest.json'
+const PAYLOAD_MAGIC = 'CABK'
+const IV_LENGTH = 12
+
+// 目标设置中的凭据字段，不写入 localStorage
+const SECRET_SETTINGS: Record<BackupTargetType, string[]> = {
+  webdav: ['password'],
+  s3: ['secretAccessKey'],
+  'http-put': ['headers']
+}
+
+export type RemoteBackupErrorCode = 'passphrase-required' | 'wrong-passphrase' | 'integrity' | 'no-targets'
+
+export class RemoteBackupError extends Error {
+  constructor(message: string, readonly code: RemoteBackupErrorCode) {
+    super(message)
+    this.name = 'RemoteBackupError'
+  }
+}
+
+/**
+ * 待上传备份的描述
+ */
+export interface RemoteBackupSource {
+  id: string
+  name: string
+  description?: string
+  timestamp: Date
+  type: 'full' | 'incremental' | 'differential'
+}
+
+export interface RemoteUploadResult {
+  uploaded: string[] // 成功上传的目标 ID
+  errors: Array<{ targetId: string; message: string }>
+  pruned: number
+}
+
+export interface RemoteDownloadResult {
+  data: unknown // 上传时的备份数据（实体集合或已打包的字符串）
+  metadata: BackupMetadata
+  manifest: RemoteBackupManifest
+  validation: BackupValidationResult
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+function entityCount(data: unknown, key: string): number {
+  const entities = typeof data === 'object' && data !== null ? (data as BackupEntitySets)[key] : undefined
+  return Array.isArray(entities) ? entities.length : 0
+}
+
+// 拆出目标设置中的凭据
+function splitCredentials<T extends BackupTargetConfig>(config: T): { target: T; credentials: Record<string, unknown> } {
+  const settings: Record<string, unknown> = { ...config.settings }
+  const credentials: Record<string, unknown> = {}
+  for (const field of SECRET_SETTINGS[config.type]) {
+    if (settings[field] !== undefined) {
+      credentials[field] = settings[field]
+      delete settings[field]
+    }
+  }
+  return { target: { ...config, settings } as T, credentials }
+}
+
+function sameKdf(a?: VaultKdfParams, b?: VaultKdfParams): boolean {
+  return !!a && !!b && JSON.stringify(a) === JSON.stringify(b)
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function importAesKey(key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', key as BufferSource, { name: 'AES-GCM' }, false, [usage])
+}
+
+// 魔数(4) + 清单长度(4，大端) + 清单 + 上传内容
+function packBackup(manifest: RemoteBackupManifest, payload: Uint8Array): Uint8Array {
+  const header = textEncoder.encode(JSON.stringify(manifest))
+  const packed = new Uint8Array(8 + header.length + payload.length)
+  packed.set(textEncoder.encode(PAYLOAD_MAGIC), 0)
+  new DataView(packed.buffer).setUint32(4, header.length)
+  packed.set(header, 8)
+  packed.set(payload, 8 + header.length)
+  return packed
+}
+
+function unpackBackup(packed: Uint8Array): { manifest: RemoteBackupManifest; payload: Uint8Array } {
+  if (packed.length < 8 || textDecoder.decode(packed.subarray(0, 4)) !== PAYLOAD_MAGIC) {
+    throw new RemoteBackupError('The remote file is not a CardAll backup', 'integrity')
+  }
+  const headerLength = new DataView(packed.buffer, packed.byteOffset).getUint32(4)
+  const manifest = JSON.parse(textDecoder.decode(packed.subarray(8, 8 + headerLength))) as RemoteBackupManifest
+  return { manifest, payload: packed.subarray(8 + headerLength) }
+}
+
+// 转换为验证服务和恢复流程使用的元数据
+export function toBackupMetadata(manifest: RemoteBackupManifest): BackupMetadata {
+  return {
+    id: manifest.backupId,
+    name: manifest.name,
+    description: manifest.description,
+    timestamp: new Date(manifest.timestamp),
+    type: manifest.type,
+    version: String(manifest.version),
+    checksum: manifest.checksum,
+    size: manifest.originalSize,
+    compressedSize: manifest.size,
+    encrypted: manifest.encryption !== null,
+    entities: { ...manifest.entities, settings: 0, syncQueue: 0 },
+    metadata: {
+      deviceInfo: '',
+      storageQuota: { used: 0, total: 0 },
+      databaseStats: null
+    }
+  }
+}
+
+// ============================================================================
+// 远程备份服务类
+// ============================================================================
+
+export class RemoteBackupService {
+  private targets: BackupTargetConfig[] = []
+  private keys: Map<string, string> = new Map() // 目标 ID -> 备份口令派生的密钥（base64）
+  private listeners: Set<(targets: BackupTargetConfig[]) => void> = new Set()
+  private secretsLoaded: Promise<void> | null = null
+  private hasLegacySecrets = false
+
+  constructor() {
+    this.loadTargets()
+    this.ensureSecrets().catch(error => {
+      console.warn('Failed to load backup target credentials:', error)
+    })
+  }
+
+  /**
+   * 监听目标配置变化，返回取消监听函数
+   */
+  onChange(listener: (targets: BackupTargetConfig[]) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getTargets(): BackupTargetConfig[] {
+    return this.targets
+  }
+
+  getEnabledTargets(): BackupTargetConfig[] {
+    return this.targets.filter(target => target.enabled)
+  }
+
+  hasEncryptionKey(targetId: string): boolean {
+    return this.keys.has(targetId)
+  }
+
+  /**
+   * 新增或更新目标
+   * 开启加密时需要提供备份口令（已有密钥时可省略）。口令本身不保存，
+   * 由它派生的密钥和目标凭据保存在数据库中，只有启用保险库时才加密
+   */
+  async saveTarget(config: BackupTargetConfig, passphrase?: string): Promise<BackupTargetConfig> {
+    await this.ensureSecrets()
+
+    let encryption = config.encryption
+    if (!encryption.enabled) {
+      encryption = { enabled: false }
+      this.keys.delete(config.id)
+    } else if (passphrase) {
+      const kdf = createKdfParams('argon2id')
+      this.keys.set(config.id, bytesToBase64(await derivePassphraseKey(passphrase, kdf)))
+      encryption = { enabled: true, kdf }
+    } else if (!this.keys.has(config.id) || !encryption.kdf) {
+      throw new RemoteBackupError('Enter a backup passphrase to encrypt uploads', 'passphrase-required')
+    }
+
+    const saved = { ...config, encryption }
+    const index = this.targets.findIndex(target => target.id === config.id)
+    this.targets = index >= 0
+      ? this.targets.map(target => target.id === config.id ? saved : target)
+      : [...this.targets, saved]
+    await this.saveSecrets(saved)
+    this.saveTargets()
+    return saved
+  }
+
+  removeTarget(targetId: string): void {
+    this.targets = this.targets.filter(target => target.id !== targetId)
+    this.keys.delete(targetId)
+    this.saveTargets()
+    db.backupTargetSecrets.delete(targetId).catch(error => {
+      console.warn('Failed to remove backup target credentials:', error)
+    })
+  }
+
+  /**
+   * 测试目标能否写入和删除，失败时抛出错误
+   */
+  async testTarget(config: BackupTargetConfig): Promise<void> {
+    await createBackupTarget(config).test()
+  }
+
+  /**
+   * 上传到所有已启用的目标，至少一个成功才算成功
+   */
+  async upload(data: unknown, source: RemoteBackupSource): Promise<RemoteUploadResult> {
+    await this.ensureSecrets()
+    const targets = this.getEnabledTargets()
+    if (targets.length === 0) {
+      throw new RemoteBackupError('No remote backup target is enabled', 'no-targets')
+    }
+
+    const result: RemoteUploadResult = { uploaded: [], errors: [], pruned: 0 }
+    for (const target of targets) {
+      try {
+        result.pruned += await this.uploadToTarget(target.id, data, source)
+        result.uploaded.push(target.id)
+      } catch (error) {
+        result.errors.push({ targetId: target.id, message: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    if (result.uploaded.length === 0) {
+      throw new Error(`Remote backup failed: ${result.errors.map(error => error.message).join('; ')}`)
+    }
+    return result
+  }
+
+  /**
+   * 上传到指定目标并按保留策略清理，返回删除的旧备份数
+   */
+  async uploadToTarget(targetId: string, data: unknown, source: RemoteBackupSource): Promise<number> {
+    await this.ensureSecrets()
+    const config = this.requireTarget(targetId)
+    const target = createBackupTarget(config)
+
+    try {
+      const plaintext = textEncoder.encode(serializeValue(data))
+      let payload: Uint8Array = plaintext
+      let compression: RemoteBackupManifest['compression'] = 'none'
+      if (config.compression && typeof CompressionStream !== 'undefined') {
+        payload = await transform(payload, new CompressionStream('gzip'))
+        compression = 'gzip'
+      }
+
+      let encryption: RemoteBackupManifest['encryption'] = null
+      if (config.encryption.enabled) {
+        const key = this.keys.get(config.id)
+        if (!key || !config.encryption.kdf) {
+          throw new RemoteBackupError('Enter the backup passphrase for this target again', 'passphrase-required')
+        }
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+        const cipherKey = await importAesKey(base64ToBytes(key), 'encrypt')
+        payload = new Uint8Array(await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv, additionalData: textEncoder.encode(source.id) },
+          cipherKey,
+          payload as BufferSource
+        ))
+        encryption = { algorithm: 'AES-256-GCM', kdf: config.encryption.kdf, iv: bytesToBase64(iv) }
+      }
+
+      const manifest: RemoteBackupManifest = {
+        format: 'cardall-backup',
+        version: 1,
+        backupId: source.id,
+        name: source.name,
+        description: source.description,
+        timestamp: source.timestamp.toISOString(),
+        type: source.type,
+        checksum: await backupValidatorService.calculateDataChecksum(data),
+        payloadSha256: await sha256Hex(payload),
+        size: payload.length,
+        originalSize: plaintext.length,
+        compression,
+        encryption,
+        entities: {
+          cards: entityCount(data, 'cards'),
+          folders: entityCount(data, 'folders'),
+          tags: entityCount(data, 'tags'),
+          images: entityCount(data, 'images')
+        }
+      }
+
+      await target.put(source.id + BACKUP_SUFFIX, packBackup(manifest, payload), 'application/octet-stream')
+      await target.put(source.id + MANIFEST_SUFFIX, textEncoder.encode(JSON.stringify(manifest)), 'application/json')
+      this.updateTarget(config.id, { lastBackupAt: new Date().toISOString(), lastError: undefined })
+    } catch (error) {
+      this.updateTarget(config.id, { lastError: error instanceof Error ? error.message : 'Unknown error' })
+      throw error
+    }
+
+    try {
+      return await this.prune(config.id, target)
+    } catch (error) {
+      console.warn(`Failed to prune remote backups on ${config.name}:`, error)
+      return 0
+    }
+  }
+
+  /**
+   * 列举目标上的备份，按时间从新到旧
+   */
+  async listBackups(targetId: string): Promise<RemoteBackupEntry[]> {
+    await this.ensureSecrets()
+    return this.readManifests(targetId, createBackupTarget(this.requireTarget(targetId)))
+  }
+
+  /**
+   * 列举所有已启用目标上的备份，单个目标失败时跳过
+   */
+  async listAllBackups(): Promise<RemoteBackupEntry[]> {
+    const lists = await Promise.all(this.getEnabledTargets().map(target =>
+      this.listBackups(target.id).catch(error => {
+        console.warn(`Failed to list backups on ${target.name}:`, error)
+        return [] as RemoteBackupEntry[]
+      })
+    ))
+    return lists.flat().sort((a, b) => b.manifest.timestamp.localeCompare(a.manifest.timestamp))
+  }
+
+  /**
+   * 恢复该备份是否需要输入备份口令
+   */
+  needsPassphrase(entry: RemoteBackupEntry): boolean {
+    const { encryption } = entry.manifest
+    const config = this.targets.find(target => target.id === entry.targetId)
+    return !!encryption && !(this.keys.has(entry.targetId) && sameKdf(config?.encryption.kdf, encryption.kdf))
+  }
+
+  /**
+   * 下载备份并验证完整性
+   * 备份使用其他口令派生参数加密（例如在另一台设备上设置）时需要提供备份口令
+   */
+  async download(targetId: string, backupId: string, passphrase?: string): Promise<RemoteDownloadResult> {
+    await this.ensureSecrets()
+    const config = this.requireTarget(targetId)
+    const packed = await createBackupTarget(config).get(backupId + BACKUP_SUFFIX)
+    const { manifest, payload } = unpackBackup(packed)
+
+    if (manifest.backupId !== backupId || await sha256Hex(payload) !== manifest.payloadSha256) {
+      throw new RemoteBackupError('The downloaded backup is corrupted', 'integrity')
+    }
+
+    let plaintext = payload
+    if (manifest.encryption) {
+      const storedKey = this.keys.get(targetId)
+      let key: Uint8Array
+      if (passphrase) {
+        key = await derivePassphraseKey(passphrase, manifest.encryption.kdf)
+      } else if (storedKey && sameKdf(config.encryption.kdf, manifest.encryption.kdf)) {
+        key = base64ToBytes(storedKey)
+      } else {
+        throw new RemoteBackupError('This backup was encrypted with a different passphrase', 'passphrase-required')
+      }
+
+      try {
+        plaintext = new Uint8Array(await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: base64ToBytes(manifest.encryption.iv) as BufferSource,
+            additionalData: textEncoder.encode(manifest.backupId)
+          },
+          await importAesKey(key, 'decrypt'),
+          payload as BufferSource
+        ))
+      } catch {
+        throw new RemoteBackupError('Incorrect backup passphrase', 'wrong-passphrase')
+      }
+    }
+
+    if (manifest.compression === 'gzip') {
+      plaintext = await transform(plaintext, new DecompressionStream('gzip'))
+    }
+
+    const data = deserializeValue(textDecoder.decode(plaintext))
+    if (await backupValidatorService.calculateDataChecksum(data) !== manifest.checksum) {
+      throw new RemoteBackupError('Backup checksum mismatch - data may be corrupted', 'integrity')
+    }
+
+    const metadata = toBackupMetadata(manifest)
+    // 验证器会就地修复数据，在副本上验证
+    const validation = await backupValidatorService.validateBackupData(backupId, structuredClone(data), metadata)
+    if (!validation.valid) {
+      throw new RemoteBackupError(`Backup failed validation: ${validation.errors.slice(0, 3).join('; ')}`, 'integrity')
+    }
+
+    return { data, metadata, manifest, validation }
+  }
+
+  /**
+   * 在所有已启用的目标中查找并下载备份
+   */
+  async findAndDownload(backupId: string): Promise<RemoteDownloadResult | null> {
+    for (const target of this.getEnabledTargets()) {
+      const entries = await this.listBackups(target.id).catch(() => [] as RemoteBackupEntry[])
+      if (entries.some(entry => entry.manifest.backupId === backupId)) {
+        return this.download(target.id, backupId)
+      }
+    }
+    return null
+  }
+
+  async deleteBackup(targetId: string, backupId: string): Promise<void> {
+    await this.ensureSecrets()
+    await this.deleteFrom(createBackupTarget(this.requireTarget(targetId)), backupId)
+  }
+
+  /**
+   * 按目标的保留策略删除旧备份，返回删除数量
+   */
+  async prune(targetId: string, target?: BackupTarget): Promise<number> {
+    await this.ensureSecrets()
+    const config = this.requireTarget(targetId)
+    const backupTarget = target ?? createBackupTarget(config)
+    const { keepLast, keepDays } = config.retention
+    const cutoff = Date.now() - keepDays * 24 * 60 * 60 * 1000
+
+    const entries = await this.readManifests(targetId, backupTarget)
+    const expired = entries
+      .slice(Math.max(keepLast, 1))
+      .filter(entry => keepDays > 0 && new Date(entry.manifest.timestamp).getTime() < cutoff)
+
+    for (const entry of expired) {
+      await this.deleteFrom(backupTarget, entry.manifest.backupId)
+    }
+    return expired.length
+  }
+
+  private async readManifests(targetId: string, target: BackupTarget): Promise<RemoteBackupEntry[]> {
+    const objects = await target.list()
+    const manifests = await Promise.all(objects
+      .filter(object => object.name.endsWith(MANIFEST_SUFFIX))
+      .map(async object => {
+        try {
+          const manifest = JSON.parse(textDecoder.decode(await target.get(object.name))) as RemoteBackupManifest
+          return manifest.format === 'cardall-backup' ? [{ targetId, manifest }] : []
+        } catch (error) {
+          console.warn(`Skipping unreadable backup manifest ${object.name}:`, error)
+          return []
+        }
+      }))
+    return manifests.flat().sort((a, b) => b.manifest.timestamp.localeCompare(a.manifest.timestamp))
+  }
+
+  // 先删清单，备份文件删除失败时也不会再被列出
+  private async deleteFrom(target: BackupTarget, backupId: string): Promise<void> {
+    await target.delete(backupId + MANIFEST_SUFFIX)
+    await target.delete(backupId + BACKUP_SUFFIX)
+  }
+
+  private requireTarget(targetId: string): BackupTargetConfig {
+    const config = this.targets.find(target => target.id === targetId)
+    if (!config) {
+      throw new Error(`Backup target ${targetId} not found`)
+    }
+    return config
+  }
+
+  private updateTarget(targetId: string, updates: Partial<Pick<BackupTargetConfig, 'lastBackupAt' | 'lastError'>>): void {
+    this.targets = this.targets.map(target => target.id === targetId ? { ...target, ...updates } : target)
+    this.saveTargets()
+  }
+
+  private loadTargets(): void {
+    try {
+      const savedTargets = localStorage.getItem(TARGETS_STORAGE_KEY)
+      if (savedTargets) {
+        this.targets = JSON.parse(savedTargets)
+      }
+      const savedKeys = localStorage.getItem(LEGACY_KEYS_STORAGE_KEY)
+      if (savedKeys) {
+        this.keys = new Map(Object.entries(JSON.parse(savedKeys)))
+      }
+      this.hasLegacySecrets = !!savedKeys ||
+        this.targets.some(target => Object.keys(splitCredentials(target).credentials).length > 0)
+    } catch (error) {
+      console.error('Failed to load backup targets:', error)
+    }
+  }
+
+  /**
+   * 从数据库读取凭据和密钥并合并到目标配置
+   * 保险库锁定时读取失败，下次使用目标时重试
+   */
+  private ensureSecrets(): Promise<void> {
+    if (!this.secretsLoaded) {
+      this.secretsLoaded = this.loadSecrets().catch(error => {
+        this.secretsLoaded = null
+        throw error
+      })
+    }
+    return this.secretsLoaded
+  }
+
+  private async loadSecrets(): Promise<void> {
+    // 旧版本的凭据和密钥保存在 localStorage，移到数据库后删除
+    if (this.hasLegacySecrets) {
+      for (const target of this.targets) {
+        await this.saveSecrets(target)
+      }
+      this.hasLegacySecrets = false
+      localStorage.removeItem(LEGACY_KEYS_STORAGE_KEY)
+      this.saveTargets()
+      return
+    }
+
+    const records = await db.backupTargetSecrets.toArray()
+    if (records.length === 0) return
+
+    const secrets = new Map(records.map(record => [record.targetId, record]))
+    records.forEach(record => {
+      if (record.key) this.keys.set(record.targetId, record.key)
+    })
+    this.targets = this.targets.map(target => {
+      const record = secrets.get(target.id)
+      return record
+        ? { ...target, settings: { ...target.settings, ...record.credentials } } as BackupTargetConfig
+        : target
+    })
+    this.listeners.forEach(listener => listener(this.targets))
+  }
+
+  private async saveSecrets(config: BackupTargetConfig): Promise<void> {
+    const key = this.keys.get(config.id)
+    await db.backupTargetSecrets.put({
+      targetId: config.id,
+      ...(key ? { key } : {}),
+      credentials: splitCredentials(config).credentials
+    })
+  }
+
+  // 凭据不写入 localStorage；旧版本的凭据移到数据库之前保持原样，避免丢失
+  private saveTargets(): void {
+    try {
+      const targets = this.hasLegacySecrets ? this.targets : this.targets.map(target => splitCredentials(target).target)
+      localStorage.setItem(TARGETS_STORAGE_KEY, JSON.stringify(targets))
+    } catch (error) {
+      console.error('Failed to save backup targets:', error)
+    }
+    this.listeners.forEach(listener => listener(this.targets))
+  }
+}
+
+// 导出单例实例
+export const remoteBackupService = new RemoteBackupService()
@@ -8,6 +8,7 @@ import {
   LegacySyncOperation 
 } from '@/services/database'
 import { authService } from '@/services/auth'
+import { buildSearchVector } from '@/services/search/search-index'
 
 // ============================================================================
 // 统一数据类型转换器
@@ -119,7 +120,7 @@ export class DataConverter {
       description: folder.description || '',
       color: folder.color || '#6366f1',
       icon: folder.icon || 'folder',
-      order: folder.order || 0,
+      order: folder.order,
       isExpanded: folder.isExpanded ?? true,
       cardIds: folder.cardIds || [],
       createdAt: folder.createdAt || now,
@@ -307,20 +308,8 @@ export class DataConverter {
 
   // 生成搜索向量
   static generateSearchVector(card: Partial<Card>): string {
-    const searchableText = [
-      card.frontContent?.title || '',
-      card.frontContent?.text || '',
-      card.backContent?.title || '',
-      card.backContent?.text || '',
-      ...(card.frontContent?.tags || []),
-      ...(card.backContent?.tags || [])
-    ].join(' ').toLowerCase()
-    
-    // 简单的文本处理：移除特殊字符，标准化空格
-    return searchableText
-      .replace(/[^\w\s\u4e00-\u9fff]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim()
+    if (!card.frontContent || !card.backContent) return ''
+    return buildSearchVector({ frontContent: card.frontContent, backContent: card.backContent })
   }
 
   // 生成文件夹完整路径
@@ -386,7 +375,7 @@ export class DataConverter {
       description: cloudFolder.description || '',
       color: cloudFolder.color || '#6366f1',
       icon: cloudFolder.icon || 'folder',
-      order: cloudFolder.order_index || 0,
+      order: cloudFolder.order_index,
       isExpanded: cloudFolder.is_expanded ?? true,
       cardIds: cloudFolder.card_ids || [],
       userId: cloudFolder.user_id,
@@ -453,7 +442,7 @@ export class DataConverter {
       description: dbFolder.description || '',
       color: dbFolder.color,
       icon: dbFolder.icon,
-      order_index: dbFolder.order || 0,
+      order_index: dbFolder.order,
       card_ids: dbFolder.cardIds || [],
       user_id: dbFolder.userId,
       sync_version: dbFolder.syncVersion,
@@ -7,6 +7,7 @@
 import { db, DatabaseStats } from './database-unified'
 import { dataValidator, ValidationResult } from './data-validator'
 import { backupCoreService, BackupResult, RestoreResult } from './core/backup/backup-core.service'
+import { cardLinkService } from './links/card-link-service'
 
 // ============================================================================
 // 核心类型定义
@@ -96,12 +97,13 @@ export interface ReferenceIntegrityResult {
     invalidTagReferences: CheckItem
     duplicateIds: CheckItem
     circularReferences: CheckItem
+    brokenCardLinks: CheckItem
   }
 }
 
 export interface ReferenceIssue {
   id: string
-  type: 'orphaned_image' | 'invalid_folder_ref' | 'invalid_tag_ref' | 'duplicate_id' | 'circular_ref'
+  type: 'orphaned_image' | 'invalid_folder_ref' | 'invalid_tag_ref' | 'duplicate_id' | 'circular_ref' | 'broken_card_link'
   severity: 'low' | 'medium' | 'high' | 'critical'
   entityType: 'card' | 'folder' | 'tag' | 'image'
   entityId: string
@@ -879,12 +881,13 @@ export class DataIntegrityService {
     let orphanedEntities = 0
     let duplicateIds = 0
 
-    const checks = {
+    const checks: ReferenceIntegrityResult['checks'] = {
       orphanedImages: { name: '孤立图片检查', status: 'passed' as const },
       invalidFolderReferences: { name: '无效文件夹引用', status: 'passed' as const },
       invalidTagReferences: { name: '无效标签引用', status: 'passed' as const },
       duplicateIds: { name: '重复ID检查', status: 'passed' as const },
-      circularReferences: { name: '循环引用检查', status: 'passed' as const }
+      circularReferences: { name: '循环引用检查', status: 'passed' as const },
+      brokenCardLinks: { name: '卡片链接检查', status: 'passed' as const }
     }
 
     try {
@@ -942,6 +945,28 @@ export class DataIntegrityService {
         checks.invalidFolderReferences.message = `发现 ${cardsWithInvalidFolders.length} 个无效文件夹引用`
       }
 
+      // 检查卡片中找不到目标卡片的 [[标题]] 链接（链接索引保存在应用数据库中）
+      const brokenLinks = await cardLinkService.findBrokenLinks()
+      brokenReferences += brokenLinks.length
+
+      for (const link of brokenLinks) {
+        issues.push({
+          id: `broken-card-link-${link.sourceId}-${link.side}-${link.targetTitle}`,
+          type: 'broken_card_link',
+          severity: 'low',
+          entityType: 'card',
+          entityId: link.sourceId,
+          description: `卡片「${link.sourceTitle || '未命名'}」中的链接 [[${link.targetTitle}]] 没有对应的卡片`,
+          suggestedAction: '修改链接中的标题，或创建同名卡片',
+          autoFixable: false
+        })
+      }
+
+      if (brokenLinks.length > 0) {
+        checks.brokenCardLinks.status = 'warning'
+        checks.brokenCardLinks.message = `发现 ${brokenLinks.length} 个失效的卡片链接`
+      }
+
       // 检查重复ID
       const checkDuplicateIds = async <T extends { id?: string }>(
         tableName: string,
@@ -1760,7 +1785,8 @@ export class DataIntegrityService {
       invalidFolderReferences: { name: '无效文件夹引用', status: 'failed' as const, message: '检查失败' },
       invalidTagReferences: { name: '无效标签引用', status: 'failed' as const, message: '检查失败' },
       duplicateIds: { name: '重复ID检查', status: 'failed' as const, message: '检查失败' },
-      circularReferences: { name: '循环引用检查', status: 'failed' as const, message: '检查失败' }
+      circularReferences: { name: '循环引用检查', status: 'failed' as const, message: '检查失败' },
+      brokenCardLinks: { name: '卡片链接检查', status: 'failed' as const, message: '检查失败' }
     }
   }
 
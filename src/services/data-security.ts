@@ -1,5 +1,6 @@
 import { db } from './database'
 import { Card, Folder, Tag } from '@/types/card'
+import { backupChainService, sortEntitySets } from './core/backup/backup-chain.service'
 
 // ============================================================================
 // 增强的数据安全和备份服务
@@ -18,6 +19,7 @@ export interface BackupConfig {
   encryptionEnabled: boolean
   cloudBackup: boolean
   backupLocation: 'local' | 'cloud' | 'both'
+  incrementalBackup: boolean // 在增量备份链中只保存变化的数据，图片按内容去重
 }
 
 export interface BackupMetadata {
@@ -30,6 +32,8 @@ export interface BackupMetadata {
   checksum: string
   description?: string
   tags: string[]
+  chainId?: string // 保存在增量备份链中时的链ID，数据不在 localStorage 中
+  type?: 'full' | 'incremental'
 }
 
 export interface BackupData {
@@ -134,6 +138,9 @@ export interface SecurityVulnerability {
   status: 'open' | 'resolved' | 'false-positive'
 }
 
+// DataSecurityService 的备份在增量备份链中使用的链ID
+const BACKUP_CHAIN_ID = 'data-security'
+
 class DataSecurityService {
   private config: BackupConfig = {
     autoBackup: true,
@@ -142,7 +149,8 @@ class DataSecurityService {
     compressionEnabled: true,
     encryptionEnabled: false,
     cloudBackup: false,
-    backupLocation: 'local'
+    backupLocation: 'local',
+    incrementalBackup: true
   }
 
   private securityConfig: SecurityConfig = {
@@ -241,33 +249,47 @@ class DataSecurityService {
         tags: await db.tags.toArray(),
         images: await db.images.toArray(),
         settings: await db.settings.toArray(),
-        syncQueue: await db.syncQueue.toArray(),
+        syncQueue: [], // 同步队列保存在统一数据库中，不在本地数据备份范围内
         sessions: await db.sessions.toArray()
       }
       
       // 创建备份元数据
+      const incremental = this.config.incrementalBackup
       const metadata: BackupMetadata = {
         id: crypto.randomUUID(),
         timestamp: new Date(),
         version: '3.0.0',
         size: JSON.stringify(data).length,
-        compressed: this.config.compressionEnabled,
-        encrypted: this.config.encryptionEnabled,
-        checksum: await this.calculateChecksum(data),
+        compressed: this.config.compressionEnabled && !incremental,
+        encrypted: this.config.encryptionEnabled && !incremental,
+        // 备份链重建的数据按实体键排序
+        checksum: await this.calculateChecksum(incremental ? sortEntitySets(data) : data),
         description,
         tags
       }
       
       let backupData: BackupData = { metadata, data }
       
-      // 压缩数据
-      if (this.config.compressionEnabled) {
-        backupData = await this.compressData(backupData)
-      }
-      
-      // 加密数据
-      if (this.config.encryptionEnabled) {
-        backupData = await this.encryptData(backupData)
+      if (incremental) {
+        // 增量备份链中的数据由保险库加密
+        const segment = await backupChainService.append(BACKUP_CHAIN_ID, data, {
+          backupId: metadata.id,
+          timestamp: metadata.timestamp,
+          maxChainLength: this.config.maxBackups
+        })
+        metadata.chainId = BACKUP_CHAIN_ID
+        metadata.type = segment.type
+        metadata.size = segment.size
+      } else {
+        // 压缩数据
+        if (this.config.compressionEnabled) {
+          backupData = await this.compressData(backupData)
+        }
+        
+        // 加密数据
+        if (this.config.encryptionEnabled) {
+          backupData = await this.encryptData(backupData)
+        }
       }
       
       // 保存备份
@@ -298,32 +320,14 @@ class DataSecurityService {
       // 创建当前数据的备份
       await this.createBackup('pre-restore backup', ['auto', 'emergency'])
       
-      // 加载备份数据
-      const backupData = await this.loadBackup(backupId)
-      
-      // 解密数据
-      if (backupData.metadata.encrypted) {
-        const decryptedData = await this.decryptData(backupData)
-        Object.assign(backupData, decryptedData)
-      }
-      
-      // 解压缩数据
-      if (backupData.metadata.compressed) {
-        const decompressedData = await this.decompressData(backupData)
-        Object.assign(backupData, decompressedData)
-      }
-      
-      // 验证数据完整性
-      const isValid = await this.validateBackup(backupData)
-      if (!isValid) {
-        throw new Error('Backup validation failed')
-      }
+      // 加载并验证备份数据
+      const data = await this.readBackup(backupId)
       
       // 清理当前数据
       await db.clearAll()
       
       // 恢复数据
-      await this.restoreData(backupData.data)
+      await this.restoreData(data)
       
       this.logAudit('backup', 'restore_completed', { backupId }, 'info')
     } catch (error) {
@@ -335,6 +339,31 @@ class DataSecurityService {
     }
   }
 
+  // 读取备份内容（解密、解压缩并验证），不修改当前数据
+  async readBackup(backupId: string): Promise<BackupData['data']> {
+    const backupData = await this.loadBackup(backupId)
+    
+    // 解密数据
+    if (backupData.metadata.encrypted) {
+      const decryptedData = await this.decryptData(backupData)
+      Object.assign(backupData, decryptedData)
+    }
+    
+    // 解压缩数据
+    if (backupData.metadata.compressed) {
+      const decompressedData = await this.decompressData(backupData)
+      Object.assign(backupData, decompressedData)
+    }
+    
+    // 验证数据完整性
+    const isValid = await this.validateBackup(backupData)
+    if (!isValid) {
+      throw new Error('Backup validation failed')
+    }
+    
+    return backupData.data
+  }
+
   // 列出备份
   async listBackups(): Promise<BackupMetadata[]> {
     const backups = localStorage.getItem('cardall-backups')
@@ -358,8 +387,12 @@ class DataSecurityService {
       
       localStorage.setItem('cardall-backups', JSON.stringify(updatedBackups))
       
-      // 删除备份数据文件
-      localStorage.removeItem(`cardall-backup-${backupId}`)
+      // 删除备份数据文件，备份链中的段被删除时其变化并入下一段
+      if (backups.find(b => b.id === backupId)?.chainId) {
+        await backupChainService.removeSegment(backupId)
+      } else {
+        localStorage.removeItem(`cardall-backup-${backupId}`)
+      }
       
       this.logAudit('backup', 'backup_deleted', { backupId }, 'info')
     } catch (error) {
@@ -372,22 +405,25 @@ class DataSecurityService {
   }
 
   private async saveBackup(backupData: BackupData): Promise<void> {
-    // 保存备份元数据
+    // 保存备份元数据，超出数量的旧备份由 cleanupOldBackups 连同数据一起删除
     const backups = await this.listBackups()
     backups.push(backupData.metadata)
     
-    // 限制备份数量
-    if (backups.length > this.config.maxBackups) {
-      backups.splice(0, backups.length - this.config.maxBackups)
-    }
-    
     localStorage.setItem('cardall-backups', JSON.stringify(backups))
     
-    // 保存备份数据
-    localStorage.setItem(`cardall-backup-${backupData.metadata.id}`, JSON.stringify(backupData))
+    // 保存备份数据，增量备份的数据已在备份链中
+    if (!backupData.metadata.chainId) {
+      localStorage.setItem(`cardall-backup-${backupData.metadata.id}`, JSON.stringify(backupData))
+    }
   }
 
   private async loadBackup(backupId: string): Promise<BackupData> {
+    const metadata = (await this.listBackups()).find(b => b.id === backupId)
+    if (metadata?.chainId) {
+      const restored = await backupChainService.restore(backupId)
+      return { metadata, data: restored.data as BackupData['data'] }
+    }
+
     const backupData = localStorage.getItem(`cardall-backup-${backupId}`)
     if (!backupData) {
       throw new Error('Backup not found')
@@ -400,7 +436,8 @@ class DataSecurityService {
     const backups = await this.listBackups()
     
     if (backups.length > this.config.maxBackups) {
-      const toDelete = backups.splice(0, backups.length - this.config.maxBackups)
+      // 列表按时间从新到旧排列，删除最旧的
+      const toDelete = backups.slice(this.config.maxBackups)
       
       for (const backup of toDelete) {
         await this.deleteBackup(backup.id)
@@ -63,6 +63,9 @@ export interface ValidationRule {
 
 export interface BackupMetadata {
   id: string
+  configId?: string // 创建该备份的备份配置
+  name?: string
+  description?: string
   timestamp: Date
   type: 'full' | 'incremental' | 'differential'
   version: string
@@ -84,6 +87,7 @@ export interface BackupMetadata {
     databaseStats: any
     migrationId?: string
   }
+  chain?: { id: string; sequence: number } // 所在的增量备份链及其中的位置
 }
 
 /**
@@ -1,12 +1,25 @@
 import Dexie, { Table } from 'dexie'
 import { Card, Folder, Tag, ImageData } from '@/types/card'
+import { SyncEntityType } from '@/types/sync'
+import { buildSearchVector } from '@/services/search/search-index'
+import { attachVault, VaultTables } from '@/services/security/vault-middleware'
+import { MergeHunk } from '@/services/conflict/three-way-merge'
+import type { BackupMetadata } from './data-validator'
 
 // ============================================================================
 // 统一数据库类型定义 - 解决数据库架构统一
 // ============================================================================
 
+// 参与同步的实体共有的字段
+export interface SyncFields {
+  userId?: string
+  syncVersion?: number // 本地修改次数
+  pendingSync?: boolean // 有未推送的本地修改
+  lastSyncAt?: Date
+}
+
 // 扩展的数据库卡片实体
-export interface DbCard extends Omit<Card, 'id'> {
+export interface DbCard extends Omit<Card, 'id'>, SyncFields {
   id?: string
   // 保持向后兼容的字段
   folderId?: string
@@ -17,7 +30,7 @@ export interface DbCard extends Omit<Card, 'id'> {
 }
 
 // 扩展的数据库文件夹实体
-export interface DbFolder extends Omit<Folder, 'id'> {
+export interface DbFolder extends Omit<Folder, 'id'>, SyncFields {
   id?: string
   // 新增字段用于优化查询
   fullPath?: string // 完整路径用于快速查找
@@ -26,7 +39,7 @@ export interface DbFolder extends Omit<Folder, 'id'> {
 }
 
 // 扩展的数据库标签实体
-export interface DbTag extends Omit<Tag, 'id'> {
+export interface DbTag extends Omit<Tag, 'id'>, SyncFields {
   id?: string
   // 保持向后兼容
   count: number
@@ -68,6 +81,56 @@ export interface LocalOperation {
   status: 'pending' | 'completed' | 'failed'
 }
 
+// ============================================================================
+// 同步队列与元数据
+// ============================================================================
+
+// 待同步的本地修改，同一实体可能有多条，推送时合并为最新状态
+export interface SyncOperation {
+  id?: string
+  type: 'create' | 'update' | 'delete'
+  entity: 'card' | 'folder' | 'tag' | 'image'
+  entityId: string
+  data?: any
+  userId?: string
+  timestamp: Date
+  retryCount: number
+  maxRetries?: number
+  priority: 'high' | 'normal' | 'low'
+  status?: 'pending' | 'failed' | 'conflict'
+  error?: string
+  localVersion?: number
+}
+
+// 每个实体的同步状态
+export interface SyncMetadata {
+  id?: number
+  entityType: SyncEntityType
+  entityId: string
+  userId?: string
+  syncVersion: number // 本地已同步到的版本
+  cloudVersion: number // 服务端确认的版本
+  lastSyncAt?: Date
+  conflictStatus: 'none' | 'pending'
+  baseData?: Record<string, unknown> | null // 服务端确认版本的数据，三方合并的基础版本
+}
+
+// 无法自动解决的冲突，保留双方数据等待处理
+export interface ConflictRecord {
+  id?: number
+  entityType: SyncEntityType
+  entityId: string
+  userId?: string
+  conflictType: string
+  localData: any
+  cloudData: any
+  cloudVersion: number
+  baseData?: any // 双方分歧前的共同版本
+  unresolvedHunks?: MergeHunk[] // 三方合并后仍需用户处理的片段
+  timestamp: Date
+  resolution: 'pending' | 'local' | 'remote' | 'merged'
+}
+
 // 应用设置 - 统一配置管理
 export interface AppSettings {
   id?: string
@@ -168,6 +231,46 @@ export interface BackupEntry {
   tags?: string[]
 }
 
+// 增量备份链，记录链头各实体的版本指纹用于计算下一个增量
+export interface BackupChainRecord {
+  id: string // 链ID，BackupCoreService 使用备份配置ID
+  headSequence: number
+  maxLength: number // 压缩后链中最多保留的备份段数
+  fingerprints: Record<string, Record<string, string>> // 实体类型 -> 实体键 -> updatedAt/syncVersion 指纹
+  updatedAt: Date
+}
+
+// 备份中的一个实体，例如卡片记录或设置项
+export type BackupEntity = Record<string, unknown>
+
+// 备份段：完整的基础段或相对上一段的增量
+export interface BackupSegment {
+  id: string // 与备份ID相同
+  chainId: string
+  sequence: number
+  type: 'full' | 'incremental'
+  timestamp: Date
+  entities: Record<string, { upserts: BackupEntity[]; deletes: string[] }> // 图片等 data: URL 已替换为 cas:<sha256>
+  blobs: string[] // 本段引用的内容哈希
+  size: number
+  metadata?: BackupMetadata // 创建者附带的备份元数据
+}
+
+// 按内容寻址的图片数据，在所有备份之间共享
+export interface BackupBlob {
+  hash: string // data: URL 的 SHA-256
+  data: string
+  size: number
+  createdAt: Date
+}
+
+// 远程备份目标的凭据和备份口令派生的密钥，目标的其余配置保存在 localStorage
+export interface BackupTargetSecrets {
+  targetId: string
+  key?: string // 备份口令派生的密钥（base64），未开启加密时为空
+  credentials: Record<string, unknown> // 从目标设置中拆出的密码、密钥和请求头
+}
+
 // ============================================================================
 // 统一数据库类
 // ============================================================================
@@ -181,6 +284,11 @@ class CardAllUnifiedDatabase extends Dexie {
   localQueue!: Table<LocalOperation>
   settings!: Table<AppSettings>
 
+  // 同步表
+  syncQueue!: Table<SyncOperation>
+  syncMetadata!: Table<SyncMetadata, number>
+  conflictRecords!: Table<ConflictRecord, number>
+
   // 离线数据持久化增强表
   offlineSnapshots!: Table<OfflineSnapshot>
   offlineBackups!: Table<{
@@ -197,6 +305,17 @@ class CardAllUnifiedDatabase extends Dexie {
   errors!: Table<ErrorEntry>
   backups!: Table<BackupEntry>
 
+  // 增量备份表
+  backupChains!: Table<BackupChainRecord, string>
+  backupSegments!: Table<BackupSegment, string>
+  backupBlobs!: Table<BackupBlob, string>
+
+  // 远程备份目标凭据表
+  backupTargetSecrets!: Table<BackupTargetSecrets, string>
+
+  // 保险库加密的表
+  readonly vault: VaultTables
+
   constructor() {
     super('CardAllUnifiedDatabase')
     
@@ -228,6 +347,35 @@ class CardAllUnifiedDatabase extends Dexie {
       hiddenTags: '++id, userId, tagId, hiddenAt, [userId+tagId], [userId+hiddenAt]'
     })
 
+    // 版本 6: 添加增量备份链和去重的图片数据
+    this.version(6).stores({
+      backupChains: 'id, updatedAt',
+      backupSegments: 'id, chainId, sequence, timestamp, [chainId+sequence]',
+      backupBlobs: 'hash, createdAt'
+    })
+
+    // 版本 7: 添加远程备份目标凭据表
+    this.version(7).stores({
+      backupTargetSecrets: 'targetId'
+    })
+
+    // 保险库启用后卡片内容和剪藏来源、同步过程中保存的卡片副本、增量备份和远程备份凭据加密保存
+    this.vault = attachVault(this, {
+      cards: {
+        fields: ['frontContent', 'backContent', 'source'],
+        plaintextFields: ['searchVector'],
+        rebuild: (card: DbCard) => card.frontContent && card.backContent
+          ? { ...card, searchVector: buildSearchVector(card) }
+          : card
+      },
+      syncQueue: { fields: ['data'] },
+      syncMetadata: { fields: ['baseData'] },
+      conflictRecords: { fields: ['localData', 'cloudData', 'baseData', 'unresolvedHunks'] },
+      backupSegments: { fields: ['entities'] },
+      backupBlobs: { fields: ['data'] },
+      backupTargetSecrets: { fields: ['key', 'credentials'] }
+    })
+
     // 数据库升级逻辑 - 支持从旧版本迁移
     this.upgradeDatabase()
   }
@@ -343,7 +491,12 @@ class CardAllUnifiedDatabase extends Dexie {
 
   private async rebuildSearchIndexes(): Promise<void> {
     console.log('Rebuilding search indexes...')
-    // 这里可以实现搜索索引的重建逻辑
+    // 为所有卡片重新生成全文搜索词元
+    await this.cards.toCollection().modify(card => {
+      if (card.frontContent && card.backContent) {
+        card.searchVector = buildSearchVector(card)
+      }
+    })
   }
 
   // ============================================================================
@@ -1120,16 +1273,7 @@ export const convertFromDbCard = (dbCard: DbCard): Card => {
 
 // 搜索优化工具
 export const generateSearchVector = (card: Card): string => {
-  const searchableText = [
-    card.frontContent.title,
-    card.frontContent.text,
-    card.backContent.title,
-    card.backContent.text,
-    ...card.frontContent.tags,
-    ...card.backContent.tags
-  ].join(' ').toLowerCase()
-  
-  return searchableText
+  return buildSearchVector(card)
 }
 
 // 批量操作工具
@@ -1,5 +1,14 @@
 import Dexie, { Table } from 'dexie'
 import { Card, Folder, Tag, ImageData } from '@/types/card'
+import { ReviewState, ReviewLog } from '@/types/study'
+import { CardRevision, CardSnapshot } from '@/types/history'
+import { UndoEntry } from '@/types/undo'
+import { CardLink } from '@/types/card-links'
+import { CanvasBoard } from '@/types/canvas'
+import { CardOrder } from '@/types/ordering'
+import { SavedView } from '@/types/saved-view'
+import { buildSearchVector } from '@/services/search/search-index'
+import { attachVault, VaultTables } from '@/services/security/vault-middleware'
 
 // ============================================================================
 // 统一数据库类型定义 - 本地存储架构
@@ -32,7 +41,7 @@ export interface DbFolder extends Omit<Folder, 'id'>, BaseEntity {
   fullPath?: string // 完整路径用于快速查找
   depth?: number // 文件夹深度
   description?: string // 文件夹描述
-  order?: number // 文件夹排序
+  order?: string // 文件夹排序键（分数索引）
 }
 
 // 扩展的数据库标签实体
@@ -82,6 +91,33 @@ export interface UserSession {
   updatedAt: Date
 }
 
+// 卡片复习调度状态 - 间隔重复学习
+export type DbReviewState = ReviewState
+
+// 卡片复习记录
+export type DbReviewLog = ReviewLog
+
+// 卡片内容快照（按内容哈希去重）
+export type DbCardSnapshot = CardSnapshot
+
+// 卡片修订记录
+export type DbCardRevision = CardRevision
+
+// 撤销/重做历史
+export type DbUndoEntry = UndoEntry
+
+// 卡片之间的 [[标题]] 链接
+export type DbCardLink = CardLink
+
+// 各文件夹的画布布局
+export type DbCanvasBoard = CanvasBoard
+
+// 各容器中卡片的手动顺序
+export type DbCardOrder = CardOrder
+
+// 智能文件夹
+export type DbSavedView = SavedView
+
 // ============================================================================
 // 数据库类定义
 // ============================================================================
@@ -94,6 +130,18 @@ class CardAllDatabase extends Dexie {
   images!: Table<DbImage>
   settings!: Table<AppSettings>
   sessions!: Table<UserSession>
+  reviewStates!: Table<DbReviewState, string>
+  reviewLogs!: Table<DbReviewLog, number>
+  cardSnapshots!: Table<DbCardSnapshot, string>
+  cardRevisions!: Table<DbCardRevision, number>
+  undoEntries!: Table<DbUndoEntry, number>
+  cardLinks!: Table<DbCardLink, number>
+  canvasBoards!: Table<DbCanvasBoard, string>
+  cardOrders!: Table<DbCardOrder, string>
+  savedViews!: Table<DbSavedView, string>
+
+  // 保险库加密的表
+  readonly vault: VaultTables
 
   constructor() {
     super('CardAllDatabase')
@@ -119,6 +167,66 @@ class CardAllDatabase extends Dexie {
       sessions: '++id, userId, sessionToken, expiresAt, lastActiveAt, createdAt, updatedAt'
     })
 
+    // 版本 2: 添加间隔重复学习表
+    this.version(2).stores({
+      // 复习状态表 - 每张卡片一条，以卡片ID为主键
+      reviewStates: 'cardId, dueAt, lastReviewedAt, updatedAt',
+
+      // 复习记录表 - 完整的复习历史
+      reviewLogs: '++id, cardId, grade, reviewedAt, [cardId+reviewedAt]'
+    })
+
+    // 版本 3: 添加卡片版本历史表
+    this.version(3).stores({
+      // 快照表 - 以内容哈希为主键
+      cardSnapshots: 'hash',
+
+      // 修订表 - 每次内容变化一条，指向快照
+      cardRevisions: '++id, cardId, hash, createdAt, [cardId+createdAt]'
+    })
+
+    // 版本 4: 添加撤销/重做历史表
+    this.version(4).stores({
+      // 撤销/重做栈 - 同一栈内按自增ID排序，最大的为栈顶
+      undoEntries: '++id, stack'
+    })
+
+    // 版本 5: 添加卡片链接索引表
+    this.version(5).stores({
+      // 按来源重建、按目标查反向链接；链接标题不建索引，可随保险库加密
+      cardLinks: '++id, sourceId, targetId'
+    })
+
+    // 版本 6: 添加画布布局表
+    this.version(6).stores({
+      // 每个文件夹一条，以文件夹ID（或 all）为主键
+      canvasBoards: 'id'
+    })
+
+    this.version(7).stores({
+      // 每个容器一条，以文件夹ID（或 all）为主键
+      cardOrders: 'id'
+    })
+
+    this.version(8).stores({
+      // 智能文件夹，按侧栏顺序读取
+      savedViews: 'id, order, updatedAt'
+    })
+
+    // 保险库启用后卡片内容、内容快照、撤销历史和链接标题加密保存
+    this.vault = attachVault(this, {
+      cards: {
+        fields: ['frontContent', 'backContent', 'source'],
+        plaintextFields: ['searchVector'],
+        rebuild: (card: DbCard) => card.frontContent && card.backContent
+          ? { ...card, searchVector: buildSearchVector(card) }
+          : card
+      },
+      cardSnapshots: { fields: ['frontContent', 'backContent'] },
+      undoEntries: { fields: ['steps'] },
+      cardLinks: { fields: ['targetTitle'] }
+    })
+
     // 数据库事件监听
     this.setupEventListeners()
   }
@@ -132,10 +240,29 @@ class CardAllDatabase extends Dexie {
       if (!obj.updatedAt) {
         obj.updatedAt = new Date()
       }
+      // 维护全文搜索词元
+      if (obj.frontContent && obj.backContent) {
+        obj.searchVector = buildSearchVector(obj)
+      }
     })
 
     this.cards.hook('updating', (modifications, primKey, obj, trans) => {
       modifications.updatedAt = new Date()
+
+      // 内容变化时重新生成搜索词元，修改可能是 frontContent.tags 这样的键路径
+      const changes = modifications as Record<string, unknown>
+      const touchesContent = Object.keys(changes).some(key =>
+        key.startsWith('frontContent') || key.startsWith('backContent')
+      )
+      if (touchesContent) {
+        const merged: DbCard = {
+          ...obj,
+          frontContent: { ...obj.frontContent },
+          backContent: { ...obj.backContent }
+        }
+        Object.keys(changes).forEach(key => Dexie.setByKeyPath(merged, key, changes[key]))
+        return { searchVector: buildSearchVector(merged) }
+      }
     })
 
     this.folders.hook('creating', (primKey, obj, trans) => {
@@ -186,7 +313,16 @@ class CardAllDatabase extends Dexie {
       this.tags.clear(),
       this.images.clear(),
       this.settings.clear(),
-      this.sessions.clear()
+      this.sessions.clear(),
+      this.reviewStates.clear(),
+      this.reviewLogs.clear(),
+      this.cardSnapshots.clear(),
+      this.cardRevisions.clear(),
+      this.undoEntries.clear(),
+      this.cardLinks.clear(),
+      this.canvasBoards.clear(),
+      this.cardOrders.clear(),
+      this.savedViews.clear()
     ])
   }
 
@@ -1,4 +1,13 @@
 import { db, DbImage } from './database'
+import {
+  decryptBytes,
+  decryptValue,
+  encryptBytes,
+  encryptValue,
+  isEncryptedBytes,
+  isEncryptedValue,
+  vaultKeyring
+} from './security/vault-cipher'
 
 export interface FileSystemConfig {
   baseDirectory: string
@@ -283,11 +292,12 @@ class FileSystemService {
     // 创建目录结构
     const dirHandle = await this.getOrCreateNestedDirectory(dirPath)
     
-    // 创建文件
+    // 创建文件，保险库启用时写入密文
     const fileHandle = await dirHandle.getFileHandle(fileName, { create: true })
     const writable = await fileHandle.createWritable()
+    const bytes = encryptBytes(new Uint8Array(await blob.arrayBuffer()), `file:${path}`)
     
-    await writable.write(blob)
+    await writable.write(bytes)
     await writable.close()
   }
 
@@ -297,9 +307,9 @@ class FileSystemService {
     const arrayBuffer = await blob.arrayBuffer()
     
     // 这里可以使用一个专门的表来存储文件数据
-    // 暂时先用localStorage作为演示
+    // 暂时先用localStorage作为演示，保险库启用时保存密文
     const base64 = await this.blobToBase64(blob)
-    localStorage.setItem(`cardall_file_${path}`, base64)
+    localStorage.setItem(`cardall_file_${path}`, encryptValue(base64, `file:${path}`) as string)
   }
 
   // Blob转Base64
@@ -339,8 +349,9 @@ class FileSystemService {
     const dirHandle = await this.getOrCreateNestedDirectory(dirPath)
     const fileHandle = await dirHandle.getFileHandle(fileName)
     const file = await fileHandle.getFile()
+    const bytes = decryptBytes(new Uint8Array(await file.arrayBuffer()), `file:${path}`)
     
-    return URL.createObjectURL(file)
+    return URL.createObjectURL(new Blob([bytes], { type: file.type || 'image/webp' }))
   }
 
   // 从IndexedDB获取图片
@@ -349,7 +360,47 @@ class FileSystemService {
     if (!base64) {
       throw new Error('Image not found in storage')
     }
-    return base64
+    return decryptValue<string>(base64, `file:${path}`)
+  }
+
+  /**
+   * 按当前保险库状态重写已保存的图片：启用时加密，关闭时解密
+   */
+  async resealImages(): Promise<number> {
+    const images = await db.images.toArray()
+    let count = 0
+
+    for (const image of images) {
+      const path = image.filePath
+      const context = `file:${path}`
+      try {
+        if (this.isSupported && this.directoryHandle) {
+          const pathParts = path.split('/')
+          const fileName = pathParts.pop()!
+          const dirHandle = await this.getOrCreateNestedDirectory(pathParts.join('/'))
+          const fileHandle = await dirHandle.getFileHandle(fileName)
+          const raw = new Uint8Array(await (await fileHandle.getFile()).arrayBuffer())
+          if (isEncryptedBytes(raw) === vaultKeyring.isEnabled) continue
+
+          const bytes = vaultKeyring.isEnabled ? encryptBytes(raw, context) : decryptBytes(raw, context)
+          const writable = await fileHandle.createWritable()
+          await writable.write(bytes)
+          await writable.close()
+        } else {
+          const key = `cardall_file_${path}`
+          const raw = localStorage.getItem(key)
+          if (raw === null || isEncryptedValue(raw) === vaultKeyring.isEnabled) continue
+
+          const value = vaultKeyring.isEnabled ? encryptValue(raw, context) : decryptValue(raw, context)
+          localStorage.setItem(key, value as string)
+        }
+        count++
+      } catch (error) {
+        console.warn('Failed to reseal image:', path, error)
+      }
+    }
+
+    return count
   }
 
   // 删除图片
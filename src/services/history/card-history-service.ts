@@ -0,0 +1,215 @@
+/**
+ * 卡片版本历史服务
+ *
+ * 每次卡片内容变化时保存一个修订。修订只记录内容哈希，正反面内容和样式存放在以哈希为主键的快照表中，
+ * 内容相同的修订（如恢复到旧版本）共享同一快照。写入修订后按保留策略清理旧修订，
+ * 不再被引用的快照随之删除。
+ */
+
+import { Card, CardContent } from '@/types/card'
+import { CardRevision, CardSnapshot, RevisionRetentionPolicy, SnapshotContent } from '@/types/history'
+import { db } from '@/services/database'
+import { DEFAULT_RETENTION_POLICY, selectPrunableRevisions } from './revision-retention'
+
+type HistoryChangeListener = (cardId: string) => void
+
+// 按键名排序的 JSON，保证相同内容得到相同哈希
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function toSnapshotContent(content: CardContent): SnapshotContent {
+  return {
+    title: content.title ?? '',
+    text: content.text ?? '',
+    images: content.images ?? [],
+    tags: content.tags ?? [],
+    todos: content.todos ?? []
+  }
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export class CardHistoryService {
+  private listeners: HistoryChangeListener[] = []
+  private policy: RevisionRetentionPolicy
+  // 串行写入，避免同一卡片的连续修改交错
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(policy: Partial<RevisionRetentionPolicy> = {}) {
+    this.policy = { ...DEFAULT_RETENTION_POLICY, ...policy }
+  }
+
+  // 注册历史变化监听器
+  onChange(listener: HistoryChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 生成卡片当前内容的快照
+   */
+  async createSnapshot(card: Pick<Card, 'frontContent' | 'backContent' | 'style'>): Promise<CardSnapshot> {
+    const content = {
+      frontContent: toSnapshotContent(card.frontContent),
+      backContent: toSnapshotContent(card.backContent),
+      style: card.style ?? { type: 'solid' }
+    }
+    const json = canonicalJson(content)
+    return {
+      hash: await sha256(json),
+      ...JSON.parse(json),
+      size: new TextEncoder().encode(json).byteLength
+    }
+  }
+
+  /**
+   * 记录卡片的一次修改
+   * 卡片还没有任何历史时，先把修改前的状态记为初始修订
+   */
+  recordChange(previous: Card | undefined, current: Card): Promise<CardRevision | null> {
+    return this.enqueue(async () => {
+      if (previous && (await this.countRevisions(current.id)) === 0) {
+        await this.writeRevision(previous, 'initial', new Date(previous.updatedAt))
+      }
+      return this.writeRevision(current, 'edit', new Date(current.updatedAt))
+    })
+  }
+
+  /**
+   * 恢复到指定修订，返回用于更新卡片的内容
+   * 恢复本身也记为一次修订，之后仍可撤回
+   */
+  async restore(cardId: string, revision: CardRevision): Promise<Pick<Card, 'frontContent' | 'backContent' | 'style'>> {
+    const snapshot = await this.getSnapshot(revision.hash)
+    if (!snapshot) {
+      throw new Error('Revision content is no longer available')
+    }
+
+    const now = new Date()
+    const updates = {
+      frontContent: { ...snapshot.frontContent, lastModified: now },
+      backContent: { ...snapshot.backContent, lastModified: now },
+      style: snapshot.style
+    }
+    await this.enqueue(() => this.writeRevision({ id: cardId, ...updates }, 'restore', now))
+    return updates
+  }
+
+  // 获取卡片的修订，最新的在前
+  async getRevisions(cardId: string): Promise<CardRevision[]> {
+    const revisions = await db.cardRevisions
+      .where('[cardId+createdAt]')
+      .between([cardId, new Date(0)], [cardId, new Date(8640000000000000)])
+      .toArray()
+    return revisions.reverse()
+  }
+
+  async getSnapshot(hash: string): Promise<CardSnapshot | undefined> {
+    return db.cardSnapshots.get(hash)
+  }
+
+  async getSnapshots(hashes: string[]): Promise<Map<string, CardSnapshot>> {
+    const unique = Array.from(new Set(hashes))
+    const snapshots = await db.cardSnapshots.bulkGet(unique)
+    return new Map(
+      snapshots.filter((snapshot): snapshot is CardSnapshot => !!snapshot).map(snapshot => [snapshot.hash, snapshot])
+    )
+  }
+
+  // 删除卡片时清理历史
+  async removeCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return
+    await this.enqueue(async () => {
+      const revisions = await db.cardRevisions.where('cardId').anyOf(cardIds).toArray()
+      await this.deleteRevisions(revisions)
+    })
+    cardIds.forEach(cardId => this.notify(cardId))
+  }
+
+  /**
+   * 按保留策略清理卡片的旧修订
+   */
+  async prune(cardId: string, now: Date = new Date()): Promise<number> {
+    const revisions = await db.cardRevisions.where('cardId').equals(cardId).toArray()
+    const prunable = selectPrunableRevisions(revisions, this.policy, now)
+    await this.deleteRevisions(prunable)
+    return prunable.length
+  }
+
+  private async writeRevision(
+    card: Pick<Card, 'id' | 'frontContent' | 'backContent' | 'style'>,
+    source: CardRevision['source'],
+    createdAt: Date
+  ): Promise<CardRevision | null> {
+    const snapshot = await this.createSnapshot(card)
+
+    const revision = await db.transaction('rw', db.cardSnapshots, db.cardRevisions, async () => {
+      const [latest] = await this.getRevisions(card.id)
+      if (latest?.hash === snapshot.hash) {
+        return null
+      }
+
+      if (!(await db.cardSnapshots.get(snapshot.hash))) {
+        await db.cardSnapshots.add(snapshot)
+      }
+      const entry: CardRevision = { cardId: card.id, hash: snapshot.hash, createdAt, source }
+      entry.id = await db.cardRevisions.add(entry)
+      await this.prune(card.id)
+      return entry
+    })
+
+    if (revision) {
+      this.notify(card.id)
+    }
+    return revision
+  }
+
+  private async deleteRevisions(revisions: CardRevision[]): Promise<void> {
+    if (revisions.length === 0) return
+
+    await db.transaction('rw', db.cardSnapshots, db.cardRevisions, async () => {
+      await db.cardRevisions.bulkDelete(revisions.map(revision => revision.id!))
+
+      // 删除不再被任何修订引用的快照
+      for (const hash of new Set(revisions.map(revision => revision.hash))) {
+        if ((await db.cardRevisions.where('hash').equals(hash).count()) === 0) {
+          await db.cardSnapshots.delete(hash)
+        }
+      }
+    })
+  }
+
+  private countRevisions(cardId: string): Promise<number> {
+    return db.cardRevisions.where('cardId').equals(cardId).count()
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private notify(cardId: string): void {
+    this.listeners.forEach(listener => listener(cardId))
+  }
+}
+
+export const cardHistoryService = new CardHistoryService()
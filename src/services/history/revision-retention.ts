@@ -0,0 +1,62 @@
+/**
+ * 修订保留策略
+ *
+ * 最近 keepAllDays 天内的修订全部保留；keepDailyDays 天内每天保留最后一个；更早的每周保留最后一个。
+ * 最新的修订始终保留。
+ */
+
+import { CardRevision, RevisionRetentionPolicy } from '@/types/history'
+
+export const DEFAULT_RETENTION_POLICY: RevisionRetentionPolicy = {
+  keepAllDays: 7,
+  keepDailyDays: 30
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 本地日期，如 2025-03-04
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+// 所在周的周一日期
+function weekKey(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return dayKey(monday)
+}
+
+/**
+ * 选出按策略应删除的修订
+ */
+export function selectPrunableRevisions<T extends Pick<CardRevision, 'createdAt'>>(
+  revisions: T[],
+  policy: RevisionRetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: Date = new Date()
+): T[] {
+  const newestFirst = [...revisions].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+  const keptBuckets = new Set<string>()
+  const prunable: T[] = []
+
+  newestFirst.forEach((revision, index) => {
+    if (index === 0) return
+
+    const createdAt = new Date(revision.createdAt)
+    const age = now.getTime() - createdAt.getTime()
+    if (age <= policy.keepAllDays * DAY_MS) return
+
+    // 按天或按周分桶，每个桶保留最新的一个
+    const bucket = age <= policy.keepDailyDays * DAY_MS
+      ? `day:${dayKey(createdAt)}`
+      : `week:${weekKey(createdAt)}`
+    if (keptBuckets.has(bucket)) {
+      prunable.push(revision)
+    } else {
+      keptBuckets.add(bucket)
+    }
+  })
+
+  return prunable
+}
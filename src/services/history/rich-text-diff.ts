@@ -0,0 +1,170 @@
+/**
+ * 富文本差异比较
+ *
+ * 将 HTML 切分为标签、单词、CJK 单字、空白和标点，对词元做最长公共子序列比较。
+ * 生成左右两栏：左栏是旧版本的全部词元并标出删除，右栏是新版本的全部词元并标出新增，
+ * 两栏各自只包含自己的标签，因此结构始终完整。
+ */
+
+export type DiffOperation = 'equal' | 'delete' | 'insert'
+
+export interface DiffSegment {
+  op: DiffOperation
+  tokens: string[]
+}
+
+export interface SideBySideDiff {
+  before: string // 旧版本 HTML，删除部分包裹在 <del> 中
+  after: string // 新版本 HTML，新增部分包裹在 <ins> 中
+  changed: boolean
+}
+
+// 超过此规模不做逐词比较，整段视为替换
+const MAX_DIFF_CELLS = 2_000_000
+
+const TOKEN_PATTERN = /<[^>]*>|&#?[a-zA-Z0-9]+;|[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]|[\p{L}\p{N}_'’-]+|\s+|[^\s<&]/gu
+
+export const DELETED_CLASS = 'rounded-sm bg-red-100 text-red-900 line-through decoration-red-400 dark:bg-red-950 dark:text-red-200'
+export const INSERTED_CLASS = 'rounded-sm bg-green-100 text-green-900 no-underline dark:bg-green-950 dark:text-green-200'
+
+export function tokenizeHtml(html: string): string[] {
+  return html.match(TOKEN_PATTERN) ?? []
+}
+
+function isTag(token: string): boolean {
+  return token.startsWith('<')
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 词元序列差异，先去掉公共前后缀再计算最长公共子序列
+ */
+export function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  let prefix = 0
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = before.slice(prefix, before.length - suffix)
+  const b = after.slice(prefix, after.length - suffix)
+  const segments: DiffSegment[] = []
+  const push = (op: DiffOperation, token: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.op === op) {
+      last.tokens.push(token)
+    } else {
+      segments.push({ op, tokens: [token] })
+    }
+  }
+
+  before.slice(0, prefix).forEach(token => push('equal', token))
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach(token => push('delete', token))
+    b.forEach(token => push('insert', token))
+  } else {
+    // lengths[i][j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+    const width = b.length + 1
+    const lengths = new Uint32Array((a.length + 1) * width)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push('equal', a[i])
+        i++
+        j++
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('delete', a[i++])
+      } else {
+        push('insert', b[j++])
+      }
+    }
+    while (i < a.length) push('delete', a[i++])
+    while (j < b.length) push('insert', b[j++])
+  }
+
+  after.slice(after.length - suffix).forEach(token => push('equal', token))
+  return segments
+}
+
+/**
+ * 将文本词元包裹在标记中，遇到标签时先闭合，保证不会跨越元素边界
+ */
+function wrapTokens(tokens: string[], tag: 'del' | 'ins', className: string): string {
+  let html = ''
+  let run = ''
+  const flush = () => {
+    if (run) {
+      html += /\S/.test(run) ? `<${tag} class="${className}">${run}</${tag}>` : run
+      run = ''
+    }
+  }
+
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush()
+      html += token
+    } else {
+      run += token
+    }
+  }
+  flush()
+  return html
+}
+
+/**
+ * 比较两段 HTML，返回左右两栏的标注结果
+ */
+export function diffRichText(before: string, after: string): SideBySideDiff {
+  const segments = diffTokens(tokenizeHtml(before || ''), tokenizeHtml(after || ''))
+  let beforeHtml = ''
+  let afterHtml = ''
+
+  for (const segment of segments) {
+    if (segment.op === 'equal') {
+      const html = segment.tokens.join('')
+      beforeHtml += html
+      afterHtml += html
+    } else if (segment.op === 'delete') {
+      beforeHtml += wrapTokens(segment.tokens, 'del', DELETED_CLASS)
+    } else {
+      afterHtml += wrapTokens(segment.tokens, 'ins', INSERTED_CLASS)
+    }
+  }
+
+  return {
+    before: beforeHtml,
+    after: afterHtml,
+    changed: segments.some(segment => segment.op !== 'equal')
+  }
+}
+
+/**
+ * 比较两段纯文本（如标题），先转义再按富文本处理
+ */
+export function diffPlainText(before: string, after: string): SideBySideDiff {
+  return diffRichText(escapeHtml(before || ''), escapeHtml(after || ''))
+}
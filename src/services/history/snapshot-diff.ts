@@ -0,0 +1,97 @@
+/**
+ * 快照差异
+ *
+ * 逐面比较两个快照的标题、正文、标签、图片和待办，以及卡片样式，
+ * 供时间线显示修改摘要和对比视图逐项展示。
+ */
+
+import { CardStyle } from '@/types/card'
+import { CardSnapshot, SnapshotContent } from '@/types/history'
+import { SideBySideDiff, diffPlainText, diffRichText } from './rich-text-diff'
+
+export type SnapshotSide = 'front' | 'back'
+
+export interface SideDiff {
+  title: SideBySideDiff
+  text: SideBySideDiff
+  tags: { added: string[]; removed: string[] }
+  images: { added: number; removed: number }
+  todos: { added: number; removed: number; toggled: number }
+}
+
+export interface StyleChange {
+  property: keyof CardStyle
+  before: unknown
+  after: unknown
+}
+
+export interface SnapshotDiff {
+  front: SideDiff
+  back: SideDiff
+  style: StyleChange[]
+  summary: string[] // 修改项简述，如 "Front text"、"Style"
+}
+
+function diffSide(before: SnapshotContent, after: SnapshotContent): SideDiff {
+  const beforeImages = new Set(before.images.map(image => image.id))
+  const afterImages = new Set(after.images.map(image => image.id))
+  const beforeTodos = new Map(before.todos.map(todo => [todo.id, todo]))
+  const afterTodos = new Map(after.todos.map(todo => [todo.id, todo]))
+
+  return {
+    title: diffPlainText(before.title, after.title),
+    text: diffRichText(before.text, after.text),
+    tags: {
+      added: after.tags.filter(tag => !before.tags.includes(tag)),
+      removed: before.tags.filter(tag => !after.tags.includes(tag))
+    },
+    images: {
+      added: after.images.filter(image => !beforeImages.has(image.id)).length,
+      removed: before.images.filter(image => !afterImages.has(image.id)).length
+    },
+    todos: {
+      added: after.todos.filter(todo => !beforeTodos.has(todo.id)).length,
+      removed: before.todos.filter(todo => !afterTodos.has(todo.id)).length,
+      toggled: after.todos.filter(todo => {
+        const previous = beforeTodos.get(todo.id)
+        return previous && (previous.completed !== todo.completed || previous.text !== todo.text)
+      }).length
+    }
+  }
+}
+
+function summarizeSide(label: string, diff: SideDiff): string[] {
+  const summary: string[] = []
+  if (diff.title.changed) summary.push(`${label} title`)
+  if (diff.text.changed) summary.push(`${label} text`)
+  if (diff.tags.added.length > 0 || diff.tags.removed.length > 0) summary.push(`${label} tags`)
+  if (diff.images.added > 0 || diff.images.removed > 0) summary.push(`${label} images`)
+  if (diff.todos.added > 0 || diff.todos.removed > 0 || diff.todos.toggled > 0) summary.push(`${label} to-dos`)
+  return summary
+}
+
+export function diffSnapshots(before: CardSnapshot, after: CardSnapshot): SnapshotDiff {
+  const front = diffSide(before.frontContent, after.frontContent)
+  const back = diffSide(before.backContent, after.backContent)
+
+  const properties = new Set([...Object.keys(before.style), ...Object.keys(after.style)]) as Set<keyof CardStyle>
+  const style: StyleChange[] = []
+  properties.forEach(property => {
+    const previous = before.style[property]
+    const next = after.style[property]
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      style.push({ property, before: previous, after: next })
+    }
+  })
+
+  return {
+    front,
+    back,
+    style,
+    summary: [
+      ...summarizeSide('Front', front),
+      ...summarizeSide('Back', back),
+      ...(style.length > 0 ? ['Style'] : [])
+    ]
+  }
+}
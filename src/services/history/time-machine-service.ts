@@ -0,0 +1,458 @@
+/**
+ * 时间机器服务
+ *
+ * 把一个备份或恢复点挂载为只读数据集，与当前数据逐卡对比，并为选中的卡片、文件夹和标签生成恢复计划。
+ * 挂载不会修改数据库，恢复计划由调用方通过正常的状态操作写入，因此可以撤销。
+ */
+
+import { Card, CardContent, CardStyle, Folder, Tag } from '@/types/card'
+import { EntityLock } from '@/types/entity-lock'
+import {
+  TimeMachineChange,
+  TimeMachineChangeKind,
+  TimeMachineDataset,
+  TimeMachineDiff,
+  TimeMachineFolderDiff,
+  TimeMachineRestorePlan,
+  TimeMachineSelection,
+  TimeMachineSource
+} from '@/types/time-machine'
+import { backupCoreService } from '@/services/core/backup/backup-core.service'
+import type { BackupEntity } from '@/services/database-unified'
+import { dataSecurityService } from '@/services/data-security'
+import { dataRecoveryService } from '@/services/data-recovery'
+import { cardHistoryService } from './card-history-service'
+
+type MountChangeListener = (dataset: TimeMachineDataset | null) => void
+
+export interface TimeMachineCurrentData {
+  cards: Card[]
+  folders: Folder[]
+  tags: Tag[]
+}
+
+// 挂载来源中的原始实体，结构未经校验
+interface RawDataset {
+  cards?: unknown[]
+  folders?: unknown[]
+  tags?: unknown[]
+}
+
+const UNFILED_NAME = 'Unfiled'
+
+function toDate(value: unknown, fallback: Date): Date {
+  if (value === undefined || value === null) return fallback
+  const date = value instanceof Date ? value : new Date(value as string | number)
+  return isNaN(date.getTime()) ? fallback : date
+}
+
+function asEntity(value: unknown): BackupEntity | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as BackupEntity : null
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined
+}
+
+// 备份中的实体可能来自不同的数据库结构或经过 JSON 序列化，统一转换为应用类型
+function normalizeCard(value: unknown, fallbackDate: Date): Card | null {
+  const raw = asEntity(value)
+  const front = asEntity(raw?.frontContent)
+  const back = asEntity(raw?.backContent)
+  if (!raw || !optionalString(raw.id) || !front || !back) return null
+
+  const normalizeContent = (content: BackupEntity): CardContent => ({
+    title: optionalString(content.title) ?? '',
+    text: optionalString(content.text) ?? '',
+    images: Array.isArray(content.images) ? content.images : [],
+    tags: Array.isArray(content.tags) ? content.tags : [],
+    todos: Array.isArray(content.todos) ? content.todos : [],
+    lastModified: toDate(content.lastModified, fallbackDate)
+  })
+
+  return {
+    id: raw.id as string,
+    frontContent: normalizeContent(front),
+    backContent: normalizeContent(back),
+    style: asEntity(raw.style) ? raw.style as CardStyle : { type: 'solid' },
+    isFlipped: false,
+    createdAt: toDate(raw.createdAt, fallbackDate),
+    updatedAt: toDate(raw.updatedAt, fallbackDate),
+    folderId: optionalString(raw.folderId),
+    lock: asEntity(raw.lock) ? raw.lock as EntityLock : undefined
+  }
+}
+
+function normalizeFolder(value: unknown, fallbackDate: Date): Folder | null {
+  const raw = asEntity(value)
+  if (!raw || !optionalString(raw.id) || typeof raw.name !== 'string') return null
+
+  return {
+    id: raw.id as string,
+    name: raw.name,
+    color: optionalString(raw.color) ?? '#3b82f6',
+    icon: optionalString(raw.icon),
+    cardIds: Array.isArray(raw.cardIds) ? raw.cardIds.filter((id): id is string => typeof id === 'string') : [],
+    parentId: optionalString(raw.parentId),
+    isExpanded: optionalBoolean(raw.isExpanded),
+    lock: asEntity(raw.lock) ? raw.lock as EntityLock : undefined,
+    createdAt: toDate(raw.createdAt, fallbackDate),
+    updatedAt: toDate(raw.updatedAt, fallbackDate)
+  }
+}
+
+function normalizeTag(value: unknown, fallbackDate: Date): Tag | null {
+  const raw = asEntity(value)
+  if (!raw || !optionalString(raw.id) || typeof raw.name !== 'string') return null
+
+  return {
+    id: raw.id as string,
+    name: raw.name,
+    color: optionalString(raw.color) ?? '#3b82f6',
+    count: typeof raw.count === 'number' ? raw.count : 0,
+    isHidden: optionalBoolean(raw.isHidden),
+    createdAt: toDate(raw.createdAt, fallbackDate)
+  }
+}
+
+function normalizeAll<T>(items: unknown[] | undefined, normalize: (value: unknown, fallbackDate: Date) => T | null, fallbackDate: Date): T[] {
+  return (items ?? []).map(item => normalize(item, fallbackDate)).filter((item): item is T => item !== null)
+}
+
+function cardTitle(card: Card): string {
+  return card.frontContent.title || 'Untitled Card'
+}
+
+function folderChanged(snapshot: Folder, current: Folder): boolean {
+  return snapshot.name !== current.name ||
+    snapshot.color !== current.color ||
+    snapshot.icon !== current.icon ||
+    (snapshot.parentId ?? null) !== (current.parentId ?? null)
+}
+
+function tagChanged(snapshot: Tag, current: Tag): boolean {
+  return snapshot.name !== current.name || snapshot.color !== current.color
+}
+
+// 按 ID 比较两组实体，返回当前数据相对于快照的变化
+function diffEntities<T extends { id: string }>(
+  snapshot: T[],
+  current: T[],
+  getName: (item: T) => string,
+  isChanged: (snapshot: T, current: T) => boolean
+): TimeMachineChange<T>[] {
+  const currentById = new Map(current.map(item => [item.id, item]))
+  const snapshotIds = new Set(snapshot.map(item => item.id))
+  const changes: TimeMachineChange<T>[] = []
+
+  for (const item of snapshot) {
+    const existing = currentById.get(item.id)
+    if (!existing) {
+      changes.push({ kind: 'removed', id: item.id, name: getName(item), snapshot: item })
+    } else if (isChanged(item, existing)) {
+      changes.push({ kind: 'changed', id: item.id, name: getName(existing), snapshot: item, current: existing })
+    }
+  }
+  for (const item of current) {
+    if (!snapshotIds.has(item.id)) {
+      changes.push({ kind: 'added', id: item.id, name: getName(item), current: item })
+    }
+  }
+
+  return changes
+}
+
+export class TimeMachineService {
+  private mounted: TimeMachineDataset | null = null
+  private listeners: MountChangeListener[] = []
+
+  // 注册挂载状态监听器
+  onChange(listener: MountChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getMounted(): TimeMachineDataset | null {
+    return this.mounted
+  }
+
+  /**
+   * 列出所有可挂载的备份和恢复点（从新到旧），单个来源读取失败不影响其它来源
+   */
+  async listSources(): Promise<TimeMachineSource[]> {
+    const sources: TimeMachineSource[] = []
+
+    try {
+      const backups = await backupCoreService.listBackups()
+      sources.push(...backups.map(backup => ({
+        type: 'backup' as const,
+        id: backup.id,
+        label: backup.type === 'full' ? 'Full backup' : 'Incremental backup',
+        timestamp: new Date(backup.timestamp),
+        detail: `${backup.entities?.cards ?? 0} cards`
+      })))
+    } catch (error) {
+      console.warn('Failed to list backups:', error)
+    }
+
+    try {
+      const backups = await dataSecurityService.listBackups()
+      sources.push(...backups.map(backup => ({
+        type: 'security-backup' as const,
+        id: backup.id,
+        label: backup.description || 'Security backup',
+        timestamp: new Date(backup.timestamp),
+        detail: backup.tags.length > 0 ? backup.tags.join(', ') : undefined
+      })))
+    } catch (error) {
+      console.warn('Failed to list security backups:', error)
+    }
+
+    try {
+      sources.push(...dataRecoveryService.getRecoveryPoints().map(point => ({
+        type: 'recovery-point' as const,
+        id: point.id,
+        label: point.description || 'Recovery point',
+        timestamp: new Date(point.timestamp),
+        detail: `${point.type} · ${point.data.cards.length} cards`
+      })))
+    } catch (error) {
+      console.warn('Failed to list recovery points:', error)
+    }
+
+    return sources.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+  }
+
+  /**
+   * 加载来源的数据并挂载为当前浏览的数据集
+   */
+  async mount(source: TimeMachineSource): Promise<TimeMachineDataset> {
+    const raw = await this.load(source)
+    const fallbackDate = source.timestamp
+
+    const dataset: TimeMachineDataset = {
+      source,
+      cards: normalizeAll(raw.cards, normalizeCard, fallbackDate),
+      folders: normalizeAll(raw.folders, normalizeFolder, fallbackDate),
+      tags: normalizeAll(raw.tags, normalizeTag, fallbackDate),
+      mountedAt: new Date()
+    }
+
+    this.mounted = dataset
+    this.notify()
+    return dataset
+  }
+
+  unmount(): void {
+    if (!this.mounted) return
+    this.mounted = null
+    this.notify()
+  }
+
+  /**
+   * 比较快照与当前数据，卡片变化按所在文件夹分组
+   */
+  async diff(dataset: TimeMachineDataset, current: TimeMachineCurrentData): Promise<TimeMachineDiff> {
+    // 卡片内容按快照哈希比较，忽略 lastModified 等每次保存都会变化的字段
+    const currentById = new Map(current.cards.map(card => [card.id, card]))
+    const changedIds = new Set<string>()
+    for (const card of dataset.cards) {
+      const existing = currentById.get(card.id)
+      if (!existing) continue
+      if ((card.folderId ?? null) !== (existing.folderId ?? null)) {
+        changedIds.add(card.id)
+        continue
+      }
+      const [before, after] = await Promise.all([
+        cardHistoryService.createSnapshot(card),
+        cardHistoryService.createSnapshot(existing)
+      ])
+      if (before.hash !== after.hash) {
+        changedIds.add(card.id)
+      }
+    }
+
+    const cardChanges = diffEntities(dataset.cards, current.cards, cardTitle, card => changedIds.has(card.id))
+    const folderNames = new Map([...current.folders, ...dataset.folders].map(folder => [folder.id, folder.name]))
+
+    // 已删除和已修改的卡片归入快照中的文件夹，新增的卡片归入当前文件夹
+    const groups = new Map<string | null, TimeMachineFolderDiff>()
+    for (const change of cardChanges) {
+      const card = change.snapshot ?? change.current!
+      const folderId = card.folderId && folderNames.has(card.folderId) ? card.folderId : null
+      let group = groups.get(folderId)
+      if (!group) {
+        group = { folderId, folderName: folderId ? folderNames.get(folderId)! : UNFILED_NAME, changes: [] }
+        groups.set(folderId, group)
+      }
+      group.changes.push(change)
+    }
+
+    const summary: Record<TimeMachineChangeKind, number> = { added: 0, removed: 0, changed: 0 }
+    cardChanges.forEach(change => summary[change.kind]++)
+
+    return {
+      cardsByFolder: Array.from(groups.values()).sort((a, b) => {
+        if (a.folderId === null) return 1
+        if (b.folderId === null) return -1
+        return a.folderName.localeCompare(b.folderName)
+      }),
+      folders: diffEntities(dataset.folders, current.folders, folder => folder.name, folderChanged),
+      tags: diffEntities(dataset.tags, current.tags, tag => tag.name, tagChanged),
+      summary
+    }
+  }
+
+  /**
+   * 为选中的实体生成恢复计划
+   *
+   * 恢复的卡片所在文件夹已不存在时，一并从快照中恢复该文件夹及其上级；
+   * 文件夹的 cardIds 随卡片的移动更新。
+   */
+  buildRestorePlan(
+    dataset: TimeMachineDataset,
+    current: TimeMachineCurrentData,
+    selection: TimeMachineSelection
+  ): TimeMachineRestorePlan {
+    const plan: TimeMachineRestorePlan = {
+      cards: [],
+      cardUpdates: [],
+      folders: [],
+      folderUpdates: [],
+      tags: [],
+      tagUpdates: []
+    }
+
+    // 标签
+    const currentTags = new Map(current.tags.map(tag => [tag.id, tag]))
+    for (const tag of dataset.tags.filter(item => selection.tagIds.includes(item.id))) {
+      if (currentTags.has(tag.id)) {
+        plan.tagUpdates.push({ id: tag.id, updates: { name: tag.name, color: tag.color, isHidden: tag.isHidden } })
+      } else {
+        plan.tags.push(tag)
+      }
+    }
+
+    // 文件夹
+    const currentFolders = new Map(current.folders.map(folder => [folder.id, folder]))
+    const snapshotFolders = new Map(dataset.folders.map(folder => [folder.id, folder]))
+    const folderUpdates = new Map<string, Partial<Folder>>()
+    const createdFolders = new Map<string, Folder>()
+
+    const requireFolder = (folderId: string | undefined): string | undefined => {
+      if (!folderId) return undefined
+      if (currentFolders.has(folderId) || createdFolders.has(folderId)) return folderId
+      const folder = snapshotFolders.get(folderId)
+      if (!folder) return undefined
+      // 先登记再处理上级，避免父子循环时无限递归
+      const created: Folder = { ...folder, cardIds: [] }
+      createdFolders.set(folderId, created)
+      created.parentId = requireFolder(folder.parentId)
+      return folderId
+    }
+
+    for (const folder of dataset.folders.filter(item => selection.folderIds.includes(item.id))) {
+      if (currentFolders.has(folder.id)) {
+        folderUpdates.set(folder.id, {
+          name: folder.name,
+          color: folder.color,
+          icon: folder.icon,
+          parentId: requireFolder(folder.parentId)
+        })
+      } else {
+        requireFolder(folder.id)
+      }
+    }
+
+    // 卡片，同时记录文件夹成员的变化
+    const currentCards = new Map(current.cards.map(card => [card.id, card]))
+    const membership = new Map<string, string[]>()
+    const getMembers = (folderId: string) => {
+      if (!membership.has(folderId)) {
+        membership.set(folderId, [...(currentFolders.get(folderId)?.cardIds ?? [])])
+      }
+      return membership.get(folderId)!
+    }
+
+    for (const card of dataset.cards.filter(item => selection.cardIds.includes(item.id))) {
+      const folderId = requireFolder(card.folderId)
+      const existing = currentCards.get(card.id)
+
+      if (existing) {
+        plan.cardUpdates.push({
+          id: card.id,
+          updates: {
+            frontContent: card.frontContent,
+            backContent: card.backContent,
+            style: card.style,
+            folderId,
+            lock: card.lock,
+            updatedAt: new Date()
+          }
+        })
+        if (existing.folderId && existing.folderId !== folderId && currentFolders.has(existing.folderId)) {
+          const members = getMembers(existing.folderId)
+          const index = members.indexOf(card.id)
+          if (index > -1) {
+            members.splice(index, 1)
+          }
+        }
+      } else {
+        plan.cards.push({ ...card, folderId })
+      }
+
+      if (folderId) {
+        const members = getMembers(folderId)
+        if (!members.includes(card.id)) {
+          members.push(card.id)
+        }
+      }
+    }
+
+    for (const [folderId, cardIds] of membership) {
+      const created = createdFolders.get(folderId)
+      if (created) {
+        created.cardIds = cardIds
+      } else if (cardIds.join() !== currentFolders.get(folderId)!.cardIds.join()) {
+        folderUpdates.set(folderId, { ...folderUpdates.get(folderId), cardIds })
+      }
+    }
+
+    plan.folders = Array.from(createdFolders.values())
+    plan.folderUpdates = Array.from(folderUpdates, ([id, updates]) => ({ id, updates }))
+    return plan
+  }
+
+  private async load(source: TimeMachineSource): Promise<RawDataset> {
+    switch (source.type) {
+      case 'backup':
+        return (await backupCoreService.readBackup(source.id)).data
+
+      case 'security-backup':
+        return dataSecurityService.readBackup(source.id)
+
+      case 'recovery-point': {
+        const point = dataRecoveryService.getRecoveryPoint(source.id)
+        if (!point) {
+          throw new Error(`Recovery point ${source.id} not found`)
+        }
+        return point.data
+      }
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.mounted))
+  }
+}
+
+export const timeMachineService = new TimeMachineService()
@@ -0,0 +1,252 @@
+/**
+ * Anki 文本格式：Anki「导入文件」支持的带文件头的制表符分隔文本
+ *
+ * 列：Front, Back, Tags, Deck。正反面为 HTML，标题写成开头的 <h3>，待办写成带
+ * data-cardall-todos 标记的列表，以便重新导入时还原。文件夹路径以 :: 连接作为牌组名。
+ * 图片放在 media/ 目录并以文件名引用，使用时复制到 Anki 的 collection.media 目录即可。
+ */
+
+import { CardContent, TodoItem } from '@/types/card'
+import { ExportEntry, ParsedDraft, createImportDraft, normalizeTags } from './card-draft'
+import { parseDelimited } from './delimited-text'
+import { escapeHtml, textToHtml } from './markdown-converter'
+import { AssetCollector, AssetResolver, rewriteImageSources } from './interchange-assets'
+
+export const ANKI_ASSET_DIRECTORY = 'media'
+export const ANKI_DEFAULT_DECK = 'Default'
+
+export const ANKI_HEADER = [
+  '#separator:tab',
+  '#html:true',
+  '#notetype:Basic',
+  '#columns:Front\tBack\tTags\tDeck',
+  '#tags column:3',
+  '#deck column:4'
+]
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':'
+}
+
+const TODO_LIST_ATTRIBUTE = 'data-cardall-todos'
+
+// ============================================================================
+// 导出
+// ============================================================================
+
+export async function exportAnkiRow(entry: ExportEntry, assets: AssetCollector): Promise<string[]> {
+  const { card, folderPath } = entry
+
+  const front = await exportSide(card.frontContent, assets)
+  const back = await exportSide(card.backContent, assets)
+
+  // images 表中未被引用的图片附加到正面
+  const storedImages: string[] = []
+  for (const path of entry.storedImages) {
+    const assetPath = await assets.add(path)
+    if (assetPath) storedImages.push(`<img src="${escapeHtml(toMediaName(assetPath))}">`)
+  }
+
+  // Anki 标签以空格分隔，标签内的空格替换为下划线
+  const tags = normalizeTags([...card.frontContent.tags, ...card.backContent.tags])
+    .map(tag => tag.replace(/\s+/g, '_'))
+
+  return [
+    [front, ...storedImages].join(''),
+    back,
+    tags.join(' '),
+    folderPath.length > 0 ? folderPath.join('::') : ANKI_DEFAULT_DECK
+  ]
+}
+
+async function exportSide(side: CardContent, assets: AssetCollector): Promise<string> {
+  const parts: string[] = []
+
+  if (side.title) {
+    parts.push(`<h3>${escapeHtml(side.title)}</h3>`)
+  }
+
+  const html = await rewriteImageSources(side.text || '', async src => {
+    const assetPath = await assets.add(src)
+    return assetPath ? toMediaName(assetPath) : null
+  })
+  if (html) parts.push(html)
+
+  for (const image of side.images || []) {
+    const assetPath = await assets.add(image.url, image.alt)
+    if (assetPath) {
+      parts.push(`<img src="${escapeHtml(toMediaName(assetPath))}" alt="${escapeHtml(image.alt || '')}">`)
+    }
+  }
+
+  if (side.todos && side.todos.length > 0) {
+    const items = side.todos
+      .map(todo => `<li data-checked="${todo.completed}">${escapeHtml(todo.text)}</li>`)
+      .join('')
+    parts.push(`<ul ${TODO_LIST_ATTRIBUTE}>${items}</ul>`)
+  }
+
+  // 制表符和换行会破坏行结构
+  return parts.join('').replace(/[\t\r\n]+/g, ' ')
+}
+
+// Anki 只按文件名查找媒体文件
+function toMediaName(path: string): string {
+  return path.split('/').pop() || path
+}
+
+// ============================================================================
+// 导入
+// ============================================================================
+
+interface AnkiHeader {
+  separator: string
+  html: boolean
+  tagsColumn?: number
+  deckColumn?: number
+  columns?: string[]
+}
+
+export async function parseAnkiFile(text: string, sourcePath: string, assets: AssetResolver): Promise<{ drafts: ParsedDraft[]; errors: string[] }> {
+  const { header, body, bodyStartLine } = parseHeader(text)
+  const rows = parseDelimited(body, header.separator)
+  const errors: string[] = []
+  const drafts: ParsedDraft[] = []
+  const baseDir = sourcePath.split('/').slice(0, -1).join('/')
+
+  if (rows.length === 0) {
+    return { drafts, errors: [`${sourcePath}: file has no notes`] }
+  }
+
+  // 列号从 1 开始；未声明时前两列为正反面
+  const columnIndex = (name: string) => header.columns
+    ? header.columns.findIndex(column => column.trim().toLowerCase() === name)
+    : -1
+  const frontIndex = columnIndex('front') >= 0 ? columnIndex('front') : 0
+  const backIndex = columnIndex('back') >= 0 ? columnIndex('back') : 1
+  const tagsIndex = header.tagsColumn !== undefined ? header.tagsColumn - 1 : columnIndex('tags')
+  const deckIndex = header.deckColumn !== undefined ? header.deckColumn - 1 : columnIndex('deck')
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index]
+    const lineNumber = bodyStartLine + index
+    const warnings: string[] = []
+    const cell = (position: number) => position >= 0 ? (row[position] || '').trim() : ''
+
+    if (!cell(frontIndex) && !cell(backIndex)) {
+      errors.push(`${sourcePath}:${lineNumber}: note has no content`)
+      continue
+    }
+
+    const resolveImages = (html: string) => rewriteImageSources(html, async src => {
+      const resolved = await assets.resolve(src, baseDir)
+      if (!resolved && !/^(blob:|https?:|data:)/i.test(src)) {
+        warnings.push(`Image not found: ${src}`)
+      }
+      return resolved
+    })
+
+    const toSide = async (value: string): Promise<Partial<CardContent>> => {
+      const side = parseSide(header.html ? value : textToHtml(value))
+      return { ...side, text: await resolveImages(side.text || '') }
+    }
+
+    const deck = cell(deckIndex)
+    const folderPath = deck && deck !== ANKI_DEFAULT_DECK
+      ? deck.split('::').map(name => name.trim()).filter(Boolean)
+      : []
+
+    const frontContent = await toSide(cell(frontIndex))
+    drafts.push({
+      draft: createImportDraft({
+        sourceName: `${sourcePath}:${lineNumber}`,
+        folderPath,
+        frontContent: {
+          ...frontContent,
+          tags: normalizeTags(cell(tagsIndex).split(/\s+/))
+        },
+        backContent: await toSide(cell(backIndex))
+      }),
+      warnings
+    })
+  }
+
+  return { drafts, errors }
+}
+
+function parseHeader(text: string): { header: AnkiHeader; body: string; bodyStartLine: number } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const header: AnkiHeader = { separator: '\t', html: false }
+  let explicitSeparator = false
+  let lineIndex = 0
+
+  for (; lineIndex < lines.length; lineIndex++) {
+    const match = lines[lineIndex].match(/^#([a-z ]+):(.*)$/i)
+    if (!match) break
+
+    const key = match[1].trim().toLowerCase()
+    const value = match[2]
+    switch (key) {
+      case 'separator': {
+        const name = value.trim().toLowerCase()
+        header.separator = SEPARATOR_NAMES[name] || value.charAt(0) || '\t'
+        explicitSeparator = true
+        break
+      }
+      case 'html':
+        header.html = value.trim().toLowerCase() === 'true'
+        break
+      case 'tags column':
+        header.tagsColumn = parseInt(value, 10) || undefined
+        break
+      case 'deck column':
+        header.deckColumn = parseInt(value, 10) || undefined
+        break
+      case 'columns':
+        header.columns = value.split(explicitSeparator ? header.separator : /\t|,|;/)
+        break
+    }
+  }
+
+  const body = lines.slice(lineIndex).join('\n')
+  // 没有文件头的普通导出文本默认按制表符分隔并视为 HTML
+  if (lineIndex === 0) {
+    header.html = /<[a-z][\s\S]*>/i.test(body)
+  }
+
+  return { header, body, bodyStartLine: lineIndex + 1 }
+}
+
+// 还原导出时写入的标题和待办列表
+function parseSide(html: string): Partial<CardContent> {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html')
+  let title = ''
+  const todos: TodoItem[] = []
+
+  const first = doc.body.firstElementChild
+  if (first && first.tagName === 'H3' && doc.body.firstChild === first) {
+    title = first.textContent?.trim() || ''
+    first.remove()
+  }
+
+  for (const list of Array.from(doc.body.querySelectorAll(`ul[${TODO_LIST_ATTRIBUTE}]`))) {
+    for (const item of Array.from(list.querySelectorAll('li'))) {
+      const text = item.textContent?.trim()
+      if (text) {
+        todos.push({ id: crypto.randomUUID(), text, completed: item.getAttribute('data-checked') === 'true' })
+      }
+    }
+    list.remove()
+  }
+
+  return { title, text: doc.body.innerHTML.trim(), todos }
+}
+
+export function isAnkiPath(path: string): boolean {
+  return /\.txt$/i.test(path)
+}
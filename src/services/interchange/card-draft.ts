@@ -0,0 +1,130 @@
+/**
+ * 导入导出格式共用的卡片结构
+ */
+
+import { Card, CardContent, CardStyle, TodoItem } from '@/types/card'
+import { ImportDraft } from '@/types/interchange'
+import { TODO_PRIORITIES } from '@/types/tasks'
+import { FrontMatterValue } from './front-matter'
+import { toDate } from '@/services/tasks/task-aggregation'
+
+// 导出时的单张卡片及其文件夹路径
+export interface ExportEntry {
+  card: Card
+  folderPath: string[]
+  storedImages: string[] // images 表中未被卡片内容引用的图片路径
+}
+
+export interface ExportFile {
+  path: string
+  content: string | Blob
+}
+
+export interface ParsedDraft {
+  draft: ImportDraft
+  warnings: string[]
+}
+
+// 与新建卡片一致的默认样式
+export const DEFAULT_CARD_STYLE: CardStyle = {
+  type: 'solid',
+  backgroundColor: '#ffffff',
+  fontFamily: 'system-ui',
+  fontSize: 'base',
+  fontWeight: 'normal',
+  textColor: '#1f2937',
+  borderRadius: 'xl',
+  shadow: 'md',
+  borderWidth: 0
+}
+
+const STYLE_TYPES: CardStyle['type'][] = ['solid', 'gradient', 'glass']
+
+export function createSideContent(partial: Partial<CardContent> = {}): CardContent {
+  return {
+    title: partial.title || '',
+    text: partial.text || '',
+    images: partial.images || [],
+    tags: partial.tags || [],
+    todos: partial.todos || [],
+    lastModified: partial.lastModified || new Date()
+  }
+}
+
+export function createImportDraft(
+  partial: Partial<Omit<ImportDraft, 'frontContent' | 'backContent'>> & {
+    sourceName: string
+    frontContent?: Partial<CardContent>
+    backContent?: Partial<CardContent>
+  }
+): ImportDraft {
+  return {
+    ...partial,
+    frontContent: createSideContent(partial.frontContent),
+    backContent: createSideContent(partial.backContent),
+    style: partial.style || { ...DEFAULT_CARD_STYLE },
+    isFlipped: false,
+    folderPath: partial.folderPath || [],
+    sourceName: partial.sourceName
+  }
+}
+
+// 校验导入的样式，无效时回退到默认样式
+export function normalizeStyle(value: unknown): CardStyle {
+  if (value && typeof value === 'object' && STYLE_TYPES.includes((value as CardStyle).type)) {
+    return { ...DEFAULT_CARD_STYLE, ...(value as CardStyle) }
+  }
+  return { ...DEFAULT_CARD_STYLE }
+}
+
+export function normalizeTodos(value: FrontMatterValue | undefined): TodoItem[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .map((item): Omit<TodoItem, 'id'> | null => {
+      if (typeof item === 'string') {
+        return { text: item, completed: false }
+      }
+      if (item && typeof item === 'object' && !Array.isArray(item) && typeof item.text === 'string') {
+        const priority = TODO_PRIORITIES.find(p => p === item.priority)
+        return {
+          text: item.text,
+          completed: item.completed === true,
+          dueDate: parseDate(item.due),
+          priority,
+          reminderAt: parseDate(item.remind)
+        }
+      }
+      return null
+    })
+    .filter((item): item is Omit<TodoItem, 'id'> => !!item && !!item.text.trim())
+    .map(item => ({ ...item, id: crypto.randomUUID(), text: item.text.trim() }))
+}
+
+// 待办转为普通对象，截止日期、优先级和提醒只在设置时写出，与 normalizeTodos 对应
+export function serializeTodos(todos: TodoItem[]): Array<Record<string, string | boolean>> {
+  return todos.map(todo => {
+    const item: Record<string, string | boolean> = { text: todo.text, completed: todo.completed }
+    const due = toDate(todo.dueDate)
+    const remind = toDate(todo.reminderAt)
+    if (due) item.due = due.toISOString()
+    if (todo.priority) item.priority = todo.priority
+    if (remind) item.remind = remind.toISOString()
+    return item
+  })
+}
+
+export function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.replace(/^#/, '').trim()).filter(Boolean)))
+}
+
+// 转为可写入 front-matter 的普通对象
+export function toFrontMatterObject(value: object): FrontMatterValue {
+  return JSON.parse(JSON.stringify(value))
+}
@@ -0,0 +1,140 @@
+/**
+ * CSV 格式：每行一张卡片
+ *
+ * 列：front_title, front, back_title, back, tags, folder。
+ * 正反面内容为 Markdown，标签以分号分隔，文件夹为以 / 分隔的路径。
+ * 导入时按表头识别列（兼容 question/answer 等常见列名），没有表头时按 front, back, tags, folder 顺序读取。
+ */
+
+import { ExportEntry, ParsedDraft, createImportDraft, normalizeTags } from './card-draft'
+import { detectDelimiter, parseDelimited } from './delimited-text'
+import { htmlToMarkdown, markdownToHtml } from './markdown-converter'
+import { AssetCollector, AssetResolver, rewriteImageSources } from './interchange-assets'
+
+export const CSV_ASSET_DIRECTORY = 'assets'
+
+export const CSV_COLUMNS = ['front_title', 'front', 'back_title', 'back', 'tags', 'folder'] as const
+
+type CsvColumn = typeof CSV_COLUMNS[number]
+
+const COLUMN_ALIASES: Record<CsvColumn, string[]> = {
+  front_title: ['front_title', 'fronttitle', 'title'],
+  front: ['front', 'question', 'front_text', 'term', 'prompt', 'q'],
+  back_title: ['back_title', 'backtitle'],
+  back: ['back', 'answer', 'back_text', 'definition', 'a'],
+  tags: ['tags', 'tag', 'labels'],
+  folder: ['folder', 'deck', 'path', 'category']
+}
+
+// 没有表头时的列顺序
+const POSITIONAL_COLUMNS: CsvColumn[] = ['front', 'back', 'tags', 'folder']
+
+// ============================================================================
+// 导出
+// ============================================================================
+
+export async function exportCsvRow(entry: ExportEntry, assets: AssetCollector): Promise<string[]> {
+  const { card, folderPath } = entry
+
+  const toMarkdown = async (html: string) => htmlToMarkdown(
+    await rewriteImageSources(html || '', src => assets.add(src))
+  )
+
+  // 附加图片以 Markdown 图片语法追加到正面
+  const extraImages: string[] = []
+  for (const image of [...card.frontContent.images, ...card.backContent.images]) {
+    const path = await assets.add(image.url, image.alt)
+    if (path) extraImages.push(`![${image.alt || ''}](${path})`)
+  }
+  for (const path of entry.storedImages) {
+    const assetPath = await assets.add(path)
+    if (assetPath) extraImages.push(`![](${assetPath})`)
+  }
+
+  const front = [await toMarkdown(card.frontContent.text), ...extraImages].filter(Boolean).join('\n\n')
+  const tags = normalizeTags([...card.frontContent.tags, ...card.backContent.tags])
+
+  return [
+    card.frontContent.title,
+    front,
+    card.backContent.title,
+    await toMarkdown(card.backContent.text),
+    tags.join('; '),
+    folderPath.join('/')
+  ]
+}
+
+// ============================================================================
+// 导入
+// ============================================================================
+
+export async function parseCsvFile(text: string, sourcePath: string, assets: AssetResolver): Promise<{ drafts: ParsedDraft[]; errors: string[] }> {
+  const rows = parseDelimited(text, detectDelimiter(text))
+  const errors: string[] = []
+  if (rows.length === 0) {
+    return { drafts: [], errors: [`${sourcePath}: file is empty`] }
+  }
+
+  const headerMapping = mapHeader(rows[0])
+  const columns: (CsvColumn | null)[] = headerMapping || POSITIONAL_COLUMNS
+  const dataRows = headerMapping ? rows.slice(1) : rows
+  const baseDir = sourcePath.split('/').slice(0, -1).join('/')
+  const drafts: ParsedDraft[] = []
+
+  for (let index = 0; index < dataRows.length; index++) {
+    const row = dataRows[index]
+    const lineNumber = index + (headerMapping ? 2 : 1)
+    const warnings: string[] = []
+    const value = (column: CsvColumn) => {
+      const position = columns.indexOf(column)
+      return position >= 0 ? (row[position] || '').trim() : ''
+    }
+
+    if (!value('front') && !value('back') && !value('front_title')) {
+      errors.push(`${sourcePath}:${lineNumber}: row has no content`)
+      continue
+    }
+
+    const toHtml = (markdown: string) => rewriteImageSources(markdownToHtml(markdown), async src => {
+      const resolved = await assets.resolve(src, baseDir)
+      if (!resolved && !/^(blob:|https?:|data:)/i.test(src)) {
+        warnings.push(`Image not found: ${src}`)
+      }
+      return resolved
+    })
+
+    drafts.push({
+      draft: createImportDraft({
+        sourceName: `${sourcePath}:${lineNumber}`,
+        folderPath: value('folder').split(/[/\\]|::/).map(name => name.trim()).filter(Boolean),
+        frontContent: {
+          title: value('front_title'),
+          text: await toHtml(value('front')),
+          tags: normalizeTags(value('tags').split(/[;,]/))
+        },
+        backContent: {
+          title: value('back_title'),
+          text: await toHtml(value('back'))
+        }
+      }),
+      warnings
+    })
+  }
+
+  return { drafts, errors }
+}
+
+// 识别表头，至少包含正面或背面列才视为表头
+function mapHeader(row: string[]): (CsvColumn | null)[] | null {
+  const columns = row.map(cell => {
+    const name = cell.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    return (Object.keys(COLUMN_ALIASES) as CsvColumn[]).find(column => COLUMN_ALIASES[column].includes(name)) || null
+  })
+
+  if (!columns.includes('front') && !columns.includes('back')) return null
+  return columns
+}
+
+export function isCsvPath(path: string): boolean {
+  return /\.(csv|tsv)$/i.test(path)
+}
@@ -0,0 +1,74 @@
+/**
+ * 分隔符文本（CSV / TSV）读写，遵循 RFC 4180 的引号规则
+ */
+
+export function parseDelimited(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // 去掉空行
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+export function stringifyDelimited(rows: string[][], delimiter = ','): string {
+  return rows
+    .map(row => row.map(cell => quoteField(cell, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n'
+}
+
+// 根据第一行猜测分隔符
+export function detectDelimiter(text: string): string {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || ''
+  const [best] = ['\t', ',', ';', '|']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)
+  return best.count > 0 ? best.delimiter : ','
+}
+
+function quoteField(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) || /^\s|\s$/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
@@ -0,0 +1,158 @@
+/**
+ * Markdown YAML front-matter 读写
+ *
+ * 只支持卡片导出需要的 YAML 子集：标量、字符串列表（流式 [a, b] 或块式 - a）
+ * 以及 JSON 形式的流式对象/数组（JSON 本身就是合法的 YAML 流式写法）。
+ */
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue }
+
+export interface FrontMatterDocument {
+  data: Record<string, FrontMatterValue>
+  body: string
+}
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const match = text.match(FRONT_MATTER_PATTERN)
+  if (!match) {
+    return { data: {}, body: text.replace(/^\uFEFF/, '') }
+  }
+
+  const data: Record<string, FrontMatterValue> = {}
+  const lines = match[1].split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (!line.trim() || line.trim().startsWith('#') || /^\s/.test(line)) continue
+
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+
+    const key = line.slice(0, separator).trim()
+    const rawValue = line.slice(separator + 1).trim()
+
+    // 块式列表
+    if (!rawValue) {
+      const items: FrontMatterValue[] = []
+      while (i + 1 < lines.length && /^\s*-\s/.test(lines[i + 1])) {
+        items.push(parseScalar(lines[++i].replace(/^\s*-\s/, '').trim()))
+      }
+      data[key] = items.length > 0 ? items : null
+      continue
+    }
+
+    data[key] = parseValue(rawValue)
+  }
+
+  return { data, body: text.slice(match[0].length) }
+}
+
+export function stringifyFrontMatter(data: Record<string, FrontMatterValue | undefined>): string {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${stringifyValue(value as FrontMatterValue)}`)
+
+  return `---\n${lines.join('\n')}\n---\n`
+}
+
+// 读取字符串列表，兼容单个字符串和逗号分隔
+export function toStringList(value: FrontMatterValue | undefined): string[] {
+  if (value === undefined || value === null) return []
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== null && typeof item !== 'object').map(item => String(item).trim()).filter(Boolean)
+  }
+  if (typeof value === 'object') return []
+  return String(value).split(',').map(item => item.trim()).filter(Boolean)
+}
+
+export function toOptionalString(value: FrontMatterValue | undefined): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined
+  return String(value)
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+function parseValue(raw: string): FrontMatterValue {
+  if (raw.startsWith('[') || raw.startsWith('{')) {
+    try {
+      return JSON.parse(raw)
+    } catch {
+      if (raw.startsWith('[') && raw.endsWith(']')) {
+        return splitFlowList(raw.slice(1, -1)).map(parseScalar)
+      }
+    }
+  }
+  return parseScalar(raw)
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  const quoted = raw.trim()
+  if (quoted.startsWith('"')) {
+    try {
+      return JSON.parse(quoted)
+    } catch {
+      return quoted.slice(1, quoted.endsWith('"') ? -1 : undefined)
+    }
+  }
+  if (quoted.startsWith("'")) {
+    return quoted.slice(1, quoted.endsWith("'") ? -1 : undefined).replace(/''/g, "'")
+  }
+
+  // 去掉行尾注释
+  const value = quoted.replace(/\s+#.*$/, '')
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+// 按逗号拆分流式列表，忽略引号内的逗号
+function splitFlowList(raw: string): string[] {
+  const items: string[] = []
+  let current = ''
+  let quote: string | null = null
+
+  for (const char of raw) {
+    if (quote) {
+      current += char
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+      current += char
+    } else if (char === ',') {
+      items.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) items.push(current.trim())
+
+  return items.filter(Boolean)
+}
+
+function stringifyValue(value: FrontMatterValue): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item === 'string')
+      ? `[${(value as string[]).map(stringifyString).join(', ')}]`
+      : JSON.stringify(value)
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  if (typeof value === 'string') return stringifyString(value)
+  return String(value)
+}
+
+// 可以安全地写成不带引号的 YAML 标量时直接输出，否则使用 JSON 双引号字符串
+function stringifyString(value: string): string {
+  const isPlain = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^:#\n]*$/.test(value) &&
+    value === value.trim() &&
+    !/^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(value) &&
+    !/[,[\]{}]/.test(value)
+  return isPlain ? value : JSON.stringify(value)
+}
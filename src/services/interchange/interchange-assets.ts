@@ -0,0 +1,199 @@
+/**
+ * 导入导出中的图片资源处理
+ *
+ * 导出时把 data URL、blob URL 和本地存储路径的图片统一取出为文件；
+ * 导入时把压缩包内的相对路径还原为 data URL 嵌入卡片。
+ */
+
+import { fileSystemService } from '@/services/file-system'
+import { sanitizeFileName } from '@/utils/screenshot-utils'
+
+// 导出文件和图片名称的最大长度
+export const EXPORT_FILE_NAME_LENGTH = 80
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif'
+}
+
+export function extensionForMime(mime: string): string {
+  return MIME_EXTENSIONS[mime.toLowerCase()] || 'bin'
+}
+
+export function mimeForPath(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, ext]) => ext === extension)
+  if (entry) return entry[0]
+  return extension === 'jpeg' ? 'image/jpeg' : 'application/octet-stream'
+}
+
+export function isImagePath(path: string): boolean {
+  return mimeForPath(path).startsWith('image/')
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * 将图片地址解析为 Blob：data URL、blob URL、http(s) 直接读取，其余视为本地存储路径
+ */
+export async function resolveImageBlob(src: string): Promise<Blob> {
+  if (/^(data:|blob:|https?:)/i.test(src)) {
+    const response = await fetch(src)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`)
+    }
+    return response.blob()
+  }
+
+  const url = await fileSystemService.getImage(src)
+  return resolveImageBlob(url)
+}
+
+/**
+ * 替换 HTML 中所有图片的地址，返回 null 时保留原地址
+ */
+export async function rewriteImageSources(
+  html: string,
+  replace: (src: string) => Promise<string | null>
+): Promise<string> {
+  if (!html || !/<img\b/i.test(html)) return html
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html')
+  for (const image of Array.from(doc.querySelectorAll('img'))) {
+    const src = image.getAttribute('src')
+    if (!src) continue
+    const next = await replace(src)
+    if (next !== null) image.setAttribute('src', next)
+  }
+  return doc.body.innerHTML
+}
+
+/**
+ * 导出时收集图片文件，同一来源只保存一份；enabled 为 false 时不导出任何图片
+ */
+export class AssetCollector {
+  readonly files: { path: string; blob: Blob }[] = []
+  readonly warnings: string[] = []
+  private bySource = new Map<string, string | null>()
+  private usedNames = new Set<string>()
+
+  constructor(private directory: string, private enabled = true) {}
+
+  get count(): number {
+    return this.files.length
+  }
+
+  /**
+   * 收集图片并返回其在压缩包中的路径，读取失败时返回 null
+   */
+  async add(src: string, nameHint?: string): Promise<string | null> {
+    if (!this.enabled) return null
+    if (this.bySource.has(src)) return this.bySource.get(src)!
+
+    let path: string | null = null
+    try {
+      const blob = await resolveImageBlob(src)
+      const baseName = sanitizeAssetName(nameHint || `image-${this.files.length + 1}`)
+      path = this.uniquePath(`${baseName}.${extensionForMime(blob.type)}`)
+      this.files.push({ path, blob })
+    } catch (error) {
+      this.warnings.push(`Image could not be exported: ${src.slice(0, 80)}`)
+      console.warn('Failed to export image:', error)
+    }
+
+    this.bySource.set(src, path)
+    return path
+  }
+
+  private uniquePath(fileName: string): string {
+    let candidate = fileName
+    let counter = 2
+    while (this.usedNames.has(candidate.toLowerCase())) {
+      candidate = fileName.replace(/(\.[^.]+)$/, `-${counter}$1`)
+      counter++
+    }
+    this.usedNames.add(candidate.toLowerCase())
+    return this.directory ? `${this.directory}/${candidate}` : candidate
+  }
+}
+
+/**
+ * 导入时按路径查找压缩包或所选文件中的图片
+ */
+export class AssetResolver {
+  private byPath = new Map<string, Blob>()
+  private byName = new Map<string, Blob>()
+  private cache = new Map<string, string>()
+
+  add(path: string, blob: Blob): void {
+    const normalized = normalizePath(path)
+    this.byPath.set(normalized.toLowerCase(), blob)
+    this.byName.set(normalized.split('/').pop()!.toLowerCase(), blob)
+  }
+
+  get size(): number {
+    return this.byPath.size
+  }
+
+  /**
+   * 解析相对于 baseDir 的图片引用，找不到时按文件名匹配；返回 data URL
+   */
+  async resolve(reference: string, baseDir = ''): Promise<string | null> {
+    if (/^(data:|https?:)/i.test(reference)) return reference
+
+    const decoded = safeDecode(reference.split(/[?#]/)[0])
+    const candidates = [
+      normalizePath(baseDir ? `${baseDir}/${decoded}` : decoded),
+      normalizePath(decoded)
+    ].map(path => path.toLowerCase())
+
+    const blob = candidates.map(path => this.byPath.get(path)).find(Boolean) ||
+      this.byName.get(decoded.split('/').pop()!.toLowerCase())
+    if (!blob) return null
+
+    const key = candidates[0]
+    if (!this.cache.has(key)) {
+      const typed = blob.type ? blob : new Blob([blob], { type: mimeForPath(decoded) })
+      this.cache.set(key, await blobToDataUrl(typed))
+    }
+    return this.cache.get(key)!
+  }
+}
+
+function sanitizeAssetName(name: string): string {
+  return sanitizeFileName(name.replace(/\.[^.]+$/, ''), EXPORT_FILE_NAME_LENGTH, 'image').replace(/\s/g, '-')
+}
+
+// 合并 . 和 .. 片段
+export function normalizePath(path: string): string {
+  const parts: string[] = []
+  for (const part of path.split(/[\\/]+/)) {
+    if (!part || part === '.') continue
+    if (part === '..') {
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  }
+  return parts.join('/')
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
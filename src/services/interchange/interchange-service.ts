@@ -0,0 +1,515 @@
+/**
+ * 卡片导入导出服务
+ *
+ * 导出：Markdown（每卡一个文件的 ZIP）、CSV、Anki 文本，含图片时打包为 ZIP。
+ * 导入：ImportJob 先解析文件生成预览（重复检测、新建文件夹），确认后生成导入计划，
+ * 由调用方通过 dispatch 写入，整个过程可取消。
+ */
+
+import { Card, Folder } from '@/types/card'
+import {
+  DuplicateStrategy,
+  ImportItem,
+  ImportJobProgress,
+  ImportPlan,
+  ImportPreview,
+  InterchangeExportOptions,
+  InterchangeExportResult,
+  InterchangeFormat
+} from '@/types/interchange'
+import { db } from '@/services/database'
+import { stripHtmlTags } from '@/utils/copy-utils'
+import { ZipWriter, isZipFile, readZip } from '@/utils/zip-utils'
+import { throwIfAborted } from '@/utils/abort-utils'
+import { ExportEntry, ParsedDraft } from './card-draft'
+import { stringifyDelimited } from './delimited-text'
+import { AssetCollector, AssetResolver, isImagePath } from './interchange-assets'
+import { MARKDOWN_ASSET_DIRECTORY, exportMarkdownFile, isMarkdownPath, parseMarkdownFile } from './markdown-format'
+import { CSV_ASSET_DIRECTORY, CSV_COLUMNS, exportCsvRow, isCsvPath, parseCsvFile } from './csv-format'
+import { ANKI_ASSET_DIRECTORY, ANKI_HEADER, exportAnkiRow, isAnkiPath, parseAnkiFile } from './anki-format'
+
+export interface InterchangeTaskOptions {
+  signal?: AbortSignal
+  onProgress?: (processed: number, total: number) => void
+}
+
+// 导入的文本文件，内容延迟读取
+interface ImportSource {
+  path: string
+  format: InterchangeFormat
+  read: () => Promise<string>
+}
+
+const DEFAULT_FOLDER_COLOR = '#3b82f6'
+const DEFAULT_FOLDER_ICON = 'Folder'
+
+export const IMPORT_FILE_ACCEPT = '.md,.markdown,.csv,.tsv,.txt,.zip'
+
+export class InterchangeService {
+  /**
+   * 导出卡片，返回可直接下载的文件
+   */
+  async exportCards(
+    cards: Card[],
+    folders: Folder[],
+    options: InterchangeExportOptions,
+    task: InterchangeTaskOptions = {}
+  ): Promise<InterchangeExportResult> {
+    const selected = options.cardIds
+      ? cards.filter(card => options.cardIds!.includes(card.id))
+      : cards
+    const includeImages = options.includeImages !== false
+    const assets = new AssetCollector(assetDirectory(options.format), includeImages)
+    const date = new Date().toISOString().slice(0, 10)
+
+    const entries: ExportEntry[] = []
+    for (const card of selected) {
+      entries.push({
+        card,
+        folderPath: getFolderPath(card, folders),
+        storedImages: includeImages ? await getStoredImages(card) : []
+      })
+    }
+
+    let blob: Blob
+    let fileName: string
+
+    if (options.format === 'markdown') {
+      const zip = new ZipWriter()
+      for (let i = 0; i < entries.length; i++) {
+        throwIfAborted(task.signal)
+        const file = await exportMarkdownFile(entries[i], assets)
+        await zip.add(file.path, file.content, entries[i].card.updatedAt ? new Date(entries[i].card.updatedAt) : undefined)
+        task.onProgress?.(i + 1, entries.length)
+      }
+      for (const asset of assets.files) {
+        await zip.add(asset.path, asset.blob)
+      }
+      blob = zip.finish()
+      fileName = `cardall-markdown-${date}.zip`
+    } else {
+      const rows: string[][] = []
+      for (let i = 0; i < entries.length; i++) {
+        throwIfAborted(task.signal)
+        rows.push(options.format === 'csv'
+          ? await exportCsvRow(entries[i], assets)
+          : await exportAnkiRow(entries[i], assets))
+        task.onProgress?.(i + 1, entries.length)
+      }
+
+      // CSV 带 BOM 以便 Excel 正确识别 UTF-8
+      const isCsv = options.format === 'csv'
+      const content = isCsv
+        ? '\uFEFF' + stringifyDelimited([[...CSV_COLUMNS], ...rows])
+        : ANKI_HEADER.join('\n') + '\n' + stringifyDelimited(rows, '\t')
+      const textName = isCsv ? 'cards.csv' : 'cards.txt'
+      const mimeType = isCsv ? 'text/csv;charset=utf-8' : 'text/plain;charset=utf-8'
+
+      if (assets.count > 0) {
+        const zip = new ZipWriter()
+        await zip.add(textName, content)
+        for (const asset of assets.files) {
+          await zip.add(asset.path, asset.blob)
+        }
+        blob = zip.finish()
+        fileName = `cardall-${options.format}-${date}.zip`
+      } else {
+        blob = new Blob([content], { type: mimeType })
+        fileName = `cardall-${options.format}-${date}.${isCsv ? 'csv' : 'txt'}`
+      }
+    }
+
+    return {
+      blob,
+      fileName,
+      cardCount: entries.length,
+      imageCount: assets.count,
+      warnings: assets.warnings
+    }
+  }
+
+  createImportJob(): ImportJob {
+    return new ImportJob()
+  }
+}
+
+/**
+ * 一次导入任务：解析 → 预览 → 生成计划 → 完成
+ */
+export class ImportJob {
+  private progress: ImportJobProgress = { status: 'idle', processed: 0, total: 0 }
+  private listeners = new Set<(progress: ImportJobProgress) => void>()
+  private controller = new AbortController()
+  private preview: ImportPreview | null = null
+  private existingFolderIds = new Map<string, string>()
+
+  subscribe(listener: (progress: ImportJobProgress) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getProgress(): ImportJobProgress {
+    return this.progress
+  }
+
+  getPreview(): ImportPreview | null {
+    return this.preview
+  }
+
+  get isCancelled(): boolean {
+    return this.controller.signal.aborted
+  }
+
+  cancel(): void {
+    if (this.progress.status === 'done' || this.progress.status === 'cancelled') return
+    this.controller.abort()
+    this.update({ status: 'cancelled', message: 'Import cancelled' })
+  }
+
+  /**
+   * 解析所选文件（支持 ZIP），返回预览
+   */
+  async prepare(files: File[], existing: { cards: Card[]; folders: Folder[] }): Promise<ImportPreview> {
+    this.update({ status: 'parsing', processed: 0, total: files.length, message: 'Reading files' })
+
+    try {
+      const assets = new AssetResolver()
+      const sources: ImportSource[] = []
+      const errors: string[] = []
+
+      for (const file of files) {
+        throwIfAborted(this.controller.signal)
+
+        if (isZipFile(file)) {
+          const entries = await readZip(file)
+          for (const entry of entries) {
+            if (entry.isDirectory || entry.path.startsWith('__MACOSX/')) continue
+            if (isImagePath(entry.path)) {
+              assets.add(entry.path, await entry.blob())
+            } else {
+              addSource(sources, errors, entry.path, entry.text)
+            }
+          }
+        } else {
+          const path = file.webkitRelativePath || file.name
+          if (isImagePath(path)) {
+            assets.add(path, file)
+          } else {
+            addSource(sources, errors, path, () => file.text())
+          }
+        }
+      }
+
+      this.update({ processed: 0, total: sources.length, message: 'Parsing cards' })
+
+      const drafts: ParsedDraft[] = []
+      for (let i = 0; i < sources.length; i++) {
+        throwIfAborted(this.controller.signal)
+        const source = sources[i]
+
+        try {
+          const text = await source.read()
+          if (source.format === 'markdown') {
+            drafts.push(await parseMarkdownFile(text, source.path, assets))
+          } else {
+            const result = source.format === 'csv'
+              ? await parseCsvFile(text, source.path, assets)
+              : await parseAnkiFile(text, source.path, assets)
+            drafts.push(...result.drafts)
+            errors.push(...result.errors)
+          }
+        } catch (error) {
+          console.error('Failed to parse import file:', source.path, error)
+          errors.push(`${source.path}: ${error instanceof Error ? error.message : 'could not be parsed'}`)
+        }
+
+        this.update({ processed: i + 1 })
+      }
+
+      throwIfAborted(this.controller.signal)
+
+      this.existingFolderIds = buildFolderPathIndex(existing.folders)
+      this.preview = {
+        format: sources[0]?.format || 'markdown',
+        items: detectDuplicates(drafts, existing.cards),
+        newFolderPaths: collectNewFolderPaths(drafts, this.existingFolderIds),
+        errors
+      }
+
+      this.update({
+        status: 'ready',
+        message: `${this.preview.items.length} cards ready to import`
+      })
+      return this.preview
+    } catch (error) {
+      if (!this.isCancelled) {
+        this.update({ status: 'failed', message: error instanceof Error ? error.message : 'Import failed' })
+      }
+      throw error
+    }
+  }
+
+  setIncluded(key: string, include: boolean): void {
+    if (!this.preview) return
+    this.preview = {
+      ...this.preview,
+      items: this.preview.items.map(item => item.key === key ? { ...item, include } : item)
+    }
+    this.update({})
+  }
+
+  /**
+   * 按重复处理策略生成导入计划：新建的文件夹、卡片以及对已有卡片的更新
+   */
+  buildPlan(strategy: DuplicateStrategy): ImportPlan {
+    if (!this.preview) {
+      throw new Error('Import job has not been prepared')
+    }
+
+    const now = new Date()
+    const plan: ImportPlan = { folders: [], cards: [], updates: [], folderUpdates: [], skipped: 0 }
+    const folderIds = new Map(this.existingFolderIds)
+    const newFolders = new Map<string, Folder>()
+    const existingFolderCards = new Map<string, string[]>()
+
+    const ensureFolder = (path: string[]): string | undefined => {
+      let parentId: string | undefined
+      for (let depth = 1; depth <= path.length; depth++) {
+        const key = folderPathKey(path.slice(0, depth))
+        let id = folderIds.get(key)
+        if (!id) {
+          id = crypto.randomUUID()
+          const folder: Folder = {
+            id,
+            name: path[depth - 1],
+            color: DEFAULT_FOLDER_COLOR,
+            icon: DEFAULT_FOLDER_ICON,
+            cardIds: [],
+            parentId,
+            isExpanded: true,
+            createdAt: now,
+            updatedAt: now
+          }
+          folderIds.set(key, id)
+          newFolders.set(id, folder)
+          plan.folders.push(folder)
+        }
+        parentId = id
+      }
+      return parentId
+    }
+
+    for (const item of this.preview.items) {
+      if (!item.include) {
+        plan.skipped++
+        continue
+      }
+
+      const { draft } = item
+      const isExistingDuplicate = item.duplicateOf && item.duplicateReason !== 'batch'
+
+      if (isExistingDuplicate && strategy === 'skip') {
+        plan.skipped++
+        continue
+      }
+
+      if (isExistingDuplicate && strategy === 'update') {
+        plan.updates.push({
+          id: item.duplicateOf!,
+          updates: {
+            frontContent: draft.frontContent,
+            backContent: draft.backContent,
+            style: draft.style,
+            updatedAt: now
+          }
+        })
+        continue
+      }
+
+      const folderId = ensureFolder(draft.folderPath)
+      const card: Card = {
+        id: crypto.randomUUID(),
+        frontContent: draft.frontContent,
+        backContent: draft.backContent,
+        style: draft.style,
+        folderId,
+        isFlipped: false,
+        createdAt: draft.createdAt || now,
+        updatedAt: draft.updatedAt || now
+      }
+      plan.cards.push(card)
+
+      if (folderId) {
+        const newFolder = newFolders.get(folderId)
+        if (newFolder) {
+          newFolder.cardIds.push(card.id)
+        } else {
+          existingFolderCards.set(folderId, [...(existingFolderCards.get(folderId) || []), card.id])
+        }
+      }
+    }
+
+    plan.folderUpdates = Array.from(existingFolderCards, ([id, cardIds]) => ({ id, cardIds }))
+    return plan
+  }
+
+  begin(total: number): void {
+    throwIfAborted(this.controller.signal)
+    this.update({ status: 'importing', processed: 0, total, message: 'Importing cards' })
+  }
+
+  complete(imported: number): void {
+    this.update({ status: 'done', processed: imported, message: `Imported ${imported} cards` })
+  }
+
+  fail(error: unknown): void {
+    this.update({ status: 'failed', message: error instanceof Error ? error.message : 'Import failed' })
+  }
+
+  private update(patch: Partial<ImportJobProgress>): void {
+    // 取消后不再接受解析过程中的进度更新
+    if (this.progress.status === 'cancelled' && patch.status !== 'cancelled') return
+    this.progress = { ...this.progress, ...patch }
+    this.listeners.forEach(listener => listener(this.progress))
+  }
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+function assetDirectory(format: InterchangeFormat): string {
+  switch (format) {
+    case 'csv':
+      return CSV_ASSET_DIRECTORY
+    case 'anki':
+      return ANKI_ASSET_DIRECTORY
+    default:
+      return MARKDOWN_ASSET_DIRECTORY
+  }
+}
+
+function addSource(sources: ImportSource[], errors: string[], path: string, read: () => Promise<string>): void {
+  const format: InterchangeFormat | null = isMarkdownPath(path)
+    ? 'markdown'
+    : isCsvPath(path)
+      ? 'csv'
+      : isAnkiPath(path) ? 'anki' : null
+
+  if (format) {
+    sources.push({ path, format, read })
+  } else if (!/(^|\/)\.[^/]*$/.test(path)) {
+    errors.push(`${path}: unsupported file type`)
+  }
+}
+
+// 卡片所在文件夹的路径名称
+function getFolderPath(card: Card, folders: Folder[]): string[] {
+  const folderId = card.folderId || folders.find(folder => folder.cardIds.includes(card.id))?.id
+  return folderId ? getFolderPathById(folderId, folders) : []
+}
+
+// 沿 parentId 向上获取文件夹路径
+function getFolderPathById(folderId: string, folders: Folder[]): string[] {
+  const path: string[] = []
+  const visited = new Set<string>()
+  let current = folders.find(folder => folder.id === folderId)
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.unshift(current.name)
+    const parentId = current.parentId
+    current = parentId ? folders.find(folder => folder.id === parentId) : undefined
+  }
+  return path
+}
+
+// images 表中属于该卡片、但未在卡片内容中引用的图片
+async function getStoredImages(card: Card): Promise<string[]> {
+  try {
+    const images = await db.images.where('cardId').equals(card.id).toArray()
+    const referenced = [card.frontContent, card.backContent]
+      .flatMap(side => [side.text || '', ...side.images.map(image => image.url)])
+      .join('\n')
+    return images
+      .map(image => image.filePath)
+      .filter(path => path && !referenced.includes(path))
+  } catch (error) {
+    console.warn('Failed to load stored images for card:', card.id, error)
+    return []
+  }
+}
+
+function folderPathKey(path: string[]): string {
+  return path.map(name => name.trim().toLowerCase()).join('\u0000')
+}
+
+function buildFolderPathIndex(folders: Folder[]): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const folder of folders) {
+    const key = folderPathKey(getFolderPathById(folder.id, folders))
+    // 同名路径保留第一个
+    if (!index.has(key)) index.set(key, folder.id)
+  }
+  return index
+}
+
+function collectNewFolderPaths(drafts: ParsedDraft[], existing: Map<string, string>): string[][] {
+  const paths = new Map<string, string[]>()
+  for (const { draft } of drafts) {
+    for (let depth = 1; depth <= draft.folderPath.length; depth++) {
+      const path = draft.folderPath.slice(0, depth)
+      const key = folderPathKey(path)
+      if (!existing.has(key) && !paths.has(key)) paths.set(key, path)
+    }
+  }
+  return Array.from(paths.values())
+}
+
+// 以标题和正反面纯文本作为内容指纹
+function contentFingerprint(card: Pick<Card, 'frontContent' | 'backContent'>): string {
+  return [
+    card.frontContent.title,
+    stripHtmlTags(card.frontContent.text || ''),
+    card.backContent.title,
+    stripHtmlTags(card.backContent.text || '')
+  ]
+    .map(part => (part || '').replace(/\s+/g, ' ').trim().toLowerCase())
+    .join('\u0000')
+}
+
+function detectDuplicates(drafts: ParsedDraft[], cards: Card[]): ImportItem[] {
+  const existingIds = new Set(cards.map(card => card.id))
+  const existingFingerprints = new Map<string, string>()
+  for (const card of cards) {
+    existingFingerprints.set(contentFingerprint(card), card.id)
+  }
+
+  const batchFingerprints = new Set<string>()
+  return drafts.map(({ draft, warnings }, index) => {
+    const item: ImportItem = {
+      key: `${index}:${draft.sourceName}`,
+      draft,
+      include: true,
+      warnings
+    }
+    const fingerprint = contentFingerprint(draft)
+
+    if (draft.sourceId && existingIds.has(draft.sourceId)) {
+      item.duplicateOf = draft.sourceId
+      item.duplicateReason = 'id'
+    } else if (existingFingerprints.has(fingerprint)) {
+      item.duplicateOf = existingFingerprints.get(fingerprint)
+      item.duplicateReason = 'content'
+    } else if (batchFingerprints.has(fingerprint)) {
+      // 同一批次内重复的卡片默认不导入
+      item.duplicateReason = 'batch'
+      item.include = false
+    }
+
+    batchFingerprints.add(fingerprint)
+    return item
+  })
+}
+
+export const interchangeService = new InterchangeService()
@@ -0,0 +1,90 @@
+/**
+ * HTML 与 Markdown 互转
+ *
+ * 复用编辑器使用的 tiptap-markdown 扩展，在无界面的 tiptap 编辑器中完成转换，
+ * 保证导出的 Markdown 与编辑器粘贴 Markdown 时的解析规则一致。
+ */
+
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import Image from '@tiptap/extension-image'
+import TaskList from '@tiptap/extension-task-list'
+import TaskItem from '@tiptap/extension-task-item'
+import { Markdown } from 'tiptap-markdown-3'
+
+let converter: Editor | null = null
+let normalizer: Editor | null = null
+
+function getConverter(): Editor {
+  if (!converter) {
+    converter = new Editor({
+      extensions: [
+        StarterKit.configure({ link: { openOnClick: false } }),
+        Markdown.configure({ html: true, tightLists: true }),
+        TaskList,
+        TaskItem.configure({ nested: true }),
+        Image.configure({ inline: true, allowBase64: true })
+      ],
+      content: ''
+    })
+  }
+  return converter
+}
+
+// 不带 Markdown 扩展，内容始终按 HTML 解析
+function getNormalizer(): Editor {
+  if (!normalizer) {
+    normalizer = new Editor({
+      extensions: [
+        StarterKit.configure({ link: { openOnClick: false } }),
+        TaskList,
+        TaskItem.configure({ nested: true }),
+        Image.configure({ inline: true, allowBase64: true })
+      ],
+      content: ''
+    })
+  }
+  return normalizer
+}
+
+export function htmlToMarkdown(html: string): string {
+  if (!html.trim()) return ''
+  const editor = getConverter()
+  editor.commands.setContent(html)
+  // tiptap-markdown 未声明 storage 类型
+  const storage = editor.storage as unknown as { markdown: { getMarkdown: () => string } }
+  return storage.markdown.getMarkdown().trim()
+}
+
+export function markdownToHtml(markdown: string): string {
+  if (!markdown.trim()) return ''
+  const editor = getConverter()
+  editor.commands.setContent(markdown)
+  return editor.isEmpty ? '' : editor.getHTML()
+}
+
+// 经编辑器解析一遍，去掉编辑器不支持的结构
+export function normalizeEditorHtml(html: string): string {
+  if (!html.trim()) return ''
+  const editor = getNormalizer()
+  editor.commands.setContent(html)
+  return editor.isEmpty ? '' : editor.getHTML()
+}
+
+// 纯文本转为安全的 HTML 段落
+export function textToHtml(text: string): string {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('')
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,187 @@
+/**
+ * Markdown 格式：每张卡片一个 .md 文件
+ *
+ * 标题、标签、文件夹、样式、待办和附加图片写在 YAML front-matter 中，
+ * 正文为正面内容，<!-- back --> 之后为背面内容。文件按文件夹层级放在对应目录，
+ * 图片统一放在 assets/ 目录并以相对路径引用。
+ */
+
+import { CardContent, ImageData } from '@/types/card'
+import { sanitizeFileName } from '@/utils/screenshot-utils'
+import {
+  ExportEntry,
+  ExportFile,
+  ParsedDraft,
+  createImportDraft,
+  normalizeStyle,
+  normalizeTags,
+  normalizeTodos,
+  parseDate,
+  serializeTodos,
+  toFrontMatterObject
+} from './card-draft'
+import { FrontMatterValue, parseFrontMatter, stringifyFrontMatter, toOptionalString, toStringList } from './front-matter'
+import { htmlToMarkdown, markdownToHtml } from './markdown-converter'
+import { AssetCollector, AssetResolver, EXPORT_FILE_NAME_LENGTH, rewriteImageSources } from './interchange-assets'
+
+export const MARKDOWN_ASSET_DIRECTORY = 'assets'
+
+const BACK_SEPARATOR = '<!-- back -->'
+const BACK_SEPARATOR_PATTERN = /^[ \t]*<!--\s*back\s*-->[ \t]*$/m
+
+// ============================================================================
+// 导出
+// ============================================================================
+
+export async function exportMarkdownFile(entry: ExportEntry, assets: AssetCollector): Promise<ExportFile> {
+  const { card, folderPath } = entry
+  const directory = folderPath.map(name => sanitizeFileName(name, EXPORT_FILE_NAME_LENGTH, 'Folder')).join('/')
+  // 从卡片所在目录回到压缩包根目录
+  const toRoot = '../'.repeat(folderPath.length)
+
+  const front = await exportSide(card.frontContent, toRoot, assets)
+  const back = await exportSide(card.backContent, toRoot, assets)
+
+  // images 表中未被引用的图片附加到正面
+  for (const path of entry.storedImages) {
+    const assetPath = await assets.add(path)
+    if (assetPath) front.images.push(toRoot + assetPath)
+  }
+
+  const frontMatter = stringifyFrontMatter({
+    id: card.id,
+    title: card.frontContent.title || undefined,
+    tags: card.frontContent.tags.length > 0 ? card.frontContent.tags : undefined,
+    folder: folderPath.length > 0 ? folderPath.join('/') : undefined,
+    style: toFrontMatterObject(card.style),
+    created: new Date(card.createdAt).toISOString(),
+    updated: new Date(card.updatedAt).toISOString(),
+    todos: exportTodos(card.frontContent),
+    images: front.images.length > 0 ? front.images : undefined,
+    back_title: card.backContent.title || undefined,
+    back_tags: card.backContent.tags.length > 0 ? card.backContent.tags : undefined,
+    back_todos: exportTodos(card.backContent),
+    back_images: back.images.length > 0 ? back.images : undefined
+  })
+
+  const body = `${front.markdown}\n\n${BACK_SEPARATOR}\n\n${back.markdown}`.trim()
+  const fileName = `${sanitizeFileName(card.frontContent.title || card.backContent.title, EXPORT_FILE_NAME_LENGTH, 'Untitled')}.md`
+
+  return {
+    path: directory ? `${directory}/${fileName}` : fileName,
+    content: `${frontMatter}\n${body}\n`
+  }
+}
+
+async function exportSide(
+  side: CardContent,
+  toRoot: string,
+  assets: AssetCollector
+): Promise<{ markdown: string; images: string[] }> {
+  const html = await rewriteImageSources(side.text || '', async src => {
+    const assetPath = await assets.add(src)
+    return assetPath ? toRoot + assetPath : null
+  })
+
+  const images: string[] = []
+  for (const image of side.images || []) {
+    const assetPath = await assets.add(image.url, image.alt)
+    if (assetPath) images.push(toRoot + assetPath)
+  }
+
+  return { markdown: htmlToMarkdown(html), images }
+}
+
+function exportTodos(side: CardContent): FrontMatterValue | undefined {
+  const todos = side.todos || []
+  if (todos.length === 0) return undefined
+  return serializeTodos(todos)
+}
+
+// ============================================================================
+// 导入
+// ============================================================================
+
+/**
+ * 解析单个 Markdown 文件，sourcePath 为文件在压缩包或所选目录中的路径
+ */
+export async function parseMarkdownFile(text: string, sourcePath: string, assets: AssetResolver): Promise<ParsedDraft> {
+  const warnings: string[] = []
+  const { data, body } = parseFrontMatter(text)
+  const pathParts = sourcePath.split('/').filter(Boolean)
+  const fileName = pathParts.pop() || sourcePath
+  const baseDir = pathParts.join('/')
+
+  const [frontBody, ...backParts] = body.split(BACK_SEPARATOR_PATTERN)
+  let frontMarkdown = frontBody
+  let title = toOptionalString(data.title)
+
+  // 没有 front-matter 标题时使用开头的一级标题或文件名
+  if (!title) {
+    const heading = frontMarkdown.match(/^\s*#\s+(.+?)\s*#*\s*(?:\r?\n|$)/)
+    if (heading) {
+      title = heading[1]
+      frontMarkdown = frontMarkdown.slice(heading[0].length)
+    } else {
+      title = fileName.replace(/\.(md|markdown)$/i, '')
+    }
+  }
+
+  const resolveImages = async (markdown: string) => {
+    const html = markdownToHtml(markdown)
+    return rewriteImageSources(html, async src => {
+      const resolved = await assets.resolve(src, baseDir)
+      if (!resolved && !/^(blob:|https?:|data:)/i.test(src)) {
+        warnings.push(`Image not found: ${src}`)
+      }
+      return resolved
+    })
+  }
+
+  const resolveImageList = async (value: FrontMatterValue | undefined): Promise<ImageData[]> => {
+    const images: ImageData[] = []
+    for (const reference of toStringList(value)) {
+      const url = await assets.resolve(reference, baseDir)
+      if (url) {
+        images.push({ id: crypto.randomUUID(), url, alt: reference.split('/').pop() || '' })
+      } else {
+        warnings.push(`Image not found: ${reference}`)
+      }
+    }
+    return images
+  }
+
+  const folder = toOptionalString(data.folder)
+  const folderPath = folder !== undefined
+    ? folder.split('/').map(name => name.trim()).filter(Boolean)
+    : pathParts
+
+  const draft = createImportDraft({
+    sourceName: sourcePath,
+    sourceId: toOptionalString(data.id),
+    folderPath,
+    style: normalizeStyle(data.style),
+    createdAt: parseDate(data.created),
+    updatedAt: parseDate(data.updated),
+    frontContent: {
+      title,
+      text: await resolveImages(frontMarkdown),
+      tags: normalizeTags(toStringList(data.tags)),
+      todos: normalizeTodos(data.todos),
+      images: await resolveImageList(data.images)
+    },
+    backContent: {
+      title: toOptionalString(data.back_title) || '',
+      text: await resolveImages(backParts.join('\n')),
+      tags: normalizeTags(toStringList(data.back_tags)),
+      todos: normalizeTodos(data.back_todos),
+      images: await resolveImageList(data.back_images)
+    }
+  })
+
+  return { draft, warnings }
+}
+
+export function isMarkdownPath(path: string): boolean {
+  return /\.(md|markdown)$/i.test(path)
+}
@@ -0,0 +1,227 @@
+/**
+ * 卡片链接索引服务
+ *
+ * 卡片保存后重建其正反面中的 [[标题]] 链接，并按当前标题重新解析所有链接的目标卡片，
+ * 找不到目标的链接即为断链，由数据完整性检查报告。卡片改名时，指向它的链接在来源卡片中随之改写，
+ * 改写结果交由调用方通过卡片 dispatch 保存，以便进入撤销历史并触发同步。
+ */
+
+import { Card, CardContent } from '@/types/card'
+import { BrokenCardLink, CardLink } from '@/types/card-links'
+import { db } from '@/services/database'
+import { buildTitleIndex, extractWikiLinks, normalizeLinkTitle, rewriteWikiLinks } from './wiki-links'
+
+type LinkChangeListener = () => void
+type LinkOpenListener = (title: string) => void
+
+/**
+ * 卡片标题的一次修改
+ */
+export interface CardRename {
+  cardId: string
+  from: string
+  to: string
+}
+
+/**
+ * 改名后需要写回来源卡片的内容
+ */
+export interface LinkRewrite {
+  cardId: string
+  updates: Pick<Card, 'frontContent' | 'backContent'>
+}
+
+function collectLinks(card: Card, createdAt: Date): CardLink[] {
+  const sides: [CardLink['side'], CardContent][] = [['front', card.frontContent], ['back', card.backContent]]
+  return sides.flatMap(([side, content]) =>
+    extractWikiLinks(content.text).map(targetTitle => ({ sourceId: card.id, targetTitle, side, createdAt }))
+  )
+}
+
+export class CardLinkService {
+  private listeners: LinkChangeListener[] = []
+  private openListeners: LinkOpenListener[] = []
+  // 串行更新索引，避免连续保存交错
+  private queue: Promise<unknown> = Promise.resolve()
+  // 同一批卡片只建立一次查找表
+  private lookup: { cards: Card[]; titles: Map<string, Card>; byId: Map<string, Card> } | null = null
+
+  // 注册索引变化监听器
+  onChange(listener: LinkChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  // 注册链接点击监听器，由仪表盘打开目标卡片
+  onOpen(listener: LinkOpenListener): () => void {
+    this.openListeners.push(listener)
+    return () => {
+      const index = this.openListeners.indexOf(listener)
+      if (index > -1) {
+        this.openListeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 请求打开链接指向的卡片
+   */
+  open(title: string): void {
+    this.openListeners.forEach(listener => listener(title))
+  }
+
+  /**
+   * 按全部卡片重建索引（启动时调用，修复导入、恢复备份等绕过保存流程的修改）
+   */
+  rebuild(cards: Card[]): Promise<void> {
+    return this.enqueue(async () => {
+      const now = new Date()
+      const lockedIds = new Set(cards.filter(card => card.lock).map(card => card.id))
+      // 锁定卡片的内容不可见，保留其已有的链接
+      const kept = (await db.cardLinks.toArray()).filter(link => lockedIds.has(link.sourceId))
+      const links = cards.filter(card => !card.lock).flatMap(card => collectLinks(card, now))
+
+      // 保留的链接沿用原主键，清空表不会重置自增序号，新链接不会与之冲突
+      await db.transaction('rw', db.cardLinks, async () => {
+        await db.cardLinks.clear()
+        await db.cardLinks.bulkAdd([...kept, ...links].map(link => this.resolve(link, cards)))
+      })
+    }).then(() => this.notify())
+  }
+
+  /**
+   * 卡片保存后更新索引
+   * 先按改名前的索引找到需要改写的来源卡片，再重建修改过的卡片的链接，最后重新解析所有链接的目标
+   */
+  update(cards: Card[], changedIds: string[], removedIds: string[], renames: CardRename[] = []): Promise<LinkRewrite[]> {
+    return this.enqueue(async () => {
+      const rewrites = await this.planRewrites(cards, renames)
+      const byId = new Map(cards.map(card => [card.id, card]))
+      const now = new Date()
+
+      await db.transaction('rw', db.cardLinks, async () => {
+        const staleIds = [...removedIds, ...changedIds.filter(id => !byId.get(id)?.lock)]
+        if (staleIds.length > 0) {
+          await db.cardLinks.where('sourceId').anyOf(staleIds).delete()
+        }
+
+        const added = changedIds
+          .map(id => byId.get(id))
+          .filter((card): card is Card => Boolean(card && !card.lock))
+          .flatMap(card => collectLinks(card, now))
+        if (added.length > 0) {
+          await db.cardLinks.bulkAdd(added)
+        }
+
+        const links = await db.cardLinks.toArray()
+        const resolved = links
+          .map(link => this.resolve(link, cards))
+          .filter((link, index) => link.targetId !== links[index].targetId)
+        if (resolved.length > 0) {
+          await db.cardLinks.bulkPut(resolved)
+        }
+      })
+      return rewrites
+    }).then(rewrites => {
+      this.notify()
+      return rewrites
+    })
+  }
+
+  /**
+   * 获取链接到指定卡片的链接（不含卡片自身的链接）
+   */
+  async getBacklinks(cardId: string): Promise<CardLink[]> {
+    const links = await db.cardLinks.where('targetId').equals(cardId).toArray()
+    return links.filter(link => link.sourceId !== cardId)
+  }
+
+  /**
+   * 获取卡片中的链接
+   */
+  getOutgoingLinks(cardId: string): Promise<CardLink[]> {
+    return db.cardLinks.where('sourceId').equals(cardId).toArray()
+  }
+
+  /**
+   * 列出找不到目标卡片的链接
+   */
+  async findBrokenLinks(): Promise<BrokenCardLink[]> {
+    const broken = (await db.cardLinks.toArray()).filter(link => !link.targetId)
+    if (broken.length === 0) return []
+
+    const sourceIds = Array.from(new Set(broken.map(link => link.sourceId)))
+    const sources = await db.cards.bulkGet(sourceIds)
+    const titles = new Map(sourceIds.map((id, index) => [id, sources[index]]))
+
+    return broken
+      .filter(link => titles.get(link.sourceId))
+      .map(link => ({
+        sourceId: link.sourceId,
+        sourceTitle: titles.get(link.sourceId)?.frontContent?.title || '',
+        targetTitle: link.targetTitle,
+        side: link.side
+      }))
+  }
+
+  // 改名的卡片在索引中的来源卡片，把其中的旧标题替换为新标题
+  private async planRewrites(cards: Card[], renames: CardRename[]): Promise<LinkRewrite[]> {
+    const updated = new Map<string, Pick<Card, 'frontContent' | 'backContent'>>()
+    const byId = new Map(cards.map(card => [card.id, card]))
+
+    for (const rename of renames) {
+      if (!normalizeLinkTitle(rename.from) || !normalizeLinkTitle(rename.to)) continue
+      if (normalizeLinkTitle(rename.from) === normalizeLinkTitle(rename.to)) continue
+
+      const links = await db.cardLinks.where('targetId').equals(rename.cardId).toArray()
+      const sourceIds = new Set(links.map(link => link.sourceId))
+      for (const sourceId of sourceIds) {
+        const source = byId.get(sourceId)
+        if (!source || source.lock) continue
+
+        const current = updated.get(sourceId) ?? { frontContent: source.frontContent, backContent: source.backContent }
+        const frontText = rewriteWikiLinks(current.frontContent.text, rename.from, rename.to)
+        const backText = rewriteWikiLinks(current.backContent.text, rename.from, rename.to)
+        if (frontText === current.frontContent.text && backText === current.backContent.text) continue
+
+        const now = new Date()
+        updated.set(sourceId, {
+          frontContent: frontText === current.frontContent.text ? current.frontContent : { ...current.frontContent, text: frontText, lastModified: now },
+          backContent: backText === current.backContent.text ? current.backContent : { ...current.backContent, text: backText, lastModified: now }
+        })
+      }
+    }
+
+    return Array.from(updated, ([cardId, updates]) => ({ cardId, updates }))
+  }
+
+  // 按标题解析目标卡片；目标被锁定时标题不可见，保留原有目标
+  private resolve(link: CardLink, cards: Card[]): CardLink {
+    if (this.lookup?.cards !== cards) {
+      this.lookup = { cards, titles: buildTitleIndex(cards), byId: new Map(cards.map(card => [card.id, card])) }
+    }
+    const target = this.lookup.titles.get(normalizeLinkTitle(link.targetTitle))
+    if (target) {
+      return { ...link, targetId: target.id }
+    }
+    const previous = link.targetId ? this.lookup.byId.get(link.targetId) : undefined
+    return { ...link, targetId: previous?.lock ? previous.id : undefined }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const cardLinkService = new CardLinkService()
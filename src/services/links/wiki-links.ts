@@ -0,0 +1,122 @@
+/**
+ * [[标题]] 链接的解析与改写
+ *
+ * 链接在卡片 HTML 中以纯文本保存，编辑器、导出和搜索都不需要额外处理；
+ * 展示时再转换为可点击的元素。标题按忽略大小写和多余空白的方式匹配卡片的正面标题。
+ */
+
+import { Card } from '@/types/card'
+import { escapeHtml } from '@/services/interchange/markdown-converter'
+
+// 链接不跨越标签，标题中不能包含方括号
+const WIKI_LINK_PATTERN = /\[\[([^[\]<>\n]+?)\]\]/g
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  '#39': "'",
+  nbsp: ' '
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, name: string) => HTML_ENTITIES[name])
+}
+
+/**
+ * 用于比较的标题形式
+ */
+export function normalizeLinkTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * 提取 HTML 中的链接标题（去重，保持出现顺序）
+ */
+export function extractWikiLinks(html: string): string[] {
+  if (!html || !html.includes('[[')) return []
+
+  const titles = new Map<string, string>()
+  for (const match of html.matchAll(WIKI_LINK_PATTERN)) {
+    const title = decodeEntities(match[1]).trim().replace(/\s+/g, ' ')
+    const key = normalizeLinkTitle(title)
+    if (key && !titles.has(key)) {
+      titles.set(key, title)
+    }
+  }
+  return Array.from(titles.values())
+}
+
+/**
+ * 把 HTML 中指向 oldTitle 的链接改为 newTitle
+ */
+export function rewriteWikiLinks(html: string, oldTitle: string, newTitle: string): string {
+  const oldKey = normalizeLinkTitle(oldTitle)
+  if (!html || !oldKey || !html.includes('[[')) return html
+
+  return html.replace(WIKI_LINK_PATTERN, (link, title: string) =>
+    normalizeLinkTitle(decodeEntities(title)) === oldKey ? `[[${escapeHtml(newTitle.trim())}]]` : link
+  )
+}
+
+/**
+ * 展示时把链接转换为可点击的元素，点击由卡片组件按 data-wiki-link 处理
+ */
+export function renderWikiLinks(html: string): string {
+  if (!html || !html.includes('[[')) return html
+
+  return html.replace(WIKI_LINK_PATTERN, (_, title: string) => {
+    const text = title.trim()
+    return `<a class="wiki-link" data-wiki-link="${escapeHtml(decodeEntities(text))}">${text}</a>`
+  })
+}
+
+/**
+ * 按标题查找卡片，同名时取最早创建的一张；锁定的卡片没有标题，不参与匹配
+ */
+export function buildTitleIndex(cards: Card[]): Map<string, Card> {
+  const index = new Map<string, Card>()
+  for (const card of cards) {
+    const key = normalizeLinkTitle(card.frontContent.title || '')
+    if (!key || card.lock) continue
+
+    const existing = index.get(key)
+    if (!existing || new Date(card.createdAt).getTime() < new Date(existing.createdAt).getTime()) {
+      index.set(key, card)
+    }
+  }
+  return index
+}
+
+export function findCardByTitle(cards: Card[], title: string): Card | undefined {
+  return buildTitleIndex(cards).get(normalizeLinkTitle(title))
+}
+
+/**
+ * 编辑器中输入 [[ 后的标题补全：前缀匹配优先，其次是包含
+ */
+export function suggestLinkTitles(cards: Card[], query: string, limit = 8): string[] {
+  const key = normalizeLinkTitle(query)
+  // 含方括号的标题无法写成链接
+  const titles = Array.from(buildTitleIndex(cards).values())
+    .map(card => card.frontContent.title.trim())
+    .filter(title => !/[[\]]/.test(title))
+  if (!key) {
+    return titles.sort((a, b) => a.localeCompare(b)).slice(0, limit)
+  }
+
+  const prefixed: string[] = []
+  const containing: string[] = []
+  for (const title of titles) {
+    const normalized = normalizeLinkTitle(title)
+    if (normalized.startsWith(key)) {
+      prefixed.push(title)
+    } else if (normalized.includes(key)) {
+      containing.push(title)
+    }
+  }
+  const byLength = (a: string, b: string) => a.length - b.length || a.localeCompare(b)
+  return [...prefixed.sort(byLength), ...containing.sort(byLength)].slice(0, limit)
+}
+
@@ -0,0 +1,73 @@
+/**
+ * 卡片手动排序服务
+ *
+ * 每个文件夹（未选择文件夹时为 all）保存一份卡片排序键。
+ * 卡片删除后从所有容器中移除其排序键。
+ */
+
+import { CardOrder } from '@/types/ordering'
+import { db } from '@/services/database'
+
+type OrderChangeListener = (order: CardOrder) => void
+
+export class CardOrderService {
+  private listeners: OrderChangeListener[] = []
+
+  // 注册排序变化监听器
+  onChange(listener: OrderChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 读取容器的排序，尚未排序过时返回空排序
+   */
+  async getOrder(id: string): Promise<CardOrder> {
+    return (await db.cardOrders.get(id)) || { id, keys: {}, updatedAt: new Date() }
+  }
+
+  /**
+   * 合并写入部分卡片的排序键
+   */
+  async updateKeys(id: string, keys: Record<string, string>): Promise<CardOrder> {
+    const next = await db.transaction('rw', db.cardOrders, async () => {
+      const current = await this.getOrder(id)
+      const order: CardOrder = { ...current, keys: { ...current.keys, ...keys }, updatedAt: new Date() }
+      await db.cardOrders.put(order)
+      return order
+    })
+
+    this.listeners.forEach(listener => listener(next))
+    return next
+  }
+
+  /**
+   * 从所有容器中移除已删除的卡片
+   */
+  async removeCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return
+
+    const changed: CardOrder[] = []
+    await db.transaction('rw', db.cardOrders, async () => {
+      const orders = await db.cardOrders.toArray()
+      for (const order of orders) {
+        if (!cardIds.some(id => order.keys[id])) continue
+
+        const keys = { ...order.keys }
+        cardIds.forEach(id => delete keys[id])
+        const next: CardOrder = { ...order, keys, updatedAt: new Date() }
+        await db.cardOrders.put(next)
+        changed.push(next)
+      }
+    })
+
+    changed.forEach(order => this.listeners.forEach(listener => listener(order)))
+  }
+}
+
+export const cardOrderService = new CardOrderService()
@@ -0,0 +1,58 @@
+/**
+ * 分数索引
+ *
+ * 生成可按字符串比较排序的键，在任意两个键之间总能插入新键，
+ * 移动一项只需改写它自己的键。键由 base62 字符组成，不以 '0' 结尾。
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+// 取 a 与 b 之间的中点，a 为空串表示最小，b 为 null 表示无上限
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // 跳过公共前缀
+    let n = 0
+    while ((a[n] || '0') === b[n]) n++
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]
+  }
+
+  // 首位相邻时在后面继续细分
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+function isValidKey(key: string): boolean {
+  return key.length > 0 && !key.endsWith('0') && [...key].every(char => DIGITS.includes(char))
+}
+
+/**
+ * 生成介于 a 和 b 之间的键，null 表示没有下限或上限
+ */
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null && !isValidKey(a)) throw new Error(`Invalid order key: ${a}`)
+  if (b !== null && !isValidKey(b)) throw new Error(`Invalid order key: ${b}`)
+  if (a !== null && b !== null && a >= b) throw new Error(`Order key ${a} is not before ${b}`)
+
+  return midpoint(a ?? '', b)
+}
+
+/**
+ * 生成介于 a 和 b 之间的 n 个递增键，采用二分使键长保持较短
+ */
+export function generateNKeysBetween(a: string | null, b: string | null, n: number): string[] {
+  if (n <= 0) return []
+
+  const middle = generateKeyBetween(a, b)
+  const half = Math.floor((n - 1) / 2)
+  return [
+    ...generateNKeysBetween(a, middle, half),
+    middle,
+    ...generateNKeysBetween(middle, b, n - 1 - half)
+  ]
+}
@@ -0,0 +1,116 @@
+/**
+ * 手动排序
+ *
+ * 卡片在每个容器中的顺序、同级文件夹和标签的顺序都保存为分数索引键。
+ * 拖放时被拖动的一项或多项作为整体移到目标项之前或之后：
+ * 向后移动时放在目标之后，向前移动时放在目标之前。
+ */
+
+import { Card } from '@/types/card'
+import { generateKeyBetween, generateNKeysBetween } from './fractional-index'
+
+/**
+ * 按手动排序键比较，有键的排在没有键的前面
+ */
+export function compareManualOrder(a: { order?: string }, b: { order?: string }): number {
+  if (a.order && b.order) return a.order < b.order ? -1 : a.order > b.order ? 1 : 0
+  if (a.order) return -1
+  if (b.order) return 1
+  return 0
+}
+
+/**
+ * 计算文件夹或标签按 orderedIds 重新排列后需要写入的排序键
+ * 只有一项改变了位置且各项都有键时只为它生成相邻键之间的新键，
+ * 否则（首次手动排序或有未排序的项）按新顺序为整组重新生成键
+ */
+export function reorderItemKeys(orderedIds: string[], items: Array<{ id: string; order?: string }>): Record<string, string> {
+  const keys = new Map(items.map(item => [item.id, item.order]))
+  const isAscending = (ids: string[]) => ids.every((id, index) => index === 0 || keys.get(ids[index - 1])! < keys.get(id)!)
+
+  if (orderedIds.every(id => keys.get(id))) {
+    if (isAscending(orderedIds)) return {}
+
+    // 移动的一项必定是第一处逆序的两项之一
+    const descent = orderedIds.findIndex((id, index) => keys.get(id)! >= keys.get(orderedIds[index + 1])!)
+    for (const index of [descent, descent + 1]) {
+      if (isAscending(orderedIds.filter((_, i) => i !== index))) {
+        const before = index > 0 ? keys.get(orderedIds[index - 1])! : null
+        const after = index < orderedIds.length - 1 ? keys.get(orderedIds[index + 1])! : null
+        return { [orderedIds[index]]: generateKeyBetween(before, after) }
+      }
+    }
+  }
+
+  const updates: Record<string, string> = {}
+  generateNKeysBetween(null, null, orderedIds.length).forEach((key, index) => {
+    updates[orderedIds[index]] = key
+  })
+  return updates
+}
+
+/**
+ * 把 movingIds 作为整体移到 overId 旁边，返回新的顺序
+ */
+export function moveIds(ids: string[], movingIds: string[], activeId: string, overId: string): string[] {
+  const moving = new Set(movingIds)
+  if (moving.has(overId) || !ids.includes(overId)) return ids
+
+  const block = ids.filter(id => moving.has(id))
+  const rest = ids.filter(id => !moving.has(id))
+  const isForward = ids.indexOf(activeId) < ids.indexOf(overId)
+  const insertAt = rest.indexOf(overId) + (isForward ? 1 : 0)
+
+  return [...rest.slice(0, insertAt), ...block, ...rest.slice(insertAt)]
+}
+
+/**
+ * 按容器的排序键排列卡片
+ * 没有键的卡片（新建或刚移入）排在最前，按创建时间从新到旧
+ */
+export function sortByOrderKeys(cards: Card[], keys: Record<string, string>): Card[] {
+  const unordered = cards
+    .filter(card => !keys[card.id])
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  const ordered = cards
+    .filter(card => keys[card.id])
+    .sort((a, b) => (keys[a.id] < keys[b.id] ? -1 : keys[a.id] > keys[b.id] ? 1 : a.id.localeCompare(b.id)))
+
+  return [...unordered, ...ordered]
+}
+
+/**
+ * 计算移动卡片后需要写入的排序键
+ * 列表中的卡片都有键时只为移动的卡片生成相邻键之间的新键，
+ * 否则（首次手动排序或有新卡片）按新顺序为整个列表重新生成键
+ */
+export function reorderKeys(
+  orderedIds: string[],
+  keys: Record<string, string>,
+  movingIds: string[],
+  activeId: string,
+  overId: string
+): Record<string, string> {
+  const next = moveIds(orderedIds, movingIds, activeId, overId)
+  if (next === orderedIds) return {}
+
+  const moving = new Set(movingIds)
+  const start = next.findIndex(id => moving.has(id))
+  const count = next.filter(id => moving.has(id)).length
+  const before = start > 0 ? keys[next[start - 1]] ?? null : null
+  const after = start + count < next.length ? keys[next[start + count]] ?? null : null
+
+  const updates: Record<string, string> = {}
+  const allKeyed = next.every(id => keys[id])
+  if (allKeyed && (before === null || after === null || before < after)) {
+    generateNKeysBetween(before, after, count).forEach((key, index) => {
+      updates[next[start + index]] = key
+    })
+    return updates
+  }
+
+  generateNKeysBetween(null, null, next.length).forEach((key, index) => {
+    updates[next[index]] = key
+  })
+  return updates
+}
@@ -0,0 +1,600 @@
+/**
+ * 把卡片的一面绘制到 PDF 页面的指定区域
+ *
+ * 背景、边框和文字按 CardStyle 输出；文字优先使用标准字体的矢量文本，
+ * 含标准字体无法编码的字符（如中文）的段落改为高分辨率栅格图片。
+ * 内容超出卡片时逐步缩小字号，仍放不下时截断并记录警告。
+ */
+
+import { CardContent, CardStyle } from '@/types/card'
+import { GradientStop, PdfPage, PdfWriter, RgbColor, StandardFont, isWinAnsiEncodable } from '@/utils/pdf-writer'
+import { resolveImageBlob } from '@/services/interchange/interchange-assets'
+import { LayoutRect } from './print-layout'
+import {
+  FontSpec,
+  LaidOutLine,
+  MeasureText,
+  PrintBlock,
+  PrintTextBlock,
+  TextStyle,
+  htmlToPrintBlocks,
+  plainRuns,
+  runsText,
+  wrapRuns
+} from './print-text-layout'
+
+export interface RenderStats {
+  rasterizedBlocks: number
+  warnings: string[]
+}
+
+export interface CardSideRenderOptions {
+  includeImages: boolean
+  label: string // 用于警告信息
+}
+
+interface EmbeddedImage {
+  name: string
+  width: number
+  height: number
+}
+
+type FamilyKind = 'sans' | 'serif' | 'mono'
+
+const STANDARD_FONTS: Record<FamilyKind, [StandardFont, StandardFont, StandardFont, StandardFont]> = {
+  sans: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  serif: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  mono: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique']
+}
+
+// 与标准字体字宽一致的屏幕字体，用于测量
+const METRIC_FAMILIES: Record<FamilyKind, string> = {
+  sans: 'Helvetica, Arial, sans-serif',
+  serif: '"Times New Roman", Times, serif',
+  mono: '"Courier New", Courier, monospace'
+}
+
+// 卡片字号（pt），与界面中的 sm/base/lg/xl 对应
+const FONT_SIZES: Record<NonNullable<CardStyle['fontSize']>, number> = {
+  sm: 9,
+  base: 10.5,
+  lg: 12,
+  xl: 13.5
+}
+
+const BORDER_RADII: Record<NonNullable<CardStyle['borderRadius']>, number> = {
+  sm: 2,
+  md: 4,
+  lg: 6,
+  xl: 8,
+  '2xl': 12,
+  '3xl': 16
+}
+
+const GRADIENT_VECTORS: Record<NonNullable<CardStyle['gradientDirection']>, [number, number, number, number]> = {
+  'to-r': [0, 0.5, 1, 0.5],
+  'to-l': [1, 0.5, 0, 0.5],
+  'to-b': [0.5, 0, 0.5, 1],
+  'to-t': [0.5, 1, 0.5, 0],
+  'to-br': [0, 0, 1, 1],
+  'to-bl': [1, 0, 0, 1],
+  'to-tr': [0, 1, 1, 0],
+  'to-tl': [1, 1, 0, 0]
+}
+
+const WHITE: RgbColor = { r: 1, g: 1, b: 1 }
+const DARK_TEXT: RgbColor = { r: 0.122, g: 0.161, b: 0.216 } // #1f2937
+const MIN_FONT_SIZE = 5
+const RASTER_SCALE = 4 // 栅格文字约 288 dpi
+const MAX_IMAGE_PIXELS = 1600
+
+// ============================================================================
+// 颜色
+// ============================================================================
+
+let colorContext: CanvasRenderingContext2D | null = null
+
+/**
+ * 解析 CSS 颜色，半透明颜色与白纸混合
+ */
+export function parseCssColor(value: string | undefined): RgbColor | null {
+  if (!value) return null
+  let text = value.trim()
+
+  if (!/^(#|rgba?\()/i.test(text)) {
+    // 其余格式（颜色名、hsl 等）交给浏览器规范化
+    colorContext = colorContext || document.createElement('canvas').getContext('2d')
+    if (!colorContext) return null
+    colorContext.fillStyle = '#000000'
+    colorContext.fillStyle = text
+    text = String(colorContext.fillStyle)
+  }
+
+  const hex = text.match(/^#([0-9a-f]{3,8})$/i)
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(digit => digit + digit).join('')
+    }
+    const alpha = digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    return blendWithPaper({
+      r: parseInt(digits.slice(0, 2), 16) / 255,
+      g: parseInt(digits.slice(2, 4), 16) / 255,
+      b: parseInt(digits.slice(4, 6), 16) / 255
+    }, alpha)
+  }
+
+  const rgb = text.match(/^rgba?\(([^)]+)\)$/i)
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean)
+    const channel = (part: string) => part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part) / 255
+    const alpha = parts[3] !== undefined
+      ? (parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]))
+      : 1
+    return blendWithPaper({ r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]) }, alpha)
+  }
+
+  return null
+}
+
+function blendWithPaper(color: RgbColor, alpha: number): RgbColor {
+  const a = Math.max(0, Math.min(1, isNaN(alpha) ? 1 : alpha))
+  return mixColors(color, WHITE, a)
+}
+
+function mixColors(a: RgbColor, b: RgbColor, weight: number): RgbColor {
+  return {
+    r: a.r * weight + b.r * (1 - weight),
+    g: a.g * weight + b.g * (1 - weight),
+    b: a.b * weight + b.b * (1 - weight)
+  }
+}
+
+function luminance(color: RgbColor): number {
+  const linear = (channel: number) => channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b)
+}
+
+function contrastRatio(a: RgbColor, b: RgbColor): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+function toCssColor(color: RgbColor): string {
+  return `rgb(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)})`
+}
+
+interface CardBackground {
+  stops: GradientStop[] // 只有一个色标时为纯色
+  vector: [number, number, number, number]
+  average: RgbColor
+}
+
+function resolveBackground(style: CardStyle): CardBackground {
+  let colors: string[] = []
+  let vector = GRADIENT_VECTORS[style.gradientDirection || 'to-br']
+
+  if (style.type === 'gradient' && style.gradientColors && style.gradientColors.length > 0) {
+    colors = style.gradientColors
+  } else if (style.backgroundColor && style.backgroundColor.includes('gradient')) {
+    // backgroundColor 中的 CSS 渐变：提取角度和颜色
+    colors = style.backgroundColor.match(/#[0-9a-f]{3,8}\b|rgba?\([^)]*\)/gi) || []
+    const angle = style.backgroundColor.match(/(-?\d+(?:\.\d+)?)deg/)
+    if (angle) vector = angleToVector(parseFloat(angle[1]))
+  } else if (style.backgroundColor) {
+    colors = [style.backgroundColor]
+  }
+
+  const parsed = colors.map(parseCssColor).filter((color): color is RgbColor => !!color)
+  if (parsed.length === 0) parsed.push(WHITE)
+
+  const stops = parsed.map((color, index) => ({
+    offset: parsed.length === 1 ? 0 : index / (parsed.length - 1),
+    color
+  }))
+  const average = {
+    r: parsed.reduce((sum, color) => sum + color.r, 0) / parsed.length,
+    g: parsed.reduce((sum, color) => sum + color.g, 0) / parsed.length,
+    b: parsed.reduce((sum, color) => sum + color.b, 0) / parsed.length
+  }
+
+  return { stops, vector, average }
+}
+
+// CSS 角度（0deg 向上，顺时针）转换为单位矩形内的起止点
+function angleToVector(degrees: number): [number, number, number, number] {
+  const radians = (degrees * Math.PI) / 180
+  const dx = Math.sin(radians) / 2
+  const dy = -Math.cos(radians) / 2
+  return [0.5 - dx, 0.5 - dy, 0.5 + dx, 0.5 + dy]
+}
+
+// 保证打印在纸上时文字可读
+function readableTextColor(preferred: RgbColor | null, background: RgbColor): RgbColor {
+  if (preferred && contrastRatio(preferred, background) >= 2.5) return preferred
+  return contrastRatio(DARK_TEXT, background) >= contrastRatio(WHITE, background) ? DARK_TEXT : WHITE
+}
+
+// ============================================================================
+// 字体
+// ============================================================================
+
+function familyKind(fontFamily?: string): FamilyKind {
+  const family = (fontFamily || '').toLowerCase()
+  if (/mono|courier|code|consolas/.test(family)) return 'mono'
+  if (/serif|georgia|times|song|宋|garamond/.test(family) && !/sans/.test(family)) return 'serif'
+  return 'sans'
+}
+
+function standardFont(kind: FamilyKind, style: TextStyle): StandardFont {
+  const fonts = STANDARD_FONTS[style.code ? 'mono' : kind]
+  return fonts[(style.bold ? 1 : 0) + (style.italic ? 2 : 0)]
+}
+
+function cssFont(font: FontSpec, family: string): string {
+  return `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${font.size}px ${font.code ? METRIC_FAMILIES.mono : family}`
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+function createMeasure(family: string): MeasureText {
+  return (text, font) => {
+    measureContext = measureContext || document.createElement('canvas').getContext('2d')
+    if (!measureContext) return text.length * font.size * 0.55
+    measureContext.font = cssFont(font, family)
+    return measureContext.measureText(text).width
+  }
+}
+
+// ============================================================================
+// 图片
+// ============================================================================
+
+/**
+ * 同一次导出中共用的图片资源，同一地址只嵌入一次
+ */
+export class PrintImageCache {
+  private cache = new Map<string, Promise<EmbeddedImage | null>>()
+
+  constructor(readonly writer: PdfWriter, private stats: RenderStats) {}
+
+  load(src: string): Promise<EmbeddedImage | null> {
+    let entry = this.cache.get(src)
+    if (!entry) {
+      entry = this.embed(src)
+      this.cache.set(src, entry)
+    }
+    return entry
+  }
+
+  private async embed(src: string): Promise<EmbeddedImage | null> {
+    try {
+      const blob = await resolveImageBlob(src)
+      const bitmap = await createImageBitmap(blob)
+      const { width, height } = bitmap
+
+      try {
+        // JPEG 原样嵌入，避免二次压缩
+        if (blob.type === 'image/jpeg' && Math.max(width, height) <= MAX_IMAGE_PIXELS) {
+          const data = new Uint8Array(await blob.arrayBuffer())
+          return { name: this.writer.addJpegImage(data, width, height), width, height }
+        }
+
+        const scale = Math.min(1, MAX_IMAGE_PIXELS / Math.max(width, height))
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.max(1, Math.round(width * scale))
+        canvas.height = Math.max(1, Math.round(height * scale))
+        const context = canvas.getContext('2d')
+        if (!context) throw new Error('Canvas is not available')
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+        const name = await embedCanvas(this.writer, canvas)
+        return { name, width, height }
+      } finally {
+        bitmap.close()
+      }
+    } catch (error) {
+      console.warn('Failed to embed image in PDF:', error)
+      this.stats.warnings.push(`Image could not be printed: ${src.slice(0, 60)}`)
+      return null
+    }
+  }
+}
+
+async function embedCanvas(writer: PdfWriter, canvas: HTMLCanvasElement): Promise<string> {
+  const context = canvas.getContext('2d')!
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height)
+  const pixels = canvas.width * canvas.height
+  const rgb = new Uint8Array(pixels * 3)
+  const alpha = new Uint8Array(pixels)
+  let hasAlpha = false
+
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = data[i * 4]
+    rgb[i * 3 + 1] = data[i * 4 + 1]
+    rgb[i * 3 + 2] = data[i * 4 + 2]
+    alpha[i] = data[i * 4 + 3]
+    if (alpha[i] !== 255) hasAlpha = true
+  }
+
+  return writer.addRgbImage(rgb, canvas.width, canvas.height, hasAlpha ? alpha : undefined)
+}
+
+// ============================================================================
+// 排版与绘制
+// ============================================================================
+
+interface SideTheme {
+  family: string // 栅格文字使用的 CSS 字体
+  kind: FamilyKind
+  textColor: RgbColor
+  titleColor: RgbColor
+  mutedColor: RgbColor
+  bold: boolean
+}
+
+interface PlacedBlock {
+  block: PrintBlock
+  height: number
+  spacing: number
+  size: number
+  indent: number
+  lines?: LaidOutLine[]
+  raster?: boolean
+  image?: EmbeddedImage
+  imageWidth?: number
+}
+
+/**
+ * 绘制卡片的一面
+ */
+export async function renderCardSide(
+  page: PdfPage,
+  images: PrintImageCache,
+  side: CardContent,
+  style: CardStyle,
+  rect: LayoutRect,
+  options: CardSideRenderOptions,
+  stats: RenderStats
+): Promise<void> {
+  const scale = Math.max(0.8, Math.min(2, rect.width / 260))
+  const radius = BORDER_RADII[style.borderRadius || 'xl'] * scale
+  const background = resolveBackground(style)
+
+  // 背景
+  page.save().roundedRect(rect.x, rect.y, rect.width, rect.height, radius).clip()
+  if (background.stops.length === 1) {
+    page.setFillColor(background.stops[0].color).rect(rect.x, rect.y, rect.width, rect.height).fill()
+  } else {
+    const [x1, y1, x2, y2] = background.vector
+    page.linearGradient(
+      rect.x + x1 * rect.width, rect.y + y1 * rect.height,
+      rect.x + x2 * rect.width, rect.y + y2 * rect.height,
+      background.stops
+    )
+  }
+  page.restore()
+
+  // 边框
+  const borderColor = parseCssColor(style.borderColor)
+  if (style.borderWidth && style.borderWidth > 0 && borderColor) {
+    const width = style.borderWidth * 0.75
+    page.save()
+      .setStrokeColor(borderColor)
+      .setLineWidth(width)
+      .roundedRect(rect.x + width / 2, rect.y + width / 2, rect.width - width, rect.height - width, radius)
+      .stroke()
+      .restore()
+  }
+
+  // 文字颜色
+  const textColor = readableTextColor(parseCssColor(style.bodyTextColor || style.textColor), background.average)
+  const theme: SideTheme = {
+    family: `${style.fontFamily || 'system-ui'}, ${METRIC_FAMILIES[familyKind(style.fontFamily)]}`,
+    kind: familyKind(style.fontFamily),
+    textColor,
+    titleColor: readableTextColor(parseCssColor(style.titleColor || style.textColor), background.average),
+    mutedColor: mixColors(textColor, background.average, 0.6),
+    bold: style.fontWeight === 'bold' || style.fontWeight === 'semibold'
+  }
+
+  // 内容块
+  const blocks: PrintBlock[] = []
+  if (side.title) {
+    blocks.push({ type: 'text', kind: 'title', runs: plainRuns(side.title, { bold: true }), level: 0 })
+  }
+  blocks.push(...htmlToPrintBlocks(side.text || '').filter(block => block.type === 'text' || options.includeImages))
+  for (const todo of side.todos || []) {
+    blocks.push({ type: 'text', kind: 'task', runs: plainRuns(todo.text), level: 0, checked: todo.completed })
+  }
+  if (options.includeImages) {
+    for (const image of side.images || []) {
+      blocks.push({ type: 'image', src: image.url, alt: image.alt })
+    }
+  }
+  if (side.tags && side.tags.length > 0) {
+    blocks.push({ type: 'text', kind: 'tags', runs: plainRuns(side.tags.map(tag => `#${tag}`).join('  ')), level: 0 })
+  }
+
+  // 预先载入图片以获得尺寸
+  const embedded = new Map<PrintBlock, EmbeddedImage>()
+  for (const block of blocks) {
+    if (block.type === 'image') {
+      const image = await images.load(block.src)
+      if (image) embedded.set(block, image)
+    }
+  }
+  const printable = blocks.filter(block => block.type === 'text' || embedded.has(block))
+  if (printable.length === 0) return
+
+  const padding = Math.max(8, Math.min(28, rect.width * 0.06))
+  const contentWidth = rect.width - padding * 2
+  const contentHeight = rect.height - padding * 2
+
+  // 逐步缩小字号直到内容放得下
+  let size = FONT_SIZES[style.fontSize || 'base'] * scale
+  let placed = layoutBlocks(printable, embedded, size, contentWidth, contentHeight, theme)
+  while (totalHeight(placed) > contentHeight && size > MIN_FONT_SIZE) {
+    size = Math.max(MIN_FONT_SIZE, size * 0.9)
+    placed = layoutBlocks(printable, embedded, size, contentWidth, contentHeight, theme)
+  }
+
+  const overflow = totalHeight(placed) > contentHeight
+  if (overflow) {
+    stats.warnings.push(`${options.label} was too long and has been truncated`)
+  }
+
+  // 绘制，超出部分截断
+  const bottom = rect.y + padding + contentHeight
+  let y = rect.y + padding
+  for (const item of placed) {
+    if (y >= bottom) break
+    const x = rect.x + padding + item.indent
+    const available = bottom - y
+
+    if (item.block.type === 'image' && item.image) {
+      if (item.height <= available) {
+        page.image(item.image.name, rect.x + padding + (contentWidth - item.imageWidth!) / 2, y, item.imageWidth!, item.height)
+      }
+    } else if (item.block.type === 'text' && item.lines) {
+      await drawTextBlock(page, images, item, item.block, x, y, contentWidth - item.indent, available, theme, stats)
+    }
+    y += item.height + item.spacing
+  }
+}
+
+function totalHeight(placed: PlacedBlock[]): number {
+  return placed.reduce((sum, item, index) => sum + item.height + (index < placed.length - 1 ? item.spacing : 0), 0)
+}
+
+function blockFontSize(block: PrintTextBlock, size: number): number {
+  switch (block.kind) {
+    case 'title':
+      return size * 1.35
+    case 'heading':
+      return size * (block.level === 1 ? 1.3 : block.level === 2 ? 1.2 : 1.1)
+    case 'code':
+      return size * 0.9
+    case 'tags':
+      return size * 0.8
+    default:
+      return size
+  }
+}
+
+function layoutBlocks(
+  blocks: PrintBlock[],
+  embedded: Map<PrintBlock, EmbeddedImage>,
+  size: number,
+  width: number,
+  height: number,
+  theme: SideTheme
+): PlacedBlock[] {
+  return blocks.map(block => {
+    if (block.type === 'image') {
+      const image = embedded.get(block)!
+      // 图片最多占卡片高度的一半，不放大
+      const imageWidth = Math.min(width, image.width * 0.75, (height * 0.5 * image.width) / image.height)
+      return { block, image, imageWidth, height: (imageWidth * image.height) / image.width, spacing: size * 0.6, size, indent: 0 }
+    }
+
+    const fontSize = blockFontSize(block, size)
+    const isList = block.kind === 'list-item' || block.kind === 'task'
+    const indent = isList ? (block.level + 1) * fontSize * 1.3 : block.kind === 'quote' ? fontSize : 0
+    const raster = !isWinAnsiEncodable(runsText(block.runs))
+    const measure = raster
+      ? createMeasure(theme.family)
+      : createMeasure(METRIC_FAMILIES[theme.kind])
+    const runs = theme.bold ? block.runs.map(run => ({ ...run, bold: true })) : block.runs
+    const lines = wrapRuns(runs, width - indent, fontSize, measure)
+
+    return {
+      block: { ...block, runs },
+      lines,
+      raster,
+      size: fontSize,
+      indent,
+      height: lines.length * fontSize * 1.35,
+      spacing: block.kind === 'title' ? fontSize * 0.5 : size * 0.45
+    }
+  })
+}
+
+async function drawTextBlock(
+  page: PdfPage,
+  images: PrintImageCache,
+  item: PlacedBlock,
+  block: PrintTextBlock,
+  x: number,
+  y: number,
+  width: number,
+  available: number,
+  theme: SideTheme,
+  stats: RenderStats
+): Promise<void> {
+  const lineHeight = item.size * 1.35
+  const visibleLines = item.lines!.slice(0, Math.max(0, Math.floor(available / lineHeight)))
+  if (visibleLines.length === 0) return
+
+  const color = block.kind === 'title' || block.kind === 'heading'
+    ? theme.titleColor
+    : block.kind === 'tags' || block.kind === 'quote' || (block.kind === 'task' && block.checked)
+      ? theme.mutedColor
+      : theme.textColor
+
+  // 列表符号、待办框和引用线用矢量绘制
+  const firstBaseline = y + lineHeight * 0.75
+  if (block.kind === 'list-item' && block.marker) {
+    page.setFillColor(color).text(block.marker, x - item.size * 1.2, firstBaseline, standardFont(theme.kind, { bold: false, italic: false, code: false }), item.size)
+  } else if (block.kind === 'task') {
+    const box = item.size * 0.8
+    const boxX = x - item.size * 1.25
+    const boxY = firstBaseline - box
+    page.save().setStrokeColor(color).setLineWidth(0.7).rect(boxX, boxY, box, box).stroke()
+    if (block.checked) {
+      page.setLineWidth(1)
+        .line(boxX + box * 0.2, boxY + box * 0.55, boxX + box * 0.42, boxY + box * 0.8)
+        .line(boxX + box * 0.42, boxY + box * 0.8, boxX + box * 0.85, boxY + box * 0.2)
+    }
+    page.restore()
+  } else if (block.kind === 'quote') {
+    page.setFillColor(theme.mutedColor).rect(x - item.size * 0.8, y, item.size * 0.2, visibleLines.length * lineHeight).fill()
+  }
+
+  if (!item.raster) {
+    page.setFillColor(color)
+    visibleLines.forEach((line, index) => {
+      const baseline = firstBaseline + index * lineHeight
+      for (const segment of line.segments) {
+        page.text(segment.text, x + segment.x, baseline, standardFont(theme.kind, segment.style), item.size)
+      }
+    })
+    return
+  }
+
+  // 栅格化：按同样的折行结果绘制到画布
+  const height = visibleLines.length * lineHeight
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.ceil(width * RASTER_SCALE))
+  canvas.height = Math.max(1, Math.ceil(height * RASTER_SCALE))
+  const context = canvas.getContext('2d')
+  if (!context) {
+    stats.warnings.push('Text could not be rasterized: canvas is not available')
+    return
+  }
+
+  context.scale(RASTER_SCALE, RASTER_SCALE)
+  context.fillStyle = toCssColor(color)
+  context.textBaseline = 'alphabetic'
+  visibleLines.forEach((line, index) => {
+    const baseline = lineHeight * 0.75 + index * lineHeight
+    for (const segment of line.segments) {
+      context.font = cssFont({ ...segment.style, size: item.size }, theme.family)
+      context.fillText(segment.text, segment.x, baseline)
+    }
+  })
+
+  const name = await embedCanvas(images.writer, canvas)
+  page.image(name, x, y, width, height)
+  stats.rasterizedBlocks++
+}
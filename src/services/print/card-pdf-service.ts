@@ -0,0 +1,143 @@
+/**
+ * 多卡片 PDF 导出服务
+ *
+ * 按 1/2/4/8 张每页的网格排版，可在每页正面之后插入背面页；双面打印时背面位置按翻转方式镜像，
+ * 使正反面背靠背对齐，裁切后即为双面闪卡。
+ */
+
+import { Card, Folder } from '@/types/card'
+import { PdfExportOptions, PdfExportResult } from '@/types/print'
+import { PdfWriter } from '@/utils/pdf-writer'
+import { throwIfAborted } from '@/utils/abort-utils'
+import { PrintImageCache, RenderStats, renderCardSide } from './card-pdf-renderer'
+import {
+  DEFAULT_PRINT_GUTTER,
+  DEFAULT_PRINT_MARGIN,
+  backCellFor,
+  computePrintGrid,
+  cropMarkLines,
+  paginate
+} from './print-layout'
+
+export interface PdfExportTaskOptions {
+  signal?: AbortSignal
+  onProgress?: (processed: number, total: number) => void
+}
+
+const CROP_MARK_COLOR = { r: 0.4, g: 0.4, b: 0.4 }
+
+export class CardPdfService {
+  /**
+   * 按选项确定要导出的卡片：指定卡片优先，其次为文件夹（含子文件夹），否则为全部
+   */
+  resolveCards(cards: Card[], folders: Folder[], options: Pick<PdfExportOptions, 'cardIds' | 'folderId'>): Card[] {
+    if (options.cardIds) {
+      const ids = new Set(options.cardIds)
+      return cards.filter(card => ids.has(card.id))
+    }
+
+    if (options.folderId) {
+      const folderIds = new Set([options.folderId])
+      // 逐层收集子文件夹
+      let added = true
+      while (added) {
+        added = false
+        for (const folder of folders) {
+          if (folder.parentId && folderIds.has(folder.parentId) && !folderIds.has(folder.id)) {
+            folderIds.add(folder.id)
+            added = true
+          }
+        }
+      }
+      const folderCardIds = new Set(
+        folders.filter(folder => folderIds.has(folder.id)).flatMap(folder => folder.cardIds)
+      )
+      return cards.filter(card => (card.folderId && folderIds.has(card.folderId)) || folderCardIds.has(card.id))
+    }
+
+    return cards
+  }
+
+  async exportCards(
+    cards: Card[],
+    folders: Folder[],
+    options: PdfExportOptions,
+    task: PdfExportTaskOptions = {}
+  ): Promise<PdfExportResult> {
+    const selected = this.resolveCards(cards, folders, options)
+    if (selected.length === 0) {
+      throw new Error('No cards to export')
+    }
+
+    const title = options.folderId
+      ? folders.find(folder => folder.id === options.folderId)?.name
+      : undefined
+    const writer = new PdfWriter({ title: title ? `CardAll - ${title}` : 'CardAll cards' })
+    const stats: RenderStats = { rasterizedBlocks: 0, warnings: [] }
+    const images = new PrintImageCache(writer, stats)
+    const grid = computePrintGrid(
+      options.pageSize,
+      options.cardsPerPage,
+      options.margin ?? DEFAULT_PRINT_MARGIN,
+      options.gutter ?? DEFAULT_PRINT_GUTTER
+    )
+    const cropMarks = options.cropMarks ? cropMarkLines(grid) : []
+
+    const total = selected.length * (options.includeBackSide ? 2 : 1)
+    let processed = 0
+
+    const addPage = () => {
+      const page = writer.addPage(grid.pageWidth, grid.pageHeight)
+      if (cropMarks.length > 0) {
+        page.save().setStrokeColor(CROP_MARK_COLOR).setLineWidth(0.25)
+        cropMarks.forEach(([x1, y1, x2, y2]) => page.line(x1, y1, x2, y2))
+        page.restore()
+      }
+      return page
+    }
+
+    for (const pageCards of paginate(selected, options.cardsPerPage)) {
+      const front = addPage()
+      for (let i = 0; i < pageCards.length; i++) {
+        throwIfAborted(task.signal)
+        const card = pageCards[i]
+        await renderCardSide(front, images, card.frontContent, card.style, grid.cells[i], {
+          includeImages: options.includeImages,
+          label: `"${cardLabel(card)}" (front)`
+        }, stats)
+        task.onProgress?.(++processed, total)
+      }
+
+      if (!options.includeBackSide) continue
+
+      const back = addPage()
+      for (let i = 0; i < pageCards.length; i++) {
+        throwIfAborted(task.signal)
+        const card = pageCards[i]
+        await renderCardSide(back, images, card.backContent, card.style, backCellFor(grid, i, options.duplex), {
+          includeImages: options.includeImages,
+          label: `"${cardLabel(card)}" (back)`
+        }, stats)
+        task.onProgress?.(++processed, total)
+      }
+    }
+
+    const blob = await writer.finish()
+    const date = new Date().toISOString().slice(0, 10)
+
+    return {
+      blob,
+      fileName: `cardall-cards-${date}.pdf`,
+      cardCount: selected.length,
+      pageCount: writer.pageCount,
+      rasterizedBlocks: stats.rasterizedBlocks,
+      warnings: stats.warnings
+    }
+  }
+}
+
+function cardLabel(card: Card): string {
+  return card.frontContent.title || card.backContent.title || 'Untitled'
+}
+
+export const cardPdfService = new CardPdfService()
@@ -0,0 +1,124 @@
+/**
+ * 打印排版：纸张网格、双面对齐和裁切标记
+ *
+ * 所有坐标以页面左上角为原点，单位为 pt。
+ */
+
+import { DuplexMode, PrintCardsPerPage, PrintPageSize } from '@/types/print'
+import { PAGE_SIZES } from '@/utils/pdf-writer'
+
+export interface LayoutRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PrintGrid {
+  pageWidth: number
+  pageHeight: number
+  columns: number
+  rows: number
+  cells: LayoutRect[] // 按行优先排列
+}
+
+export const DEFAULT_PRINT_MARGIN = 36 // 0.5 英寸
+export const DEFAULT_PRINT_GUTTER = 18
+
+// 每页卡片数对应的列数和行数（均为纵向纸张）
+const GRID_SHAPES: Record<PrintCardsPerPage, { columns: number; rows: number }> = {
+  1: { columns: 1, rows: 1 },
+  2: { columns: 1, rows: 2 },
+  4: { columns: 2, rows: 2 },
+  8: { columns: 2, rows: 4 }
+}
+
+export function computePrintGrid(
+  pageSize: PrintPageSize,
+  cardsPerPage: PrintCardsPerPage,
+  margin = DEFAULT_PRINT_MARGIN,
+  gutter = DEFAULT_PRINT_GUTTER
+): PrintGrid {
+  const { width: pageWidth, height: pageHeight } = PAGE_SIZES[pageSize]
+  const { columns, rows } = GRID_SHAPES[cardsPerPage]
+  const cellWidth = (pageWidth - margin * 2 - gutter * (columns - 1)) / columns
+  const cellHeight = (pageHeight - margin * 2 - gutter * (rows - 1)) / rows
+
+  const cells: LayoutRect[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      cells.push({
+        x: margin + column * (cellWidth + gutter),
+        y: margin + row * (cellHeight + gutter),
+        width: cellWidth,
+        height: cellHeight
+      })
+    }
+  }
+
+  return { pageWidth, pageHeight, columns, rows, cells }
+}
+
+/**
+ * 背面页中与正面第 index 个位置背靠背的格子
+ *
+ * 长边翻转时同一行左右对调，短边翻转时同一列上下对调；不双面打印时位置不变。
+ */
+export function backCellFor(grid: PrintGrid, index: number, duplex: DuplexMode): LayoutRect {
+  const row = Math.floor(index / grid.columns)
+  const column = index % grid.columns
+
+  switch (duplex) {
+    case 'long-edge':
+      return grid.cells[row * grid.columns + (grid.columns - 1 - column)]
+    case 'short-edge':
+      return grid.cells[(grid.rows - 1 - row) * grid.columns + column]
+    default:
+      return grid.cells[index]
+  }
+}
+
+export function paginate<T>(items: T[], perPage: number): T[][] {
+  const pages: T[][] = []
+  for (let i = 0; i < items.length; i += perPage) {
+    pages.push(items.slice(i, i + perPage))
+  }
+  return pages
+}
+
+/**
+ * 裁切标记：在页边距内沿每条裁切线画短线，不会压到卡片内容
+ */
+export function cropMarkLines(grid: PrintGrid, offset = 4, length = 12): [number, number, number, number][] {
+  const lines: [number, number, number, number][] = []
+  const first = grid.cells[0]
+  const last = grid.cells[grid.cells.length - 1]
+  const top = first.y
+  const left = first.x
+  const bottom = last.y + last.height
+  const right = last.x + last.width
+
+  // 标记长度不超过页边距
+  const markLength = Math.max(0, Math.min(length, left - offset - 2, top - offset - 2))
+  if (markLength === 0) return lines
+
+  const cutXs = new Set<number>()
+  const cutYs = new Set<number>()
+  for (const cell of grid.cells) {
+    cutXs.add(cell.x)
+    cutXs.add(cell.x + cell.width)
+    cutYs.add(cell.y)
+    cutYs.add(cell.y + cell.height)
+  }
+
+  for (const x of cutXs) {
+    lines.push([x, top - offset - markLength, x, top - offset])
+    lines.push([x, bottom + offset, x, bottom + offset + markLength])
+  }
+  for (const y of cutYs) {
+    lines.push([left - offset - markLength, y, left - offset, y])
+    lines.push([right + offset, y, right + offset + markLength, y])
+  }
+
+  return lines
+}
@@ -0,0 +1,307 @@
+/**
+ * 打印文本排版：把卡片 HTML 转为段落块，并按宽度折行
+ *
+ * 只保留打印需要的结构（标题、段落、列表、待办、引用、代码、图片）和行内的粗体、斜体、代码样式。
+ */
+
+export interface TextStyle {
+  bold: boolean
+  italic: boolean
+  code: boolean
+}
+
+export interface TextRun extends TextStyle {
+  text: string
+}
+
+export type TextBlockKind = 'title' | 'paragraph' | 'heading' | 'list-item' | 'task' | 'quote' | 'code' | 'tags'
+
+export interface PrintTextBlock {
+  type: 'text'
+  kind: TextBlockKind
+  runs: TextRun[]
+  level: number // 标题级别或列表缩进层级
+  marker?: string // 列表符号
+  checked?: boolean // 待办是否完成
+}
+
+export interface PrintImageBlock {
+  type: 'image'
+  src: string
+  alt: string
+}
+
+export type PrintBlock = PrintTextBlock | PrintImageBlock
+
+export interface FontSpec extends TextStyle {
+  size: number
+}
+
+export type MeasureText = (text: string, font: FontSpec) => number
+
+export interface LineSegment {
+  text: string
+  style: TextStyle
+  x: number
+  width: number
+}
+
+export interface LaidOutLine {
+  segments: LineSegment[]
+  width: number
+}
+
+const PLAIN: TextStyle = { bold: false, italic: false, code: false }
+
+interface VisitContext {
+  style: TextStyle
+  quote: boolean
+  preformatted: boolean
+  list?: { ordered: boolean; task: boolean; depth: number; counter: number }
+}
+
+/**
+ * 解析卡片 HTML 为打印块
+ */
+export function htmlToPrintBlocks(html: string): PrintBlock[] {
+  if (!html || !html.trim()) return []
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html')
+  const blocks: PrintBlock[] = []
+  let current: PrintTextBlock | null = null
+
+  const flush = () => {
+    if (current && current.runs.some(run => run.text.trim())) {
+      blocks.push({ ...current, runs: trimRuns(current.runs, current.kind === 'code') })
+    }
+    current = null
+  }
+
+  const start = (kind: TextBlockKind, extra: Partial<PrintTextBlock> = {}) => {
+    flush()
+    current = { type: 'text', kind, runs: [], level: 0, ...extra }
+  }
+
+  const append = (text: string, context: VisitContext) => {
+    if (!current) start(context.quote ? 'quote' : 'paragraph')
+    const block = current!
+    const last = block.runs[block.runs.length - 1]
+    if (last && sameStyle(last, context.style)) {
+      last.text += text
+    } else {
+      block.runs.push({ text, ...context.style })
+    }
+  }
+
+  const visitChildren = (node: Node, context: VisitContext) => {
+    node.childNodes.forEach(child => visit(child, context))
+  }
+
+  const visit = (node: Node, context: VisitContext) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const raw = node.textContent || ''
+      const text = context.preformatted ? raw : raw.replace(/\s+/g, ' ')
+      if (text && (context.preformatted || text !== ' ' || current)) append(text, context)
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const element = node as Element
+    const tag = element.tagName.toLowerCase()
+
+    switch (tag) {
+      case 'br':
+        append('\n', context)
+        return
+      case 'img': {
+        const src = element.getAttribute('src')
+        if (src) {
+          flush()
+          blocks.push({ type: 'image', src, alt: element.getAttribute('alt') || '' })
+        }
+        return
+      }
+      case 'input':
+      case 'label':
+      case 'script':
+      case 'style':
+        return
+      case 'strong':
+      case 'b':
+        visitChildren(element, { ...context, style: { ...context.style, bold: true } })
+        return
+      case 'em':
+      case 'i':
+        visitChildren(element, { ...context, style: { ...context.style, italic: true } })
+        return
+      case 'code':
+        visitChildren(element, { ...context, style: { ...context.style, code: true } })
+        return
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        start('heading', { level: Number(tag[1]) })
+        visitChildren(element, { ...context, style: { ...context.style, bold: true } })
+        flush()
+        return
+      case 'blockquote':
+        flush()
+        visitChildren(element, { ...context, quote: true })
+        flush()
+        return
+      case 'pre':
+        start('code')
+        visitChildren(element, { ...context, preformatted: true, style: { ...context.style, code: true } })
+        flush()
+        return
+      case 'ul':
+      case 'ol': {
+        flush()
+        const list = {
+          ordered: tag === 'ol',
+          task: element.getAttribute('data-type') === 'taskList',
+          depth: context.list ? context.list.depth + 1 : 0,
+          counter: Number(element.getAttribute('start')) || 1
+        }
+        visitChildren(element, { ...context, list })
+        flush()
+        return
+      }
+      case 'li': {
+        const list = context.list
+        if (list?.task || element.getAttribute('data-type') === 'taskItem') {
+          start('task', { level: list?.depth || 0, checked: element.getAttribute('data-checked') === 'true' })
+        } else {
+          start('list-item', {
+            level: list?.depth || 0,
+            marker: list?.ordered ? `${list.counter++}.` : '•'
+          })
+        }
+        visitChildren(element, context)
+        flush()
+        return
+      }
+      case 'p':
+      case 'div': {
+        // 列表项中的段落并入列表项
+        const block = current as PrintTextBlock | null
+        if (context.list && block && (block.kind === 'list-item' || block.kind === 'task')) {
+          if (block.runs.length > 0) append('\n', context)
+          visitChildren(element, context)
+          return
+        }
+        start(context.quote ? 'quote' : 'paragraph')
+        visitChildren(element, context)
+        flush()
+        return
+      }
+      default:
+        visitChildren(element, context)
+    }
+  }
+
+  visitChildren(doc.body, { style: PLAIN, quote: false, preformatted: false })
+  flush()
+  return blocks
+}
+
+export function plainRuns(text: string, style: Partial<TextStyle> = {}): TextRun[] {
+  return [{ ...PLAIN, ...style, text }]
+}
+
+export function runsText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('')
+}
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.code === b.code
+}
+
+// 去掉块首尾和换行前后的空白
+function trimRuns(runs: TextRun[], preformatted: boolean): TextRun[] {
+  const result = runs.map(run => ({
+    ...run,
+    text: preformatted ? run.text : run.text.replace(/ *\n */g, '\n')
+  }))
+  if (result.length > 0) {
+    result[0].text = result[0].text.replace(/^\s+/, '')
+    const last = result[result.length - 1]
+    last.text = last.text.replace(/\s+$/, '')
+  }
+  return result.filter(run => run.text)
+}
+
+// 中日韩字符可在任意位置断行
+const CJK_CHAR = '\\u2E80-\\u9FFF\\uAC00-\\uD7AF\\uF900-\\uFAFF\\uFF00-\\uFFEF'
+const TOKEN_PATTERN = new RegExp(`\\n|[ \\t]+|[${CJK_CHAR}]|[^\\s${CJK_CHAR}]+`, 'g')
+
+/**
+ * 按最大宽度折行，返回每行的片段及其横向位置
+ */
+export function wrapRuns(runs: TextRun[], maxWidth: number, size: number, measure: MeasureText): LaidOutLine[] {
+  const lines: LaidOutLine[] = []
+  let line: LaidOutLine = { segments: [], width: 0 }
+
+  const breakLine = () => {
+    // 行尾空格不计入宽度
+    const last = line.segments[line.segments.length - 1]
+    if (last && / +$/.test(last.text)) {
+      const trimmed = last.text.replace(/ +$/, '')
+      const removed = last.width - (trimmed ? measure(trimmed, { ...last.style, size }) : 0)
+      last.text = trimmed
+      last.width -= removed
+      line.width -= removed
+      if (!trimmed) line.segments.pop()
+    }
+    lines.push(line)
+    line = { segments: [], width: 0 }
+  }
+
+  const place = (text: string, style: TextStyle, width: number) => {
+    const last = line.segments[line.segments.length - 1]
+    if (last && sameStyle(last.style, style)) {
+      last.text += text
+      last.width += width
+    } else {
+      line.segments.push({ text, style, x: line.width, width })
+    }
+    line.width += width
+  }
+
+  for (const run of runs) {
+    const style: TextStyle = { bold: run.bold, italic: run.italic, code: run.code }
+    const font = { ...style, size }
+
+    for (const token of run.text.match(TOKEN_PATTERN) || []) {
+      if (token === '\n') {
+        breakLine()
+        continue
+      }
+      if (/^[ \t]+$/.test(token)) {
+        if (line.segments.length > 0) place(' ', style, measure(' ', font))
+        continue
+      }
+
+      const width = measure(token, font)
+      if (line.width + width > maxWidth && line.width > 0) breakLine()
+
+      if (width <= maxWidth) {
+        place(token, style, width)
+        continue
+      }
+
+      // 超长单词按字符拆分
+      for (const char of token) {
+        const charWidth = measure(char, font)
+        if (line.width + charWidth > maxWidth && line.width > 0) breakLine()
+        place(char, style, charWidth)
+      }
+    }
+  }
+
+  if (line.segments.length > 0 || lines.length === 0) breakLine()
+  return lines
+}
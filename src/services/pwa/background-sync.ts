@@ -0,0 +1,109 @@
+/**
+ * 后台同步
+ *
+ * 离线时积压的同步队列和上传队列在这里登记刷新函数。需要刷新时向 Service Worker 注册 Background Sync，
+ * 浏览器在网络恢复后触发 sync 事件，Service Worker 通知一个打开的页面执行所有刷新函数并等待结果；
+ * 刷新失败时浏览器会稍后重试。不支持 Background Sync 的浏览器退回到 online 事件。
+ */
+
+import { BACKGROUND_SYNC_TAG, BackgroundSyncReply, ServiceWorkerMessage } from '@/types/pwa'
+
+type FlushHandler = () => Promise<unknown>
+
+// Background Sync 尚未进入 TypeScript 的 DOM 类型
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+export class BackgroundSyncService {
+  private handlers = new Map<string, FlushHandler>()
+  private registration: SyncCapableRegistration | null = null
+  private flushing: Promise<void> | null = null
+  private waitingForOnline = false
+
+  /**
+   * 登记网络恢复时执行的刷新函数，返回取消登记函数
+   */
+  register(name: string, handler: FlushHandler): () => void {
+    this.handlers.set(name, handler)
+    return () => {
+      if (this.handlers.get(name) === handler) {
+        this.handlers.delete(name)
+      }
+    }
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'SyncManager' in window
+  }
+
+  /**
+   * 关联 Service Worker 注册并开始接收其后台同步消息
+   */
+  attach(registration: ServiceWorkerRegistration): void {
+    if (this.registration) return
+    this.registration = registration
+    navigator.serviceWorker.addEventListener('message', this.handleMessage)
+  }
+
+  /**
+   * 请求在网络可用时刷新所有队列
+   */
+  async requestSync(): Promise<void> {
+    if (this.registration?.sync) {
+      try {
+        await this.registration.sync.register(BACKGROUND_SYNC_TAG)
+        return
+      } catch (error) {
+        console.warn('Background sync registration failed, falling back to online event:', error)
+      }
+    }
+    this.waitForOnline()
+  }
+
+  /**
+   * 执行所有刷新函数，同时进行的请求共享同一次刷新；任一失败时抛出错误
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runHandlers().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  private async runHandlers(): Promise<void> {
+    const entries = Array.from(this.handlers.entries())
+    const results = await Promise.allSettled(entries.map(([, handler]) => handler()))
+    const failed = entries.filter((_, index) => results[index].status === 'rejected').map(([name]) => name)
+    if (failed.length > 0) {
+      throw new Error(`Background sync failed for: ${failed.join(', ')}`)
+    }
+  }
+
+  private waitForOnline(): void {
+    if (this.waitingForOnline || typeof window === 'undefined') return
+    this.waitingForOnline = true
+
+    const handleOnline = () => {
+      window.removeEventListener('online', handleOnline)
+      this.waitingForOnline = false
+      this.flush().catch(error => console.warn(error))
+    }
+    window.addEventListener('online', handleOnline)
+  }
+
+  private handleMessage = (event: MessageEvent<ServiceWorkerMessage>) => {
+    if (event.data?.type !== 'BACKGROUND_SYNC') return
+
+    const port = event.ports[0]
+    const reply = (message: BackgroundSyncReply) => port?.postMessage(message)
+    this.flush().then(
+      () => reply({ ok: true }),
+      error => reply({ ok: false, error: error instanceof Error ? error.message : String(error) })
+    )
+  }
+}
+
+export const backgroundSyncService = new BackgroundSyncService()
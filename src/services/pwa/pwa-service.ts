@@ -0,0 +1,94 @@
+/**
+ * Service Worker 注册与更新
+ *
+ * Service Worker 由构建生成（src/sw.ts，预缓存清单来自 Vite 构建产物）。新版本安装后停在 waiting 状态，
+ * 由用户确认后再激活并刷新页面，避免新旧资源混用。
+ */
+
+import { registerSW } from 'virtual:pwa-register'
+import { PWAState } from '@/types/pwa'
+import { backgroundSyncService } from './background-sync'
+
+type PWAStateListener = (state: PWAState) => void
+
+// 已打开的页面每小时检查一次新版本
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000
+
+export class PWAService {
+  private state: PWAState = {
+    supported: typeof navigator !== 'undefined' && 'serviceWorker' in navigator,
+    registered: false,
+    offlineReady: false,
+    updateAvailable: false,
+    backgroundSync: backgroundSyncService.isSupported()
+  }
+  private listeners: PWAStateListener[] = []
+  private registration: ServiceWorkerRegistration | null = null
+  private updateSW: ((reloadPage?: boolean) => Promise<void>) | null = null
+
+  // 注册状态监听器
+  onChange(listener: PWAStateListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getState(): PWAState {
+    return this.state
+  }
+
+  /**
+   * 注册 Service Worker，重复调用无效
+   */
+  register(): void {
+    if (!this.state.supported || this.updateSW) return
+
+    this.updateSW = registerSW({
+      immediate: true,
+      onNeedRefresh: () => this.setState({ updateAvailable: true }),
+      onOfflineReady: () => this.setState({ offlineReady: true }),
+      onRegisteredSW: (_swUrl, registration) => {
+        if (!registration) return
+        this.registration = registration
+        backgroundSyncService.attach(registration)
+        setInterval(() => {
+          registration.update().catch(error => console.warn('Service Worker update check failed:', error))
+        }, UPDATE_CHECK_INTERVAL)
+        this.setState({ registered: true })
+      },
+      onRegisterError: error => console.error('Service Worker registration failed:', error)
+    })
+  }
+
+  /**
+   * 立即检查新版本
+   */
+  async checkForUpdate(): Promise<void> {
+    await this.registration?.update()
+  }
+
+  /**
+   * 激活等待中的新版本，新版本接管后页面自动刷新
+   */
+  async applyUpdate(): Promise<void> {
+    await this.updateSW?.(true)
+  }
+
+  /**
+   * 稍后再更新，新版本会在所有页面关闭后自动激活
+   */
+  dismissUpdate(): void {
+    this.setState({ updateAvailable: false })
+  }
+
+  private setState(updates: Partial<PWAState>): void {
+    this.state = { ...this.state, ...updates }
+    this.listeners.forEach(listener => listener(this.state))
+  }
+}
+
+export const pwaService = new PWAService()
@@ -1,5 +1,6 @@
 import { db, type DbCard, DbFolder, DbTag, DbImage } from './database-unified'
-import type { Card, Folder, Tag } from '@/types/card'
+import type { Card, CardFilter, Folder, Tag } from '@/types/card'
+import { matchesSearchFilter } from '@/services/search/search-query'
 
 // ============================================================================
 // 增强的查询性能优化器 - Week 2 Day 6-7 Database-Architect 任务完成版
@@ -238,6 +239,9 @@ export class QueryOptimizer {
     searchQuery?: string
     dateRange?: { start: Date; end: Date }
     syncStatus?: 'synced' | 'pending' | 'error'
+    styleType?: CardFilter['styleType']
+    hasImages?: boolean
+    searchFilter?: CardFilter // 结构化查询编译出的扩展条件
     limit?: number
     offset?: number
     orderBy?: keyof DbCard
@@ -293,6 +297,22 @@ export class QueryOptimizer {
           return searchTerms.every(term => searchVector.includes(term))
         })
       }
+
+      const { styleType, hasImages, searchFilter } = filters
+
+      if (styleType) {
+        query = query.and((card: DbCard) => card.style.type === styleType)
+      }
+
+      if (hasImages !== undefined) {
+        query = query.and((card: DbCard) =>
+          (card.frontContent.images.length > 0 || card.backContent.images.length > 0) === hasImages
+        )
+      }
+
+      if (searchFilter) {
+        query = query.and((card: DbCard) => matchesSearchFilter(card, searchFilter))
+      }
       
       if (filters.orderBy) {
         query = query.orderBy(filters.orderBy as string)
@@ -321,6 +341,27 @@ export class QueryOptimizer {
     }
   }
 
+  /**
+   * 按 CardFilter 查询卡片 - 执行搜索框结构化查询编译出的条件
+   */
+  async queryCardsByFilter(filter: CardFilter, options: {
+    limit?: number
+    offset?: number
+    orderBy?: keyof DbCard
+    sortOrder?: 'asc' | 'desc'
+  } = {}): Promise<Card[]> {
+    return this.queryCards({
+      folderId: filter.folderId,
+      tags: filter.tags,
+      searchQuery: filter.searchTerm.trim() || undefined,
+      dateRange: filter.dateRange,
+      styleType: filter.styleType,
+      hasImages: filter.hasImages,
+      searchFilter: filter,
+      ...options
+    })
+  }
+
   /**
    * 优化的统计查询 - 快速获取聚合数据
    */
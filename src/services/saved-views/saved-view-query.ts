@@ -0,0 +1,114 @@
+/**
+ * 智能文件夹的匹配
+ *
+ * 把保存的条件编译成 CardFilter，与卡片列表使用同一套过滤规则，
+ * 侧栏计数、导出、批量截图和复习都通过这里取得智能文件夹中的卡片。
+ */
+
+import { Card, CardFilter } from '@/types/card'
+import { SavedView, SavedViewDraft } from '@/types/saved-view'
+import { cardSearchIndex } from '@/services/search/search-index'
+import {
+  FolderTreeNode,
+  applySearchQuery,
+  compileSearchQuery,
+  matchesCardFilter
+} from '@/services/search/search-query'
+
+const MIN_DATE = new Date(0)
+const MAX_DATE = new Date(8640000000000000)
+
+/**
+ * 智能文件夹手动排序使用的容器 ID，与文件夹 ID 区分
+ */
+export const savedViewOrderId = (viewId: string) => `view:${viewId}`
+
+/**
+ * 智能文件夹中直接保存的条件（查询语法以外的部分），与查询中的同类条件取交集
+ */
+export function applySavedViewFields(filter: CardFilter, view: SavedViewDraft): CardFilter {
+  const next: CardFilter = { ...filter, tags: view.tags }
+
+  if (view.dateRange && (view.dateRange.start || view.dateRange.end)) {
+    const start = view.dateRange.start ?? MIN_DATE
+    const end = view.dateRange.end ?? MAX_DATE
+    next.dateRange = filter.dateRange
+      ? {
+          start: new Date(Math.max(filter.dateRange.start.getTime(), start.getTime())),
+          end: new Date(Math.min(filter.dateRange.end.getTime(), end.getTime()))
+        }
+      : { start, end }
+  }
+  if (view.hasImages !== undefined) next.hasImages = view.hasImages
+  if (view.styleType) next.styleType = view.styleType
+
+  return next
+}
+
+/**
+ * 编译智能文件夹的完整过滤条件，不限定文件夹
+ */
+export function buildSavedViewFilter(view: SavedViewDraft, folderTree: FolderTreeNode[] = []): CardFilter {
+  const { filter } = compileSearchQuery(view.query, folderTree)
+  return applySavedViewFields(applySearchQuery({ searchTerm: '', tags: [] }, filter), view)
+}
+
+/**
+ * 按智能文件夹保存的排序方式比较卡片，手动排序由调用方处理
+ */
+export function compareBySavedView(a: Card, b: Card, view: Pick<SavedView, 'sortBy' | 'sortOrder'>): number {
+  let comparison = 0
+
+  switch (view.sortBy) {
+    case 'created':
+      comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      break
+    case 'updated':
+      comparison = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
+      break
+    case 'title':
+      comparison = a.frontContent.title.localeCompare(b.frontContent.title)
+      break
+  }
+
+  return view.sortOrder === 'desc' ? -comparison : comparison
+}
+
+/**
+ * 取得智能文件夹当前匹配的卡片，按其排序方式排列
+ */
+export function filterCardsByView(cards: Card[], view: SavedViewDraft, folderTree: FolderTreeNode[] = []): Card[] {
+  const filter = buildSavedViewFilter(view, folderTree)
+
+  let searchScores: Map<string, number> | null = null
+  if (filter.searchTerm.trim()) {
+    cardSearchIndex.sync(cards)
+    searchScores = cardSearchIndex.match(filter.searchTerm)
+  }
+
+  const matched = cards.filter(card => {
+    if (searchScores && !searchScores.has(card.id)) return false
+    return matchesCardFilter(card, filter)
+  })
+
+  return matched.sort((a, b) => compareBySavedView(a, b, view))
+}
+
+/**
+ * 两个智能文件夹条件是否相同，用于判断当前筛选是否已改动
+ */
+export function isSameSavedView(a: SavedViewDraft, b: SavedViewDraft): boolean {
+  const time = (date?: Date) => (date ? new Date(date).getTime() : undefined)
+  return (
+    a.query.trim() === b.query.trim() &&
+    a.tags.length === b.tags.length &&
+    a.tags.every(tag => b.tags.includes(tag)) &&
+    time(a.dateRange?.start) === time(b.dateRange?.start) &&
+    time(a.dateRange?.end) === time(b.dateRange?.end) &&
+    a.hasImages === b.hasImages &&
+    a.styleType === b.styleType &&
+    a.sortBy === b.sortBy &&
+    a.sortOrder === b.sortOrder &&
+    a.layout === b.layout
+  )
+}
@@ -0,0 +1,86 @@
+/**
+ * 智能文件夹服务
+ *
+ * 保存命名的筛选条件和显示方式，按侧栏顺序读取。
+ */
+
+import { SavedView, SavedViewDraft } from '@/types/saved-view'
+import { db } from '@/services/database'
+import { savedViewOrderId } from './saved-view-query'
+
+type SavedViewsChangeListener = (views: SavedView[]) => void
+
+export class SavedViewService {
+  private listeners: SavedViewsChangeListener[] = []
+
+  // 注册智能文件夹变化监听器
+  onChange(listener: SavedViewsChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 按侧栏顺序列出全部智能文件夹
+   */
+  async listViews(): Promise<SavedView[]> {
+    const views = await db.savedViews.toArray()
+    return views.sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name))
+  }
+
+  async createView(draft: SavedViewDraft): Promise<SavedView> {
+    const now = new Date()
+    const view: SavedView = {
+      ...draft,
+      id: crypto.randomUUID(),
+      name: draft.name.trim(),
+      order: await db.savedViews.count(),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await db.savedViews.add(view)
+    await this.notify()
+    return view
+  }
+
+  async updateView(id: string, updates: Partial<SavedViewDraft>): Promise<SavedView> {
+    const current = await db.savedViews.get(id)
+    if (!current) {
+      throw new Error('Smart folder not found')
+    }
+
+    const view: SavedView = {
+      ...current,
+      ...updates,
+      name: (updates.name ?? current.name).trim(),
+      updatedAt: new Date()
+    }
+
+    await db.savedViews.put(view)
+    await this.notify()
+    return view
+  }
+
+  /**
+   * 删除智能文件夹及其手动排序
+   */
+  async deleteView(id: string): Promise<void> {
+    await db.transaction('rw', db.savedViews, db.cardOrders, async () => {
+      await db.savedViews.delete(id)
+      await db.cardOrders.delete(savedViewOrderId(id))
+    })
+    await this.notify()
+  }
+
+  private async notify(): Promise<void> {
+    const views = await this.listViews()
+    this.listeners.forEach(listener => listener(views))
+  }
+}
+
+export const savedViewService = new SavedViewService()
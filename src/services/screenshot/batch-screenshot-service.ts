@@ -0,0 +1,185 @@
+/**
+ * 批量截图导出服务
+ *
+ * 按命名模板把选中卡片逐张截图并打包为 ZIP。渲染严格串行：同一时间只挂载一张卡片，
+ * 每张截图完成后让出主线程，大批量导出时页面保持可响应，内存占用只随 ZIP 体积增长。
+ */
+
+import { Card, Folder } from '@/types/card'
+import {
+  BatchScreenshotEntry,
+  BatchScreenshotFailure,
+  BatchScreenshotOptions,
+  BatchScreenshotProgress,
+  BatchScreenshotResult,
+  CardSide
+} from '@/types/screenshot'
+import { ZipWriter } from '@/utils/zip-utils'
+import { SCREENSHOT_EXTENSIONS, sanitizeFileName } from '@/utils/screenshot-utils'
+import { abortError, throwIfAborted } from '@/utils/abort-utils'
+import { cardPdfService } from '@/services/print/card-pdf-service'
+
+export const DEFAULT_NAME_TEMPLATE = '{folder}/{title}-{side}-{date}'
+
+// 路径中每一级名称的最大长度
+const MAX_SEGMENT_LENGTH = 120
+
+// 模板中可用的占位符及说明
+export const NAME_TEMPLATE_TOKENS: { token: string; description: string }[] = [
+  { token: '{folder}', description: 'Folder path' },
+  { token: '{title}', description: 'Card title' },
+  { token: '{side}', description: 'front or back' },
+  { token: '{date}', description: 'Last modified date' },
+  { token: '{index}', description: 'Position in export' },
+  { token: '{id}', description: 'Card ID' }
+]
+
+export interface BatchScreenshotTaskOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: BatchScreenshotProgress) => void
+  /** 渲染并截取卡片的一面 */
+  capture: (card: Card, side: CardSide) => Promise<Blob>
+}
+
+export interface NameTemplateContext {
+  card: Card
+  side: CardSide
+  index: number
+  total: number
+  folderPath: string[]
+}
+
+export class BatchScreenshotService {
+  /**
+   * 按选项确定要导出的卡片：指定卡片或文件夹范围，再按标签过滤
+   */
+  resolveCards(cards: Card[], folders: Folder[], options: Pick<BatchScreenshotOptions, 'cardIds' | 'folderId' | 'tag'>): Card[] {
+    // 锁定的卡片不参与截图
+    const selected = cardPdfService.resolveCards(cards, folders, options).filter(card => !card.lock)
+    if (!options.tag) return selected
+
+    return selected.filter(card =>
+      card.frontContent.tags.includes(options.tag!) || card.backContent.tags.includes(options.tag!)
+    )
+  }
+
+  /**
+   * 按命名模板生成 ZIP 内的文件路径（不含扩展名），模板中的 / 会生成子目录
+   */
+  formatEntryPath(template: string, context: NameTemplateContext): string {
+    const { card, side, index, total, folderPath } = context
+    const content = side === 'front' ? card.frontContent : card.backContent
+    const values: Record<string, string> = {
+      folder: folderPath.map(name => cleanSegment(name)).filter(Boolean).join('/'),
+      title: cleanSegment(content.title || card.frontContent.title).slice(0, 60).trim() || 'untitled-card',
+      side,
+      date: formatDate(new Date(card.updatedAt)),
+      index: String(index).padStart(String(total).length, '0'),
+      id: card.id
+    }
+
+    const path = (template || DEFAULT_NAME_TEMPLATE)
+      .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+      .split(/[\\/]+/)
+      .map(cleanSegment)
+      .filter(Boolean)
+      .join('/')
+
+    return path || `card-${values.index}-${side}`
+  }
+
+  async exportCards(
+    cards: Card[],
+    folders: Folder[],
+    options: BatchScreenshotOptions,
+    task: BatchScreenshotTaskOptions
+  ): Promise<BatchScreenshotResult> {
+    const selected = this.resolveCards(cards, folders, options)
+    if (selected.length === 0) {
+      throw new Error('No cards to export')
+    }
+
+    const sides: CardSide[] = options.sides === 'both' ? ['front', 'back'] : [options.sides]
+    const extension = SCREENSHOT_EXTENSIONS[options.format]
+    const folderById = new Map(folders.map(folder => [folder.id, folder]))
+    const zip = new ZipWriter()
+    const entries: BatchScreenshotEntry[] = []
+    const failures: BatchScreenshotFailure[] = []
+    const total = selected.length * sides.length
+    let processed = 0
+
+    for (let i = 0; i < selected.length; i++) {
+      const card = selected[i]
+      const folderPath = getFolderPath(card.folderId, folderById)
+
+      for (const side of sides) {
+        throwIfAborted(task.signal)
+        const path = `${this.formatEntryPath(options.nameTemplate, {
+          card,
+          side,
+          index: i + 1,
+          total: selected.length,
+          folderPath
+        })}.${extension}`
+        task.onProgress?.({ processed, total, current: path })
+
+        try {
+          const blob = await task.capture(card, side)
+          const written = await zip.add(path, blob, new Date(card.updatedAt))
+          entries.push({ path: written, cardId: card.id, side, blob })
+        } catch (error) {
+          if (task.signal?.aborted) throw abortError()
+          failures.push({
+            cardId: card.id,
+            title: card.frontContent.title || 'Untitled Card',
+            side,
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+
+        task.onProgress?.({ processed: ++processed, total })
+        // 让出主线程，避免长时间阻塞界面
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+
+    if (entries.length === 0) {
+      throw new Error(failures[0]?.error || 'No screenshots were captured')
+    }
+
+    return {
+      blob: zip.finish(),
+      fileName: `cardall-screenshots-${formatDate(new Date())}`,
+      entries,
+      failures
+    }
+  }
+}
+
+function getFolderPath(folderId: string | undefined, folderById: Map<string, Folder>): string[] {
+  const path: string[] = []
+  const visited = new Set<string>()
+  let folder = folderId ? folderById.get(folderId) : undefined
+  while (folder && !visited.has(folder.id)) {
+    visited.add(folder.id)
+    path.unshift(folder.name)
+    folder = folder.parentId ? folderById.get(folder.parentId) : undefined
+  }
+  return path
+}
+
+// 去掉路径中不允许的字符，以及占位符为空时残留的首尾连接符
+function cleanSegment(segment: string): string {
+  return sanitizeFileName(segment, MAX_SEGMENT_LENGTH, '')
+    .replace(/^[\s_-]+|[\s_-]+$/g, '')
+    .replace(/([-_])\1+/g, '$1')
+}
+
+function formatDate(date: Date): string {
+  if (isNaN(date.getTime())) return ''
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const batchScreenshotService = new BatchScreenshotService()
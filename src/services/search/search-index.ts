@@ -0,0 +1,403 @@
+/**
+ * 卡片全文搜索索引
+ *
+ * 内存倒排索引，支持中日韩文本、前缀匹配和 BM25 排序（无词干提取）。
+ * 索引字段：标题、正文（去除 HTML）、待办事项、标签和剪藏来源，按字段加权。
+ * 通过 sync() 按 updatedAt 增量更新，同时兼容 localStorage 和 IndexedDB 两种存储模式。
+ */
+
+import { Card } from '@/types/card'
+import { stripHtmlTags } from '@/utils/copy-utils'
+import { TokenizeOptions, tokenize, tokenizeTerms } from './search-tokenizer'
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type SearchField = 'title' | 'body' | 'todos' | 'tags' | 'source'
+
+export interface SnippetSegment {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchSnippet {
+  field: SearchField
+  segments: SnippetSegment[]
+}
+
+export interface SearchResult {
+  cardId: string
+  score: number
+  snippets: SearchSnippet[]
+}
+
+export interface SearchOptions {
+  limit?: number
+  prefix?: boolean // 是否启用前缀匹配，默认启用
+  snippetLength?: number
+}
+
+interface IndexedDocument {
+  cardId: string
+  version: number // updatedAt 时间戳，用于增量同步
+  fields: Record<SearchField, string>
+  termFrequencies: Map<string, number> // 加权词频
+  length: number // 加权文档长度
+}
+
+// 字段权重
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  body: 1,
+  todos: 1,
+  source: 1
+}
+
+const SNIPPET_FIELDS: SearchField[] = ['title', 'body', 'todos', 'source']
+
+// BM25 参数
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// 前缀匹配得分折扣和扩展上限
+const PREFIX_WEIGHT = 0.7
+const MAX_PREFIX_EXPANSIONS = 50
+
+const DEFAULT_SNIPPET_LENGTH = 80
+
+// 索引和高亮为中日韩片段额外生成单字词元，查询仍按两字切分
+const INDEX_TOKENIZE_OPTIONS: TokenizeOptions = { cjkUnigrams: true }
+
+// ============================================================================
+// 文档提取
+// ============================================================================
+
+/**
+ * 提取卡片的可搜索文本
+ */
+export function extractSearchFields(card: Pick<Card, 'frontContent' | 'backContent' | 'source'>): Record<SearchField, string> {
+  const sides = [card.frontContent, card.backContent]
+  const source = card.source
+
+  return {
+    title: sides.map(side => side.title || '').filter(Boolean).join('\n'),
+    body: sides.map(side => stripHtmlTags(side.text || '')).filter(Boolean).join('\n'),
+    todos: sides.flatMap(side => (side.todos || []).map(todo => todo.text)).filter(Boolean).join('\n'),
+    tags: Array.from(new Set(sides.flatMap(side => side.tags || []))).join(' '),
+    source: source ? [source.siteName, source.url].filter(Boolean).join('\n') : ''
+  }
+}
+
+/**
+ * 生成持久化到 DbCard.searchVector 的规范化词元串（去重、空格分隔）
+ */
+export function buildSearchVector(card: Pick<Card, 'frontContent' | 'backContent' | 'source'>): string {
+  const fields = extractSearchFields(card)
+  const terms = new Set<string>()
+  ;(Object.keys(fields) as SearchField[]).forEach(field => {
+    tokenizeTerms(fields[field], INDEX_TOKENIZE_OPTIONS).forEach(term => terms.add(term))
+  })
+  return Array.from(terms).join(' ')
+}
+
+// ============================================================================
+// 搜索索引
+// ============================================================================
+
+export class CardSearchIndex {
+  private documents = new Map<string, IndexedDocument>()
+  private postings = new Map<string, Set<string>>() // 词元 -> 卡片ID集合
+  private sortedTerms: string[] | null = null // 前缀查找用的有序词表，按需重建
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * 增量同步：只重新索引新增或 updatedAt 变化的卡片，并移除已删除或已锁定的卡片
+   * 返回实际发生变化的文档数
+   */
+  sync(cards: Card[]): number {
+    let changes = 0
+    const seen = new Set<string>()
+
+    for (const card of cards) {
+      // 锁定的卡片不进入索引
+      if (card.lock) continue
+      seen.add(card.id)
+      const existing = this.documents.get(card.id)
+      if (!existing || existing.version !== getVersion(card)) {
+        this.indexCard(card)
+        changes++
+      }
+    }
+
+    for (const cardId of Array.from(this.documents.keys())) {
+      if (!seen.has(cardId)) {
+        this.removeCard(cardId)
+        changes++
+      }
+    }
+
+    return changes
+  }
+
+  // 重建整个索引
+  rebuild(cards: Card[]): void {
+    this.clear()
+    cards.forEach(card => this.indexCard(card))
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.postings.clear()
+    this.sortedTerms = null
+    this.totalLength = 0
+  }
+
+  indexCard(card: Card): void {
+    this.removeCard(card.id)
+
+    const fields = extractSearchFields(card)
+    const termFrequencies = new Map<string, number>()
+    let length = 0
+
+    ;(Object.keys(fields) as SearchField[]).forEach(field => {
+      const weight = FIELD_WEIGHTS[field]
+      for (const term of tokenizeTerms(fields[field], INDEX_TOKENIZE_OPTIONS)) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight)
+        length += weight
+      }
+    })
+
+    this.documents.set(card.id, {
+      cardId: card.id,
+      version: getVersion(card),
+      fields,
+      termFrequencies,
+      length
+    })
+    this.totalLength += length
+
+    termFrequencies.forEach((_, term) => {
+      let cardIds = this.postings.get(term)
+      if (!cardIds) {
+        cardIds = new Set()
+        this.postings.set(term, cardIds)
+        this.sortedTerms = null
+      }
+      cardIds.add(card.id)
+    })
+  }
+
+  removeCard(cardId: string): void {
+    const document = this.documents.get(cardId)
+    if (!document) return
+
+    document.termFrequencies.forEach((_, term) => {
+      const cardIds = this.postings.get(term)
+      if (!cardIds) return
+      cardIds.delete(cardId)
+      if (cardIds.size === 0) {
+        this.postings.delete(term)
+        this.sortedTerms = null
+      }
+    })
+
+    this.totalLength -= document.length
+    this.documents.delete(cardId)
+  }
+
+  /**
+   * 搜索卡片，所有查询词元都必须命中（精确或前缀），按 BM25 得分降序返回
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = Array.from(new Set(tokenizeTerms(query)))
+    if (queryTerms.length === 0 || this.documents.size === 0) return []
+
+    const usePrefix = options.prefix !== false
+    const averageLength = this.totalLength / this.documents.size || 1
+    const scores = new Map<string, number>()
+    const matchedTerms = new Map<string, Set<string>>()
+    let candidates: Set<string> | null = null
+
+    for (const queryTerm of queryTerms) {
+      // 每个查询词元展开为若干索引词元及其权重
+      const expansions = this.expandTerm(queryTerm, usePrefix)
+      const termMatches = new Set<string>()
+      const termScores = new Map<string, number>()
+
+      for (const [term, weight] of expansions) {
+        const cardIds = this.postings.get(term)
+        if (!cardIds) continue
+
+        const idf = Math.log(1 + (this.documents.size - cardIds.size + 0.5) / (cardIds.size + 0.5))
+
+        cardIds.forEach(cardId => {
+          if (candidates && !candidates.has(cardId)) return
+          const document = this.documents.get(cardId)!
+          const tf = document.termFrequencies.get(term) || 0
+          const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / averageLength))
+          const score = weight * idf * ((tf * (BM25_K1 + 1)) / norm)
+
+          // 同一查询词元的多个展开取最高分
+          termScores.set(cardId, Math.max(termScores.get(cardId) || 0, score))
+          termMatches.add(cardId)
+
+          let terms = matchedTerms.get(cardId)
+          if (!terms) {
+            terms = new Set()
+            matchedTerms.set(cardId, terms)
+          }
+          terms.add(term)
+        })
+      }
+
+      candidates = termMatches
+      termScores.forEach((score, cardId) => {
+        scores.set(cardId, (scores.get(cardId) || 0) + score)
+      })
+
+      if (candidates.size === 0) return []
+    }
+
+    const results = Array.from(candidates || [])
+      .map(cardId => ({ cardId, score: scores.get(cardId) || 0 }))
+      .sort((a, b) => b.score - a.score)
+
+    const limited = options.limit ? results.slice(0, options.limit) : results
+
+    return limited.map(result => ({
+      ...result,
+      snippets: this.buildSnippets(
+        result.cardId,
+        matchedTerms.get(result.cardId) || new Set(),
+        options.snippetLength ?? DEFAULT_SNIPPET_LENGTH
+      )
+    }))
+  }
+
+  // 返回匹配卡片ID到得分的映射，便于与其他筛选条件组合
+  match(query: string): Map<string, number> {
+    const results = this.search(query, { snippetLength: 0 })
+    return new Map(results.map(result => [result.cardId, result.score]))
+  }
+
+  private expandTerm(queryTerm: string, usePrefix: boolean): Map<string, number> {
+    const expansions = new Map<string, number>()
+    if (this.postings.has(queryTerm)) {
+      expansions.set(queryTerm, 1)
+    }
+    if (!usePrefix) return expansions
+
+    const terms = this.getSortedTerms()
+    let index = lowerBound(terms, queryTerm)
+    let count = 0
+    while (index < terms.length && terms[index].startsWith(queryTerm) && count < MAX_PREFIX_EXPANSIONS) {
+      if (terms[index] !== queryTerm) {
+        expansions.set(terms[index], PREFIX_WEIGHT)
+        count++
+      }
+      index++
+    }
+
+    return expansions
+  }
+
+  private getSortedTerms(): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort()
+    }
+    return this.sortedTerms
+  }
+
+  /**
+   * 为命中的字段生成高亮片段
+   */
+  private buildSnippets(cardId: string, terms: Set<string>, snippetLength: number): SearchSnippet[] {
+    const document = this.documents.get(cardId)
+    if (!document || snippetLength <= 0) return []
+
+    const snippets: SearchSnippet[] = []
+
+    for (const field of SNIPPET_FIELDS) {
+      const text = document.fields[field]
+      if (!text) continue
+
+      const hits = tokenize(text, INDEX_TOKENIZE_OPTIONS).filter(token => terms.has(token.term))
+      if (hits.length === 0) continue
+
+      // 以第一个命中位置为中心截取窗口
+      const first = hits[0]
+      const windowStart = Math.max(0, Math.min(first.start - Math.floor(snippetLength / 3), text.length - snippetLength))
+      const windowEnd = Math.min(text.length, windowStart + snippetLength)
+
+      const segments: SnippetSegment[] = []
+      let cursor = windowStart
+      for (const hit of mergeRanges(hits)) {
+        if (hit.end <= windowStart || hit.start >= windowEnd) continue
+        const start = Math.max(hit.start, windowStart)
+        const end = Math.min(hit.end, windowEnd)
+        if (start > cursor) {
+          segments.push({ text: text.slice(cursor, start), highlight: false })
+        }
+        segments.push({ text: text.slice(start, end), highlight: true })
+        cursor = end
+      }
+      if (cursor < windowEnd) {
+        segments.push({ text: text.slice(cursor, windowEnd), highlight: false })
+      }
+
+      if (windowStart > 0) segments.unshift({ text: '…', highlight: false })
+      if (windowEnd < text.length) segments.push({ text: '…', highlight: false })
+
+      snippets.push({
+        field,
+        segments: segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ') }))
+      })
+    }
+
+    return snippets
+  }
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+function getVersion(card: Card): number {
+  return new Date(card.updatedAt).getTime() || 0
+}
+
+function lowerBound(values: string[], target: string): number {
+  let low = 0
+  let high = values.length
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    if (values[mid] < target) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+// 合并重叠的命中区间（CJK bigram 会相互重叠）
+function mergeRanges(hits: { start: number; end: number }[]): { start: number; end: number }[] {
+  const merged: { start: number; end: number }[] = []
+  for (const hit of [...hits].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && hit.start <= last.end) {
+      last.end = Math.max(last.end, hit.end)
+    } else {
+      merged.push({ start: hit.start, end: hit.end })
+    }
+  }
+  return merged
+}
+
+export const cardSearchIndex = new CardSearchIndex()
@@ -0,0 +1,597 @@
+/**
+ * 结构化搜索查询
+ *
+ * 解析搜索框中的查询语法并编译为 CardFilter，例如：
+ *   tag:work folder:"Project X" has:image todo:open updated:>2026-01-01 style:gradient source:example.com -tag:archived "exact phrase"
+ * 未识别的字段按普通文本处理，交给全文索引匹配；带 - 前缀的普通文本排除包含该词的卡片。
+ */
+
+import { Card, CardFilter, CardStyle, Folder } from '@/types/card'
+import { extractSearchFields } from './search-index'
+import { normalizeTerm, tokenizeTerms } from './search-tokenizer'
+
+// ============================================================================
+// 类型定义
+// ============================================================================
+
+export type SearchQueryKey = 'tag' | 'folder' | 'has' | 'todo' | 'updated' | 'style' | 'source'
+
+export interface SearchQueryClause {
+  type: 'text' | 'phrase' | 'field'
+  key?: SearchQueryKey
+  value: string
+  negated: boolean
+  start: number // 在输入中的起始偏移
+  end: number // 在输入中的结束偏移（不含）
+}
+
+export interface SearchQueryIssue {
+  clause: SearchQueryClause
+  message: string
+}
+
+// 由查询语言管理的过滤字段，重新编译时会整体替换
+export type SearchQueryFilter = Pick<
+  CardFilter,
+  'searchTerm' | 'excludeTerms' | 'allTags' | 'excludeTags' | 'folderIds' | 'hasImages' | 'hasTodos' | 'todoStatus' | 'dateRange' | 'styleType' | 'phrases' | 'source' | 'hasSource'
+>
+
+export interface CompiledSearchQuery {
+  filter: SearchQueryFilter
+  issues: SearchQueryIssue[]
+}
+
+export type FolderTreeNode = Folder & { children?: FolderTreeNode[] }
+
+export interface SearchQuerySuggestion {
+  label: string
+  description?: string
+  replacement: string
+  start: number // 替换输入中 [start, end) 的内容
+  end: number
+}
+
+export interface SearchSuggestionSources {
+  suggestTags: (input: string) => string[]
+  folderTree: FolderTreeNode[]
+}
+
+const QUERY_KEYS: SearchQueryKey[] = ['tag', 'folder', 'has', 'todo', 'updated', 'style', 'source']
+
+const QUERY_FILTER_FIELDS: (keyof SearchQueryFilter)[] = [
+  'searchTerm', 'excludeTerms', 'allTags', 'excludeTags', 'folderIds', 'hasImages', 'hasTodos', 'todoStatus', 'dateRange', 'styleType', 'phrases', 'source', 'hasSource'
+]
+
+const FIELD_VALUES: Partial<Record<SearchQueryKey, string[]>> = {
+  has: ['image', 'todo', 'source'],
+  todo: ['open', 'done'],
+  style: ['solid', 'gradient', 'glass']
+}
+
+export const SEARCH_QUERY_OPERATORS: { insert: string; description: string }[] = [
+  { insert: 'tag:', description: 'Cards with a tag' },
+  { insert: '-tag:', description: 'Exclude a tag' },
+  { insert: 'folder:', description: 'Cards in a folder and its subfolders' },
+  { insert: 'has:image', description: 'Cards with images' },
+  { insert: 'has:todo', description: 'Cards with todos' },
+  { insert: 'todo:open', description: 'Cards with unfinished todos' },
+  { insert: 'todo:done', description: 'Cards whose todos are all done' },
+  { insert: 'updated:>', description: 'Updated after a date, e.g. 2026-01-01 or 7d' },
+  { insert: 'style:', description: 'Cards with a style: solid, gradient or glass' },
+  { insert: 'source:', description: 'Clipped cards whose source address or site contains text' },
+  { insert: 'has:source', description: 'Cards clipped from a web page' }
+]
+
+const MIN_DATE = new Date(0)
+const MAX_DATE = new Date(8640000000000000)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 将查询文本切分为子句，保留每个子句在输入中的位置，供自动补全使用
+ */
+export function parseSearchQuery(input: string): SearchQueryClause[] {
+  const clauses: SearchQueryClause[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (isWhitespace(input[index])) {
+      index++
+      continue
+    }
+
+    const start = index
+    let negated = false
+    if (input[index] === '-' && index + 1 < input.length && !isWhitespace(input[index + 1])) {
+      negated = true
+      index++
+    }
+
+    // 精确短语
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index)
+      clauses.push({ type: 'phrase', value: quoted.value, negated, start, end: quoted.end })
+      index = quoted.end
+      continue
+    }
+
+    // 字段名
+    let end = index
+    while (end < input.length && !isWhitespace(input[end]) && input[end] !== ':' && input[end] !== '"') end++
+    const key = input.slice(index, end).toLowerCase() as SearchQueryKey
+
+    if (input[end] === ':' && QUERY_KEYS.includes(key)) {
+      const valueStart = end + 1
+      let value: string
+      let valueEnd: number
+
+      if (input[valueStart] === '"') {
+        const quoted = readQuoted(input, valueStart)
+        value = quoted.value
+        valueEnd = quoted.end
+      } else {
+        valueEnd = valueStart
+        while (valueEnd < input.length && !isWhitespace(input[valueEnd])) valueEnd++
+        value = input.slice(valueStart, valueEnd)
+      }
+
+      clauses.push({ type: 'field', key, value, negated, start, end: valueEnd })
+      index = valueEnd
+      continue
+    }
+
+    // 普通文本，值不含排除前缀
+    while (end < input.length && !isWhitespace(input[end])) end++
+    clauses.push({ type: 'text', value: input.slice(index, end), negated, start, end })
+    index = end
+  }
+
+  return clauses
+}
+
+// ============================================================================
+// 编译
+// ============================================================================
+
+/**
+ * 将查询文本编译为过滤条件，无法识别的值记录为问题并忽略
+ */
+export function compileSearchQuery(input: string, folderTree: FolderTreeNode[] = []): CompiledSearchQuery {
+  const words: string[] = []
+  const excludeTerms: string[] = []
+  const phrases: string[] = []
+  const allTags: string[] = []
+  const excludeTags: string[] = []
+  const issues: SearchQueryIssue[] = []
+  const filter: SearchQueryFilter = { searchTerm: '' }
+
+  const unsupportedNegation = (clause: SearchQueryClause) =>
+    issues.push({ clause, message: `"-${clause.key || 'phrase'}" is not supported` })
+
+  for (const clause of parseSearchQuery(input)) {
+    if (clause.type === 'text') {
+      if (!clause.negated) {
+        words.push(clause.value)
+      } else if (tokenizeTerms(clause.value).length === 0) {
+        issues.push({ clause, message: `Nothing to exclude in "-${clause.value}"` })
+      } else {
+        excludeTerms.push(clause.value)
+      }
+      continue
+    }
+
+    if (clause.type === 'phrase') {
+      const phrase = clause.value.trim()
+      if (clause.negated) {
+        unsupportedNegation(clause)
+      } else if (phrase) {
+        phrases.push(phrase)
+        // 短语中的词同时交给全文索引，用于缩小范围和排序
+        words.push(phrase)
+      }
+      continue
+    }
+
+    const value = clause.value.trim()
+    const lowerValue = value.toLowerCase()
+
+    switch (clause.key) {
+      case 'tag': {
+        const tag = value.replace(/^#/, '')
+        if (!tag) {
+          issues.push({ clause, message: 'Missing tag name' })
+        } else {
+          (clause.negated ? excludeTags : allTags).push(tag)
+        }
+        break
+      }
+
+      case 'folder': {
+        if (clause.negated) {
+          unsupportedNegation(clause)
+          break
+        }
+        const folderIds = resolveFolderIds(value, folderTree)
+        if (folderIds.length === 0) {
+          issues.push({ clause, message: `No folder named "${value}"` })
+        }
+        // 多个 folder: 条件取交集
+        filter.folderIds = filter.folderIds
+          ? filter.folderIds.filter(id => folderIds.includes(id))
+          : folderIds
+        break
+      }
+
+      case 'has':
+        if (lowerValue === 'image' || lowerValue === 'images') {
+          filter.hasImages = !clause.negated
+        } else if (lowerValue === 'todo' || lowerValue === 'todos') {
+          filter.hasTodos = !clause.negated
+        } else if (lowerValue === 'source') {
+          filter.hasSource = !clause.negated
+        } else {
+          issues.push({ clause, message: `Unknown value "${value}" for has:` })
+        }
+        break
+
+      case 'todo':
+        if (clause.negated) {
+          unsupportedNegation(clause)
+        } else if (lowerValue === 'open' || lowerValue === 'done') {
+          filter.todoStatus = lowerValue
+        } else {
+          issues.push({ clause, message: `Unknown value "${value}" for todo:` })
+        }
+        break
+
+      case 'updated': {
+        if (clause.negated) {
+          unsupportedNegation(clause)
+          break
+        }
+        const range = parseDateRange(value)
+        if (!range) {
+          issues.push({ clause, message: `Invalid date "${value}"` })
+        } else {
+          // 多个 updated: 条件取交集
+          filter.dateRange = filter.dateRange
+            ? {
+                start: new Date(Math.max(filter.dateRange.start.getTime(), range.start.getTime())),
+                end: new Date(Math.min(filter.dateRange.end.getTime(), range.end.getTime()))
+              }
+            : range
+        }
+        break
+      }
+
+      case 'style':
+        if (clause.negated) {
+          unsupportedNegation(clause)
+        } else if (FIELD_VALUES.style!.includes(lowerValue)) {
+          filter.styleType = lowerValue as CardStyle['type']
+        } else {
+          issues.push({ clause, message: `Unknown style "${value}"` })
+        }
+        break
+
+      case 'source':
+        if (clause.negated) {
+          unsupportedNegation(clause)
+        } else if (!value) {
+          issues.push({ clause, message: 'Missing source address' })
+        } else {
+          filter.source = lowerValue
+        }
+        break
+    }
+  }
+
+  filter.searchTerm = words.join(' ')
+  if (excludeTerms.length > 0) filter.excludeTerms = excludeTerms
+  if (allTags.length > 0) filter.allTags = allTags
+  if (excludeTags.length > 0) filter.excludeTags = excludeTags
+  if (phrases.length > 0) filter.phrases = phrases
+
+  return { filter, issues }
+}
+
+/**
+ * 用编译结果替换过滤条件中由查询语言管理的字段，保留侧边栏选择的标签和文件夹
+ */
+export function applySearchQuery(filter: CardFilter, query: SearchQueryFilter): CardFilter {
+  const next: CardFilter = { ...filter }
+  QUERY_FILTER_FIELDS.forEach(field => {
+    delete next[field]
+  })
+  return { ...next, ...query }
+}
+
+/**
+ * 检查卡片是否满足查询语言扩展的过滤条件（标签、文件夹、待办、来源、短语、排除的词）
+ */
+export function matchesSearchFilter(card: Pick<Card, 'frontContent' | 'backContent' | 'folderId' | 'source'>, filter: CardFilter): boolean {
+  if (filter.allTags?.length || filter.excludeTags?.length) {
+    const cardTags = new Set([...card.frontContent.tags, ...card.backContent.tags].map(tag => tag.toLowerCase()))
+    if (filter.allTags && !filter.allTags.every(tag => cardTags.has(tag.toLowerCase()))) return false
+    if (filter.excludeTags && filter.excludeTags.some(tag => cardTags.has(tag.toLowerCase()))) return false
+  }
+
+  if (filter.folderIds && !(card.folderId && filter.folderIds.includes(card.folderId))) return false
+
+  if (filter.hasTodos !== undefined || filter.todoStatus) {
+    const todos = [...(card.frontContent.todos || []), ...(card.backContent.todos || [])]
+    if (filter.hasTodos !== undefined && (todos.length > 0) !== filter.hasTodos) return false
+    if (filter.todoStatus === 'open' && !todos.some(todo => !todo.completed)) return false
+    if (filter.todoStatus === 'done' && (todos.length === 0 || todos.some(todo => !todo.completed))) return false
+  }
+
+  if (filter.hasSource !== undefined && Boolean(card.source) !== filter.hasSource) return false
+  if (filter.source) {
+    const source = card.source ? `${card.source.url}\n${card.source.siteName ?? ''}`.toLowerCase() : ''
+    if (!source.includes(filter.source.toLowerCase())) return false
+  }
+
+  if (filter.phrases && filter.phrases.length > 0) {
+    const fields = extractSearchFields(card)
+    const text = normalizePhrase(Object.values(fields).join('\n'))
+    if (!filter.phrases.every(phrase => text.includes(normalizePhrase(phrase)))) return false
+  }
+
+  if (filter.excludeTerms && filter.excludeTerms.length > 0) {
+    // 与建立索引时的分词一致，排除词的全部词元都出现在卡片中才算包含
+    const fields = extractSearchFields(card)
+    const terms = new Set(tokenizeTerms(Object.values(fields).join('\n'), { cjkUnigrams: true }))
+    const excluded = filter.excludeTerms.some(word => {
+      const wordTerms = tokenizeTerms(word)
+      return wordTerms.length > 0 && wordTerms.every(term => terms.has(term))
+    })
+    if (excluded) return false
+  }
+
+  return true
+}
+
+/**
+ * 检查卡片是否满足除全文搜索以外的全部过滤条件，全文搜索由调用方通过索引匹配
+ */
+export function matchesCardFilter(card: Card, filter: CardFilter): boolean {
+  // 包含任一选中的标签
+  if (filter.tags.length > 0) {
+    const cardTags = [...card.frontContent.tags, ...card.backContent.tags]
+    if (!filter.tags.some(tag => cardTags.includes(tag))) return false
+  }
+
+  if (filter.folderId && card.folderId !== filter.folderId) return false
+
+  if (filter.dateRange) {
+    const cardDate = new Date(card.updatedAt)
+    if (cardDate < filter.dateRange.start || cardDate > filter.dateRange.end) return false
+  }
+
+  if (filter.styleType && card.style.type !== filter.styleType) return false
+
+  if (filter.hasImages !== undefined) {
+    const hasImages = card.frontContent.images.length > 0 || card.backContent.images.length > 0
+    if (hasImages !== filter.hasImages) return false
+  }
+
+  return matchesSearchFilter(card, filter)
+}
+
+// ============================================================================
+// 自动补全
+// ============================================================================
+
+/**
+ * 根据光标所在的子句生成补全建议
+ */
+export function getSearchSuggestions(
+  input: string,
+  cursor: number,
+  sources: SearchSuggestionSources,
+  limit = 8
+): SearchQuerySuggestion[] {
+  const clause = parseSearchQuery(input).find(item => item.start <= cursor && cursor <= item.end)
+
+  // 输入为空或光标处没有子句时提示可用的运算符
+  if (!clause) {
+    if (input.trim()) return []
+    return SEARCH_QUERY_OPERATORS.map(operator => ({
+      label: operator.insert,
+      description: operator.description,
+      replacement: operator.insert,
+      start: cursor,
+      end: cursor
+    })).slice(0, limit)
+  }
+
+  const { start, end } = clause
+  const prefix = clause.negated ? '-' : ''
+
+  if (clause.type === 'text') {
+    const typed = `${prefix}${clause.value}`.toLowerCase()
+    return SEARCH_QUERY_OPERATORS
+      .filter(operator => operator.insert.startsWith(typed) && operator.insert !== typed)
+      .map(operator => ({
+        label: operator.insert,
+        description: operator.description,
+        replacement: operator.insert.endsWith(':') || operator.insert.endsWith('>') ? operator.insert : `${operator.insert} `,
+        start,
+        end
+      }))
+      .slice(0, limit)
+  }
+
+  if (clause.type !== 'field' || !clause.key) return []
+
+  const typed = clause.value
+  const lowerTyped = typed.toLowerCase()
+
+  switch (clause.key) {
+    case 'tag':
+      return sources.suggestTags(typed.replace(/^#/, ''))
+        .filter(name => name !== typed)
+        .slice(0, limit)
+        .map(name => ({
+          label: name,
+          description: clause.negated ? 'Exclude tag' : 'Tag',
+          replacement: `${prefix}tag:${quoteValue(name)} `,
+          start,
+          end
+        }))
+
+    case 'folder':
+      return flattenFolderTree(sources.folderTree)
+        .filter(({ path }) => path.toLowerCase().includes(lowerTyped) && path !== typed)
+        .slice(0, limit)
+        .map(({ path }) => ({
+          label: path,
+          description: 'Folder',
+          replacement: `${prefix}folder:${quoteValue(path)} `,
+          start,
+          end
+        }))
+
+    default:
+      return (FIELD_VALUES[clause.key] || [])
+        .filter(value => value.startsWith(lowerTyped) && value !== lowerTyped)
+        .map(value => ({
+          label: `${clause.key}:${value}`,
+          replacement: `${prefix}${clause.key}:${value} `,
+          start,
+          end
+        }))
+  }
+}
+
+/**
+ * 展开文件夹树为带完整路径的列表（路径以 / 分隔）
+ */
+export function flattenFolderTree(tree: FolderTreeNode[], parentPath = ''): { folder: FolderTreeNode; path: string }[] {
+  return tree.flatMap(folder => {
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name
+    return [{ folder, path }, ...flattenFolderTree(folder.children || [], path)]
+  })
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+function isWhitespace(char: string): boolean {
+  return /\s/.test(char)
+}
+
+// 读取引号内的内容，未闭合时读到末尾
+function readQuoted(input: string, quoteIndex: number): { value: string; end: number } {
+  const close = input.indexOf('"', quoteIndex + 1)
+  if (close === -1) {
+    return { value: input.slice(quoteIndex + 1), end: input.length }
+  }
+  return { value: input.slice(quoteIndex + 1, close), end: close + 1 }
+}
+
+function quoteValue(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+function normalizePhrase(text: string): string {
+  return normalizeTerm(text).replace(/\s+/g, ' ')
+}
+
+// 按名称或完整路径匹配文件夹，并包含所有子文件夹
+function resolveFolderIds(value: string, folderTree: FolderTreeNode[]): string[] {
+  const target = value.toLowerCase()
+  if (!target) return []
+
+  const ids = new Set<string>()
+  const collect = (folder: FolderTreeNode) => {
+    ids.add(folder.id)
+    ;(folder.children || []).forEach(collect)
+  }
+
+  flattenFolderTree(folderTree)
+    .filter(({ folder, path }) => folder.name.toLowerCase() === target || path.toLowerCase() === target)
+    .forEach(({ folder }) => collect(folder))
+
+  return Array.from(ids)
+}
+
+/**
+ * 解析日期条件：2026-01-01、>2026-01-01、<=2026-01、2026-01-01..2026-02-01、>7d（最近 7 天）
+ */
+function parseDateRange(value: string): { start: Date; end: Date } | null {
+  const rangeParts = value.split('..')
+  if (rangeParts.length === 2) {
+    const from = parseDateValue(rangeParts[0])
+    const to = parseDateValue(rangeParts[1])
+    if (!from || !to) return null
+    return { start: from.start, end: new Date(to.end.getTime() - 1) }
+  }
+
+  const match = value.match(/^(>=|<=|>|<)?(.+)$/)
+  if (!match) return null
+
+  const date = parseDateValue(match[2])
+  if (!date) return null
+
+  switch (match[1]) {
+    case '>':
+      return { start: date.end, end: MAX_DATE }
+    case '>=':
+      return { start: date.start, end: MAX_DATE }
+    case '<':
+      return { start: MIN_DATE, end: new Date(date.start.getTime() - 1) }
+    case '<=':
+      return { start: MIN_DATE, end: new Date(date.end.getTime() - 1) }
+    default:
+      return { start: date.start, end: new Date(date.end.getTime() - 1) }
+  }
+}
+
+// 返回日期值覆盖的区间 [start, end)，相对时间为一个时间点
+function parseDateValue(value: string): { start: Date; end: Date } | null {
+  const text = value.trim().toLowerCase()
+
+  const relative = text.match(/^(\d+)([dwmy])$/)
+  if (relative) {
+    const amount = parseInt(relative[1], 10)
+    const date = new Date()
+    switch (relative[2]) {
+      case 'd': date.setTime(date.getTime() - amount * DAY_MS); break
+      case 'w': date.setTime(date.getTime() - amount * 7 * DAY_MS); break
+      case 'm': date.setMonth(date.getMonth() - amount); break
+      case 'y': date.setFullYear(date.getFullYear() - amount); break
+    }
+    return { start: date, end: date }
+  }
+
+  if (text === 'today' || text === 'yesterday') {
+    const start = new Date()
+    start.setHours(0, 0, 0, 0)
+    if (text === 'yesterday') start.setDate(start.getDate() - 1)
+    const end = new Date(start)
+    end.setDate(end.getDate() + 1)
+    return { start, end }
+  }
+
+  const absolute = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/)
+  if (absolute) {
+    const year = parseInt(absolute[1], 10)
+    const month = parseInt(absolute[2], 10) - 1
+    if (month < 0 || month > 11) return null
+
+    if (absolute[3]) {
+      const day = parseInt(absolute[3], 10)
+      const start = new Date(year, month, day)
+      if (start.getMonth() !== month) return null
+      return { start, end: new Date(year, month, day + 1) }
+    }
+    return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) }
+  }
+
+  return null
+}
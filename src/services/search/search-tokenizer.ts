@@ -0,0 +1,90 @@
+/**
+ * 全文搜索分词器
+ *
+ * 拉丁文字按单词切分并转为小写、去除变音符号；
+ * 中日韩文字没有空格分隔，按相邻两字（bigram）切分，单字片段保留为单字词元；
+ * 建立索引时连续片段中的每个字也作为单字词元，使单字查询能命中片段末尾的字。
+ */
+
+export interface TokenizeOptions {
+  cjkUnigrams?: boolean // 为连续的中日韩片段同时生成单字词元，用于建立索引
+}
+
+export interface SearchToken {
+  term: string
+  start: number // 在原文中的起始偏移
+  end: number // 在原文中的结束偏移（不含）
+}
+
+// 中日韩字符范围：假名、CJK 统一表意文字及扩展 A、兼容表意文字、韩文音节
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/
+// 组合变音符号（如 NFD 形式的 café）属于所在单词，偏移仍对应原文
+const WORD_CHAR = /[\p{L}\p{M}\p{N}]/u
+
+export function isCjkChar(char: string): boolean {
+  return CJK_CHAR.test(char)
+}
+
+// 统一大小写并去除变音符号（café -> cafe）
+export function normalizeTerm(term: string): string {
+  return term
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+}
+
+/**
+ * 将文本切分为带位置的词元
+ */
+export function tokenize(text: string, options: TokenizeOptions = {}): SearchToken[] {
+  const tokens: SearchToken[] = []
+  if (!text) return tokens
+
+  let index = 0
+  while (index < text.length) {
+    const char = text[index]
+
+    if (isCjkChar(char)) {
+      // 收集连续的中日韩字符
+      let end = index
+      while (end < text.length && isCjkChar(text[end])) end++
+
+      if (end - index === 1) {
+        tokens.push({ term: char, start: index, end: index + 1 })
+      } else {
+        for (let i = index; i < end; i++) {
+          if (options.cjkUnigrams) {
+            tokens.push({ term: text[i], start: i, end: i + 1 })
+          }
+          if (i < end - 1) {
+            tokens.push({ term: text.slice(i, i + 2), start: i, end: i + 2 })
+          }
+        }
+      }
+      index = end
+      continue
+    }
+
+    if (WORD_CHAR.test(char)) {
+      // 收集连续的非中日韩单词字符
+      let end = index
+      while (end < text.length && WORD_CHAR.test(text[end]) && !isCjkChar(text[end])) end++
+
+      const term = normalizeTerm(text.slice(index, end))
+      if (term) {
+        tokens.push({ term, start: index, end })
+      }
+      index = end
+      continue
+    }
+
+    index++
+  }
+
+  return tokens
+}
+
+// 仅返回词元文本
+export function tokenizeTerms(text: string, options: TokenizeOptions = {}): string[] {
+  return tokenize(text, options).map(token => token.term)
+}
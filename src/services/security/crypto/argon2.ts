@@ -0,0 +1,323 @@
+/**
+ * Argon2id 密钥派生（RFC 9106，版本 0x13）
+ *
+ * 纯 TypeScript 实现，各通道在同一线程内依次计算。
+ * 内存以 Uint32Array 保存，每个 1 KiB 块为 256 个 32 位字，64 位字低位在前。
+ */
+
+import { blake2b } from './blake2b'
+
+export interface Argon2Params {
+  memory: number // 内存开销（KiB）
+  iterations: number // 迭代次数
+  parallelism: number // 通道数
+  hashLength: number // 输出字节数
+  secret?: Uint8Array
+  associatedData?: Uint8Array
+}
+
+// OWASP 推荐的最低配置：19 MiB、2 次迭代、单通道
+export const DEFAULT_ARGON2_PARAMS: Omit<Argon2Params, 'hashLength'> = {
+  memory: 19456,
+  iterations: 2,
+  parallelism: 1
+}
+
+const ARGON2_VERSION = 0x13
+const ARGON2ID = 2
+const SYNC_POINTS = 4
+const BLOCK_WORDS = 256 // 32 位字
+const ADDRESSES_PER_BLOCK = 128
+
+function le32(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff])
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
+
+/**
+ * 变长哈希 H'
+ */
+function hashLong(length: number, input: Uint8Array): Uint8Array {
+  const prefix = le32(length)
+  if (length <= 64) {
+    return blake2b(length, prefix, input)
+  }
+
+  const out = new Uint8Array(length)
+  const rounds = Math.ceil(length / 32) - 2
+  let block = blake2b(64, prefix, input)
+  out.set(block.subarray(0, 32), 0)
+  for (let i = 1; i < rounds; i++) {
+    block = blake2b(64, block)
+    out.set(block.subarray(0, 32), i * 32)
+  }
+  out.set(blake2b(length - 32 * rounds, block), rounds * 32)
+  return out
+}
+
+// 32 位整数乘积的高、低 32 位
+let mulLow = 0
+let mulHigh = 0
+function multiply32(a: number, b: number): void {
+  const aLow = a & 0xffff
+  const aHigh = a >>> 16
+  const bLow = b & 0xffff
+  const bHigh = b >>> 16
+  const ll = aLow * bLow
+  const lh = aLow * bHigh
+  const hl = aHigh * bLow
+  const middle = (ll >>> 16) + (lh & 0xffff) + (hl & 0xffff)
+  mulLow = ((middle << 16) | (ll & 0xffff)) >>> 0
+  mulHigh = (aHigh * bHigh + (lh >>> 16) + (hl >>> 16) + (middle >>> 16)) >>> 0
+}
+
+// a = a + b + 2 * lo(a) * lo(b)，下标为 64 位字低位所在的位置
+function blaMka(r: Uint32Array, a: number, b: number): void {
+  multiply32(r[a], r[b])
+  const productHigh = ((mulHigh << 1) | (mulLow >>> 31)) >>> 0
+  const productLow = (mulLow << 1) >>> 0
+
+  let low = r[a] + r[b]
+  let high = r[a + 1] + r[b + 1] + (low >= 0x100000000 ? 1 : 0)
+  low = low >>> 0
+  const sum = low + productLow
+  high = high + productHigh + (sum >= 0x100000000 ? 1 : 0)
+  r[a] = sum
+  r[a + 1] = high
+}
+
+// x = (x ^ y) >>> bits
+function xorRotate(r: Uint32Array, x: number, y: number, bits: number): void {
+  const low = r[x] ^ r[y]
+  const high = r[x + 1] ^ r[y + 1]
+  if (bits === 32) {
+    r[x] = high
+    r[x + 1] = low
+  } else if (bits < 32) {
+    r[x] = (low >>> bits) | (high << (32 - bits))
+    r[x + 1] = (high >>> bits) | (low << (32 - bits))
+  } else {
+    const shift = bits - 32
+    r[x] = (high >>> shift) | (low << (32 - shift))
+    r[x + 1] = (low >>> shift) | (high << (32 - shift))
+  }
+}
+
+function gb(r: Uint32Array, a: number, b: number, c: number, d: number): void {
+  blaMka(r, a, b)
+  xorRotate(r, d, a, 32)
+  blaMka(r, c, d)
+  xorRotate(r, b, c, 24)
+  blaMka(r, a, b)
+  xorRotate(r, d, a, 16)
+  blaMka(r, c, d)
+  xorRotate(r, b, c, 63)
+}
+
+// 置换 P，参数为 16 个 64 位字的低位下标
+function permute(r: Uint32Array, w: number[]): void {
+  gb(r, w[0], w[4], w[8], w[12])
+  gb(r, w[1], w[5], w[9], w[13])
+  gb(r, w[2], w[6], w[10], w[14])
+  gb(r, w[3], w[7], w[11], w[15])
+  gb(r, w[0], w[5], w[10], w[15])
+  gb(r, w[1], w[6], w[11], w[12])
+  gb(r, w[2], w[7], w[8], w[13])
+  gb(r, w[3], w[4], w[9], w[14])
+}
+
+// 预先计算按行和按列置换时的字下标
+const ROW_INDEXES: number[][] = []
+const COLUMN_INDEXES: number[][] = []
+for (let i = 0; i < 8; i++) {
+  ROW_INDEXES.push(Array.from({ length: 16 }, (_, j) => (16 * i + j) * 2))
+  COLUMN_INDEXES.push(Array.from({ length: 16 }, (_, j) => (2 * i + 16 * (j >> 1) + (j & 1)) * 2))
+}
+
+const blockR = new Uint32Array(BLOCK_WORDS)
+const blockTmp = new Uint32Array(BLOCK_WORDS)
+
+/**
+ * 压缩函数 G：next = P(prev ^ ref) ^ prev ^ ref，withXor 时再与 next 原值异或
+ */
+function fillBlock(
+  memory: Uint32Array,
+  prevOffset: number,
+  refMemory: Uint32Array,
+  refOffset: number,
+  next: Uint32Array,
+  nextOffset: number,
+  withXor: boolean
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    blockR[i] = memory[prevOffset + i] ^ refMemory[refOffset + i]
+    blockTmp[i] = withXor ? blockR[i] ^ next[nextOffset + i] : blockR[i]
+  }
+  ROW_INDEXES.forEach(indexes => permute(blockR, indexes))
+  COLUMN_INDEXES.forEach(indexes => permute(blockR, indexes))
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    next[nextOffset + i] = blockTmp[i] ^ blockR[i]
+  }
+}
+
+function blockToBytes(memory: Uint32Array, offset: number): Uint8Array {
+  const bytes = new Uint8Array(BLOCK_WORDS * 4)
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    const word = memory[offset + i]
+    bytes[i * 4] = word
+    bytes[i * 4 + 1] = word >>> 8
+    bytes[i * 4 + 2] = word >>> 16
+    bytes[i * 4 + 3] = word >>> 24
+  }
+  return bytes
+}
+
+function bytesToBlock(bytes: Uint8Array, memory: Uint32Array, offset: number): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    memory[offset + i] = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24)
+  }
+}
+
+/**
+ * 计算 Argon2id 哈希
+ */
+export function argon2id(password: Uint8Array, salt: Uint8Array, params: Argon2Params): Uint8Array {
+  const { iterations, parallelism: lanes, hashLength } = params
+  const secret = params.secret ?? new Uint8Array(0)
+  const associatedData = params.associatedData ?? new Uint8Array(0)
+
+  if (salt.length < 8) throw new Error('Argon2 salt must be at least 8 bytes')
+  if (lanes < 1 || iterations < 1 || hashLength < 4) throw new Error('Invalid Argon2 parameters')
+  if (params.memory < 8 * lanes) throw new Error('Argon2 memory must be at least 8 KiB per lane')
+
+  const segmentLength = Math.floor(params.memory / (SYNC_POINTS * lanes))
+  const laneLength = segmentLength * SYNC_POINTS
+  const blockCount = laneLength * lanes
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS)
+
+  const h0 = blake2b(
+    64,
+    le32(lanes), le32(hashLength), le32(params.memory), le32(iterations), le32(ARGON2_VERSION), le32(ARGON2ID),
+    le32(password.length), password,
+    le32(salt.length), salt,
+    le32(secret.length), secret,
+    le32(associatedData.length), associatedData
+  )
+
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let column = 0; column < 2; column++) {
+      const block = hashLong(BLOCK_WORDS * 4, concat(h0, le32(column), le32(lane)))
+      bytesToBlock(block, memory, (lane * laneLength + column) * BLOCK_WORDS)
+    }
+  }
+
+  const zeroBlock = new Uint32Array(BLOCK_WORDS)
+  const inputBlock = new Uint32Array(BLOCK_WORDS)
+  const addressBlock = new Uint32Array(BLOCK_WORDS)
+
+  const nextAddresses = () => {
+    inputBlock[12]++ // 计数器为第 7 个 64 位字
+    fillBlock(zeroBlock, 0, inputBlock, 0, addressBlock, 0, false)
+    fillBlock(zeroBlock, 0, addressBlock, 0, addressBlock, 0, false)
+  }
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        // 前半程与数据无关的寻址（抵抗侧信道），其余与数据相关（抵抗时间-内存折衷）
+        const dataIndependent = pass === 0 && slice < SYNC_POINTS / 2
+        if (dataIndependent) {
+          inputBlock.fill(0)
+          inputBlock[0] = pass
+          inputBlock[2] = lane
+          inputBlock[4] = slice
+          inputBlock[6] = blockCount
+          inputBlock[8] = iterations
+          inputBlock[10] = ARGON2ID
+        }
+
+        let startIndex = 0
+        if (pass === 0 && slice === 0) {
+          startIndex = 2
+          if (dataIndependent) nextAddresses()
+        }
+
+        let currentOffset = lane * laneLength + slice * segmentLength + startIndex
+        let prevOffset = currentOffset % laneLength === 0 ? currentOffset + laneLength - 1 : currentOffset - 1
+
+        for (let index = startIndex; index < segmentLength; index++, currentOffset++, prevOffset++) {
+          if (currentOffset % laneLength === 1) {
+            prevOffset = currentOffset - 1
+          }
+
+          let randLow: number
+          let randHigh: number
+          if (dataIndependent) {
+            if (index % ADDRESSES_PER_BLOCK === 0) nextAddresses()
+            randLow = addressBlock[(index % ADDRESSES_PER_BLOCK) * 2]
+            randHigh = addressBlock[(index % ADDRESSES_PER_BLOCK) * 2 + 1]
+          } else {
+            randLow = memory[prevOffset * BLOCK_WORDS]
+            randHigh = memory[prevOffset * BLOCK_WORDS + 1]
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : randHigh % lanes
+          const sameLane = refLane === lane
+
+          let referenceAreaSize: number
+          if (pass === 0) {
+            if (slice === 0) {
+              referenceAreaSize = index - 1
+            } else if (sameLane) {
+              referenceAreaSize = slice * segmentLength + index - 1
+            } else {
+              referenceAreaSize = slice * segmentLength + (index === 0 ? -1 : 0)
+            }
+          } else if (sameLane) {
+            referenceAreaSize = laneLength - segmentLength + index - 1
+          } else {
+            referenceAreaSize = laneLength - segmentLength + (index === 0 ? -1 : 0)
+          }
+
+          multiply32(randLow, randLow)
+          multiply32(referenceAreaSize, mulHigh)
+          const relativePosition = referenceAreaSize - 1 - mulHigh
+          const startPosition = pass !== 0 && slice !== SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0
+          const refIndex = (startPosition + relativePosition) % laneLength
+
+          fillBlock(
+            memory,
+            prevOffset * BLOCK_WORDS,
+            memory,
+            (refLane * laneLength + refIndex) * BLOCK_WORDS,
+            memory,
+            currentOffset * BLOCK_WORDS,
+            pass !== 0
+          )
+        }
+      }
+    }
+  }
+
+  // 各通道最后一块异或后求最终哈希
+  const final = memory.slice((laneLength - 1) * BLOCK_WORDS, laneLength * BLOCK_WORDS)
+  for (let lane = 1; lane < lanes; lane++) {
+    const offset = (lane * laneLength + laneLength - 1) * BLOCK_WORDS
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      final[i] ^= memory[offset + i]
+    }
+  }
+
+  const tag = hashLong(hashLength, blockToBytes(final, 0))
+  memory.fill(0)
+  return tag
+}
@@ -0,0 +1,161 @@
+/**
+ * BLAKE2b 哈希（RFC 7693），Argon2 的基础哈希函数
+ *
+ * 64 位运算用两个 32 位整数表示（低位在前），输出长度 1-64 字节。
+ */
+
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+])
+
+const SIGMA = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+  11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4,
+  7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8,
+  9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13,
+  2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9,
+  12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11,
+  13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10,
+  6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5,
+  10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0,
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3
+].map(index => index * 2)
+
+const v = new Uint32Array(32)
+const m = new Uint32Array(32)
+
+// v[a] += v[b]
+function add64(a: number, b: number): void {
+  const low = v[a] + v[b]
+  v[a + 1] = v[a + 1] + v[b + 1] + (low >= 0x100000000 ? 1 : 0)
+  v[a] = low
+}
+
+// v[a] += (high, low)
+function add64Word(a: number, low: number, high: number): void {
+  const sum = v[a] + low
+  v[a + 1] = v[a + 1] + high + (sum >= 0x100000000 ? 1 : 0)
+  v[a] = sum
+}
+
+function mix(a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add64(a, b)
+  add64Word(a, m[x], m[x + 1])
+
+  // d = (d ^ a) >>> 32
+  let low = v[d] ^ v[a]
+  let high = v[d + 1] ^ v[a + 1]
+  v[d] = high
+  v[d + 1] = low
+
+  add64(c, d)
+
+  // b = (b ^ c) >>> 24
+  low = v[b] ^ v[c]
+  high = v[b + 1] ^ v[c + 1]
+  v[b] = (low >>> 24) ^ (high << 8)
+  v[b + 1] = (high >>> 24) ^ (low << 8)
+
+  add64(a, b)
+  add64Word(a, m[y], m[y + 1])
+
+  // d = (d ^ a) >>> 16
+  low = v[d] ^ v[a]
+  high = v[d + 1] ^ v[a + 1]
+  v[d] = (low >>> 16) ^ (high << 16)
+  v[d + 1] = (high >>> 16) ^ (low << 16)
+
+  add64(c, d)
+
+  // b = (b ^ c) >>> 63
+  low = v[b] ^ v[c]
+  high = v[b + 1] ^ v[c + 1]
+  v[b] = (high >>> 31) ^ (low << 1)
+  v[b + 1] = (low >>> 31) ^ (high << 1)
+}
+
+class Blake2b {
+  private h = new Uint32Array(16)
+  private buffer = new Uint8Array(128)
+  private bufferLength = 0
+  private counter = 0
+
+  constructor(private readonly outputLength: number) {
+    if (outputLength < 1 || outputLength > 64) {
+      throw new Error('BLAKE2b output length must be between 1 and 64 bytes')
+    }
+    this.h.set(IV)
+    this.h[0] ^= 0x01010000 ^ outputLength
+  }
+
+  update(data: Uint8Array): this {
+    for (let i = 0; i < data.length; i++) {
+      if (this.bufferLength === 128) {
+        this.counter += 128
+        this.compress(false)
+        this.bufferLength = 0
+      }
+      this.buffer[this.bufferLength++] = data[i]
+    }
+    return this
+  }
+
+  digest(): Uint8Array {
+    this.counter += this.bufferLength
+    this.buffer.fill(0, this.bufferLength)
+    this.compress(true)
+
+    const out = new Uint8Array(this.outputLength)
+    for (let i = 0; i < this.outputLength; i++) {
+      out[i] = this.h[i >> 2] >>> (8 * (i & 3))
+    }
+    return out
+  }
+
+  private compress(last: boolean): void {
+    for (let i = 0; i < 16; i++) {
+      v[i] = this.h[i]
+      v[i + 16] = IV[i]
+    }
+
+    v[24] ^= this.counter
+    v[25] ^= this.counter / 0x100000000
+    if (last) {
+      v[28] = ~v[28]
+      v[29] = ~v[29]
+    }
+
+    for (let i = 0; i < 32; i++) {
+      const offset = i * 4
+      m[i] = this.buffer[offset] ^ (this.buffer[offset + 1] << 8) ^ (this.buffer[offset + 2] << 16) ^ (this.buffer[offset + 3] << 24)
+    }
+
+    for (let round = 0; round < 12; round++) {
+      const s = round * 16
+      mix(0, 8, 16, 24, SIGMA[s], SIGMA[s + 1])
+      mix(2, 10, 18, 26, SIGMA[s + 2], SIGMA[s + 3])
+      mix(4, 12, 20, 28, SIGMA[s + 4], SIGMA[s + 5])
+      mix(6, 14, 22, 30, SIGMA[s + 6], SIGMA[s + 7])
+      mix(0, 10, 20, 30, SIGMA[s + 8], SIGMA[s + 9])
+      mix(2, 12, 22, 24, SIGMA[s + 10], SIGMA[s + 11])
+      mix(4, 14, 16, 26, SIGMA[s + 12], SIGMA[s + 13])
+      mix(6, 8, 18, 28, SIGMA[s + 14], SIGMA[s + 15])
+    }
+
+    for (let i = 0; i < 16; i++) {
+      this.h[i] ^= v[i] ^ v[i + 16]
+    }
+  }
+}
+
+/**
+ * 计算 BLAKE2b 摘要，多个输入依次拼接
+ */
+export function blake2b(outputLength: number, ...inputs: Uint8Array[]): Uint8Array {
+  const hash = new Blake2b(outputLength)
+  inputs.forEach(input => hash.update(input))
+  return hash.digest()
+}
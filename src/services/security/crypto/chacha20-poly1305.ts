@@ -0,0 +1,168 @@
+/**
+ * ChaCha20-Poly1305 认证加密（RFC 8439）
+ *
+ * WebCrypto 不支持 ChaCha20-Poly1305，这里为纯 TypeScript 实现，加解密都是同步的。
+ * 密钥 32 字节，nonce 12 字节，密文末尾附带 16 字节认证标签。
+ */
+
+export const CHACHA20_KEY_LENGTH = 32
+export const CHACHA20_NONCE_LENGTH = 12
+export const POLY1305_TAG_LENGTH = 16
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 16)
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 12)
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 8)
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 7)
+}
+
+/**
+ * 生成一个 64 字节的密钥流块
+ */
+function chachaBlock(state: Uint32Array, out: Uint8Array): void {
+  const x = state.slice()
+  for (let i = 0; i < 10; i++) {
+    quarterRound(x, 0, 4, 8, 12)
+    quarterRound(x, 1, 5, 9, 13)
+    quarterRound(x, 2, 6, 10, 14)
+    quarterRound(x, 3, 7, 11, 15)
+    quarterRound(x, 0, 5, 10, 15)
+    quarterRound(x, 1, 6, 11, 12)
+    quarterRound(x, 2, 7, 8, 13)
+    quarterRound(x, 3, 4, 9, 14)
+  }
+  for (let i = 0; i < 16; i++) {
+    const word = (x[i] + state[i]) >>> 0
+    out[i * 4] = word
+    out[i * 4 + 1] = word >>> 8
+    out[i * 4 + 2] = word >>> 16
+    out[i * 4 + 3] = word >>> 24
+  }
+}
+
+function chacha20(key: Uint8Array, nonce: Uint8Array, counter: number, input: Uint8Array): Uint8Array<ArrayBuffer> {
+  const state = new Uint32Array(16)
+  state.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574])
+  for (let i = 0; i < 8; i++) state[4 + i] = readUint32(key, i * 4)
+  state[12] = counter
+  for (let i = 0; i < 3; i++) state[13 + i] = readUint32(nonce, i * 4)
+
+  const output = new Uint8Array(input.length)
+  const keystream = new Uint8Array(64)
+  for (let offset = 0; offset < input.length; offset += 64) {
+    chachaBlock(state, keystream)
+    state[12]++
+    const end = Math.min(64, input.length - offset)
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = input[offset + i] ^ keystream[i]
+    }
+  }
+  return output
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  let value = BigInt(0)
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(bytes[i])
+  }
+  return value
+}
+
+const POLY1305_P = (BigInt(1) << BigInt(130)) - BigInt(5)
+const POLY1305_CLAMP = BigInt('0x0ffffffc0ffffffc0ffffffc0fffffff')
+const MASK_128 = (BigInt(1) << BigInt(128)) - BigInt(1)
+
+function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const r = toBigInt(key.subarray(0, 16)) & POLY1305_CLAMP
+  const s = toBigInt(key.subarray(16, 32))
+
+  let accumulator = BigInt(0)
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const block = message.subarray(offset, offset + 16)
+    const n = toBigInt(block) | (BigInt(1) << BigInt(block.length * 8))
+    accumulator = ((accumulator + n) * r) % POLY1305_P
+  }
+  accumulator = (accumulator + s) & MASK_128
+
+  const tag = new Uint8Array(POLY1305_TAG_LENGTH)
+  for (let i = 0; i < POLY1305_TAG_LENGTH; i++) {
+    tag[i] = Number(accumulator & BigInt(0xff))
+    accumulator >>= BigInt(8)
+  }
+  return tag
+}
+
+function pad16(length: number): number {
+  return (16 - (length % 16)) % 16
+}
+
+function computeTag(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array): Uint8Array {
+  const oneTimeKey = chacha20(key, nonce, 0, new Uint8Array(32))
+  const macData = new Uint8Array(aad.length + pad16(aad.length) + ciphertext.length + pad16(ciphertext.length) + 16)
+  macData.set(aad, 0)
+  const ciphertextOffset = aad.length + pad16(aad.length)
+  macData.set(ciphertext, ciphertextOffset)
+  const view = new DataView(macData.buffer)
+  const lengthOffset = ciphertextOffset + ciphertext.length + pad16(ciphertext.length)
+  view.setUint32(lengthOffset, aad.length, true)
+  view.setUint32(lengthOffset + 8, ciphertext.length, true)
+  return poly1305(oneTimeKey, macData)
+}
+
+function assertParams(key: Uint8Array, nonce: Uint8Array): void {
+  if (key.length !== CHACHA20_KEY_LENGTH) throw new Error('ChaCha20-Poly1305 key must be 32 bytes')
+  if (nonce.length !== CHACHA20_NONCE_LENGTH) throw new Error('ChaCha20-Poly1305 nonce must be 12 bytes')
+}
+
+/**
+ * 加密，返回密文 + 认证标签
+ */
+export function chacha20Poly1305Encrypt(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array<ArrayBuffer> {
+  assertParams(key, nonce)
+  const ciphertext = chacha20(key, nonce, 1, plaintext)
+  const result = new Uint8Array(ciphertext.length + POLY1305_TAG_LENGTH)
+  result.set(ciphertext, 0)
+  result.set(computeTag(key, nonce, ciphertext, aad), ciphertext.length)
+  return result
+}
+
+/**
+ * 校验认证标签并解密，标签不匹配（密钥错误或数据被篡改）时抛出错误
+ */
+export function chacha20Poly1305Decrypt(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  sealed: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Uint8Array<ArrayBuffer> {
+  assertParams(key, nonce)
+  if (sealed.length < POLY1305_TAG_LENGTH) throw new Error('Ciphertext is too short')
+
+  const ciphertext = sealed.subarray(0, sealed.length - POLY1305_TAG_LENGTH)
+  const tag = sealed.subarray(sealed.length - POLY1305_TAG_LENGTH)
+  const expected = computeTag(key, nonce, ciphertext, aad)
+
+  // 定长比较
+  let difference = 0
+  for (let i = 0; i < POLY1305_TAG_LENGTH; i++) {
+    difference |= tag[i] ^ expected[i]
+  }
+  if (difference !== 0) {
+    throw new Error('Authentication failed: wrong key or corrupted data')
+  }
+
+  return chacha20(key, nonce, 1, ciphertext)
+}
@@ -0,0 +1,129 @@
+/**
+ * scrypt 密钥派生（RFC 7914）
+ *
+ * PBKDF2-HMAC-SHA256 使用 WebCrypto，内存密集的 ROMix 部分为纯 TypeScript 实现。
+ */
+
+export interface ScryptParams {
+  cost: number // N，2 的幂
+  blockSize: number // r
+  parallelism: number // p
+  keyLength: number
+}
+
+// 32 MiB 内存开销
+export const DEFAULT_SCRYPT_PARAMS: Omit<ScryptParams, 'keyLength'> = {
+  cost: 32768,
+  blockSize: 8,
+  parallelism: 1
+}
+
+async function pbkdf2(password: Uint8Array, salt: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', password as BufferSource, { name: 'PBKDF2' }, false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: salt as BufferSource, iterations: 1, hash: 'SHA-256' }, key, length * 8)
+  return new Uint8Array(bits)
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+// Salsa20/8 核心，原地更新 16 个字
+const salsaInput = new Uint32Array(16)
+function salsa20_8(block: Uint32Array, offset: number): void {
+  const x = salsaInput
+  for (let i = 0; i < 16; i++) x[i] = block[offset + i]
+
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7); x[8] ^= rotl(x[4] + x[0], 9)
+    x[12] ^= rotl(x[8] + x[4], 13); x[0] ^= rotl(x[12] + x[8], 18)
+    x[9] ^= rotl(x[5] + x[1], 7); x[13] ^= rotl(x[9] + x[5], 9)
+    x[1] ^= rotl(x[13] + x[9], 13); x[5] ^= rotl(x[1] + x[13], 18)
+    x[14] ^= rotl(x[10] + x[6], 7); x[2] ^= rotl(x[14] + x[10], 9)
+    x[6] ^= rotl(x[2] + x[14], 13); x[10] ^= rotl(x[6] + x[2], 18)
+    x[3] ^= rotl(x[15] + x[11], 7); x[7] ^= rotl(x[3] + x[15], 9)
+    x[11] ^= rotl(x[7] + x[3], 13); x[15] ^= rotl(x[11] + x[7], 18)
+
+    x[1] ^= rotl(x[0] + x[3], 7); x[2] ^= rotl(x[1] + x[0], 9)
+    x[3] ^= rotl(x[2] + x[1], 13); x[0] ^= rotl(x[3] + x[2], 18)
+    x[6] ^= rotl(x[5] + x[4], 7); x[7] ^= rotl(x[6] + x[5], 9)
+    x[4] ^= rotl(x[7] + x[6], 13); x[5] ^= rotl(x[4] + x[7], 18)
+    x[11] ^= rotl(x[10] + x[9], 7); x[8] ^= rotl(x[11] + x[10], 9)
+    x[9] ^= rotl(x[8] + x[11], 13); x[10] ^= rotl(x[9] + x[8], 18)
+    x[12] ^= rotl(x[15] + x[14], 7); x[13] ^= rotl(x[12] + x[15], 9)
+    x[14] ^= rotl(x[13] + x[12], 13); x[15] ^= rotl(x[14] + x[13], 18)
+  }
+
+  for (let i = 0; i < 16; i++) block[offset + i] += x[i]
+}
+
+/**
+ * BlockMix：输入 B 为 2r 个 64 字节块，结果写入 Y
+ */
+function blockMix(b: Uint32Array, y: Uint32Array, r: number): void {
+  const x = b.slice((2 * r - 1) * 16, 2 * r * 16)
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) x[j] ^= b[i * 16 + j]
+    salsa20_8(x, 0)
+    // 偶数块放前半部分，奇数块放后半部分
+    y.set(x, ((i >> 1) + (i & 1) * r) * 16)
+  }
+}
+
+function roMix(block: Uint32Array, n: number, r: number): void {
+  const words = 32 * r
+  const v = new Uint32Array(words * n)
+  const x = block.slice()
+  const y = new Uint32Array(words)
+
+  for (let i = 0; i < n; i++) {
+    v.set(x, i * words)
+    blockMix(x, y, r)
+    x.set(y)
+  }
+  for (let i = 0; i < n; i++) {
+    const j = x[(2 * r - 1) * 16] & (n - 1)
+    for (let k = 0; k < words; k++) x[k] ^= v[j * words + k]
+    blockMix(x, y, r)
+    x.set(y)
+  }
+
+  block.set(x)
+  v.fill(0)
+}
+
+function toWords(bytes: Uint8Array): Uint32Array {
+  const words = new Uint32Array(bytes.length / 4)
+  for (let i = 0; i < words.length; i++) {
+    words[i] = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24)
+  }
+  return words
+}
+
+function toBytes(words: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(words.length * 4)
+  for (let i = 0; i < words.length; i++) {
+    bytes[i * 4] = words[i]
+    bytes[i * 4 + 1] = words[i] >>> 8
+    bytes[i * 4 + 2] = words[i] >>> 16
+    bytes[i * 4 + 3] = words[i] >>> 24
+  }
+  return bytes
+}
+
+/**
+ * 计算 scrypt 派生密钥
+ */
+export async function scrypt(password: Uint8Array, salt: Uint8Array, params: ScryptParams): Promise<Uint8Array> {
+  const { cost: n, blockSize: r, parallelism: p, keyLength } = params
+  if (n < 2 || (n & (n - 1)) !== 0) throw new Error('scrypt cost must be a power of two')
+  if (r < 1 || p < 1) throw new Error('Invalid scrypt parameters')
+
+  const blockBytes = 128 * r
+  const words = toWords(await pbkdf2(password, salt, p * blockBytes))
+  for (let i = 0; i < p; i++) {
+    const block = words.subarray(i * 32 * r, (i + 1) * 32 * r)
+    roMix(block, n, r)
+  }
+  return pbkdf2(password, toBytes(words), keyLength)
+}
@@ -1,4 +1,9 @@
 import { EncryptionAlgorithm, KeyDerivationAlgorithm, SecurityLevel } from '@/types/security'
+import { argon2id, DEFAULT_ARGON2_PARAMS } from './crypto/argon2'
+import { scrypt, DEFAULT_SCRYPT_PARAMS } from './crypto/scrypt'
+import { chacha20Poly1305Decrypt, chacha20Poly1305Encrypt, CHACHA20_NONCE_LENGTH } from './crypto/chacha20-poly1305'
+import { VaultKdfParams } from '@/types/vault'
+import { derivePassphraseKey } from './passphrase-kdf'
 
 /**
  * 加密配置接口
@@ -842,6 +847,66 @@ export class DataEncryptionService {
     }
   }
 
+  /**
+   * 由口令派生密钥并登记，用于以用户口令/PIN 保护的数据
+   * 派生参数（含盐值）由调用方保存，相同口令和参数总能得到同一密钥
+   */
+  async deriveKeyFromPassphrase(passphrase: string, kdf: VaultKdfParams, purpose?: string): Promise<EncryptionKey> {
+    const keyData = await derivePassphraseKey(passphrase, kdf, this.config.encryptionStrength / 8)
+
+    const key: EncryptionKey = {
+      keyId: crypto.randomUUID(),
+      keyData,
+      algorithm: this.config.defaultAlgorithm,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + this.config.keyRotationInterval * 24 * 60 * 60 * 1000),
+      isActive: true,
+      usage: [KeyUsage._ENCRYPTION, KeyUsage._DECRYPTION],
+      metadata: {
+        purpose,
+        generationTime: Date.now(),
+        source: 'passphrase',
+        kdf: kdf.algorithm
+      }
+    }
+
+    this.keys.set(key.keyId, key)
+
+    this.logAuditEvent({
+      eventType: AuditEventType._KEY_CREATED,
+      operation: 'derive-key',
+      result: 'success',
+      riskLevel: RiskLevel._LOW,
+      severity: 'low',
+      details: { keyId: key.keyId, algorithm: key.algorithm, purpose, kdf: kdf.algorithm }
+    })
+
+    return key
+  }
+
+  /**
+   * 移除密钥并清除内存中的密钥数据，返回密钥是否存在
+   */
+  removeKey(keyId: string): boolean {
+    const key = this.keys.get(keyId)
+    if (!key) return false
+
+    this.secureWipe(key.keyData)
+    this.keys.delete(keyId)
+    if (this.activeKeyId === keyId) {
+      this.activeKeyId = null
+    }
+
+    // 缓存中的结果无法再解密，一并清除
+    for (const [cacheKey, result] of this.encryptionCache) {
+      if (result.keyId === keyId) {
+        this.encryptionCache.delete(cacheKey)
+      }
+    }
+
+    return true
+  }
+
   /**
    * 生成密钥数据
    */
@@ -904,31 +969,35 @@ export class DataEncryptionService {
   }
 
   /**
-   * 使用Argon2生成密钥
+   * 使用Argon2id生成密钥
    */
   private async generateKeyWithArgon2(keyLength: number): Promise<Uint8Array> {
-    // 注意：浏览器原生不支持Argon2，需要第三方库
-    // 这里提供一个简化的实现
+    const config = this.keyManagementStrategy.keyGeneration
     const password = crypto.getRandomValues(new Uint8Array(32))
-    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const salt = crypto.getRandomValues(new Uint8Array(config.saltLength))
+
+    // 策略未指定 Argon2 时，其迭代次数和内存参数是为 PBKDF2 设置的，改用推荐参数
+    const strategyParams = config.algorithm === KeyDerivationAlgorithm.ARGON2
+      ? { memory: config.memory, iterations: config.iterations, parallelism: config.parallelism }
+      : {}
 
-    // 模拟Argon2密钥派生（实际应使用专业库）
-    const derivedKey = await crypto.subtle.digest('SHA-256', new Uint8Array([...password, ...salt]))
-    return new Uint8Array(derivedKey).slice(0, keyLength)
+    return argon2id(password, salt, { ...DEFAULT_ARGON2_PARAMS, ...strategyParams, hashLength: keyLength })
   }
 
   /**
    * 使用Scrypt生成密钥
    */
   private async generateKeyWithScrypt(keyLength: number): Promise<Uint8Array> {
-    // 注意：浏览器原生不支持Scrypt，需要第三方库
-    // 这里提供一个简化的实现
+    const config = this.keyManagementStrategy.keyGeneration
     const password = crypto.getRandomValues(new Uint8Array(32))
-    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const salt = crypto.getRandomValues(new Uint8Array(config.saltLength))
 
-    // 模拟Scrypt密钥派生（实际应使用专业库）
-    const derivedKey = await crypto.subtle.digest('SHA-256', new Uint8Array([...password, ...salt]))
-    return new Uint8Array(derivedKey).slice(0, keyLength)
+    // 策略中 iterations 对应 scrypt 的 N，parallelism 对应 p
+    const strategyParams = config.algorithm === KeyDerivationAlgorithm.SCRYPT
+      ? { cost: config.iterations, parallelism: config.parallelism }
+      : {}
+
+    return scrypt(password, salt, { ...DEFAULT_SCRYPT_PARAMS, ...strategyParams, keyLength })
   }
 
   /**
@@ -1148,33 +1217,11 @@ export class DataEncryptionService {
     data: Uint8Array,
     keyData: Uint8Array
   ): Promise<{ encryptedData: Uint8Array; iv: Uint8Array }> {
-    // 注意：浏览器可能不支持ChaCha20-Poly1305
-    // 这里提供一个回退到AES-GCM的实现
-
-    // 生成随机IV
-    const iv = crypto.getRandomValues(new Uint8Array(12))
-
-    // 导入密钥
-    const key = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM' }, // 回退到AES-GCM
-      false,
-      ['encrypt']
-    )
-
-    // 加密数据
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv
-      },
-      key,
-      data
-    )
+    // WebCrypto 不支持 ChaCha20-Poly1305，使用纯 TypeScript 实现
+    const iv = crypto.getRandomValues(new Uint8Array(CHACHA20_NONCE_LENGTH))
 
     return {
-      encryptedData: new Uint8Array(encrypted),
+      encryptedData: chacha20Poly1305Encrypt(keyData, iv, data),
       iv
     }
   }
@@ -1377,8 +1424,7 @@ export class DataEncryptionService {
     keyData: Uint8Array,
     iv: Uint8Array
   ): Promise<Uint8Array> {
-    // 回退到AES-GCM
-    return this.decryptWithAES_GCM(encryptedData, keyData, iv)
+    return chacha20Poly1305Decrypt(keyData, iv, encryptedData)
   }
 
   /**
@@ -0,0 +1,436 @@
+/**
+ * 卡片/文件夹独立锁服务
+ *
+ * 锁定的卡片或文件夹有自己的 PIN/口令（与保险库口令无关），经 Argon2id 派生出密钥，
+ * 内容通过 DataEncryptionService 用 AES-256-GCM 加密。存储中只保留密文和不含内容的占位，
+ * 解锁后明文只保存在内存中，超过设定时间自动重新锁定。
+ * 锁定文件夹时，其中（含子文件夹）尚未锁定的卡片用文件夹的密钥加密，解锁文件夹即可查看这些卡片。
+ */
+
+import { Card, CardContent, Folder } from '@/types/card'
+import { EntityLock, EntityLockState } from '@/types/entity-lock'
+import { EncryptionAlgorithm } from '@/types/security'
+import { VaultKdfParams } from '@/types/vault'
+import { db } from '@/services/database'
+import { DataEncryptionService, EncryptionResult } from './data-encryption-service'
+import { createKdfParams } from './passphrase-kdf'
+import { base64ToBytes, bytesToBase64, deserializeValue, serializeValue } from './vault-cipher'
+
+type EntityLockListener = (state: EntityLockState) => void
+
+type LockedContent = Pick<Card, 'frontContent' | 'backContent'>
+
+export interface CardLockUpdate {
+  id: string
+  updates: Partial<Card>
+}
+
+export interface FolderLockChanges {
+  folder: Partial<Folder>
+  cards: CardLockUpdate[]
+}
+
+export const MIN_PIN_LENGTH = 4
+
+const SETTINGS_KEY = 'entity-lock'
+const DEFAULT_RELOCK_TIMEOUT_MINUTES = 5
+const FOLDER_VERIFIER = 'cardall-folder-lock:'
+
+interface UnlockedEntity {
+  keyId: string
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+interface RevealedContent extends LockedContent {
+  unlockedBy: string // 解锁时所用的卡片或文件夹ID
+}
+
+// 锁定后卡片上保留的占位内容，只保留标签，标签统计和筛选不受影响
+function toPlaceholder(content: CardContent): CardContent {
+  return {
+    title: '',
+    text: '',
+    images: [],
+    tags: content.tags,
+    todos: [],
+    lastModified: content.lastModified
+  }
+}
+
+// 文件夹及其所有子文件夹的ID
+function collectFolderIds(folderId: string, folders: Folder[]): Set<string> {
+  const ids = new Set([folderId])
+  let added = true
+  while (added) {
+    added = false
+    folders.forEach(folder => {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id)
+        added = true
+      }
+    })
+  }
+  return ids
+}
+
+export class EntityLockService {
+  // 不启用加密缓存，避免明文作为缓存键留在内存中
+  private encryption = new DataEncryptionService({
+    defaultAlgorithm: EncryptionAlgorithm.AES_256_GCM,
+    performance: {
+      batchEncryption: false,
+      batchSize: 1,
+      parallelEncryption: false,
+      parallelism: 1,
+      enableCache: false,
+      cacheSize: 0
+    }
+  })
+  private unlocked = new Map<string, UnlockedEntity>()
+  private revealed = new Map<string, RevealedContent>()
+  private listeners: EntityLockListener[] = []
+  private state: EntityLockState = { unlockedIds: [], relockTimeoutMinutes: DEFAULT_RELOCK_TIMEOUT_MINUTES }
+  private initialization: Promise<EntityLockState> | null = null
+
+  // 注册状态变化监听器
+  onChange(listener: EntityLockListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getState(): EntityLockState {
+    return this.state
+  }
+
+  /**
+   * 读取自动重新锁定的时间设置
+   */
+  initialize(): Promise<EntityLockState> {
+    if (!this.initialization) {
+      this.initialization = (async () => {
+        const record = await db.settings.where('key').equals(SETTINGS_KEY).first()
+        const settings = record?.value as { relockTimeoutMinutes?: number } | undefined
+        this.state = {
+          ...this.state,
+          relockTimeoutMinutes: settings?.relockTimeoutMinutes ?? DEFAULT_RELOCK_TIMEOUT_MINUTES
+        }
+        this.notify()
+        return this.state
+      })().catch(error => {
+        this.initialization = null
+        throw error
+      })
+    }
+    return this.initialization
+  }
+
+  async setRelockTimeout(minutes: number): Promise<void> {
+    const value = { relockTimeoutMinutes: Math.max(1, minutes) }
+    const existing = await db.settings.where('key').equals(SETTINGS_KEY).first()
+    const record = { key: SETTINGS_KEY, value, scope: 'global' as const, updatedAt: new Date() }
+    if (existing?.id !== undefined) {
+      await db.settings.put({ ...record, id: existing.id })
+    } else {
+      await db.settings.add(record)
+    }
+
+    this.state = { ...this.state, ...value }
+    // 已解锁的卡片和文件夹按新的时间重新计时
+    this.unlocked.forEach((_entry, entityId) => this.scheduleRelock(entityId))
+    this.notify()
+  }
+
+  isUnlocked(entityId: string): boolean {
+    return this.unlocked.has(entityId)
+  }
+
+  /**
+   * 可显示的卡片：未锁定的原样返回，已解锁的换上明文内容，仍锁定的返回 null
+   */
+  reveal(card: Card): Card | null {
+    if (!card.lock) return card
+    const content = this.revealed.get(card.id)
+    return content ? { ...card, frontContent: content.frontContent, backContent: content.backContent } : null
+  }
+
+  /**
+   * 卡片所在文件夹链上最近的已锁定文件夹
+   */
+  getLockedFolder(folderId: string | undefined, folders: Folder[]): Folder | undefined {
+    const visited = new Set<string>()
+    let current = folders.find(folder => folder.id === folderId)
+    while (current && !visited.has(current.id)) {
+      if (current.lock) return current
+      visited.add(current.id)
+      const parentId = current.parentId
+      current = parentId ? folders.find(folder => folder.id === parentId) : undefined
+    }
+    return undefined
+  }
+
+  /**
+   * 锁定卡片，返回写回卡片的修改（占位内容和锁）
+   */
+  async lockCard(card: Card, pin: string): Promise<Partial<Card>> {
+    if (card.lock) throw new Error('Card is already locked')
+
+    const { keyId, kdf } = await this.createKey(pin, 'card-lock')
+    try {
+      return await this.sealContent(card, keyId, kdf)
+    } finally {
+      this.encryption.removeKey(keyId)
+    }
+  }
+
+  /**
+   * 锁定文件夹，其中尚未锁定的卡片一并加密；返回文件夹和卡片的修改
+   */
+  async lockFolder(folder: Folder, folders: Folder[], cards: Card[], pin: string): Promise<FolderLockChanges> {
+    if (folder.lock) throw new Error('Folder is already locked')
+
+    const { keyId, kdf } = await this.createKey(pin, 'folder-lock')
+    try {
+      const folderIds = collectFolderIds(folder.id, folders)
+      const verifier = await this.encryption.encrypt(new TextEncoder().encode(FOLDER_VERIFIER + folder.id), keyId)
+      const updates: CardLockUpdate[] = []
+      for (const card of cards) {
+        if (card.lock || !card.folderId || !folderIds.has(card.folderId)) continue
+        updates.push({ id: card.id, updates: await this.sealContent(card, keyId, kdf, folder.id) })
+      }
+      return { folder: { lock: this.toLock(verifier, kdf) }, cards: updates }
+    } finally {
+      this.encryption.removeKey(keyId)
+    }
+  }
+
+  /**
+   * 解锁卡片；PIN 错误时返回 false
+   */
+  async unlockCard(card: Card, pin: string): Promise<boolean> {
+    if (!card.lock || this.revealed.has(card.id)) return true
+
+    const keyId = await this.deriveKey(pin, card.lock.kdf, 'card-lock')
+    let content: LockedContent
+    try {
+      content = await this.open<LockedContent>(card.lock, keyId)
+    } catch {
+      this.encryption.removeKey(keyId)
+      return false
+    }
+
+    this.revealed.set(card.id, { ...content, unlockedBy: card.id })
+    this.track(card.id, keyId)
+    return true
+  }
+
+  /**
+   * 解锁文件夹及随它锁定的卡片；PIN 错误时返回 false
+   */
+  async unlockFolder(folder: Folder, cards: Card[], pin: string): Promise<boolean> {
+    if (!folder.lock || this.unlocked.has(folder.id)) return true
+
+    const keyId = await this.deriveKey(pin, folder.lock.kdf, 'folder-lock')
+    try {
+      const verifier = await this.open<string>(folder.lock, keyId, bytes => new TextDecoder().decode(bytes))
+      if (verifier !== FOLDER_VERIFIER + folder.id) throw new Error('Folder lock does not match')
+    } catch {
+      this.encryption.removeKey(keyId)
+      return false
+    }
+
+    const salt = folder.lock.kdf.salt
+    for (const card of cards) {
+      if (card.lock?.folderId !== folder.id || card.lock.kdf.salt !== salt || this.revealed.has(card.id)) continue
+      try {
+        const content = await this.open<LockedContent>(card.lock, keyId)
+        this.revealed.set(card.id, { ...content, unlockedBy: folder.id })
+      } catch (error) {
+        console.warn(`Failed to unlock card ${card.id}:`, error)
+      }
+    }
+
+    this.track(folder.id, keyId)
+    return true
+  }
+
+  /**
+   * 修改已解锁的锁定卡片：内容用原密钥重新加密，写回的仍是占位内容
+   */
+  async sealUpdates(card: Card, updates: Partial<Card>): Promise<Partial<Card>> {
+    if (!card.lock || (!updates.frontContent && !updates.backContent)) return updates
+
+    const content = this.revealed.get(card.id)
+    const entry = content && this.unlocked.get(content.unlockedBy)
+    if (!content || !entry) throw new Error('Card is locked')
+
+    const next: LockedContent = {
+      frontContent: updates.frontContent ?? content.frontContent,
+      backContent: updates.backContent ?? content.backContent
+    }
+    const sealed = await this.sealContent(next, entry.keyId, card.lock.kdf, card.lock.folderId)
+    this.revealed.set(card.id, { ...next, unlockedBy: content.unlockedBy })
+    this.scheduleRelock(content.unlockedBy)
+    return { ...updates, ...sealed }
+  }
+
+  /**
+   * 用已解锁文件夹的密钥加密放入该文件夹的卡片；文件夹未解锁时返回 null
+   */
+  async sealIntoFolder(card: Card, folder: Folder): Promise<Partial<Card> | null> {
+    const entry = this.unlocked.get(folder.id)
+    if (card.lock || !folder.lock || !entry) return null
+
+    const sealed = await this.sealContent(card, entry.keyId, folder.lock.kdf, folder.id)
+    this.revealed.set(card.id, { frontContent: card.frontContent, backContent: card.backContent, unlockedBy: folder.id })
+    return sealed
+  }
+
+  /**
+   * 移除卡片的锁（需先解锁），返回写回明文内容的修改
+   */
+  removeCardLock(card: Card): Partial<Card> {
+    const content = this.revealed.get(card.id)
+    if (!card.lock || !content) throw new Error('Unlock the card first')
+
+    this.revealed.delete(card.id)
+    if (this.unlocked.has(card.id)) {
+      this.lock(card.id)
+    } else {
+      this.notify()
+    }
+    return { frontContent: content.frontContent, backContent: content.backContent, lock: undefined }
+  }
+
+  /**
+   * 移除文件夹的锁（需先解锁），随它锁定的卡片恢复为明文
+   */
+  removeFolderLock(folder: Folder, cards: Card[]): FolderLockChanges {
+    if (!folder.lock || !this.unlocked.has(folder.id)) throw new Error('Unlock the folder first')
+
+    const updates: CardLockUpdate[] = []
+    cards.forEach(card => {
+      const content = this.revealed.get(card.id)
+      if (card.lock?.folderId !== folder.id || !content) return
+      updates.push({
+        id: card.id,
+        updates: { frontContent: content.frontContent, backContent: content.backContent, lock: undefined }
+      })
+    })
+
+    // 单独解锁过的卡片也不再需要各自的密钥
+    updates.forEach(({ id }) => this.unlocked.has(id) && this.lock(id))
+    this.lock(folder.id)
+    return { folder: { lock: undefined }, cards: updates }
+  }
+
+  /**
+   * 重新锁定卡片或文件夹，清除内存中的密钥和明文
+   */
+  lock(entityId: string): void {
+    const entry = this.unlocked.get(entityId)
+    if (entry) {
+      if (entry.timer) clearTimeout(entry.timer)
+      this.encryption.removeKey(entry.keyId)
+      this.unlocked.delete(entityId)
+    }
+
+    Array.from(this.revealed.entries()).forEach(([cardId, content]) => {
+      if (cardId === entityId || content.unlockedBy === entityId) {
+        this.revealed.delete(cardId)
+      }
+    })
+    this.notify()
+  }
+
+  lockAll(): void {
+    Array.from(this.unlocked.keys()).forEach(entityId => this.lock(entityId))
+    this.revealed.clear()
+    this.notify()
+  }
+
+  private async createKey(pin: string, purpose: string): Promise<{ keyId: string; kdf: VaultKdfParams }> {
+    if (pin.length < MIN_PIN_LENGTH) {
+      throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} characters`)
+    }
+    const kdf = createKdfParams('argon2id')
+    return { keyId: await this.deriveKey(pin, kdf, purpose), kdf }
+  }
+
+  private async deriveKey(pin: string, kdf: VaultKdfParams, purpose: string): Promise<string> {
+    const key = await this.encryption.deriveKeyFromPassphrase(pin, kdf, purpose)
+    return key.keyId
+  }
+
+  private toLock(result: EncryptionResult, kdf: VaultKdfParams, folderId?: string): EntityLock {
+    return {
+      version: 1,
+      kdf,
+      algorithm: result.algorithm,
+      iv: bytesToBase64(result.iv),
+      data: bytesToBase64(result.encryptedData),
+      ...(folderId ? { folderId } : {})
+    }
+  }
+
+  private async sealContent(
+    content: LockedContent,
+    keyId: string,
+    kdf: VaultKdfParams,
+    folderId?: string
+  ): Promise<Partial<Card>> {
+    const plaintext = new TextEncoder().encode(serializeValue({
+      frontContent: content.frontContent,
+      backContent: content.backContent
+    }))
+    const result = await this.encryption.encrypt(plaintext, keyId)
+    return {
+      frontContent: toPlaceholder(content.frontContent),
+      backContent: toPlaceholder(content.backContent),
+      lock: this.toLock(result, kdf, folderId)
+    }
+  }
+
+  // AES-GCM 自带完整性校验，锁中不保存明文的校验和；密钥错误时抛出异常
+  private async open<T>(
+    lock: EntityLock,
+    keyId: string,
+    decode: (bytes: Uint8Array) => T = bytes => deserializeValue(new TextDecoder().decode(bytes)) as T
+  ): Promise<T> {
+    const { decryptedData } = await this.encryption.decrypt({
+      encryptedData: base64ToBytes(lock.data),
+      iv: base64ToBytes(lock.iv),
+      keyId,
+      algorithm: lock.algorithm,
+      encryptionTime: 0,
+      dataSize: 0,
+      checksum: '',
+      metadata: {}
+    })
+    return decode(decryptedData)
+  }
+
+  private track(entityId: string, keyId: string): void {
+    this.unlocked.set(entityId, { keyId, timer: null })
+    this.scheduleRelock(entityId)
+    this.notify()
+  }
+
+  private scheduleRelock(entityId: string): void {
+    const entry = this.unlocked.get(entityId)
+    if (!entry) return
+    if (entry.timer) clearTimeout(entry.timer)
+    entry.timer = setTimeout(() => this.lock(entityId), this.state.relockTimeoutMinutes * 60 * 1000)
+  }
+
+  private notify(): void {
+    this.state = { ...this.state, unlockedIds: Array.from(this.unlocked.keys()) }
+    this.listeners.forEach(listener => listener(this.state))
+  }
+}
+
+export const entityLockService = new EntityLockService()
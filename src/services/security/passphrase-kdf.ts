@@ -0,0 +1,46 @@
+/**
+ * 口令密钥派生
+ *
+ * 保险库口令和卡片/文件夹的独立 PIN 共用：生成带随机盐的派生参数，按参数派生出固定长度的密钥。
+ */
+
+import { VaultKdfAlgorithm, VaultKdfParams } from '@/types/vault'
+import { argon2id, DEFAULT_ARGON2_PARAMS } from './crypto/argon2'
+import { scrypt, DEFAULT_SCRYPT_PARAMS } from './crypto/scrypt'
+import { base64ToBytes, bytesToBase64 } from './vault-cipher'
+
+const SALT_LENGTH = 16
+const DEFAULT_KEY_LENGTH = 32
+
+export function createKdfParams(algorithm: VaultKdfAlgorithm): VaultKdfParams {
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)))
+  return algorithm === 'scrypt'
+    ? { algorithm, salt, ...DEFAULT_SCRYPT_PARAMS }
+    : { algorithm, salt, ...DEFAULT_ARGON2_PARAMS }
+}
+
+export async function derivePassphraseKey(
+  passphrase: string,
+  params: VaultKdfParams,
+  keyLength: number = DEFAULT_KEY_LENGTH
+): Promise<Uint8Array> {
+  const password = new TextEncoder().encode(passphrase.normalize('NFKC'))
+  const salt = base64ToBytes(params.salt)
+  // Argon2id 为同步计算，先让出主线程以便界面显示进度
+  await new Promise(resolve => setTimeout(resolve, 0))
+
+  if (params.algorithm === 'scrypt') {
+    return scrypt(password, salt, {
+      cost: params.cost,
+      blockSize: params.blockSize,
+      parallelism: params.parallelism,
+      keyLength
+    })
+  }
+  return argon2id(password, salt, {
+    memory: params.memory,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: keyLength
+  })
+}
@@ -0,0 +1,195 @@
+/**
+ * 保险库加解密
+ *
+ * 数据密钥（DEK）只在解锁期间保存在内存中。字段值序列化为 JSON 后用 ChaCha20-Poly1305 加密，
+ * 结果为带前缀的 base64 字符串；附加数据（AAD）由调用方给出，数据库字段为 "表名.字段名#主键"，
+ * 防止密文被挪到其他字段或其他记录。v1 密文的附加数据不含主键，只用于读取旧数据。
+ */
+
+import {
+  chacha20Poly1305Decrypt,
+  chacha20Poly1305Encrypt,
+  CHACHA20_KEY_LENGTH,
+  CHACHA20_NONCE_LENGTH
+} from './crypto/chacha20-poly1305'
+
+const VALUE_PREFIX = 'vault:v2:'
+const LEGACY_VALUE_PREFIX = 'vault:v1:'
+const BYTES_MAGIC = new TextEncoder().encode('CAVAULT1')
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Vault is locked')
+    this.name = 'VaultLockedError'
+  }
+}
+
+// ============================================================================
+// 编码工具
+// ============================================================================
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// JSON 序列化时保留 Date 类型
+export function serializeValue(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+    return this[key] instanceof Date ? { $date: (this[key] as Date).getTime() } : item
+  })
+}
+
+export function deserializeValue(text: string): unknown {
+  return JSON.parse(text, (_key, item) => {
+    if (item && typeof item === 'object' && Object.keys(item).length === 1 && typeof item.$date === 'number') {
+      return new Date(item.$date)
+    }
+    return item
+  })
+}
+
+// ============================================================================
+// 密钥环
+// ============================================================================
+
+class VaultKeyring {
+  private key: Uint8Array | null = null
+  private enabled = false
+
+  /**
+   * 是否已启用保险库（启用后写入的数据都会加密）
+   */
+  get isEnabled(): boolean {
+    return this.enabled
+  }
+
+  get isUnlocked(): boolean {
+    return this.key !== null
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled
+  }
+
+  setKey(key: Uint8Array): void {
+    if (key.length !== CHACHA20_KEY_LENGTH) {
+      throw new Error('Vault key must be 32 bytes')
+    }
+    this.key = key.slice()
+  }
+
+  clearKey(): void {
+    this.key?.fill(0)
+    this.key = null
+  }
+
+  requireKey(): Uint8Array {
+    if (!this.key) throw new VaultLockedError()
+    return this.key
+  }
+}
+
+export const vaultKeyring = new VaultKeyring()
+
+// ============================================================================
+// 字节加解密
+// ============================================================================
+
+/**
+ * 用指定密钥加密，结果为 nonce + 密文 + 认证标签
+ */
+export function sealBytes(key: Uint8Array, plaintext: Uint8Array, context: string): Uint8Array<ArrayBuffer> {
+  const nonce = crypto.getRandomValues(new Uint8Array(CHACHA20_NONCE_LENGTH))
+  const sealed = chacha20Poly1305Encrypt(key, nonce, plaintext, new TextEncoder().encode(context))
+  const result = new Uint8Array(nonce.length + sealed.length)
+  result.set(nonce, 0)
+  result.set(sealed, nonce.length)
+  return result
+}
+
+export function openBytes(key: Uint8Array, data: Uint8Array, context: string): Uint8Array<ArrayBuffer> {
+  const nonce = data.subarray(0, CHACHA20_NONCE_LENGTH)
+  const sealed = data.subarray(CHACHA20_NONCE_LENGTH)
+  return chacha20Poly1305Decrypt(key, nonce, sealed, new TextEncoder().encode(context))
+}
+
+// ============================================================================
+// 字段值加解密
+// ============================================================================
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && (value.startsWith(VALUE_PREFIX) || value.startsWith(LEGACY_VALUE_PREFIX))
+}
+
+/**
+ * 是否为 v1 密文（数据库字段的附加数据不含记录主键）
+ */
+export function isLegacyEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(LEGACY_VALUE_PREFIX)
+}
+
+/**
+ * 加密任意可序列化的值，未启用保险库时原样返回
+ */
+export function encryptValue(value: unknown, context: string): unknown {
+  if (!vaultKeyring.isEnabled || value === undefined || isEncryptedValue(value)) {
+    return value
+  }
+  const plaintext = new TextEncoder().encode(serializeValue(value))
+  return VALUE_PREFIX + bytesToBase64(sealBytes(vaultKeyring.requireKey(), plaintext, context))
+}
+
+/**
+ * 解密 encryptValue 的结果，非加密值原样返回
+ */
+export function decryptValue<T = unknown>(value: unknown, context: string): T {
+  if (!isEncryptedValue(value)) {
+    return value as T
+  }
+  const prefix = isLegacyEncryptedValue(value) ? LEGACY_VALUE_PREFIX : VALUE_PREFIX
+  const data = base64ToBytes(value.slice(prefix.length))
+  const plaintext = openBytes(vaultKeyring.requireKey(), data, context)
+  return deserializeValue(new TextDecoder().decode(plaintext)) as T
+}
+
+// ============================================================================
+// 文件加解密（图片等二进制数据）
+// ============================================================================
+
+export function isEncryptedBytes(data: Uint8Array): boolean {
+  return data.length > BYTES_MAGIC.length && BYTES_MAGIC.every((byte, index) => data[index] === byte)
+}
+
+/**
+ * 加密文件内容，结果以魔数开头以便识别；未启用保险库时原样返回
+ */
+export function encryptBytes(data: Uint8Array<ArrayBuffer>, context: string): Uint8Array<ArrayBuffer> {
+  if (!vaultKeyring.isEnabled || isEncryptedBytes(data)) {
+    return data
+  }
+  const sealed = sealBytes(vaultKeyring.requireKey(), data, context)
+  const result = new Uint8Array(BYTES_MAGIC.length + sealed.length)
+  result.set(BYTES_MAGIC, 0)
+  result.set(sealed, BYTES_MAGIC.length)
+  return result
+}
+
+export function decryptBytes(data: Uint8Array<ArrayBuffer>, context: string): Uint8Array<ArrayBuffer> {
+  if (!isEncryptedBytes(data)) {
+    return data
+  }
+  return openBytes(vaultKeyring.requireKey(), data.subarray(BYTES_MAGIC.length), context)
+}
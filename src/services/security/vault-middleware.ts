@@ -0,0 +1,233 @@
+/**
+ * 保险库 Dexie 中间件
+ *
+ * 位于 DBCore 最底层，写入时加密指定字段、读取时解密，上层的钩子和查询都只看到明文。
+ * 保险库启用后会丢弃搜索词元等明文派生字段，搜索改由内存索引完成。
+ * 加密时以记录主键作为附加数据的一部分，受保护的表必须使用内联主键。
+ */
+
+import Dexie, {
+  DBCore,
+  DBCoreCursor,
+  DBCoreGetManyRequest,
+  DBCoreIndex,
+  DBCoreMutateRequest,
+  DBCoreMutateResponse,
+  DBCoreTable,
+  DBCoreTransaction
+} from 'dexie'
+import { decryptValue, encryptValue, isLegacyEncryptedValue, vaultKeyring } from './vault-cipher'
+
+type VaultRecord = Record<string, unknown>
+
+export interface VaultTableSpec {
+  fields: string[] // 需要加密的字段
+  plaintextFields?: string[] // 启用保险库时不保存的明文派生字段
+  rebuild?(record: object): object // 关闭保险库时重建明文派生字段
+}
+
+export type VaultTableSpecs = Record<string, VaultTableSpec>
+
+export interface VaultTables {
+  readonly db: Dexie
+  readonly tableNames: string[]
+  /**
+   * 按当前保险库状态重写所有受保护的记录：启用时加密明文，关闭时解密
+   * 直接写入底层存储，不触发钩子，也不会改变 updatedAt
+   */
+  reseal(): Promise<number>
+}
+
+function isRecord(value: unknown): value is VaultRecord {
+  return !!value && typeof value === 'object'
+}
+
+// 字段密文的附加数据：密文换到其他字段或其他记录后无法解密
+function fieldContext(tableName: string, field: string, key: unknown): string {
+  return `${tableName}.${field}#${JSON.stringify(key)}`
+}
+
+function primaryKeyOf(primaryKey: DBCoreIndex, record: VaultRecord): unknown {
+  return primaryKey.extractKey!(record)
+}
+
+function sealRecord(tableName: string, spec: VaultTableSpec, primaryKey: DBCoreIndex, record: unknown): unknown {
+  if (!vaultKeyring.isEnabled || !isRecord(record)) {
+    return record
+  }
+  const key = primaryKeyOf(primaryKey, record)
+  const sealed: VaultRecord = { ...record }
+  spec.plaintextFields?.forEach(field => delete sealed[field])
+  spec.fields.forEach(field => {
+    if (field in sealed) {
+      sealed[field] = encryptValue(sealed[field], fieldContext(tableName, field, key))
+    }
+  })
+  return sealed
+}
+
+// 去掉受保护的字段，用于自增主键确定之前的第一次写入
+function stripRecord(spec: VaultTableSpec, record: unknown): unknown {
+  if (!isRecord(record)) {
+    return record
+  }
+  const stripped: VaultRecord = { ...record }
+  for (const field of [...spec.fields, ...(spec.plaintextFields ?? [])]) {
+    delete stripped[field]
+  }
+  return stripped
+}
+
+function openRecord(tableName: string, spec: VaultTableSpec, primaryKey: DBCoreIndex, record: unknown): unknown {
+  if (!isRecord(record)) {
+    return record
+  }
+  const key = primaryKeyOf(primaryKey, record)
+  let opened = record
+  spec.fields.forEach(field => {
+    const value = record[field]
+    const context = isLegacyEncryptedValue(value) ? `${tableName}.${field}` : fieldContext(tableName, field, key)
+    const decrypted = decryptValue(value, context)
+    if (decrypted !== value) {
+      if (opened === record) opened = { ...record }
+      opened[field] = decrypted
+    }
+  })
+  return opened
+}
+
+// 包装游标，读取 value 时解密（原生游标的方法必须在原对象上调用）
+function wrapCursor(cursor: DBCoreCursor, open: (value: unknown) => unknown): DBCoreCursor {
+  let rawValue: unknown
+  let openedValue: unknown
+  const wrapped: DBCoreCursor = {
+    get trans() { return cursor.trans },
+    get key() { return cursor.key },
+    get primaryKey() { return cursor.primaryKey },
+    get done() { return cursor.done },
+    get value() {
+      const value = cursor.value
+      if (value !== rawValue) {
+        rawValue = value
+        openedValue = open(value)
+      }
+      return openedValue
+    },
+    continue: key => cursor.continue(key),
+    continuePrimaryKey: (key, primaryKey) => cursor.continuePrimaryKey(key, primaryKey),
+    advance: count => cursor.advance(count),
+    start: onNext => cursor.start(onNext),
+    stop: value => cursor.stop(value),
+    next: () => cursor.next().then(() => wrapped),
+    fail: error => cursor.fail(error)
+  }
+  return wrapped
+}
+
+function wrapTable(table: DBCoreTable, spec: VaultTableSpec): DBCoreTable {
+  const { primaryKey } = table.schema
+  if (primaryKey.outbound) {
+    throw new Error(`Vault table ${table.name} must use an inbound primary key`)
+  }
+  const seal = (value: unknown) => sealRecord(table.name, spec, primaryKey, value)
+  const open = (value: unknown) => openRecord(table.name, spec, primaryKey, value)
+
+  return {
+    ...table,
+    async mutate(req: DBCoreMutateRequest): Promise<DBCoreMutateResponse> {
+      if ((req.type !== 'add' && req.type !== 'put') || !vaultKeyring.isEnabled) {
+        return table.mutate(req)
+      }
+
+      const keyless = req.values.some(value => isRecord(value) && primaryKeyOf(primaryKey, value) === undefined)
+      if (!keyless) {
+        return table.mutate({ ...req, values: req.values.map(seal) })
+      }
+
+      // 自增主键写入后才确定：先写入不含受保护字段的记录取得主键，再写回加密后的完整记录
+      const response = await table.mutate({ ...req, values: req.values.map(value => stripRecord(spec, value)) })
+      const keyPath = primaryKey.keyPath as string
+      const written = req.values
+        .map((value, index) => ({ value, key: response.results?.[index] }))
+        .filter(({ value, key }, index) => !(index in response.failures) && isRecord(value) && key !== undefined)
+      if (written.length > 0) {
+        await table.mutate({
+          type: 'put',
+          trans: req.trans,
+          values: written.map(({ value, key }) => seal({ ...(value as VaultRecord), [keyPath]: key }))
+        })
+      }
+      return response
+    },
+    get(req) {
+      return table.get(req).then(open)
+    },
+    getMany(req: DBCoreGetManyRequest) {
+      return table.getMany(req).then(values => values.map(open))
+    },
+    query(req) {
+      return table.query(req).then(response =>
+        req.values ? { ...response, result: response.result.map(open) } : response
+      )
+    },
+    openCursor(req) {
+      return table.openCursor(req).then(cursor =>
+        cursor && req.values !== false ? wrapCursor(cursor, open) : cursor
+      )
+    }
+  }
+}
+
+/**
+ * 为数据库注册保险库中间件，需在数据库打开前调用
+ */
+export function attachVault(db: Dexie, specs: VaultTableSpecs): VaultTables {
+  let downCore: DBCore | null = null
+
+  db.use({
+    stack: 'dbcore',
+    name: 'Vault',
+    level: -2, // 低于内置中间件，钩子和 liveQuery 看到的都是明文
+    create(down) {
+      downCore = down
+      return {
+        ...down,
+        table(name) {
+          const table = down.table(name)
+          return specs[name] ? wrapTable(table, specs[name]) : table
+        }
+      }
+    }
+  })
+
+  const tableNames = Object.keys(specs)
+
+  return {
+    db,
+    tableNames,
+    async reseal() {
+      if (!db.isOpen()) await db.open()
+      let count = 0
+
+      await db.transaction('rw', tableNames, async tx => {
+        const trans = tx.idbtrans as unknown as DBCoreTransaction
+        for (const name of tableNames) {
+          const spec = specs[name]
+          // 经过中间件读取得到明文，再绕过中间件写回处理后的结果
+          const records = await db.table(name).toArray()
+          if (records.length === 0) continue
+
+          const table = downCore!.table(name)
+          const values = records.map(record => {
+            const restored = !vaultKeyring.isEnabled && spec.rebuild ? spec.rebuild(record) : record
+            return sealRecord(name, spec, table.schema.primaryKey, restored)
+          })
+          await table.mutate({ type: 'put', trans, values })
+          count += values.length
+        }
+      })
+
+      return count
+    }
+  }
+}
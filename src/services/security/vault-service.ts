@@ -0,0 +1,310 @@
+/**
+ * 加密保险库服务
+ *
+ * 可选启用：用户设置口令后，口令经 Argon2id（或 scrypt）派生出密钥加密密钥（KEK），
+ * 由 KEK 包装随机生成的数据密钥（DEK），卡片内容和图片用 DEK 加密保存。
+ * 另有一份由恢复密钥包装的 DEK，忘记口令时可用恢复密钥重设口令。
+ * 修改口令只重新包装 DEK，不需要重新加密数据。
+ */
+
+import { VaultHeader, VaultKdfAlgorithm, VaultState, WrappedKey } from '@/types/vault'
+import { db } from '@/services/database'
+import { db as unifiedDb } from '@/services/database-unified'
+import { fileSystemService } from '@/services/file-system'
+import { cardSearchIndex } from '@/services/search/search-index'
+import { blake2b } from './crypto/blake2b'
+import { entityLockService } from './entity-lock-service'
+import { createKdfParams, derivePassphraseKey } from './passphrase-kdf'
+import { chacha20Poly1305Decrypt, chacha20Poly1305Encrypt, CHACHA20_NONCE_LENGTH } from './crypto/chacha20-poly1305'
+import { base64ToBytes, bytesToBase64, vaultKeyring } from './vault-cipher'
+
+type VaultListener = (state: VaultState) => void
+
+export interface EnableVaultOptions {
+  kdf?: VaultKdfAlgorithm
+  idleTimeoutMinutes?: number
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+const HEADER_KEY = 'vault'
+const KEY_LENGTH = 32
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 15
+const WRAP_CONTEXT = new TextEncoder().encode('cardall-vault-dek')
+
+// Crockford Base32，恢复密钥便于抄写
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+
+function encodeRecoveryKey(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  bytes.forEach(byte => {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      output += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  })
+  if (bits > 0) {
+    output += RECOVERY_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output.match(/.{1,4}/g)!.join('-')
+}
+
+function decodeRecoveryKey(text: string): Uint8Array {
+  const normalized = text.toUpperCase().replace(/[\s-]/g, '').replace(/[IL]/g, '1').replace(/O/g, '0')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of normalized) {
+    const index = RECOVERY_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid recovery key')
+    value = ((value << 5) | index) & 0xffff
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  if (bytes.length !== KEY_LENGTH) throw new Error('Invalid recovery key')
+  return new Uint8Array(bytes)
+}
+
+function wrapKey(kek: Uint8Array, key: Uint8Array): WrappedKey {
+  const nonce = crypto.getRandomValues(new Uint8Array(CHACHA20_NONCE_LENGTH))
+  return {
+    nonce: bytesToBase64(nonce),
+    data: bytesToBase64(chacha20Poly1305Encrypt(kek, nonce, key, WRAP_CONTEXT))
+  }
+}
+
+// KEK 错误时认证失败，返回 null
+function unwrapKey(kek: Uint8Array, wrapped: WrappedKey): Uint8Array | null {
+  try {
+    return chacha20Poly1305Decrypt(kek, base64ToBytes(wrapped.nonce), base64ToBytes(wrapped.data), WRAP_CONTEXT)
+  } catch {
+    return null
+  }
+}
+
+function deriveRecoveryKek(recoveryKey: Uint8Array): Uint8Array {
+  return blake2b(KEY_LENGTH, new TextEncoder().encode('cardall-vault-recovery'), recoveryKey)
+}
+
+export class VaultService {
+  private listeners: VaultListener[] = []
+  private header: VaultHeader | null = null
+  private state: VaultState = { status: 'loading', idleTimeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES }
+  private initialization: Promise<VaultState> | null = null
+
+  // 注册状态变化监听器
+  onChange(listener: VaultListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getState(): VaultState {
+    return this.state
+  }
+
+  /**
+   * 读取保险库头信息，已启用时进入锁定状态
+   */
+  initialize(): Promise<VaultState> {
+    if (!this.initialization) {
+      this.initialization = (async () => {
+        const record = await db.settings.where('key').equals(HEADER_KEY).first()
+        this.header = (record?.value as VaultHeader | undefined) ?? null
+        vaultKeyring.setEnabled(this.header !== null)
+        this.updateState(this.header ? 'locked' : 'disabled')
+        return this.state
+      })().catch(error => {
+        // 无法读取设置时不阻塞应用，加密数据在解锁前仍无法读取
+        this.initialization = null
+        this.updateState('disabled')
+        throw error
+      })
+    }
+    return this.initialization
+  }
+
+  /**
+   * 启用保险库，加密现有数据，返回恢复密钥（只在此时显示一次）
+   */
+  async enable(passphrase: string, options: EnableVaultOptions = {}): Promise<string> {
+    await this.initialize()
+    if (this.header) throw new Error('Vault is already enabled')
+    if (!passphrase) throw new Error('Passphrase is required')
+
+    const dataKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH))
+    const recoveryKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH))
+    const kdf = createKdfParams(options.kdf ?? 'argon2id')
+    const kek = await derivePassphraseKey(passphrase, kdf)
+    const now = new Date()
+
+    // 先保存头信息再加密数据，中途失败时已加密的部分仍可解锁读取
+    await this.saveHeader({
+      version: 1,
+      kdf,
+      wrappedKey: wrapKey(kek, dataKey),
+      recoveryWrappedKey: wrapKey(deriveRecoveryKek(recoveryKey), dataKey),
+      idleTimeoutMinutes: options.idleTimeoutMinutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES,
+      createdAt: now,
+      updatedAt: now
+    })
+
+    vaultKeyring.setKey(dataKey)
+    vaultKeyring.setEnabled(true)
+    this.updateState('unlocked')
+    await this.resealAll()
+
+    return encodeRecoveryKey(recoveryKey)
+  }
+
+  /**
+   * 用口令解锁，口令错误时返回 false
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const header = await this.requireHeader()
+    const dataKey = unwrapKey(await derivePassphraseKey(passphrase, header.kdf), header.wrappedKey)
+    if (!dataKey) return false
+
+    vaultKeyring.setKey(dataKey)
+    this.updateState('unlocked')
+    return true
+  }
+
+  /**
+   * 用恢复密钥解锁并设置新口令
+   */
+  async recover(recoveryKey: string, newPassphrase: string): Promise<boolean> {
+    const header = await this.requireHeader()
+    if (!newPassphrase) throw new Error('Passphrase is required')
+
+    const dataKey = unwrapKey(deriveRecoveryKek(decodeRecoveryKey(recoveryKey)), header.recoveryWrappedKey)
+    if (!dataKey) return false
+
+    await this.rewrapDataKey(dataKey, newPassphrase, header.kdf.algorithm)
+    vaultKeyring.setKey(dataKey)
+    this.updateState('unlocked')
+    return true
+  }
+
+  /**
+   * 锁定：清除内存中的数据密钥和搜索索引，已解锁的卡片和文件夹一并重新锁定
+   */
+  lock(): void {
+    if (!this.header) return
+    vaultKeyring.clearKey()
+    cardSearchIndex.clear()
+    entityLockService.lockAll()
+    this.updateState('locked')
+  }
+
+  /**
+   * 修改口令，只重新包装数据密钥；当前口令错误时返回 false
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string, kdf?: VaultKdfAlgorithm): Promise<boolean> {
+    const header = await this.requireHeader()
+    if (!newPassphrase) throw new Error('Passphrase is required')
+
+    const dataKey = unwrapKey(await derivePassphraseKey(currentPassphrase, header.kdf), header.wrappedKey)
+    if (!dataKey) return false
+
+    await this.rewrapDataKey(dataKey, newPassphrase, kdf ?? header.kdf.algorithm)
+    return true
+  }
+
+  /**
+   * 生成新的恢复密钥，旧的恢复密钥随即失效
+   */
+  async regenerateRecoveryKey(): Promise<string> {
+    const header = await this.requireHeader()
+    const recoveryKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH))
+
+    await this.saveHeader({
+      ...header,
+      recoveryWrappedKey: wrapKey(deriveRecoveryKek(recoveryKey), vaultKeyring.requireKey()),
+      updatedAt: new Date()
+    })
+    return encodeRecoveryKey(recoveryKey)
+  }
+
+  async setIdleTimeout(minutes: number): Promise<void> {
+    const header = await this.requireHeader()
+    await this.saveHeader({ ...header, idleTimeoutMinutes: Math.max(0, minutes), updatedAt: new Date() })
+    this.updateState(this.state.status)
+  }
+
+  /**
+   * 关闭保险库并解密所有数据；口令错误时返回 false
+   */
+  async disable(passphrase: string): Promise<boolean> {
+    const header = await this.requireHeader()
+    const dataKey = unwrapKey(await derivePassphraseKey(passphrase, header.kdf), header.wrappedKey)
+    if (!dataKey) return false
+
+    vaultKeyring.setKey(dataKey)
+    vaultKeyring.setEnabled(false)
+    try {
+      await this.resealAll()
+    } catch (error) {
+      vaultKeyring.setEnabled(true)
+      throw error
+    }
+
+    await db.settings.where('key').equals(HEADER_KEY).delete()
+    this.header = null
+    vaultKeyring.clearKey()
+    this.updateState('disabled')
+    return true
+  }
+
+  private async rewrapDataKey(dataKey: Uint8Array, passphrase: string, algorithm: VaultKdfAlgorithm): Promise<void> {
+    const header = await this.requireHeader()
+    const kdf = createKdfParams(algorithm)
+    const kek = await derivePassphraseKey(passphrase, kdf)
+    await this.saveHeader({ ...header, kdf, wrappedKey: wrapKey(kek, dataKey), updatedAt: new Date() })
+  }
+
+  private async resealAll(): Promise<void> {
+    await db.vault.reseal()
+    await unifiedDb.vault.reseal()
+    await fileSystemService.resealImages()
+  }
+
+  private async requireHeader(): Promise<VaultHeader> {
+    await this.initialize()
+    if (!this.header) throw new Error('Vault is not enabled')
+    return this.header
+  }
+
+  private async saveHeader(header: VaultHeader): Promise<void> {
+    const existing = await db.settings.where('key').equals(HEADER_KEY).first()
+    const record = { key: HEADER_KEY, value: header, scope: 'global' as const, updatedAt: new Date() }
+    if (existing?.id !== undefined) {
+      await db.settings.put({ ...record, id: existing.id })
+    } else {
+      await db.settings.add(record)
+    }
+    this.header = header
+  }
+
+  private updateState(status: VaultState['status']): void {
+    this.state = {
+      status,
+      kdfAlgorithm: this.header?.kdf.algorithm,
+      idleTimeoutMinutes: this.header?.idleTimeoutMinutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES
+    }
+    this.listeners.forEach(listener => listener(this.state))
+  }
+}
+
+export const vaultService = new VaultService()
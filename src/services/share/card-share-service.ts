@@ -0,0 +1,416 @@
+/**
+ * 卡片分享服务
+ *
+ * 不依赖服务器：把卡片两面、样式、标签和缩小后内嵌的图片编码为压缩的 URL 片段（#share=...）
+ * 或 .cardall 文件。打开分享链接或文件时进入只读查看页，用户确认后交给主界面导入。
+ * 分享内容来自他人，解析时重新校验样式、只接受 data URL 图片，正文经编辑器规范化。
+ */
+
+import { Card, CardContent, CardStyle, ImageData } from '@/types/card'
+import {
+  PreparedShare,
+  SHARE_FILE_EXTENSION,
+  SHARE_FILE_MIME,
+  SHARE_FORMAT,
+  SHARE_FORMAT_VERSION,
+  SHARE_HASH_PARAM,
+  ShareViewerState,
+  SharedCard,
+  SharedCardContent
+} from '@/types/share'
+import { createSideContent, normalizeStyle, normalizeTags, normalizeTodos, serializeTodos } from '@/services/interchange/card-draft'
+import { EXPORT_FILE_NAME_LENGTH, blobToDataUrl, resolveImageBlob, rewriteImageSources } from '@/services/interchange/interchange-assets'
+import { sanitizeFileName } from '@/utils/screenshot-utils'
+import { normalizeEditorHtml } from '@/services/interchange/markdown-converter'
+
+type ShareViewerListener = (state: ShareViewerState) => void
+
+interface ImageOptions {
+  maxSize: number
+  quality: number
+}
+
+// 链接中的图片尽量小，文件中的图片保留更多细节
+const LINK_IMAGE_OPTIONS: ImageOptions = { maxSize: 320, quality: 0.5 }
+const FILE_IMAGE_OPTIONS: ImageOptions = { maxSize: 1280, quality: 0.8 }
+
+// 过长的链接在聊天软件等处容易被截断，超过时只提供文件
+export const MAX_SHARE_LINK_LENGTH = 32000
+
+// 片段数据前缀：z 为 deflate 压缩，j 为未压缩的 JSON（浏览器不支持 CompressionStream 时）
+const COMPRESSED_PREFIX = 'z'
+const PLAIN_PREFIX = 'j'
+
+const DATA_IMAGE_PATTERN = /^data:image\/(png|jpeg|gif|webp|avif|bmp);base64,[a-z0-9+/=]+$/i
+// 样式值直接写入 style，不允许引用外部资源
+const UNSAFE_STYLE_PATTERN = /url\(|expression\(|[;{}<>]/i
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+async function downscaleImage(src: string, options: ImageOptions): Promise<string> {
+  const blob = await resolveImageBlob(src)
+  const bitmap = await createImageBitmap(blob)
+
+  try {
+    const scale = Math.min(1, options.maxSize / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas is not available')
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    const output = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', options.quality))
+    if (!output) throw new Error('Failed to encode image')
+    return blobToDataUrl(output)
+  } finally {
+    bitmap.close()
+  }
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function sanitizeStyle(value: unknown): CardStyle {
+  const style = normalizeStyle(value) as unknown as Record<string, unknown>
+  const safe: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(style)) {
+    if (typeof entry === 'string' && !UNSAFE_STYLE_PATTERN.test(entry)) {
+      safe[key] = entry
+    } else if (typeof entry === 'number' && Number.isFinite(entry)) {
+      safe[key] = entry
+    } else if (key === 'gradientColors' && Array.isArray(entry)) {
+      safe[key] = entry.filter((color): color is string => typeof color === 'string' && !UNSAFE_STYLE_PATTERN.test(color))
+    }
+  }
+  return safe as unknown as CardStyle
+}
+
+function sanitizeImages(value: unknown): ImageData[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(image => image && typeof image === 'object' && DATA_IMAGE_PATTERN.test(asString(image.url)))
+    .map(image => ({
+      id: crypto.randomUUID(),
+      url: image.url,
+      alt: asString(image.alt),
+      width: asNumber(image.width),
+      height: asNumber(image.height),
+      aspectRatio: asNumber(image.aspectRatio)
+    }))
+}
+
+function sanitizeContent(value: unknown): SharedCardContent {
+  const side = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const text = normalizeEditorHtml(asString(side.text))
+  return {
+    title: asString(side.title).trim(),
+    // 正文中只保留内嵌的图片
+    text: text.replace(/<img\b[^>]*>/gi, tag => {
+      const src = /\ssrc="([^"]*)"/i.exec(tag)?.[1] ?? ''
+      return DATA_IMAGE_PATTERN.test(src) ? tag : ''
+    }),
+    images: sanitizeImages(side.images),
+    tags: normalizeTags(Array.isArray(side.tags) ? side.tags.filter((tag): tag is string => typeof tag === 'string') : []),
+    todos: serializeTodos(normalizeTodos(Array.isArray(side.todos) ? side.todos : []))
+  }
+}
+
+/**
+ * 校验分享数据，无效时抛出可直接显示的错误
+ */
+export function parseSharedCard(value: unknown): SharedCard {
+  if (!value || typeof value !== 'object' || (value as SharedCard).format !== SHARE_FORMAT) {
+    throw new Error('This is not a CardAll shared card.')
+  }
+
+  const data = value as SharedCard
+  if (typeof data.version !== 'number' || data.version > SHARE_FORMAT_VERSION) {
+    throw new Error('This card was shared from a newer version of CardAll.')
+  }
+
+  return {
+    format: SHARE_FORMAT,
+    version: data.version,
+    front: sanitizeContent(data.front),
+    back: sanitizeContent(data.back),
+    style: sanitizeStyle(data.style),
+    sharedAt: asString(data.sharedAt)
+  }
+}
+
+export class CardShareService {
+  private state: ShareViewerState = { shared: null, error: null }
+  private pendingImport: SharedCard | null = null
+  private listeners: ShareViewerListener[] = []
+  private started = false
+
+  // 注册查看页状态变化监听器
+  onChange(listener: ShareViewerListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  getState(): ShareViewerState {
+    return this.state
+  }
+
+  /**
+   * 读取页面地址中的分享数据并监听地址变化，只执行一次
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    window.addEventListener('hashchange', () => this.readLocation())
+    this.readLocation()
+  }
+
+  /**
+   * 打开 .cardall 文件
+   */
+  async openFile(file: File): Promise<void> {
+    try {
+      this.setState({ shared: await this.readFile(file), error: null })
+    } catch (error) {
+      console.error('Failed to open shared card file:', error)
+      this.setState({ shared: null, error: error instanceof Error ? error.message : 'The shared card could not be opened.' })
+    }
+  }
+
+  /**
+   * 关闭查看页并移除地址中的分享数据
+   */
+  close(): void {
+    if (window.location.hash) {
+      window.history.replaceState(window.history.state, '', window.location.pathname + window.location.search)
+    }
+    this.setState({ shared: null, error: null })
+  }
+
+  /**
+   * 把查看中的卡片交给主界面导入，随后关闭查看页
+   */
+  requestImport(): void {
+    this.pendingImport = this.state.shared
+    this.close()
+  }
+
+  /**
+   * 取出待导入的卡片，只返回一次
+   */
+  takePendingImport(): Card | null {
+    const shared = this.pendingImport
+    this.pendingImport = null
+    return shared ? this.toCard(shared) : null
+  }
+
+  isShareFile(file: File): boolean {
+    return file.type === SHARE_FILE_MIME || file.name.toLowerCase().endsWith(SHARE_FILE_EXTENSION)
+  }
+
+  /**
+   * 生成分享链接和文件。链接中的图片缩得更小，编码后仍过长时只提供文件
+   */
+  async prepare(card: Card): Promise<PreparedShare> {
+    if (card.lock) {
+      throw new Error("Locked cards can't be shared. Remove the lock first.")
+    }
+
+    const warnings: string[] = []
+    const title = card.frontContent.title.trim() || 'Untitled Card'
+    const fileData = await this.createSharedCard(card, FILE_IMAGE_OPTIONS, warnings)
+    const hasImages = [card.frontContent, card.backContent].some(side => side.images.length > 0 || /<img\b/i.test(side.text))
+    const linkData = hasImages ? await this.createSharedCard(card, LINK_IMAGE_OPTIONS, []) : fileData
+    const url = this.createLink(await this.encode(linkData))
+
+    return {
+      title,
+      url: url.length <= MAX_SHARE_LINK_LENGTH ? url : null,
+      file: new File([JSON.stringify(fileData)], `${sanitizeFileName(title, EXPORT_FILE_NAME_LENGTH)}${SHARE_FILE_EXTENSION}`, { type: SHARE_FILE_MIME }),
+      warnings
+    }
+  }
+
+  /**
+   * 通过系统分享面板分享：链接可用时分享链接，否则分享文件。用户取消时返回 false
+   */
+  async shareNatively(prepared: PreparedShare): Promise<boolean> {
+    const data: ShareData = prepared.url
+      ? { title: prepared.title, url: prepared.url }
+      : { title: prepared.title, files: [prepared.file] }
+
+    if (typeof navigator.share !== 'function' || (navigator.canShare && !navigator.canShare(data))) {
+      throw new Error('Sharing is not supported on this device.')
+    }
+
+    try {
+      await navigator.share(data)
+      return true
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return false
+      throw error
+    }
+  }
+
+  canShareNatively(prepared: PreparedShare): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.share !== 'function') return false
+    return !!prepared.url || !!navigator.canShare?.({ files: [prepared.file] })
+  }
+
+  async encode(shared: SharedCard): Promise<string> {
+    const bytes = new TextEncoder().encode(JSON.stringify(shared))
+    if (typeof CompressionStream === 'undefined') {
+      return PLAIN_PREFIX + toBase64Url(bytes)
+    }
+    return COMPRESSED_PREFIX + toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))
+  }
+
+  async decode(data: string): Promise<SharedCard> {
+    if (!data.startsWith(COMPRESSED_PREFIX) && !data.startsWith(PLAIN_PREFIX)) {
+      throw new Error('This share link is incomplete or damaged.')
+    }
+    if (data.startsWith(COMPRESSED_PREFIX) && typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot open compressed share links.')
+    }
+
+    let value: unknown
+    try {
+      const bytes = fromBase64Url(data.slice(1))
+      const json = data.startsWith(COMPRESSED_PREFIX)
+        ? new TextDecoder().decode(await transform(bytes, new DecompressionStream('deflate-raw')))
+        : new TextDecoder().decode(bytes)
+      value = JSON.parse(json)
+    } catch (error) {
+      console.warn('Failed to decode share link:', error)
+      throw new Error('This share link is incomplete or damaged.')
+    }
+    return parseSharedCard(value)
+  }
+
+  async readFile(file: File): Promise<SharedCard> {
+    let value: unknown
+    try {
+      value = JSON.parse(await file.text())
+    } catch {
+      throw new Error(`"${file.name}" is not a valid CardAll shared card.`)
+    }
+    return parseSharedCard(value)
+  }
+
+  /**
+   * 由分享数据创建新卡片
+   */
+  toCard(shared: SharedCard): Card {
+    const now = new Date()
+    const toContent = (side: SharedCardContent): CardContent => createSideContent({
+      title: side.title,
+      text: side.text,
+      images: side.images.map(image => ({ ...image, id: crypto.randomUUID() })),
+      tags: side.tags,
+      todos: normalizeTodos(side.todos),
+      lastModified: now
+    })
+
+    return {
+      id: crypto.randomUUID(),
+      frontContent: toContent(shared.front),
+      backContent: toContent(shared.back),
+      style: shared.style,
+      isFlipped: false,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private createLink(data: string): string {
+    return `${window.location.origin}/#${SHARE_HASH_PARAM}=${data}`
+  }
+
+  private async createSharedCard(card: Card, options: ImageOptions, warnings: string[]): Promise<SharedCard> {
+    // 同一图片只处理一次，失败时记为 null
+    const inlined = new Map<string, Promise<string | null>>()
+    const inline = (src: string) => {
+      let entry = inlined.get(src)
+      if (!entry) {
+        entry = downscaleImage(src, options).catch(error => {
+          console.warn('Failed to inline shared image:', error)
+          warnings.push(`An image could not be included: ${src.slice(0, 60)}`)
+          return null
+        })
+        inlined.set(src, entry)
+      }
+      return entry
+    }
+
+    const toShared = async (side: CardContent): Promise<SharedCardContent> => {
+      const images: ImageData[] = []
+      for (const image of side.images || []) {
+        const url = await inline(image.url)
+        if (url) images.push({ ...image, url })
+      }
+      return {
+        title: side.title,
+        text: await rewriteImageSources(side.text, inline),
+        images,
+        tags: side.tags,
+        todos: serializeTodos(side.todos || [])
+      }
+    }
+
+    return {
+      format: SHARE_FORMAT,
+      version: SHARE_FORMAT_VERSION,
+      front: await toShared(card.frontContent),
+      back: await toShared(card.backContent),
+      style: card.style,
+      sharedAt: new Date().toISOString()
+    }
+  }
+
+  private async readLocation(): Promise<void> {
+    const params = new URLSearchParams(window.location.hash.slice(1))
+    const data = params.get(SHARE_HASH_PARAM)
+    if (!data) return
+
+    try {
+      this.setState({ shared: await this.decode(data), error: null })
+    } catch (error) {
+      this.setState({ shared: null, error: error instanceof Error ? error.message : 'The shared card could not be opened.' })
+    }
+  }
+
+  private setState(state: ShareViewerState): void {
+    this.state = state
+    this.listeners.forEach(listener => listener(state))
+  }
+}
+
+export const cardShareService = new CardShareService()
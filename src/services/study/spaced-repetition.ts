@@ -0,0 +1,197 @@
+/**
+ * 间隔重复调度算法
+ *
+ * 基于 SM-2 算法，按 Anki 的方式扩展为 Again/Hard/Good/Easy 四档评分。
+ * 所有函数均为纯函数，不访问数据库，便于在服务和组件中复用。
+ */
+
+import { ReviewGrade, ReviewState } from '@/types/study'
+
+// ============================================================================
+// 调度参数
+// ============================================================================
+
+export interface SchedulerConfig {
+  initialEase: number // 新卡片初始难度系数
+  minimumEase: number // 难度系数下限
+  againEasePenalty: number
+  hardEasePenalty: number
+  easyEaseBonus: number
+  hardIntervalMultiplier: number
+  easyIntervalMultiplier: number
+  graduatingInterval: number // 第一次答对后的间隔（天）
+  secondInterval: number // 第二次答对后的间隔（天）
+  easyGraduatingInterval: number // 新卡片直接选择 Easy 的间隔（天）
+  relearnDelayMinutes: number // Again 后重新出现的延迟（分钟）
+  maximumInterval: number // 最大间隔（天）
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  initialEase: 2.5,
+  minimumEase: 1.3,
+  againEasePenalty: 0.2,
+  hardEasePenalty: 0.15,
+  easyEaseBonus: 0.15,
+  hardIntervalMultiplier: 1.2,
+  easyIntervalMultiplier: 1.3,
+  graduatingInterval: 1,
+  secondInterval: 6,
+  easyGraduatingInterval: 4,
+  relearnDelayMinutes: 10,
+  maximumInterval: 36500
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// ============================================================================
+// 调度函数
+// ============================================================================
+
+/**
+ * 为从未复习过的卡片创建初始状态，立即到期
+ */
+export function createInitialReviewState(
+  cardId: string,
+  now: Date = new Date(),
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): ReviewState {
+  return {
+    cardId,
+    easeFactor: config.initialEase,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * 根据评分计算下一次复习状态
+ */
+export function scheduleReview(
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): ReviewState {
+  let { easeFactor, interval, repetitions, lapses } = state
+  let dueAt: Date
+
+  switch (grade) {
+    case 'again': {
+      // 遗忘：重置连续次数，短时间后重新学习
+      easeFactor = Math.max(config.minimumEase, easeFactor - config.againEasePenalty)
+      repetitions = 0
+      lapses += state.repetitions > 0 ? 1 : 0
+      interval = 0
+      dueAt = new Date(now.getTime() + config.relearnDelayMinutes * MINUTE_MS)
+      break
+    }
+
+    case 'hard': {
+      easeFactor = Math.max(config.minimumEase, easeFactor - config.hardEasePenalty)
+      interval = repetitions === 0
+        ? config.graduatingInterval
+        : Math.max(interval + 1, Math.round(interval * config.hardIntervalMultiplier))
+      repetitions += 1
+      dueAt = addDays(now, interval, config)
+      break
+    }
+
+    case 'good': {
+      if (repetitions === 0) {
+        interval = config.graduatingInterval
+      } else if (repetitions === 1) {
+        interval = Math.max(config.secondInterval, interval + 1)
+      } else {
+        interval = Math.max(interval + 1, Math.round(interval * easeFactor))
+      }
+      repetitions += 1
+      dueAt = addDays(now, interval, config)
+      break
+    }
+
+    case 'easy': {
+      easeFactor = easeFactor + config.easyEaseBonus
+      if (repetitions === 0) {
+        interval = config.easyGraduatingInterval
+      } else {
+        interval = Math.max(interval + 1, Math.round(interval * easeFactor * config.easyIntervalMultiplier))
+      }
+      repetitions += 1
+      dueAt = addDays(now, interval, config)
+      break
+    }
+
+    default:
+      throw new Error(`Unknown review grade: ${grade}`)
+  }
+
+  interval = Math.min(interval, config.maximumInterval)
+
+  return {
+    ...state,
+    easeFactor: roundEase(easeFactor),
+    interval,
+    repetitions,
+    lapses,
+    dueAt,
+    lastReviewedAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * 预览每个评分对应的下一次间隔，用于在评分按钮上显示
+ */
+export function previewIntervals(
+  state: ReviewState,
+  now: Date = new Date(),
+  config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG
+): Record<ReviewGrade, number> {
+  return {
+    again: scheduleReview(state, 'again', now, config).dueAt.getTime() - now.getTime(),
+    hard: scheduleReview(state, 'hard', now, config).dueAt.getTime() - now.getTime(),
+    good: scheduleReview(state, 'good', now, config).dueAt.getTime() - now.getTime(),
+    easy: scheduleReview(state, 'easy', now, config).dueAt.getTime() - now.getTime()
+  }
+}
+
+/**
+ * 判断卡片是否到期
+ */
+export function isDue(state: ReviewState | undefined, now: Date = new Date()): boolean {
+  if (!state) return true
+  return new Date(state.dueAt).getTime() <= now.getTime()
+}
+
+/**
+ * 将毫秒间隔格式化为简短文本（如 10m、3d、2mo）
+ */
+export function formatInterval(ms: number): string {
+  if (ms < 60 * MINUTE_MS) {
+    return `${Math.max(1, Math.round(ms / MINUTE_MS))}m`
+  }
+  if (ms < DAY_MS) {
+    return `${Math.round(ms / (60 * MINUTE_MS))}h`
+  }
+  const days = Math.round(ms / DAY_MS)
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+function addDays(now: Date, days: number, config: SchedulerConfig): Date {
+  return new Date(now.getTime() + Math.min(days, config.maximumInterval) * DAY_MS)
+}
+
+function roundEase(ease: number): number {
+  return Math.round(ease * 100) / 100
+}
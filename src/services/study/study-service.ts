@@ -0,0 +1,180 @@
+/**
+ * 学习服务
+ *
+ * 管理卡片的复习状态和复习记录，提供到期队列和按文件夹/标签的到期统计。
+ * 调度计算委托给 spaced-repetition 中的纯函数。
+ */
+
+import { Card } from '@/types/card'
+import { DueCounts, ReviewGrade, ReviewLog, ReviewState, StudyScope } from '@/types/study'
+import { db } from '@/services/database'
+import {
+  DEFAULT_SCHEDULER_CONFIG,
+  SchedulerConfig,
+  createInitialReviewState,
+  isDue,
+  scheduleReview
+} from './spaced-repetition'
+
+type StudyChangeListener = (state: ReviewState) => void
+
+export class StudyService {
+  private listeners: StudyChangeListener[] = []
+  private config: SchedulerConfig
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config }
+  }
+
+  // 注册复习状态变化监听器
+  onChange(listener: StudyChangeListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  async getReviewState(cardId: string): Promise<ReviewState | undefined> {
+    return db.reviewStates.get(cardId)
+  }
+
+  // 获取全部复习状态，按卡片ID索引
+  async getReviewStates(): Promise<Map<string, ReviewState>> {
+    const states = await db.reviewStates.toArray()
+    return new Map(states.map(state => [state.cardId, state]))
+  }
+
+  /**
+   * 记录一次复习并更新调度状态
+   */
+  async recordReview(cardId: string, grade: ReviewGrade, durationMs?: number): Promise<ReviewState> {
+    const now = new Date()
+
+    const nextState = await db.transaction('rw', db.reviewStates, db.reviewLogs, async () => {
+      const current = (await db.reviewStates.get(cardId)) || createInitialReviewState(cardId, now, this.config)
+      const next = scheduleReview(current, grade, now, this.config)
+
+      await db.reviewStates.put(next)
+      await db.reviewLogs.add({
+        cardId,
+        grade,
+        reviewedAt: now,
+        previousInterval: current.interval,
+        nextInterval: next.interval,
+        easeFactor: next.easeFactor,
+        durationMs
+      })
+
+      return next
+    })
+
+    this.listeners.forEach(listener => listener(nextState))
+    return nextState
+  }
+
+  // 获取卡片的复习历史，最新的在前
+  async getHistory(cardId: string): Promise<ReviewLog[]> {
+    const logs = await db.reviewLogs.where('cardId').equals(cardId).sortBy('reviewedAt')
+    return logs.reverse()
+  }
+
+  // 重置卡片的学习进度
+  async resetCard(cardId: string): Promise<void> {
+    await db.transaction('rw', db.reviewStates, db.reviewLogs, async () => {
+      await db.reviewStates.delete(cardId)
+      await db.reviewLogs.where('cardId').equals(cardId).delete()
+    })
+  }
+
+  // 删除卡片时清理复习数据
+  async removeCards(cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return
+    await db.transaction('rw', db.reviewStates, db.reviewLogs, async () => {
+      await db.reviewStates.bulkDelete(cardIds)
+      await db.reviewLogs.where('cardId').anyOf(cardIds).delete()
+    })
+  }
+
+  /**
+   * 构建学习队列：先按到期时间排列已到期卡片，再追加新卡片
+   */
+  async buildQueue(cards: Card[], scope: StudyScope = {}, now: Date = new Date()): Promise<Card[]> {
+    const states = await this.getReviewStates()
+    return this.selectQueue(cards, states, scope, now)
+  }
+
+  selectQueue(
+    cards: Card[],
+    states: Map<string, ReviewState>,
+    scope: StudyScope = {},
+    now: Date = new Date()
+  ): Card[] {
+    const includeNew = scope.includeNew !== false
+    const inScope = cards.filter(card => matchesScope(card, scope))
+
+    const due = inScope
+      .filter(card => states.has(card.id) && isDue(states.get(card.id), now))
+      .sort((a, b) => new Date(states.get(a.id)!.dueAt).getTime() - new Date(states.get(b.id)!.dueAt).getTime())
+
+    const fresh = includeNew
+      ? inScope
+          .filter(card => !states.has(card.id))
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      : []
+
+    const queue = [...due, ...fresh]
+    return scope.limit ? queue.slice(0, scope.limit) : queue
+  }
+
+  async getDueCounts(cards: Card[], now: Date = new Date()): Promise<DueCounts> {
+    const states = await this.getReviewStates()
+    return this.computeDueCounts(cards, states, now)
+  }
+
+  /**
+   * 统计到期卡片（含新卡片），按文件夹和标签分组
+   */
+  computeDueCounts(cards: Card[], states: Map<string, ReviewState>, now: Date = new Date()): DueCounts {
+    const counts: DueCounts = {
+      total: 0,
+      newCards: 0,
+      byFolder: {},
+      byTag: {}
+    }
+
+    for (const card of cards) {
+      const state = states.get(card.id)
+      if (!isDue(state, now)) continue
+
+      counts.total += 1
+      if (!state) counts.newCards += 1
+
+      if (card.folderId) {
+        counts.byFolder[card.folderId] = (counts.byFolder[card.folderId] || 0) + 1
+      }
+
+      for (const tag of getCardTags(card)) {
+        counts.byTag[tag] = (counts.byTag[tag] || 0) + 1
+      }
+    }
+
+    return counts
+  }
+}
+
+// 卡片正反面标签去重合并
+function getCardTags(card: Card): string[] {
+  return Array.from(new Set([...card.frontContent.tags, ...card.backContent.tags]))
+}
+
+function matchesScope(card: Card, scope: StudyScope): boolean {
+  if (scope.cardIds && !scope.cardIds.includes(card.id)) return false
+  if (scope.folderId && card.folderId !== scope.folderId) return false
+  if (scope.tag && !getCardTags(card).includes(scope.tag)) return false
+  return true
+}
+
+export const studyService = new StudyService()
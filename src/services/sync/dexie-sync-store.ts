@@ -0,0 +1,238 @@
+/**
+ * 基于统一数据库的同步存储
+ *
+ * 读取 syncQueue 中的本地修改，版本信息保存在 syncMetadata，无法自动解决的冲突写入 conflictRecords。
+ * 实体本身不在统一数据库中：推送时从界面数据读取，远端变更也写回界面数据（见 SyncEntitySource）。
+ */
+
+import { db, SyncMetadata, SyncOperation } from '@/services/database-unified'
+import { SyncChange, SyncEntityType } from '@/types/sync'
+import {
+  PendingChange,
+  SyncConflictInput,
+  SyncEntitySource,
+  SyncStore,
+  entityKey,
+  fromSyncData,
+  toSyncData
+} from './sync-store'
+
+const DEVICE_ID_KEY = 'sync_device_id'
+const CURSOR_KEY = 'sync_cursor'
+
+function isSyncEntity(entity: SyncOperation['entity']): entity is SyncEntityType {
+  return entity === 'card' || entity === 'folder' || entity === 'tag'
+}
+
+// 实体的修改时间，没有时取队列记录的时间
+function updatedAtOf(entity: Record<string, unknown> | null, fallback: Date): string {
+  const value = entity?.updatedAt
+  return new Date(value instanceof Date || typeof value === 'string' ? value : fallback).toISOString()
+}
+
+export class DexieSyncStore implements SyncStore {
+  private deviceId: string | null = null
+
+  constructor(private readonly entities: SyncEntitySource) {}
+
+  async getDeviceId(): Promise<string> {
+    if (!this.deviceId) {
+      this.deviceId = await this.readSetting(DEVICE_ID_KEY) ?? crypto.randomUUID()
+      await this.writeSetting(DEVICE_ID_KEY, this.deviceId)
+    }
+    return this.deviceId
+  }
+
+  async getPendingChanges(limit: number): Promise<PendingChange[]> {
+    const deviceId = await this.getDeviceId()
+    const entries = await db.syncQueue
+      .orderBy('timestamp')
+      .filter(entry => (entry.status ?? 'pending') === 'pending' && isSyncEntity(entry.entity))
+      .toArray()
+
+    // 按实体分组，保持首次出现的顺序
+    const groups = new Map<string, SyncOperation[]>()
+    for (const entry of entries) {
+      const key = entityKey(entry.entity as SyncEntityType, entry.entityId)
+      if (!groups.has(key) && groups.size >= limit) continue
+      groups.set(key, [...(groups.get(key) || []), entry])
+    }
+
+    const pending: PendingChange[] = []
+    for (const group of groups.values()) {
+      const last = group[group.length - 1]
+      const entityType = last.entity as SyncEntityType
+      // 以实体当前状态为准；合并结果可能还没写入界面数据，使用队列中保存的合并数据
+      const entity: Record<string, unknown> | null = last.type === 'delete'
+        ? null
+        : last.data ?? await this.entities.getEntity(entityType, last.entityId)
+      // 新建的实体还没出现在界面数据中，留到下一次同步
+      if (!entity && last.type !== 'delete') continue
+
+      pending.push({
+        queueIds: group.map(entry => entry.id!),
+        change: {
+          entityType,
+          entityId: last.entityId,
+          operation: entity ? 'upsert' : 'delete',
+          data: toSyncData(entity),
+          baseVersion: await this.getCloudVersion(entityType, last.entityId),
+          updatedAt: updatedAtOf(entity, last.timestamp),
+          deviceId
+        }
+      })
+    }
+    return pending
+  }
+
+  async countPending(): Promise<number> {
+    return db.syncQueue.filter(entry => (entry.status ?? 'pending') === 'pending' && isSyncEntity(entry.entity)).count()
+  }
+
+  async hasPending(entityType: SyncEntityType, entityId: string): Promise<boolean> {
+    const count = await db.syncQueue
+      .where('entityId')
+      .equals(entityId)
+      .filter(entry => entry.entity === entityType)
+      .count()
+    return count > 0
+  }
+
+  async getEntity(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null> {
+    return this.entities.getEntity(entityType, entityId)
+  }
+
+  async getCloudVersion(entityType: SyncEntityType, entityId: string): Promise<number> {
+    const metadata = await this.getMetadata(entityType, entityId)
+    return metadata?.cloudVersion ?? 0
+  }
+
+  async getBaseData(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null> {
+    const metadata = await this.getMetadata(entityType, entityId)
+    return metadata?.baseData ?? null
+  }
+
+  async markPushed(pending: PendingChange, version: number): Promise<void> {
+    const { entityType, entityId } = pending.change
+
+    // 推送期间又有新修改时，新的队列记录保留到下一次推送
+    await db.transaction('rw', [db.syncQueue, db.syncMetadata], async () => {
+      await db.syncQueue.bulkDelete(pending.queueIds)
+      await this.saveMetadata(entityType, entityId, {
+        cloudVersion: version,
+        conflictStatus: 'none',
+        baseData: pending.change.data ?? null
+      })
+    })
+  }
+
+  async applyRemote(change: SyncChange): Promise<void> {
+    const data = change.operation === 'delete' || !change.data ? null : { ...fromSyncData(change.data), id: change.entityId }
+    await this.entities.applyEntity(change.entityType, change.entityId, data)
+
+    await db.transaction('rw', [db.syncQueue, db.syncMetadata], async () => {
+      // 采用远端版本时，本地未推送的修改随之作废
+      await db.syncQueue.where('entityId').equals(change.entityId).filter(entry => entry.entity === change.entityType).delete()
+      await this.saveMetadata(change.entityType, change.entityId, {
+        cloudVersion: change.version ?? 0,
+        conflictStatus: 'none',
+        baseData: change.data ?? null
+      })
+    })
+  }
+
+  async saveMerged(
+    entityType: SyncEntityType,
+    entityId: string,
+    data: Record<string, unknown> | null,
+    cloudVersion: number,
+    baseData: Record<string, unknown> | null
+  ): Promise<void> {
+    const now = new Date()
+    await this.entities.applyEntity(entityType, entityId, data ? { ...fromSyncData(data), id: entityId, updatedAt: now } : null)
+
+    await db.transaction('rw', [db.syncQueue, db.syncMetadata], async () => {
+      // 旧的队列记录由一条基于新版本的修改取代
+      await db.syncQueue.where('entityId').equals(entityId).filter(entry => entry.entity === entityType).delete()
+      await db.syncQueue.add({
+        id: crypto.randomUUID(),
+        type: data ? 'update' : 'delete',
+        entity: entityType,
+        entityId,
+        data: data ? { ...data, updatedAt: now.toISOString() } : null,
+        timestamp: now,
+        retryCount: 0,
+        priority: 'high',
+        status: 'pending'
+      })
+      await this.saveMetadata(entityType, entityId, { cloudVersion, conflictStatus: 'none', baseData })
+    })
+  }
+
+  async recordConflict(conflict: SyncConflictInput): Promise<void> {
+    await db.transaction('rw', [db.syncQueue, db.syncMetadata, db.conflictRecords], async () => {
+      await db.conflictRecords.add({
+        entityType: conflict.entityType,
+        entityId: conflict.entityId,
+        conflictType: conflict.conflictType,
+        localData: conflict.localData,
+        cloudData: conflict.cloudData,
+        cloudVersion: conflict.cloudVersion,
+        baseData: conflict.baseData ?? null,
+        unresolvedHunks: conflict.unresolvedHunks,
+        timestamp: new Date(),
+        resolution: 'pending'
+      })
+      await db.syncQueue
+        .where('entityId')
+        .equals(conflict.entityId)
+        .filter(entry => entry.entity === conflict.entityType)
+        .modify({ status: 'conflict' })
+      await this.saveMetadata(conflict.entityType, conflict.entityId, { conflictStatus: 'pending' })
+    })
+  }
+
+  async countConflicts(): Promise<number> {
+    return db.conflictRecords.filter(record => record.resolution === 'pending').count()
+  }
+
+  async getCursor(): Promise<string | null> {
+    return this.readSetting(CURSOR_KEY)
+  }
+
+  async setCursor(cursor: string): Promise<void> {
+    await this.writeSetting(CURSOR_KEY, cursor)
+  }
+
+  private getMetadata(entityType: SyncEntityType, entityId: string): Promise<SyncMetadata | undefined> {
+    return db.syncMetadata.where('[entityType+entityId]').equals([entityType, entityId]).first()
+  }
+
+  private async saveMetadata(
+    entityType: SyncEntityType,
+    entityId: string,
+    updates: Partial<Pick<SyncMetadata, 'cloudVersion' | 'conflictStatus' | 'baseData'>>
+  ): Promise<void> {
+    const existing = await this.getMetadata(entityType, entityId)
+    await db.syncMetadata.put({
+      ...existing,
+      entityType,
+      entityId,
+      syncVersion: updates.cloudVersion ?? existing?.syncVersion ?? 0,
+      cloudVersion: updates.cloudVersion ?? existing?.cloudVersion ?? 0,
+      conflictStatus: updates.conflictStatus ?? existing?.conflictStatus ?? 'none',
+      baseData: updates.baseData !== undefined ? updates.baseData : existing?.baseData,
+      lastSyncAt: new Date()
+    })
+  }
+
+  private async readSetting(key: string): Promise<string | null> {
+    const setting = await db.settings.where('[key+scope]').equals([key, 'global']).first()
+    return setting?.value ?? null
+  }
+
+  private async writeSetting(key: string, value: string): Promise<void> {
+    const existing = await db.settings.where('[key+scope]').equals([key, 'global']).first()
+    await db.settings.put({ ...existing, key, value, scope: 'global', updatedAt: new Date() })
+  }
+}
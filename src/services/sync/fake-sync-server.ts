@@ -0,0 +1,94 @@
+/**
+ * 进程内假同步服务器
+ *
+ * 按实体保存最新版本和一份追加式变更日志，游标即日志中的位置。
+ * 推送的基础版本与服务端当前版本不一致时返回冲突，用于在没有真实后端的情况下测试同步引擎。
+ */
+
+import {
+  SyncChange,
+  SyncPullRequest,
+  SyncPullResult,
+  SyncPushRequest,
+  SyncPushResult,
+  SyncRequestHandler
+} from '@/types/sync'
+import { entityKey } from './sync-store'
+
+const DEFAULT_PULL_LIMIT = 200
+
+export class FakeSyncServer implements SyncRequestHandler {
+  private records = new Map<string, SyncChange>()
+  private log: SyncChange[] = []
+  private listeners = new Set<() => void>()
+  private offline = false
+
+  async push(request: SyncPushRequest): Promise<SyncPushResult> {
+    this.assertOnline()
+    const result: SyncPushResult = { accepted: [], conflicts: [] }
+
+    for (const change of request.changes) {
+      const key = entityKey(change.entityType, change.entityId)
+      const current = this.records.get(key)
+
+      if ((current?.version ?? 0) !== change.baseVersion) {
+        result.conflicts.push(current ?? { ...change, operation: 'delete', data: undefined, version: 0 })
+        continue
+      }
+
+      const stored: SyncChange = { ...change, version: (current?.version ?? 0) + 1 }
+      this.records.set(key, stored)
+      this.log.push(stored)
+      result.accepted.push({ entityType: change.entityType, entityId: change.entityId, version: stored.version! })
+    }
+
+    if (result.accepted.length > 0) {
+      this.listeners.forEach(listener => listener())
+    }
+    return result
+  }
+
+  async pull(request: SyncPullRequest): Promise<SyncPullResult> {
+    this.assertOnline()
+    const start = request.cursor ? parseInt(request.cursor, 10) || 0 : 0
+    const end = Math.min(start + (request.limit ?? DEFAULT_PULL_LIMIT), this.log.length)
+
+    return {
+      // 不返回请求设备自己推送的变更
+      changes: this.log.slice(start, end).filter(change => change.deviceId !== request.deviceId),
+      cursor: String(end),
+      hasMore: end < this.log.length
+    }
+  }
+
+  /**
+   * 订阅新变更通知，返回取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * 模拟网络中断，之后的请求都以网络错误失败
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline
+  }
+
+  getRecord(entityType: SyncChange['entityType'], entityId: string): SyncChange | undefined {
+    return this.records.get(entityKey(entityType, entityId))
+  }
+
+  reset(): void {
+    this.records.clear()
+    this.log = []
+    this.offline = false
+  }
+
+  private assertOnline(): void {
+    if (this.offline) {
+      throw new TypeError('Failed to fetch')
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * 本地修改的同步队列
+ *
+ * 撤销/重做层在卡片、文件夹和标签的修改执行后，把修改过的实体写入统一数据库的 syncQueue，由同步引擎推送。
+ * 队列只记录实体和操作类型，推送时读取实体的当前数据；远端变更直接写入界面数据，不经过这里。
+ */
+
+import { db, SyncOperation } from '@/services/database-unified'
+import { UndoEntityState, collectFolderDeletion } from '@/services/undo/undo-actions'
+import { reorderItemKeys } from '@/services/ordering/manual-order'
+import { UndoableAction } from '@/types/undo'
+import { SyncEntityType } from '@/types/sync'
+
+export interface LocalChange {
+  entityType: SyncEntityType
+  entityId: string
+  type: SyncOperation['type']
+}
+
+/**
+ * 根据执行前的状态找出一组操作修改的实体
+ * 纯界面状态（翻转、选择、展开、标签显隐）不参与同步
+ */
+export function collectLocalChanges(actions: UndoableAction[], state: UndoEntityState): LocalChange[] {
+  const changes: LocalChange[] = []
+  const add = (entityType: SyncEntityType, type: SyncOperation['type'], entityIds: string[]) => {
+    entityIds.forEach(entityId => changes.push({ entityType, entityId, type }))
+  }
+
+  for (const item of actions) {
+    if (item.entity === 'card') {
+      const { action } = item
+      switch (action.type) {
+        case 'IMPORT_CARDS':
+          add('card', 'create', action.payload.map(card => card.id))
+          break
+        case 'UPDATE_CARD':
+          add('card', 'update', [action.payload.id])
+          break
+        case 'MOVE_TO_FOLDER':
+          add('card', 'update', [action.payload.cardId])
+          break
+        case 'DELETE_CARD':
+          add('card', 'delete', [action.payload])
+          break
+      }
+    } else if (item.entity === 'folder') {
+      const { action } = item
+      switch (action.type) {
+        case 'IMPORT_FOLDERS':
+          add('folder', 'create', action.payload.map(folder => folder.id))
+          break
+        case 'UPDATE_FOLDER':
+          add('folder', 'update', [action.payload.id])
+          break
+        case 'DELETE_FOLDER':
+          // 子文件夹随之删除
+          add('folder', 'delete', collectFolderDeletion(action.payload, state.folders).folders.map(folder => folder.id))
+          break
+        case 'REORDER_FOLDERS':
+          add('folder', 'update', Object.keys(reorderItemKeys(action.payload, state.folders)))
+          break
+      }
+    } else {
+      const { action } = item
+      switch (action.type) {
+        case 'IMPORT_TAGS':
+          add('tag', 'create', action.payload.map(tag => tag.id))
+          break
+        case 'UPDATE_TAG':
+          add('tag', 'update', [action.payload.id])
+          break
+        case 'DELETE_TAG':
+          add('tag', 'delete', [action.payload])
+          break
+        case 'REORDER_TAGS':
+          add('tag', 'update', Object.keys(reorderItemKeys(action.payload, state.tags)))
+          break
+      }
+    }
+  }
+  return changes
+}
+
+class LocalChangeQueue {
+  /**
+   * 将本地修改加入同步队列
+   */
+  async enqueue(changes: LocalChange[]): Promise<void> {
+    if (changes.length === 0) return
+
+    await db.transaction('rw', db.syncQueue, async () => {
+      for (const change of changes) {
+        const existing = await db.syncQueue
+          .where('entityId')
+          .equals(change.entityId)
+          .filter(entry => entry.entity === change.entityType)
+          .toArray()
+
+        await db.syncQueue.add({
+          id: crypto.randomUUID(),
+          type: change.type,
+          entity: change.entityType,
+          entityId: change.entityId,
+          timestamp: new Date(),
+          retryCount: 0,
+          priority: 'normal',
+          // 有未解决冲突的实体在冲突处理前继续暂停推送
+          status: existing.some(entry => entry.status === 'conflict') ? 'conflict' : 'pending'
+        })
+      }
+    })
+  }
+}
+
+export const localChangeQueue = new LocalChangeQueue()
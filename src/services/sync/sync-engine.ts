@@ -0,0 +1,320 @@
+/**
+ * 多设备同步引擎
+ *
+ * 一次同步分三步：推送同步队列中的本地修改 → 按游标分页拉取远端变更 → 如有合并结果再推送一次。
+ * 服务端拒绝的推送和与本地未推送修改相撞的远端变更交给 ConflictResolutionEngine 以上次同步的版本为基础做三方合并，
+ * 两边修改了同一部分的冲突连同未解决的片段写入冲突记录，等待人工处理。
+ */
+
+import { ConflictResolutionEngine, ResolutionStatus } from '@/services/conflict/conflict-resolution-engine'
+import { EnhancedOfflineOperation } from '@/services/offline/enhanced-offline-manager'
+import { ConflictInfo, ConflictType, ResolutionType } from '@/types/offline'
+import { SyncChange, SyncRunResult, SyncStatus, SyncTransport } from '@/types/sync'
+import { backgroundSyncService } from '@/services/pwa/background-sync'
+import { DexieSyncStore } from './dexie-sync-store'
+import { PendingChange, SyncEntitySource, SyncStore, entityKey, toSyncData } from './sync-store'
+import { SyncTransportError } from './sync-transports'
+
+export interface SyncEngineOptions {
+  store: SyncStore
+  transport: SyncTransport
+  conflictEngine?: ConflictResolutionEngine
+  batchSize?: number // 每次推送的实体数
+  pullLimit?: number // 每页拉取的变更数
+}
+
+export interface SyncScheduleOptions {
+  interval?: number // 自动同步间隔（毫秒）
+  maxBackoff?: number // 失败后的最长重试间隔（毫秒）
+}
+
+// 单次同步中推送的最大轮数，防止合并结果反复冲突时无限循环
+const MAX_PUSH_ROUNDS = 10
+
+/**
+ * 同步冲突的默认处理方式：三方合并，没有基础版本时字段级合并、同一字段取较新的修改；删除冲突交给人工处理
+ */
+function createDefaultConflictEngine(): ConflictResolutionEngine {
+  return new ConflictResolutionEngine({
+    strategy: {
+      conflictThreshold: 1,
+      typeStrategies: { [ConflictType.DELETE_CONFLICT]: ResolutionType.MANUAL }
+    }
+  })
+}
+
+export class SyncEngine {
+  private store: SyncStore
+  private transport: SyncTransport
+  private conflictEngine: ConflictResolutionEngine
+  private batchSize: number
+  private pullLimit: number
+
+  private status: SyncStatus = { state: 'idle', pendingChanges: 0, conflicts: 0 }
+  private listeners = new Set<(status: SyncStatus) => void>()
+  private running: Promise<SyncRunResult> | null = null
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private failures = 0
+  private cleanup: (() => void)[] = []
+  private resolved = new Map<string, number>() // 本次同步中已处理冲突的实体及其远端版本
+
+  constructor(options: SyncEngineOptions) {
+    this.store = options.store
+    this.transport = options.transport
+    this.conflictEngine = options.conflictEngine ?? createDefaultConflictEngine()
+    this.batchSize = options.batchSize ?? 50
+    this.pullLimit = options.pullLimit ?? 200
+  }
+
+  getStatus(): SyncStatus {
+    return this.status
+  }
+
+  /**
+   * 订阅同步状态变化，返回取消订阅函数
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * 执行一次完整同步，同步进行中再次调用会返回同一次同步的结果
+   */
+  sync(): Promise<SyncRunResult> {
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  /**
+   * 开始自动同步：定时同步、远端通知、网络恢复和后台同步时都会触发
+   */
+  start(options: SyncScheduleOptions = {}): void {
+    const { interval = 30000, maxBackoff = 5 * 60 * 1000 } = options
+    this.stop()
+
+    const schedule = (delay: number) => {
+      this.timer = setTimeout(run, delay)
+    }
+    const run = async () => {
+      this.timer = null
+      try {
+        await this.sync()
+        this.failures = 0
+      } catch {
+        this.failures++
+        // 离线导致失败时，请求在网络恢复后由后台同步唤醒
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+          backgroundSyncService.requestSync()
+        }
+      }
+      // 连续失败时指数退避
+      schedule(this.failures > 0 ? Math.min(interval * 2 ** (this.failures - 1), maxBackoff) : interval)
+    }
+    const trigger = () => {
+      if (this.timer) clearTimeout(this.timer)
+      run()
+    }
+
+    if (this.transport.subscribe) {
+      this.cleanup.push(this.transport.subscribe(trigger))
+    }
+    this.cleanup.push(backgroundSyncService.register('sync-queue', () => this.sync()))
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', trigger)
+      this.cleanup.push(() => window.removeEventListener('online', trigger))
+    }
+    trigger()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.cleanup.forEach(fn => fn())
+    this.cleanup = []
+  }
+
+  destroy(): void {
+    this.stop()
+    this.transport.close?.()
+    this.listeners.clear()
+  }
+
+  private async runSync(): Promise<SyncRunResult> {
+    const result: SyncRunResult = { pushed: 0, pulled: 0, merged: 0, conflicts: 0 }
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      await this.updateStatus({ state: 'offline' })
+      return result
+    }
+
+    await this.updateStatus({ state: 'syncing', error: undefined })
+    this.resolved.clear()
+
+    try {
+      await this.pushAll(result)
+      await this.pullAll(result)
+      // 合并结果已重新排队，立即推送
+      if (result.merged > 0) {
+        await this.pushAll(result)
+      }
+      await this.updateStatus({ state: 'idle', lastSyncAt: new Date() })
+      return result
+    } catch (error) {
+      const offline = (error instanceof SyncTransportError && error.offline) || error instanceof TypeError
+      await this.updateStatus({
+        state: offline ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : String(error)
+      })
+      throw error
+    }
+  }
+
+  private async pushAll(result: SyncRunResult): Promise<void> {
+    const deviceId = await this.store.getDeviceId()
+
+    for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+      const pending = await this.store.getPendingChanges(this.batchSize)
+      if (pending.length === 0) return
+
+      const response = await this.transport.push({ deviceId, changes: pending.map(item => item.change) })
+
+      for (const accepted of response.accepted) {
+        const item = findPending(pending, accepted.entityType, accepted.entityId)
+        if (item) {
+          await this.store.markPushed(item, accepted.version)
+          result.pushed++
+        }
+      }
+
+      for (const remote of response.conflicts) {
+        const item = findPending(pending, remote.entityType, remote.entityId)
+        if (item) {
+          await this.resolve(item.change, remote, result)
+        }
+      }
+    }
+  }
+
+  private async pullAll(result: SyncRunResult): Promise<void> {
+    const deviceId = await this.store.getDeviceId()
+    let cursor = await this.store.getCursor()
+    let hasMore = true
+
+    while (hasMore) {
+      const page = await this.transport.pull({ deviceId, cursor, limit: this.pullLimit })
+
+      for (const remote of page.changes) {
+        const cloudVersion = await this.store.getCloudVersion(remote.entityType, remote.entityId)
+        if ((remote.version ?? 0) <= cloudVersion) continue
+        // 推送时已作为冲突处理过的同一版本
+        if ((remote.version ?? 0) <= (this.resolved.get(entityKey(remote.entityType, remote.entityId)) ?? 0)) continue
+
+        if (await this.store.hasPending(remote.entityType, remote.entityId)) {
+          const local = await this.store.getEntity(remote.entityType, remote.entityId)
+          await this.resolve(
+            {
+              ...remote,
+              operation: local ? 'upsert' : 'delete',
+              data: toSyncData(local),
+              version: undefined,
+              deviceId
+            },
+            remote,
+            result
+          )
+        } else {
+          await this.store.applyRemote(remote)
+        }
+        result.pulled++
+      }
+
+      cursor = page.cursor
+      await this.store.setCursor(cursor)
+      hasMore = page.hasMore
+    }
+  }
+
+  /**
+   * 用冲突引擎处理本地修改与远端版本的分歧
+   */
+  private async resolve(local: SyncChange, remote: SyncChange, result: SyncRunResult): Promise<void> {
+    const remoteVersion = remote.version ?? 0
+    this.resolved.set(entityKey(local.entityType, local.entityId), remoteVersion)
+
+    const conflict: ConflictInfo = {
+      id: `sync-${local.entityType}-${local.entityId}-${remoteVersion}-${Date.now()}`,
+      type: local.operation === 'delete' || remote.operation === 'delete'
+        ? ConflictType.DELETE_CONFLICT
+        : ConflictType.CONCURRENT_MODIFICATION,
+      entityType: local.entityType,
+      entityId: local.entityId,
+      localOperationId: 'local',
+      remoteOperationId: 'remote',
+      baseOperationId: 'base',
+      detectedAt: new Date()
+    }
+
+    // 引擎按操作比较两边的数据和修改时间，上次同步确认的版本作为三方合并的基础
+    const baseData = await this.store.getBaseData(local.entityType, local.entityId)
+    const operations = [
+      { id: 'local', type: local.operation === 'delete' ? 'delete' : 'update', data: local.data ?? null, createdAt: new Date(local.updatedAt) },
+      { id: 'remote', type: remote.operation === 'delete' ? 'delete' : 'update', data: remote.data ?? null, createdAt: new Date(remote.updatedAt) },
+      { id: 'base', type: 'update', data: baseData, createdAt: new Date(0) }
+    ] as unknown as EnhancedOfflineOperation[]
+
+    const resolution = await this.conflictEngine.resolveConflict(conflict, operations)
+
+    if (resolution.status === ResolutionStatus.SUCCESS) {
+      if (resolution.resolutionType === ResolutionType.ACCEPT_REMOTE) {
+        await this.store.applyRemote(remote)
+      } else {
+        await this.store.saveMerged(local.entityType, local.entityId, resolution.resolvedData ?? null, remoteVersion, remote.data ?? null)
+      }
+      result.merged++
+      return
+    }
+
+    await this.store.recordConflict({
+      entityType: local.entityType,
+      entityId: local.entityId,
+      localData: local.data ?? null,
+      cloudData: remote.data ?? null,
+      cloudVersion: remoteVersion,
+      conflictType: conflict.type,
+      baseData,
+      unresolvedHunks: resolution.unresolvedHunks
+    })
+    result.conflicts++
+  }
+
+  private async updateStatus(updates: Partial<SyncStatus>): Promise<void> {
+    const [pendingChanges, conflicts] = await Promise.all([
+      this.store.countPending(),
+      this.store.countConflicts()
+    ])
+    this.status = { ...this.status, ...updates, pendingChanges, conflicts }
+    this.listeners.forEach(listener => listener(this.status))
+  }
+}
+
+function findPending(pending: PendingChange[], entityType: string, entityId: string): PendingChange | undefined {
+  return pending.find(item => item.change.entityType === entityType && item.change.entityId === entityId)
+}
+
+/**
+ * 创建使用本地统一数据库保存同步队列和版本信息的同步引擎，实体数据由 entities 读写
+ */
+export function createSyncEngine(
+  transport: SyncTransport,
+  entities: SyncEntitySource,
+  options: Omit<SyncEngineOptions, 'store' | 'transport'> = {}
+): SyncEngine {
+  return new SyncEngine({ ...options, store: new DexieSyncStore(entities), transport })
+}
@@ -0,0 +1,256 @@
+/**
+ * 同步引擎的本地存储接口
+ *
+ * 引擎只通过此接口读取待推送的修改、写入远端变更和记录冲突，
+ * 浏览器中使用 DexieSyncStore，进程内测试使用 MemorySyncStore。
+ */
+
+import { MergeHunk } from '@/services/conflict/three-way-merge'
+import { SyncChange, SyncEntityType } from '@/types/sync'
+
+/**
+ * 一个实体的待推送修改，由同步队列中该实体的所有记录合并而来
+ */
+export interface PendingChange {
+  queueIds: string[]
+  change: SyncChange
+}
+
+export interface SyncConflictInput {
+  entityType: SyncEntityType
+  entityId: string
+  localData: Record<string, unknown> | null
+  cloudData: Record<string, unknown> | null
+  cloudVersion: number
+  conflictType: string
+  baseData?: Record<string, unknown> | null
+  unresolvedHunks?: MergeHunk[]
+}
+
+/**
+ * 界面读写的卡片、文件夹和标签数据
+ * DexieSyncStore 从这里读取要推送的实体，远端变更和合并结果也写回这里
+ */
+export interface SyncEntitySource {
+  getEntity(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null>
+  /** 写入远端或合并后的数据，data 为空表示删除；写入不经过撤销层，也不会再次加入同步队列 */
+  applyEntity(entityType: SyncEntityType, entityId: string, data: Record<string, unknown> | null): Promise<void>
+}
+
+export interface SyncStore {
+  getDeviceId(): Promise<string>
+  getPendingChanges(limit: number): Promise<PendingChange[]>
+  countPending(): Promise<number>
+  hasPending(entityType: SyncEntityType, entityId: string): Promise<boolean>
+  getEntity(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null>
+  getCloudVersion(entityType: SyncEntityType, entityId: string): Promise<number>
+  /** 服务端确认版本的数据，作为三方合并的基础版本 */
+  getBaseData(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null>
+  /** 推送成功：移除已推送的队列记录并保存服务端版本 */
+  markPushed(pending: PendingChange, version: number): Promise<void>
+  /** 写入远端变更，不产生新的同步队列记录 */
+  applyRemote(change: SyncChange): Promise<void>
+  /** 写入冲突合并结果，并以新的基础版本重新排队推送；baseData 为该版本在服务端的数据 */
+  saveMerged(
+    entityType: SyncEntityType,
+    entityId: string,
+    data: Record<string, unknown> | null,
+    cloudVersion: number,
+    baseData: Record<string, unknown> | null
+  ): Promise<void>
+  /** 记录无法自动解决的冲突，相关队列记录暂停推送 */
+  recordConflict(conflict: SyncConflictInput): Promise<void>
+  countConflicts(): Promise<number>
+  getCursor(): Promise<string | null>
+  setCursor(cursor: string): Promise<void>
+}
+
+// 只在本地有意义的字段，不参与同步（界面状态和由卡片派生的标签计数）
+const LOCAL_ONLY_FIELDS = [
+  'userId', 'syncVersion', 'pendingSync', 'lastSyncAt', 'searchVector',
+  'isFlipped', 'isSelected', 'isExpanded', 'isHidden', 'count'
+]
+
+// 需要从 ISO 字符串还原为 Date 的字段
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'lastModified'])
+
+/**
+ * 实体转为可传输的 JSON 数据
+ */
+export function toSyncData(entity: object | null | undefined): Record<string, unknown> | undefined {
+  if (!entity) return undefined
+  const data = JSON.parse(JSON.stringify(entity)) as Record<string, unknown>
+  LOCAL_ONLY_FIELDS.forEach(field => delete data[field])
+  return data
+}
+
+/**
+ * 还原传输数据中的日期字段（包括卡片正反面内容中的 lastModified）
+ */
+export function fromSyncData(data: Record<string, unknown>): Record<string, unknown> {
+  const revive = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(revive)
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = DATE_FIELDS.has(key) && typeof item === 'string' ? new Date(item) : revive(item)
+      }
+      return result
+    }
+    return value
+  }
+  return revive(data) as Record<string, unknown>
+}
+
+export function entityKey(entityType: SyncEntityType, entityId: string): string {
+  return `${entityType}:${entityId}`
+}
+
+interface MemoryQueueEntry {
+  id: string
+  entityType: SyncEntityType
+  entityId: string
+  deleted: boolean
+  timestamp: Date
+  status: 'pending' | 'conflict'
+}
+
+/**
+ * 内存存储，用于在没有 IndexedDB 的环境下配合假服务器测试同步流程
+ */
+export class MemorySyncStore implements SyncStore {
+  readonly entities = new Map<string, Record<string, unknown>>()
+  readonly conflicts: SyncConflictInput[] = []
+  private queue: MemoryQueueEntry[] = []
+  private cloudVersions = new Map<string, number>()
+  private baseData = new Map<string, Record<string, unknown> | null>()
+  private cursor: string | null = null
+  private nextId = 1
+
+  constructor(private readonly deviceId = `memory-${Math.random().toString(36).slice(2, 10)}`) {}
+
+  /**
+   * 模拟本地修改：写入实体并加入同步队列，data 为空表示删除
+   */
+  write(entityType: SyncEntityType, entityId: string, data: Record<string, unknown> | null): void {
+    const key = entityKey(entityType, entityId)
+    if (data) {
+      this.entities.set(key, { ...data, id: entityId, updatedAt: new Date() })
+    } else {
+      this.entities.delete(key)
+    }
+    this.queue.push({
+      id: String(this.nextId++),
+      entityType,
+      entityId,
+      deleted: !data,
+      timestamp: new Date(),
+      status: 'pending'
+    })
+  }
+
+  async getDeviceId(): Promise<string> {
+    return this.deviceId
+  }
+
+  async getPendingChanges(limit: number): Promise<PendingChange[]> {
+    const groups = new Map<string, MemoryQueueEntry[]>()
+    for (const entry of this.queue) {
+      if (entry.status !== 'pending') continue
+      const key = entityKey(entry.entityType, entry.entityId)
+      if (!groups.has(key) && groups.size >= limit) continue
+      groups.set(key, [...(groups.get(key) || []), entry])
+    }
+
+    return Array.from(groups.entries()).map(([key, entries]) => {
+      const last = entries[entries.length - 1]
+      const entity = last.deleted ? undefined : this.entities.get(key)
+      return {
+        queueIds: entries.map(entry => entry.id),
+        change: {
+          entityType: last.entityType,
+          entityId: last.entityId,
+          operation: entity ? 'upsert' : 'delete',
+          data: toSyncData(entity),
+          baseVersion: this.cloudVersions.get(key) ?? 0,
+          updatedAt: (entity?.updatedAt as Date | undefined ?? last.timestamp).toISOString(),
+          deviceId: this.deviceId
+        }
+      }
+    })
+  }
+
+  async countPending(): Promise<number> {
+    return this.queue.filter(entry => entry.status === 'pending').length
+  }
+
+  async hasPending(entityType: SyncEntityType, entityId: string): Promise<boolean> {
+    return this.queue.some(entry => entry.entityType === entityType && entry.entityId === entityId)
+  }
+
+  async getEntity(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null> {
+    return this.entities.get(entityKey(entityType, entityId)) ?? null
+  }
+
+  async getCloudVersion(entityType: SyncEntityType, entityId: string): Promise<number> {
+    return this.cloudVersions.get(entityKey(entityType, entityId)) ?? 0
+  }
+
+  async getBaseData(entityType: SyncEntityType, entityId: string): Promise<Record<string, unknown> | null> {
+    return this.baseData.get(entityKey(entityType, entityId)) ?? null
+  }
+
+  async markPushed(pending: PendingChange, version: number): Promise<void> {
+    const ids = new Set(pending.queueIds)
+    const key = entityKey(pending.change.entityType, pending.change.entityId)
+    this.queue = this.queue.filter(entry => !ids.has(entry.id))
+    this.cloudVersions.set(key, version)
+    this.baseData.set(key, pending.change.data ?? null)
+  }
+
+  async applyRemote(change: SyncChange): Promise<void> {
+    const key = entityKey(change.entityType, change.entityId)
+    if (change.operation === 'delete' || !change.data) {
+      this.entities.delete(key)
+    } else {
+      this.entities.set(key, fromSyncData(change.data))
+    }
+    this.cloudVersions.set(key, change.version ?? 0)
+    this.baseData.set(key, change.data ?? null)
+  }
+
+  async saveMerged(
+    entityType: SyncEntityType,
+    entityId: string,
+    data: Record<string, unknown> | null,
+    cloudVersion: number,
+    baseData: Record<string, unknown> | null
+  ): Promise<void> {
+    const key = entityKey(entityType, entityId)
+    this.queue = this.queue.filter(entry => entry.entityType !== entityType || entry.entityId !== entityId)
+    this.cloudVersions.set(key, cloudVersion)
+    this.baseData.set(key, baseData)
+    this.write(entityType, entityId, data ? fromSyncData(data) : null)
+  }
+
+  async recordConflict(conflict: SyncConflictInput): Promise<void> {
+    this.conflicts.push(conflict)
+    this.queue.forEach(entry => {
+      if (entry.entityType === conflict.entityType && entry.entityId === conflict.entityId) {
+        entry.status = 'conflict'
+      }
+    })
+  }
+
+  async countConflicts(): Promise<number> {
+    return this.conflicts.length
+  }
+
+  async getCursor(): Promise<string | null> {
+    return this.cursor
+  }
+
+  async setCursor(cursor: string): Promise<void> {
+    this.cursor = cursor
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * 同步传输层
+ *
+ * HTTP 传输使用 POST {baseUrl}/push 和 {baseUrl}/pull 两个 JSON 端点；
+ * WebSocket 和 WebRTC 数据通道共用同一套请求/响应消息帧（SyncMessage），服务端可主动发送 notify 通知新变更。
+ */
+
+import {
+  SyncConnectionConfig,
+  SyncMessage,
+  SyncPullRequest,
+  SyncPullResult,
+  SyncPushRequest,
+  SyncPushResult,
+  SyncRequestHandler,
+  SyncTransport,
+  SyncTransportKind
+} from '@/types/sync'
+
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * 传输失败，offline 表示网络不可达（而不是服务端拒绝）
+ */
+export class SyncTransportError extends Error {
+  constructor(message: string, readonly offline = false, readonly status?: number) {
+    super(message)
+    this.name = 'SyncTransportError'
+  }
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+export interface HttpSyncTransportOptions {
+  baseUrl: string
+  headers?: Record<string, string> | (() => Record<string, string>)
+  timeout?: number
+  fetch?: typeof fetch
+}
+
+export class HttpSyncTransport implements SyncTransport {
+  readonly kind: SyncTransportKind = 'http'
+
+  constructor(private readonly options: HttpSyncTransportOptions) {}
+
+  push(request: SyncPushRequest): Promise<SyncPushResult> {
+    return this.post('push', request)
+  }
+
+  pull(request: SyncPullRequest): Promise<SyncPullResult> {
+    return this.post('pull', request)
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const { baseUrl, headers, timeout = DEFAULT_TIMEOUT } = this.options
+    const fetcher = this.options.fetch ?? fetch
+    const extraHeaders = typeof headers === 'function' ? headers() : headers
+
+    let response: Response
+    try {
+      response = await fetcher(`${baseUrl.replace(/\/+$/, '')}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...extraHeaders },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeout)
+      })
+    } catch (error) {
+      throw new SyncTransportError(
+        error instanceof Error ? error.message : 'Network request failed',
+        true
+      )
+    }
+
+    if (!response.ok) {
+      throw new SyncTransportError(`Sync server responded with ${response.status}`, false, response.status)
+    }
+    return await response.json() as T
+  }
+}
+
+// ============================================================================
+// 消息帧传输（WebSocket / WebRTC）
+// ============================================================================
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+// 解析消息帧，不是 JSON 或缺少必要字段的消息返回 null
+function parseSyncMessage(raw: string): SyncMessage | null {
+  let value: unknown
+  try {
+    value = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (typeof value !== 'object' || value === null) return null
+
+  const { kind, id, method } = value as Record<string, unknown>
+  if (kind === 'notify') return value as SyncMessage
+  if (typeof id !== 'string') return null
+  if (kind === 'response' || (kind === 'request' && (method === 'push' || method === 'pull'))) {
+    return value as SyncMessage
+  }
+  return null
+}
+
+/**
+ * 基于消息帧的请求/响应传输，子类只需提供连接和发送
+ */
+abstract class MessageSyncTransport implements SyncTransport {
+  abstract readonly kind: SyncTransportKind
+  private pending = new Map<string, PendingRequest>()
+  private listeners = new Set<() => void>()
+  private nextId = 1
+
+  constructor(protected readonly timeout = DEFAULT_TIMEOUT) {}
+
+  protected abstract send(message: string): Promise<void>
+
+  push(request: SyncPushRequest): Promise<SyncPushResult> {
+    return this.request({ kind: 'request', id: String(this.nextId++), method: 'push', payload: request })
+  }
+
+  pull(request: SyncPullRequest): Promise<SyncPullResult> {
+    return this.request({ kind: 'request', id: String(this.nextId++), method: 'pull', payload: request })
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  abstract close(): void
+
+  protected handleMessage(raw: string): void {
+    const message = parseSyncMessage(raw)
+    if (!message) return
+
+    if (message.kind === 'notify') {
+      this.listeners.forEach(listener => listener())
+      return
+    }
+    if (message.kind !== 'response') return
+
+    const pending = this.pending.get(message.id)
+    if (!pending) return
+    this.pending.delete(message.id)
+    clearTimeout(pending.timer)
+    if (message.error) {
+      pending.reject(new SyncTransportError(message.error))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  /**
+   * 连接断开时让所有未完成的请求失败
+   */
+  protected failPending(reason: string): void {
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer)
+      pending.reject(new SyncTransportError(reason, true))
+    })
+    this.pending.clear()
+  }
+
+  private async request<T>(message: SyncMessage & { kind: 'request' }): Promise<T> {
+    const result = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(message.id)
+        reject(new SyncTransportError('Sync request timed out', true))
+      }, this.timeout)
+      this.pending.set(message.id, { resolve: value => resolve(value as T), reject, timer })
+    })
+
+    try {
+      await this.send(JSON.stringify(message))
+    } catch (error) {
+      const pending = this.pending.get(message.id)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pending.delete(message.id)
+      }
+      throw error instanceof SyncTransportError
+        ? error
+        : new SyncTransportError(error instanceof Error ? error.message : 'Failed to send sync message', true)
+    }
+    return result
+  }
+}
+
+/**
+ * WebSocket 传输，首次请求时连接，断开后下次请求自动重连
+ */
+export class WebSocketSyncTransport extends MessageSyncTransport {
+  readonly kind: SyncTransportKind = 'websocket'
+  private socket: WebSocket | null = null
+  private connecting: Promise<WebSocket> | null = null
+
+  constructor(private readonly url: string, timeout?: number) {
+    super(timeout)
+  }
+
+  protected async send(message: string): Promise<void> {
+    const socket = await this.connect()
+    socket.send(message)
+  }
+
+  close(): void {
+    this.socket?.close()
+    this.socket = null
+    this.connecting = null
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(this.url)
+      socket.onopen = () => {
+        this.socket = socket
+        this.connecting = null
+        resolve(socket)
+      }
+      socket.onmessage = event => {
+        if (typeof event.data === 'string') this.handleMessage(event.data)
+      }
+      socket.onerror = () => {
+        this.connecting = null
+        reject(new SyncTransportError('WebSocket connection failed', true))
+      }
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null
+        this.failPending('WebSocket connection closed')
+      }
+    })
+    return this.connecting
+  }
+}
+
+/**
+ * WebRTC 数据通道传输，信令和建立连接由调用方完成，传入已创建的数据通道
+ */
+export class DataChannelSyncTransport extends MessageSyncTransport {
+  readonly kind: SyncTransportKind = 'webrtc'
+
+  constructor(private readonly channel: RTCDataChannel, timeout?: number) {
+    super(timeout)
+    channel.addEventListener('message', this.onMessage)
+    channel.addEventListener('close', this.onClose)
+  }
+
+  protected async send(message: string): Promise<void> {
+    if (this.channel.readyState === 'connecting') {
+      await new Promise<void>((resolve, reject) => {
+        this.channel.addEventListener('open', () => resolve(), { once: true })
+        this.channel.addEventListener('close', () => reject(new SyncTransportError('Data channel closed', true)), { once: true })
+      })
+    }
+    if (this.channel.readyState !== 'open') {
+      throw new SyncTransportError('Data channel is not open', true)
+    }
+    this.channel.send(message)
+  }
+
+  close(): void {
+    this.channel.removeEventListener('message', this.onMessage)
+    this.channel.removeEventListener('close', this.onClose)
+    this.channel.close()
+  }
+
+  private onMessage = (event: MessageEvent) => {
+    if (typeof event.data === 'string') this.handleMessage(event.data)
+  }
+
+  private onClose = () => {
+    this.failPending('Data channel closed')
+  }
+}
+
+// ============================================================================
+// 服务端 / 对等端
+// ============================================================================
+
+/**
+ * 可收发字符串消息的端点，WebSocket 和 RTCDataChannel 都满足
+ */
+export interface SyncMessageEndpoint {
+  send(message: string): void
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+}
+
+/**
+ * 在消息端点上应答同步请求，使一台设备可以作为其他设备的同步主机
+ * 返回的 notify 函数用于通知对端有新变更，detach 用于停止应答
+ */
+export function serveSyncEndpoint(endpoint: SyncMessageEndpoint, handler: SyncRequestHandler) {
+  const onMessage = async (event: MessageEvent) => {
+    if (typeof event.data !== 'string') return
+
+    const message = parseSyncMessage(event.data)
+    if (message?.kind !== 'request') return
+
+    let response: SyncMessage
+    try {
+      const result = message.method === 'push'
+        ? await handler.push(message.payload)
+        : await handler.pull(message.payload)
+      response = { kind: 'response', id: message.id, result }
+    } catch (error) {
+      response = { kind: 'response', id: message.id, error: error instanceof Error ? error.message : String(error) }
+    }
+    endpoint.send(JSON.stringify(response))
+  }
+
+  endpoint.addEventListener('message', onMessage)
+
+  return {
+    notify: () => endpoint.send(JSON.stringify({ kind: 'notify' } satisfies SyncMessage)),
+    detach: () => endpoint.removeEventListener('message', onMessage)
+  }
+}
+
+/**
+ * 按配置创建连接同步服务器的传输
+ */
+export function createSyncTransport(config: SyncConnectionConfig): SyncTransport {
+  return new HttpSyncTransport({
+    baseUrl: `${config.serverUrl.replace(/\/+$/, '')}/sync`,
+    headers: config.token ? { Authorization: `Bearer ${config.token}` } : undefined
+  })
+}
+
+// ============================================================================
+// 进程内
+// ============================================================================
+
+export interface InProcessSyncTransportOptions {
+  latency?: number // 模拟网络延迟（毫秒）
+}
+
+/**
+ * 直接调用进程内的服务端，请求和响应都经过 JSON 序列化以模拟真实网络
+ */
+export class InProcessSyncTransport implements SyncTransport {
+  readonly kind: SyncTransportKind = 'in-process'
+
+  constructor(
+    private readonly server: SyncRequestHandler & { subscribe?: (listener: () => void) => () => void },
+    private readonly options: InProcessSyncTransportOptions = {}
+  ) {}
+
+  async push(request: SyncPushRequest): Promise<SyncPushResult> {
+    await this.delay()
+    return roundTrip(await this.server.push(roundTrip(request)))
+  }
+
+  async pull(request: SyncPullRequest): Promise<SyncPullResult> {
+    await this.delay()
+    return roundTrip(await this.server.pull(roundTrip(request)))
+  }
+
+  subscribe(listener: () => void): () => void {
+    return this.server.subscribe?.(listener) ?? (() => {})
+  }
+
+  private async delay(): Promise<void> {
+    if (this.options.latency) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latency))
+    }
+  }
+}
+
+function roundTrip<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
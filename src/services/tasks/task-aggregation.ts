@@ -0,0 +1,188 @@
+/**
+ * 跨卡片任务汇总
+ *
+ * 从所有卡片正反面的 todos 中收集任务，按截止日期、文件夹或标签分组。
+ * 所有函数均为纯函数，不访问数据库，便于在视图和提醒服务中复用。
+ */
+
+import { Card, Folder, TodoItem, TodoPriority } from '@/types/card'
+import { TaskDueBucket, TaskEntry, TaskGroup, TaskGrouping, TodoProgress } from '@/types/tasks'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { high: 0, medium: 1, low: 2 }
+
+const DUE_BUCKETS: { key: TaskDueBucket; label: string }[] = [
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'today', label: 'Today' },
+  { key: 'tomorrow', label: 'Tomorrow' },
+  { key: 'week', label: 'Next 7 days' },
+  { key: 'later', label: 'Later' },
+  { key: 'none', label: 'No due date' }
+]
+
+const NO_FOLDER_KEY = 'none'
+const NO_TAG_KEY = 'none'
+
+// 从备份或同步恢复的日期可能是字符串
+export function toDate(value: Date | string | undefined): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+/**
+ * 截止日期所在区间，截止日期只精确到天
+ */
+export function getDueBucket(dueDate: Date | undefined, now = new Date()): TaskDueBucket {
+  const due = toDate(dueDate)
+  if (!due) return 'none'
+
+  const days = Math.round((startOfDay(due) - startOfDay(now)) / DAY_MS)
+  if (days < 0) return 'overdue'
+  if (days === 0) return 'today'
+  if (days === 1) return 'tomorrow'
+  if (days <= 7) return 'week'
+  return 'later'
+}
+
+/**
+ * 卡片正反面待办的完成进度
+ */
+export function getTodoProgress(card: Pick<Card, 'frontContent' | 'backContent'>): TodoProgress {
+  const todos = [...(card.frontContent.todos || []), ...(card.backContent.todos || [])]
+  return {
+    completed: todos.filter(todo => todo.completed).length,
+    total: todos.length
+  }
+}
+
+/**
+ * 收集所有卡片中的任务，默认只包含未完成的
+ */
+export function collectTasks(cards: Card[], options: { includeCompleted?: boolean } = {}): TaskEntry[] {
+  const tasks: TaskEntry[] = []
+  for (const card of cards) {
+    // 锁定的卡片只有占位内容
+    if (card.lock) continue
+
+    const sides = [['front', card.frontContent], ['back', card.backContent]] as const
+    for (const [side, content] of sides) {
+      for (const todo of content.todos || []) {
+        if (todo.completed && !options.includeCompleted) continue
+        if (!todo.text.trim()) continue
+        tasks.push({
+          todo,
+          cardId: card.id,
+          cardTitle: card.frontContent.title,
+          side,
+          folderId: card.folderId,
+          tags: Array.from(new Set([...card.frontContent.tags, ...card.backContent.tags]))
+        })
+      }
+    }
+  }
+  return tasks
+}
+
+/**
+ * 任务排序：未完成在前，其次按截止日期、优先级和文字
+ */
+export function compareTasks(a: TaskEntry, b: TaskEntry): number {
+  if (a.todo.completed !== b.todo.completed) return a.todo.completed ? 1 : -1
+
+  const dueA = toDate(a.todo.dueDate)?.getTime() ?? Infinity
+  const dueB = toDate(b.todo.dueDate)?.getTime() ?? Infinity
+  if (dueA !== dueB) return dueA - dueB
+
+  const priorityA = a.todo.priority ? PRIORITY_RANK[a.todo.priority] : 3
+  const priorityB = b.todo.priority ? PRIORITY_RANK[b.todo.priority] : 3
+  if (priorityA !== priorityB) return priorityA - priorityB
+
+  return a.todo.text.localeCompare(b.todo.text)
+}
+
+/**
+ * 按分组方式分组，空组不返回；按标签分组时同一任务会出现在其卡片的每个标签下
+ */
+export function groupTasks(tasks: TaskEntry[], grouping: TaskGrouping, folders: Folder[] = [], now = new Date()): TaskGroup[] {
+  const groups = new Map<string, TaskGroup>()
+  const add = (key: string, label: string, task: TaskEntry) => {
+    const group = groups.get(key) ?? { key, label, tasks: [] }
+    group.tasks.push(task)
+    groups.set(key, group)
+  }
+
+  if (grouping === 'due') {
+    const labels = new Map(DUE_BUCKETS.map(bucket => [bucket.key, bucket.label]))
+    tasks.forEach(task => {
+      const bucket = getDueBucket(task.todo.dueDate, now)
+      add(bucket, labels.get(bucket)!, task)
+    })
+    return DUE_BUCKETS
+      .map(bucket => groups.get(bucket.key))
+      .filter((group): group is TaskGroup => !!group)
+      .map(group => ({ ...group, tasks: group.tasks.sort(compareTasks) }))
+  }
+
+  if (grouping === 'folder') {
+    const names = new Map(folders.map(folder => [folder.id, folder.name]))
+    tasks.forEach(task => {
+      const name = task.folderId ? names.get(task.folderId) : undefined
+      if (name) {
+        add(task.folderId!, name, task)
+      } else {
+        add(NO_FOLDER_KEY, 'No folder', task)
+      }
+    })
+  } else {
+    tasks.forEach(task => {
+      if (task.tags.length === 0) {
+        add(NO_TAG_KEY, 'Untagged', task)
+      } else {
+        task.tags.forEach(tag => add(`tag:${tag}`, `#${tag}`, task))
+      }
+    })
+  }
+
+  // 未分类的组放在最后
+  const fallbackKey = grouping === 'folder' ? NO_FOLDER_KEY : NO_TAG_KEY
+  return Array.from(groups.values())
+    .sort((a, b) => (a.key === fallbackKey ? 1 : b.key === fallbackKey ? -1 : a.label.localeCompare(b.label)))
+    .map(group => ({ ...group, tasks: group.tasks.sort(compareTasks) }))
+}
+
+/**
+ * 修改卡片某一面的一条待办，返回用于更新卡片的内容
+ */
+export function updateCardTodo(
+  card: Pick<Card, 'frontContent' | 'backContent'>,
+  side: TaskEntry['side'],
+  todoId: string,
+  updates: Partial<TodoItem>
+): Partial<Card> {
+  const contentKey = side === 'front' ? 'frontContent' : 'backContent'
+  const content = card[contentKey]
+  return {
+    [contentKey]: {
+      ...content,
+      todos: content.todos.map(todo => (todo.id === todoId ? applyTodoUpdates(todo, updates) : todo)),
+      lastModified: new Date()
+    }
+  }
+}
+
+/**
+ * 应用待办修改，完成状态变化时同步记录完成时间
+ */
+export function applyTodoUpdates(todo: TodoItem, updates: Partial<TodoItem>): TodoItem {
+  const next = { ...todo, ...updates }
+  if (updates.completed !== undefined && updates.completed !== todo.completed) {
+    next.completedAt = updates.completed ? new Date() : undefined
+  }
+  return next
+}
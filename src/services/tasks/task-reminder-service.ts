@@ -0,0 +1,152 @@
+/**
+ * 任务提醒服务
+ *
+ * 为未完成且设置了提醒时间的待办安排定时器，到时通知页面内的监听器（显示提示），
+ * 已授权时同时显示系统通知。应用关闭期间错过的提醒在下次打开时补发一次；
+ * 已发出的提醒按“待办 ID + 提醒时间”记录，修改提醒时间后会重新提醒。
+ */
+
+import { Card } from '@/types/card'
+import { TaskReminder } from '@/types/tasks'
+import { collectTasks, toDate } from './task-aggregation'
+
+type ReminderListener = (reminder: TaskReminder) => void
+
+const FIRED_STORAGE_KEY = 'cardall-task-reminders-fired'
+const MAX_FIRED_ENTRIES = 500
+// setTimeout 的最大延迟，更远的提醒在之后重新安排时再设定时器
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+function reminderKey(reminder: TaskReminder): string {
+  return `${reminder.todoId}@${reminder.remindAt.getTime()}`
+}
+
+export class TaskReminderService {
+  private listeners: ReminderListener[] = []
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private fired: string[] = this.loadFired()
+
+  // 注册提醒监听器
+  onReminder(listener: ReminderListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 列出卡片中待发出的提醒，按时间排序
+   */
+  getPendingReminders(cards: Card[]): TaskReminder[] {
+    return collectTasks(cards)
+      .map(task => ({ task, remindAt: toDate(task.todo.reminderAt) }))
+      .filter((item): item is typeof item & { remindAt: Date } => !!item.remindAt)
+      .map(({ task, remindAt }) => ({
+        todoId: task.todo.id,
+        cardId: task.cardId,
+        text: task.todo.text,
+        cardTitle: task.cardTitle,
+        remindAt,
+        dueDate: toDate(task.todo.dueDate)
+      }))
+      .filter(reminder => !this.fired.includes(reminderKey(reminder)))
+      .sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime())
+  }
+
+  /**
+   * 按当前卡片重新安排全部提醒
+   */
+  schedule(cards: Card[]): void {
+    this.clearTimers()
+    const now = Date.now()
+
+    for (const reminder of this.getPendingReminders(cards)) {
+      const delay = reminder.remindAt.getTime() - now
+      if (delay <= 0) {
+        this.fire(reminder)
+      } else if (delay <= MAX_TIMER_DELAY) {
+        this.timers.set(reminderKey(reminder), setTimeout(() => this.fire(reminder), delay))
+      }
+    }
+  }
+
+  /**
+   * 请求系统通知权限，用户设置提醒时调用
+   */
+  async requestPermission(): Promise<boolean> {
+    if (typeof Notification === 'undefined') return false
+    if (Notification.permission !== 'default') {
+      return Notification.permission === 'granted'
+    }
+    try {
+      return (await Notification.requestPermission()) === 'granted'
+    } catch (error) {
+      console.warn('Failed to request notification permission:', error)
+      return false
+    }
+  }
+
+  dispose(): void {
+    this.clearTimers()
+  }
+
+  private fire(reminder: TaskReminder): void {
+    const key = reminderKey(reminder)
+    this.timers.delete(key)
+    if (this.fired.includes(key)) return
+
+    this.fired = [...this.fired, key].slice(-MAX_FIRED_ENTRIES)
+    this.saveFired()
+    this.listeners.forEach(listener => listener(reminder))
+    this.showSystemNotification(reminder).catch(error => {
+      console.warn('Failed to show reminder notification:', error)
+    })
+  }
+
+  // 优先通过 Service Worker 显示，点击通知可回到页面
+  private async showSystemNotification(reminder: TaskReminder): Promise<void> {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+
+    const title = `Reminder: ${reminder.text}`
+    const options: NotificationOptions = {
+      body: reminder.cardTitle ? `From "${reminder.cardTitle}"` : undefined,
+      tag: `task-${reminder.todoId}`,
+      data: { cardId: reminder.cardId }
+    }
+
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      new Notification(title, options)
+    }
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer))
+    this.timers.clear()
+  }
+
+  private loadFired(): string[] {
+    try {
+      const saved = localStorage.getItem(FIRED_STORAGE_KEY)
+      return saved ? JSON.parse(saved) : []
+    } catch (error) {
+      console.warn('Failed to load fired reminders:', error)
+      return []
+    }
+  }
+
+  private saveFired(): void {
+    try {
+      localStorage.setItem(FIRED_STORAGE_KEY, JSON.stringify(this.fired))
+    } catch (error) {
+      console.warn('Failed to save fired reminders:', error)
+    }
+  }
+}
+
+export const taskReminderService = new TaskReminderService()
@@ -0,0 +1,59 @@
+/**
+ * 已删除卡片的附属数据清理
+ *
+ * 删除卡片时暂不删除复习记录、修订历史、画布位置和手动排序，撤销删除后卡片原样恢复。
+ * 撤销历史中能恢复该卡片的记录都被丢弃（超出上限被裁剪、重做栈被新操作清空或历史被清除）后，
+ * 卡片不会再回来，这时再删除这些数据。
+ */
+
+import { UndoEntry } from '@/types/undo'
+import { studyService } from '@/services/study/study-service'
+import { cardHistoryService } from '@/services/history/card-history-service'
+import { canvasBoardService } from '@/services/canvas/canvas-board-service'
+import { cardOrderService } from '@/services/ordering/card-order-service'
+
+/**
+ * 撤销或重做记录时会重新创建的卡片
+ */
+export function restorableCardIds(entries: UndoEntry[]): Set<string> {
+  const ids = new Set<string>()
+  for (const entry of entries) {
+    for (const step of entry.steps) {
+      for (const item of [...step.undo, ...step.redo]) {
+        if (item.entity === 'card' && item.action.type === 'IMPORT_CARDS') {
+          item.action.payload.forEach(card => ids.add(card.id))
+        }
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * 丢弃撤销记录后，删除这些记录中不再存在、也无法再恢复的卡片的附属数据
+ * @param dropped 被丢弃的撤销记录
+ * @param remaining 仍保留的撤销记录
+ * @param existingCardIds 当前存在的卡片
+ */
+export async function releaseDeletedCards(
+  dropped: UndoEntry[],
+  remaining: UndoEntry[],
+  existingCardIds: Set<string>
+): Promise<string[]> {
+  const stillRestorable = restorableCardIds(remaining)
+  const cardIds = Array.from(restorableCardIds(dropped)).filter(id => !existingCardIds.has(id) && !stillRestorable.has(id))
+  if (cardIds.length === 0) return []
+
+  const results = await Promise.allSettled([
+    studyService.removeCards(cardIds),
+    cardHistoryService.removeCards(cardIds),
+    canvasBoardService.removeCards(cardIds),
+    cardOrderService.removeCards(cardIds)
+  ])
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.warn('Failed to remove data of deleted cards:', result.reason)
+    }
+  })
+  return cardIds
+}
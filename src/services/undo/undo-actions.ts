@@ -0,0 +1,463 @@
+/**
+ * 可撤销操作
+ *
+ * 根据操作前的状态为卡片、文件夹和标签操作生成逆操作。
+ * 在 reducer 内部生成ID的创建类操作会先补全ID和时间戳并转为导入操作，
+ * 这样撤销时能准确删除刚创建的实体，重做时也能以相同ID重新创建。
+ * 纯界面状态（翻转、选择、展开、标签显隐）和由卡片派生的标签计数不记录。
+ */
+
+import { Card, CardAction, Folder, FolderAction, Tag, TagAction } from '@/types/card'
+import { UndoStep, UndoableAction } from '@/types/undo'
+import { compareManualOrder } from '@/services/ordering/manual-order'
+
+export interface UndoEntityState {
+  cards: Card[]
+  folders: Folder[]
+  tags: Tag[]
+}
+
+export interface PreparedAction<A> {
+  action: A // 实际执行的操作
+  step: UndoStep | null // 无需记录时为 null
+}
+
+const MAX_LABEL_LENGTH = 40
+
+const cardAction = (action: CardAction): UndoableAction => ({ entity: 'card', action })
+const folderAction = (action: FolderAction): UndoableAction => ({ entity: 'folder', action })
+const tagAction = (action: TagAction): UndoableAction => ({ entity: 'tag', action })
+
+function quote(text: string | undefined, fallback: string): string {
+  const value = (text ?? '').trim() || fallback
+  return `"${value.length > MAX_LABEL_LENGTH ? `${value.slice(0, MAX_LABEL_LENGTH - 1)}…` : value}"`
+}
+
+const cardName = (card: Pick<Card, 'frontContent'>) => quote(card.frontContent?.title, 'Untitled Card')
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// 取出实体中将被修改字段的原值
+function previousValues<T extends object>(entity: T, updates: Partial<T>): Partial<T> {
+  const previous: Partial<T> = {}
+  for (const key of Object.keys(updates) as (keyof T)[]) {
+    previous[key] = entity[key]
+  }
+  return previous
+}
+
+function hasChanges<T extends object>(entity: T, updates: Partial<T>): boolean {
+  return (Object.keys(updates) as (keyof T)[]).some(key => !isSame(entity[key], updates[key]))
+}
+
+// 加上或移除独立锁时修改前的值含有明文，不记录到撤销历史
+function changesLock<T extends { lock?: unknown }>(entity: T, updates: Partial<T>): boolean {
+  return 'lock' in updates && !entity.lock !== !updates.lock
+}
+
+function randomSuffix(): string {
+  return Math.random().toString(36).slice(2, 9)
+}
+
+/**
+ * 准备卡片操作
+ */
+export function prepareCardAction(action: CardAction, state: UndoEntityState): PreparedAction<CardAction> {
+  const findCard = (id: string) => state.cards.find(card => card.id === id)
+
+  switch (action.type) {
+    case 'CREATE_CARD': {
+      const now = new Date()
+      const card: Card = { ...action.payload, id: crypto.randomUUID(), createdAt: now, updatedAt: now }
+      const create: CardAction = { type: 'IMPORT_CARDS', payload: [card] }
+      return {
+        action: create,
+        step: {
+          description: `Create card ${cardName(card)}`,
+          undo: [cardAction({ type: 'DELETE_CARD', payload: card.id })],
+          redo: [cardAction(create)]
+        }
+      }
+    }
+
+    case 'DUPLICATE_CARD': {
+      const original = findCard(action.payload)
+      if (!original) return { action, step: null }
+
+      const now = new Date()
+      const copy: Card = { ...original, id: crypto.randomUUID(), createdAt: now, updatedAt: now }
+      const create: CardAction = { type: 'IMPORT_CARDS', payload: [copy] }
+      return {
+        action: create,
+        step: {
+          description: `Duplicate card ${cardName(original)}`,
+          undo: [cardAction({ type: 'DELETE_CARD', payload: copy.id })],
+          redo: [cardAction(create)]
+        }
+      }
+    }
+
+    case 'UPDATE_CARD': {
+      const card = findCard(action.payload.id)
+      const { updates } = action.payload
+      if (!card || !hasChanges(card, updates) || changesLock(card, updates)) return { action, step: null }
+
+      const isMove = Object.keys(updates).every(key => key === 'folderId')
+      return {
+        action,
+        step: {
+          description: `${isMove ? 'Move' : 'Edit'} card ${cardName(card)}`,
+          undo: [cardAction({ type: 'UPDATE_CARD', payload: { id: card.id, updates: previousValues(card, updates) } })],
+          redo: [cardAction(action)]
+        }
+      }
+    }
+
+    case 'MOVE_TO_FOLDER': {
+      const card = findCard(action.payload.cardId)
+      if (!card || card.folderId === action.payload.folderId) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: `Move card ${cardName(card)}`,
+          undo: [cardAction({ type: 'MOVE_TO_FOLDER', payload: { cardId: card.id, folderId: card.folderId } })],
+          redo: [cardAction(action)]
+        }
+      }
+    }
+
+    case 'DELETE_CARD': {
+      const card = findCard(action.payload)
+      if (!card) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: `Delete card ${cardName(card)}`,
+          undo: [cardAction({ type: 'IMPORT_CARDS', payload: [card] })],
+          redo: [cardAction(action)]
+        }
+      }
+    }
+
+    case 'IMPORT_CARDS': {
+      const existingIds = new Set(state.cards.map(card => card.id))
+      const added = action.payload.filter(card => !existingIds.has(card.id))
+      if (added.length === 0) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: added.length === 1 ? `Add card ${cardName(added[0])}` : `Import ${plural(added.length, 'card')}`,
+          undo: added.map(card => cardAction({ type: 'DELETE_CARD', payload: card.id })),
+          redo: [cardAction({ type: 'IMPORT_CARDS', payload: added })]
+        }
+      }
+    }
+
+    default:
+      return { action, step: null }
+  }
+}
+
+/**
+ * 收集删除文件夹时连带删除的子文件夹和卡片
+ */
+export function collectFolderDeletion(folderId: string, folders: Folder[]): { folders: Folder[]; cardIds: string[] } {
+  const removed: Folder[] = []
+  const visit = (id: string) => {
+    const folder = folders.find(item => item.id === id)
+    if (!folder || removed.includes(folder)) return
+    removed.push(folder)
+    folders.filter(item => item.parentId === id).forEach(child => visit(child.id))
+  }
+  visit(folderId)
+
+  return {
+    folders: removed,
+    cardIds: removed.flatMap(folder => folder.cardIds)
+  }
+}
+
+/**
+ * 准备文件夹操作
+ * 删除文件夹时连带的卡片删除由调用方通过卡片操作单独记录
+ */
+export function prepareFolderAction(action: FolderAction, state: UndoEntityState): PreparedAction<FolderAction> {
+  const findFolder = (id: string) => state.folders.find(folder => folder.id === id)
+
+  switch (action.type) {
+    case 'CREATE_FOLDER': {
+      const now = new Date()
+      const folder: Folder = {
+        ...action.payload,
+        id: `folder-${Date.now()}-${randomSuffix()}`,
+        cardIds: [],
+        createdAt: now,
+        updatedAt: now
+      }
+      const create: FolderAction = { type: 'IMPORT_FOLDERS', payload: [folder] }
+      return {
+        action: create,
+        step: {
+          description: `Create folder ${quote(folder.name, 'Untitled')}`,
+          undo: [folderAction({ type: 'DELETE_FOLDER', payload: folder.id })],
+          redo: [folderAction(create)]
+        }
+      }
+    }
+
+    case 'UPDATE_FOLDER': {
+      const folder = findFolder(action.payload.id)
+      const { updates } = action.payload
+      if (!folder || !hasChanges(folder, updates) || changesLock(folder, updates)) return { action, step: null }
+
+      const isRename = updates.name !== undefined && updates.name !== folder.name
+      return {
+        action,
+        step: {
+          description: isRename
+            ? `Rename folder ${quote(folder.name, 'Untitled')} to ${quote(updates.name, 'Untitled')}`
+            : `Edit folder ${quote(folder.name, 'Untitled')}`,
+          undo: [folderAction({ type: 'UPDATE_FOLDER', payload: { id: folder.id, updates: previousValues(folder, updates) } })],
+          redo: [folderAction(action)]
+        }
+      }
+    }
+
+    case 'DELETE_FOLDER': {
+      const { folders } = collectFolderDeletion(action.payload, state.folders)
+      // 回调不能持久化，连带删除的卡片由调用方处理
+      const remove: FolderAction = { type: 'DELETE_FOLDER', payload: action.payload }
+      if (folders.length === 0) return { action: remove, step: null }
+
+      return {
+        action: remove,
+        step: {
+          description: `Delete folder ${quote(folders[0].name, 'Untitled')}`,
+          undo: [folderAction({ type: 'IMPORT_FOLDERS', payload: folders })],
+          redo: [folderAction(remove)]
+        }
+      }
+    }
+
+    case 'IMPORT_FOLDERS': {
+      const existingIds = new Set(state.folders.map(folder => folder.id))
+      const added = action.payload.filter(folder => !existingIds.has(folder.id))
+      if (added.length === 0) return { action, step: null }
+
+      // 只需删除最上层的文件夹，子文件夹会随之删除
+      const addedIds = new Set(added.map(folder => folder.id))
+      const roots = added.filter(folder => !folder.parentId || !addedIds.has(folder.parentId))
+      return {
+        action,
+        step: {
+          description: `Import ${plural(added.length, 'folder')}`,
+          undo: roots.map(folder => folderAction({ type: 'DELETE_FOLDER', payload: folder.id })),
+          redo: [folderAction({ type: 'IMPORT_FOLDERS', payload: added })]
+        }
+      }
+    }
+
+    case 'REORDER_FOLDERS': {
+      // 撤销时按原先的显示顺序重新排列同一组文件夹
+      const previous = state.folders
+        .filter(folder => action.payload.includes(folder.id))
+        .sort(compareManualOrder)
+        .map(folder => folder.id)
+      if (isSame(previous, action.payload)) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: `Reorder ${plural(action.payload.length, 'folder')}`,
+          undo: [folderAction({ type: 'REORDER_FOLDERS', payload: previous })],
+          redo: [folderAction(action)]
+        }
+      }
+    }
+
+    default:
+      return { action, step: null }
+  }
+}
+
+/**
+ * 准备标签操作
+ */
+export function prepareTagAction(action: TagAction, state: UndoEntityState): PreparedAction<TagAction> {
+  const findTag = (id: string) => state.tags.find(tag => tag.id === id)
+
+  switch (action.type) {
+    case 'CREATE_TAG': {
+      // 已存在的标签只增加计数，计数由卡片同步，不记录
+      const name = action.payload.name.toLowerCase()
+      if (state.tags.some(tag => tag.name.toLowerCase() === name)) return { action, step: null }
+
+      const tag: Tag = { ...action.payload, id: `tag-${Date.now()}-${randomSuffix()}`, count: 1, createdAt: new Date() }
+      const create: TagAction = { type: 'IMPORT_TAGS', payload: [tag] }
+      return {
+        action: create,
+        step: {
+          description: `Create tag ${quote(tag.name, 'tag')}`,
+          undo: [tagAction({ type: 'DELETE_TAG', payload: tag.id })],
+          redo: [tagAction(create)]
+        }
+      }
+    }
+
+    case 'UPDATE_TAG': {
+      const tag = findTag(action.payload.id)
+      // 使用次数由卡片统计得出，不记入撤销历史
+      const updates = { ...action.payload.updates }
+      delete updates.count
+      if (!tag || !hasChanges(tag, updates)) return { action, step: null }
+
+      const isRename = updates.name !== undefined && updates.name !== tag.name
+      return {
+        action,
+        step: {
+          description: isRename
+            ? `Rename tag ${quote(tag.name, 'tag')} to ${quote(updates.name, 'tag')}`
+            : `Edit tag ${quote(tag.name, 'tag')}`,
+          undo: [tagAction({ type: 'UPDATE_TAG', payload: { id: tag.id, updates: previousValues(tag, updates) } })],
+          redo: [tagAction({ type: 'UPDATE_TAG', payload: { id: tag.id, updates } })]
+        }
+      }
+    }
+
+    case 'DELETE_TAG': {
+      const tag = findTag(action.payload)
+      if (!tag) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: `Delete tag ${quote(tag.name, 'tag')}`,
+          undo: [tagAction({ type: 'IMPORT_TAGS', payload: [tag] })],
+          redo: [tagAction(action)]
+        }
+      }
+    }
+
+    case 'IMPORT_TAGS': {
+      const existingIds = new Set(state.tags.map(tag => tag.id))
+      const added = action.payload.filter(tag => !existingIds.has(tag.id))
+      if (added.length === 0) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: `Import ${plural(added.length, 'tag')}`,
+          undo: added.map(tag => tagAction({ type: 'DELETE_TAG', payload: tag.id })),
+          redo: [tagAction({ type: 'IMPORT_TAGS', payload: added })]
+        }
+      }
+    }
+
+    case 'REORDER_TAGS': {
+      const previous = state.tags
+        .filter(tag => action.payload.includes(tag.id))
+        .sort((a, b) => compareManualOrder(a, b) || b.count - a.count)
+        .map(tag => tag.id)
+      if (isSame(previous, action.payload)) return { action, step: null }
+
+      return {
+        action,
+        step: {
+          description: 'Reorder tags',
+          undo: [tagAction({ type: 'REORDER_TAGS', payload: previous })],
+          redo: [tagAction(action)]
+        }
+      }
+    }
+
+    default:
+      return { action, step: null }
+  }
+}
+
+/**
+ * 在所有卡片上重命名或移除标签的步骤
+ */
+export function createCardTagsStep(cards: Card[], oldTagName: string, newTagName?: string): UndoStep | null {
+  const replaceTag = (tags: string[]) => newTagName
+    ? tags.map(tag => (tag === oldTagName ? newTagName : tag))
+    : tags.filter(tag => tag !== oldTagName)
+
+  const affected = cards.filter(card =>
+    card.frontContent.tags.includes(oldTagName) || card.backContent.tags.includes(oldTagName)
+  )
+  if (affected.length === 0) return null
+
+  return {
+    description: newTagName
+      ? `Rename tag ${quote(oldTagName, 'tag')} on ${plural(affected.length, 'card')}`
+      : `Remove tag ${quote(oldTagName, 'tag')} from ${plural(affected.length, 'card')}`,
+    undo: affected.map(card => cardAction({
+      type: 'UPDATE_CARD',
+      payload: { id: card.id, updates: { frontContent: card.frontContent, backContent: card.backContent } }
+    })),
+    redo: affected.map(card => cardAction({
+      type: 'UPDATE_CARD',
+      payload: {
+        id: card.id,
+        updates: {
+          frontContent: { ...card.frontContent, tags: replaceTag(card.frontContent.tags) },
+          backContent: { ...card.backContent, tags: replaceTag(card.backContent.tags) }
+        }
+      }
+    }))
+  }
+}
+
+/**
+ * 合并为一项撤销历史的标题
+ */
+export function describeSteps(steps: UndoStep[], label?: string): string {
+  if (label) return label
+  if (steps.length === 0) return 'Change'
+  return steps.length === 1 ? steps[0].description : `${steps[0].description} (+${steps.length - 1} more)`
+}
+
+// 操作涉及的卡片ID
+function cardIdsOf(action: CardAction): string[] {
+  switch (action.type) {
+    case 'UPDATE_CARD':
+      return [action.payload.id]
+    case 'MOVE_TO_FOLDER':
+      return [action.payload.cardId]
+    case 'IMPORT_CARDS':
+      return action.payload.map(card => card.id)
+    case 'DESELECT_ALL':
+    case 'CREATE_CARD':
+      return []
+    default:
+      return [action.payload]
+  }
+}
+
+/**
+ * 步骤是否涉及给定的卡片（标题和逆操作中可能含有卡片内容）
+ */
+export function stepReferencesCards(step: UndoStep, cardIds: Set<string>): boolean {
+  return [...step.undo, ...step.redo].some(item =>
+    item.entity === 'card' && cardIdsOf(item.action).some(id => cardIds.has(id))
+  )
+}
+
+/**
+ * 操作是否会把明文内容写到已锁定的卡片上
+ * 锁定后的修改经过 sealUpdates，内容和锁一起写入，可以照常撤销和重做
+ */
+export function writesLockedContent(item: UndoableAction, cards: Card[]): boolean {
+  if (item.entity !== 'card' || item.action.type !== 'UPDATE_CARD') return false
+
+  const { id, updates } = item.action.payload
+  const card = cards.find(candidate => candidate.id === id)
+  return !!card?.lock && ('frontContent' in updates || 'backContent' in updates) && !('lock' in updates)
+}
@@ -0,0 +1,138 @@
+/**
+ * 撤销/重做历史服务
+ *
+ * 撤销栈和重做栈保存在 IndexedDB 中，刷新页面后仍可撤销，也不受 localStorage 容量限制。
+ * 两个栈共用一张表，以自增ID排序，栈内ID最大的一项为栈顶；项在两栈之间移动时重新分配ID。
+ */
+
+import { UndoEntry, UndoStep } from '@/types/undo'
+import { db } from '@/services/database'
+import { stepReferencesCards } from './undo-actions'
+
+type UndoStack = UndoEntry['stack']
+
+export interface UndoHistorySnapshot {
+  undo: UndoEntry[] // 最新的在前
+  redo: UndoEntry[] // 最近撤销的在前
+}
+
+type UndoHistoryListener = (history: UndoHistorySnapshot) => void
+
+const DEFAULT_MAX_ENTRIES = 100
+
+export class UndoHistoryService {
+  private listeners: UndoHistoryListener[] = []
+  private maxEntries: number
+  // 串行写入，保证记录、撤销和重做按调用顺序执行
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries
+  }
+
+  // 注册历史变化监听器
+  onChange(listener: UndoHistoryListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  async getHistory(): Promise<UndoHistorySnapshot> {
+    const [undo, redo] = await Promise.all([this.getStack('undo'), this.getStack('redo')])
+    return { undo, redo }
+  }
+
+  /**
+   * 记录一次新的操作，清空重做栈并裁剪超出上限的旧记录，返回被丢弃的记录
+   */
+  push(label: string, steps: UndoStep[]): Promise<UndoEntry[]> {
+    if (steps.length === 0) return Promise.resolve([])
+
+    return this.enqueue(() => db.transaction('rw', db.undoEntries, async () => {
+      const dropped = await db.undoEntries.where('stack').equals('redo').toArray()
+      await db.undoEntries.bulkDelete(dropped.map(entry => entry.id!))
+      await db.undoEntries.add({ stack: 'undo', label, createdAt: new Date(), steps })
+
+      const count = await db.undoEntries.where('stack').equals('undo').count()
+      if (count > this.maxEntries) {
+        const oldest = await db.undoEntries.where('stack').equals('undo').limit(count - this.maxEntries).toArray()
+        await db.undoEntries.bulkDelete(oldest.map(entry => entry.id!))
+        dropped.push(...oldest)
+      }
+      return dropped
+    }))
+  }
+
+  /**
+   * 取出栈顶并执行，成功后移到另一个栈；执行失败时保持原样
+   */
+  transfer(from: UndoStack, apply: (entry: UndoEntry) => Promise<void>): Promise<UndoEntry | null> {
+    return this.enqueue(async () => {
+      const entry = await db.undoEntries.where('stack').equals(from).last()
+      if (!entry) return null
+
+      await apply(entry)
+
+      const { id, ...rest } = entry
+      await db.transaction('rw', db.undoEntries, async () => {
+        await db.undoEntries.delete(id!)
+        await db.undoEntries.add({ ...rest, stack: from === 'undo' ? 'redo' : 'undo' })
+      })
+      return entry
+    })
+  }
+
+  /**
+   * 删除涉及给定卡片的记录（锁定卡片后其中的明文不能再留在历史中），返回被丢弃的记录
+   */
+  removeCards(cardIds: string[]): Promise<UndoEntry[]> {
+    if (cardIds.length === 0) return Promise.resolve([])
+
+    const ids = new Set(cardIds)
+    return this.enqueue(() => db.transaction('rw', db.undoEntries, async () => {
+      const dropped = await db.undoEntries
+        .filter(entry => entry.steps.some(step => stepReferencesCards(step, ids)))
+        .toArray()
+      await db.undoEntries.bulkDelete(dropped.map(entry => entry.id!))
+      return dropped
+    }))
+  }
+
+  /**
+   * 清空两个栈，返回被丢弃的记录
+   */
+  clear(): Promise<UndoEntry[]> {
+    return this.enqueue(() => db.transaction('rw', db.undoEntries, async () => {
+      const dropped = await db.undoEntries.toArray()
+      await db.undoEntries.clear()
+      return dropped
+    }))
+  }
+
+  private async getStack(stack: UndoStack): Promise<UndoEntry[]> {
+    const entries = await db.undoEntries.where('stack').equals(stack).toArray()
+    return entries.reverse()
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result.finally(() => this.notify())
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.length === 0) return
+    try {
+      const history = await this.getHistory()
+      this.listeners.forEach(listener => listener(history))
+    } catch (error) {
+      console.warn('Failed to load undo history:', error)
+    }
+  }
+}
+
+export const undoHistoryService = new UndoHistoryService()
@@ -8,6 +8,7 @@
 import { intelligentBatchUploadService, type BatchUploadItem, type BatchGroup } from './intelligent-batch-upload'
 import { networkStateDetector, type NetworkState, type SyncStrategy } from './network-state-detector'
 import { dataCompressionOptimizer } from './data-compression-optimizer'
+import { backgroundSyncService } from './pwa/background-sync'
 
 // 队列管理配置
 export interface QueueManagerConfig {
@@ -289,8 +290,12 @@ class UploadQueueManager {
       onSyncCompleted: this.handleSyncCompleted.bind(this)
     })
 
+    // 网络恢复时由后台同步唤醒处理队列
+    backgroundSyncService.register('upload-queue', () => this.forceProcessQueue())
+
     // 恢复队列状态
     await this.restoreQueueState()
+    this.requestBackgroundSyncIfOffline()
 
     // 启动监控
     if (this.config.monitoringEnabled) {
@@ -457,6 +462,8 @@ class UploadQueueManager {
     // 如果队列处理器正在运行，立即尝试处理
     if (!this.isProcessing && this.shouldProcessQueue()) {
       this.processQueue()
+    } else {
+      this.requestBackgroundSyncIfOffline()
     }
 
     console.log(`Added item to queue: ${queueItem.id} (${queueItem.table}:${queueItem.type})`)
@@ -735,6 +742,13 @@ class UploadQueueManager {
     }, 1000) // 每秒检查一次
   }
 
+  // 离线时有待上传项目，请求在网络恢复后处理
+  private requestBackgroundSyncIfOffline() {
+    if (this.uploadQueue.length > 0 && !networkStateDetector.getCurrentState().canSync) {
+      backgroundSyncService.requestSync()
+    }
+  }
+
   // 检查是否应该处理队列
   private shouldProcessQueue(): boolean {
     if (this.isProcessing) return false
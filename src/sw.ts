@@ -0,0 +1,147 @@
+/// <reference lib="webworker" />
+/**
+ * CardAll Service Worker
+ *
+ * 由 vite-plugin-pwa 以 injectManifest 方式构建：self.__WB_MANIFEST 在构建时替换为带哈希的产物清单，
+ * 因此缓存随每次构建更新，旧版本的预缓存在激活时清理。
+ * - 应用资源：预缓存
+ * - 导航请求：回退到预缓存的 index.html，离线时也能打开
+ * - 图片：stale-while-revalidate
+ * - 字体：cache-first
+ * - Background Sync：通知打开的页面刷新同步队列和上传队列
+ * - Web Share Target：暂存分享的内容，再打开页面的捕获流程
+ */
+
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute, PrecacheEntry } from 'workbox-precaching'
+import { NavigationRoute, registerRoute } from 'workbox-routing'
+import { CacheFirst, StaleWhileRevalidate } from 'workbox-strategies'
+import { ExpirationPlugin } from 'workbox-expiration'
+import { CacheableResponsePlugin } from 'workbox-cacheable-response'
+import { BACKGROUND_SYNC_TAG, BackgroundSyncReply, ServiceWorkerMessage } from '@/types/pwa'
+import { CAPTURE_QUERY_PARAM, SHARE_TARGET_CACHE, SHARE_TARGET_PATH, SharedPayloadManifest } from '@/types/capture'
+
+declare const self: ServiceWorkerGlobalScope & {
+  __WB_MANIFEST: Array<PrecacheEntry | string>
+}
+
+// Background Sync 尚未进入 TypeScript 的 WebWorker 类型
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string
+}
+
+// 等待页面刷新队列的最长时间，超时后视为失败，由浏览器稍后重试
+const FLUSH_TIMEOUT = 60 * 1000
+
+precacheAndRoute(self.__WB_MANIFEST)
+cleanupOutdatedCaches()
+
+// 单页应用的导航请求都回退到 index.html，接口请求除外
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html'), {
+  denylist: [/^\/api\//]
+}))
+
+registerRoute(
+  ({ request }) => request.destination === 'image',
+  new StaleWhileRevalidate({
+    cacheName: 'images',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+      new ExpirationPlugin({ maxEntries: 200, maxAgeSeconds: 60 * 60 * 24 * 30 }) // 30 天
+    ]
+  })
+)
+
+registerRoute(
+  ({ url }) => /^https:\/\/fonts\.(googleapis|gstatic)\.com$/.test(url.origin),
+  new CacheFirst({
+    cacheName: 'google-fonts',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+      new ExpirationPlugin({ maxEntries: 10, maxAgeSeconds: 60 * 60 * 24 * 365 }) // 1 年
+    ]
+  })
+)
+
+// 分享的内容（含文件）无法放进重定向地址，先存入缓存，页面按 ID 读取
+registerRoute(
+  ({ url }) => url.pathname === SHARE_TARGET_PATH,
+  async ({ request }) => {
+    const formData = await request.formData()
+    const files = formData.getAll('files').filter((value): value is File => value instanceof File && value.size > 0)
+    const text = (name: string) => {
+      const value = formData.get(name)
+      return typeof value === 'string' && value.trim() ? value : undefined
+    }
+
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    const base = `${SHARE_TARGET_PATH}/${id}`
+    const manifest: SharedPayloadManifest = {
+      title: text('title'),
+      text: text('text'),
+      url: text('url'),
+      files: files.map(file => ({ name: file.name, type: file.type }))
+    }
+
+    const cache = await caches.open(SHARE_TARGET_CACHE)
+    await Promise.all(files.map((file, index) => cache.put(`${base}/${index}`, new Response(file))))
+    await cache.put(`${base}/manifest`, new Response(JSON.stringify(manifest), {
+      headers: { 'Content-Type': 'application/json' }
+    }))
+
+    return Response.redirect(`/?${CAPTURE_QUERY_PARAM}=${id}`, 303)
+  },
+  'POST'
+)
+
+// 新版本在用户确认后才激活
+self.addEventListener('message', event => {
+  const message = event.data as ServiceWorkerMessage | undefined
+  if (message?.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
+
+self.addEventListener('sync', event => {
+  const syncEvent = event as SyncEvent
+  if (syncEvent.tag === BACKGROUND_SYNC_TAG) {
+    syncEvent.waitUntil(flushClientQueues(syncEvent.tag))
+  }
+})
+
+// 点击任务提醒时回到已打开的页面
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  event.waitUntil((async () => {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    const client = clients.find(item => item.focused) ?? clients[0]
+    if (client) {
+      await client.focus()
+    } else {
+      await self.clients.openWindow('/')
+    }
+  })())
+})
+
+/**
+ * 队列保存在页面的 IndexedDB 和内存中，由页面负责上传；没有打开的页面时等下次启动再同步
+ */
+async function flushClientQueues(tag: string): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  const client = clients.find(item => item.focused) ?? clients[0]
+  if (!client) return
+
+  const reply = await new Promise<BackgroundSyncReply>((resolve, reject) => {
+    const channel = new MessageChannel()
+    const timer = setTimeout(() => reject(new Error('Background sync timed out')), FLUSH_TIMEOUT)
+    channel.port1.onmessage = event => {
+      clearTimeout(timer)
+      resolve(event.data as BackgroundSyncReply)
+    }
+    const message: ServiceWorkerMessage = { type: 'BACKGROUND_SYNC', tag }
+    client.postMessage(message, [channel.port2])
+  })
+
+  if (!reply.ok) {
+    throw new Error(reply.error ?? 'Background sync failed')
+  }
+}
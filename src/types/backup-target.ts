@@ -0,0 +1,102 @@
+// 远程备份目标相关类型定义
+
+import { VaultKdfParams } from './vault'
+
+export type BackupTargetType = 'webdav' | 's3' | 'http-put'
+
+export interface WebDavTargetSettings {
+  url: string // 备份所在的集合（目录）地址
+  username?: string
+  password?: string
+}
+
+export interface S3TargetSettings {
+  endpoint: string // 例如 https://s3.eu-central-1.amazonaws.com 或 http://localhost:9000 (MinIO)
+  region: string
+  bucket: string
+  prefix?: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+export interface HttpPutTargetSettings {
+  url: string // 对象以 PUT/GET/DELETE {url}/{name} 读写
+  headers?: Record<string, string>
+}
+
+export interface BackupTargetRetention {
+  keepLast: number // 至少保留最新的 N 个备份
+  keepDays: number // 超过天数且不在最新 N 个之内的备份会被删除，0 表示不按时间删除
+}
+
+/**
+ * 上传加密设置，密钥由备份口令派生，只保存派生参数
+ */
+export interface BackupTargetEncryption {
+  enabled: boolean
+  kdf?: VaultKdfParams
+}
+
+interface BackupTargetConfigBase {
+  id: string
+  name: string
+  enabled: boolean
+  compression: boolean
+  encryption: BackupTargetEncryption
+  retention: BackupTargetRetention
+  lastBackupAt?: string
+  lastError?: string
+}
+
+export type BackupTargetConfig =
+  | BackupTargetConfigBase & { type: 'webdav'; settings: WebDavTargetSettings }
+  | BackupTargetConfigBase & { type: 's3'; settings: S3TargetSettings }
+  | BackupTargetConfigBase & { type: 'http-put'; settings: HttpPutTargetSettings }
+
+/**
+ * 远端对象
+ */
+export interface RemoteObjectInfo {
+  name: string
+  size: number
+  lastModified?: Date
+}
+
+/**
+ * 远程备份目标插件，只需实现对象的读写、删除和列举
+ * 名称不含路径，由目标自行拼接到配置的目录/前缀下
+ */
+export interface BackupTarget {
+  readonly type: BackupTargetType
+  /** 检查目标是否可写，失败时抛出 BackupTargetError */
+  test(): Promise<void>
+  put(name: string, body: Uint8Array, contentType: string): Promise<void>
+  get(name: string): Promise<Uint8Array>
+  delete(name: string): Promise<void>
+  list(): Promise<RemoteObjectInfo[]>
+}
+
+/**
+ * 远程备份清单，与备份文件一起上传，列举时无需下载备份本身
+ */
+export interface RemoteBackupManifest {
+  format: 'cardall-backup'
+  version: 1
+  backupId: string
+  name: string
+  description?: string
+  timestamp: string
+  type: 'full' | 'incremental' | 'differential'
+  checksum: string // 备份数据的校验和，用于 BackupValidatorService 验证
+  payloadSha256: string // 上传内容（压缩、加密后）的 SHA-256，十六进制
+  size: number // 上传内容字节数
+  originalSize: number // 序列化后的原始字节数
+  compression: 'gzip' | 'none'
+  encryption: { algorithm: 'AES-256-GCM'; kdf: VaultKdfParams; iv: string } | null
+  entities: { cards: number; folders: number; tags: number; images: number }
+}
+
+export interface RemoteBackupEntry {
+  targetId: string
+  manifest: RemoteBackupManifest
+}
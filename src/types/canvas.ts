@@ -0,0 +1,57 @@
+// 画布（白板）视图相关类型定义
+import { CardGroup, SnapDirection } from './card'
+
+/**
+ * 未选择文件夹时使用的画布 ID
+ */
+export const CANVAS_ALL_CARDS_BOARD = 'all'
+
+export interface CanvasPoint {
+  x: number
+  y: number
+}
+
+export interface CanvasRect extends CanvasPoint {
+  width: number
+  height: number
+}
+
+/**
+ * 画布的平移和缩放，x/y 为画布原点在视口中的位置
+ */
+export interface CanvasViewport {
+  x: number
+  y: number
+  zoom: number
+}
+
+/**
+ * 两张卡片之间的箭头，从 fromId 指向 toId
+ */
+export interface CanvasConnector {
+  id: string
+  fromId: string
+  toId: string
+  createdAt: Date
+}
+
+/**
+ * 一个文件夹的画布：卡片位置、吸附形成的分组、连线和上次的视口
+ */
+export interface CanvasBoard {
+  id: string // 文件夹 ID，或 CANVAS_ALL_CARDS_BOARD
+  positions: Record<string, CanvasPoint> // 卡片左上角的画布坐标
+  groups: CardGroup[] // position 为分组外框的左上角
+  connectors: CanvasConnector[]
+  viewport: CanvasViewport
+  updatedAt: Date
+}
+
+/**
+ * 拖动时的吸附目标：移动的卡片贴到 targetId 的 direction 一侧
+ */
+export interface CanvasSnap {
+  targetId: string
+  direction: SnapDirection
+  position: CanvasPoint // 吸附后移动卡片的左上角
+}
@@ -0,0 +1,50 @@
+// 内容捕获（Web Share Target / 文件处理）相关类型定义
+import { ImageData } from './card'
+
+/**
+ * 分享目标的提交地址，Service Worker 拦截该地址的 POST 请求
+ */
+export const SHARE_TARGET_PATH = '/share-target'
+
+/**
+ * Service Worker 暂存分享内容的缓存，页面读取后删除
+ */
+export const SHARE_TARGET_CACHE = 'cardall-share-target'
+
+/**
+ * 打开捕获流程的查询参数：分享时为暂存内容的 ID，文件处理时为 launch
+ */
+export const CAPTURE_QUERY_PARAM = 'capture'
+
+/**
+ * Service Worker 暂存的分享内容清单，文件按序号另存
+ */
+export interface SharedPayloadManifest {
+  title?: string
+  text?: string
+  url?: string
+  files: Array<{ name: string; type: string }>
+}
+
+/**
+ * 从其他应用传入的内容
+ */
+export interface CapturePayload {
+  source: 'share-target' | 'file-handler'
+  title?: string
+  text?: string
+  url?: string
+  files: File[]
+}
+
+/**
+ * 由传入内容生成的卡片草稿，用于预填卡片创建表单
+ */
+export interface CaptureDraft {
+  title: string
+  content: string
+  contentFormat: 'text' | 'markdown' // 保存时转换为 HTML
+  images: ImageData[]
+  tags: string[]
+  warnings: string[] // 无法处理的文件等
+}
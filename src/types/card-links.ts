@@ -0,0 +1,32 @@
+// 卡片双向链接相关类型定义
+
+/**
+ * 卡片正文中的一个 [[标题]] 引用，保存卡片时写入链接索引
+ */
+export interface CardLink {
+  id?: number
+  sourceId: string // 包含链接的卡片
+  targetId?: string // 标题对应的卡片，找不到时为空（断链）
+  targetTitle: string // 链接中书写的标题
+  side: 'front' | 'back'
+  createdAt: Date
+}
+
+/**
+ * 链接到某张卡片的来源卡片
+ */
+export interface CardBacklink {
+  sourceId: string
+  sourceTitle: string
+  sides: CardLink['side'][]
+}
+
+/**
+ * 找不到目标卡片的链接
+ */
+export interface BrokenCardLink {
+  sourceId: string
+  sourceTitle: string
+  targetTitle: string
+  side: CardLink['side']
+}
@@ -1,4 +1,6 @@
 // Core data models for CardAll platform
+import { EntityLock } from './entity-lock'
+
 export interface ImageData {
   id: string
   url: string
@@ -10,10 +12,16 @@ export interface ImageData {
   aspectRatio?: number
 }
 
+export type TodoPriority = 'low' | 'medium' | 'high'
+
 export interface TodoItem {
   id: string
   text: string
   completed: boolean
+  dueDate?: Date
+  priority?: TodoPriority
+  reminderAt?: Date // 提醒时间，完成后不再提醒
+  completedAt?: Date
 }
 
 export interface CardContent {
@@ -42,6 +50,14 @@ export interface CardStyle {
   borderColor?: string
 }
 
+// 剪藏卡片的来源网页
+export interface CardSource {
+  url: string // 重定向后的最终地址
+  title?: string
+  siteName?: string
+  capturedAt: Date
+}
+
 export interface Card {
   id: string
   frontContent: CardContent
@@ -52,6 +68,8 @@ export interface Card {
   updatedAt: Date
   folderId?: string
   isSelected?: boolean
+  lock?: EntityLock // 独立锁定，内容加密保存
+  source?: CardSource // 从网页剪藏时记录
 }
 
 export interface CardGroup {
@@ -69,6 +87,8 @@ export interface Folder {
   cardIds: string[]
   parentId?: string // For nested folders
   isExpanded?: boolean
+  lock?: EntityLock // 独立锁定，其中的卡片随之加密
+  order?: string // 同级文件夹中的手动排序键（分数索引）
   createdAt: Date
   updatedAt: Date
 }
@@ -79,6 +99,7 @@ export interface Tag {
   color: string
   count: number
   isHidden?: boolean
+  order?: string // 手动排序键（分数索引），未设置的标签按使用次数排在后面
   createdAt: Date
 }
 
@@ -90,13 +111,23 @@ export interface CardFilter {
     end: Date
   }
   folderId?: string
-  styleType?: 'solid' | 'gradient'
+  styleType?: CardStyle['type']
   hasImages?: boolean
   isFlipped?: boolean
+  // 结构化搜索查询编译出的条件
+  allTags?: string[] // 必须全部包含的标签
+  excludeTags?: string[] // 不能包含的标签
+  folderIds?: string[] // 限定的文件夹（含子文件夹），空数组表示没有匹配的文件夹
+  hasTodos?: boolean
+  todoStatus?: 'open' | 'done'
+  phrases?: string[] // 精确短语
+  excludeTerms?: string[] // 不能包含的词
+  source?: string // 来源网址或网站名包含的文本
+  hasSource?: boolean
 }
 
 export interface ViewSettings {
-  layout: 'grid' | 'masonry' | 'list'
+  layout: 'grid' | 'masonry' | 'list' | 'canvas'
   cardSize: 'small' | 'medium' | 'large'
   showTags: boolean
   showDates: boolean
@@ -112,7 +143,7 @@ export interface ClipboardData {
 }
 
 export interface ExportOptions {
-  format: 'png' | 'jpg' | 'pdf' | 'json'
+  format: 'png' | 'jpg' | 'pdf' | 'json' | 'markdown' | 'csv' | 'anki'
   quality?: number
   includeBackSide?: boolean
   includeMetadata?: boolean
@@ -129,18 +160,23 @@ export type CardAction =
   | { type: 'DESELECT_ALL' }
   | { type: 'DUPLICATE_CARD'; payload: string }
   | { type: 'MOVE_TO_FOLDER'; payload: { cardId: string; folderId?: string } }
+  | { type: 'IMPORT_CARDS'; payload: Card[] }
 
 export type FolderAction =
   | { type: 'CREATE_FOLDER'; payload: Omit<Folder, 'id' | 'createdAt' | 'updatedAt'> }
   | { type: 'UPDATE_FOLDER'; payload: { id: string; updates: Partial<Folder> } }
   | { type: 'DELETE_FOLDER'; payload: string; onDeleteCards?: (cardIds: string[]) => void }
   | { type: 'TOGGLE_FOLDER'; payload: string }
+  | { type: 'IMPORT_FOLDERS'; payload: Folder[] }
+  | { type: 'REORDER_FOLDERS'; payload: string[] } // 按新顺序排列的同级文件夹 ID
 
 export type TagAction =
   | { type: 'CREATE_TAG'; payload: Omit<Tag, 'id' | 'count' | 'createdAt'> }
   | { type: 'UPDATE_TAG'; payload: { id: string; updates: Partial<Tag> } }
   | { type: 'DELETE_TAG'; payload: string }
   | { type: 'TOGGLE_TAG_VISIBILITY'; payload: string }
+  | { type: 'IMPORT_TAGS'; payload: Tag[] }
+  | { type: 'REORDER_TAGS'; payload: string[] } // 按新顺序排列的标签 ID
 
 // Utility types
 export type CardPosition = 'front' | 'back'
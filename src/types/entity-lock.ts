@@ -0,0 +1,29 @@
+// 卡片/文件夹独立锁相关类型定义
+
+import { EncryptionAlgorithm } from './security'
+import { VaultKdfParams } from './vault'
+
+/**
+ * 单个卡片或文件夹的锁，密钥由该实体自己的 PIN/口令派生，与保险库口令无关
+ *
+ * 卡片：data 为正反面内容的密文，卡片上只保留不含内容的占位（标签除外）。
+ * 文件夹：data 为校验用的密文，用于验证 PIN；锁定时其中的卡片用同一密钥加密，
+ * 并在卡片的锁上记录 folderId，解锁文件夹即可一并解锁这些卡片。
+ */
+export interface EntityLock {
+  version: 1
+  kdf: VaultKdfParams
+  algorithm: EncryptionAlgorithm
+  iv: string // base64
+  data: string // base64
+  folderId?: string // 随文件夹锁定的卡片
+}
+
+export type EntityLockTarget =
+  | { type: 'card'; id: string }
+  | { type: 'folder'; id: string }
+
+export interface EntityLockState {
+  unlockedIds: string[] // 当前已解锁的卡片和文件夹
+  relockTimeoutMinutes: number
+}
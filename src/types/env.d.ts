@@ -1,4 +1,5 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/client" />
 
 interface ImportMetaEnv {
   readonly VITE_APP_NAME: string
@@ -14,6 +15,10 @@ interface ImportMetaEnv {
   readonly VITE_ENABLE_AUTH: string
   readonly VITE_ENABLE_REALTIME: string
   readonly VITE_ENABLE_DEBUG_MODE: string
+
+  // 同步服务器配置
+  readonly VITE_SYNC_SERVER_URL?: string
+  readonly VITE_SYNC_TOKEN?: string
 }
 
 interface ImportMeta {
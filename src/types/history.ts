@@ -0,0 +1,37 @@
+// 卡片版本历史相关类型定义
+import { CardContent, CardStyle } from './card'
+
+/**
+ * 快照中的卡片内容，不含每次保存都会变化的 lastModified
+ */
+export type SnapshotContent = Omit<CardContent, 'lastModified'>
+
+/**
+ * 内容寻址的卡片快照，以内容哈希为主键，相同内容的修订共享同一快照
+ */
+export interface CardSnapshot {
+  hash: string // 正反面内容和样式的 SHA-256
+  frontContent: SnapshotContent
+  backContent: SnapshotContent
+  style: CardStyle
+  size: number // 序列化后的字节数
+}
+
+/**
+ * 卡片的一次修订
+ */
+export interface CardRevision {
+  id?: number
+  cardId: string
+  hash: string // 指向 CardSnapshot
+  createdAt: Date
+  source: 'edit' | 'restore' | 'initial'
+}
+
+/**
+ * 修订保留策略：近期全部保留，之后每天保留一个，再之后每周保留一个
+ */
+export interface RevisionRetentionPolicy {
+  keepAllDays: number
+  keepDailyDays: number
+}
@@ -15,4 +15,44 @@ export * from './security'
 export * from './offline'
 
 // 本地存储架构类型
-export * from './offline-architecture'
\ No newline at end of file
+export * from './offline-architecture'
+// 间隔重复学习类型
+export * from './study'
+// 卡片导入导出类型
+export * from './interchange'
+// 卡片打印类型
+export * from './print'
+// 卡片截图类型
+export * from './screenshot'
+// 多设备同步类型
+export * from './sync'
+// 卡片版本历史类型
+export * from './history'
+// 撤销/重做类型
+export * from './undo'
+// 加密保险库类型
+export * from './vault'
+// 卡片/文件夹独立锁类型
+export * from './entity-lock'
+// 远程备份目标类型
+export * from './backup-target'
+// 时间机器类型
+export * from './time-machine'
+// PWA 类型
+export * from './pwa'
+// 内容捕获类型
+export * from './capture'
+// 网页剪藏类型
+export * from './web-clipper'
+// 卡片双向链接类型
+export * from './card-links'
+// 任务类型
+export * from './tasks'
+// 卡片分享类型
+export * from './share'
+// 画布视图类型
+export * from './canvas'
+// 手动排序类型
+export * from './ordering'
+// 智能文件夹类型
+export * from './saved-view'
\ No newline at end of file
@@ -0,0 +1,62 @@
+// 卡片导入导出（Markdown / CSV / Anki 文本）相关类型
+import { Card, Folder } from './card'
+
+export type InterchangeFormat = 'markdown' | 'csv' | 'anki'
+
+export interface InterchangeExportOptions {
+  format: InterchangeFormat
+  cardIds?: string[] // 为空时导出全部卡片
+  includeImages?: boolean
+}
+
+export interface InterchangeExportResult {
+  blob: Blob
+  fileName: string
+  cardCount: number
+  imageCount: number
+  warnings: string[]
+}
+
+// 解析得到的待导入卡片
+export interface ImportDraft extends Omit<Card, 'id' | 'createdAt' | 'updatedAt' | 'folderId' | 'isSelected'> {
+  sourceId?: string // 导出时记录的原卡片ID
+  sourceName: string // 来源文件（及行号）
+  folderPath: string[] // 文件夹路径，从根到叶
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type DuplicateStrategy = 'skip' | 'keep-both' | 'update'
+
+export interface ImportItem {
+  key: string
+  draft: ImportDraft
+  duplicateOf?: string // 重复的已有卡片ID
+  duplicateReason?: 'id' | 'content' | 'batch'
+  include: boolean
+  warnings: string[]
+}
+
+export interface ImportPreview {
+  format: InterchangeFormat
+  items: ImportItem[]
+  newFolderPaths: string[][] // 导入后需要新建的文件夹
+  errors: string[] // 无法解析的文件或行
+}
+
+export type ImportJobStatus = 'idle' | 'parsing' | 'ready' | 'importing' | 'done' | 'cancelled' | 'failed'
+
+export interface ImportJobProgress {
+  status: ImportJobStatus
+  processed: number
+  total: number
+  message?: string
+}
+
+export interface ImportPlan {
+  folders: Folder[]
+  cards: Card[]
+  updates: { id: string; updates: Partial<Card> }[]
+  folderUpdates: { id: string; cardIds: string[] }[] // 已有文件夹需追加的卡片ID
+  skipped: number
+}
@@ -128,12 +128,69 @@ export enum RiskLevel {
  */
 export enum ResolutionType {
   ACCEPT_LOCAL = 'accept_local',
+  ACCEPT_REMOTE = 'accept_remote',
   MERGE = 'merge',
   CREATE_NEW = 'create_new',
   MANUAL = 'manual',
+  MANUAL_INTERVENTION = 'manual_intervention',
   AUTO_RESOLVE = 'auto_resolve'
 }
 
+/**
+ * 冲突类型枚举
+ */
+export enum ConflictType {
+  CONCURRENT_MODIFICATION = 'concurrent_modification',
+  DATA_INCONSISTENCY = 'data_inconsistency',
+  NETWORK_CONFLICT = 'network_conflict',
+  DELETE_CONFLICT = 'delete_conflict'
+}
+
+/**
+ * 冲突信息接口
+ */
+export interface ConflictInfo {
+  /**
+   * 冲突ID
+   */
+  id: string
+
+  /**
+   * 冲突类型
+   */
+  type: ConflictType
+
+  /**
+   * 实体类型
+   */
+  entityType: string
+
+  /**
+   * 实体ID
+   */
+  entityId: string
+
+  /**
+   * 本地操作ID
+   */
+  localOperationId: string
+
+  /**
+   * 远程操作ID
+   */
+  remoteOperationId: string
+
+  /**
+   * 基础版本操作ID（双方分歧前的共同版本，用于三方合并）
+   */
+  baseOperationId?: string
+
+  /**
+   * 发现时间
+   */
+  detectedAt: Date
+}
+
 /**
  * 解决结果接口
  */
@@ -0,0 +1,38 @@
+// 手动排序（拖放重新排列）相关类型定义
+
+/**
+ * 未选择文件夹时使用的排序容器 ID
+ */
+export const ALL_CARDS_ORDER = 'all'
+
+/**
+ * 一个容器（文件夹或全部卡片）中卡片的手动顺序
+ * keys 为分数索引键，按字符串升序排列；没有键的卡片排在最前
+ */
+export interface CardOrder {
+  id: string
+  keys: Record<string, string>
+  updatedAt: Date
+}
+
+export type ReorderItemKind = 'card' | 'folder' | 'tag'
+
+/**
+ * 可拖动条目附带的数据
+ * scope 用于限定可以互相排序的范围，如同一父文件夹下的文件夹
+ */
+export interface ReorderItemData {
+  kind: ReorderItemKind
+  id: string
+  label: string
+  scope?: string
+}
+
+/**
+ * 卡片列表启用拖放排序时的参数，列表需位于 ReorderDndContext 中
+ */
+export interface CardReorderOptions {
+  selectedCardIds: string[]
+  onToggleSelect: (cardId: string) => void
+  disabled?: boolean // 搜索结果按相关度排列时不能排序
+}
@@ -0,0 +1,30 @@
+// 卡片打印 / PDF 导出相关类型
+
+export type PrintCardsPerPage = 1 | 2 | 4 | 8
+
+export type PrintPageSize = 'a4' | 'letter'
+
+// 双面打印翻转方式：长边翻转时背面左右镜像，短边翻转时上下镜像
+export type DuplexMode = 'off' | 'long-edge' | 'short-edge'
+
+export interface PdfExportOptions {
+  cardIds?: string[] // 指定卡片
+  folderId?: string // 指定文件夹（含子文件夹）
+  cardsPerPage: PrintCardsPerPage
+  pageSize: PrintPageSize
+  includeBackSide: boolean // 每页正面之后插入对应的背面页
+  duplex: DuplexMode
+  cropMarks: boolean
+  includeImages: boolean
+  margin?: number // 页边距（pt）
+  gutter?: number // 卡片间距（pt）
+}
+
+export interface PdfExportResult {
+  blob: Blob
+  fileName: string
+  cardCount: number
+  pageCount: number
+  rasterizedBlocks: number // 因字体不支持而栅格化的文本段数
+  warnings: string[]
+}
@@ -0,0 +1,32 @@
+// PWA（Service Worker 更新与后台同步）相关类型定义
+
+/**
+ * 后台同步使用的标签，Service Worker 收到该标签的 sync 事件时通知页面刷新队列
+ */
+export const BACKGROUND_SYNC_TAG = 'cardall-background-sync'
+
+/**
+ * 页面与 Service Worker 之间的消息
+ */
+export type ServiceWorkerMessage =
+  | { type: 'SKIP_WAITING' }
+  | { type: 'BACKGROUND_SYNC'; tag: string }
+
+/**
+ * 页面刷新队列后通过 MessageChannel 回复 Service Worker，失败时浏览器稍后重试
+ */
+export interface BackgroundSyncReply {
+  ok: boolean
+  error?: string
+}
+
+/**
+ * Service Worker 注册与更新状态
+ */
+export interface PWAState {
+  supported: boolean
+  registered: boolean
+  offlineReady: boolean // 首次安装完成，应用资源已预缓存
+  updateAvailable: boolean // 新版本已安装，等待激活
+  backgroundSync: boolean // 浏览器支持 Background Sync
+}
@@ -0,0 +1,30 @@
+// 智能文件夹（保存的视图）相关类型定义
+import { CardStyle, ViewSettings } from './card'
+
+/**
+ * 智能文件夹：命名保存的筛选条件和显示方式，卡片不属于它，而是按条件实时匹配
+ * query 使用搜索框的查询语法，其余字段与 query 中的同类条件同时生效
+ */
+export interface SavedView {
+  id: string
+  name: string
+  query: string // 搜索文本，可包含 tag: has: 等查询语法
+  tags: string[] // 包含任一标签
+  dateRange?: {
+    start?: Date // 按更新时间，缺省一端表示不限
+    end?: Date
+  }
+  hasImages?: boolean
+  styleType?: CardStyle['type']
+  sortBy: ViewSettings['sortBy']
+  sortOrder: ViewSettings['sortOrder']
+  layout: ViewSettings['layout']
+  order?: number // 侧栏中的顺序
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * 创建或编辑智能文件夹时填写的内容
+ */
+export type SavedViewDraft = Omit<SavedView, 'id' | 'order' | 'createdAt' | 'updatedAt'>
@@ -0,0 +1,46 @@
+// 卡片截图 / 批量导出相关类型
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp'
+
+export type CardSide = 'front' | 'back'
+
+export type ScreenshotSides = CardSide | 'both'
+
+export interface BatchScreenshotOptions {
+  cardIds?: string[] // 指定卡片
+  folderId?: string // 指定文件夹（含子文件夹）
+  tag?: string // 只导出带此标签的卡片
+  format: ScreenshotFormat
+  sides: ScreenshotSides
+  nameTemplate: string // 如 {folder}/{title}-{side}-{date}
+  quality?: number // JPEG / WebP 质量，0-1
+  pixelRatio?: number
+  width?: number // 渲染宽度（px）
+}
+
+export interface BatchScreenshotProgress {
+  processed: number
+  total: number
+  current?: string // 正在渲染的文件路径
+}
+
+export interface BatchScreenshotEntry {
+  path: string // ZIP 内的路径
+  cardId: string
+  side: CardSide
+  blob: Blob
+}
+
+export interface BatchScreenshotFailure {
+  cardId: string
+  title: string
+  side: CardSide
+  error: string
+}
+
+export interface BatchScreenshotResult {
+  blob: Blob
+  fileName: string // 不含 .zip 扩展名
+  entries: BatchScreenshotEntry[]
+  failures: BatchScreenshotFailure[]
+}
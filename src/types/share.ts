@@ -0,0 +1,57 @@
+// 卡片分享（分享链接 / .cardall 文件）相关类型定义
+import { CardStyle, ImageData } from './card'
+
+/**
+ * 分享链接中携带卡片数据的 URL 片段参数：#share=<数据>
+ */
+export const SHARE_HASH_PARAM = 'share'
+
+/**
+ * 分享文件的扩展名和类型
+ */
+export const SHARE_FILE_EXTENSION = '.cardall'
+export const SHARE_FILE_MIME = 'application/vnd.cardall+json'
+
+export const SHARE_FORMAT = 'cardall-card'
+export const SHARE_FORMAT_VERSION = 1
+
+/**
+ * 分享的卡片一面，图片均以 data URL 内嵌
+ */
+export interface SharedCardContent {
+  title: string
+  text: string
+  images: ImageData[]
+  tags: string[]
+  todos: Array<Record<string, string | boolean>> // text、completed 及可选的 due、priority、remind
+}
+
+/**
+ * 分享数据，不包含卡片 ID、文件夹和锁定等本地信息
+ */
+export interface SharedCard {
+  format: typeof SHARE_FORMAT
+  version: number
+  front: SharedCardContent
+  back: SharedCardContent
+  style: CardStyle
+  sharedAt: string
+}
+
+/**
+ * 准备好的分享：链接过长时 url 为 null，只能分享文件
+ */
+export interface PreparedShare {
+  title: string
+  url: string | null
+  file: File
+  warnings: string[] // 无法内嵌的图片等
+}
+
+/**
+ * 只读查看页的状态：打开分享链接或文件后显示卡片，数据无效时显示错误
+ */
+export interface ShareViewerState {
+  shared: SharedCard | null
+  error: string | null
+}
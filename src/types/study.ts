@@ -0,0 +1,62 @@
+// 间隔重复学习相关类型定义
+
+/**
+ * 复习评分
+ * again - 完全忘记，重新学习
+ * hard - 勉强想起
+ * good - 正常想起
+ * easy - 轻松想起
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+/**
+ * 单张卡片的调度状态（SM-2）
+ */
+export interface ReviewState {
+  cardId: string
+  easeFactor: number // 难度系数，最小 1.3
+  interval: number // 当前间隔（天）
+  repetitions: number // 连续答对次数
+  lapses: number // 遗忘次数
+  dueAt: Date // 下次复习时间
+  lastReviewedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * 复习记录
+ */
+export interface ReviewLog {
+  id?: number
+  cardId: string
+  grade: ReviewGrade
+  reviewedAt: Date
+  previousInterval: number
+  nextInterval: number
+  easeFactor: number
+  durationMs?: number // 作答耗时
+}
+
+/**
+ * 到期卡片统计
+ */
+export interface DueCounts {
+  total: number
+  newCards: number // 从未复习过的卡片
+  byFolder: Record<string, number>
+  byTag: Record<string, number>
+}
+
+/**
+ * 学习会话范围
+ */
+export interface StudyScope {
+  folderId?: string
+  tag?: string
+  cardIds?: string[]
+  limit?: number
+  includeNew?: boolean
+}
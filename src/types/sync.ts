@@ -0,0 +1,93 @@
+// 多设备同步相关类型
+
+export type SyncEntityType = 'card' | 'folder' | 'tag'
+
+/**
+ * 一条实体变更，推送和拉取使用同一结构
+ * 版本号由服务端分配，客户端推送时携带修改所基于的版本，服务端据此判断是否冲突
+ */
+export interface SyncChange {
+  entityType: SyncEntityType
+  entityId: string
+  operation: 'upsert' | 'delete'
+  data?: Record<string, unknown> // 实体的 JSON 数据，删除时为空
+  baseVersion: number // 修改所基于的服务端版本，新建为 0
+  version?: number // 服务端分配的版本，仅出现在服务端返回的变更中
+  updatedAt: string // ISO 时间
+  deviceId: string
+}
+
+export interface SyncPushRequest {
+  deviceId: string
+  changes: SyncChange[]
+}
+
+export interface SyncPushResult {
+  accepted: { entityType: SyncEntityType; entityId: string; version: number }[]
+  conflicts: SyncChange[] // 基础版本过期的变更，返回服务端当前版本
+}
+
+export interface SyncPullRequest {
+  deviceId: string
+  cursor: string | null // 上次拉取返回的游标，首次为空
+  limit?: number
+}
+
+export interface SyncPullResult {
+  changes: SyncChange[]
+  cursor: string
+  hasMore: boolean
+}
+
+/**
+ * 服务端需要实现的两个操作，进程内假服务器和点对点主机共用
+ */
+export interface SyncRequestHandler {
+  push(request: SyncPushRequest): Promise<SyncPushResult>
+  pull(request: SyncPullRequest): Promise<SyncPullResult>
+}
+
+export type SyncTransportKind = 'http' | 'websocket' | 'webrtc' | 'in-process'
+
+/**
+ * 连接同步服务器的配置，serverUrl 为空时不启用同步
+ * 服务器只提供 HTTP 接口，WebSocket 和 WebRTC 传输用于设备之间直接同步
+ */
+export interface SyncConnectionConfig {
+  serverUrl: string // 服务地址，请求 {serverUrl}/sync/push
+  token?: string // 服务端设置了访问令牌时使用
+}
+
+/**
+ * 可替换的传输层
+ */
+export interface SyncTransport extends SyncRequestHandler {
+  readonly kind: SyncTransportKind
+  /** 远端有新变更时通知，返回取消订阅函数 */
+  subscribe?(listener: () => void): () => void
+  close?(): void
+}
+
+// WebSocket / WebRTC 数据通道上的消息帧
+export type SyncMessage =
+  | { kind: 'request'; id: string; method: 'push'; payload: SyncPushRequest }
+  | { kind: 'request'; id: string; method: 'pull'; payload: SyncPullRequest }
+  | { kind: 'response'; id: string; result?: SyncPushResult | SyncPullResult; error?: string }
+  | { kind: 'notify' }
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  lastSyncAt?: Date
+  pendingChanges: number
+  conflicts: number // 等待人工处理的冲突
+  error?: string
+}
+
+export interface SyncRunResult {
+  pushed: number
+  pulled: number
+  merged: number // 由冲突引擎自动合并的冲突
+  conflicts: number // 记录为待处理的冲突
+}
@@ -0,0 +1,52 @@
+// 任务（卡片待办）相关类型定义
+import { TodoItem, TodoPriority } from './card'
+
+export const TODO_PRIORITIES: TodoPriority[] = ['high', 'medium', 'low']
+
+/**
+ * 任务视图中的一条待办及其所在卡片
+ */
+export interface TaskEntry {
+  todo: TodoItem
+  cardId: string
+  cardTitle: string
+  side: 'front' | 'back'
+  folderId?: string
+  tags: string[]
+}
+
+/**
+ * 任务视图的分组方式
+ */
+export type TaskGrouping = 'due' | 'folder' | 'tag'
+
+/**
+ * 按截止日期分组时的区间
+ */
+export type TaskDueBucket = 'overdue' | 'today' | 'tomorrow' | 'week' | 'later' | 'none'
+
+export interface TaskGroup {
+  key: string
+  label: string
+  tasks: TaskEntry[]
+}
+
+/**
+ * 卡片的待办完成进度（正反面合计）
+ */
+export interface TodoProgress {
+  completed: number
+  total: number
+}
+
+/**
+ * 到时间的提醒
+ */
+export interface TaskReminder {
+  todoId: string
+  cardId: string
+  text: string
+  cardTitle: string
+  remindAt: Date
+  dueDate?: Date
+}
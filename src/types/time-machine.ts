@@ -0,0 +1,94 @@
+// 时间机器（只读浏览历史备份）相关类型定义
+import { Card, Folder, Tag } from './card'
+
+/**
+ * 可挂载的数据来源：核心备份服务的备份、数据安全服务的备份或数据恢复服务的恢复点
+ */
+export type TimeMachineSourceType = 'backup' | 'security-backup' | 'recovery-point'
+
+/**
+ * 可在时间机器中挂载的一个历史数据集
+ */
+export interface TimeMachineSource {
+  type: TimeMachineSourceType
+  id: string
+  label: string
+  timestamp: Date
+  detail?: string // 列表中显示的补充信息，如卡片数量
+}
+
+/**
+ * 挂载后的只读数据集，实体已转换为应用使用的类型
+ */
+export interface TimeMachineDataset {
+  source: TimeMachineSource
+  cards: Card[]
+  folders: Folder[]
+  tags: Tag[]
+  mountedAt: Date
+}
+
+/**
+ * 当前数据相对于快照的变化：added 为快照之后新增，removed 为快照之后删除
+ */
+export type TimeMachineChangeKind = 'added' | 'removed' | 'changed'
+
+/**
+ * 单个实体的变化，snapshot 和 current 分别为快照中和当前的版本
+ */
+export interface TimeMachineChange<T> {
+  kind: TimeMachineChangeKind
+  id: string
+  name: string
+  snapshot?: T
+  current?: T
+}
+
+/**
+ * 按文件夹分组的卡片变化，folderId 为 null 表示未归档的卡片
+ */
+export interface TimeMachineFolderDiff {
+  folderId: string | null
+  folderName: string
+  changes: TimeMachineChange<Card>[]
+}
+
+/**
+ * 快照与当前数据的差异
+ */
+export interface TimeMachineDiff {
+  cardsByFolder: TimeMachineFolderDiff[]
+  folders: TimeMachineChange<Folder>[]
+  tags: TimeMachineChange<Tag>[]
+  summary: Record<TimeMachineChangeKind, number> // 卡片变化计数
+}
+
+/**
+ * 选择从快照中恢复的实体
+ */
+export interface TimeMachineSelection {
+  cardIds: string[]
+  folderIds: string[]
+  tagIds: string[]
+}
+
+/**
+ * 选择性恢复的执行计划：新建快照中已删除的实体，更新仍存在的实体
+ */
+export interface TimeMachineRestorePlan {
+  cards: Card[]
+  cardUpdates: Array<{ id: string; updates: Partial<Card> }>
+  folders: Folder[]
+  folderUpdates: Array<{ id: string; updates: Partial<Folder> }>
+  tags: Tag[]
+  tagUpdates: Array<{ id: string; updates: Partial<Tag> }>
+}
+
+/**
+ * 选择性恢复的结果
+ */
+export interface TimeMachineRestoreResult {
+  cards: number
+  folders: number
+  tags: number
+}
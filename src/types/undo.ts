@@ -0,0 +1,30 @@
+// 撤销/重做相关类型定义
+import { CardAction, FolderAction, TagAction } from './card'
+
+/**
+ * 可撤销的实体操作，按实体分派到对应的 dispatch
+ */
+export type UndoableAction =
+  | { entity: 'card'; action: CardAction }
+  | { entity: 'folder'; action: FolderAction }
+  | { entity: 'tag'; action: TagAction }
+
+/**
+ * 一次修改及其逆操作
+ */
+export interface UndoStep {
+  description: string
+  undo: UndoableAction[] // 按顺序执行即可还原
+  redo: UndoableAction[] // 按顺序执行即可重做
+}
+
+/**
+ * 撤销历史中的一项，由同一次用户操作产生的若干步骤组成
+ */
+export interface UndoEntry {
+  id?: number
+  stack: 'undo' | 'redo'
+  label: string
+  createdAt: Date
+  steps: UndoStep[]
+}
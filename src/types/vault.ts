@@ -0,0 +1,42 @@
+// 加密保险库相关类型定义
+
+export type VaultKdfAlgorithm = 'argon2id' | 'scrypt'
+
+/**
+ * 口令派生参数，盐值为 base64
+ */
+export type VaultKdfParams =
+  | { algorithm: 'argon2id'; salt: string; memory: number; iterations: number; parallelism: number }
+  | { algorithm: 'scrypt'; salt: string; cost: number; blockSize: number; parallelism: number }
+
+/**
+ * 被包装（加密）的数据密钥，均为 base64
+ */
+export interface WrappedKey {
+  nonce: string
+  data: string
+}
+
+/**
+ * 保险库头信息，保存在设置表中
+ *
+ * 数据密钥（DEK）只以包装后的形式保存：一份由口令派生的密钥包装，
+ * 一份由恢复密钥包装。修改口令时只需重新包装 DEK，已加密数据不变。
+ */
+export interface VaultHeader {
+  version: 1
+  kdf: VaultKdfParams
+  wrappedKey: WrappedKey
+  recoveryWrappedKey: WrappedKey
+  idleTimeoutMinutes: number // 0 表示不自动锁定
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type VaultStatus = 'loading' | 'disabled' | 'locked' | 'unlocked'
+
+export interface VaultState {
+  status: VaultStatus
+  kdfAlgorithm?: VaultKdfAlgorithm
+  idleTimeoutMinutes: number
+}
@@ -0,0 +1,44 @@
+// 网页剪藏相关类型定义
+
+/**
+ * 剪藏设置：浏览器不能跨域读取网页，页面和图片经代理抓取
+ */
+export interface WebClipperSettings {
+  proxyUrl: string // 代理地址，{url} 替换为编码后的网页地址；没有 {url} 时追加 url 查询参数；为空时直接请求
+  proxyToken?: string // 代理的访问令牌，以 Bearer 方式发送
+}
+
+/**
+ * 从网页中提取的正文和元数据
+ */
+export interface ExtractedArticle {
+  title: string
+  byline?: string
+  siteName?: string
+  excerpt?: string
+  publishedAt?: Date
+  leadImageUrl?: string // 已解析为绝对地址
+  content: string // 正文 HTML，尚未转换为编辑器格式
+  textLength: number
+}
+
+/**
+ * 剪藏结果，确认后保存为卡片
+ */
+export interface WebClip {
+  requestedUrl: string
+  url: string // 重定向后的最终地址
+  article: ExtractedArticle
+  html: string // 转换为编辑器格式的正文
+  leadImage?: Blob
+  capturedAt: Date
+  warnings: string[]
+}
+
+/**
+ * 保存剪藏时的选项
+ */
+export interface WebClipSaveOptions {
+  folderId?: string
+  tags?: string[]
+}
@@ -0,0 +1,13 @@
+/**
+ * 取消操作时抛出的错误，与 fetch 等浏览器 API 一致使用 AbortError
+ */
+export function abortError(): DOMException {
+  return new DOMException('Operation cancelled', 'AbortError')
+}
+
+/**
+ * 信号已取消时抛出 AbortError
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError()
+}
@@ -146,7 +146,8 @@ export function logConfigInfo(config: AppConfigType = AppConfig, verbose: boolea
  */
 export function exportConfig(config: AppConfigType = AppConfig): string {
   return JSON.stringify({
-    config,
+    // 不导出同步访问令牌
+    config: { ...config, sync: { ...config.sync, token: undefined } },
     validation: validateConfig(config),
     timestamp: new Date().toISOString(),
     version: import.meta.env.VITE_APP_VERSION || '1.0.0'
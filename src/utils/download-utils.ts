@@ -0,0 +1,17 @@
+/**
+ * 触发浏览器下载
+ * @param blob 文件内容
+ * @param fileName 完整文件名（含扩展名）
+ */
+export function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+
+  document.body.appendChild(link)
+  link.click()
+
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,437 @@
+/**
+ * PDF 生成工具
+ *
+ * 只实现打印卡片所需的子集：矢量图形、标准 14 字体（WinAnsi 编码）的文本、
+ * JPEG 和带透明通道的 RGB 图片、线性渐变。页面坐标以左上角为原点、单位为 pt，
+ * 写入时再转换为 PDF 的左下角坐标系。内容流在浏览器支持 CompressionStream 时压缩。
+ */
+
+export type StandardFont =
+  | 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique' | 'Helvetica-BoldOblique'
+  | 'Times-Roman' | 'Times-Bold' | 'Times-Italic' | 'Times-BoldItalic'
+  | 'Courier' | 'Courier-Bold' | 'Courier-Oblique' | 'Courier-BoldOblique'
+
+export interface RgbColor {
+  r: number // 0-1
+  g: number
+  b: number
+}
+
+export interface GradientStop {
+  offset: number // 0-1
+  color: RgbColor
+}
+
+// 常用纸张尺寸（pt）
+export const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+} as const
+
+// Unicode 到 WinAnsi（CP1252）0x80-0x9F 区间的映射
+const WIN_ANSI_SPECIALS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+}
+
+function toWinAnsi(code: number): number | null {
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code
+  return WIN_ANSI_SPECIALS[code] ?? null
+}
+
+/**
+ * 文本能否用标准字体直接输出（否则需要栅格化）
+ */
+export function isWinAnsiEncodable(text: string): boolean {
+  for (const char of text) {
+    if (char === '\n' || char === '\t') continue
+    if (toWinAnsi(char.codePointAt(0)!) === null) return false
+  }
+  return true
+}
+
+function encodeWinAnsiHex(text: string): string {
+  let hex = ''
+  for (const char of text) {
+    const byte = toWinAnsi(char.codePointAt(0)!) ?? 0x3f // 无法编码时输出 ?
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return `<${hex}>`
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+function colorComponents(color: RgbColor): string {
+  return `${num(color.r)} ${num(color.g)} ${num(color.b)}`
+}
+
+interface PdfImage {
+  name: string
+  dictionary: string
+  data: Uint8Array
+  smask?: { dictionary: string; data: Uint8Array }
+}
+
+/**
+ * 单个页面的绘图指令
+ */
+export class PdfPage {
+  private ops: string[] = []
+
+  constructor(
+    private writer: PdfWriter,
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  get content(): string {
+    return this.ops.join('\n')
+  }
+
+  save(): this {
+    this.ops.push('q')
+    return this
+  }
+
+  restore(): this {
+    this.ops.push('Q')
+    return this
+  }
+
+  setFillColor(color: RgbColor): this {
+    this.ops.push(`${colorComponents(color)} rg`)
+    return this
+  }
+
+  setStrokeColor(color: RgbColor): this {
+    this.ops.push(`${colorComponents(color)} RG`)
+    return this
+  }
+
+  setLineWidth(width: number): this {
+    this.ops.push(`${num(width)} w`)
+    return this
+  }
+
+  rect(x: number, y: number, width: number, height: number): this {
+    this.ops.push(`${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`)
+    return this
+  }
+
+  /**
+   * 圆角矩形路径，使用贝塞尔曲线近似四分之一圆
+   */
+  roundedRect(x: number, y: number, width: number, height: number, radius: number): this {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+    if (r === 0) return this.rect(x, y, width, height)
+
+    const k = r * 0.5523
+    const left = x
+    const right = x + width
+    const top = this.height - y
+    const bottom = this.height - y - height
+
+    this.ops.push(
+      `${num(left + r)} ${num(top)} m`,
+      `${num(right - r)} ${num(top)} l`,
+      `${num(right - r + k)} ${num(top)} ${num(right)} ${num(top - r + k)} ${num(right)} ${num(top - r)} c`,
+      `${num(right)} ${num(bottom + r)} l`,
+      `${num(right)} ${num(bottom + r - k)} ${num(right - r + k)} ${num(bottom)} ${num(right - r)} ${num(bottom)} c`,
+      `${num(left + r)} ${num(bottom)} l`,
+      `${num(left + r - k)} ${num(bottom)} ${num(left)} ${num(bottom + r - k)} ${num(left)} ${num(bottom + r)} c`,
+      `${num(left)} ${num(top - r)} l`,
+      `${num(left)} ${num(top - r + k)} ${num(left + r - k)} ${num(top)} ${num(left + r)} ${num(top)} c`,
+      'h'
+    )
+    return this
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): this {
+    this.ops.push(`${num(x1)} ${num(this.height - y1)} m`, `${num(x2)} ${num(this.height - y2)} l`, 'S')
+    return this
+  }
+
+  fill(): this {
+    this.ops.push('f')
+    return this
+  }
+
+  stroke(): this {
+    this.ops.push('S')
+    return this
+  }
+
+  fillAndStroke(): this {
+    this.ops.push('B')
+    return this
+  }
+
+  // 以当前路径为裁剪区域
+  clip(): this {
+    this.ops.push('W n')
+    return this
+  }
+
+  /**
+   * 在基线位置输出一段文本
+   */
+  text(text: string, x: number, baseline: number, font: StandardFont, size: number): this {
+    if (!text) return this
+    const name = this.writer.useFont(font)
+    this.ops.push(
+      'BT',
+      `/${name} ${num(size)} Tf`,
+      `${num(x)} ${num(this.height - baseline)} Td`,
+      `${encodeWinAnsiHex(text)} Tj`,
+      'ET'
+    )
+    return this
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number): this {
+    this.ops.push(
+      'q',
+      `${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm`,
+      `/${name} Do`,
+      'Q'
+    )
+    return this
+  }
+
+  /**
+   * 用线性渐变填充当前裁剪区域，起止点为页面坐标
+   */
+  linearGradient(x1: number, y1: number, x2: number, y2: number, stops: GradientStop[]): this {
+    const name = this.writer.addAxialShading(
+      [x1, this.height - y1, x2, this.height - y2],
+      stops
+    )
+    this.ops.push(`/${name} sh`)
+    return this
+  }
+}
+
+/**
+ * PDF 文档写入器
+ */
+export class PdfWriter {
+  private pages: PdfPage[] = []
+  private fonts = new Map<StandardFont, string>()
+  private images: PdfImage[] = []
+  private shadings: { name: string; dictionary: string }[] = []
+
+  constructor(private info: { title?: string } = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(this, width, height)
+    this.pages.push(page)
+    return page
+  }
+
+  useFont(font: StandardFont): string {
+    let name = this.fonts.get(font)
+    if (!name) {
+      name = `F${this.fonts.size + 1}`
+      this.fonts.set(font, name)
+    }
+    return name
+  }
+
+  /**
+   * 添加 JPEG 图片，返回资源名
+   */
+  addJpegImage(data: Uint8Array, width: number, height: number): string {
+    const name = `Im${this.images.length + 1}`
+    this.images.push({
+      name,
+      data,
+      dictionary: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`
+    })
+    return name
+  }
+
+  /**
+   * 添加 RGB 像素图片，alpha 为逐像素透明度（可选），返回资源名
+   */
+  async addRgbImage(rgb: Uint8Array, width: number, height: number, alpha?: Uint8Array): Promise<string> {
+    // 先占位，保证并发调用时资源名不重复
+    const entry: PdfImage = { name: `Im${this.images.length + 1}`, dictionary: '', data: new Uint8Array() }
+    this.images.push(entry)
+
+    const image = await compressStream(rgb)
+    entry.data = image.data
+    entry.dictionary = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8${image.filter}`
+
+    if (alpha) {
+      const mask = await compressStream(alpha)
+      entry.smask = {
+        data: mask.data,
+        dictionary: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8${mask.filter}`
+      }
+    }
+    return entry.name
+  }
+
+  addAxialShading(coords: [number, number, number, number], stops: GradientStop[]): string {
+    const name = `Sh${this.shadings.length + 1}`
+    this.shadings.push({
+      name,
+      dictionary: `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [${coords.map(num).join(' ')}] /Function ${gradientFunction(stops)} /Extend [true true] >>`
+    })
+    return name
+  }
+
+  async finish(): Promise<Blob> {
+    const objects: Uint8Array[][] = []
+    const encoder = new TextEncoder()
+    const reserve = () => {
+      objects.push([])
+      return objects.length
+    }
+    const set = (id: number, ...parts: (string | Uint8Array)[]) => {
+      objects[id - 1] = parts.map(part => typeof part === 'string' ? encoder.encode(part) : part)
+    }
+    const setStream = (id: number, dictionary: string, data: Uint8Array) => {
+      set(id, `<< ${dictionary} /Length ${data.length} >>\nstream\n`, data, '\nendstream')
+    }
+
+    const catalogId = reserve()
+    const pagesId = reserve()
+    const resourcesId = reserve()
+    const infoId = reserve()
+
+    // 所有页面共用同一份资源字典
+    const fontRefs: string[] = []
+    for (const [font, name] of this.fonts) {
+      const id = reserve()
+      set(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)
+      fontRefs.push(`/${name} ${id} 0 R`)
+    }
+
+    const imageRefs: string[] = []
+    for (const image of this.images) {
+      const id = reserve()
+      let dictionary = image.dictionary
+      if (image.smask) {
+        const maskId = reserve()
+        setStream(maskId, image.smask.dictionary, image.smask.data)
+        dictionary += ` /SMask ${maskId} 0 R`
+      }
+      setStream(id, dictionary, image.data)
+      imageRefs.push(`/${image.name} ${id} 0 R`)
+    }
+
+    const shadingRefs: string[] = []
+    for (const shading of this.shadings) {
+      const id = reserve()
+      set(id, shading.dictionary)
+      shadingRefs.push(`/${shading.name} ${id} 0 R`)
+    }
+
+    set(resourcesId, [
+      '<<',
+      `/Font << ${fontRefs.join(' ')} >>`,
+      `/XObject << ${imageRefs.join(' ')} >>`,
+      `/Shading << ${shadingRefs.join(' ')} >>`,
+      '/ProcSet [/PDF /Text /ImageB /ImageC]',
+      '>>'
+    ].join(' '))
+
+    const pageRefs: string[] = []
+    for (const page of this.pages) {
+      const pageId = reserve()
+      const contentId = reserve()
+      const content = await compressStream(encoder.encode(page.content))
+      setStream(contentId, content.filter.trim(), content.data)
+      set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R >>`)
+      pageRefs.push(`${pageId} 0 R`)
+    }
+
+    set(pagesId, `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`)
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+    set(infoId, `<< /Producer ${pdfTextString('CardAll')}${this.info.title ? ` /Title ${pdfTextString(this.info.title)}` : ''} /CreationDate ${pdfTextString(pdfDate(new Date()))} >>`)
+
+    // 组装文件并记录交叉引用偏移
+    const parts: Uint8Array[] = []
+    let offset = 0
+    const push = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? encoder.encode(part) : part
+      parts.push(bytes)
+      offset += bytes.length
+    }
+
+    // 第二行的高位字节标记文件包含二进制内容
+    push('%PDF-1.4\n')
+    push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+    const offsets: number[] = []
+    objects.forEach((body, index) => {
+      offsets.push(offset)
+      push(`${index + 1} 0 obj\n`)
+      body.forEach(push)
+      push('\nendobj\n')
+    })
+
+    const xrefOffset = offset
+    push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`)
+    push(offsets.map(value => `${String(value).padStart(10, '0')} 00000 n \n`).join(''))
+    push(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' })
+  }
+}
+
+function gradientFunction(stops: GradientStop[]): string {
+  const sorted = [...stops].sort((a, b) => a.offset - b.offset)
+  if (sorted.length === 1) sorted.push(sorted[0])
+
+  const segment = (from: RgbColor, to: RgbColor) =>
+    `<< /FunctionType 2 /Domain [0 1] /C0 [${colorComponents(from)}] /C1 [${colorComponents(to)}] /N 1 >>`
+
+  if (sorted.length === 2) return segment(sorted[0].color, sorted[1].color)
+
+  // 多个色标使用拼接函数
+  const functions: string[] = []
+  const bounds: number[] = []
+  const encode: string[] = []
+  for (let i = 0; i < sorted.length - 1; i++) {
+    functions.push(segment(sorted[i].color, sorted[i + 1].color))
+    encode.push('0 1')
+    if (i > 0) bounds.push(sorted[i].offset)
+  }
+  return `<< /FunctionType 3 /Domain [0 1] /Functions [${functions.join(' ')}] /Bounds [${bounds.map(num).join(' ')}] /Encode [${encode.join(' ')}] >>`
+}
+
+// 文档信息使用 UTF-16BE 十六进制字符串，支持中文标题
+function pdfTextString(text: string): string {
+  let hex = 'FEFF'
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0')
+  }
+  return `<${hex}>`
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+/**
+ * 使用 zlib（deflate）压缩流数据，对应 PDF 的 FlateDecode；不支持时原样输出
+ */
+async function compressStream(data: Uint8Array): Promise<{ data: Uint8Array; filter: string }> {
+  if (typeof CompressionStream === 'undefined') {
+    return { data, filter: '' }
+  }
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer())
+  return { data: compressed, filter: ' /Filter /FlateDecode' }
+}
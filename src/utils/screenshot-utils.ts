@@ -1,25 +1,40 @@
-import { domToPng } from 'modern-screenshot'
+import { domToBlob } from 'modern-screenshot'
+import { ScreenshotFormat } from '@/types/screenshot'
+import { downloadFile } from './download-utils'
+
+export const SCREENSHOT_MIME_TYPES: Record<ScreenshotFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+}
+
+export const SCREENSHOT_EXTENSIONS: Record<ScreenshotFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp'
+}
 
 /**
  * 清理文件名，移除特殊字符，保留空格
  * @param title 原始标题
  * @param maxLength 最大长度，默认30
+ * @param fallback 清理后为空时使用的名称
  * @returns 清理后的文件名
  */
-export function sanitizeFileName(title: string, maxLength: number = 30): string {
+export function sanitizeFileName(title: string, maxLength: number = 30, fallback: string = 'untitled-card'): string {
   if (!title || title.trim() === '') {
-    return 'untitled-card'
+    return fallback
   }
   
   // 移除特殊字符，保留中文、英文、数字、空格、连字符、下划线
   let cleanTitle = title
-    .replace(/[^\w\s\u4e00-\u9fff\u3400-\u4dbf\u20000-\u2a6df\u2a700-\u2b73f\u2b740-\u2b81f\u2b820-\u2ceaf\uf900-\ufaff\u3300-\u33ff-]/g, '')
+    .replace(/[^\w\s\u4e00-\u9fff\u3400-\u4dbf\u{20000}-\u{2a6df}\u{2a700}-\u{2b73f}\u{2b740}-\u{2b81f}\u{2b820}-\u{2ceaf}\uf900-\ufaff\u3300-\u33ff-]/gu, '')
     .replace(/\s+/g, ' ') // 将多个空格替换为单个空格
     .trim()
   
   // 如果清理后为空，使用默认名称
   if (!cleanTitle) {
-    return 'untitled-card'
+    return fallback
   }
   
   // 截取指定长度
@@ -42,6 +57,8 @@ export interface ScreenshotOptions {
   backgroundColor?: string
   /** 是否包含样式，默认true */
   includeStyles?: boolean
+  /** 输出格式，默认png */
+  format?: ScreenshotFormat
 }
 
 /**
@@ -58,14 +75,16 @@ export async function captureElementAsBlob(
     quality = 1.0,
     pixelRatio = 3,
     backgroundColor = 'transparent',
-    includeStyles = true
+    includeStyles = true,
+    format = 'png'
   } = options
 
   try {
     // 使用 modern-screenshot 进行截图
-    const dataUrl = await domToPng(element, {
+    return await domToBlob(element, {
+      type: SCREENSHOT_MIME_TYPES[format],
       quality,
-      pixelRatio,
+      scale: pixelRatio,
       backgroundColor,
       style: includeStyles ? undefined : {},
       // 确保截图包含所有样式和阴影
@@ -80,10 +99,6 @@ export async function captureElementAsBlob(
         return true
       }
     })
-
-    // 将 data URL 转换为 Blob
-    const response = await fetch(dataUrl)
-    return await response.blob()
   } catch (error) {
     console.error('Screenshot capture failed:', error)
     throw new Error('Failed to capture screenshot')
@@ -94,20 +109,10 @@ export async function captureElementAsBlob(
  * 下载blob为文件
  * @param blob 文件blob
  * @param fileName 文件名（不含扩展名）
+ * @param extension 扩展名，默认png
  */
-export function downloadBlob(blob: Blob, fileName: string): void {
-  const url = URL.createObjectURL(blob)
-  const link = document.createElement('a')
-  link.href = url
-  link.download = `${fileName}.png`
-  
-  // 触发下载
-  document.body.appendChild(link)
-  link.click()
-  
-  // 清理
-  document.body.removeChild(link)
-  URL.revokeObjectURL(url)
+export function downloadBlob(blob: Blob, fileName: string, extension: string = 'png'): void {
+  downloadFile(blob, `${fileName}.${extension}`)
 }
 
 /**
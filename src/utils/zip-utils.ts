@@ -0,0 +1,276 @@
+/**
+ * ZIP 打包工具
+ *
+ * 写入使用 STORE（不压缩）方式，文件内容以 Blob 片段拼接，避免一次性占用大量内存；
+ * 读取支持 STORE 和 DEFLATE（依赖浏览器的 DecompressionStream）。
+ */
+
+export type ZipInput = Blob | Uint8Array | string
+
+export interface ZipEntry {
+  path: string
+  size: number
+  isDirectory: boolean
+  lastModified: Date
+  blob: () => Promise<Blob>
+  text: () => Promise<string>
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const UTF8_FLAG = 0x0800
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let value = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    value = CRC_TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8)
+  }
+  return (value ^ 0xffffffff) >>> 0
+}
+
+// ============================================================================
+// 写入
+// ============================================================================
+
+interface CentralRecord {
+  nameBytes: Uint8Array<ArrayBuffer>
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+/**
+ * 增量 ZIP 写入器，逐个添加文件后调用 finish() 得到 Blob
+ */
+export class ZipWriter {
+  private parts: BlobPart[] = []
+  private records: CentralRecord[] = []
+  private usedPaths = new Set<string>()
+  private offset = 0
+
+  get fileCount(): number {
+    return this.records.length
+  }
+
+  /**
+   * 添加文件，路径重复时自动追加序号，返回实际写入的路径
+   */
+  async add(path: string, input: ZipInput, lastModified = new Date()): Promise<string> {
+    const uniquePath = this.uniquePath(normalizeZipPath(path))
+    const data = await toBytes(input)
+    const nameBytes = new TextEncoder().encode(uniquePath)
+    const { time, date } = toDosDateTime(lastModified)
+    const crc = crc32(data)
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, LOCAL_FILE_HEADER, true)
+    header.setUint16(4, 20, true) // 所需版本
+    header.setUint16(6, UTF8_FLAG, true)
+    header.setUint16(8, 0, true) // STORE
+    header.setUint16(10, time, true)
+    header.setUint16(12, date, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, data.length, true)
+    header.setUint32(22, data.length, true)
+    header.setUint16(26, nameBytes.length, true)
+    header.setUint16(28, 0, true)
+
+    // Blob 输入直接引用原对象，字节副本计算完 CRC 后即可回收，批量导出大文件时不会常驻内存
+    this.parts.push(header.buffer, nameBytes, input instanceof Blob ? input : data)
+    this.records.push({ nameBytes, crc, size: data.length, offset: this.offset, time, date })
+    this.offset += 30 + nameBytes.length + data.length
+
+    return uniquePath
+  }
+
+  finish(): Blob {
+    const centralParts: BlobPart[] = []
+    let centralSize = 0
+
+    for (const record of this.records) {
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+      header.setUint16(4, 20, true) // 创建版本
+      header.setUint16(6, 20, true) // 所需版本
+      header.setUint16(8, UTF8_FLAG, true)
+      header.setUint16(10, 0, true)
+      header.setUint16(12, record.time, true)
+      header.setUint16(14, record.date, true)
+      header.setUint32(16, record.crc, true)
+      header.setUint32(20, record.size, true)
+      header.setUint32(24, record.size, true)
+      header.setUint16(28, record.nameBytes.length, true)
+      header.setUint16(30, 0, true)
+      header.setUint16(32, 0, true)
+      header.setUint16(34, 0, true)
+      header.setUint16(36, 0, true)
+      header.setUint32(38, 0, true)
+      header.setUint32(42, record.offset, true)
+
+      centralParts.push(header.buffer, record.nameBytes)
+      centralSize += 46 + record.nameBytes.length
+    }
+
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+    end.setUint16(8, this.records.length, true)
+    end.setUint16(10, this.records.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, this.offset, true)
+
+    return new Blob([...this.parts, ...centralParts, end.buffer], { type: 'application/zip' })
+  }
+
+  private uniquePath(path: string): string {
+    let candidate = path
+    let counter = 2
+    while (this.usedPaths.has(candidate.toLowerCase())) {
+      const dot = path.lastIndexOf('.')
+      const slash = path.lastIndexOf('/')
+      candidate = dot > slash + 1
+        ? `${path.slice(0, dot)} (${counter})${path.slice(dot)}`
+        : `${path} (${counter})`
+      counter++
+    }
+    this.usedPaths.add(candidate.toLowerCase())
+    return candidate
+  }
+}
+
+// ============================================================================
+// 读取
+// ============================================================================
+
+/**
+ * 读取 ZIP 文件的条目列表，文件内容按需解压
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  // 结束记录位于文件末尾，最多带 64KB 注释
+  const tailSize = Math.min(file.size, 22 + 0xffff)
+  const tail = new DataView(await file.slice(file.size - tailSize).arrayBuffer())
+
+  let endOffset = -1
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a valid ZIP file')
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true)
+  const centralSize = tail.getUint32(endOffset + 12, true)
+  const centralOffset = tail.getUint32(endOffset + 16, true)
+  const central = new DataView(await file.slice(centralOffset, centralOffset + centralSize).arrayBuffer())
+  const decoder = new TextDecoder()
+
+  const entries: ZipEntry[] = []
+  let cursor = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (central.getUint32(cursor, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupted ZIP central directory')
+    }
+
+    const method = central.getUint16(cursor + 10, true)
+    const time = central.getUint16(cursor + 12, true)
+    const date = central.getUint16(cursor + 14, true)
+    const compressedSize = central.getUint32(cursor + 20, true)
+    const size = central.getUint32(cursor + 24, true)
+    const nameLength = central.getUint16(cursor + 28, true)
+    const extraLength = central.getUint16(cursor + 30, true)
+    const commentLength = central.getUint16(cursor + 32, true)
+    const localOffset = central.getUint32(cursor + 42, true)
+    const path = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + cursor + 46, nameLength))
+
+    cursor += 46 + nameLength + extraLength + commentLength
+
+    const readBlob = async (): Promise<Blob> => {
+      const local = new DataView(await file.slice(localOffset, localOffset + 30).arrayBuffer())
+      const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true)
+      const raw = file.slice(dataStart, dataStart + compressedSize)
+
+      if (method === 0) return raw
+      if (method === 8) return inflateRaw(raw)
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`)
+    }
+
+    entries.push({
+      path,
+      size,
+      isDirectory: path.endsWith('/'),
+      lastModified: fromDosDateTime(time, date),
+      blob: readBlob,
+      text: async () => (await readBlob()).text()
+    })
+  }
+
+  return entries
+}
+
+export function isZipFile(file: File): boolean {
+  return file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name)
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+// 统一为独立 ArrayBuffer 上的字节，便于作为 Blob 片段
+async function toBytes(input: ZipInput): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof input === 'string') return new TextEncoder().encode(input)
+  if (input instanceof Uint8Array) return new Uint8Array(input)
+  return new Uint8Array(await input.arrayBuffer())
+}
+
+async function inflateRaw(blob: Blob): Promise<Blob> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed ZIP entries are not supported in this browser')
+  }
+  const stream = blob.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).blob()
+}
+
+// 去掉开头的斜杠和路径中的非法片段
+function normalizeZipPath(path: string): string {
+  return path
+    .split(/[\\/]+/)
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/') || 'file'
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(1980, value.getFullYear())
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  }
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  )
+}
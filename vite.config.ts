@@ -21,37 +21,15 @@ export default defineConfig(({ mode }) => {
       }
     }),
     VitePWA({
-      registerType: 'autoUpdate',
-      workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,webp}'],
-        // 优化 PWA 缓存策略
-        runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/fonts\.(googleapis|gstatic)\.com\//i,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'google-fonts',
-              expiration: {
-                maxEntries: 10,
-                maxAgeSeconds: 60 * 60 * 24 * 365 // 1 年
-              },
-              cacheableResponse: {
-                statuses: [0, 200]
-              }
-            }
-          },
-          {
-            urlPattern: /\.(?:png|jpg|jpeg|svg|gif)$/i,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'images',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60 * 60 * 24 * 30 // 30 天
-              }
-            }
-          }
-        ]
+      // Service Worker 由 src/sw.ts 构建，构建时注入带哈希的预缓存清单
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      // 新版本等待用户确认后再激活，注册由 pwaService 负责
+      registerType: 'prompt',
+      injectRegister: false,
+      injectManifest: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,webp,woff2}']
       },
       includeAssets: ['favicon.ico', 'cardall-icon.svg', 'apple-touch-icon.png'],
       manifest: {
@@ -75,7 +53,39 @@ export default defineConfig(({ mode }) => {
             type: 'image/png',
             purpose: 'apple-touch-icon'
           }
-        ]
+        ],
+        // 作为系统分享目标接收文本、链接和图片，由 Service Worker 暂存后打开捕获流程
+        share_target: {
+          action: '/share-target',
+          method: 'POST',
+          enctype: 'multipart/form-data',
+          params: {
+            title: 'title',
+            text: 'text',
+            url: 'url',
+            files: [
+              {
+                name: 'files',
+                accept: ['image/*', 'text/plain', 'text/markdown', 'application/vnd.cardall+json', '.md', '.markdown', '.txt', '.cardall']
+              }
+            ]
+          }
+        },
+        // 以 CardAll 打开 Markdown、文本、图片和分享的卡片文件
+        file_handlers: [
+          {
+            action: '/?capture=launch',
+            accept: {
+              'text/markdown': ['.md', '.markdown'],
+              'text/plain': ['.txt'],
+              'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
+              'application/vnd.cardall+json': ['.cardall']
+            }
+          }
+        ],
+        launch_handler: {
+          client_mode: 'focus-existing'
+        }
       },
       devOptions: {
         enabled: false